@@ -25,6 +25,7 @@ import GeneratedTestPage from "./pages/teacher/GeneratedTestPage";
 import TeacherHistory from "./pages/teacher/History";
 import TOSHistory from "./pages/teacher/TOSHistory";
 import TOSViewPage from "./pages/teacher/TOSViewPage";
+import ResponseEntryPage from "./pages/teacher/ResponseEntryPage";
 import TeacherReports from "./pages/teacher/Reports";
 import TeacherSettings from "./pages/teacher/Settings";
 import ProfessionalExport from "./pages/ProfessionalExport";
@@ -32,6 +33,7 @@ import AIAssistant from "./pages/AIAssistant";
 import Tests from "./pages/Tests";
 import Collaboration from "./pages/Collaboration";
 import Quality from "./pages/Quality";
+import ClassificationReview from "./pages/ClassificationReview";
 import TestAssembly from "./pages/TestAssembly";
 import { ProtectedRoute } from "./components/ProtectedRoute";
 import { AdminLayout } from "./components/layout/AdminLayout";
@@ -74,6 +76,7 @@ const App = () => {
                         <Route path="ai-assistant" element={<AIAssistant />} />
                         <Route path="ai-logs" element={<AILogs />} />
                         <Route path="quality" element={<Quality />} />
+                        <Route path="classification-review" element={<ClassificationReview />} />
                         <Route path="test-assembly" element={<TestAssembly />} />
                         <Route path="tests" element={<Tests />} />
                         <Route path="collaboration" element={<Collaboration />} />
@@ -100,6 +103,7 @@ const App = () => {
                         <Route path="test/:testId" element={<TestPreview />} />
                         <Route path="generated-test/:testId" element={<GeneratedTestPage />} />
                         <Route path="preview-test/:testId" element={<GeneratedTestPage />} />
+                        <Route path="responses/:testId" element={<ResponseEntryPage />} />
                         <Route path="history" element={<TeacherHistory />} />
                         <Route path="tos-history" element={<TOSHistory />} />
                         <Route path="tos-view/:tosId" element={<TOSViewPage />} />
@@ -108,6 +112,7 @@ const App = () => {
                         <Route path="export" element={<ProfessionalExport />} />
                         <Route path="tests" element={<Tests />} />
                         <Route path="collaboration" element={<Collaboration />} />
+                        <Route path="classification-review" element={<ClassificationReview />} />
                         <Route path="settings" element={<TeacherSettings />} />
                       </Routes>
                     </TeacherLayout>
@@ -1,8 +1,6 @@
 import React, { useState, useCallback } from 'react';
 import { useDropzone } from 'react-dropzone';
 import Papa from 'papaparse';
-import * as pdfjsLib from 'pdfjs-dist';
-import pdfjsWorker from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
@@ -12,11 +10,28 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Upload, FileText, CircleCheck as CheckCircle, CircleAlert as AlertCircle, X, Download, Brain, Sparkles, Eye, Save, Pencil } from 'lucide-react';
 import { toast } from 'sonner';
 import { Questions } from '@/services/db/questions';
+import { QuestionMedia } from '@/services/db/questionMedia';
 import { classifyQuestions } from '@/services/edgeFunctions';
 import { classifyBloom, detectKnowledgeDimension, inferDifficulty } from '@/services/ai/classify';
 import { useTaxonomyClassification } from '@/hooks/useTaxonomyClassification';
 import { resolveSubjectMetadata } from '@/services/ai/subjectMetadataResolver';
 import { CATEGORY_CONFIG, getSpecializations, getSubjectCodes } from '@/config/questionBankFilters';
+import { normalizeChoices } from '@/services/psychometrics/testItems';
+import type { Json } from '@/integrations/supabase/types';
+import {
+  bankQuestionType,
+  isInterchangeFile,
+  isMatchingChoices,
+  readInterchangeFile,
+  type InterchangeFile,
+  type InterchangeIssue,
+  type InterchangeQuestion,
+  type MatchingChoices,
+} from '@/services/interchange';
+import { DOCX_MIME_TYPE, importDocx } from '@/services/documentImport/docx';
+import { importPdf } from '@/services/documentImport/pdf';
+import type { DetectedQuestion, DetectionResult } from '@/services/documentImport/structure';
+import type { ImportedImage, QuestionAttachment } from '@/types/attachments';
 
 interface BulkImportProps {
   onClose: () => void;
@@ -26,8 +41,8 @@ interface BulkImportProps {
 interface ParsedQuestion {
   topic: string;
   question_text: string;
-  question_type: 'mcq' | 'true_false' | 'essay' | 'short_answer';
-  choices?: Record<string, string>;
+  question_type: 'mcq' | 'true_false' | 'essay' | 'short_answer' | 'matching';
+  choices?: Record<string, string> | MatchingChoices;
   correct_answer?: string;
   bloom_level?: string;
   difficulty?: string;
@@ -48,6 +63,11 @@ interface ParsedQuestion {
   specialization?: string;
   subject_code?: string;
   subject_description?: string;
+  /** Word and PDF imports: how sure the structure detector was about the block, and why not */
+  parse_confidence?: number;
+  parse_notes?: string[];
+  /** Images read from the file, uploaded as attachments on save */
+  images?: ImportedImage[];
 }
 
 interface ImportStats {
@@ -62,6 +82,11 @@ interface ImportStats {
 
 type ImportStep = 'upload' | 'preview' | 'verification' | 'processing' | 'results';
 
+const isDocx = (name: string) => /\.docx$/i.test(name);
+/** Word and PDF exams go through structure detection rather than a fixed column layout */
+const isDocument = (name: string) => /\.(docx|pdf)$/i.test(name);
+
+
 export default function BulkImport({
   onClose,
   onImportComplete,
@@ -82,6 +107,7 @@ export default function BulkImport({
   const [importStep, setImportStep] = useState<ImportStep>('upload');
   const [verificationData, setVerificationData] = useState<ParsedQuestion[]>([]);
   const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [interchangeIssues, setInterchangeIssues] = useState<InterchangeIssue[]>([]);
 
   const { batchClassify, buildTaxonomyMatrix } = useTaxonomyClassification({
     useMLClassifier: true,
@@ -96,16 +122,20 @@ export default function BulkImport({
     const isCSV = file.type === 'text/csv' || file.name.endsWith('.csv');
     const isPDF = file.type === 'application/pdf' || file.name.endsWith('.pdf');
 
-    if (isCSV) {
+    if (isDocx(file.name) || isPDF) {
       setFile(file);
       setErrors([]);
-      previewCSV(file);
-    } else if (isPDF) {
+      previewDocument(file);
+    } else if (isInterchangeFile(file.name)) {
       setFile(file);
       setErrors([]);
-      previewPDF(file);
+      previewInterchange(file);
+    } else if (isCSV) {
+      setFile(file);
+      setErrors([]);
+      previewCSV(file);
     } else {
-      toast.error('Please upload a CSV or PDF file');
+      toast.error('Please upload a CSV, PDF, Word, QTI, Moodle XML, GIFT or Aiken file');
     }
   }, []);
 
@@ -115,6 +145,12 @@ export default function BulkImport({
       'text/csv': ['.csv'],
       'application/vnd.ms-excel': ['.csv'],
       'application/pdf': ['.pdf'],
+      [DOCX_MIME_TYPE]: ['.docx'],
+      'application/zip': ['.zip'],
+      'application/x-zip-compressed': ['.zip'],
+      'application/xml': ['.xml'],
+      'text/xml': ['.xml'],
+      'text/plain': ['.txt', '.gift'],
     },
     multiple: false,
     maxSize: 50 * 1024 * 1024,
@@ -135,75 +171,76 @@ export default function BulkImport({
     });
   };
 
-  const extractQuestionsFromPDF = async (file: File): Promise<any[]> => {
+  /**
+   * Questions from QTI, Moodle XML, GIFT or Aiken files, in rows normalizeRow
+   * reads; questions without a topic (or category) get the default topic.
+   */
+  const extractQuestionsFromInterchange = async (file: File): Promise<InterchangeFile['rows']> => {
+    const result = readInterchangeFile(file.name, new Uint8Array(await file.arrayBuffer()));
+    if (!result) throw new Error('Unrecognised question file format');
+    setInterchangeIssues(result.issues);
+    return result.rows.map(row => ('question_text' in row
+      ? { ...row, topic: (row as InterchangeQuestion).topic || selectedTopic } as InterchangeQuestion
+      : { ...row, Topic: row.Topic || selectedTopic }));
+  };
+
+  const previewInterchange = async (file: File) => {
     try {
-      pdfjsLib.GlobalWorkerOptions.workerSrc = pdfjsWorker;
-      const arrayBuffer = await file.arrayBuffer();
-      const pdf = await pdfjsLib.getDocument(arrayBuffer).promise;
-      
-      let text = '';
-      for (let i = 1; i <= pdf.numPages; i++) {
-        const page = await pdf.getPage(i);
-        const textContent = await page.getTextContent();
-        const pageText = textContent.items.map((item: any) => item.str).join(' ');
-        text += pageText + '\n';
+      const questions = await extractQuestionsFromInterchange(file);
+      setPreviewData(questions.slice(0, 5));
+      setShowPreview(true);
+      setImportStep('preview');
+      if (questions.length > 0) {
+        toast.success(`Read ${questions.length} questions from ${file.name}`);
+      } else {
+        toast.error('No importable questions found in the file');
       }
-      const questions: any[] = [];
-      const questionBlocks = text.split(/\n?\d+\.\s+/).filter(block => block.trim());
-      
-      questionBlocks.forEach((block) => {
-        const lines = block.split('\n').filter(line => line.trim());
-        if (lines.length === 0) return;
-        const questionText = lines[0].trim();
-        const choices: Record<string, string> = {};
-        let correctAnswer = '';
-        
-        lines.slice(1).forEach(line => {
-          const choiceMatch = line.match(/^([A-F])\.\s*(.+)/);
-          if (choiceMatch) {
-            const [, letter, text] = choiceMatch;
-            choices[letter] = text.trim();
-            if (line.includes('*') || line.includes('✓')) {
-              correctAnswer = letter;
-            }
-          }
-        });
-        
-        let questionType: 'mcq' | 'true_false' | 'essay' | 'short_answer' = 'mcq';
-        if (Object.keys(choices).length === 0) {
-          questionType = 'essay';
-        } else if (Object.keys(choices).length === 2 && 
-                   (choices.A?.toLowerCase().includes('true') || 
-                    choices.A?.toLowerCase().includes('false'))) {
-          questionType = 'true_false';
-        }
-        
-        questions.push({
-          Question: questionText,
-          Type: questionType,
-          ...choices,
-          Correct: correctAnswer || 'A',
-          Topic: selectedTopic,
-        });
-      });
-      
-      return questions;
     } catch (error) {
-      console.error('PDF parsing error:', error);
-      throw new Error('Failed to parse PDF content');
+      toast.error(`Import error: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   };
 
-  const previewPDF = async (file: File) => {
+  /**
+   * Questions detected in a Word document or PDF exam; blocks without a topic
+   * get the default topic.
+   */
+  const extractQuestionsFromDocument = async (file: File): Promise<DetectedQuestion[]> => {
+    const data = await file.arrayBuffer();
+    let result: DetectionResult;
     try {
-      setCurrentStep('Extracting text from PDF...');
-      const questions = await extractQuestionsFromPDF(file);
-      setPreviewData(questions.slice(0, 5));
+      result = isDocx(file.name) ? importDocx(new Uint8Array(data)) : await importPdf(data);
+    } catch (error) {
+      console.error('Document parsing error:', error);
+      throw new Error(isDocx(file.name)
+        ? (error instanceof Error ? error.message : 'Failed to read the Word document')
+        : 'Failed to parse PDF content');
+    }
+    setInterchangeIssues(result.issues);
+    return result.questions.map(q => ({ ...q, topic: q.topic || selectedTopic }));
+  };
+
+  const previewDocument = async (file: File) => {
+    try {
+      setCurrentStep(isDocx(file.name) ? 'Reading Word document...' : 'Extracting text from PDF...');
+      const questions = await extractQuestionsFromDocument(file);
+      setPreviewData(questions.slice(0, 5).map(q => ({
+        Item: q.item_number,
+        Section: q.section || '',
+        Question: q.question_text,
+        Type: q.question_type,
+        Correct: q.correct_answer || '',
+        Images: q.images?.length || 0,
+        Confidence: `${Math.round(q.parse_confidence * 100)}%`,
+      })));
       setShowPreview(true);
       setImportStep('preview');
-      toast.success(`Extracted ${questions.length} questions from PDF`);
+      if (questions.length > 0) {
+        toast.success(`Found ${questions.length} questions in ${file.name}`);
+      } else {
+        toast.error('No numbered questions found in the document');
+      }
     } catch (error) {
-      toast.error(`PDF parsing error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      toast.error(`Import error: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   };
 
@@ -221,29 +258,25 @@ export default function BulkImport({
   const normalizeRow = (row: any): Partial<ParsedQuestion> => {
     const questionText = row.Question || row.question_text || row['Question Text'] || '';
     const topic = row.Topic || row.topic || '';
-    const type = (row.Type || row.type || row.question_type || 'mcq').toLowerCase();
-
-    let question_type: ParsedQuestion['question_type'] = 'mcq';
-    if (type.includes('true') || type.includes('false') || type === 'tf') {
-      question_type = 'true_false';
-    } else if (type.includes('essay')) {
-      question_type = 'essay';
-    } else if (type.includes('short') || type.includes('fill')) {
-      question_type = 'short_answer';
-    }
+    const question_type = bankQuestionType(row.Type || row.type || row.question_type || 'mcq') as ParsedQuestion['question_type'];
 
-    let choices: Record<string, string> | undefined;
-    if (question_type === 'mcq') {
-      choices = {};
+    let choices: ParsedQuestion['choices'];
+    if (question_type === 'matching') {
+      choices = isMatchingChoices(row.choices) ? row.choices : undefined;
+    } else if (question_type === 'mcq' && row.choices && typeof row.choices === 'object') {
+      // Imported question files already carry their options
+      choices = normalizeChoices(row.choices);
+    } else if (question_type === 'mcq') {
+      const columns: Record<string, string> = {};
       ['A', 'B', 'C', 'D', 'E', 'F'].forEach((letter) => {
         const choice = row[letter] || row[`Choice ${letter}`] || row[`choice_${letter.toLowerCase()}`];
         if (choice && choice.trim()) {
-          choices![letter] = choice.trim();
+          columns[letter] = choice.trim();
         }
       });
-      if (Object.keys(choices).length === 0) {
-        choices = { A: 'Option A', B: 'Option B', C: 'Option C', D: 'Option D' };
-      }
+      choices = Object.keys(columns).length > 0
+        ? columns
+        : { A: 'Option A', B: 'Option B', C: 'Option C', D: 'Option D' };
     }
 
     // Read metadata columns from CSV
@@ -251,24 +284,29 @@ export default function BulkImport({
     const csvSpecialization = row.Specialization || row.specialization || '';
     const csvSubjectCode = row.SubjectCode || row.subject_code || row['Subject Code'] || '';
     const csvSubjectDescription = row.SubjectDescription || row.subject_description || row['Subject Description'] || '';
+    const rawTags = row.Tags || row.tags;
 
     return {
       topic: topic.trim(),
       question_text: questionText.trim(),
       question_type,
       choices,
-      correct_answer: row.Correct || row.correct_answer || row['Correct Answer'] || 'A',
+      // A Word or PDF block with no detectable key stays unanswered rather than defaulting to A
+      correct_answer: row.Correct || row.correct_answer || row['Correct Answer'] || (question_type === 'mcq' && row.parse_confidence === undefined ? 'A' : ''),
       bloom_level: row.Bloom || row.bloom_level || row['Bloom Level'],
       difficulty: row.Difficulty || row.difficulty,
       knowledge_dimension: row.KnowledgeDimension || row.knowledge_dimension || row['Knowledge Dimension'],
       subject: row.Subject || row.subject || undefined,
       grade_level: row['Grade Level'] || row.grade_level || undefined,
       term: row.Term || row.term || undefined,
-      tags: row.Tags ? (Array.isArray(row.Tags) ? row.Tags : row.Tags.split(',').map((t: string) => t.trim())) : undefined,
+      tags: rawTags ? (Array.isArray(rawTags) ? rawTags : rawTags.split(',').map((t: string) => t.trim())) : undefined,
       category: csvCategory.trim() || undefined,
       specialization: csvSpecialization.trim() || undefined,
       subject_code: csvSubjectCode.trim() || undefined,
       subject_description: csvSubjectDescription.trim() || undefined,
+      parse_confidence: row.parse_confidence,
+      parse_notes: row.parse_notes,
+      images: row.images,
     };
   };
 
@@ -283,9 +321,13 @@ export default function BulkImport({
     try {
       let rawData: any[];
 
-      if (file.name.endsWith('.pdf')) {
-        setCurrentStep('Extracting text from PDF...');
-        rawData = await extractQuestionsFromPDF(file);
+      if (isDocument(file.name)) {
+        setCurrentStep(isDocx(file.name) ? 'Reading Word document...' : 'Extracting text from PDF...');
+        rawData = await extractQuestionsFromDocument(file);
+        setProgress(20);
+      } else if (isInterchangeFile(file.name)) {
+        setCurrentStep('Reading question file...');
+        rawData = await extractQuestionsFromInterchange(file);
         setProgress(20);
       } else {
         setCurrentStep('Parsing CSV file...');
@@ -407,11 +449,20 @@ export default function BulkImport({
         return validKnowledgeDimensions.includes(n) ? n : 'conceptual';
       };
 
+      // Images read from the file go to question media; the questions keep references
+      const attachments = new Map<ParsedQuestion, QuestionAttachment[]>();
+      const withImages = verificationData.filter(q => q.images?.length);
+      for (const [i, q] of withImages.entries()) {
+        setCurrentStep(`Uploading images (${i + 1}/${withImages.length})...`);
+        attachments.set(q, await QuestionMedia.uploadImported(q.images!));
+      }
+      setCurrentStep('Saving to database...');
+
       const questionsWithDefaults = verificationData.map(q => ({
         topic: q.topic || 'General',
         question_text: q.question_text || '',
-        question_type: (q.question_type as 'mcq' | 'true_false' | 'essay' | 'short_answer') || 'mcq',
-        choices: q.choices || {},
+        question_type: q.question_type || 'mcq',
+        choices: (q.choices || {}) as unknown as Json,
         correct_answer: q.correct_answer || '',
         bloom_level: (q.bloom_level || 'understanding').toLowerCase(),
         difficulty: (q.difficulty || 'average').toLowerCase(),
@@ -424,6 +475,14 @@ export default function BulkImport({
         specialization: q.specialization || '',
         subject_code: q.subject_code || '',
         subject_description: q.subject_description || '',
+        subject: q.subject || null,
+        grade_level: q.grade_level || null,
+        term: q.term || null,
+        tags: q.tags?.length ? q.tags : null,
+        attachments: (attachments.get(q) ?? []) as unknown as Json,
+        metadata: q.parse_confidence !== undefined
+          ? { parse_confidence: q.parse_confidence, parse_notes: q.parse_notes ?? [] } as unknown as Json
+          : null,
       }));
 
       setProgress(40);
@@ -602,7 +661,7 @@ export default function BulkImport({
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <Upload className="h-5 w-5" />
-              Upload CSV File
+              Upload Questions File
             </CardTitle>
           </CardHeader>
           <CardContent>
@@ -615,11 +674,13 @@ export default function BulkImport({
               <input {...getInputProps()} />
               <FileText className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
               {isDragActive ? (
-                <p className="text-lg">Drop the CSV file here...</p>
+                <p className="text-lg">Drop the file here...</p>
               ) : (
                 <div>
-                  <p className="text-lg mb-2">Drag & drop a CSV or PDF file here, or click to select</p>
-                  <p className="text-sm text-muted-foreground">Supports .csv and .pdf files up to 50MB</p>
+                  <p className="text-lg mb-2">Drag & drop a question file here, or click to select</p>
+                  <p className="text-sm text-muted-foreground">
+                    Supports CSV, PDF, Word (.docx), QTI 2.1/3.0 (.zip or .xml), Moodle XML, GIFT and Aiken (.txt) files up to 50MB
+                  </p>
                 </div>
               )}
             </div>
@@ -657,7 +718,9 @@ export default function BulkImport({
                   {previewData.map((row, index) => (
                     <tr key={index} className="border-b">
                       {Object.values(row).map((value: any, cellIndex) => (
-                        <td key={cellIndex} className="p-2 max-w-xs truncate">{String(value)}</td>
+                        <td key={cellIndex} className="p-2 max-w-xs truncate">
+                          {value && typeof value === 'object' ? JSON.stringify(value) : String(value)}
+                        </td>
                       ))}
                     </tr>
                   ))}
@@ -671,8 +734,8 @@ export default function BulkImport({
         </Card>
       )}
 
-      {/* Topic Selection for PDF */}
-      {file && file.name.endsWith('.pdf') && importStep === 'preview' && (
+      {/* Topic Selection for PDF, and for imported questions without a topic */}
+      {file && (isDocument(file.name) || isInterchangeFile(file.name)) && importStep === 'preview' && (
         <Card>
           <CardHeader>
             <CardTitle>Topic Assignment</CardTitle>
@@ -692,6 +755,29 @@ export default function BulkImport({
         </Card>
       )}
 
+      {/* Questions that were skipped or only partly read */}
+      {file && (isDocument(file.name) || isInterchangeFile(file.name)) && interchangeIssues.length > 0 && importStep !== 'results' && (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            <div className="space-y-1">
+              <p className="font-medium">
+                {interchangeIssues.filter(i => i.severity === 'error').length} questions skipped, {interchangeIssues.filter(i => i.severity === 'warning').length} with warnings:
+              </p>
+              <ul className="list-disc list-inside space-y-1">
+                {interchangeIssues.slice(0, 10).map((issue, index) => (
+                  <li key={index} className="text-sm">
+                    <Badge variant={issue.severity === 'error' ? 'destructive' : 'secondary'} className="mr-2">{issue.severity}</Badge>
+                    {issue.item}: {issue.message}
+                  </li>
+                ))}
+              </ul>
+              {interchangeIssues.length > 10 && <p className="text-sm">... and {interchangeIssues.length - 10} more</p>}
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Errors */}
       {errors.length > 0 && (
         <Alert variant="destructive">
@@ -750,6 +836,9 @@ export default function BulkImport({
                   <tr className="border-b bg-muted/50">
                     <th className="text-left p-2 font-medium w-8">#</th>
                     <th className="text-left p-2 font-medium min-w-[200px]">Question</th>
+                    {verificationData.some(q => q.parse_confidence !== undefined) && (
+                      <th className="text-left p-2 font-medium">Parse</th>
+                    )}
                     <th className="text-left p-2 font-medium">Topic</th>
                     <th className="text-left p-2 font-medium">Bloom</th>
                     <th className="text-left p-2 font-medium">Difficulty</th>
@@ -770,6 +859,15 @@ export default function BulkImport({
                       <tr key={idx} className={`border-b ${isEditing ? 'bg-primary/5' : 'hover:bg-muted/30'}`}>
                         <td className="p-2 text-muted-foreground">{idx + 1}</td>
                         <td className="p-2 max-w-[250px] truncate" title={q.question_text}>{q.question_text}</td>
+                        {verificationData.some(v => v.parse_confidence !== undefined) && (
+                          <td className="p-2" title={q.parse_notes?.join('\n') || undefined}>
+                            {q.parse_confidence !== undefined && (
+                              <Badge variant={q.parse_confidence >= 0.8 ? 'secondary' : q.parse_confidence >= 0.5 ? 'outline' : 'destructive'}>
+                                {Math.round(q.parse_confidence * 100)}%
+                              </Badge>
+                            )}
+                          </td>
+                        )}
                         <td className="p-2">{q.topic}</td>
                         <td className="p-2 capitalize">{q.bloom_level}</td>
                         <td className="p-2 capitalize">{q.difficulty}</td>
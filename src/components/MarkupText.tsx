@@ -0,0 +1,75 @@
+import { Fragment, ReactNode, useMemo } from 'react';
+import { MathNode, hasMarkup, parseMarkup, parseTex } from '@/lib/questionMarkup';
+
+interface MarkupTextProps {
+  text: string | null | undefined;
+  className?: string;
+}
+
+/**
+ * Question text or a choice with its math and code rendered (see lib/questionMarkup).
+ * Text without markup is returned as is, so plain questions render exactly as before.
+ */
+export function MarkupText({ text, className }: MarkupTextProps) {
+  const segments = useMemo(() => (hasMarkup(text) ? parseMarkup(text) : null), [text]);
+  if (!segments) return <span className={className}>{text ?? ''}</span>;
+
+  return (
+    <span className={className}>
+      {segments.map((segment, i) => {
+        if (segment.type === 'text') return <Fragment key={i}>{segment.text}</Fragment>;
+        if (segment.type === 'math') {
+          return (
+            <span key={i} className={segment.display ? 'markup-math markup-math-display' : 'markup-math'} title={segment.tex}>
+              {renderMath(parseTex(segment.tex))}
+            </span>
+          );
+        }
+        if (!segment.block) return <code key={i} className="markup-code-inline">{segment.code}</code>;
+        return (
+          <pre key={i} className="markup-code" data-language={segment.language ?? undefined}>
+            <code>{segment.code}</code>
+          </pre>
+        );
+      })}
+    </span>
+  );
+}
+
+function renderMath(nodes: MathNode[] | undefined): ReactNode {
+  return (nodes ?? []).map((node, i) => <Fragment key={i}>{renderNode(node)}</Fragment>);
+}
+
+function renderNode(node: MathNode): ReactNode {
+  switch (node.kind) {
+    case 'text':
+      // Latin letters are variables and set in italics, as TeX does
+      return node.roman || !/[a-zA-Z]/.test(node.text) ? node.text : <i>{node.text}</i>;
+    case 'group':
+      return renderMath(node.children);
+    case 'script':
+      return (
+        <>
+          {renderMath(node.base)}
+          {node.sub && <sub>{renderMath(node.sub)}</sub>}
+          {node.sup && <sup>{renderMath(node.sup)}</sup>}
+        </>
+      );
+    case 'frac': {
+      const fraction = (
+        <span className={node.binom ? 'markup-frac markup-binom' : 'markup-frac'}>
+          <span>{renderMath(node.num)}</span>
+          <span>{renderMath(node.den)}</span>
+        </span>
+      );
+      return node.binom ? <>({fraction})</> : fraction;
+    }
+    case 'sqrt':
+      return (
+        <span className="markup-sqrt">
+          {node.index && <sup>{renderMath(node.index)}</sup>}
+          √<span className="markup-radicand">{renderMath(node.body)}</span>
+        </span>
+      );
+  }
+}
@@ -8,7 +8,8 @@ import { Switch } from '@/components/ui/switch';
 import { ArrowLeft, Shuffle, Download, Eye, FileText } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { generateMultipleVersions, validateVersionBalance } from '@/services/testGeneration/multiVersionGenerator';
+import { generateVersionSet, validateVersionBalance } from '@/services/testGeneration/versionEngine';
+import { TestVersions } from '@/services/db/testVersions';
 import TestDistribution from '@/components/testGeneration/TestDistribution';
 import type { Json } from '@/integrations/supabase/types';
 
@@ -67,46 +68,24 @@ export default function MultiVersionTestGenerator({ onBack }: MultiVersionTestGe
         return;
       }
 
-      const generatedVersions = await generateMultipleVersions(questions as any, {
+      const set = generateVersionSet(questions, {
         numberOfVersions,
         shuffleQuestions,
-        shuffleChoices,
-        preventAdjacentDuplicates: preventDuplicates,
-        balanceDistributions: true
+        shuffleChoices
       });
+      const generatedVersions = set.versions;
 
       const balance = validateVersionBalance(generatedVersions);
       setBalanceMetrics(balance);
 
-      const savedVersionIds: string[] = [];
-      const firstVersionId = crypto.randomUUID();
-      
-      for (const version of generatedVersions) {
-        const { data, error: insertError } = await supabase
-          .from('generated_tests')
-          .insert({
-            id: version.version_number === 1 ? firstVersionId : undefined,
-            parent_test_id: version.version_number === 1 ? null : firstVersionId,
-            title: `Multi-Version Test`,
-            subject: 'Generated Test',
-            items: version.questions as any,
-            answer_key: version.answer_key as any,
-            version_label: version.version_label,
-            version_number: version.version_number,
-            shuffle_seed: version.shuffle_seed,
-            question_order: version.question_order as any,
-            shuffle_questions: shuffleQuestions,
-            shuffle_choices: shuffleChoices
-          })
-          .select('id')
-          .single();
-
-        if (insertError) throw insertError;
-        if (data) savedVersionIds.push(data.id);
-      }
+      const { parentId, versionIds: savedVersionIds } = await TestVersions.save(
+        set,
+        { title: 'Multi-Version Test', subject: 'Generated Test' },
+        { shuffleQuestions, shuffleChoices }
+      );
 
       setVersions(generatedVersions);
-      setSavedTestId(firstVersionId);
+      setSavedTestId(parentId);
       setVersionIds(savedVersionIds);
       
       toast({
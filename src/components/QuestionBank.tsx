@@ -33,6 +33,9 @@ import { Questions, ActivityLog } from '@/services/db';
 import BulkImport from './BulkImport';
 import { QuestionForm } from './QuestionForm';
 import { useRealtime } from '@/hooks/useRealtime';
+import { useAttachmentUrls } from '@/hooks/useAttachmentUrls';
+import { AttachmentFigures } from '@/components/print/AttachmentFigures';
+import { QuestionAttachment, attachmentsAt, parseQuestionAttachments } from '@/types/attachments';
 import { usePresence } from '@/hooks/usePresence';
 import { supabase } from '@/integrations/supabase/client';
 
@@ -45,6 +48,7 @@ interface Question {
   difficulty: 'Easy' | 'Average' | 'Difficult';
   options?: string[];
   correctAnswer?: string;
+  attachments: QuestionAttachment[];
   createdBy: 'teacher' | 'ai';
   approved: boolean;
   confidenceScore?: number;
@@ -178,6 +182,7 @@ export const QuestionBank = ({ onBack }: QuestionBankProps) => {
           difficulty: normalizeDifficulty(q.difficulty),
           options: q.choices ? Object.values(q.choices) : undefined,
           correctAnswer: q.correct_answer || undefined,
+          attachments: parseQuestionAttachments(q.attachments),
           createdBy:
             q.created_by === 'bulk_import' || q.created_by === 'ai'
               ? 'ai'
@@ -242,6 +247,7 @@ export const QuestionBank = ({ onBack }: QuestionBankProps) => {
         (selectedApprovalStatus === 'pending' && !question.approved))
     );
   });
+  const attachmentUrls = useAttachmentUrls(filteredQuestions);
 
   const handleAddQuestion = () => {
     setEditingQuestion(null);
@@ -589,16 +595,22 @@ export const QuestionBank = ({ onBack }: QuestionBankProps) => {
                             #{question.id}
                           </p>
                           <p className="font-medium mb-3">{question.text}</p>
+                          <AttachmentFigures attachments={attachmentsAt(question.attachments, 'stem')} urls={attachmentUrls} />
 
                           {question.options && (
                             <div className="space-y-1 mb-3">
                               {question.options.map((option, index) => (
-                                <p
+                                <div
                                   key={index}
                                   className="text-sm text-muted-foreground pl-4"
                                 >
                                   {String.fromCharCode(65 + index)}. {option}
-                                </p>
+                                  <AttachmentFigures
+                                    attachments={attachmentsAt(question.attachments, String.fromCharCode(65 + index))}
+                                    urls={attachmentUrls}
+                                    compact
+                                  />
+                                </div>
                               ))}
                               {question.correctAnswer && (
                                 <p className="text-sm font-medium text-green-600 pl-4">
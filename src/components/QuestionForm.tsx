@@ -13,6 +13,15 @@ import { Questions } from '@/services/db/questions';
 import { EdgeFunctions } from '@/services/edgeFunctions';
 import { classifyQuestion } from '@/services/ai/classify';
 import { TaxonomyMatrixSelector } from '@/components/classification/TaxonomyMatrixSelector';
+import { StructuredAnswer, StructuredAnswerEditor } from '@/components/questionbank/StructuredAnswerEditor';
+import { StimulusPicker } from '@/components/questionbank/StimulusPicker';
+import { AttachmentsEditor } from '@/components/questionbank/AttachmentsEditor';
+import { MarkupText } from '@/components/MarkupText';
+import { hasMarkup } from '@/lib/questionMarkup';
+import { QUESTION_KIND_LABELS, QuestionKind, isStructuredKind, structuredAnswerError } from '@/types/questionTypes';
+import { QuestionAttachment, isImageAttachment, parseQuestionAttachments } from '@/types/attachments';
+import { normalizeChoices } from '@/services/psychometrics/testItems';
+import type { Json } from '@/integrations/supabase/types';
 import { toast } from 'sonner';
 
 interface QuestionFormProps {
@@ -38,27 +47,37 @@ export const QuestionForm: React.FC<QuestionFormProps> = ({
     created_by: 'teacher',
     approved: true,
     needs_review: false,
-    ai_confidence_score: 1.0
+    ai_confidence_score: 1.0,
+    stimulus_id: null as string | null,
+    attachments: [] as QuestionAttachment[]
   });
 
+  const [structured, setStructured] = useState<StructuredAnswer>({ choices: null, correct_answer: '' });
   const [saving, setSaving] = useState(false);
+  const [changeReason, setChangeReason] = useState('');
   const [classifying, setClassifying] = useState(false);
 
   useEffect(() => {
     if (existingQuestion) {
+      const type = existingQuestion.question_type || 'mcq';
+      if (isStructuredKind(type)) {
+        setStructured({ choices: existingQuestion.choices ?? null, correct_answer: existingQuestion.correct_answer || '' });
+      }
       setFormData({
         question_text: existingQuestion.question_text || '',
-        question_type: existingQuestion.question_type || 'mcq',
+        question_type: type,
         topic: existingQuestion.topic || '',
         bloom_level: existingQuestion.bloom_level || 'remembering',
         difficulty: existingQuestion.difficulty || 'easy',
         knowledge_dimension: existingQuestion.knowledge_dimension || 'factual',
-        choices: existingQuestion.choices ? Object.values(existingQuestion.choices) : ['', '', '', ''],
+        choices: existingQuestion.choices && !isStructuredKind(type) ? Object.values(existingQuestion.choices) : ['', '', '', ''],
         correct_answer: existingQuestion.correct_answer || '',
         created_by: existingQuestion.created_by || 'teacher',
         approved: existingQuestion.approved ?? true,
         needs_review: existingQuestion.needs_review ?? false,
-        ai_confidence_score: existingQuestion.ai_confidence_score ?? 1.0
+        ai_confidence_score: existingQuestion.ai_confidence_score ?? 1.0,
+        stimulus_id: existingQuestion.stimulus_id ?? null,
+        attachments: parseQuestionAttachments(existingQuestion.attachments)
       });
     }
   }, [existingQuestion]);
@@ -160,6 +179,19 @@ export const QuestionForm: React.FC<QuestionFormProps> = ({
       }
     }
 
+    if (isStructuredKind(formData.question_type)) {
+      const problem = structuredAnswerError(formData.question_type, structured.choices, structured.correct_answer);
+      if (problem) {
+        toast.error(problem);
+        return;
+      }
+    }
+
+    if (formData.attachments.some(a => isImageAttachment(a) && !a.alt.trim())) {
+      toast.error('Add alt text to every attached image');
+      return;
+    }
+
     setSaving(true);
     try {
       // Prepare question data
@@ -177,17 +209,21 @@ export const QuestionForm: React.FC<QuestionFormProps> = ({
               }
               return acc;
             }, {} as Record<string, string>)
-          : null,
-        correct_answer: formData.question_type === 'mcq' ? formData.correct_answer : null,
+          : isStructuredKind(formData.question_type) ? structured.choices as unknown as Json : null,
+        correct_answer: isStructuredKind(formData.question_type)
+          ? structured.correct_answer
+          : formData.question_type === 'mcq' || formData.question_type === 'true_false' ? formData.correct_answer : null,
         created_by: formData.created_by,
         approved: formData.approved,
         ai_confidence_score: formData.ai_confidence_score,
-        needs_review: formData.needs_review
+        needs_review: formData.needs_review,
+        stimulus_id: formData.stimulus_id,
+        attachments: formData.attachments as unknown as Json
       };
 
       if (existingQuestion) {
         // Update existing question
-        const updatedQuestion = await Questions.update(existingQuestion.id, questionData);
+        const updatedQuestion = await Questions.update(existingQuestion.id, questionData, changeReason);
         toast.success('Question updated successfully!');
         onSave(updatedQuestion);
       } else {
@@ -221,16 +257,18 @@ export const QuestionForm: React.FC<QuestionFormProps> = ({
             <Label htmlFor="questionType">Question Type</Label>
             <Select 
               value={formData.question_type} 
-              onValueChange={(value) => setFormData(prev => ({ ...prev, question_type: value }))}
+              onValueChange={(value) => {
+                setFormData(prev => ({ ...prev, question_type: value }));
+                setStructured({ choices: null, correct_answer: '' });
+              }}
             >
               <SelectTrigger>
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="mcq">Multiple Choice</SelectItem>
-                <SelectItem value="true_false">True/False</SelectItem>
-                <SelectItem value="essay">Essay</SelectItem>
-                <SelectItem value="short_answer">Short Answer</SelectItem>
+                {(Object.keys(QUESTION_KIND_LABELS) as QuestionKind[]).map(kind => (
+                  <SelectItem key={kind} value={kind}>{QUESTION_KIND_LABELS[kind]}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
@@ -366,6 +404,13 @@ export const QuestionForm: React.FC<QuestionFormProps> = ({
           </div>
         </div>
 
+        {/* Shared passage, table or figure */}
+        <StimulusPicker
+          value={formData.stimulus_id}
+          onChange={(stimulusId) => setFormData(prev => ({ ...prev, stimulus_id: stimulusId }))}
+          topic={formData.topic}
+        />
+
         {/* Question Text */}
         <div>
           <Label htmlFor="questionText">Question Text</Label>
@@ -373,11 +418,25 @@ export const QuestionForm: React.FC<QuestionFormProps> = ({
             id="questionText"
             value={formData.question_text}
             onChange={(e) => setFormData(prev => ({ ...prev, question_text: e.target.value }))}
-            placeholder="Enter your question here..."
+            placeholder="Enter your question here... Use $x^2$ for math and `code` or ``` fences for code."
             className="min-h-[120px]"
           />
+          {hasMarkup(formData.question_text) && (
+            <div className="mt-2 rounded-md border bg-muted/30 p-3 text-sm">
+              <p className="text-xs text-muted-foreground mb-1">Preview</p>
+              <MarkupText text={formData.question_text} className="whitespace-pre-wrap" />
+            </div>
+          )}
         </div>
 
+        <AttachmentsEditor
+          value={formData.attachments}
+          onChange={(attachments) => setFormData(prev => ({ ...prev, attachments }))}
+          choiceLetters={formData.question_type === 'mcq'
+            ? formData.choices.map((_, i) => String.fromCharCode(65 + i))
+            : Object.keys(normalizeChoices(structured.choices)).sort()}
+        />
+
         {/* Multiple Choice Options */}
         {formData.question_type === 'mcq' && (
           <div>
@@ -446,6 +505,28 @@ export const QuestionForm: React.FC<QuestionFormProps> = ({
           </div>
         )}
 
+        {/* Matching, Ordering, Multiple Response and Numeric */}
+        {isStructuredKind(formData.question_type) && (
+          <StructuredAnswerEditor
+            key={`${formData.question_type}-${existingQuestion?.id ?? 'new'}`}
+            type={formData.question_type}
+            value={structured}
+            onChange={setStructured}
+          />
+        )}
+
+        {existingQuestion && (
+          <div>
+            <Label htmlFor="changeReason">Reason for change</Label>
+            <Input
+              id="changeReason"
+              value={changeReason}
+              onChange={(e) => setChangeReason(e.target.value)}
+              placeholder="Kept in the question's revision history, e.g. fixed ambiguous distractor"
+            />
+          </div>
+        )}
+
         {/* Action Buttons */}
         <div className="flex gap-3 pt-4 border-t border-border/50">
           <Button 
@@ -28,9 +28,12 @@ import {
   validateTOSMatrix, 
   CanonicalTOSMatrix,
   BloomLevel,
-  BLOOM_DISTRIBUTION,
+  BloomDistributionProfile,
+  DEFAULT_DISTRIBUTION_PROFILE,
+  fromStoredBloomDistribution,
   getDifficultyForBloom
 } from "@/utils/tosCalculator";
+import { BloomDistributionPicker } from "@/components/tos/BloomDistributionPicker";
 import { ExamFormatSelector, SelectedFormatSummary } from "@/components/generation/ExamFormatSelector";
 import { EXAM_FORMATS, getDefaultFormat, getExamFormat } from "@/types/examFormats";
 
@@ -74,6 +77,7 @@ export const TOSBuilder = ({ onBack }: TOSBuilderProps) => {
   const [generationStatus, setGenerationStatus] = useState("");
   const [collaborators, setCollaborators] = useState<any[]>([]);
   const [selectedFormatId, setSelectedFormatId] = useState(getDefaultFormat().id);
+  const [distributionProfile, setDistributionProfile] = useState<BloomDistributionProfile>(DEFAULT_DISTRIBUTION_PROFILE);
 
   // Real-time collaboration setup
   const { users: presenceUsers, isConnected } = usePresence('tos-builder', {
@@ -147,6 +151,11 @@ export const TOSBuilder = ({ onBack }: TOSBuilderProps) => {
       // Update topics state
       setTopics(parsedTopics);
       
+      // Reuse the distribution the template was built with
+      if (template.bloom_distribution) {
+        setDistributionProfile(fromStoredBloomDistribution(template.bloom_distribution));
+      }
+      
       // Apply all form values
       reset({
         subject_no: template.subject_no || "",
@@ -222,7 +231,8 @@ export const TOSBuilder = ({ onBack }: TOSBuilderProps) => {
         prepared_by: data.prepared_by || "",
         checked_by: data.checked_by || "",
         noted_by: data.noted_by || "",
-        topics: validTopics
+        topics: validTopics,
+        profile: distributionProfile
       });
 
       // Validate the matrix before proceeding
@@ -287,7 +297,8 @@ export const TOSBuilder = ({ onBack }: TOSBuilderProps) => {
         noted_by: tosMatrix.noted_by,
         topics: tosMatrix.topics,
         matrix: tosMatrix.matrix,
-        distribution: tosMatrix.distribution
+        distribution: tosMatrix.distribution,
+        bloom_distribution: tosMatrix.bloom_distribution
       };
       
       const savedTOS = await TOS.create(tosData);
@@ -352,7 +363,8 @@ export const TOSBuilder = ({ onBack }: TOSBuilderProps) => {
         noted_by: tosMatrix.noted_by,
         topics: tosMatrix.topics,
         matrix: tosMatrix.matrix,
-        distribution: tosMatrix.distribution
+        distribution: tosMatrix.distribution,
+        bloom_distribution: tosMatrix.bloom_distribution
       };
       
         try {
@@ -733,38 +745,12 @@ export const TOSBuilder = ({ onBack }: TOSBuilderProps) => {
               )}
             </div>
 
-            {/* Bloom's Taxonomy Distribution Info */}
-            <Card className="bg-muted/50">
-              <CardContent className="pt-4">
-                <h4 className="font-semibold mb-3">Bloom's Taxonomy Distribution (Fixed Quotas)</h4>
-                <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
-                  <div>
-                    <strong>Easy (30%):</strong>
-                    <ul className="ml-4 list-disc">
-                      <li>Remembering: 15%</li>
-                      <li>Understanding: 15%</li>
-                    </ul>
-                  </div>
-                  <div>
-                    <strong>Average (40%):</strong>
-                    <ul className="ml-4 list-disc">
-                      <li>Applying: 20%</li>
-                      <li>Analyzing: 20%</li>
-                    </ul>
-                  </div>
-                  <div>
-                    <strong>Difficult (30%):</strong>
-                    <ul className="ml-4 list-disc">
-                      <li>Evaluating: 15%</li>
-                      <li>Creating: 15%</li>
-                    </ul>
-                  </div>
-                </div>
-                <p className="mt-3 text-xs text-muted-foreground">
-                  These quotas are enforced exactly. The matrix total will always equal your input total.
-                </p>
-              </CardContent>
-            </Card>
+            {/* Bloom's Taxonomy Distribution Profile */}
+            <BloomDistributionPicker
+              value={distributionProfile}
+              onChange={setDistributionProfile}
+              totalItems={watchedTotalItems}
+            />
 
             <Button type="submit" className="w-full" variant="academic">
               <Calculator className="h-4 w-4 mr-2" />
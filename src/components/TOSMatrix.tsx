@@ -1,9 +1,10 @@
-import { useRef, useCallback, useState } from "react";
+import { useRef, useCallback, useMemo, useState } from "react";
 import { Button } from "@/components/ui/button";
-import { Download, Printer } from "lucide-react";
+import { Download, FileType, Printer } from "lucide-react";
 import { toast } from "sonner";
-import { CanonicalTOSMatrix, BloomLevel } from "@/utils/tosCalculator";
+import { CanonicalTOSMatrix, BloomLevel, BLOOM_DISTRIBUTION, getDifficultySplit } from "@/utils/tosCalculator";
 import { ISODocumentHeader } from "@/components/print/ISODocumentHeader";
+import { downloadDocx, generateTOSDocx, loadInstitutionLogo } from "@/services/export/docxGenerator";
 import jsPDF from "jspdf";
 import html2canvas from "html2canvas";
 
@@ -11,19 +12,25 @@ interface TOSMatrixProps {
   data: CanonicalTOSMatrix;
 }
 
+const pctOf = (fraction: number) => `${Math.round(fraction * 1000) / 10}%`;
+
 export const TOSMatrix = ({ data }: TOSMatrixProps) => {
   const { distribution, total_hours, bloom_totals } = data;
   const printRef = useRef<HTMLDivElement>(null);
   const [exporting, setExporting] = useState(false);
 
-  const bloomLevels: { key: BloomLevel; label: string; difficulty: string; pct: string }[] = [
-    { key: 'remembering', label: 'Remembering', difficulty: 'Easy', pct: '15%' },
-    { key: 'understanding', label: 'Understanding', difficulty: 'Easy', pct: '15%' },
-    { key: 'applying', label: 'Applying', difficulty: 'Average', pct: '20%' },
-    { key: 'analyzing', label: 'Analyzing', difficulty: 'Average', pct: '20%' },
-    { key: 'evaluating', label: 'Evaluating', difficulty: 'Difficult', pct: '15%' },
-    { key: 'creating', label: 'Creating', difficulty: 'Difficult', pct: '15%' },
-  ];
+  // Header percentages follow the distribution profile the matrix was built with
+  const weights = data.bloom_distribution?.weights ?? BLOOM_DISTRIBUTION;
+  const difficultySplit = useMemo(() => getDifficultySplit(weights), [weights]);
+
+  const bloomLevels: { key: BloomLevel; label: string; difficulty: string; pct: string }[] = useMemo(() => [
+    { key: 'remembering', label: 'Remembering', difficulty: 'Easy', pct: pctOf(weights.remembering) },
+    { key: 'understanding', label: 'Understanding', difficulty: 'Easy', pct: pctOf(weights.understanding) },
+    { key: 'applying', label: 'Applying', difficulty: 'Average', pct: pctOf(weights.applying) },
+    { key: 'analyzing', label: 'Analyzing', difficulty: 'Average', pct: pctOf(weights.analyzing) },
+    { key: 'evaluating', label: 'Evaluating', difficulty: 'Difficult', pct: pctOf(weights.evaluating) },
+    { key: 'creating', label: 'Creating', difficulty: 'Difficult', pct: pctOf(weights.creating) },
+  ], [weights]);
 
   const formatItemNumbers = (items: number[]) => {
     if (items.length === 0) return "";
@@ -153,17 +160,12 @@ export const TOSMatrix = ({ data }: TOSMatrixProps) => {
             <th rowspan="3">TOTAL</th>
           </tr>
           <tr>
-            <th colspan="2" style="font-size:8.5pt">EASY (30%)</th>
-            <th colspan="2" style="font-size:8.5pt">AVERAGE (40%)</th>
-            <th colspan="2" style="font-size:8.5pt">DIFFICULT (30%)</th>
+            <th colspan="2" style="font-size:8.5pt">EASY (${pctOf(difficultySplit.easy)})</th>
+            <th colspan="2" style="font-size:8.5pt">AVERAGE (${pctOf(difficultySplit.average)})</th>
+            <th colspan="2" style="font-size:8.5pt">DIFFICULT (${pctOf(difficultySplit.difficult)})</th>
           </tr>
           <tr>
-            <th style="font-size:8pt">Remembering<br>(15%)</th>
-            <th style="font-size:8pt">Understanding<br>(15%)</th>
-            <th style="font-size:8pt">Applying<br>(20%)</th>
-            <th style="font-size:8pt">Analyzing<br>(20%)</th>
-            <th style="font-size:8pt">Evaluating<br>(15%)</th>
-            <th style="font-size:8pt">Creating<br>(15%)</th>
+            ${bloomLevels.map(level => `<th style="font-size:8pt">${level.label}<br>(${level.pct})</th>`).join('')}
           </tr>
         </thead>
         <tbody>
@@ -215,7 +217,7 @@ export const TOSMatrix = ({ data }: TOSMatrixProps) => {
         </div>
       </div>
     `;
-  }, [data, distribution]);
+  }, [data, distribution, bloomLevels, difficultySplit]);
 
   // Shared inline styles for the printable content
   const printStyles = `
@@ -306,6 +308,20 @@ export const TOSMatrix = ({ data }: TOSMatrixProps) => {
     }
   }, [data]);
 
+  const handleExportDocx = useCallback(async () => {
+    setExporting(true);
+    try {
+      const bytes = generateTOSDocx(data, { logo: await loadInstitutionLogo() });
+      downloadDocx(bytes, `TOS_${data.subject_no || 'export'}_${data.exam_period || ''}`.replace(/\s+/g, '_'));
+      toast.success("TOS exported as Word document");
+    } catch (err) {
+      console.error('DOCX export error:', err);
+      toast.error("Failed to export Word document");
+    } finally {
+      setExporting(false);
+    }
+  }, [data]);
+
   return (
     <div className="space-y-6">
       {/* Action Buttons - hidden in print */}
@@ -314,6 +330,10 @@ export const TOSMatrix = ({ data }: TOSMatrixProps) => {
           <Download className="h-4 w-4 mr-2" />
           {exporting ? 'Exporting...' : 'Export PDF'}
         </Button>
+        <Button onClick={handleExportDocx} variant="outline" disabled={exporting}>
+          <FileType className="h-4 w-4 mr-2" />
+          Export DOCX
+        </Button>
         <Button onClick={handlePrint} variant="outline">
           <Printer className="h-4 w-4 mr-2" />
           Print
@@ -377,9 +397,9 @@ export const TOSMatrix = ({ data }: TOSMatrixProps) => {
               <th rowSpan={3} style={thStyle}>TOTAL</th>
             </tr>
             <tr>
-              <th colSpan={2} style={{ ...thStyle, fontSize: '8.5pt' }}>EASY (30%)</th>
-              <th colSpan={2} style={{ ...thStyle, fontSize: '8.5pt' }}>AVERAGE (40%)</th>
-              <th colSpan={2} style={{ ...thStyle, fontSize: '8.5pt' }}>DIFFICULT (30%)</th>
+              <th colSpan={2} style={{ ...thStyle, fontSize: '8.5pt' }}>EASY ({pctOf(difficultySplit.easy)})</th>
+              <th colSpan={2} style={{ ...thStyle, fontSize: '8.5pt' }}>AVERAGE ({pctOf(difficultySplit.average)})</th>
+              <th colSpan={2} style={{ ...thStyle, fontSize: '8.5pt' }}>DIFFICULT ({pctOf(difficultySplit.difficult)})</th>
             </tr>
             <tr>
               {bloomLevels.map(level => (
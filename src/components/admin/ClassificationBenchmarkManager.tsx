@@ -0,0 +1,253 @@
+import { ChangeEvent, useEffect, useRef, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2, Play, Target, Trash2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  BENCHMARK_CLASSIFIER_LABELS,
+  BenchmarkResult,
+  ClassificationBenchmarks,
+  GoldSet,
+} from '@/services/db/classificationBenchmarks';
+import { CLASSIFIER_TARGET_LABELS } from '@/services/db/classifierModels';
+import { GOLD_FIELDS, GoldField, parseGoldStandard } from '@/services/quality/goldStandard';
+import { runClassificationBenchmark } from '@/services/quality/classificationBenchmark';
+
+const percent = (value: number | null | undefined) => (value == null ? '—' : `${(value * 100).toFixed(1)}%`);
+const decimal = (value: number | null | undefined) => (value == null ? '—' : value.toFixed(3));
+
+/**
+ * Gold-standard sets labelled by expert raters, and benchmark runs that score
+ * every classification path against them. Trends across runs are charted on
+ * the Validation Dashboard.
+ */
+export function ClassificationBenchmarkManager() {
+  const [sets, setSets] = useState<GoldSet[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState('');
+  const [uploading, setUploading] = useState(false);
+  const [running, setRunning] = useState<{ setId: string; step: string } | null>(null);
+  const [latest, setLatest] = useState<{ set: GoldSet; results: BenchmarkResult[] } | null>(null);
+  const [field, setField] = useState<GoldField>('bloom_level');
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      setSets(await ClassificationBenchmarks.listGoldSets());
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load gold-standard sets');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const handleUpload = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setUploading(true);
+    try {
+      const { items, skipped } = parseGoldStandard(await file.text(), file.name);
+      if (skipped.length > 0) {
+        toast.warning(`${skipped.length} row(s) skipped`, {
+          description: skipped.slice(0, 3).map(s => `Row ${s.row}: ${s.reason}`).join(' • '),
+        });
+      }
+      if (items.length === 0) return;
+
+      const title = name.trim() || file.name.replace(/\.[^.]+$/, '');
+      await ClassificationBenchmarks.createGoldSet(title, null, items);
+      toast.success(`Uploaded ${items.length} labelled question(s) as "${title}"`);
+      setName('');
+      await load();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to upload gold-standard set');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleRun = async (set: GoldSet) => {
+    setRunning({ setId: set.id, step: 'Loading questions' });
+    try {
+      const items = await ClassificationBenchmarks.goldItems(set.id);
+      const results = await runClassificationBenchmark(items, undefined, classifier =>
+        setRunning({ setId: set.id, step: BENCHMARK_CLASSIFIER_LABELS[classifier] })
+      );
+      const saved = await ClassificationBenchmarks.saveRun(set.id, results);
+      setLatest({ set, results: saved });
+      const failed = saved.filter(r => r.failed_count > 0);
+      if (failed.length) {
+        toast.warning(`Benchmark finished; ${failed.map(r => BENCHMARK_CLASSIFIER_LABELS[r.classifier]).join(', ')} failed on some questions`);
+      } else {
+        toast.success(`Benchmarked ${saved.length} classifiers on ${items.length} questions`);
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Benchmark failed');
+    } finally {
+      setRunning(null);
+    }
+  };
+
+  const handleDelete = async (set: GoldSet) => {
+    if (!window.confirm(`Delete "${set.name}" and all of its benchmark results?`)) return;
+    try {
+      await ClassificationBenchmarks.deleteGoldSet(set.id);
+      if (latest?.set.id === set.id) setLatest(null);
+      await load();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete gold-standard set');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Target className="h-5 w-5" />
+          Classification Benchmark
+        </CardTitle>
+        <CardDescription>
+          Upload questions labelled by expert raters and measure how often each classifier agrees with them:
+          accuracy, macro F1, Cohen's kappa, and whether the confidence it reports matches how often it is right.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="flex-1 min-w-48">
+            <Label htmlFor="gold-set-name">Set name</Label>
+            <Input
+              id="gold-set-name"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              placeholder="Defaults to the file name"
+            />
+          </div>
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            className="hidden"
+            onChange={handleUpload}
+          />
+          <Button variant="outline" onClick={() => fileInput.current?.click()} disabled={uploading}>
+            <Upload className="h-4 w-4 mr-2" />
+            {uploading ? 'Uploading...' : 'Upload Gold Standard'}
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          CSV or JSON with question_text, question_type and topic, and the expert's bloom_level,
+          knowledge_dimension and difficulty. Each question needs at least one label.
+        </p>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Set</TableHead>
+              <TableHead>Questions</TableHead>
+              <TableHead>Uploaded</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {!loading && sets.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center text-muted-foreground">
+                  No gold-standard sets uploaded yet.
+                </TableCell>
+              </TableRow>
+            )}
+            {sets.map(set => (
+              <TableRow key={set.id}>
+                <TableCell className="font-medium">{set.name}</TableCell>
+                <TableCell>{set.item_count}</TableCell>
+                <TableCell>{new Date(set.created_at).toLocaleString()}</TableCell>
+                <TableCell className="text-right space-x-2">
+                  <Button size="sm" onClick={() => handleRun(set)} disabled={running !== null}>
+                    {running?.setId === set.id ? (
+                      <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                    ) : (
+                      <Play className="h-3 w-3 mr-1" />
+                    )}
+                    {running?.setId === set.id ? `${running.step}...` : 'Run Benchmark'}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleDelete(set)}
+                    disabled={running !== null}
+                    aria-label="Delete set"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {latest && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between gap-4">
+              <h3 className="text-sm font-medium">Latest run on {latest.set.name}</h3>
+              <Select value={field} onValueChange={v => setField(v as GoldField)}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {GOLD_FIELDS.map(f => (
+                    <SelectItem key={f} value={f}>{CLASSIFIER_TARGET_LABELS[f]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Classifier</TableHead>
+                  <TableHead>Version</TableHead>
+                  <TableHead>Accuracy</TableHead>
+                  <TableHead>Macro F1</TableHead>
+                  <TableHead>Kappa</TableHead>
+                  <TableHead>ECE</TableHead>
+                  <TableHead>Mean confidence</TableHead>
+                  <TableHead>Failed</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {latest.results.map(result => {
+                  const metrics = result.metrics[field];
+                  return (
+                    <TableRow key={result.id}>
+                      <TableCell>{BENCHMARK_CLASSIFIER_LABELS[result.classifier]}</TableCell>
+                      <TableCell className="font-mono text-xs">{result.classifier_version}</TableCell>
+                      <TableCell>{percent(metrics?.accuracy)}</TableCell>
+                      <TableCell>{percent(metrics?.macro_f1)}</TableCell>
+                      <TableCell>{decimal(metrics?.kappa)}</TableCell>
+                      <TableCell>{decimal(metrics?.ece)}</TableCell>
+                      <TableCell>{percent(metrics?.mean_confidence)}</TableCell>
+                      <TableCell>{result.failed_count}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+            {latest.results.every(r => !r.metrics[field]) && (
+              <p className="text-sm text-muted-foreground">This set has no expert labels for this field.</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,223 @@
+import { Fragment, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Brain, ChevronDown, ChevronRight, Loader2, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  CLASSIFIER_TARGET_LABELS,
+  ClassifierModelVersion,
+  ClassifierModels,
+  ClassifierTarget,
+} from '@/services/db/classifierModels';
+import { mlClassifier } from '@/services/ai/mlClassifier';
+
+const percent = (value: number | null | undefined) => (value == null ? '—' : `${(value * 100).toFixed(1)}%`);
+
+function ConfusionMatrix({ version }: { version: ClassifierModelVersion }) {
+  const holdout = version.performance?.holdout;
+  if (!holdout) return <p className="text-sm text-muted-foreground">No evaluation stored for this version.</p>;
+  const { labels, matrix } = holdout.confusion_matrix;
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        Held out: {version.performance?.holdout_size} questions · trained on {version.performance?.train_size} ·
+        {' '}{version.performance?.sources.validations ?? 0} labels from validations,
+        {' '}{version.performance?.sources.corrected_questions ?? 0} from validated or corrected questions
+      </p>
+      <div className="overflow-x-auto">
+        <table className="text-xs border-collapse">
+          <thead>
+            <tr>
+              <th className="p-1 text-left text-muted-foreground font-normal">Actual \ Predicted</th>
+              {labels.map(label => <th key={label} className="p-1 font-medium capitalize">{label}</th>)}
+              <th className="p-1 font-medium">Precision</th>
+              <th className="p-1 font-medium">Recall</th>
+              <th className="p-1 font-medium">F1</th>
+            </tr>
+          </thead>
+          <tbody>
+            {labels.map((label, i) => {
+              const metrics = holdout.per_class[label];
+              return (
+                <tr key={label}>
+                  <th className="p-1 text-left font-medium capitalize">{label}</th>
+                  {matrix[i].map((count, j) => (
+                    <td
+                      key={j}
+                      className={`p-1 text-center border ${i === j ? 'bg-primary/10 font-semibold' : count > 0 ? 'bg-destructive/10' : ''}`}
+                    >
+                      {count}
+                    </td>
+                  ))}
+                  <td className="p-1 text-center">{percent(metrics?.precision)}</td>
+                  <td className="p-1 text-center">{percent(metrics?.recall)}</td>
+                  <td className="p-1 text-center">{percent(metrics?.f1)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Trained classification models: train new versions from validated labels,
+ * compare held-out accuracy and confusion matrices, and roll back to an
+ * earlier version.
+ */
+export function ClassifierModelManager() {
+  const [versions, setVersions] = useState<ClassifierModelVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [training, setTraining] = useState(false);
+  const [activating, setActivating] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      setVersions(await ClassifierModels.listVersions());
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load classifier models');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const handleTrain = async () => {
+    setTraining(true);
+    try {
+      const result = await ClassifierModels.train();
+      if (result.success) toast.success(result.message);
+      else toast.warning(result.message);
+      result.skipped?.forEach(s => toast.info(`${CLASSIFIER_TARGET_LABELS[s.target]}: ${s.reason}`));
+      await Promise.all([load(), mlClassifier.reloadModels()]);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Training failed');
+    } finally {
+      setTraining(false);
+    }
+  };
+
+  const handleActivate = async (version: ClassifierModelVersion) => {
+    setActivating(version.id);
+    try {
+      await ClassifierModels.activate(version.id);
+      toast.success(`${CLASSIFIER_TARGET_LABELS[version.target]} now uses ${version.model_version}`);
+      await Promise.all([load(), mlClassifier.reloadModels()]);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to activate model');
+    } finally {
+      setActivating(null);
+    }
+  };
+
+  const targets = Object.keys(CLASSIFIER_TARGET_LABELS) as ClassifierTarget[];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Brain className="h-5 w-5" />
+              Classification Models
+            </CardTitle>
+            <CardDescription>
+              Classifiers for Bloom's level, knowledge dimension and difficulty, trained on validated and
+              teacher-corrected questions. Each version is scored on questions held out from its training data.
+            </CardDescription>
+          </div>
+          <Button onClick={handleTrain} disabled={training}>
+            {training && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {training ? 'Training...' : 'Train New Versions'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {targets.map(target => {
+          const rows = versions.filter(v => v.target === target);
+          return (
+            <div key={target} className="space-y-2">
+              <h3 className="text-sm font-medium">{CLASSIFIER_TARGET_LABELS[target]}</h3>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-8" />
+                    <TableHead>Version</TableHead>
+                    <TableHead>Trained</TableHead>
+                    <TableHead>Questions</TableHead>
+                    <TableHead>Held-out accuracy</TableHead>
+                    <TableHead>Macro F1</TableHead>
+                    <TableHead className="text-right">Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {!loading && rows.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center text-muted-foreground">
+                        No trained versions. Keyword heuristics classify this field.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {rows.map(version => (
+                    <Fragment key={version.id}>
+                      <TableRow>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6"
+                            onClick={() => setExpanded(expanded === version.id ? null : version.id)}
+                            aria-label="Show confusion matrix"
+                          >
+                            {expanded === version.id ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                          </Button>
+                        </TableCell>
+                        <TableCell className="font-mono text-xs">{version.model_version}</TableCell>
+                        <TableCell>{new Date(version.created_at).toLocaleString()}</TableCell>
+                        <TableCell>{version.training_data_size}</TableCell>
+                        <TableCell>{percent(version.accuracy_score)}</TableCell>
+                        <TableCell>{percent(version.f1_score)}</TableCell>
+                        <TableCell className="text-right">
+                          {version.is_active ? (
+                            <Badge>Active</Badge>
+                          ) : (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleActivate(version)}
+                              disabled={activating !== null}
+                            >
+                              <RotateCcw className="h-3 w-3 mr-1" />
+                              {activating === version.id ? 'Activating...' : 'Activate'}
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                      {expanded === version.id && (
+                        <TableRow>
+                          <TableCell colSpan={7} className="bg-muted/30">
+                            <ConfusionMatrix version={version} />
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
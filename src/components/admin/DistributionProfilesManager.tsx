@@ -0,0 +1,181 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { PieChart, Plus, Star, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { DistributionProfiles, DistributionProfileRow } from '@/services/db/distributionProfiles';
+import { BLOOM_LEVELS, BloomLevel, getDifficultySplit, normalizeBloomDistribution } from '@/utils/tosCalculator';
+
+const pct = (fraction: number) => `${Math.round(fraction * 1000) / 10}%`;
+
+const emptyWeights = (): Record<BloomLevel, number> => ({
+  remembering: 15,
+  understanding: 15,
+  applying: 20,
+  analyzing: 20,
+  evaluating: 15,
+  creating: 15,
+});
+
+/**
+ * Admin management of institution-wide Bloom distribution profiles.
+ * Department profiles are listed for visibility; teachers create those from the TOS builder.
+ */
+export function DistributionProfilesManager() {
+  const [profiles, setProfiles] = useState<DistributionProfileRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState('');
+  const [weights, setWeights] = useState<Record<BloomLevel, number>>(emptyWeights);
+  const [saving, setSaving] = useState(false);
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      setProfiles(await DistributionProfiles.listAll());
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load distribution profiles');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const handleCreate = async () => {
+    if (!name.trim()) {
+      toast.error('Profile name is required');
+      return;
+    }
+    setSaving(true);
+    try {
+      await DistributionProfiles.create({ name: name.trim(), scope: 'institution', weights });
+      setName('');
+      setWeights(emptyWeights());
+      toast.success('Distribution profile created');
+      await load();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to create profile');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSetDefault = async (id: string) => {
+    try {
+      await DistributionProfiles.setDefault(id);
+      toast.success('Default profile updated');
+      await load();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to set default');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await DistributionProfiles.delete(id);
+      setProfiles(prev => prev.filter(p => p.id !== id));
+      toast.success('Profile deleted');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete profile');
+    }
+  };
+
+  const total = BLOOM_LEVELS.reduce((s, l) => s + (weights[l] || 0), 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <PieChart className="h-5 w-5" />
+          Bloom Distribution Profiles
+        </CardTitle>
+        <CardDescription>
+          Named Bloom's taxonomy splits teachers can pick when building a TOS. The default institution profile
+          applies unless a department default exists.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Scope</TableHead>
+              <TableHead>Easy / Average / Difficult</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {!loading && profiles.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center text-muted-foreground">
+                  No saved profiles. The standard 30/40/30 split is used.
+                </TableCell>
+              </TableRow>
+            )}
+            {profiles.map(profile => {
+              const split = getDifficultySplit(normalizeBloomDistribution(profile.weights));
+              return (
+                <TableRow key={profile.id}>
+                  <TableCell className="font-medium">
+                    {profile.name}
+                    {profile.is_default && <Badge variant="secondary" className="ml-2">Default</Badge>}
+                  </TableCell>
+                  <TableCell>{profile.scope === 'institution' ? 'Institution' : profile.department}</TableCell>
+                  <TableCell>{pct(split.easy)} / {pct(split.average)} / {pct(split.difficult)}</TableCell>
+                  <TableCell className="text-right space-x-2">
+                    {!profile.is_default && (
+                      <Button variant="outline" size="sm" onClick={() => handleSetDefault(profile.id)}>
+                        <Star className="h-4 w-4 mr-1" />
+                        Make Default
+                      </Button>
+                    )}
+                    <Button variant="outline" size="icon" onClick={() => handleDelete(profile.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+
+        <div className="space-y-3">
+          <Label htmlFor="profile-name">New Institution Profile</Label>
+          <Input
+            id="profile-name"
+            placeholder="e.g., Board Review (no Creating)"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+            {BLOOM_LEVELS.map(level => (
+              <div key={level} className="space-y-1">
+                <Label htmlFor={`new-${level}`} className="text-xs capitalize">{level} %</Label>
+                <Input
+                  id={`new-${level}`}
+                  type="number"
+                  min="0"
+                  value={weights[level]}
+                  onChange={(e) => setWeights({ ...weights, [level]: Math.max(0, parseFloat(e.target.value) || 0) })}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-muted-foreground">Total: {total}% (scaled to 100% on save)</span>
+            <Button onClick={handleCreate} disabled={saving || total <= 0}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Profile
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
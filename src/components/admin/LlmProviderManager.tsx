@@ -0,0 +1,305 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Cpu, Pencil, Save, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  LLM_PROVIDER_LABELS,
+  LlmProviderConfig,
+  LlmProviderKind,
+  LlmProviderSetting,
+  LlmSettings,
+} from '@/services/db/llmSettings';
+
+const DEFAULT_MODELS: Record<LlmProviderKind, string> = {
+  openai: 'gpt-4o-mini',
+  openai_compatible: '',
+  self_hosted: 'llama3.1:8b',
+  offline: 'offline-templates',
+};
+
+const DEFAULT_SCOPE = '__default__';
+
+const emptyConfig = (): LlmProviderConfig => ({ provider: 'openai', model: DEFAULT_MODELS.openai });
+
+const optionalNumber = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+/**
+ * Admin choice of the language model behind question generation, the AI
+ * assistant and embeddings: a deployment default plus per-institution
+ * overrides, read by the edge functions' provider layer.
+ */
+export function LlmProviderManager() {
+  const [settings, setSettings] = useState<LlmProviderSetting[]>([]);
+  const [institutions, setInstitutions] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [scope, setScope] = useState<string>(DEFAULT_SCOPE);
+  const [institution, setInstitution] = useState('');
+  const [config, setConfig] = useState<LlmProviderConfig>(emptyConfig);
+  const [saving, setSaving] = useState(false);
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      setSettings(await LlmSettings.list());
+      setInstitutions(await LlmSettings.institutions().catch(() => []));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load AI provider settings');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const update = (patch: Partial<LlmProviderConfig>) => setConfig(prev => ({ ...prev, ...patch }));
+
+  const handleProviderChange = (provider: LlmProviderKind) => {
+    setConfig(prev => ({
+      provider,
+      model: DEFAULT_MODELS[provider],
+      temperature: prev.temperature,
+      max_tokens: prev.max_tokens,
+      embedding_backend: prev.embedding_backend,
+      ...(provider === 'self_hosted' ? { base_url: 'http://localhost:11434/v1' } : {}),
+    }));
+  };
+
+  const handleEdit = (setting: LlmProviderSetting) => {
+    setScope(setting.institution ? 'institution' : DEFAULT_SCOPE);
+    setInstitution(setting.institution ?? '');
+    setConfig({ ...emptyConfig(), ...setting.config });
+  };
+
+  const handleSave = async () => {
+    const target = scope === DEFAULT_SCOPE ? null : institution.trim();
+    if (target === '') {
+      toast.error('Institution name is required');
+      return;
+    }
+    if (config.provider !== 'offline' && !config.model.trim()) {
+      toast.error('Model is required');
+      return;
+    }
+    if (config.provider === 'openai_compatible' && !config.base_url?.trim()) {
+      toast.error('Base URL is required for an OpenAI-compatible endpoint');
+      return;
+    }
+    setSaving(true);
+    try {
+      await LlmSettings.save(target, config);
+      toast.success(target ? `AI provider saved for ${target}` : 'Default AI provider saved');
+      await load();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save AI provider');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (setting: LlmProviderSetting) => {
+    try {
+      await LlmSettings.remove(setting.institution);
+      setSettings(prev => prev.filter(s => s.institution !== setting.institution));
+      toast.success(setting.institution ? `${setting.institution} now uses the default provider` : 'Default provider removed');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to remove setting');
+    }
+  };
+
+  const needsEndpoint = config.provider === 'openai_compatible' || config.provider === 'self_hosted';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Cpu className="h-5 w-5" />
+          AI Provider
+        </CardTitle>
+        <CardDescription>
+          The language model used for question generation, the AI assistant and embeddings. Institutions without
+          their own setting use the default; with no default, the deployment's configured key is used, or offline
+          templates when there is none. Similarity search indexes 384-dimension embeddings: the local backend and
+          OpenAI's text-embedding-3 models produce these; other embedding models need that output size.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Scope</TableHead>
+              <TableHead>Provider</TableHead>
+              <TableHead>Model</TableHead>
+              <TableHead>Temperature / Max tokens</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {!loading && settings.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-muted-foreground">
+                  No provider configured. The deployment's API key decides the provider.
+                </TableCell>
+              </TableRow>
+            )}
+            {settings.map(setting => (
+              <TableRow key={setting.institution ?? DEFAULT_SCOPE}>
+                <TableCell className="font-medium">
+                  {setting.institution ?? <Badge variant="secondary">Default</Badge>}
+                </TableCell>
+                <TableCell>{LLM_PROVIDER_LABELS[setting.config.provider] ?? setting.config.provider}</TableCell>
+                <TableCell className="font-mono text-xs">{setting.config.model}</TableCell>
+                <TableCell>
+                  {setting.config.temperature ?? 'per task'} / {setting.config.max_tokens ?? 'per task'}
+                </TableCell>
+                <TableCell className="text-right space-x-2">
+                  <Button variant="outline" size="icon" onClick={() => handleEdit(setting)} aria-label="Edit">
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="outline" size="icon" onClick={() => handleDelete(setting)} aria-label="Remove">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div className="space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label>Applies to</Label>
+              <Select value={scope} onValueChange={setScope}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_SCOPE}>Default (all institutions)</SelectItem>
+                  <SelectItem value="institution">One institution</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {scope !== DEFAULT_SCOPE && (
+              <div className="space-y-1">
+                <Label htmlFor="llm-institution">Institution</Label>
+                <Input
+                  id="llm-institution"
+                  list="llm-institutions"
+                  value={institution}
+                  onChange={(e) => setInstitution(e.target.value)}
+                  placeholder="As written on user profiles"
+                />
+                <datalist id="llm-institutions">
+                  {institutions.map(name => <option key={name} value={name} />)}
+                </datalist>
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label>Provider</Label>
+              <Select value={config.provider} onValueChange={(v) => handleProviderChange(v as LlmProviderKind)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(LLM_PROVIDER_LABELS) as LlmProviderKind[]).map(kind => (
+                    <SelectItem key={kind} value={kind}>{LLM_PROVIDER_LABELS[kind]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {config.provider !== 'offline' && (
+              <div className="space-y-1">
+                <Label htmlFor="llm-model">Model</Label>
+                <Input id="llm-model" value={config.model} onChange={(e) => update({ model: e.target.value })} />
+              </div>
+            )}
+            {needsEndpoint && (
+              <div className="space-y-1">
+                <Label htmlFor="llm-base-url">Base URL</Label>
+                <Input
+                  id="llm-base-url"
+                  value={config.base_url ?? ''}
+                  onChange={(e) => update({ base_url: e.target.value || undefined })}
+                  placeholder="https://host/v1"
+                />
+              </div>
+            )}
+            {config.provider !== 'offline' && (
+              <div className="space-y-1">
+                <Label htmlFor="llm-key-env">API key secret</Label>
+                <Input
+                  id="llm-key-env"
+                  value={config.api_key_env ?? ''}
+                  onChange={(e) => update({ api_key_env: e.target.value || undefined })}
+                  placeholder={config.provider === 'openai' ? 'OPENAI_API_KEY' : 'LLM_<NAME>_KEY, if the endpoint needs one'}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Only OPENAI_API_KEY, LOVABLE_API_KEY or secrets named LLM_&lt;NAME&gt;_KEY can be used.
+                </p>
+              </div>
+            )}
+            {config.provider !== 'offline' && (
+              <div className="space-y-1">
+                <Label>Embeddings</Label>
+                <Select
+                  value={config.embedding_backend ?? 'provider'}
+                  onValueChange={(v) => update({ embedding_backend: v === 'local' ? 'local' : undefined })}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="provider">From this provider</SelectItem>
+                    <SelectItem value="local">Local (CPU, no network)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {config.provider !== 'offline' && config.embedding_backend !== 'local' && (
+              <div className="space-y-1">
+                <Label htmlFor="llm-embedding-model">Embedding model</Label>
+                <Input
+                  id="llm-embedding-model"
+                  value={config.embedding_model ?? ''}
+                  onChange={(e) => update({ embedding_model: e.target.value || undefined })}
+                  placeholder={config.provider === 'self_hosted' ? 'nomic-embed-text' : 'text-embedding-3-small'}
+                />
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label htmlFor="llm-temperature">Temperature</Label>
+              <Input
+                id="llm-temperature"
+                type="number"
+                min="0"
+                max="2"
+                step="0.1"
+                value={config.temperature ?? ''}
+                onChange={(e) => update({ temperature: optionalNumber(e.target.value) })}
+                placeholder="Each task's own default"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="llm-max-tokens">Max tokens per request</Label>
+              <Input
+                id="llm-max-tokens"
+                type="number"
+                min="1"
+                value={config.max_tokens ?? ''}
+                onChange={(e) => update({ max_tokens: optionalNumber(e.target.value) })}
+                placeholder="Each task's own budget"
+              />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button onClick={handleSave} disabled={saving}>
+              <Save className="h-4 w-4 mr-2" />
+              Save Provider
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -6,44 +6,83 @@ import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer, BarChart, Bar, PieChart, Pie, Cell, Legend } from 'recharts';
-import { TrendingUp, TrendingDown, Activity, AlertTriangle, CheckCircle, Clock } from 'lucide-react';
-import { itemAnalyzer, PsychometricReport } from '@/services/psychometrics/itemAnalysis';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TrendingDown, Activity, AlertTriangle, CheckCircle, Clock, Users, Play } from 'lucide-react';
+import { itemAnalyzer, PsychometricReport, DifficultyDistribution } from '@/services/psychometrics/itemAnalysis';
+import { supabase } from '@/integrations/supabase/client';
+import DistractorAnalysisPanel from '@/components/generation/DistractorAnalysisPanel';
 import { useToast } from '@/hooks/use-toast';
 
 interface PsychometricDashboardProps {
   testId?: string;
 }
 
-const PsychometricDashboard: React.FC<PsychometricDashboardProps> = ({ testId = 'sample-test' }) => {
+interface TestVersionOption {
+  id: string;
+  title: string | null;
+  version_label: string | null;
+  created_at: string;
+}
+
+const formatValidity = (value: number | null) =>
+  value == null ? 'Not assessed' : `${(value * 100).toFixed(1)}%`;
+
+const PsychometricDashboard: React.FC<PsychometricDashboardProps> = ({ testId }) => {
+  const [versions, setVersions] = useState<TestVersionOption[]>([]);
+  const [selectedTestId, setSelectedTestId] = useState<string | undefined>(testId);
   const [report, setReport] = useState<PsychometricReport | null>(null);
   const [loading, setLoading] = useState(true);
-  const [difficultyDistribution, setDifficultyDistribution] = useState<any>(null);
-  const [reliabilityTrends, setReliabilityTrends] = useState<any>(null);
+  const [analyzing, setAnalyzing] = useState(false);
+  const [difficultyDistribution, setDifficultyDistribution] = useState<DifficultyDistribution | null>(null);
+  const [reliabilityTrends, setReliabilityTrends] = useState<{
+    dates: string[];
+    cronbachAlpha: number[];
+    splitHalf: number[];
+  } | null>(null);
   const { toast } = useToast();
 
   useEffect(() => {
-    loadPsychometricData();
+    setSelectedTestId(testId);
+  }, [testId]);
+
+  useEffect(() => {
+    if (testId) return;
+    const loadVersions = async () => {
+      const { data, error } = await supabase
+        .from('generated_tests')
+        .select('id, title, version_label, created_at')
+        .order('created_at', { ascending: false })
+        .limit(50);
+
+      if (error) {
+        console.error('Error loading test versions:', error);
+        return;
+      }
+      setVersions(data ?? []);
+      setSelectedTestId(prev => prev ?? data?.[0]?.id);
+      if (!data?.length) setLoading(false);
+    };
+    loadVersions();
   }, [testId]);
 
+  useEffect(() => {
+    if (selectedTestId) loadPsychometricData();
+  }, [selectedTestId]);
+
   const loadPsychometricData = async () => {
+    if (!selectedTestId) return;
     try {
       setLoading(true);
-      
-      // Load psychometric report
-      const psychometricReport = await itemAnalyzer.analyzeTest(testId, []);
+
+      // Load the last stored analysis; recomputing is an explicit action
+      const psychometricReport = await itemAnalyzer.getLatestReport(selectedTestId);
       setReport(psychometricReport);
-      
-      // Load additional data
-      const difficulty = await itemAnalyzer.getDifficultyDistribution(testId);
+
+      const difficulty = await itemAnalyzer.getDifficultyDistribution(selectedTestId);
       setDifficultyDistribution(difficulty);
-      
-      const trends = await itemAnalyzer.getReliabilityTrends(testId);
+
+      const trends = await itemAnalyzer.getReliabilityTrends(selectedTestId);
       setReliabilityTrends(trends);
-      
-      toast({
-        title: "Data loaded successfully",
-        description: "Psychometric analysis has been updated.",
-      });
     } catch (error) {
       console.error('Error loading psychometric data:', error);
       toast({
@@ -56,6 +95,43 @@ const PsychometricDashboard: React.FC<PsychometricDashboardProps> = ({ testId =
     }
   };
 
+  const runAnalysis = async () => {
+    if (!selectedTestId) return;
+    try {
+      setAnalyzing(true);
+      await itemAnalyzer.analyzeTest(selectedTestId);
+      await loadPsychometricData();
+      toast({
+        title: "Analysis complete",
+        description: "Item statistics were recomputed from scored responses.",
+      });
+    } catch (error) {
+      console.error('Error running item analysis:', error);
+      toast({
+        title: "Analysis failed",
+        description: error instanceof Error ? error.message : "Failed to run item analysis.",
+        variant: "destructive",
+      });
+    } finally {
+      setAnalyzing(false);
+    }
+  };
+
+  const versionPicker = !testId && versions.length > 0 && (
+    <Select value={selectedTestId} onValueChange={setSelectedTestId}>
+      <SelectTrigger className="w-[280px]">
+        <SelectValue placeholder="Select a test version" />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map(v => (
+          <SelectItem key={v.id} value={v.id}>
+            {v.title || 'Untitled test'}{v.version_label ? ` — Version ${v.version_label}` : ''}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
   const getReliabilityColor = (value: number) => {
     if (value >= 0.9) return 'text-green-600';
     if (value >= 0.8) return 'text-yellow-600';
@@ -97,12 +173,25 @@ const PsychometricDashboard: React.FC<PsychometricDashboardProps> = ({ testId =
 
   if (!report) {
     return (
-      <div className="p-6">
+      <div className="p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <h2 className="text-2xl font-bold">Psychometric Dashboard</h2>
+          {versionPicker}
+        </div>
         <div className="text-center py-12">
           <AlertTriangle className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
           <h3 className="text-lg font-medium mb-2">No Data Available</h3>
-          <p className="text-muted-foreground mb-4">Unable to load psychometric analysis.</p>
-          <Button onClick={loadPsychometricData}>Retry</Button>
+          <p className="text-muted-foreground mb-4">
+            {selectedTestId
+              ? 'This test version has not been analyzed yet. Record scored responses, then run the analysis.'
+              : 'Generate a test and record scored responses to see item statistics.'}
+          </p>
+          {selectedTestId && (
+            <Button onClick={runAnalysis} disabled={analyzing}>
+              <Play className="h-4 w-4 mr-2" />
+              {analyzing ? 'Analyzing...' : 'Run Analysis'}
+            </Button>
+          )}
         </div>
       </div>
     );
@@ -127,11 +216,15 @@ const PsychometricDashboard: React.FC<PsychometricDashboardProps> = ({ testId =
       <div className="flex items-center justify-between">
         <div>
           <h2 className="text-2xl font-bold">Psychometric Dashboard</h2>
-          <p className="text-muted-foreground">Test reliability and validity analysis</p>
+          <p className="text-muted-foreground">
+            Classical item analysis of {report.overallReliability.examineeCount} scored examinees
+            {' '}({new Date(report.analysisDate).toLocaleString()})
+          </p>
         </div>
         <div className="flex gap-2">
-          <Button onClick={loadPsychometricData} variant="outline">
-            Refresh Data
+          {versionPicker}
+          <Button onClick={runAnalysis} variant="outline" disabled={analyzing}>
+            {analyzing ? 'Analyzing...' : 'Re-run Analysis'}
           </Button>
         </div>
       </div>
@@ -157,17 +250,16 @@ const PsychometricDashboard: React.FC<PsychometricDashboardProps> = ({ testId =
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Content Validity</CardTitle>
-            <CheckCircle className="h-4 w-4 text-muted-foreground" />
+            <CardTitle className="text-sm font-medium">Examinees</CardTitle>
+            <Users className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">
-              {(report.validityMeasures.contentValidity * 100).toFixed(1)}%
+              {report.overallReliability.examineeCount}
             </div>
-            <Progress 
-              value={report.validityMeasures.contentValidity * 100} 
-              className="h-2 mt-2" 
-            />
+            <p className="text-xs text-muted-foreground">
+              Mean {report.overallReliability.meanScore.toFixed(2)} ± {report.overallReliability.standardDeviation.toFixed(2)}
+            </p>
           </CardContent>
         </Card>
 
@@ -180,7 +272,7 @@ const PsychometricDashboard: React.FC<PsychometricDashboardProps> = ({ testId =
             <div className="text-2xl font-bold">
               {report.overallReliability.standardError.toFixed(3)}
             </div>
-            <p className="text-xs text-muted-foreground">Lower is better</p>
+            <p className="text-xs text-muted-foreground">SEM in raw score points</p>
           </CardContent>
         </Card>
 
@@ -203,6 +295,7 @@ const PsychometricDashboard: React.FC<PsychometricDashboardProps> = ({ testId =
           <TabsTrigger value="reliability">Reliability</TabsTrigger>
           <TabsTrigger value="difficulty">Difficulty Analysis</TabsTrigger>
           <TabsTrigger value="items">Item Statistics</TabsTrigger>
+          <TabsTrigger value="distractors">Distractors</TabsTrigger>
           <TabsTrigger value="validity">Validity</TabsTrigger>
           <TabsTrigger value="recommendations">Recommendations</TabsTrigger>
         </TabsList>
@@ -243,6 +336,16 @@ const PsychometricDashboard: React.FC<PsychometricDashboardProps> = ({ testId =
                   </div>
                   <Progress value={report.overallReliability.kuderRichardson20 * 100} className="h-2" />
                 </div>
+
+                <div className="space-y-2">
+                  <div className="flex justify-between">
+                    <span>KR-21</span>
+                    <span className={getReliabilityColor(report.overallReliability.kuderRichardson21)}>
+                      {report.overallReliability.kuderRichardson21.toFixed(3)}
+                    </span>
+                  </div>
+                  <Progress value={report.overallReliability.kuderRichardson21 * 100} className="h-2" />
+                </div>
               </CardContent>
             </Card>
 
@@ -267,7 +370,7 @@ const PsychometricDashboard: React.FC<PsychometricDashboardProps> = ({ testId =
                         tick={{ fill: 'hsl(var(--muted-foreground))' }}
                       />
                       <YAxis 
-                        domain={[0.7, 1]} 
+                        domain={[0, 1]} 
                         className="text-xs"
                         tick={{ fill: 'hsl(var(--muted-foreground))' }}
                       />
@@ -371,22 +474,27 @@ const PsychometricDashboard: React.FC<PsychometricDashboardProps> = ({ testId =
                       <h4 className="font-medium">{itemId}</h4>
                       <Badge variant="outline">n={stats.sampleSize}</Badge>
                     </div>
-                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
                       <div>
-                        <span className="text-muted-foreground">Difficulty:</span>
+                        <span className="text-muted-foreground">Difficulty (p):</span>
                         <div className="font-mono">{stats.difficulty.toFixed(3)}</div>
                       </div>
                       <div>
-                        <span className="text-muted-foreground">Discrimination:</span>
+                        <span className="text-muted-foreground">Discrimination (D):</span>
                         <div className="font-mono">{stats.discrimination.toFixed(3)}</div>
+                        <div className="text-xs text-muted-foreground">
+                          upper {stats.upperGroupP.toFixed(2)} / lower {stats.lowerGroupP.toFixed(2)}
+                        </div>
                       </div>
                       <div>
-                        <span className="text-muted-foreground">Point-Biserial:</span>
+                        <span className="text-muted-foreground">Corrected r<sub>pb</sub>:</span>
                         <div className="font-mono">{stats.pointBiserial.toFixed(3)}</div>
                       </div>
                       <div>
-                        <span className="text-muted-foreground">Reliability:</span>
-                        <div className="font-mono">{stats.reliability.toFixed(3)}</div>
+                        <span className="text-muted-foreground">α if deleted:</span>
+                        <div className={`font-mono ${stats.reliability > report.overallReliability.cronbachAlpha ? 'text-red-600' : ''}`}>
+                          {stats.reliability.toFixed(3)}
+                        </div>
                       </div>
                     </div>
                   </div>
@@ -396,6 +504,10 @@ const PsychometricDashboard: React.FC<PsychometricDashboardProps> = ({ testId =
           </Card>
         </TabsContent>
 
+        <TabsContent value="distractors" className="space-y-4">
+          <DistractorAnalysisPanel testId={report.testId} />
+        </TabsContent>
+
         <TabsContent value="validity" className="space-y-4">
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <Card>
@@ -404,9 +516,9 @@ const PsychometricDashboard: React.FC<PsychometricDashboardProps> = ({ testId =
               </CardHeader>
               <CardContent>
                 <div className="text-3xl font-bold mb-2">
-                  {(report.validityMeasures.contentValidity * 100).toFixed(1)}%
+                  {formatValidity(report.validityMeasures.contentValidity)}
                 </div>
-                <Progress value={report.validityMeasures.contentValidity * 100} className="h-3" />
+                <Progress value={(report.validityMeasures.contentValidity ?? 0) * 100} className="h-3" />
                 <p className="text-sm text-muted-foreground mt-2">
                   Measures how well test covers the subject
                 </p>
@@ -419,9 +531,9 @@ const PsychometricDashboard: React.FC<PsychometricDashboardProps> = ({ testId =
               </CardHeader>
               <CardContent>
                 <div className="text-3xl font-bold mb-2">
-                  {(report.validityMeasures.constructValidity * 100).toFixed(1)}%
+                  {formatValidity(report.validityMeasures.constructValidity)}
                 </div>
-                <Progress value={report.validityMeasures.constructValidity * 100} className="h-3" />
+                <Progress value={(report.validityMeasures.constructValidity ?? 0) * 100} className="h-3" />
                 <p className="text-sm text-muted-foreground mt-2">
                   Measures intended psychological construct
                 </p>
@@ -434,9 +546,9 @@ const PsychometricDashboard: React.FC<PsychometricDashboardProps> = ({ testId =
               </CardHeader>
               <CardContent>
                 <div className="text-3xl font-bold mb-2">
-                  {(report.validityMeasures.criterionValidity * 100).toFixed(1)}%
+                  {formatValidity(report.validityMeasures.criterionValidity)}
                 </div>
-                <Progress value={report.validityMeasures.criterionValidity * 100} className="h-3" />
+                <Progress value={(report.validityMeasures.criterionValidity ?? 0) * 100} className="h-3" />
                 <p className="text-sm text-muted-foreground mt-2">
                   Correlation with external criteria
                 </p>
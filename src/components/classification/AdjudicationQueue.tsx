@@ -0,0 +1,162 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CheckCircle, Gavel, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { AdjudicationItem, ClassificationReviews } from '@/services/db/classificationReviews';
+import { REVIEW_FIELDS, REVIEW_LABELS, ReviewField } from '@/services/quality/multiRaterReview';
+import { normalizeChoices } from '@/services/psychometrics/testItems';
+
+type Decision = Record<ReviewField, string> & { notes: string };
+
+/** The label most raters chose, if one has a strict majority */
+function majority(item: AdjudicationItem, field: ReviewField): string {
+  const counts = new Map<string, number>();
+  item.ratings.forEach(r => counts.set(r[field], (counts.get(r[field]) ?? 0) + 1));
+  const [label, count] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0] ?? ['', 0];
+  return count * 2 > item.ratings.length ? label : '';
+}
+
+/**
+ * Questions the raters disagreed on. The adjudicator sees the labels and
+ * notes but not who gave them, and never gets questions they rated.
+ */
+export function AdjudicationQueue({ onResolved }: { onResolved?: () => void }) {
+  const [items, setItems] = useState<AdjudicationItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [decisions, setDecisions] = useState<Record<string, Decision>>({});
+  const [saving, setSaving] = useState<string | null>(null);
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      setItems(await ClassificationReviews.adjudicationQueue());
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load the adjudication queue');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const decisionFor = (item: AdjudicationItem): Decision =>
+    decisions[item.review_id] ?? {
+      bloom_level: majority(item, 'bloom_level'),
+      knowledge_dimension: majority(item, 'knowledge_dimension'),
+      notes: '',
+    };
+  const updateDecision = (item: AdjudicationItem, patch: Partial<Decision>) =>
+    setDecisions(prev => ({ ...prev, [item.review_id]: { ...decisionFor(item), ...patch } }));
+
+  const handleResolve = async (item: AdjudicationItem) => {
+    const decision = decisionFor(item);
+    if (!decision.bloom_level || !decision.knowledge_dimension) {
+      toast.error("Choose the final Bloom's level and knowledge dimension");
+      return;
+    }
+
+    setSaving(item.review_id);
+    try {
+      await ClassificationReviews.adjudicate(item.review_id, decision.bloom_level, decision.knowledge_dimension, decision.notes);
+      toast.success('Classification adjudicated and written to the question bank');
+      await load();
+      onResolved?.();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to adjudicate');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gavel className="h-5 w-5" />
+          Adjudication Queue
+        </CardTitle>
+        <CardDescription>
+          Raters disagreed on these questions. Rater names are withheld; where most raters agree their label is
+          preselected.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading && <Loader2 className="h-6 w-6 animate-spin mx-auto text-muted-foreground" />}
+        {!loading && items.length === 0 && (
+          <div className="text-center py-8 text-muted-foreground">
+            <CheckCircle className="h-10 w-10 mx-auto mb-2" />
+            Nothing to adjudicate.
+          </div>
+        )}
+        {items.map(item => {
+          const decision = decisionFor(item);
+          const choices = Object.entries(normalizeChoices(item.choices));
+          return (
+            <div key={item.review_id} className="border rounded-lg p-4 space-y-4">
+              <div className="space-y-2">
+                <div className="flex gap-2">
+                  {item.topic && <Badge variant="outline">{item.topic}</Badge>}
+                  <Badge variant="secondary">{item.question_type}</Badge>
+                </div>
+                <p className="font-medium whitespace-pre-wrap">{item.question_text}</p>
+                {choices.length > 0 && (
+                  <ul className="text-sm text-muted-foreground space-y-1">
+                    {choices.map(([letter, text]) => <li key={letter}>{letter}. {text}</li>)}
+                  </ul>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                {item.ratings.map((rating, i) => (
+                  <div key={i} className="flex flex-wrap items-center gap-2 text-sm bg-muted/30 rounded-md p-2">
+                    <span className="font-medium">Rater {String.fromCharCode(65 + i)}</span>
+                    <Badge variant="outline" className="capitalize">{rating.bloom_level}</Badge>
+                    <Badge variant="outline" className="capitalize">{rating.knowledge_dimension}</Badge>
+                    {rating.notes && <span className="text-muted-foreground italic">“{rating.notes}”</span>}
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {REVIEW_FIELDS.map(field => (
+                  <div key={field}>
+                    <Label>{field === 'bloom_level' ? "Final Bloom's Level" : 'Final Knowledge Dimension'}</Label>
+                    <Select value={decision[field]} onValueChange={v => updateDecision(item, { [field]: v })}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {REVIEW_LABELS[field].map(label => (
+                          <SelectItem key={label} value={label} className="capitalize">{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+              <Textarea
+                value={decision.notes}
+                onChange={e => updateDecision(item, { notes: e.target.value })}
+                placeholder="Reason for the decision (optional)"
+                rows={2}
+              />
+              <div className="flex justify-end">
+                <Button onClick={() => handleResolve(item)} disabled={saving !== null}>
+                  {saving === item.review_id && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Resolve
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,147 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2, Users } from 'lucide-react';
+import { toast } from 'sonner';
+import { ClassificationReviews } from '@/services/db/classificationReviews';
+import { REVIEW_FIELDS, RatingRecord, ReviewField, agreementReport } from '@/services/quality/multiRaterReview';
+
+const FIELD_LABELS: Record<ReviewField, string> = {
+  bloom_level: "Bloom's Level",
+  knowledge_dimension: 'Knowledge Dimension',
+};
+
+const percent = (value: number | null | undefined) => (value == null ? '—' : `${(value * 100).toFixed(1)}%`);
+const decimal = (value: number | null | undefined) => (value == null ? '—' : value.toFixed(3));
+
+/**
+ * Inter-rater agreement for the QA office: Fleiss' kappa overall and per
+ * topic, and each rater's Cohen's kappa against the final labels and their
+ * co-raters.
+ */
+export function RaterAgreementReport() {
+  const [ratings, setRatings] = useState<RatingRecord[]>([]);
+  const [names, setNames] = useState<Map<string, string>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [field, setField] = useState<ReviewField>('bloom_level');
+
+  useEffect(() => {
+    Promise.all([ClassificationReviews.submittedRatings(), ClassificationReviews.listRaters()])
+      .then(([records, raters]) => {
+        setRatings(records);
+        setNames(new Map(raters.map(r => [r.id, r.full_name || r.email])));
+      })
+      .catch(err => toast.error(err instanceof Error ? err.message : 'Failed to load ratings'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const report = useMemo(() => agreementReport(ratings, field), [ratings, field]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="h-5 w-5" />
+              Inter-Rater Agreement
+            </CardTitle>
+            <CardDescription>
+              Fleiss' kappa across all raters of each question, and Cohen's kappa for each rater. Values above 0.6
+              are usually read as substantial agreement.
+            </CardDescription>
+          </div>
+          <div className="w-56">
+            <Label>Label</Label>
+            <Select value={field} onValueChange={v => setField(v as ReviewField)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {REVIEW_FIELDS.map(f => <SelectItem key={f} value={f}>{FIELD_LABELS[f]}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <Loader2 className="h-6 w-6 animate-spin mx-auto text-muted-foreground" />
+        ) : report.overall.items === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">No question has two submitted ratings yet.</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-4 text-center">
+              <div>
+                <div className="text-2xl font-bold">{decimal(report.overall.fleiss_kappa)}</div>
+                <div className="text-sm text-muted-foreground">Fleiss' κ</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold">{percent(report.overall.unanimous)}</div>
+                <div className="text-sm text-muted-foreground">Unanimous</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold">{report.overall.items}</div>
+                <div className="text-sm text-muted-foreground">Questions rated</div>
+              </div>
+            </div>
+
+            <div>
+              <h4 className="font-medium mb-2">By Topic</h4>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Topic</TableHead>
+                    <TableHead>Questions</TableHead>
+                    <TableHead>Ratings</TableHead>
+                    <TableHead>Fleiss' κ</TableHead>
+                    <TableHead>Unanimous</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.by_topic.filter(t => t.items > 0).map(t => (
+                    <TableRow key={t.topic}>
+                      <TableCell className="font-medium">{t.topic}</TableCell>
+                      <TableCell>{t.items}</TableCell>
+                      <TableCell>{t.ratings}</TableCell>
+                      <TableCell>{decimal(t.fleiss_kappa)}</TableCell>
+                      <TableCell>{percent(t.unanimous)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div>
+              <h4 className="font-medium mb-2">By Rater</h4>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Rater</TableHead>
+                    <TableHead>Ratings</TableHead>
+                    <TableHead>κ vs Final</TableHead>
+                    <TableHead>Agreement with Final</TableHead>
+                    <TableHead>Mean κ with Co-raters</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.by_rater.map(r => (
+                    <TableRow key={r.rater_id}>
+                      <TableCell className="font-medium">{names.get(r.rater_id) ?? 'Former rater'}</TableCell>
+                      <TableCell>{r.ratings}</TableCell>
+                      <TableCell>{decimal(r.kappa_vs_final)}</TableCell>
+                      <TableCell>{percent(r.accuracy_vs_final)}</TableCell>
+                      <TableCell>{decimal(r.mean_pairwise_kappa)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
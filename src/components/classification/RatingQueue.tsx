@@ -0,0 +1,164 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CheckCircle, ClipboardCheck, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { AssignedRating, ClassificationReviews } from '@/services/db/classificationReviews';
+import { REVIEW_LABELS } from '@/services/quality/multiRaterReview';
+import { normalizeChoices } from '@/services/psychometrics/testItems';
+
+type Draft = { bloom_level: string; knowledge_dimension: string; notes: string };
+
+const STATUS_MESSAGES: Record<string, string> = {
+  rating: 'Rating saved. Waiting for the other raters.',
+  adjudication: 'Rating saved. The raters disagreed, so the question goes to adjudication.',
+  resolved: 'Rating saved. All raters agreed and the classification was updated.',
+};
+
+/**
+ * The signed-in rater's blinded queue: each question is shown without its AI
+ * classification or the other raters' labels.
+ */
+export function RatingQueue() {
+  const [ratings, setRatings] = useState<AssignedRating[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [drafts, setDrafts] = useState<Record<string, Draft>>({});
+  const [submitting, setSubmitting] = useState<string | null>(null);
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      setRatings(await ClassificationReviews.myRatings());
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load your rating queue');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const draftFor = (id: string): Draft => drafts[id] ?? { bloom_level: '', knowledge_dimension: '', notes: '' };
+  const updateDraft = (id: string, patch: Partial<Draft>) =>
+    setDrafts(prev => ({ ...prev, [id]: { ...draftFor(id), ...patch } }));
+
+  const handleSubmit = async (rating: AssignedRating) => {
+    const draft = draftFor(rating.rating_id);
+    if (!draft.bloom_level || !draft.knowledge_dimension) {
+      toast.error("Choose both a Bloom's level and a knowledge dimension");
+      return;
+    }
+
+    setSubmitting(rating.rating_id);
+    try {
+      const status = await ClassificationReviews.submitRating(
+        rating.rating_id,
+        draft.bloom_level,
+        draft.knowledge_dimension,
+        draft.notes
+      );
+      toast.success(STATUS_MESSAGES[status] ?? 'Rating saved');
+      await load();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save rating');
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  const open = ratings.filter(r => !r.submitted_at && r.review_status === 'rating');
+  const submitted = ratings.filter(r => r.submitted_at);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5" />
+          My Ratings
+        </CardTitle>
+        <CardDescription>
+          Classify each question on your own. The AI label and the other raters' answers stay hidden until the
+          review closes. {submitted.length} submitted so far.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading && <Loader2 className="h-6 w-6 animate-spin mx-auto text-muted-foreground" />}
+        {!loading && open.length === 0 && (
+          <div className="text-center py-8 text-muted-foreground">
+            <CheckCircle className="h-10 w-10 mx-auto mb-2" />
+            No questions are waiting for your rating.
+          </div>
+        )}
+        {open.map(rating => {
+          const draft = draftFor(rating.rating_id);
+          const choices = Object.entries(normalizeChoices(rating.choices));
+          return (
+            <div key={rating.rating_id} className="border rounded-lg p-4 space-y-4">
+              <div className="space-y-2">
+                <div className="flex gap-2">
+                  {rating.topic && <Badge variant="outline">{rating.topic}</Badge>}
+                  <Badge variant="secondary">{rating.question_type}</Badge>
+                </div>
+                <p className="font-medium whitespace-pre-wrap">{rating.question_text}</p>
+                {choices.length > 0 && (
+                  <ul className="text-sm text-muted-foreground space-y-1">
+                    {choices.map(([letter, text]) => <li key={letter}>{letter}. {text}</li>)}
+                  </ul>
+                )}
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label>Bloom's Level</Label>
+                  <Select value={draft.bloom_level} onValueChange={v => updateDraft(rating.rating_id, { bloom_level: v })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select level" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {REVIEW_LABELS.bloom_level.map(level => (
+                        <SelectItem key={level} value={level} className="capitalize">{level}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Knowledge Dimension</Label>
+                  <Select
+                    value={draft.knowledge_dimension}
+                    onValueChange={v => updateDraft(rating.rating_id, { knowledge_dimension: v })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select dimension" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {REVIEW_LABELS.knowledge_dimension.map(dimension => (
+                        <SelectItem key={dimension} value={dimension} className="capitalize">{dimension}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <Textarea
+                value={draft.notes}
+                onChange={e => updateDraft(rating.rating_id, { notes: e.target.value })}
+                placeholder="Notes for the adjudicator (optional)"
+                rows={2}
+              />
+              <div className="flex justify-end">
+                <Button onClick={() => handleSubmit(rating)} disabled={submitting !== null}>
+                  {submitting === rating.rating_id && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Submit Rating
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
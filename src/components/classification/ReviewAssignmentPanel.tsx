@@ -0,0 +1,195 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Search, UserPlus } from 'lucide-react';
+import { toast } from 'sonner';
+import { ClassificationReviews, Rater, ReviewCandidate } from '@/services/db/classificationReviews';
+import { Questions } from '@/services/db/questions';
+
+const ALL_TOPICS = '__all__';
+
+/**
+ * Sends questions for independent review: picks the questions, the faculty
+ * pool, and how many raters each question gets. Raters with the fewest open
+ * ratings are assigned first.
+ */
+export function ReviewAssignmentPanel({ onAssigned }: { onAssigned?: () => void }) {
+  const [raters, setRaters] = useState<Rater[]>([]);
+  const [selectedRaters, setSelectedRaters] = useState<Set<string>>(new Set());
+  const [topics, setTopics] = useState<string[]>([]);
+  const [topic, setTopic] = useState(ALL_TOPICS);
+  const [unvalidatedOnly, setUnvalidatedOnly] = useState(true);
+  const [limit, setLimit] = useState(20);
+  const [ratersPerItem, setRatersPerItem] = useState(2);
+  const [candidates, setCandidates] = useState<ReviewCandidate[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [assigning, setAssigning] = useState(false);
+
+  useEffect(() => {
+    ClassificationReviews.listRaters()
+      .then(setRaters)
+      .catch(error => console.error('Error loading raters:', error));
+    Questions.getUniqueValues()
+      .then(values => setTopics(values.topics.sort()))
+      .catch(error => console.error('Error loading topics:', error));
+  }, []);
+
+  const toggleRater = (id: string, checked: boolean) => {
+    setSelectedRaters(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const handleSearch = async () => {
+    setSearching(true);
+    try {
+      setCandidates(await ClassificationReviews.candidates({
+        topic: topic === ALL_TOPICS ? undefined : topic,
+        unvalidatedOnly,
+        limit: Math.max(1, limit),
+      }));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to find questions');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const handleAssign = async () => {
+    if (!candidates?.length) return;
+    if (selectedRaters.size < ratersPerItem) {
+      toast.error(`Select at least ${ratersPerItem} raters`);
+      return;
+    }
+
+    setAssigning(true);
+    try {
+      const { assigned, skipped } = await ClassificationReviews.assign(
+        candidates.map(c => c.id),
+        [...selectedRaters],
+        ratersPerItem
+      );
+      toast.success(`Sent ${assigned} question(s) to ${ratersPerItem} raters each`, {
+        description: skipped > 0 ? `${skipped} already under review` : undefined,
+      });
+      setCandidates(null);
+      onAssigned?.();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to assign raters');
+    } finally {
+      setAssigning(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UserPlus className="h-5 w-5" />
+          Assign Raters
+        </CardTitle>
+        <CardDescription>
+          Each question is rated blind by two or three faculty members. Unanimous labels are written to the question
+          bank; disagreements go to the adjudication queue.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div>
+            <Label>Topic</Label>
+            <Select value={topic} onValueChange={setTopic}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_TOPICS}>All topics</SelectItem>
+                {topics.map(t => <SelectItem key={t} value={t}>{t}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="review-limit">Questions</Label>
+            <Input
+              id="review-limit"
+              type="number"
+              min={1}
+              value={limit}
+              onChange={e => setLimit(Number(e.target.value) || 1)}
+            />
+          </div>
+          <div className="flex items-center gap-2 pb-2">
+            <Switch id="unvalidated-only" checked={unvalidatedOnly} onCheckedChange={setUnvalidatedOnly} />
+            <Label htmlFor="unvalidated-only">Not yet validated</Label>
+          </div>
+          <Button variant="outline" onClick={handleSearch} disabled={searching}>
+            {searching ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Search className="h-4 w-4 mr-2" />}
+            Find Questions
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Raters</Label>
+            <div className="flex items-center gap-2">
+              <Label className="text-sm font-normal text-muted-foreground">Raters per question</Label>
+              <Select value={String(ratersPerItem)} onValueChange={v => setRatersPerItem(Number(v))}>
+                <SelectTrigger className="w-20">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="2">2</SelectItem>
+                  <SelectItem value="3">3</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+            {raters.map(rater => (
+              <label key={rater.id} className="flex items-center gap-2 border rounded-md p-2 text-sm cursor-pointer">
+                <Checkbox
+                  checked={selectedRaters.has(rater.id)}
+                  onCheckedChange={checked => toggleRater(rater.id, checked === true)}
+                />
+                <span className="flex-1 truncate">{rater.full_name || rater.email}</span>
+                <Badge variant="outline" className="capitalize">{rater.role}</Badge>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {candidates && (
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">
+              {candidates.length === 0
+                ? 'No questions match.'
+                : `${candidates.length} question(s) will be sent for review.`}
+            </p>
+            <ul className="max-h-48 overflow-y-auto text-sm border rounded-md divide-y">
+              {candidates.map(c => (
+                <li key={c.id} className="p-2 flex gap-2">
+                  <Badge variant="outline" className="shrink-0">{c.topic}</Badge>
+                  <span className="truncate">{c.question_text}</span>
+                </li>
+              ))}
+            </ul>
+            <div className="flex justify-end">
+              <Button onClick={handleAssign} disabled={assigning || candidates.length === 0}>
+                {assigning && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Assign Raters
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
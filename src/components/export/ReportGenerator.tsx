@@ -7,6 +7,9 @@ import { FileDown, FileText, CheckCircle2, Loader2 } from "lucide-react";
 import { toast } from "sonner";
 import { generateTestDocumentation } from "@/services/export/documentationGenerator";
 import { buildComprehensiveReport } from "@/services/export/reportBuilder";
+import { DOCX_MIME_TYPE, generateTestDocx, loadInstitutionLogo } from "@/services/export/docxGenerator";
+import { QuestionMedia } from "@/services/db/questionMedia";
+import { parseQuestionAttachments } from "@/types/attachments";
 
 interface ReportGeneratorProps {
   testData: any;
@@ -27,6 +30,7 @@ export function ReportGenerator({
   const [progress, setProgress] = useState(0);
   const [currentStep, setCurrentStep] = useState("");
   const [reportUrl, setReportUrl] = useState<string | null>(null);
+  const [reportFileName, setReportFileName] = useState<string | undefined>(undefined);
 
   const handleGenerate = async (format: 'pdf' | 'docx') => {
     setGenerating(true);
@@ -59,21 +63,40 @@ export function ReportGenerator({
         psychometricData
       );
 
-      // Step 3: Upload to storage (simulated)
-      setProgress(80);
-      setCurrentStep("Uploading report...");
-      
-      // Simulate upload delay
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      const mockUrl = `https://storage.example.com/reports/${testData.id}.${format}`;
-      setReportUrl(mockUrl);
+      let url: string;
+      if (format === 'docx') {
+        // Step 3: Write the Word document: questionnaire, answer key and TOS
+        setProgress(80);
+        setCurrentStep("Writing Word document...");
+
+        const bytes = generateTestDocx(testData, {
+          includeAnswerKey: true,
+          tos: tosData?.distribution ? tosData : undefined,
+          signatories: tosData ?? undefined,
+          logo: await loadInstitutionLogo(),
+          media: await QuestionMedia.download(questions.flatMap(q => parseQuestionAttachments(q.attachments)))
+        });
+        if (reportUrl?.startsWith('blob:')) URL.revokeObjectURL(reportUrl);
+        url = URL.createObjectURL(new Blob([bytes], { type: DOCX_MIME_TYPE }));
+        setReportFileName(`${(testData.title || 'test').replace(/\s+/g, '_')}.docx`);
+      } else {
+        // Step 3: Upload to storage (simulated)
+        setProgress(80);
+        setCurrentStep("Uploading report...");
+        
+        // Simulate upload delay
+        await new Promise(resolve => setTimeout(resolve, 1000));
+        
+        url = `https://storage.example.com/reports/${testData.id}.${format}`;
+        setReportFileName(undefined);
+      }
+      setReportUrl(url);
       
       setProgress(100);
       setCurrentStep("Complete!");
       
       toast.success(`${format.toUpperCase()} report generated successfully`);
-      onComplete?.(mockUrl);
+      onComplete?.(url);
       
     } catch (error: any) {
       toast.error(`Failed to generate report: ${error.message}`);
@@ -153,7 +176,7 @@ export function ReportGenerator({
               <div className="space-y-2">
                 <p className="font-medium">Report generated successfully!</p>
                 <Button variant="link" className="p-0 h-auto" asChild>
-                  <a href={reportUrl} download>
+                  <a href={reportUrl} download={reportFileName ?? true}>
                     Download Report
                   </a>
                 </Button>
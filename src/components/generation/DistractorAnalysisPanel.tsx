@@ -0,0 +1,163 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, CheckCircle, ListChecks, RefreshCw } from 'lucide-react';
+import { itemAnalyzer, ItemDistractorAnalysis } from '@/services/psychometrics/itemAnalysis';
+import { distractorGenerator } from '@/services/ai/distractorGenerator';
+
+interface DistractorAnalysisPanelProps {
+  testId: string;
+}
+
+type QualityScores = Record<string, number>;
+
+const pct = (value: number) => `${(value * 100).toFixed(0)}%`;
+
+export default function DistractorAnalysisPanel({ testId }: DistractorAnalysisPanelProps) {
+  const [items, setItems] = useState<ItemDistractorAnalysis[]>([]);
+  const [quality, setQuality] = useState<QualityScores>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const analysis = await itemAnalyzer.analyzeDistractors(testId);
+      setItems(analysis);
+
+      // Feed the observed option behaviour back into the distractor quality score
+      const scores: QualityScores = {};
+      for (const item of analysis) {
+        const keyText = item.keyOption ? item.choices[item.keyOption] ?? '' : '';
+        for (const option of item.options.filter(o => !o.isKey)) {
+          scores[`${item.itemNumber}-${option.option}`] = await distractorGenerator.evaluateDistractorQuality(
+            item.choices[option.option] ?? '',
+            keyText,
+            item.questionText,
+            option
+          );
+        }
+      }
+      setQuality(scores);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to analyze distractors');
+    } finally {
+      setLoading(false);
+    }
+  }, [testId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const flagged = items.flatMap(item => item.options.filter(o => o.nonFunctioning || o.attractsHighScorers));
+  const nonFunctioning = flagged.filter(o => o.nonFunctioning).length;
+  const pullingHigh = flagged.filter(o => o.attractsHighScorers).length;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <ListChecks className="h-5 w-5" />
+          Distractor Analysis
+        </CardTitle>
+        <Button variant="outline" size="sm" onClick={load} disabled={loading}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {!loading && !error && items.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            No multiple-choice items with recorded responses on this test version.
+          </p>
+        )}
+
+        {items.length > 0 && (
+          <div className="grid grid-cols-3 gap-2 text-sm p-4 bg-muted rounded-lg">
+            <div>
+              <span className="text-muted-foreground">MCQ items:</span>{' '}
+              <span className="font-medium">{items.length}</span>
+            </div>
+            <div>
+              <span className="text-muted-foreground">Non-functioning (&lt;5%):</span>{' '}
+              <span className="font-medium">{nonFunctioning}</span>
+            </div>
+            <div>
+              <span className="text-muted-foreground">Attracting high scorers:</span>{' '}
+              <span className="font-medium">{pullingHigh}</span>
+            </div>
+          </div>
+        )}
+
+        {items.map(item => (
+          <div key={item.itemNumber} className="rounded-lg border p-4 space-y-3">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <span className="font-medium">Item {item.itemNumber}</span>
+                <p className="text-sm text-muted-foreground line-clamp-2">{item.questionText}</p>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <Badge variant="outline">n={item.sampleSize}</Badge>
+                {item.omitted > 0 && <Badge variant="outline">omitted {pct(item.omitted)}</Badge>}
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Option</TableHead>
+                  <TableHead className="text-right">Overall</TableHead>
+                  <TableHead className="text-right">Upper 27%</TableHead>
+                  <TableHead className="text-right">Lower 27%</TableHead>
+                  <TableHead className="text-right">r<sub>pb</sub></TableHead>
+                  <TableHead className="text-right">Quality</TableHead>
+                  <TableHead>Flags</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {item.options.map(option => {
+                  const score = quality[`${item.itemNumber}-${option.option}`];
+                  return (
+                    <TableRow key={option.option} className={option.isKey ? 'bg-green-50' : undefined}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          {option.isKey && <CheckCircle className="h-4 w-4 text-green-600" />}
+                          <span className="font-medium">{option.option}.</span>
+                          <span className="text-sm truncate max-w-[240px]">{item.choices[option.option]}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right font-mono">{pct(option.proportion)}</TableCell>
+                      <TableCell className="text-right font-mono">{pct(option.upperProportion)}</TableCell>
+                      <TableCell className="text-right font-mono">{pct(option.lowerProportion)}</TableCell>
+                      <TableCell className="text-right font-mono">{option.pointBiserial.toFixed(2)}</TableCell>
+                      <TableCell className="text-right font-mono">
+                        {option.isKey || score == null ? '—' : pct(score)}
+                      </TableCell>
+                      <TableCell className="space-x-1">
+                        {option.nonFunctioning && (
+                          <Badge variant="secondary">Non-functioning</Badge>
+                        )}
+                        {option.attractsHighScorers && (
+                          <Badge variant="destructive" className="gap-1">
+                            <AlertTriangle className="h-3 w-3" />
+                            Pulls high scorers
+                          </Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,7 +3,7 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Badge } from '@/components/ui/badge';
-import { FileText, ListChecks, CheckCircle2, PenTool } from 'lucide-react';
+import { FileText, ListChecks, CheckCircle2, PenTool, ArrowLeftRight, ListOrdered, CheckSquare, Calculator } from 'lucide-react';
 
 interface ExamFormatSelectorProps {
   value: string;
@@ -15,14 +15,22 @@ const typeIcons = {
   mcq: <ListChecks className="w-4 h-4" />,
   true_false: <CheckCircle2 className="w-4 h-4" />,
   fill_blank: <PenTool className="w-4 h-4" />,
-  essay: <FileText className="w-4 h-4" />
+  essay: <FileText className="w-4 h-4" />,
+  matching: <ArrowLeftRight className="w-4 h-4" />,
+  ordering: <ListOrdered className="w-4 h-4" />,
+  multiple_response: <CheckSquare className="w-4 h-4" />,
+  numeric: <Calculator className="w-4 h-4" />
 };
 
 const typeColors = {
   mcq: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
   true_false: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
   fill_blank: 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200',
-  essay: 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200'
+  essay: 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200',
+  matching: 'bg-teal-100 text-teal-800 dark:bg-teal-900 dark:text-teal-200',
+  ordering: 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200',
+  multiple_response: 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-200',
+  numeric: 'bg-rose-100 text-rose-800 dark:bg-rose-900 dark:text-rose-200'
 };
 
 export function ExamFormatSelector({ value, onChange, totalItems = 50 }: ExamFormatSelectorProps) {
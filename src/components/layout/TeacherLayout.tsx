@@ -16,7 +16,8 @@ import {
   BookOpen,
   Menu,
   X,
-  Brain
+  Brain,
+  ClipboardCheck
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
@@ -48,6 +49,12 @@ const teacherMenuItems = [
     icon: Clock,
     description: "Saved specifications" 
   },
+  { 
+    title: "Classification Review", 
+    href: "/teacher/classification-review", 
+    icon: ClipboardCheck,
+    description: "Rate question labels" 
+  },
   { 
     title: "AI Assistant", 
     href: "/teacher/ai-assistant", 
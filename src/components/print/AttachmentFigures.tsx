@@ -0,0 +1,50 @@
+import { ATTACHMENT_SIZE_FRACTION, QuestionAttachment, attachmentKey, isImageAttachment } from '@/types/attachments';
+
+interface AttachmentFiguresProps {
+  attachments: QuestionAttachment[];
+  /** Signed URLs from useAttachmentUrls */
+  urls: Record<string, string>;
+  /** Smaller type for choices */
+  compact?: boolean;
+}
+
+/** The images attached to a question's stem or to one of its choices */
+export function AttachmentFigures({ attachments, urls, compact }: AttachmentFiguresProps) {
+  if (attachments.length === 0) return null;
+
+  return (
+    <>
+      {attachments.map(attachment => {
+        const src = urls[attachmentKey(attachment)];
+        if (!isImageAttachment(attachment)) {
+          return (
+            <p key={attachment.id} className="question-attachment" style={{ fontSize: '9pt', margin: '2pt 0' }}>
+              Attachment: {src ? <a href={src} target="_blank" rel="noreferrer">{attachment.name}</a> : attachment.name}
+            </p>
+          );
+        }
+        return (
+          <figure
+            key={attachment.id}
+            className="question-attachment"
+            style={{ margin: compact ? '2pt 0' : '4pt 0', textAlign: compact ? 'left' : 'center', pageBreakInside: 'avoid' }}
+          >
+            {src ? (
+              <img
+                src={src}
+                alt={attachment.alt || attachment.name}
+                style={{ width: `${ATTACHMENT_SIZE_FRACTION[attachment.size] * 100}%`, maxHeight: '260pt', objectFit: 'contain' }}
+                crossOrigin="anonymous"
+              />
+            ) : (
+              <span style={{ fontSize: '9pt', fontStyle: 'italic' }}>[{attachment.alt || attachment.name}]</span>
+            )}
+            {attachment.caption && (
+              <figcaption style={{ fontSize: compact ? '8pt' : '9pt', fontStyle: 'italic' }}>{attachment.caption}</figcaption>
+            )}
+          </figure>
+        );
+      })}
+    </>
+  );
+}
@@ -0,0 +1,54 @@
+import { Stimulus, STIMULUS_KIND_LABELS, isImageAttachment, stimulusBlocks } from '@/types/stimulus';
+
+interface StimulusBlockProps {
+  stimulus: Stimulus;
+  firstNumber: number;
+  lastNumber: number;
+}
+
+/** A passage, table or figure printed once above the questions that use it */
+export function StimulusBlock({ stimulus, firstNumber, lastNumber }: StimulusBlockProps) {
+  const range = firstNumber === lastNumber ? `Question ${firstNumber} refers` : `Questions ${firstNumber}–${lastNumber} refer`;
+  const cell = { border: '1px solid #000', padding: '2pt 6pt', fontSize: '10pt', textAlign: 'left' as const };
+
+  return (
+    <div className="exam-stimulus" style={{ margin: '8pt 0', padding: '6pt 8pt', border: '1px solid #000', pageBreakInside: 'avoid' }}>
+      <p style={{ fontSize: '10pt', fontStyle: 'italic', marginBottom: '4pt' }}>
+        {range} to the following {STIMULUS_KIND_LABELS[stimulus.kind]?.toLowerCase() || 'material'}.
+      </p>
+      {stimulus.title && (
+        <p style={{ fontSize: '11pt', fontWeight: 'bold', textAlign: 'center', marginBottom: '4pt' }}>{stimulus.title}</p>
+      )}
+      {stimulusBlocks(stimulus.content).map((block, i) =>
+        block.type === 'paragraph' ? (
+          <p key={i} style={{ fontSize: '11pt', textAlign: 'justify', whiteSpace: 'pre-line', marginBottom: '4pt', lineHeight: '1.4' }}>
+            {block.text}
+          </p>
+        ) : (
+          <table key={i} style={{ borderCollapse: 'collapse', margin: '4pt auto' }}>
+            <thead>
+              <tr>{block.header.map((text, c) => <th key={c} style={{ ...cell, fontWeight: 'bold' }}>{text}</th>)}</tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, r) => (
+                <tr key={r}>{row.map((text, c) => <td key={c} style={cell}>{text}</td>)}</tr>
+              ))}
+            </tbody>
+          </table>
+        )
+      )}
+      {stimulus.attachments.map((attachment, i) =>
+        isImageAttachment(attachment) ? (
+          <figure key={i} style={{ textAlign: 'center', margin: '6pt 0' }}>
+            <img src={attachment.url} alt={attachment.alt || attachment.name} style={{ maxWidth: '100%', maxHeight: '240pt' }} crossOrigin="anonymous" />
+            {attachment.alt && <figcaption style={{ fontSize: '9pt', fontStyle: 'italic' }}>{attachment.alt}</figcaption>}
+          </figure>
+        ) : (
+          <p key={i} style={{ fontSize: '9pt' }}>
+            Attachment: {attachment.name}
+          </p>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FileText, Trash2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAttachmentUrls } from '@/hooks/useAttachmentUrls';
+import { QuestionMedia } from '@/services/db/questionMedia';
+import {
+  ATTACHMENT_SIZE_LABELS,
+  AttachmentSize,
+  QuestionAttachment,
+  attachmentKey,
+  isImageAttachment,
+} from '@/types/attachments';
+
+const ACCEPT = 'image/png,image/jpeg,image/gif,image/webp,image/svg+xml,audio/mpeg,video/mp4,application/pdf';
+
+interface AttachmentsEditorProps {
+  value: QuestionAttachment[];
+  onChange: (attachments: QuestionAttachment[]) => void;
+  /** Letters of the question's choices, offered as placements besides the stem */
+  choiceLetters?: string[];
+}
+
+/**
+ * Upload diagrams, schematics and screenshots for a question and say where
+ * each one goes: under the stem or next to a choice ("Which graph shows…").
+ */
+export function AttachmentsEditor({ value, onChange, choiceLetters = [] }: AttachmentsEditorProps) {
+  const urls = useAttachmentUrls([{ attachments: value }]);
+  const input = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+  // Files uploaded while this form is open are deleted again if removed before saving
+  const [uploadedIds, setUploadedIds] = useState<Set<string>>(new Set());
+
+  const update = (id: string, patch: Partial<QuestionAttachment>) =>
+    onChange(value.map(a => (a.id === id ? { ...a, ...patch } : a)));
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setUploading(true);
+    const added: QuestionAttachment[] = [];
+    try {
+      for (const file of Array.from(files)) {
+        added.push(await QuestionMedia.upload(file, file.name));
+      }
+    } catch (error) {
+      console.error('Error uploading attachment:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to upload attachment');
+    } finally {
+      setUploading(false);
+      if (input.current) input.current.value = '';
+    }
+    if (added.length) {
+      setUploadedIds(prev => new Set([...prev, ...added.map(a => a.id)]));
+      onChange([...value, ...added]);
+      toast.success(`Uploaded ${added.length} ${added.length === 1 ? 'file' : 'files'}. Add alt text for each image.`);
+    }
+  };
+
+  const handleRemove = (attachment: QuestionAttachment) => {
+    onChange(value.filter(a => a.id !== attachment.id));
+    if (uploadedIds.has(attachment.id) && attachment.path) {
+      QuestionMedia.remove([attachment.path]).catch(error => console.warn('Could not delete attachment:', error));
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between items-center">
+        <Label>Attachments (diagrams, schematics, screenshots)</Label>
+        <Button variant="outline" size="sm" onClick={() => input.current?.click()} disabled={uploading}>
+          <Upload className="w-4 h-4 mr-2" />
+          {uploading ? 'Uploading...' : 'Upload'}
+        </Button>
+        <input ref={input} type="file" accept={ACCEPT} multiple className="hidden" onChange={(e) => handleFiles(e.target.files)} />
+      </div>
+
+      {value.map(attachment => {
+        const src = urls[attachmentKey(attachment)];
+        return (
+          <div key={attachment.id} className="flex gap-3 items-start rounded-md border p-2">
+            <div className="w-20 h-20 shrink-0 flex items-center justify-center bg-muted/40 rounded overflow-hidden">
+              {isImageAttachment(attachment) && src
+                ? <img src={src} alt={attachment.alt || attachment.name} className="max-w-full max-h-full object-contain" />
+                : <FileText className="w-6 h-6 text-muted-foreground" />}
+            </div>
+            <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-2">
+              <Input
+                value={attachment.alt}
+                onChange={(e) => update(attachment.id, { alt: e.target.value })}
+                placeholder="Alt text (describe the image)"
+                aria-invalid={isImageAttachment(attachment) && !attachment.alt.trim()}
+              />
+              <Input
+                value={attachment.caption ?? ''}
+                onChange={(e) => update(attachment.id, { caption: e.target.value || undefined })}
+                placeholder="Caption (printed under the image)"
+              />
+              <Select value={attachment.placement} onValueChange={(placement) => update(attachment.id, { placement })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="stem">Question stem</SelectItem>
+                  {choiceLetters.map(letter => (
+                    <SelectItem key={letter} value={letter}>Choice {letter}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={attachment.size} onValueChange={(size) => update(attachment.id, { size: size as AttachmentSize })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(ATTACHMENT_SIZE_LABELS) as AttachmentSize[]).map(size => (
+                    <SelectItem key={size} value={size}>{ATTACHMENT_SIZE_LABELS[size]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleRemove(attachment)}
+              className="hover:bg-destructive/10 hover:text-destructive hover:border-destructive/20"
+              aria-label={`Remove ${attachment.name}`}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
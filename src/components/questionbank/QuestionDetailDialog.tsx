@@ -0,0 +1,75 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import type { Question } from "@/services/db/questions";
+import { normalizeChoices, resolveOptionLetter } from "@/services/psychometrics/testItems";
+import { QuestionIrtPanel } from "./QuestionIrtPanel";
+import { QuestionRevisionHistory } from "./QuestionRevisionHistory";
+
+interface QuestionDetailDialogProps {
+  question: Question | null;
+  onOpenChange: (open: boolean) => void;
+  /** Called with the restored question after a rollback */
+  onRolledBack?: (question: Question) => void;
+}
+
+export function QuestionDetailDialog({ question, onOpenChange, onRolledBack }: QuestionDetailDialogProps) {
+  const choices = question ? normalizeChoices(question.choices) : {};
+  const keyLetter = question ? resolveOptionLetter(question.correct_answer, choices) : null;
+
+  return (
+    <Dialog open={!!question} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        {question && (
+          <>
+            <DialogHeader>
+              <DialogTitle>Question Details</DialogTitle>
+              <DialogDescription>
+                {[question.topic, question.bloom_level, question.difficulty, question.question_type]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-3">
+              <p className="text-sm leading-relaxed">{question.question_text}</p>
+              {Object.keys(choices).length > 0 && (
+                <ul className="space-y-1 text-sm">
+                  {Object.entries(choices).map(([letter, text]) => (
+                    <li key={letter} className="flex gap-2">
+                      <span className="font-mono">{letter}.</span>
+                      <span>{text}</span>
+                      {keyLetter === letter && (
+                        <Badge variant="secondary" className="text-xs">Key</Badge>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {Object.keys(choices).length === 0 && question.correct_answer && (
+                <p className="text-sm">
+                  <span className="text-muted-foreground">Answer: </span>
+                  {question.correct_answer}
+                </p>
+              )}
+            </div>
+
+            <Separator />
+
+            <div className="space-y-2">
+              <h3 className="font-semibold">Item Response Theory</h3>
+              <QuestionIrtPanel questionId={question.id} difficulty={question.difficulty} />
+            </div>
+
+            <Separator />
+
+            <div className="space-y-2">
+              <h3 className="font-semibold">Revision History</h3>
+              <QuestionRevisionHistory question={question} onRolledBack={onRolledBack} />
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,137 @@
+import { useEffect, useMemo, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { IrtParameters, QuestionIrtParameterRow } from "@/services/db/irtParameters";
+import { difficultyFromB, itemCurve } from "@/services/psychometrics/irt";
+
+interface QuestionIrtPanelProps {
+  questionId: string;
+  /** Stored difficulty label, compared against the calibrated b */
+  difficulty?: string | null;
+}
+
+const formatSe = (value: number | null) => (value == null ? "" : ` ± ${Number(value).toFixed(2)}`);
+
+/**
+ * Calibrated IRT parameters of one question with its item characteristic and
+ * information curves.
+ */
+export function QuestionIrtPanel({ questionId, difficulty }: QuestionIrtPanelProps) {
+  const [rows, setRows] = useState<QuestionIrtParameterRow[]>([]);
+  const [model, setModel] = useState<string>("");
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    IrtParameters.getForQuestion(questionId)
+      .then(data => {
+        if (cancelled) return;
+        setRows(data);
+        // Prefer the richest model that has been calibrated
+        setModel(data.map(r => r.model).sort().pop() ?? "");
+      })
+      .catch(error => console.error("Error loading IRT parameters:", error))
+      .finally(() => !cancelled && setLoading(false));
+    return () => { cancelled = true; };
+  }, [questionId]);
+
+  const selected = rows.find(r => r.model === model);
+  const curve = useMemo(
+    () => (selected ? itemCurve({ a: Number(selected.a), b: Number(selected.b), c: Number(selected.c) }) : []),
+    [selected]
+  );
+
+  if (loading) return <p className="text-sm text-muted-foreground">Loading item parameters…</p>;
+  if (rows.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Not calibrated yet. Item parameters appear once responses to this question have been
+        recorded and the bank has been calibrated.
+      </p>
+    );
+  }
+
+  const empirical = selected ? difficultyFromB(Number(selected.b)) : null;
+  const mismatch = empirical && difficulty && empirical.toLowerCase() !== difficulty.toLowerCase();
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <Tabs value={model} onValueChange={setModel}>
+          <TabsList>
+            {rows.map(r => (
+              <TabsTrigger key={r.model} value={r.model}>{r.model}</TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+        {empirical && (
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-muted-foreground">Empirical difficulty</span>
+            <Badge variant={mismatch ? "destructive" : "secondary"}>{empirical}</Badge>
+            {mismatch && <span className="text-xs text-muted-foreground">labelled {difficulty}</span>}
+          </div>
+        )}
+      </div>
+
+      {selected && (
+        <>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Discrimination (a)</TableHead>
+                <TableHead>Difficulty (b)</TableHead>
+                <TableHead>Guessing (c)</TableHead>
+                <TableHead className="text-right">Responses</TableHead>
+                <TableHead className="text-right">p-value</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              <TableRow className="font-mono text-sm">
+                <TableCell>{Number(selected.a).toFixed(2)}{formatSe(selected.se_a)}</TableCell>
+                <TableCell>{Number(selected.b).toFixed(2)}{formatSe(selected.se_b)}</TableCell>
+                <TableCell>{Number(selected.c).toFixed(2)}{formatSe(selected.se_c)}</TableCell>
+                <TableCell className="text-right">{selected.response_count}</TableCell>
+                <TableCell className="text-right">
+                  {selected.p_value == null ? "—" : Number(selected.p_value).toFixed(2)}
+                </TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <h4 className="text-sm font-medium mb-2">Item characteristic curve</h4>
+              <ResponsiveContainer width="100%" height={220}>
+                <LineChart data={curve}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="theta" type="number" domain={[-4, 4]} ticks={[-4, -2, 0, 2, 4]} />
+                  <YAxis domain={[0, 1]} />
+                  <Tooltip formatter={(v: number) => v.toFixed(3)} labelFormatter={t => `θ = ${t}`} />
+                  <Line type="monotone" dataKey="probability" name="P(correct)" stroke="hsl(var(--primary))" dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+            <div>
+              <h4 className="text-sm font-medium mb-2">Item information</h4>
+              <ResponsiveContainer width="100%" height={220}>
+                <LineChart data={curve}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="theta" type="number" domain={[-4, 4]} ticks={[-4, -2, 0, 2, 4]} />
+                  <YAxis />
+                  <Tooltip formatter={(v: number) => v.toFixed(3)} labelFormatter={t => `θ = ${t}`} />
+                  <Line type="monotone" dataKey="information" name="Information" stroke="hsl(var(--chart-2))" dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Logistic metric (D = 1), ability on a standard-normal scale. Calibrated {new Date(selected.updated_at).toLocaleDateString()}.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
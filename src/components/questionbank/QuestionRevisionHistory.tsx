@@ -0,0 +1,191 @@
+import { useEffect, useMemo, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import type { Question } from "@/services/db/questions";
+import { QuestionRevision, QuestionRevisions } from "@/services/db/questionRevisions";
+import { Classification, DiffToken, SNAPSHOT_FIELD_LABELS, SnapshotField, diffSnapshots, diffWords } from "@/lib/revisionDiff";
+
+interface QuestionRevisionHistoryProps {
+  question: Question;
+  /** Called with the question as restored by a rollback */
+  onRolledBack?: (question: Question) => void;
+}
+
+const CLASSIFICATION_KEYS: (keyof Classification)[] = ["bloom_level", "knowledge_dimension", "difficulty"];
+
+function classificationText(classification: Classification | null): string {
+  if (!classification) return "";
+  return CLASSIFICATION_KEYS.map(key => classification[key] || "—").join(" · ");
+}
+
+function DiffText({ tokens }: { tokens: DiffToken[] }) {
+  return (
+    <p className="text-sm whitespace-pre-wrap break-words">
+      {tokens.map((token, i) =>
+        token.change === "same" ? (
+          <span key={i}>{token.text}</span>
+        ) : token.change === "removed" ? (
+          <del key={i} className="bg-destructive/15 text-destructive">{token.text}</del>
+        ) : (
+          <ins key={i} className="bg-primary/15 text-primary no-underline">{token.text}</ins>
+        )
+      )}
+    </p>
+  );
+}
+
+/**
+ * Every revision of a question, newest first: who changed it, why, which
+ * fields, and its classification before and after. The selected revision is
+ * compared side by side with the one before it or with the current question,
+ * and can be restored with one click.
+ */
+export function QuestionRevisionHistory({ question, onRolledBack }: QuestionRevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<QuestionRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareWith, setCompareWith] = useState<"previous" | "current">("previous");
+  const [reason, setReason] = useState("");
+  const [rollingBack, setRollingBack] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    QuestionRevisions.list(question.id)
+      .then(data => {
+        if (cancelled) return;
+        setRevisions(data);
+        setSelectedId(data[0]?.id ?? null);
+      })
+      .catch(error => console.error("Error loading question revisions:", error))
+      .finally(() => !cancelled && setLoading(false));
+    return () => { cancelled = true; };
+  }, [question.id, question.revision_number]);
+
+  const selectedIndex = revisions.findIndex(r => r.id === selectedId);
+  const selected = selectedIndex >= 0 ? revisions[selectedIndex] : null;
+  const latest = revisions[0] ?? null;
+
+  // Older revision on the left, newer on the right
+  const [left, right] = useMemo(() => {
+    if (!selected) return [null, null];
+    if (compareWith === "current") return [selected, latest];
+    return [revisions[selectedIndex + 1] ?? null, selected];
+  }, [selected, selectedIndex, compareWith, revisions, latest]);
+
+  const changes = useMemo(
+    () => (right ? diffSnapshots(left?.snapshot ?? null, right.snapshot) : []),
+    [left, right]
+  );
+
+  const handleRollback = async () => {
+    if (!selected) return;
+    setRollingBack(true);
+    try {
+      const restored = await QuestionRevisions.rollback(question.id, selected, reason);
+      toast.success(`Restored revision ${selected.revision_number}`);
+      setReason("");
+      onRolledBack?.(restored);
+    } catch (error) {
+      console.error("Error rolling back question:", error);
+      toast.error("Failed to roll back question");
+    } finally {
+      setRollingBack(false);
+    }
+  };
+
+  if (loading) return <p className="text-sm text-muted-foreground">Loading revision history…</p>;
+  if (revisions.length === 0) return <p className="text-sm text-muted-foreground">No revisions recorded yet.</p>;
+
+  return (
+    <div className="space-y-4">
+      <ul className="divide-y rounded-md border max-h-56 overflow-y-auto">
+        {revisions.map(revision => (
+          <li key={revision.id}>
+            <button
+              type="button"
+              onClick={() => setSelectedId(revision.id)}
+              className={`w-full text-left px-3 py-2 text-sm space-y-1 hover:bg-muted/50 ${revision.id === selectedId ? "bg-muted" : ""}`}
+            >
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant={revision.id === latest?.id ? "default" : "outline"}>Rev. {revision.revision_number}</Badge>
+                <span className="text-muted-foreground">
+                  {new Date(revision.created_at).toLocaleString()} · {revision.author_name || "Unknown editor"}
+                </span>
+              </div>
+              {revision.change_reason && <p>{revision.change_reason}</p>}
+              <div className="flex flex-wrap gap-1">
+                {revision.changed_fields.map(field => (
+                  <Badge key={field} variant="secondary" className="text-xs">
+                    {SNAPSHOT_FIELD_LABELS[field as SnapshotField] ?? field}
+                  </Badge>
+                ))}
+              </div>
+              {revision.classification_before &&
+                classificationText(revision.classification_before) !== classificationText(revision.classification_after) && (
+                  <p className="text-xs text-muted-foreground">
+                    Classification: {classificationText(revision.classification_before)} → {classificationText(revision.classification_after)}
+                  </p>
+                )}
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {selected && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm font-medium">Compare revision {selected.revision_number} with</span>
+            <Select value={compareWith} onValueChange={(v) => setCompareWith(v as "previous" | "current")}>
+              <SelectTrigger className="w-[190px]"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="previous">the revision before it</SelectItem>
+                <SelectItem value="current">the current question</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {changes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No differences.</p>
+          ) : (
+            <div className="space-y-3">
+              <div className="grid grid-cols-[8rem_1fr_1fr] gap-2 text-xs text-muted-foreground">
+                <span />
+                <span>{left ? `Revision ${left.revision_number}` : "Before"}</span>
+                <span>Revision {right?.revision_number}{right?.id === latest?.id ? " (current)" : ""}</span>
+              </div>
+              {changes.map(change => {
+                const words = diffWords(change.before, change.after);
+                return (
+                  <div key={change.field} className="grid grid-cols-[8rem_1fr_1fr] gap-2 border-t pt-2">
+                    <span className="text-sm font-medium">{change.label}</span>
+                    <DiffText tokens={words.before} />
+                    <DiffText tokens={words.after} />
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {selected.id !== latest?.id && (
+            <div className="flex gap-2">
+              <Input
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Reason for rolling back (optional)"
+              />
+              <Button variant="outline" onClick={handleRollback} disabled={rollingBack}>
+                <RotateCcw className="h-4 w-4 mr-2" />
+                {rollingBack ? "Restoring..." : `Restore revision ${selected.revision_number}`}
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Stimuli, StimulusInput } from '@/services/db/stimuli';
+import { STIMULUS_KIND_LABELS, Stimulus, StimulusAttachment, StimulusKind } from '@/types/stimulus';
+
+const NONE = 'none';
+
+interface StimulusPickerProps {
+  value: string | null;
+  onChange: (stimulusId: string | null) => void;
+  /** Prefills the topic of a new stimulus */
+  topic?: string;
+}
+
+/**
+ * Attach a question to a shared passage, table or figure, or create one.
+ * Questions on the same stimulus stay together on every test version.
+ */
+export function StimulusPicker({ value, onChange, topic }: StimulusPickerProps) {
+  const [stimuli, setStimuli] = useState<Stimulus[]>([]);
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [editing, setEditing] = useState<Stimulus | 'new' | null>(null);
+
+  useEffect(() => {
+    Promise.all([Stimuli.list(), Stimuli.questionCounts()])
+      .then(([list, byStimulus]) => {
+        setStimuli(list);
+        setCounts(byStimulus);
+      })
+      .catch(error => console.warn('Could not load stimuli:', error));
+  }, []);
+
+  const selected = stimuli.find(s => s.id === value) ?? null;
+
+  const handleSaved = (stimulus: Stimulus) => {
+    setStimuli(prev => [stimulus, ...prev.filter(s => s.id !== stimulus.id)]);
+    onChange(stimulus.id);
+    setEditing(null);
+  };
+
+  return (
+    <div>
+      <Label>Shared Stimulus (passage, table or figure)</Label>
+      <div className="flex gap-2">
+        <Select value={value ?? NONE} onValueChange={(v) => onChange(v === NONE ? null : v)}>
+          <SelectTrigger className="flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>None — standalone question</SelectItem>
+            {stimuli.map(s => (
+              <SelectItem key={s.id} value={s.id}>
+                {s.title} ({STIMULUS_KIND_LABELS[s.kind] ?? s.kind}, {counts[s.id] || 0} questions)
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {selected && (
+          <Button variant="outline" size="sm" onClick={() => setEditing(selected)} aria-label="Edit stimulus">
+            <Pencil className="w-4 h-4" />
+          </Button>
+        )}
+        <Button variant="outline" size="sm" onClick={() => setEditing('new')}>
+          <Plus className="w-4 h-4 mr-2" />
+          New
+        </Button>
+      </div>
+      {selected && (
+        <p className="text-xs text-muted-foreground mt-1 line-clamp-2">{selected.content}</p>
+      )}
+
+      {editing && (
+        <StimulusEditorDialog
+          stimulus={editing === 'new' ? null : editing}
+          topic={topic}
+          onSaved={handleSaved}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+interface StimulusEditorDialogProps {
+  stimulus: Stimulus | null;
+  topic?: string;
+  onSaved: (stimulus: Stimulus) => void;
+  onClose: () => void;
+}
+
+function StimulusEditorDialog({ stimulus, topic, onSaved, onClose }: StimulusEditorDialogProps) {
+  const [form, setForm] = useState<StimulusInput>({
+    title: stimulus?.title ?? '',
+    kind: stimulus?.kind ?? 'passage',
+    content: stimulus?.content ?? '',
+    attachments: stimulus?.attachments ?? [],
+    topic: stimulus?.topic ?? topic ?? null,
+  });
+  const [saving, setSaving] = useState(false);
+  const attachments = form.attachments ?? [];
+
+  const setAttachment = (index: number, patch: Partial<StimulusAttachment>) =>
+    setForm(prev => ({ ...prev, attachments: attachments.map((a, i) => (i === index ? { ...a, ...patch } : a)) }));
+
+  const handleSave = async () => {
+    if (!form.title.trim()) {
+      toast.error('Give the stimulus a title');
+      return;
+    }
+    if (!form.content.trim() && attachments.length === 0) {
+      toast.error('Add the passage text or at least one attachment');
+      return;
+    }
+    const input = {
+      ...form,
+      title: form.title.trim(),
+      attachments: attachments
+        .filter(a => a.url.trim())
+        .map(a => ({ ...a, url: a.url.trim(), name: a.name.trim() || a.url.trim().split('/').pop() || 'attachment' })),
+    };
+
+    setSaving(true);
+    try {
+      const saved = stimulus ? await Stimuli.update(stimulus.id, input) : await Stimuli.create(input);
+      toast.success(stimulus ? 'Stimulus updated' : 'Stimulus created');
+      onSaved(saved);
+    } catch (error) {
+      console.error('Error saving stimulus:', error);
+      toast.error('Failed to save stimulus');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{stimulus ? 'Edit Stimulus' : 'New Stimulus'}</DialogTitle>
+          <DialogDescription>
+            Printed once above every question that uses it. Changes apply to all of those questions.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="stimulusTitle">Title</Label>
+              <Input
+                id="stimulusTitle"
+                value={form.title}
+                onChange={(e) => setForm(prev => ({ ...prev, title: e.target.value }))}
+                placeholder="e.g. The Water Cycle"
+              />
+            </div>
+            <div>
+              <Label>Kind</Label>
+              <Select value={form.kind} onValueChange={(v) => setForm(prev => ({ ...prev, kind: v as StimulusKind }))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(STIMULUS_KIND_LABELS) as StimulusKind[]).map(kind => (
+                    <SelectItem key={kind} value={kind}>{STIMULUS_KIND_LABELS[kind]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="stimulusContent">Content</Label>
+            <Textarea
+              id="stimulusContent"
+              value={form.content}
+              onChange={(e) => setForm(prev => ({ ...prev, content: e.target.value }))}
+              placeholder={'Separate paragraphs with a blank line.\nWrite tables as rows such as | Year | Sales |'}
+              className="min-h-[180px] font-mono text-sm"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <Label>Attachments (images are printed with the stimulus)</Label>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setForm(prev => ({ ...prev, attachments: [...attachments, { name: '', url: '' }] }))}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add
+              </Button>
+            </div>
+            {attachments.map((attachment, index) => (
+              <div key={index} className="flex gap-2 items-center">
+                <Input
+                  value={attachment.url}
+                  onChange={(e) => setAttachment(index, { url: e.target.value })}
+                  placeholder="https://…/figure.png"
+                  className="flex-[2]"
+                />
+                <Input
+                  value={attachment.alt ?? ''}
+                  onChange={(e) => setAttachment(index, { alt: e.target.value || undefined })}
+                  placeholder="Caption / alt text"
+                  className="flex-1"
+                />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setForm(prev => ({ ...prev, attachments: attachments.filter((_, i) => i !== index) }))}
+                  className="hover:bg-destructive/10 hover:text-destructive hover:border-destructive/20"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saving}>{saving ? 'Saving...' : 'Save Stimulus'}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
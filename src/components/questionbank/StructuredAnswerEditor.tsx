@@ -0,0 +1,316 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import {
+  NumericChoices,
+  QuestionChoices,
+  StructuredKind,
+  answerLetters,
+  formatLetters,
+  isMatchingChoices,
+  isNumericChoices,
+  matchingFromPairs,
+  orderedSteps,
+  orderingFromSteps,
+} from '@/types/questionTypes';
+
+export interface StructuredAnswer {
+  choices: QuestionChoices | null;
+  correct_answer: string;
+}
+
+interface StructuredAnswerEditorProps {
+  type: StructuredKind;
+  value: StructuredAnswer;
+  onChange: (value: StructuredAnswer) => void;
+}
+
+const MAX_ROWS = 10;
+const letterAt = (index: number) => String.fromCharCode(65 + index);
+
+/**
+ * Choices and key editor for matching, ordering, multiple-response and numeric
+ * questions. Authors enter pairs and steps in their natural order; the stored
+ * shape (see types/questionTypes) is derived on every change. Remount with a
+ * new key to load a different question.
+ */
+export function StructuredAnswerEditor({ type, value, onChange }: StructuredAnswerEditorProps) {
+  if (type === 'matching') return <MatchingEditor value={value} onChange={onChange} />;
+  if (type === 'ordering') return <OrderingEditor value={value} onChange={onChange} />;
+  if (type === 'multiple_response') return <MultipleResponseEditor value={value} onChange={onChange} />;
+  return <NumericEditor value={value} onChange={onChange} />;
+}
+
+type EditorProps = Omit<StructuredAnswerEditorProps, 'type'>;
+
+function RemoveButton({ onClick, disabled }: { onClick: () => void; disabled?: boolean }) {
+  return (
+    <Button
+      onClick={onClick}
+      variant="outline"
+      size="sm"
+      disabled={disabled}
+      className="hover:bg-destructive/10 hover:text-destructive hover:border-destructive/20"
+    >
+      <Trash2 className="w-4 h-4" />
+    </Button>
+  );
+}
+
+function MatchingEditor({ value, onChange }: EditorProps) {
+  const [pairs, setPairs] = useState<[string, string][]>(() => {
+    if (!isMatchingChoices(value.choices)) return [['', ''], ['', ''], ['', '']];
+    const { premises, responses } = value.choices;
+    const letters = answerLetters(value.correct_answer);
+    return premises.map((premise, i) => [premise, responses[(letters[i] ?? '').charCodeAt(0) - 65] ?? '']);
+  });
+  const [decoys, setDecoys] = useState<string[]>(() => {
+    if (!isMatchingChoices(value.choices)) return [];
+    const used = new Set(answerLetters(value.correct_answer));
+    return value.choices.responses.filter((_, i) => !used.has(letterAt(i)));
+  });
+
+  const emit = (nextPairs: [string, string][], nextDecoys: string[]) => {
+    setPairs(nextPairs);
+    setDecoys(nextDecoys);
+    const complete = nextPairs
+      .map(([p, r]) => [p.trim(), r.trim()] as [string, string])
+      .filter(([p, r]) => p && r);
+    onChange(matchingFromPairs(complete, nextDecoys.map(d => d.trim()).filter(Boolean)));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <Label>Pairs (Column A → Column B)</Label>
+        <Button
+          onClick={() => emit([...pairs, ['', '']], decoys)}
+          variant="outline"
+          size="sm"
+          disabled={pairs.length >= MAX_ROWS}
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Pair
+        </Button>
+      </div>
+      {pairs.map(([premise, response], index) => (
+        <div key={index} className="flex gap-3 items-center">
+          <span className="text-sm font-medium min-w-[20px]">{index + 1}.</span>
+          <Input
+            value={premise}
+            onChange={(e) => emit(pairs.map((p, i) => (i === index ? [e.target.value, p[1]] : p)), decoys)}
+            placeholder="Premise"
+            className="flex-1"
+          />
+          <Input
+            value={response}
+            onChange={(e) => emit(pairs.map((p, i) => (i === index ? [p[0], e.target.value] : p)), decoys)}
+            placeholder="Matching response"
+            className="flex-1"
+          />
+          <RemoveButton onClick={() => emit(pairs.filter((_, i) => i !== index), decoys)} disabled={pairs.length <= 2} />
+        </div>
+      ))}
+
+      <div className="flex justify-between items-center pt-2">
+        <Label>Extra responses (decoys)</Label>
+        <Button onClick={() => emit(pairs, [...decoys, ''])} variant="outline" size="sm" disabled={decoys.length >= 3}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Decoy
+        </Button>
+      </div>
+      {decoys.map((decoy, index) => (
+        <div key={index} className="flex gap-3 items-center">
+          <Input
+            value={decoy}
+            onChange={(e) => emit(pairs, decoys.map((d, i) => (i === index ? e.target.value : d)))}
+            placeholder="Response no premise uses"
+            className="flex-1"
+          />
+          <RemoveButton onClick={() => emit(pairs, decoys.filter((_, i) => i !== index))} />
+        </div>
+      ))}
+      <p className="text-xs text-muted-foreground">
+        Responses are printed in alphabetical order, decoys last. Each premise earns an equal share of the points.
+      </p>
+    </div>
+  );
+}
+
+function OrderingEditor({ value, onChange }: EditorProps) {
+  const [steps, setSteps] = useState<string[]>(() => {
+    const loaded = orderedSteps(value.choices, value.correct_answer);
+    return loaded.length ? loaded : ['', '', ''];
+  });
+
+  const emit = (next: string[]) => {
+    setSteps(next);
+    onChange(orderingFromSteps(next.map(s => s.trim()).filter(Boolean)));
+  };
+  const move = (index: number, offset: number) => {
+    const next = [...steps];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    emit(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <Label>Steps in the correct order</Label>
+        <Button onClick={() => emit([...steps, ''])} variant="outline" size="sm" disabled={steps.length >= MAX_ROWS}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Step
+        </Button>
+      </div>
+      {steps.map((step, index) => (
+        <div key={index} className="flex gap-3 items-center">
+          <span className="text-sm font-medium min-w-[20px]">{index + 1}.</span>
+          <Input
+            value={step}
+            onChange={(e) => emit(steps.map((s, i) => (i === index ? e.target.value : s)))}
+            placeholder={`Step ${index + 1}`}
+            className="flex-1"
+          />
+          <Button onClick={() => move(index, -1)} variant="outline" size="sm" disabled={index === 0} aria-label="Move up">
+            <ArrowUp className="w-4 h-4" />
+          </Button>
+          <Button onClick={() => move(index, 1)} variant="outline" size="sm" disabled={index === steps.length - 1} aria-label="Move down">
+            <ArrowDown className="w-4 h-4" />
+          </Button>
+          <RemoveButton onClick={() => emit(steps.filter((_, i) => i !== index))} disabled={steps.length <= 3} />
+        </div>
+      ))}
+      <p className="text-xs text-muted-foreground">
+        Steps are printed in alphabetical order; each step in its correct position earns an equal share of the points.
+      </p>
+    </div>
+  );
+}
+
+function MultipleResponseEditor({ value, onChange }: EditorProps) {
+  const [options, setOptions] = useState<string[]>(() => {
+    const choices = value.choices && !isMatchingChoices(value.choices) && !isNumericChoices(value.choices)
+      ? Object.keys(value.choices).sort().map(letter => (value.choices as Record<string, string>)[letter])
+      : [];
+    return choices.length ? choices : ['', '', '', ''];
+  });
+  const [correct, setCorrect] = useState<Set<number>>(
+    () => new Set(answerLetters(value.correct_answer).map(l => l.charCodeAt(0) - 65))
+  );
+
+  const emit = (nextOptions: string[], nextCorrect: Set<number>) => {
+    setOptions(nextOptions);
+    setCorrect(nextCorrect);
+    // Letters follow the filled-in options, so a blank row does not leave a gap
+    const filled = nextOptions.map((text, i) => ({ text: text.trim(), i })).filter(o => o.text);
+    onChange({
+      choices: Object.fromEntries(filled.map((o, n) => [letterAt(n), o.text])),
+      correct_answer: formatLetters(filled.map((o, n) => (nextCorrect.has(o.i) ? letterAt(n) : '')).filter(Boolean)),
+    });
+  };
+  const toggle = (index: number, checked: boolean) => {
+    const next = new Set(correct);
+    if (checked) next.add(index);
+    else next.delete(index);
+    emit(options, next);
+  };
+  const remove = (index: number) => {
+    const next = new Set([...correct].filter(i => i !== index).map(i => (i > index ? i - 1 : i)));
+    emit(options.filter((_, i) => i !== index), next);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <Label>Options (tick every correct one)</Label>
+        <Button onClick={() => emit([...options, ''], correct)} variant="outline" size="sm" disabled={options.length >= 8}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Option
+        </Button>
+      </div>
+      {options.map((option, index) => (
+        <div key={index} className="flex gap-3 items-center">
+          <Checkbox
+            checked={correct.has(index)}
+            onCheckedChange={(checked) => toggle(index, checked === true)}
+            aria-label={`Option ${letterAt(index)} is correct`}
+          />
+          <span className="text-sm font-medium min-w-[20px]">{letterAt(index)}.</span>
+          <Input
+            value={option}
+            onChange={(e) => emit(options.map((o, i) => (i === index ? e.target.value : o)), correct)}
+            placeholder={`Option ${letterAt(index)}`}
+            className="flex-1"
+          />
+          <RemoveButton onClick={() => remove(index)} disabled={options.length <= 3} />
+        </div>
+      ))}
+      <p className="text-xs text-muted-foreground">
+        Scored right minus wrong: each wrong letter cancels a right one, and the score never drops below zero.
+      </p>
+    </div>
+  );
+}
+
+function NumericEditor({ value, onChange }: EditorProps) {
+  const spec: NumericChoices = isNumericChoices(value.choices) ? value.choices : { tolerance: 0, tolerance_type: 'absolute' };
+  const update = (patch: Partial<NumericChoices>, answer = value.correct_answer) =>
+    onChange({ choices: { ...spec, ...patch }, correct_answer: answer });
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div>
+        <Label htmlFor="numericAnswer">Correct Value</Label>
+        <Input
+          id="numericAnswer"
+          inputMode="decimal"
+          value={value.correct_answer}
+          onChange={(e) => update({}, e.target.value.trim())}
+          placeholder="e.g. 9.81"
+        />
+      </div>
+      <div>
+        <Label htmlFor="numericUnit">Unit</Label>
+        <Input
+          id="numericUnit"
+          value={spec.unit ?? ''}
+          onChange={(e) => update({ unit: e.target.value || undefined })}
+          placeholder='e.g. m/s^2 (alternatives: "m/s^2|m/s²")'
+        />
+      </div>
+      <div>
+        <Label htmlFor="numericTolerance">Tolerance</Label>
+        <Input
+          id="numericTolerance"
+          type="number"
+          min={0}
+          step="any"
+          value={spec.tolerance}
+          onChange={(e) => update({ tolerance: Math.max(0, Number(e.target.value) || 0) })}
+        />
+      </div>
+      <div>
+        <Label>Tolerance Type</Label>
+        <Select
+          value={spec.tolerance_type ?? 'absolute'}
+          onValueChange={(v) => update({ tolerance_type: v as NumericChoices['tolerance_type'] })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="absolute">± value</SelectItem>
+            <SelectItem value="percent">± percent of the answer</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <p className="text-xs text-muted-foreground md:col-span-2">
+        Answers within the tolerance earn full credit. A unit written by the student must match one of the alternatives.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import { KeyboardEvent, useMemo, useRef } from 'react';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import type { ResponseSource, TestAssignmentRow } from '@/services/db/itemResponses';
+import {
+  VersionAnswerKey,
+  isBubbled,
+  parseAnswerString,
+  scoreAnswerSheet,
+} from '@/services/scoring/answerSheet';
+
+export interface SheetDraft {
+  answers: string;
+  source: ResponseSource;
+  dirty: boolean;
+}
+
+interface AnswerSheetGridProps {
+  assignments: TestAssignmentRow[];
+  keysByVersion: Record<string, VersionAnswerKey>;
+  drafts: Record<string, SheetDraft>;
+  onChange: (assignmentId: string, answers: string) => void;
+}
+
+/**
+ * Keyboard-first answer entry: one answer string per student, Enter or ↓ moves to
+ * the next student and ↑ to the previous one. Each row is scored as it is typed.
+ */
+export function AnswerSheetGrid({ assignments, keysByVersion, drafts, onChange }: AnswerSheetGridProps) {
+  const inputs = useRef<(HTMLInputElement | null)[]>([]);
+
+  const scoredRows = useMemo(() => assignments.map(assignment => {
+    const key = keysByVersion[assignment.test_version_id];
+    const answers = drafts[assignment.id]?.answers ?? '';
+    if (!key) return { key, scored: [] };
+    return { key, scored: scoreAnswerSheet(key, parseAnswerString(answers, key.items.length)) };
+  }), [assignments, keysByVersion, drafts]);
+
+  const focusRow = (index: number) => {
+    const target = inputs.current[index];
+    if (target) {
+      target.focus();
+      target.select();
+    }
+  };
+
+  const handleKeyDown = (index: number) => (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === 'ArrowDown') {
+      e.preventDefault();
+      focusRow(index + 1);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      focusRow(index - 1);
+    }
+  };
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-[200px]">Student</TableHead>
+          <TableHead className="w-[80px]">Version</TableHead>
+          <TableHead>Answer String</TableHead>
+          <TableHead className="w-[100px] text-right">Score</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {assignments.map((assignment, index) => {
+          const { key, scored } = scoredRows[index];
+          const draft = drafts[assignment.id];
+          const earned = scored.reduce((s, item) => s + item.score, 0);
+          const possible = scored.reduce((s, item) => s + item.maxScore, 0);
+          const hasWritten = key?.items.some(item => !isBubbled(item.questionType));
+
+          return (
+            <TableRow key={assignment.id}>
+              <TableCell>
+                <div className="font-medium">{assignment.student_name}</div>
+                <div className="text-xs text-muted-foreground">{assignment.student_id}</div>
+              </TableCell>
+              <TableCell>
+                <Badge variant="outline">{key?.versionLabel ?? '—'}</Badge>
+              </TableCell>
+              <TableCell className="space-y-2">
+                <Input
+                  ref={el => { inputs.current[index] = el; }}
+                  value={draft?.answers ?? ''}
+                  onChange={e => onChange(assignment.id, e.target.value)}
+                  onKeyDown={handleKeyDown(index)}
+                  placeholder={hasWritten ? 'A,B,T,photosynthesis,...' : 'ABCDTF-A...'}
+                  className={cn('font-mono tracking-wider', draft?.dirty && 'border-primary')}
+                  autoComplete="off"
+                  spellCheck={false}
+                />
+                <div className="flex flex-wrap gap-0.5">
+                  {scored.map(item => (
+                    <span
+                      key={item.itemNumber}
+                      title={`Item ${item.itemNumber}: ${item.response ?? 'blank'}`}
+                      className={cn(
+                        'inline-flex h-5 min-w-5 px-1 items-center justify-center rounded text-[10px] font-mono',
+                        item.response == null && 'bg-muted text-muted-foreground',
+                        item.response != null && item.isCorrect === true && 'bg-green-100 text-green-800',
+                        item.response != null && item.isCorrect === false && 'bg-red-100 text-red-800',
+                        item.response != null && item.isCorrect === null && 'bg-yellow-100 text-yellow-800'
+                      )}
+                    >
+                      {item.response ? item.response.slice(0, 3) : item.itemNumber}
+                    </span>
+                  ))}
+                </div>
+              </TableCell>
+              <TableCell className="text-right font-mono">
+                {possible > 0 ? `${earned}/${possible}` : '—'}
+                {draft?.source === 'csv' && draft.dirty && (
+                  <div><Badge variant="secondary" className="text-[10px]">CSV</Badge></div>
+                )}
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
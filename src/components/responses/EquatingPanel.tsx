@@ -0,0 +1,219 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { AlertTriangle, Calculator, Check } from 'lucide-react';
+import { toast } from 'sonner';
+import { ComputedConversion, ReferenceCandidate, ScoreConversions } from '@/services/db/scoreConversions';
+import { EQUATING_METHODS, EquatingMethod } from '@/services/psychometrics/equating';
+import type { VersionAnswerKey } from '@/services/scoring/answerSheet';
+
+interface EquatingPanelProps {
+  keys: VersionAnswerKey[];
+  /** Called after conversions are saved so grade reports reload them */
+  onSaved: () => void;
+}
+
+const LINE_COLORS = ['hsl(var(--primary))', 'hsl(var(--chart-2))', 'hsl(var(--chart-3))', 'hsl(var(--chart-4))', 'hsl(var(--chart-5))'];
+
+const DESIGN_LABELS: Record<string, string> = {
+  anchor: 'anchor items',
+  equivalent_groups: 'equivalent groups',
+  irt: 'item parameters',
+};
+
+/**
+ * Equate every version of the test to a reference form: another version of the
+ * same test, or an earlier test that shares bank questions with it.
+ */
+export function EquatingPanel({ keys, onSaved }: EquatingPanelProps) {
+  const [method, setMethod] = useState<EquatingMethod>('linear');
+  const [referenceId, setReferenceId] = useState(keys[0]?.testId ?? '');
+  const [candidates, setCandidates] = useState<ReferenceCandidate[]>([]);
+  const [results, setResults] = useState<ComputedConversion[]>([]);
+  const [computing, setComputing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  const familyIds = useMemo(() => keys.map(k => k.testId), [keys]);
+  const versionLabel = (testId: string) => {
+    const key = keys.find(k => k.testId === testId);
+    return key ? `Version ${key.versionLabel ?? '—'}` : candidates.find(c => c.id === testId)?.title ?? 'Reference';
+  };
+
+  useEffect(() => {
+    const questionIds = [...new Set(keys.flatMap(k => k.items.map(i => i.questionId)).filter((id): id is string => !!id))];
+    if (questionIds.length === 0) return;
+    ScoreConversions.listReferenceCandidates(questionIds, keys.map(k => k.testId))
+      .then(setCandidates)
+      .catch(error => console.error('Error loading reference tests:', error));
+  }, [keys]);
+
+  const handleCompute = async () => {
+    const forms = familyIds.filter(id => id !== referenceId);
+    if (!referenceId || forms.length === 0) {
+      toast.error('Choose a reference form other than the only version');
+      return;
+    }
+
+    setComputing(true);
+    setSaved(false);
+    try {
+      const computed: ComputedConversion[] = [];
+      for (const testId of forms) {
+        computed.push(await ScoreConversions.compute(method, testId, referenceId));
+      }
+      setResults(computed);
+      const unanchored = computed.filter(c => c.anchorItemCount === 0).length;
+      if (unanchored > 0 && method !== 'irt_true_score') {
+        toast.warning(`${unanchored} form(s) share no items with the reference; groups were treated as equivalent`);
+      }
+    } catch (error) {
+      console.error('Error equating scores:', error);
+      toast.error('Failed to equate scores', {
+        description: error instanceof Error ? error.message : undefined
+      });
+    } finally {
+      setComputing(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      for (const result of results) await ScoreConversions.save(result);
+      setSaved(true);
+      toast.success(`Conversion tables applied to ${results.length} form(s)`);
+      onSaved();
+    } catch (error) {
+      console.error('Error saving conversion tables:', error);
+      toast.error('Failed to save conversion tables');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // One row per raw score, one column per equated form
+  const chartData = useMemo(() => {
+    const maxRaw = Math.max(0, ...results.map(r => r.table.rows.length - 1));
+    return Array.from({ length: maxRaw + 1 }, (_, raw) => ({
+      raw,
+      ...Object.fromEntries(results.map(r => [r.testId, r.table.rows[raw]?.equated]))
+    }));
+  }, [results]);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+        <div>
+          <Label>Method</Label>
+          <Select value={method} onValueChange={v => setMethod(v as EquatingMethod)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EQUATING_METHODS.map(m => (
+                <SelectItem key={m.value} value={m.value}>{m.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label>Reference Form</Label>
+          <Select value={referenceId} onValueChange={setReferenceId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Reference form" />
+            </SelectTrigger>
+            <SelectContent>
+              {keys.map(k => (
+                <SelectItem key={k.testId} value={k.testId}>Version {k.versionLabel ?? '—'}</SelectItem>
+              ))}
+              {candidates.map(c => (
+                <SelectItem key={c.id} value={c.id}>
+                  {c.title}{c.versionLabel ? ` (${c.versionLabel})` : ''} · {c.commonItemCount} common items
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button onClick={handleCompute} disabled={computing}>
+          <Calculator className="h-4 w-4 mr-2" />
+          {computing ? 'Equating...' : 'Equate Scores'}
+        </Button>
+      </div>
+
+      {results.length > 0 && (
+        <>
+          <div className="flex flex-wrap gap-2">
+            {results.map(r => (
+              <Badge key={r.testId} variant="outline">
+                {versionLabel(r.testId)}: {r.anchorItemCount} anchor items, {r.examineeCount} vs {r.referenceExamineeCount} students,
+                via {DESIGN_LABELS[r.table.design]}
+              </Badge>
+            ))}
+          </div>
+          {results.some(r => r.table.design === 'equivalent_groups') && (
+            <p className="flex items-center gap-2 text-sm text-muted-foreground">
+              <AlertTriangle className="h-4 w-4 text-amber-500" />
+              Forms equated via equivalent groups share no anchor items, so the conversion assumes both groups are
+              equally able. That only holds for versions handed out at random in the same sitting.
+            </p>
+          )}
+
+          <ResponsiveContainer width="100%" height={240}>
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="raw" label={{ value: 'Raw score', position: 'insideBottom', offset: -2 }} />
+              <YAxis label={{ value: `${versionLabel(referenceId)} scale`, angle: -90, position: 'insideLeft' }} />
+              <Tooltip labelFormatter={raw => `Raw ${raw}`} />
+              <Legend />
+              {results.map((r, i) => (
+                <Line
+                  key={r.testId}
+                  type="monotone"
+                  dataKey={r.testId}
+                  name={versionLabel(r.testId)}
+                  stroke={LINE_COLORS[i % LINE_COLORS.length]}
+                  dot={false}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+
+          <div className="max-h-80 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Raw</TableHead>
+                  {results.map(r => (
+                    <TableHead key={r.testId} className="text-right">{versionLabel(r.testId)}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {chartData.map(row => (
+                  <TableRow key={row.raw} className="font-mono text-sm">
+                    <TableCell>{row.raw}</TableCell>
+                    {results.map(r => (
+                      <TableCell key={r.testId} className="text-right">
+                        {r.table.rows[row.raw]?.equated.toFixed(2) ?? '—'}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          <Button onClick={handleSave} disabled={saving || saved}>
+            <Check className="h-4 w-4 mr-2" />
+            {saved ? 'Applied to Grades' : saving ? 'Saving...' : 'Apply to Grades'}
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
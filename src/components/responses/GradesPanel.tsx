@@ -0,0 +1,160 @@
+import { useEffect, useMemo, useState } from 'react';
+import Papa from 'papaparse';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Download, Undo2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { ScoreConversionRow, ScoreConversions } from '@/services/db/scoreConversions';
+import type { ItemResponseRow, TestAssignmentRow } from '@/services/db/itemResponses';
+import { applyConversion } from '@/services/psychometrics/equating';
+import type { VersionAnswerKey } from '@/services/scoring/answerSheet';
+
+interface GradesPanelProps {
+  title: string;
+  keys: VersionAnswerKey[];
+  assignments: TestAssignmentRow[];
+  responses: Record<string, ItemResponseRow[]>;
+  refreshKey: number;
+}
+
+interface GradeRow {
+  assignment: TestAssignmentRow;
+  version: string;
+  raw: number;
+  maxScore: number;
+  /** Raw score on the reference scale; null when the version has no conversion */
+  equated: number | null;
+  conversion: ScoreConversionRow | undefined;
+}
+
+/**
+ * Raw scores per student with the active conversion of each version applied,
+ * and the same report as a CSV export.
+ */
+export function GradesPanel({ title, keys, assignments, responses, refreshKey }: GradesPanelProps) {
+  const [conversions, setConversions] = useState<ScoreConversionRow[]>([]);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    ScoreConversions.listActive(keys.map(k => k.testId))
+      .then(setConversions)
+      .catch(error => {
+        console.error('Error loading score conversions:', error);
+        toast.error('Failed to load score conversions');
+      });
+  }, [keys, refreshKey, reloadKey]);
+
+  const referenceName = (row: ScoreConversionRow) => {
+    const sibling = keys.find(k => k.testId === row.reference_test_id);
+    if (sibling) return `Version ${sibling.versionLabel ?? '—'}`;
+    return row.reference?.title ?? 'another test';
+  };
+
+  const grades = useMemo<GradeRow[]>(() => {
+    const byVersion = new Map(conversions.map(c => [c.test_id, c]));
+    const keyByVersion = new Map(keys.map(k => [k.testId, k]));
+    return assignments
+      .filter(a => (responses[a.id] ?? []).length > 0)
+      .map(a => {
+        const key = keyByVersion.get(a.test_version_id);
+        const conversion = byVersion.get(a.test_version_id);
+        const raw = (responses[a.id] ?? []).reduce((s, r) => s + Number(r.score), 0);
+        return {
+          assignment: a,
+          version: key?.versionLabel ?? '—',
+          raw,
+          maxScore: key?.items.reduce((s, i) => s + i.points, 0) ?? 0,
+          equated: conversion ? applyConversion(ScoreConversions.conversionRows(conversion), raw) : null,
+          conversion,
+        };
+      });
+  }, [assignments, responses, keys, conversions]);
+
+  const handleExport = () => {
+    const csv = Papa.unparse(grades.map(g => ({
+      student_id: g.assignment.student_id,
+      student_name: g.assignment.student_name,
+      version: g.version,
+      raw_score: g.raw,
+      max_score: g.maxScore,
+      equated_score: g.equated ?? g.raw,
+      equated_max_score: g.conversion ? Number(g.conversion.reference_max_score) : g.maxScore,
+      equating_method: g.conversion?.method ?? '',
+      equated_to: g.conversion ? referenceName(g.conversion) : '',
+    })));
+    const blob = new Blob([csv], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${title.replace(/[^\w-]+/g, '_')}-grades.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleRemove = async (testId: string) => {
+    try {
+      await ScoreConversions.deactivate(testId);
+      setReloadKey(k => k + 1);
+    } catch (error) {
+      console.error('Error removing score conversion:', error);
+      toast.error('Failed to remove score conversion');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap gap-2 text-sm text-muted-foreground">
+          {conversions.length === 0 && <span>No conversions applied; grades are raw scores.</span>}
+          {conversions.map(c => (
+            <span key={c.id} className="flex items-center gap-1">
+              Version {keys.find(k => k.testId === c.test_id)?.versionLabel ?? '—'} equated to {referenceName(c)}
+              ({c.method.replace(/_/g, ' ')})
+              <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => handleRemove(c.test_id)}>
+                <Undo2 className="h-3 w-3" />
+              </Button>
+            </span>
+          ))}
+        </div>
+        <Button variant="outline" onClick={handleExport} disabled={grades.length === 0}>
+          <Download className="h-4 w-4 mr-2" />
+          Export CSV
+        </Button>
+      </div>
+
+      {grades.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No answer sheets have been scored yet.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Student</TableHead>
+              <TableHead>Version</TableHead>
+              <TableHead className="text-right">Raw</TableHead>
+              <TableHead className="text-right">Equated</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {grades.map(g => (
+              <TableRow key={g.assignment.id}>
+                <TableCell>
+                  {g.assignment.student_name}
+                  <span className="text-xs text-muted-foreground ml-2">{g.assignment.student_id}</span>
+                </TableCell>
+                <TableCell>{g.version}</TableCell>
+                <TableCell className="text-right font-mono">{g.raw} / {g.maxScore}</TableCell>
+                <TableCell className="text-right font-mono">
+                  {g.equated == null
+                    ? '—'
+                    : `${g.equated.toFixed(2)} / ${Number(g.conversion?.reference_max_score)}`}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,258 @@
+import { ChangeEvent, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Download, ScanLine, Save } from 'lucide-react';
+import { toast } from 'sonner';
+import { ItemResponses, ItemResponseRow, ScanReadMeta, TestAssignmentRow } from '@/services/db/itemResponses';
+import { VersionAnswerKey, scoreAnswerSheet } from '@/services/scoring/answerSheet';
+import { downloadAnswerSheets } from '@/services/omr/answerSheetPdf';
+import { loadScanPages } from '@/services/omr/pageImages';
+import { ItemReading, readScannedPage } from '@/services/omr/scanner';
+
+interface ScannedSheet {
+  id: string;
+  source: string;
+  testId: string | null;
+  studentId: string;
+  studentIdConfidence: number | null;
+  items: ItemReading[];
+  error?: string;
+}
+
+interface ScanImportPanelProps {
+  title: string;
+  keys: VersionAnswerKey[];
+  assignments: TestAssignmentRow[];
+  responses: Record<string, ItemResponseRow[]>;
+  onSaved: () => void;
+}
+
+/**
+ * Print bubble sheets and read scanned ones. Pages are decoded in the browser;
+ * a sheet's second and later pages attach to the preceding first page of the
+ * same version.
+ */
+export function ScanImportPanel({ title, keys, assignments, responses, onSaved }: ScanImportPanelProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [copies, setCopies] = useState(1);
+  const [sheets, setSheets] = useState<ScannedSheet[]>([]);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const versionLabel = (testId: string | null) =>
+    keys.find(k => k.testId === testId)?.versionLabel ?? '—';
+
+  const findAssignment = (sheet: ScannedSheet) =>
+    assignments.find(a => a.test_version_id === sheet.testId && a.student_id.trim() === sheet.studentId.trim());
+
+  const handleDownload = async () => {
+    try {
+      await downloadAnswerSheets(title, keys, copies);
+    } catch (error) {
+      console.error('Error creating answer sheets:', error);
+      toast.error('Failed to create answer sheets');
+    }
+  };
+
+  const handleFiles = async (e: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    const read: ScannedSheet[] = [];
+    setProgress({ done: 0, total: files.length });
+    try {
+      let done = 0;
+      let lastFile = '';
+      for await (const page of loadScanPages(files)) {
+        if (page.fileName !== lastFile) {
+          if (lastFile) setProgress({ done: ++done, total: files.length });
+          lastFile = page.fileName;
+        }
+        const result = readScannedPage(page.image, keys);
+        const source = `${page.fileName}${page.pageIndex > 1 ? ` p.${page.pageIndex}` : ''}`;
+        const previous = read[read.length - 1];
+
+        if (!result.error && result.page > 1 && previous?.testId === result.testId) {
+          previous.items.push(...result.items);
+          previous.source += `, ${source}`;
+          continue;
+        }
+        read.push({
+          id: `${page.fileName}-${page.pageIndex}`,
+          source,
+          testId: result.testId,
+          studentId: result.studentId?.value ?? '',
+          studentIdConfidence: result.studentId?.confidence ?? null,
+          items: result.items,
+          error: result.error ?? (result.page > 1 ? 'Continuation page without its first page' : undefined),
+        });
+      }
+      setSheets(prev => [...prev, ...read]);
+      const failed = read.filter(s => s.error).length;
+      if (failed > 0) toast.warning(`Read ${read.length - failed} sheets; ${failed} page${failed === 1 ? '' : 's'} could not be read`);
+      else toast.success(`Read ${read.length} sheet${read.length === 1 ? '' : 's'}. Check student IDs and save.`);
+    } catch (error) {
+      console.error('Error reading scans:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to read scans');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const readySheets = sheets.filter(s => !s.error && s.testId && s.studentId.trim());
+
+  const handleSave = async () => {
+    setSaving(true);
+    let saved = 0;
+    const added = new Map<string, TestAssignmentRow>();
+    try {
+      for (const sheet of readySheets) {
+        const key = keys.find(k => k.testId === sheet.testId);
+        if (!key) continue;
+        const addedKey = `${key.testId}:${sheet.studentId.trim()}`;
+        let assignment = findAssignment(sheet) ?? added.get(addedKey);
+        if (!assignment) {
+          assignment = await ItemResponses.addStudent(key.testId, sheet.studentId.trim(), `Student ${sheet.studentId.trim()}`);
+          added.set(addedKey, assignment);
+        }
+
+        // Fill-in-the-blank items are not on the bubble sheet; keep what was typed before
+        const existing = new Map((responses[assignment.id] ?? []).map(r => [r.item_number, r.response]));
+        const readings = new Map(sheet.items.map(r => [r.itemNumber, r]));
+        const answers = key.items.map(item => readings.has(item.itemNumber)
+          ? readings.get(item.itemNumber).selected
+          : existing.get(item.itemNumber) ?? null);
+
+        const scanMeta: Record<number, ScanReadMeta> = {};
+        for (const r of sheet.items) {
+          scanMeta[r.itemNumber] = {
+            confidence: r.confidence,
+            needsReview: r.needsReview,
+            status: r.status,
+            suggestion: r.suggestion,
+            fills: r.fills,
+          };
+        }
+
+        await ItemResponses.saveSheet(assignment, scoreAnswerSheet(key, answers), 'scan', scanMeta);
+        saved++;
+      }
+      setSheets(prev => prev.filter(s => !readySheets.includes(s)));
+      toast.success(`Saved and scored ${saved} scanned sheet${saved === 1 ? '' : 's'}`);
+      onSaved();
+    } catch (error) {
+      console.error('Error saving scanned sheets:', error);
+      toast.error(`Saved ${saved} of ${readySheets.length}: ${error instanceof Error ? error.message : 'save failed'}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row gap-2 md:items-center">
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            min={1}
+            max={200}
+            value={copies}
+            onChange={e => setCopies(Math.max(1, Math.min(200, Number(e.target.value) || 1)))}
+            className="w-20"
+          />
+          <span className="text-sm text-muted-foreground">per version</span>
+          <Button variant="outline" onClick={handleDownload} disabled={keys.length === 0}>
+            <Download className="w-4 h-4 mr-2" />
+            Bubble Sheets
+          </Button>
+        </div>
+        <div className="flex gap-2 md:ml-auto">
+          <input
+            ref={fileInput}
+            type="file"
+            multiple
+            accept="image/png,image/jpeg,application/pdf,.pdf"
+            className="hidden"
+            onChange={handleFiles}
+          />
+          <Button variant="outline" onClick={() => fileInput.current?.click()} disabled={progress !== null}>
+            <ScanLine className="w-4 h-4 mr-2" />
+            Import Scans
+          </Button>
+          <Button onClick={handleSave} disabled={saving || readySheets.length === 0}>
+            <Save className="w-4 h-4 mr-2" />
+            {saving ? 'Saving...' : `Save ${readySheets.length || ''} Scanned`}
+          </Button>
+        </div>
+      </div>
+
+      {progress && (
+        <div className="space-y-1">
+          <Progress value={(progress.done / progress.total) * 100} />
+          <p className="text-xs text-muted-foreground">Reading file {progress.done + 1} of {progress.total}…</p>
+        </div>
+      )}
+
+      {sheets.length > 0 ? (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Scan</TableHead>
+              <TableHead className="w-[80px]">Version</TableHead>
+              <TableHead className="w-[200px]">Student ID</TableHead>
+              <TableHead>Read</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sheets.map(sheet => {
+              const assignment = findAssignment(sheet);
+              const flagged = sheet.items.filter(i => i.needsReview).length;
+              return (
+                <TableRow key={sheet.id}>
+                  <TableCell className="text-sm">{sheet.source}</TableCell>
+                  <TableCell><Badge variant="outline">{versionLabel(sheet.testId)}</Badge></TableCell>
+                  <TableCell>
+                    {sheet.error ? '—' : (
+                      <div className="space-y-1">
+                        <Input
+                          value={sheet.studentId}
+                          onChange={e => setSheets(prev => prev.map(s => s.id === sheet.id ? { ...s, studentId: e.target.value } : s))}
+                          placeholder="Unreadable, type ID"
+                          className="font-mono h-8"
+                        />
+                        <div className="text-xs text-muted-foreground">
+                          {assignment ? assignment.student_name : sheet.studentId.trim() ? 'New student' : 'No ID'}
+                          {sheet.studentIdConfidence != null && sheet.studentIdConfidence < 0.5 && ' · check ID'}
+                        </div>
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {sheet.error ? (
+                      <span className="text-destructive">{sheet.error}</span>
+                    ) : (
+                      <div className="flex flex-wrap gap-2">
+                        <span>{sheet.items.filter(i => i.selected).length}/{sheet.items.length} marked</span>
+                        {flagged > 0 && <Badge variant="secondary">{flagged} to review</Badge>}
+                      </div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          Print bubble sheets, then import scanned PNG, JPEG or PDF pages (150 dpi or more, upright).
+          Sheets are matched to their version by the printed code and to students by the shaded ID.
+          Unclear marks are saved and queued for review.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from 'sonner';
+import { ItemResponses, ItemResponseRow, ScanReadMeta, TestAssignmentRow } from '@/services/db/itemResponses';
+import { VersionAnswerKey, scoreItem } from '@/services/scoring/answerSheet';
+
+interface ScanReviewQueueProps {
+  keysByVersion: Record<string, VersionAnswerKey>;
+  assignments: TestAssignmentRow[];
+  /** Bumped by the parent after new scans are saved */
+  refreshKey: number;
+  /** Receives the queue length; the queue reloads when this changes, so pass a stable function */
+  onResolved: (count: number) => void;
+}
+
+/**
+ * Manual review of scanned items whose marks were faint, doubled or low-confidence.
+ * The reviewer picks the intended option (or blank) and the item is rescored.
+ */
+export function ScanReviewQueue({ keysByVersion, assignments, refreshKey, onResolved }: ScanReviewQueueProps) {
+  const [rows, setRows] = useState<ItemResponseRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const versionIds = useMemo(() => Object.keys(keysByVersion), [keysByVersion]);
+  const studentFor = (assignmentId: string) => assignments.find(a => a.id === assignmentId);
+  const loadQueue = useCallback(() => ItemResponses.listReviewQueue(versionIds), [versionIds]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    loadQueue()
+      .then(data => {
+        if (cancelled) return;
+        setRows(data);
+        onResolved(data.length);
+      })
+      .catch(error => {
+        console.error('Error loading review queue:', error);
+        toast.error('Failed to load the review queue');
+      })
+      .finally(() => !cancelled && setLoading(false));
+    return () => { cancelled = true; };
+  }, [refreshKey, loadQueue, onResolved]);
+
+  const resolve = async (row: ItemResponseRow, value: string | null) => {
+    const item = keysByVersion[row.test_id]?.items.find(i => i.itemNumber === row.item_number);
+    if (!item) return;
+    setBusy(row.id);
+    try {
+      await ItemResponses.resolveReview(row.id, scoreItem(item, value));
+      const next = rows.filter(r => r.id !== row.id);
+      setRows(next);
+      onResolved(next.length);
+    } catch (error) {
+      console.error('Error resolving review item:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save review');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (loading) return <p className="text-sm text-muted-foreground">Loading review queue…</p>;
+  if (rows.length === 0) return <p className="text-sm text-muted-foreground">No scanned marks are waiting for review.</p>;
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-[200px]">Student</TableHead>
+          <TableHead className="w-[70px]">Item</TableHead>
+          <TableHead>Bubble fill</TableHead>
+          <TableHead>Intended answer</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map(row => {
+          const student = studentFor(row.assignment_id);
+          const meta = (row.scan_data ?? {}) as Partial<ScanReadMeta>;
+          const fills = meta.fills ?? {};
+          const item = keysByVersion[row.test_id]?.items.find(i => i.itemNumber === row.item_number);
+          const options = item?.questionType === 'true_false' ? ['T', 'F'] : Object.keys(fills).sort();
+
+          return (
+            <TableRow key={row.id}>
+              <TableCell>
+                <div className="font-medium">{student?.student_name ?? 'Unknown student'}</div>
+                <div className="text-xs text-muted-foreground">
+                  {student?.student_id} · Version {keysByVersion[row.test_id]?.versionLabel ?? '—'}
+                </div>
+              </TableCell>
+              <TableCell className="font-mono">{row.item_number}</TableCell>
+              <TableCell>
+                <div className="flex flex-wrap gap-1">
+                  {Object.entries(fills).sort().map(([option, fill]) => (
+                    <span key={option} className="text-xs font-mono">
+                      {option}: {Math.round(fill * 100)}%
+                    </span>
+                  ))}
+                </div>
+                <div className="mt-1 flex gap-1">
+                  {meta.status && <Badge variant="outline" className="text-[10px]">{meta.status}</Badge>}
+                  {row.confidence != null && (
+                    <Badge variant="secondary" className="text-[10px]">confidence {Math.round(row.confidence * 100)}%</Badge>
+                  )}
+                </div>
+              </TableCell>
+              <TableCell>
+                <div className="flex flex-wrap gap-1">
+                  {options.map(option => (
+                    <Button
+                      key={option}
+                      size="sm"
+                      variant={option === (row.response ?? meta.suggestion) ? 'default' : 'outline'}
+                      className="h-7 w-8 p-0 font-mono"
+                      disabled={busy === row.id}
+                      onClick={() => resolve(row, option)}
+                    >
+                      {option}
+                    </Button>
+                  ))}
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-7"
+                    disabled={busy === row.id}
+                    onClick={() => resolve(row, null)}
+                  >
+                    Blank
+                  </Button>
+                </div>
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
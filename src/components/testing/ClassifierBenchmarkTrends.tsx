@@ -0,0 +1,225 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import {
+  BENCHMARK_CLASSIFIER_LABELS,
+  BenchmarkClassifier,
+  BenchmarkResult,
+  ClassificationBenchmarks,
+  GoldSet,
+} from '@/services/db/classificationBenchmarks';
+import { CLASSIFIER_TARGET_LABELS } from '@/services/db/classifierModels';
+import { GOLD_FIELDS, GoldField } from '@/services/quality/goldStandard';
+import { BENCHMARK_CLASSIFIERS } from '@/services/quality/classificationBenchmark';
+
+type TrendMetric = 'accuracy' | 'macro_f1' | 'kappa' | 'ece';
+
+const METRIC_LABELS: Record<TrendMetric, string> = {
+  accuracy: 'Accuracy',
+  macro_f1: 'Macro F1',
+  kappa: "Cohen's kappa",
+  ece: 'Calibration error (ECE)',
+};
+
+const CLASSIFIER_COLORS: Record<BenchmarkClassifier, string> = {
+  classify_bloom: 'hsl(var(--primary))',
+  rule_based: '#f59e0b',
+  ml_classifier: '#10b981',
+  edge_function: '#6366f1',
+};
+
+/**
+ * Benchmark results against expert-labelled gold sets: a metric per run for
+ * each classifier, and the reliability diagram of the most recent run.
+ */
+const ClassifierBenchmarkTrends: React.FC = () => {
+  const [sets, setSets] = useState<GoldSet[]>([]);
+  const [setId, setSetId] = useState<string>('');
+  const [results, setResults] = useState<BenchmarkResult[]>([]);
+  const [field, setField] = useState<GoldField>('bloom_level');
+  const [metric, setMetric] = useState<TrendMetric>('accuracy');
+  const [classifier, setClassifier] = useState<BenchmarkClassifier>('ml_classifier');
+
+  useEffect(() => {
+    ClassificationBenchmarks.listGoldSets()
+      .then(list => {
+        setSets(list);
+        if (list.length) setSetId(list[0].id);
+      })
+      .catch(error => console.error('Error loading gold-standard sets:', error));
+  }, []);
+
+  useEffect(() => {
+    if (!setId) return;
+    ClassificationBenchmarks.listResults(setId)
+      .then(setResults)
+      .catch(error => console.error('Error loading benchmark results:', error));
+  }, [setId]);
+
+  // One point per run; the tooltip names the classifier versions it scored
+  const trendData = useMemo(() => {
+    const runs = new Map<string, Record<string, string | number | null>>();
+    for (const result of results) {
+      const run = runs.get(result.run_id) ?? { date: new Date(result.created_at).toLocaleDateString() };
+      run[result.classifier] = result.metrics[field]?.[metric] ?? null;
+      run[`${result.classifier}_version`] = result.classifier_version;
+      runs.set(result.run_id, run);
+    }
+    return [...runs.values()];
+  }, [results, field, metric]);
+
+  const latest = [...results].reverse().find(r => r.classifier === classifier);
+  const reliabilityData = (latest?.metrics[field]?.reliability ?? [])
+    .filter(bin => bin.count > 0)
+    .map(bin => ({
+      bin: `${bin.lower.toFixed(1)}–${bin.upper.toFixed(1)}`,
+      accuracy: bin.accuracy,
+      confidence: bin.mean_confidence,
+    }));
+
+  if (sets.length === 0) {
+    return (
+      <Card>
+        <CardContent className="text-center py-12 text-muted-foreground">
+          No gold-standard sets yet. Admins upload expert-labelled questions under Settings → Classification Benchmark.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={setId} onValueChange={setSetId}>
+          <SelectTrigger className="w-56">
+            <SelectValue placeholder="Gold-standard set" />
+          </SelectTrigger>
+          <SelectContent>
+            {sets.map(set => (
+              <SelectItem key={set.id} value={set.id}>{set.name} ({set.item_count})</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={field} onValueChange={v => setField(v as GoldField)}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {GOLD_FIELDS.map(f => (
+              <SelectItem key={f} value={f}>{CLASSIFIER_TARGET_LABELS[f]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle>Agreement with Expert Raters</CardTitle>
+              <CardDescription>One point per benchmark run; hover to see the classifier versions scored.</CardDescription>
+            </div>
+            <Select value={metric} onValueChange={v => setMetric(v as TrendMetric)}>
+              <SelectTrigger className="w-52">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(METRIC_LABELS) as TrendMetric[]).map(m => (
+                  <SelectItem key={m} value={m}>{METRIC_LABELS[m]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {trendData.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">This set has not been benchmarked yet.</p>
+          ) : (
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={trendData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="date" />
+                <YAxis domain={metric === 'kappa' ? [-0.2, 1] : [0, 1]} />
+                <Tooltip
+                  formatter={(value: number, name: string, item) => {
+                    const key = (Object.keys(BENCHMARK_CLASSIFIER_LABELS) as BenchmarkClassifier[])
+                      .find(c => BENCHMARK_CLASSIFIER_LABELS[c] === name);
+                    const version = key ? item.payload?.[`${key}_version`] : undefined;
+                    return [value == null ? '—' : value.toFixed(3), version ? `${name} (${version})` : name];
+                  }}
+                />
+                <Legend />
+                {BENCHMARK_CLASSIFIERS.map(c => (
+                  <Line
+                    key={c}
+                    type="monotone"
+                    dataKey={c}
+                    name={BENCHMARK_CLASSIFIER_LABELS[c]}
+                    stroke={CLASSIFIER_COLORS[c]}
+                    connectNulls
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle>Reliability Diagram</CardTitle>
+              <CardDescription>
+                Latest run: how often predictions in each confidence band were right. A calibrated classifier's
+                bars reach its confidence line.
+                {latest?.metrics[field] && ` ECE ${latest.metrics[field]!.ece.toFixed(3)} · version ${latest.classifier_version}`}
+              </CardDescription>
+            </div>
+            <Select value={classifier} onValueChange={v => setClassifier(v as BenchmarkClassifier)}>
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BENCHMARK_CLASSIFIERS.map(c => (
+                  <SelectItem key={c} value={c}>{BENCHMARK_CLASSIFIER_LABELS[c]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {reliabilityData.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">No benchmark results for this classifier and field.</p>
+          ) : (
+            <ResponsiveContainer width="100%" height={300}>
+              <ComposedChart data={reliabilityData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="bin" />
+                <YAxis domain={[0, 1]} />
+                <Tooltip formatter={(value: number) => value.toFixed(3)} />
+                <Legend />
+                <Bar dataKey="accuracy" name="Accuracy" fill="hsl(var(--primary))" />
+                <Line type="monotone" dataKey="confidence" name="Mean confidence" stroke="hsl(var(--destructive))" />
+              </ComposedChart>
+            </ResponsiveContainer>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ClassifierBenchmarkTrends;
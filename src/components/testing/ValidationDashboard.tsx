@@ -20,6 +20,7 @@ import {
 } from 'lucide-react';
 import { automatedValidator, ValidationSuite, ValidationTest } from '@/services/testing/automatedValidator';
 import { useToast } from '@/hooks/use-toast';
+import ClassifierBenchmarkTrends from './ClassifierBenchmarkTrends';
 
 interface ValidationDashboardProps {
   entityId?: string;
@@ -249,6 +250,7 @@ const ValidationDashboard: React.FC<ValidationDashboardProps> = ({
           <TabsTrigger value="history">History</TabsTrigger>
           <TabsTrigger value="breakdown">Test Breakdown</TabsTrigger>
           <TabsTrigger value="trends">Trends</TabsTrigger>
+          <TabsTrigger value="classifiers">Classifier Benchmarks</TabsTrigger>
         </TabsList>
 
         <TabsContent value="current" className="space-y-4">
@@ -406,6 +408,10 @@ const ValidationDashboard: React.FC<ValidationDashboardProps> = ({
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="classifiers" className="space-y-4">
+          <ClassifierBenchmarkTrends />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -0,0 +1,161 @@
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Save } from 'lucide-react';
+import { toast } from 'sonner';
+import { FormEquivalence } from '@/services/db/formEquivalence';
+import type { FormEquivalenceReport } from '@/services/testAssembly/equivalentForms';
+
+interface EquivalenceReportCardProps {
+  report: FormEquivalenceReport;
+}
+
+const FORM_COLORS = ['hsl(var(--primary))', 'hsl(var(--chart-2))', 'hsl(var(--chart-3))', 'hsl(var(--chart-4))', 'hsl(var(--chart-5))'];
+
+/** Expected score distributions and TOST results for a set of parallel forms */
+export function EquivalenceReportCard({ report }: EquivalenceReportCardProps) {
+  const [groupName, setGroupName] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [savedId, setSavedId] = useState<string | null>(null);
+
+  // One row per score, one column per form
+  const distribution = useMemo(() => {
+    const maxScore = Math.max(...report.forms.map(f => f.scoreDistribution.length - 1));
+    return Array.from({ length: maxScore + 1 }, (_, score) => ({
+      score,
+      ...Object.fromEntries(report.forms.map(f => [f.label, f.scoreDistribution[score] ?? 0]))
+    }));
+  }, [report]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const name = groupName.trim() || `Parallel forms ${new Date(report.generatedAt).toLocaleDateString()}`;
+      const group = await FormEquivalence.saveGroup(name, null, report);
+      setSavedId(group.id);
+      toast.success('Equivalence report saved');
+    } catch (error) {
+      console.error('Error saving equivalence report:', error);
+      toast.error('Failed to save equivalence report');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const { irt, p_value, label } = report.sources;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Equivalence Report</CardTitle>
+            <CardDescription>
+              TOST margin ±{report.margin} proportion correct at α = {report.alpha} for {report.sampleSize} examinees
+              per form; SD ratio ≤ {report.sdRatioLimit}.
+              Item statistics: {irt} IRT, {p_value} historical p-value, {label} difficulty label.
+            </CardDescription>
+          </div>
+          <Badge variant={report.equivalent ? 'secondary' : 'destructive'}>
+            {report.equivalent ? 'Equivalent' : 'Not shown equivalent'}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Form</TableHead>
+              <TableHead className="text-right">Items</TableHead>
+              <TableHead className="text-right">Anchors</TableHead>
+              <TableHead className="text-right">Expected mean</TableHead>
+              <TableHead className="text-right">Expected SD</TableHead>
+              <TableHead className="text-right">p</TableHead>
+              <TableHead className="text-right">Reliability</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {report.forms.map(f => (
+              <TableRow key={f.label} className="font-mono text-sm">
+                <TableCell>{f.label}</TableCell>
+                <TableCell className="text-right">{f.itemCount}</TableCell>
+                <TableCell className="text-right">{f.anchorCount}</TableCell>
+                <TableCell className="text-right">{f.expectedMean.toFixed(2)}</TableCell>
+                <TableCell className="text-right">{f.expectedSd.toFixed(2)}</TableCell>
+                <TableCell className="text-right">{f.meanProportion.toFixed(3)}</TableCell>
+                <TableCell className="text-right">{f.reliability.toFixed(2)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div>
+          <h4 className="text-sm font-medium mb-2">Expected score distribution</h4>
+          <ResponsiveContainer width="100%" height={240}>
+            <LineChart data={distribution}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="score" />
+              <YAxis />
+              <Tooltip formatter={(v: number) => v.toFixed(3)} labelFormatter={s => `Score ${s}`} />
+              <Legend />
+              {report.forms.map((f, i) => (
+                <Line
+                  key={f.label}
+                  type="monotone"
+                  dataKey={f.label}
+                  name={`Form ${f.label}`}
+                  stroke={FORM_COLORS[i % FORM_COLORS.length]}
+                  dot={false}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Pair</TableHead>
+              <TableHead className="text-right">Δ p</TableHead>
+              <TableHead className="text-right">TOST p</TableHead>
+              <TableHead className="text-right">SD ratio</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {report.pairs.map(pair => (
+              <TableRow key={`${pair.formA}-${pair.formB}`} className="font-mono text-sm">
+                <TableCell>{pair.formA} – {pair.formB}</TableCell>
+                <TableCell className="text-right">{pair.meanDifference.toFixed(3)}</TableCell>
+                <TableCell className="text-right">{pair.tost.pValue.toFixed(3)}</TableCell>
+                <TableCell className="text-right">{pair.sdRatio.toFixed(2)}</TableCell>
+                <TableCell className="text-right">
+                  <Badge variant={pair.equivalent ? 'secondary' : 'destructive'}>
+                    {pair.equivalent ? 'Equivalent' : 'Not shown'}
+                  </Badge>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div className="flex gap-2">
+          <Input
+            value={groupName}
+            onChange={e => setGroupName(e.target.value)}
+            placeholder="Equivalence group name"
+            disabled={!!savedId}
+          />
+          <Button onClick={handleSave} disabled={saving || !!savedId}>
+            <Save className="h-4 w-4 mr-2" />
+            {savedId ? 'Saved' : saving ? 'Saving...' : 'Save Report'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
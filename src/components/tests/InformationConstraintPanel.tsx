@@ -0,0 +1,219 @@
+import { ChangeEvent, useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { IrtParameters } from '@/services/db/irtParameters';
+import { TOS } from '@/services/db/tos';
+import { IRT_MODELS, IrtModel, parseIrtParameterCsv } from '@/services/psychometrics/irt';
+import { Question, TestInformationConfig, tosCellCounts } from '@/services/testAssembly/constraintSolver';
+
+type TargetMode = 'maximize' | 'information' | 'se';
+
+interface InformationConstraintPanelProps {
+  questionPool: Question[];
+  testLength: number;
+  /** Receives the pool with the chosen model's item parameters attached as `irt` */
+  onPoolCalibrated: (pool: Question[]) => void;
+  onAddConstraint: (config: TestInformationConfig) => void;
+}
+
+const parseList = (text: string) =>
+  text.split(/[\s,;]+/).filter(Boolean).map(Number).filter(Number.isFinite);
+
+/**
+ * Test information targets at ability cut points, with the IRT parameters
+ * they rely on and the TOS whose cell counts the selection must keep.
+ */
+export function InformationConstraintPanel({
+  questionPool,
+  testLength,
+  onPoolCalibrated,
+  onAddConstraint
+}: InformationConstraintPanelProps) {
+  const [model, setModel] = useState<IrtModel>('2PL');
+  const [calibratedCount, setCalibratedCount] = useState<number | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [importing, setImporting] = useState(false);
+  const [cutPoints, setCutPoints] = useState('0');
+  const [targetMode, setTargetMode] = useState<TargetMode>('maximize');
+  const [targets, setTargets] = useState('');
+  const [tosEntries, setTosEntries] = useState<Awaited<ReturnType<typeof TOS.list>>>([]);
+  const [tosId, setTosId] = useState('none');
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setCalibratedCount(null);
+    IrtParameters.attachToQuestions(questionPool, model)
+      .then(pool => {
+        if (cancelled) return;
+        setCalibratedCount(pool.filter(q => q.irt).length);
+        onPoolCalibrated(pool);
+      })
+      .catch(error => {
+        console.error('Error loading item parameters:', error);
+        toast.error('Failed to load item parameters');
+      });
+    return () => { cancelled = true; };
+  }, [questionPool, model, reloadKey, onPoolCalibrated]);
+
+  useEffect(() => {
+    TOS.list()
+      .then(setTosEntries)
+      .catch(error => console.error('Error loading TOS entries:', error));
+  }, []);
+
+  const handleCsv = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setImporting(true);
+    try {
+      const { rows, errors } = parseIrtParameterCsv(await file.text());
+      if (errors.length > 0) {
+        toast.warning(`${errors.length} row(s) skipped`, { description: errors.slice(0, 3).join(' • ') });
+      }
+      if (rows.length === 0) return;
+
+      const { imported, skipped } = await IrtParameters.importParameters(rows);
+      toast.success(`Imported parameters for ${imported} question(s)`, {
+        description: skipped.length > 0
+          ? `${skipped.length} already calibrated from responses and kept`
+          : undefined
+      });
+      setReloadKey(k => k + 1);
+    } catch (error) {
+      console.error('Error importing item parameters:', error);
+      toast.error('Failed to import item parameters');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleAdd = () => {
+    const thetas = parseList(cutPoints);
+    if (thetas.length === 0) {
+      toast.error('Enter at least one ability cut point');
+      return;
+    }
+
+    const config: TestInformationConfig = { cutPoints: thetas };
+    if (targetMode !== 'maximize') {
+      const values = parseList(targets);
+      // A single target applies to every cut point
+      const perCut = values.length === 1 ? thetas.map(() => values[0]) : values;
+      if (perCut.length !== thetas.length || perCut.some(v => v <= 0)) {
+        toast.error('Give one positive target per cut point');
+        return;
+      }
+      if (targetMode === 'information') config.targetInformation = perCut;
+      else config.targetSE = perCut;
+    }
+
+    const entry = tosEntries.find(t => t.id === tosId);
+    if (entry) {
+      config.cells = tosCellCounts(entry.matrix);
+      const total = Object.values(config.cells)
+        .flatMap(levels => Object.values(levels))
+        .reduce((sum, n) => sum + n, 0);
+      if (total !== testLength) {
+        toast.warning(`The TOS has ${total} items but the test length is ${testLength}`);
+      }
+    }
+
+    onAddConstraint(config);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-4">
+        <div>
+          <Label>IRT Model</Label>
+          <Select value={model} onValueChange={v => setModel(v as IrtModel)}>
+            <SelectTrigger className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {IRT_MODELS.map(m => (
+                <SelectItem key={m} value={m}>{m}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <p className="text-sm text-muted-foreground flex-1">
+          {calibratedCount === null
+            ? 'Loading item parameters…'
+            : `${calibratedCount} of ${questionPool.length} questions have ${model} parameters`}
+        </p>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={handleCsv}
+        />
+        <Button variant="outline" size="sm" onClick={() => fileInput.current?.click()} disabled={importing}>
+          <Upload className="h-4 w-4 mr-2" />
+          {importing ? 'Importing...' : 'Import Parameters CSV'}
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        CSV columns: question_id, a, b, c, model. Parameters calibrated from responses take precedence.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <Label>Cut Points (θ)</Label>
+          <Input value={cutPoints} onChange={e => setCutPoints(e.target.value)} placeholder="e.g. -0.5, 0.8" />
+        </div>
+        <div>
+          <Label>Target</Label>
+          <Select value={targetMode} onValueChange={v => setTargetMode(v as TargetMode)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="maximize">Maximize precision</SelectItem>
+              <SelectItem value="information">Test information</SelectItem>
+              <SelectItem value="se">Standard error</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label>Target Values</Label>
+          <Input
+            value={targets}
+            onChange={e => setTargets(e.target.value)}
+            placeholder={targetMode === 'se' ? 'e.g. 0.3' : 'e.g. 10'}
+            disabled={targetMode === 'maximize'}
+          />
+        </div>
+      </div>
+
+      <div>
+        <Label>Keep TOS Cell Counts</Label>
+        <Select value={tosId} onValueChange={setTosId}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">No TOS</SelectItem>
+            {tosEntries.map(t => (
+              <SelectItem key={t.id} value={t.id}>
+                {t.title} ({t.total_items} items)
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Button variant="outline" size="sm" onClick={handleAdd} disabled={!calibratedCount}>
+        Add Information Constraint
+      </Button>
+    </div>
+  );
+}
@@ -12,11 +12,14 @@ import { Progress } from '@/components/ui/progress';
 import { Separator } from '@/components/ui/separator';
 import { Settings, Target, BarChart3, CheckCircle, Wand2 } from 'lucide-react';
 import { toast } from 'sonner';
-import { ConstraintSolver, TestConstraint } from '@/services/testAssembly/constraintSolver';
+import { ConstraintSolver, Question, TestConstraint, TestInformationConfig } from '@/services/testAssembly/constraintSolver';
+import { InformationConstraintPanel } from '@/components/tests/InformationConstraintPanel';
+import { FormEquivalence } from '@/services/db/formEquivalence';
+import type { FormEquivalenceReport } from '@/services/testAssembly/equivalentForms';
 
 interface TestAssemblyWizardProps {
   questionPool: any[];
-  onTestGenerated: (result: any) => void;
+  onTestGenerated: (result: any, equivalence?: FormEquivalenceReport) => void;
   onCancel: () => void;
 }
 
@@ -24,9 +27,14 @@ export function TestAssemblyWizard({ questionPool, onTestGenerated, onCancel }:
   const [step, setStep] = useState(1);
   const [testLength, setTestLength] = useState(30);
   const [numberOfForms, setNumberOfForms] = useState(1);
+  const [anchorCount, setAnchorCount] = useState(0);
+  const [equivalenceMargin, setEquivalenceMargin] = useState(0.05);
+  const [examineesPerForm, setExamineesPerForm] = useState(200);
   const [constraints, setConstraints] = useState<TestConstraint[]>([]);
   const [isGenerating, setIsGenerating] = useState(false);
   const [generationProgress, setGenerationProgress] = useState(0);
+  // Question pool with IRT parameters attached, once they have loaded
+  const [assemblyPool, setAssemblyPool] = useState<Question[]>(questionPool);
   
   // Constraint configurations
   const [topicDistribution, setTopicDistribution] = useState<Record<string, number>>({});
@@ -48,7 +56,7 @@ export function TestAssemblyWizard({ questionPool, onTestGenerated, onCancel }:
   
   const handleOptimizeLength = () => {
     const result = ConstraintSolver.optimizeTestLength(
-      questionPool,
+      assemblyPool,
       constraints,
       10,
       100,
@@ -90,6 +98,18 @@ export function TestAssemblyWizard({ questionPool, onTestGenerated, onCancel }:
     toast.success(`Added ${type} constraint`);
   };
   
+  const handleAddInformationConstraint = (config: TestInformationConfig) => {
+    const newConstraint: TestConstraint = {
+      type: 'test_information',
+      config,
+      priority: 8,
+      isRequired: true
+    };
+    
+    setConstraints([...constraints.filter(c => c.type !== 'test_information'), newConstraint]);
+    toast.success('Added test information constraint');
+  };
+  
   const handleGenerateTest = async () => {
     setIsGenerating(true);
     setGenerationProgress(0);
@@ -104,17 +124,22 @@ export function TestAssemblyWizard({ questionPool, onTestGenerated, onCancel }:
       // Step 2: Assemble test(s)
       setGenerationProgress(40);
       let results;
+      let equivalence: FormEquivalenceReport | undefined;
       
       if (numberOfForms > 1) {
-        results = ConstraintSolver.generateParallelForms(
-          questionPool,
+        const pool = await FormEquivalence.attachPValues(assemblyPool);
+        const assembled = ConstraintSolver.assembleEquivalentForms(
+          pool,
           constraints,
           testLength,
-          numberOfForms
+          numberOfForms,
+          { anchorCount, margin: equivalenceMargin, sampleSize: examineesPerForm, seed: Date.now().toString() }
         );
+        results = assembled.forms;
+        equivalence = assembled.report;
       } else {
         const result = ConstraintSolver.assembleTest(
-          questionPool,
+          assemblyPool,
           constraints,
           testLength
         );
@@ -142,10 +167,12 @@ export function TestAssemblyWizard({ questionPool, onTestGenerated, onCancel }:
       setGenerationProgress(100);
       toast.success(`Generated ${results.length} test form(s) successfully!`);
       
-      onTestGenerated(results);
+      onTestGenerated(results, equivalence);
     } catch (error) {
       console.error('Error generating test:', error);
-      toast.error('Failed to generate test');
+      toast.error('Failed to generate test', {
+        description: error instanceof Error ? error.message : undefined
+      });
     } finally {
       setIsGenerating(false);
     }
@@ -224,6 +251,41 @@ export function TestAssemblyWizard({ questionPool, onTestGenerated, onCancel }:
                   </Select>
                 </div>
                 
+                {numberOfForms > 1 && (
+                  <div className="grid grid-cols-3 gap-4">
+                    <div>
+                      <Label>Anchor Items (shared by all forms)</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={Math.floor(testLength / 2)}
+                        value={anchorCount}
+                        onChange={(e) => setAnchorCount(Math.max(0, Math.min(Math.floor(testLength / 2), parseInt(e.target.value) || 0)))}
+                      />
+                    </div>
+                    <div>
+                      <Label>Equivalence Margin (± proportion correct)</Label>
+                      <Input
+                        type="number"
+                        step={0.01}
+                        min={0.01}
+                        max={0.2}
+                        value={equivalenceMargin}
+                        onChange={(e) => setEquivalenceMargin(parseFloat(e.target.value) || 0.05)}
+                      />
+                    </div>
+                    <div>
+                      <Label>Examinees per Form</Label>
+                      <Input
+                        type="number"
+                        min={10}
+                        value={examineesPerForm}
+                        onChange={(e) => setExamineesPerForm(Math.max(10, parseInt(e.target.value) || 200))}
+                      />
+                    </div>
+                  </div>
+                )}
+                
                 <div>
                   <Label>Time Limit (minutes)</Label>
                   <Input
@@ -329,12 +391,24 @@ export function TestAssemblyWizard({ questionPool, onTestGenerated, onCancel }:
                 
                 <Separator />
                 
+                <div>
+                  <h4 className="font-medium mb-3">Measurement Precision (IRT)</h4>
+                  <InformationConstraintPanel
+                    questionPool={questionPool}
+                    testLength={testLength}
+                    onPoolCalibrated={setAssemblyPool}
+                    onAddConstraint={handleAddInformationConstraint}
+                  />
+                </div>
+                
+                <Separator />
+                
                 <div>
                   <h4 className="font-medium mb-3">Active Constraints</h4>
                   <div className="flex flex-wrap gap-2">
                     {constraints.map((c, idx) => (
                       <Badge key={idx} variant="secondary">
-                        {c.type.replace('_', ' ')}
+                        {c.type.replace(/_/g, ' ')}
                         <button
                           onClick={() => setConstraints(constraints.filter((_, i) => i !== idx))}
                           className="ml-2 text-xs hover:text-destructive"
@@ -364,6 +438,9 @@ export function TestAssemblyWizard({ questionPool, onTestGenerated, onCancel }:
                   <div className="grid grid-cols-2 gap-2 text-sm">
                     <div>Test Length: <strong>{testLength}</strong> questions</div>
                     <div>Parallel Forms: <strong>{numberOfForms}</strong></div>
+                    {numberOfForms > 1 && (
+                      <div>Anchor Items: <strong>{anchorCount}</strong></div>
+                    )}
                     <div>Time Limit: <strong>{timeLimit}</strong> minutes</div>
                     <div>Constraints: <strong>{constraints.length}</strong> active</div>
                   </div>
@@ -384,7 +461,7 @@ export function TestAssemblyWizard({ questionPool, onTestGenerated, onCancel }:
                     <Label>Constraint Priorities</Label>
                     {constraints.map((c, idx) => (
                       <div key={idx} className="flex items-center gap-4">
-                        <span className="text-sm flex-1 capitalize">{c.type.replace('_', ' ')}</span>
+                        <span className="text-sm flex-1 capitalize">{c.type.replace(/_/g, ' ')}</span>
                         <Badge variant={c.isRequired ? 'default' : 'secondary'}>
                           {c.isRequired ? 'Required' : 'Optional'}
                         </Badge>
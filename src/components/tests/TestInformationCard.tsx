@@ -0,0 +1,84 @@
+import { useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CartesianGrid, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { IrtItemParameters, informationToStandardError, testInformation } from '@/services/psychometrics/irt';
+import { InformationAtCutPoint, Question } from '@/services/testAssembly/constraintSolver';
+
+interface TestInformationCardProps {
+  selectedQuestions: Question[];
+  points: InformationAtCutPoint[];
+}
+
+/** Test information function of an assembled form against its cut-point targets */
+export function TestInformationCard({ selectedQuestions, points }: TestInformationCardProps) {
+  const items = useMemo(
+    () => selectedQuestions.filter(q => q.irt).map(q => q.irt as IrtItemParameters),
+    [selectedQuestions]
+  );
+  const curve = useMemo(() => {
+    const data: { theta: number; information: number }[] = [];
+    for (let i = -40; i <= 40; i++) {
+      const theta = i / 10;
+      data.push({ theta, information: testInformation(items, theta) });
+    }
+    return data;
+  }, [items]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Test Information</CardTitle>
+        <CardDescription>
+          {items.length} of {selectedQuestions.length} items have IRT parameters
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Cut point (θ)</TableHead>
+              <TableHead className="text-right">Information</TableHead>
+              <TableHead className="text-right">SE</TableHead>
+              <TableHead className="text-right">Target</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {points.map(p => (
+              <TableRow key={p.theta} className="font-mono text-sm">
+                <TableCell>{p.theta.toFixed(2)}</TableCell>
+                <TableCell className="text-right">{p.information.toFixed(2)}</TableCell>
+                <TableCell className="text-right">
+                  {Number.isFinite(p.standardError) ? p.standardError.toFixed(3) : '—'}
+                </TableCell>
+                <TableCell className="text-right">
+                  {p.targetInformation.toFixed(2)} (SE {informationToStandardError(p.targetInformation).toFixed(3)})
+                </TableCell>
+                <TableCell className="text-right">
+                  <Badge variant={p.information >= p.targetInformation ? 'secondary' : 'destructive'}>
+                    {p.information >= p.targetInformation ? 'Met' : 'Short'}
+                  </Badge>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <ResponsiveContainer width="100%" height={220}>
+          <LineChart data={curve}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="theta" type="number" domain={[-4, 4]} ticks={[-4, -2, 0, 2, 4]} />
+            <YAxis />
+            <Tooltip formatter={(v: number) => v.toFixed(2)} labelFormatter={t => `θ = ${t}`} />
+            {points.map(p => (
+              <ReferenceLine key={p.theta} x={p.theta} stroke="hsl(var(--muted-foreground))" strokeDasharray="4 4" />
+            ))}
+            <Line type="monotone" dataKey="information" name="Information" stroke="hsl(var(--primary))" dot={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </CardContent>
+    </Card>
+  );
+}
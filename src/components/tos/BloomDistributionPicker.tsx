@@ -0,0 +1,303 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Save } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { DistributionProfiles, DistributionProfileRow } from "@/services/db/distributionProfiles";
+import {
+  BLOOM_LEVELS,
+  BloomDistributionProfile,
+  BloomLevel,
+  DEFAULT_DISTRIBUTION_PROFILE,
+  getDifficultyForBloom,
+  getDifficultySplit,
+  normalizeBloomDistribution,
+} from "@/utils/tosCalculator";
+
+interface BloomDistributionPickerProps {
+  value: BloomDistributionProfile;
+  onChange: (profile: BloomDistributionProfile) => void;
+  totalItems?: number;
+}
+
+const LEVEL_LABELS: Record<BloomLevel, string> = {
+  remembering: 'Remembering',
+  understanding: 'Understanding',
+  applying: 'Applying',
+  analyzing: 'Analyzing',
+  evaluating: 'Evaluating',
+  creating: 'Creating',
+};
+
+const toPercent = (fraction: number) => Math.round(fraction * 1000) / 10;
+
+export function BloomDistributionPicker({ value, onChange, totalItems }: BloomDistributionPickerProps) {
+  const [profiles, setProfiles] = useState<DistributionProfileRow[]>([]);
+  const [department, setDepartment] = useState<string | null>(null);
+  const [overriding, setOverriding] = useState(value.scope === 'tos');
+  const [percentages, setPercentages] = useState<Record<BloomLevel, number>>(() =>
+    Object.fromEntries(BLOOM_LEVELS.map(l => [l, toPercent(value.weights[l])])) as Record<BloomLevel, number>
+  );
+  const [newProfileName, setNewProfileName] = useState("");
+  const [saving, setSaving] = useState(false);
+  const defaultResolved = useRef(false);
+  const latestValue = useRef(value);
+  const latestOnChange = useRef(onChange);
+  const lastEmitted = useRef<BloomDistributionProfile | null>(null);
+
+  // Resync the editor when the parent swaps the profile (e.g. a reused template)
+  useEffect(() => {
+    latestValue.current = value;
+    if (value !== lastEmitted.current) {
+      setOverriding(value.scope === 'tos');
+      setPercentages(
+        Object.fromEntries(BLOOM_LEVELS.map(l => [l, toPercent(value.weights[l])])) as Record<BloomLevel, number>
+      );
+    }
+  }, [value]);
+
+  // Read through a ref so an inline onChange from the parent doesn't reload the profiles
+  useEffect(() => {
+    latestOnChange.current = onChange;
+  }, [onChange]);
+
+  const emit = useCallback((profile: BloomDistributionProfile) => {
+    lastEmitted.current = profile;
+    latestOnChange.current(profile);
+  }, []);
+
+  const selectProfile = useCallback((profile: BloomDistributionProfile) => {
+    setOverriding(false);
+    setPercentages(
+      Object.fromEntries(BLOOM_LEVELS.map(l => [l, toPercent(profile.weights[l])])) as Record<BloomLevel, number>
+    );
+    emit(profile);
+  }, [emit]);
+
+  const loadProfiles = useCallback(async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      let college: string | null = null;
+      if (user) {
+        const { data } = await supabase
+          .from('profiles')
+          .select('college')
+          .eq('id', user.id)
+          .single();
+        college = data?.college ?? null;
+      }
+      setDepartment(college);
+
+      const rows = await DistributionProfiles.list(college);
+      setProfiles(rows);
+
+      // Only replace the built-in default; never a profile the caller already chose
+      if (!defaultResolved.current && latestValue.current === DEFAULT_DISTRIBUTION_PROFILE) {
+        defaultResolved.current = true;
+        const resolved = await DistributionProfiles.resolveDefault(college);
+        if (resolved !== DEFAULT_DISTRIBUTION_PROFILE && latestValue.current === DEFAULT_DISTRIBUTION_PROFILE) {
+          selectProfile(resolved);
+        }
+      }
+    } catch (error) {
+      console.error('Error loading distribution profiles:', error);
+    }
+  }, [selectProfile]);
+
+  useEffect(() => {
+    loadProfiles();
+  }, [loadProfiles]);
+
+  const percentTotal = useMemo(
+    () => Math.round(BLOOM_LEVELS.reduce((sum, l) => sum + (percentages[l] || 0), 0) * 10) / 10,
+    [percentages]
+  );
+
+  const split = getDifficultySplit(value.weights);
+
+
+  const handleSelect = (id: string) => {
+    if (id === 'builtin') {
+      selectProfile(DEFAULT_DISTRIBUTION_PROFILE);
+      return;
+    }
+    const row = profiles.find(p => p.id === id);
+    if (row) selectProfile(DistributionProfiles.toProfile(row));
+  };
+
+  const handleOverrideToggle = (checked: boolean) => {
+    setOverriding(checked);
+    if (!checked) {
+      const row = profiles.find(p => p.id === value.id);
+      selectProfile(row ? DistributionProfiles.toProfile(row) : DEFAULT_DISTRIBUTION_PROFILE);
+    }
+  };
+
+  const updatePercentage = (level: BloomLevel, raw: string) => {
+    const next = { ...percentages, [level]: Math.max(0, parseFloat(raw) || 0) };
+    setPercentages(next);
+
+    const sum = BLOOM_LEVELS.reduce((s, l) => s + next[l], 0);
+    if (sum > 0) {
+      emit({
+        id: value.id,
+        name: value.scope === 'tos' ? value.name : `${value.name} (customized)`,
+        scope: 'tos',
+        weights: normalizeBloomDistribution(next),
+      });
+    }
+  };
+
+  const saveAsDepartmentProfile = async () => {
+    if (!newProfileName.trim()) {
+      toast.error("Enter a name for the profile");
+      return;
+    }
+    if (!department) {
+      toast.error("Set your college in your profile before saving department profiles");
+      return;
+    }
+    setSaving(true);
+    try {
+      const row = await DistributionProfiles.create({
+        name: newProfileName.trim(),
+        scope: 'department',
+        department,
+        weights: percentages,
+      });
+      setProfiles(prev => [...prev, row]);
+      setNewProfileName("");
+      selectProfile(DistributionProfiles.toProfile(row));
+      toast.success(`Saved "${row.name}" for ${department}`);
+    } catch (error) {
+      console.error('Error saving distribution profile:', error);
+      toast.error(error instanceof Error ? error.message : "Failed to save profile");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const institutionProfiles = profiles.filter(p => p.scope === 'institution');
+  const departmentProfiles = profiles.filter(p => p.scope === 'department');
+  const showBuiltin = institutionProfiles.length === 0 || !value.id;
+
+  return (
+    <Card className="bg-muted/50">
+      <CardContent className="pt-4 space-y-4">
+        <div className="flex flex-col md:flex-row md:items-end gap-4">
+          <div className="flex-1 space-y-2">
+            <Label>Bloom's Taxonomy Distribution Profile</Label>
+            <Select value={value.id ?? 'builtin'} onValueChange={handleSelect}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a profile" />
+              </SelectTrigger>
+              <SelectContent>
+                {showBuiltin && (
+                  <SelectItem value="builtin">{DEFAULT_DISTRIBUTION_PROFILE.name}</SelectItem>
+                )}
+                {institutionProfiles.length > 0 && (
+                  <SelectGroup>
+                    <SelectLabel>Institution</SelectLabel>
+                    {institutionProfiles.map(p => (
+                      <SelectItem key={p.id} value={p.id}>
+                        {p.name}{p.is_default ? ' (default)' : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                )}
+                {departmentProfiles.length > 0 && (
+                  <SelectGroup>
+                    <SelectLabel>{department || 'Department'}</SelectLabel>
+                    {departmentProfiles.map(p => (
+                      <SelectItem key={p.id} value={p.id}>
+                        {p.name}{p.is_default ? ' (default)' : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                )}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2 pb-2">
+            <Switch id="override-distribution" checked={overriding} onCheckedChange={handleOverrideToggle} />
+            <Label htmlFor="override-distribution">Override for this TOS</Label>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
+          {(['easy', 'average', 'difficult'] as const).map(group => (
+            <div key={group}>
+              <strong className="capitalize">{group} ({toPercent(split[group])}%):</strong>
+              <ul className="ml-4 list-disc">
+                {BLOOM_LEVELS.filter(level => getDifficultyForBloom(level) === group).map(level => (
+                  <li key={level}>
+                    {LEVEL_LABELS[level]}: {toPercent(value.weights[level])}%
+                    {totalItems ? <span className="text-muted-foreground"> (~{Math.round(value.weights[level] * totalItems)})</span> : null}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+
+        {overriding && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+              {BLOOM_LEVELS.map(level => (
+                <div key={level} className="space-y-1">
+                  <Label htmlFor={`bloom-${level}`} className="text-xs">{LEVEL_LABELS[level]} %</Label>
+                  <Input
+                    id={`bloom-${level}`}
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="1"
+                    value={percentages[level]}
+                    onChange={(e) => updatePercentage(level, e.target.value)}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex items-center gap-2 text-xs">
+              <Badge variant={Math.abs(percentTotal - 100) < 0.05 ? "secondary" : "destructive"}>
+                Total: {percentTotal}%
+              </Badge>
+              {Math.abs(percentTotal - 100) >= 0.05 && (
+                <span className="text-muted-foreground">Percentages will be scaled proportionally to 100%.</span>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <Input
+                placeholder="Profile name, e.g., Prelim (60% easy)"
+                value={newProfileName}
+                onChange={(e) => setNewProfileName(e.target.value)}
+              />
+              <Button type="button" variant="outline" onClick={saveAsDepartmentProfile} disabled={saving}>
+                <Save className="h-4 w-4 mr-2" />
+                Save as Department Profile
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <p className="text-xs text-muted-foreground">
+          These quotas are enforced exactly. The matrix total will always equal your input total, and levels set to 0% receive no items.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
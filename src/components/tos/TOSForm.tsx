@@ -8,6 +8,8 @@ import { Separator } from "@/components/ui/separator"
 import { Plus, Minus, Calculator } from "lucide-react"
 import { TOSConfig } from "@/pages/TOS"
 import { TOS } from "@/services/db/tos"
+import { BLOOM_LEVELS, DEFAULT_DISTRIBUTION_PROFILE, calculateCanonicalTOSMatrix } from "@/utils/tosCalculator"
+import { BloomDistributionPicker } from "./BloomDistributionPicker"
 
 interface TOSFormProps {
   config: TOSConfig
@@ -78,6 +80,21 @@ export function TOSForm({ config, onConfigChange, onGenerate }: TOSFormProps) {
     try {
       const { supabase } = await import('@/integrations/supabase/client')
       
+      const canonical = calculateCanonicalTOSMatrix({
+        subject_no: tosConfig.subjectNo,
+        course: tosConfig.course,
+        description: tosConfig.description,
+        year_section: tosConfig.yearSection,
+        exam_period: tosConfig.examPeriod,
+        school_year: tosConfig.schoolYear,
+        total_items: tosConfig.totalItems,
+        prepared_by: tosConfig.preparedBy,
+        checked_by: tosConfig.checkedBy,
+        noted_by: tosConfig.notedBy,
+        topics: tosConfig.topics.map(t => ({ topic: t.name, hours: t.hours })),
+        profile: tosConfig.bloomDistribution
+      })
+
       // Save TOS entry
       const tosData = {
         title: `${tosConfig.subjectNo} - ${tosConfig.examPeriod} Exam`,
@@ -91,66 +108,36 @@ export function TOSForm({ config, onConfigChange, onGenerate }: TOSFormProps) {
         prepared_by: tosConfig.preparedBy,
         checked_by: tosConfig.checkedBy,
         noted_by: tosConfig.notedBy,
+        topics: canonical.topics,
+        distribution: canonical.distribution,
+        bloom_distribution: canonical.bloom_distribution,
         created_by: 'teacher'
       };
 
       const tosEntry = await TOS.create(tosData);
 
-      // Calculate and save learning competencies
-      const totalHours = tosConfig.topics.reduce((sum, topic) => sum + topic.hours, 0)
-      let currentItemNumber = 1
-
-      for (const topic of tosConfig.topics) {
-        const topicPercentage = (topic.hours / totalHours) * 100
-        const topicItems = Math.round(tosConfig.totalItems * (topic.hours / totalHours))
-        
-        // Bloom's distribution
-        const bloomDistribution = {
-          remembering: Math.round(topicItems * 0.15),
-          understanding: Math.round(topicItems * 0.15),
-          applying: Math.round(topicItems * 0.20),
-          analyzing: Math.round(topicItems * 0.20),
-          evaluating: Math.round(topicItems * 0.15),
-          creating: Math.round(topicItems * 0.15)
-        }
+      // Save learning competencies from the canonical distribution
+      const competencies = tosConfig.topics.map(topic => {
+        const dist = canonical.distribution[topic.name]
+        const itemNumbers = Object.fromEntries(BLOOM_LEVELS.map(level => [level, dist[level].items]))
 
-        // Adjust for rounding
-        const calculatedTotal = Object.values(bloomDistribution).reduce((a, b) => a + b, 0)
-        if (calculatedTotal !== topicItems) {
-          bloomDistribution.applying += (topicItems - calculatedTotal)
-        }
-
-        // Generate item numbers
-        const itemNumbers = {
-          remembering: Array.from({length: bloomDistribution.remembering}, (_, i) => currentItemNumber + i),
-          understanding: Array.from({length: bloomDistribution.understanding}, (_, i) => currentItemNumber + bloomDistribution.remembering + i),
-          applying: Array.from({length: bloomDistribution.applying}, (_, i) => currentItemNumber + bloomDistribution.remembering + bloomDistribution.understanding + i),
-          analyzing: Array.from({length: bloomDistribution.analyzing}, (_, i) => currentItemNumber + bloomDistribution.remembering + bloomDistribution.understanding + bloomDistribution.applying + i),
-          evaluating: Array.from({length: bloomDistribution.evaluating}, (_, i) => currentItemNumber + bloomDistribution.remembering + bloomDistribution.understanding + bloomDistribution.applying + bloomDistribution.analyzing + i),
-          creating: Array.from({length: bloomDistribution.creating}, (_, i) => currentItemNumber + bloomDistribution.remembering + bloomDistribution.understanding + bloomDistribution.applying + bloomDistribution.analyzing + bloomDistribution.evaluating + i)
-        }
-
-        currentItemNumber += topicItems
-
-        const competencyData = {
+        return {
           tos_id: tosEntry.id,
           topic_name: topic.name,
           hours: topic.hours,
-          percentage: topicPercentage,
-          remembering_items: bloomDistribution.remembering,
-          understanding_items: bloomDistribution.understanding,
-          applying_items: bloomDistribution.applying,
-          analyzing_items: bloomDistribution.analyzing,
-          evaluating_items: bloomDistribution.evaluating,
-          creating_items: bloomDistribution.creating,
-          total_items: topicItems,
+          percentage: (topic.hours / canonical.total_hours) * 100,
+          remembering_items: dist.remembering.count,
+          understanding_items: dist.understanding.count,
+          applying_items: dist.applying.count,
+          analyzing_items: dist.analyzing.count,
+          evaluating_items: dist.evaluating.count,
+          creating_items: dist.creating.count,
+          total_items: dist.total,
           item_numbers: itemNumbers
-        };
-        
-        await TOS.createLearningCompetencies([competencyData]);
+        }
+      })
 
-        
-      }
+      await TOS.createLearningCompetencies(competencies);
 
       console.log('TOS saved to Supabase successfully')
     } catch (error) {
@@ -325,6 +312,13 @@ export function TOSForm({ config, onConfigChange, onGenerate }: TOSFormProps) {
         </CardContent>
       </Card>
 
+      {/* Bloom's Taxonomy Distribution */}
+      <BloomDistributionPicker
+        value={config.bloomDistribution ?? DEFAULT_DISTRIBUTION_PROFILE}
+        onChange={(profile) => updateConfig({ bloomDistribution: profile })}
+        totalItems={config.totalItems}
+      />
+
       {/* Preparation Details */}
       <Card>
         <CardHeader>
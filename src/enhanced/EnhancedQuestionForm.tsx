@@ -20,6 +20,8 @@ import {
 } from 'lucide-react';
 import { useEnhancedClassification } from '@/hooks/useEnhancedClassification';
 import { TaxonomyMatrix } from '@/components/classification/TaxonomyMatrix';
+import { StructuredAnswer, StructuredAnswerEditor } from '@/components/questionbank/StructuredAnswerEditor';
+import { QUESTION_KIND_LABELS, QuestionKind, isStructuredKind, structuredAnswerError } from '@/types/questionTypes';
 import { toast } from 'sonner';
 
 interface EnhancedQuestionFormProps {
@@ -35,7 +37,7 @@ export const EnhancedQuestionForm: React.FC<EnhancedQuestionFormProps> = ({
 }) => {
   const [formData, setFormData] = useState({
     question_text: '',
-    question_type: 'mcq' as 'mcq' | 'essay' | 'true_false' | 'short_answer',
+    question_type: 'mcq' as QuestionKind,
     topic: '',
     choices: ['', '', '', ''],
     correct_answer: '',
@@ -44,6 +46,7 @@ export const EnhancedQuestionForm: React.FC<EnhancedQuestionFormProps> = ({
     knowledge_dimension: ''
   });
 
+  const [structured, setStructured] = useState<StructuredAnswer>({ choices: null, correct_answer: '' });
   const [showMatrix, setShowMatrix] = useState(false);
   const [saving, setSaving] = useState(false);
 
@@ -84,11 +87,15 @@ export const EnhancedQuestionForm: React.FC<EnhancedQuestionFormProps> = ({
 
   useEffect(() => {
     if (existingQuestion) {
+      const type = existingQuestion.question_type || 'mcq';
+      if (isStructuredKind(type)) {
+        setStructured({ choices: existingQuestion.choices ?? null, correct_answer: existingQuestion.correct_answer || '' });
+      }
       setFormData({
         question_text: existingQuestion.question_text || '',
-        question_type: existingQuestion.question_type || 'mcq',
+        question_type: type,
         topic: existingQuestion.topic || '',
-        choices: existingQuestion.choices ? Object.values(existingQuestion.choices) : ['', '', '', ''],
+        choices: existingQuestion.choices && !isStructuredKind(type) ? Object.values(existingQuestion.choices) : ['', '', '', ''],
         correct_answer: existingQuestion.correct_answer || '',
         bloom_level: existingQuestion.bloom_level || '',
         difficulty: existingQuestion.difficulty || '',
@@ -174,6 +181,14 @@ export const EnhancedQuestionForm: React.FC<EnhancedQuestionFormProps> = ({
       return;
     }
 
+    if (isStructuredKind(formData.question_type)) {
+      const problem = structuredAnswerError(formData.question_type, structured.choices, structured.correct_answer);
+      if (problem) {
+        toast.error(problem);
+        return;
+      }
+    }
+
     setSaving(true);
     try {
       const questionData = {
@@ -189,8 +204,9 @@ export const EnhancedQuestionForm: React.FC<EnhancedQuestionFormProps> = ({
               acc[String.fromCharCode(65 + index)] = choice.trim();
             }
             return acc;
-          }, {} as Record<string, string>) : null,
-        correct_answer: formData.correct_answer,
+          }, {} as Record<string, string>)
+          : isStructuredKind(formData.question_type) ? structured.choices : null,
+        correct_answer: isStructuredKind(formData.question_type) ? structured.correct_answer : formData.correct_answer,
         created_by: 'teacher',
         approved: isHighQuality && isHighConfidence,
         ai_confidence_score: classification?.confidence || 0.5,
@@ -251,13 +267,15 @@ export const EnhancedQuestionForm: React.FC<EnhancedQuestionFormProps> = ({
                 <select
                   id="questionType"
                   value={formData.question_type}
-                  onChange={(e) => setFormData(prev => ({ ...prev, question_type: e.target.value as any }))}
+                  onChange={(e) => {
+                    setFormData(prev => ({ ...prev, question_type: e.target.value as QuestionKind }));
+                    setStructured({ choices: null, correct_answer: '' });
+                  }}
                   className="w-full px-3 py-2 border rounded-md"
                 >
-                  <option value="mcq">Multiple Choice</option>
-                  <option value="essay">Essay</option>
-                  <option value="true_false">True/False</option>
-                  <option value="short_answer">Short Answer</option>
+                  {(Object.keys(QUESTION_KIND_LABELS) as QuestionKind[]).map(kind => (
+                    <option key={kind} value={kind}>{QUESTION_KIND_LABELS[kind]}</option>
+                  ))}
                 </select>
               </div>
             </div>
@@ -316,6 +334,16 @@ export const EnhancedQuestionForm: React.FC<EnhancedQuestionFormProps> = ({
                 </div>
               </div>
             )}
+
+            {/* Matching, Ordering, Multiple Response and Numeric */}
+            {isStructuredKind(formData.question_type) && (
+              <StructuredAnswerEditor
+                key={`${formData.question_type}-${existingQuestion?.id ?? 'new'}`}
+                type={formData.question_type}
+                value={structured}
+                onChange={setStructured}
+              />
+            )}
           </div>
 
           <Separator />
@@ -7,9 +7,13 @@ import { Switch } from '@/components/ui/switch';
 import { Input } from '@/components/ui/input';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
-import { FileText, Download, Printer, FileCode } from 'lucide-react';
+import { FileText, Download, Printer, FileCode, FileType } from 'lucide-react';
 import { toast } from 'sonner';
 import { ProfessionalTemplates, type TestMetadata, type ExportOptions } from '@/services/export/professionalTemplates';
+import { DOCX_MIME_TYPE, downloadDocx, generateTestDocx, loadInstitutionLogo } from '@/services/export/docxGenerator';
+import { packageLaTeX } from '@/services/export/latexGenerator';
+import { QuestionMedia } from '@/services/db/questionMedia';
+import { parseQuestionAttachments } from '@/types/attachments';
 
 interface ExportWizardProps {
   questions: any[];
@@ -35,12 +39,13 @@ export function ExportWizard({ questions, metadata, onExport }: ExportWizardProp
     
     try {
       let result: Blob | string;
+      const media = await QuestionMedia.download(questions.flatMap(q => parseQuestionAttachments(q.attachments)));
       
       if (format === 'pdf') {
         result = await ProfessionalTemplates.generatePDF(
           questions,
           metadata,
-          { ...exportOptions, watermark: watermark || undefined }
+          { ...exportOptions, watermark: watermark || undefined, media }
         );
         
         // Download PDF
@@ -56,19 +61,31 @@ export function ExportWizard({ questions, metadata, onExport }: ExportWizardProp
         toast.success('PDF exported successfully!');
       } else if (format === 'latex') {
         result = ProfessionalTemplates.generateLaTeX(questions, metadata);
+        const baseName = metadata.title.replace(/\s+/g, '_');
+        // With images, the .tex goes in a zip beside the media/ folder it includes
+        const zip = packageLaTeX(result, `${baseName}.tex`, questions, media);
         
         // Download LaTeX file
-        const blob = new Blob([result], { type: 'text/plain' });
+        const blob = zip ? new Blob([zip], { type: 'application/zip' }) : new Blob([result], { type: 'text/plain' });
         const url = URL.createObjectURL(blob);
         const a = document.createElement('a');
         a.href = url;
-        a.download = `${metadata.title.replace(/\s+/g, '_')}.tex`;
+        a.download = zip ? `${baseName}.zip` : `${baseName}.tex`;
         document.body.appendChild(a);
         a.click();
         document.body.removeChild(a);
         URL.revokeObjectURL(url);
         
         toast.success('LaTeX file exported successfully!');
+      } else if (format === 'docx') {
+        const bytes = generateTestDocx(
+          { ...metadata, items: questions },
+          { includeAnswerKey: exportOptions.includeAnswerKey, logo: await loadInstitutionLogo(), media }
+        );
+        downloadDocx(bytes, metadata.title.replace(/\s+/g, '_'));
+        result = new Blob([bytes], { type: DOCX_MIME_TYPE });
+        
+        toast.success('Word document exported successfully!');
       }
       
       if (onExport && result instanceof Blob) {
@@ -139,7 +156,7 @@ export function ExportWizard({ questions, metadata, onExport }: ExportWizardProp
               </Select>
             </div>
             
-            <div className="grid grid-cols-3 gap-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
               <Button
                 variant="outline"
                 onClick={() => handleExport('pdf')}
@@ -162,6 +179,17 @@ export function ExportWizard({ questions, metadata, onExport }: ExportWizardProp
                 <Badge variant="secondary" className="text-xs">Academic</Badge>
               </Button>
               
+              <Button
+                variant="outline"
+                onClick={() => handleExport('docx')}
+                disabled={isExporting}
+                className="h-auto py-4 flex-col gap-2"
+              >
+                <FileType className="h-6 w-6" />
+                <span>Word</span>
+                <Badge variant="secondary" className="text-xs">Editable</Badge>
+              </Button>
+              
               <Button
                 variant="outline"
                 disabled
@@ -244,7 +272,7 @@ export function ExportWizard({ questions, metadata, onExport }: ExportWizardProp
             <div>Title: <strong>{metadata.title}</strong></div>
             <div>Questions: <strong>{questions.length}</strong></div>
             <div>Template: <strong className="capitalize">{exportOptions.template}</strong></div>
-            <div>Format: <strong>PDF / LaTeX</strong></div>
+            <div>Format: <strong>PDF / LaTeX / DOCX</strong></div>
           </div>
         </div>
       </CardContent>
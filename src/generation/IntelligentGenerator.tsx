@@ -57,12 +57,13 @@ export default function IntelligentGenerator() {
       );
       setCalibration(difficultyResult);
 
-      // Check redundancy (mock existing questions)
-      const redundancyResult = await redundancyDetector.checkRedundancy(
-        questionText,
-        [], // Would normally fetch from database
-        0.85
-      );
+      // Check redundancy against the question bank's nearest neighbours
+      const redundancyResult = await redundancyDetector
+        .checkRedundancyInBank(questionText, 0.85)
+        .catch((error) => {
+          console.warn('Redundancy check unavailable:', error);
+          return null;
+        });
       setRedundancy(redundancyResult);
 
       // Mock learning objectives for alignment
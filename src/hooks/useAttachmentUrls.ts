@@ -0,0 +1,30 @@
+/**
+ * Attachment URLs Hook
+ * Signs the storage URLs of the images attached to a list of questions or test items
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { QuestionMedia } from '@/services/db/questionMedia';
+import { attachmentKey, parseQuestionAttachments } from '@/types/attachments';
+
+export function useAttachmentUrls(items: Array<{ attachments?: unknown }>) {
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const attachments = items.flatMap(item => parseQuestionAttachments(item.attachments));
+  const latest = useRef(attachments);
+  latest.current = attachments;
+  const key = [...new Set(attachments.map(attachmentKey))].sort().join('\n');
+
+  useEffect(() => {
+    if (!key) {
+      setUrls({});
+      return;
+    }
+    let cancelled = false;
+    QuestionMedia.signedUrls(latest.current)
+      .then(byKey => { if (!cancelled) setUrls(byKey); })
+      .catch(error => console.warn('Could not load question attachments:', error));
+    return () => { cancelled = true; };
+  }, [key]);
+
+  return urls;
+}
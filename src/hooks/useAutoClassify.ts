@@ -65,7 +65,7 @@ export function useAutoClassify(options: UseAutoClassifyOptions = {}) {
     // Update the question with the classified dimension
     await Questions.update(questionId, {
       knowledge_dimension: dimension
-    });
+    }, 'Knowledge dimension auto-classified');
 
     return dimension;
   }, [classifyQuestion]);
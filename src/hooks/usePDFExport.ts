@@ -4,6 +4,7 @@ import html2canvas from 'html2canvas';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { addWatermarkToPDF, generateWatermarkCode, logSecurityEvent } from '@/services/testGeneration/security';
+import { markupToPlainText } from '@/lib/questionMarkup';
 
 export const usePDFExport = () => {
   const uploadToStorage = useCallback(async (blob: Blob, filename: string, folder: string) => {
@@ -266,7 +267,7 @@ export const usePDFExport = () => {
       pdf.setFontSize(10);
       pdf.setFont('times', 'normal');
       questions.forEach((q, i) => {
-        const text = q.question_text || q.question || '';
+        const text = markupToPlainText(q.question_text || q.question || '', true);
         if (yPosition > 270) { pdf.addPage(); yPosition = margin; }
         pdf.text(`${i + 1}. ${text}`, margin, yPosition);
         yPosition += 7;
@@ -1,5 +1,6 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import { itemAnalyzer, PsychometricReport } from '@/services/psychometrics/itemAnalysis';
+import type { ScoredResponseMatrix } from '@/services/psychometrics/statistics';
 
 export interface PsychometricAnalysisState {
   report: PsychometricReport | null;
@@ -19,11 +20,12 @@ export function usePsychometricAnalysis(options: UsePsychometricAnalysisOptions)
     error: null
   });
 
-  const analyzeTest = useCallback(async (responses: any[] = []) => {
+  /** Recompute from scored responses; loads item_responses when no matrix is passed */
+  const analyzeTest = useCallback(async (matrix?: ScoredResponseMatrix) => {
     setState(prev => ({ ...prev, loading: true, error: null }));
     
     try {
-      const report = await itemAnalyzer.analyzeTest(options.testId, responses);
+      const report = await itemAnalyzer.analyzeTest(options.testId, matrix);
       setState({
         report,
         loading: false,
@@ -41,6 +43,27 @@ export function usePsychometricAnalysis(options: UsePsychometricAnalysisOptions)
     }
   }, [options.testId]);
 
+  /** Load the most recently stored analysis without recomputing */
+  const loadLatestReport = useCallback(async () => {
+    setState(prev => ({ ...prev, loading: true, error: null }));
+
+    try {
+      const report = await itemAnalyzer.getLatestReport(options.testId);
+      setState({ report, loading: false, error: null });
+      return report;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      setState({ report: null, loading: false, error: errorMessage });
+      throw error;
+    }
+  }, [options.testId]);
+
+  useEffect(() => {
+    if (options.autoLoad && options.testId) {
+      loadLatestReport().catch(() => undefined);
+    }
+  }, [options.autoLoad, options.testId, loadLatestReport]);
+
   const getDifficultyDistribution = useCallback(async () => {
     try {
       return await itemAnalyzer.getDifficultyDistribution(options.testId);
@@ -70,6 +93,7 @@ export function usePsychometricAnalysis(options: UsePsychometricAnalysisOptions)
   return {
     ...state,
     analyzeTest,
+    loadLatestReport,
     getDifficultyDistribution,
     getReliabilityTrends,
     clearReport
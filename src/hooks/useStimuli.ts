@@ -0,0 +1,27 @@
+/**
+ * Stimuli Hook
+ * Loads the passages, tables and figures referenced by a test's items
+ */
+
+import { useEffect, useState } from 'react';
+import { Stimuli } from '@/services/db/stimuli';
+import type { Stimulus } from '@/types/stimulus';
+
+export function useStimuli(items: Array<{ stimulus_id?: string | null }>) {
+  const [stimuli, setStimuli] = useState<Record<string, Stimulus>>({});
+  const key = [...new Set(items.map(item => item.stimulus_id).filter(Boolean))].sort().join(',');
+
+  useEffect(() => {
+    if (!key) {
+      setStimuli({});
+      return;
+    }
+    let cancelled = false;
+    Stimuli.getMany(key.split(','))
+      .then(byId => { if (!cancelled) setStimuli(byId); })
+      .catch(error => console.warn('Could not load stimuli for printing:', error));
+    return () => { cancelled = true; };
+  }, [key]);
+
+  return stimuli;
+}
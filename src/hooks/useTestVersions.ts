@@ -1,6 +1,8 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import { generateVersionSet, type VersionSet } from '@/services/testGeneration/versionEngine';
+import { TestVersions } from '@/services/db/testVersions';
 
 interface Question {
   id: string;
@@ -12,13 +14,14 @@ interface Question {
   choices?: Record<string, string>;
   correct_answer?: string;
   created_by: string;
+  points?: number;
 }
 
 interface TestVersion {
   id?: string;
   version_label: string;
   questions: Question[];
-  answer_key: Record<string, string>;
+  answer_key: Record<string, unknown>;
   total_points: number;
 }
 
@@ -43,102 +46,29 @@ export const useTestVersions = () => {
   const [testMetadata, setTestMetadata] = useState<TestMetadata[]>([]);
   const [loading, setLoading] = useState(false);
 
-  // Utility function to shuffle array using Fisher-Yates algorithm
-  const shuffleArray = <T,>(array: T[]): T[] => {
-    const shuffled = [...array];
-    for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-    }
-    return shuffled;
-  };
-
-  // Shuffle answer choices and update correct answer
-  const shuffleQuestionChoices = (question: Question): Question => {
-    if (!question.choices || question.question_type !== 'mcq') {
-      return question;
-    }
-
-    const choiceEntries = Object.entries(question.choices);
-    const shuffledEntries = shuffleArray(choiceEntries);
-    
-    // Create new choice mapping
-    const newChoices: Record<string, string> = {};
-    const choiceKeys = ['A', 'B', 'C', 'D', 'E', 'F'];
-    
-    shuffledEntries.forEach(([, value], index) => {
-      if (index < choiceKeys.length) {
-        newChoices[choiceKeys[index]] = value;
-      }
-    });
-
-    // Find new position of correct answer
-    const originalCorrectValue = question.correct_answer;
-    const newCorrectKey = shuffledEntries.findIndex(([, value]) => value === originalCorrectValue);
-    const newCorrectAnswer = newCorrectKey !== -1 ? choiceKeys[newCorrectKey] : question.correct_answer;
-
-    return {
-      ...question,
-      choices: newChoices,
-      correct_answer: newCorrectAnswer
-    };
-  };
-
   // Generate multiple test versions
-  const generateTestVersions = async (
+  const generateTestVersions = (
     metadata: TestMetadata,
-    selectedQuestions: Question[]
-  ): Promise<TestVersion[]> => {
-    if (selectedQuestions.length === 0) {
-      throw new Error('No questions selected for test generation');
-    }
-
-    const versions: TestVersion[] = [];
-    const versionLabels = ['A', 'B', 'C', 'D', 'E'];
-
-    for (let i = 0; i < metadata.number_of_versions; i++) {
-      let versionQuestions = [...selectedQuestions];
-
-      // Shuffle questions if enabled
-      if (metadata.shuffle_questions) {
-        versionQuestions = shuffleArray(versionQuestions);
-      }
-
-      // Shuffle answer choices if enabled
-      if (metadata.shuffle_choices) {
-        versionQuestions = versionQuestions.map(shuffleQuestionChoices);
-      }
-
-      // Create answer key for this version
-      const answerKey: Record<string, string> = {};
-      versionQuestions.forEach((question, index) => {
-        const questionNumber = (index + 1).toString();
-        if (question.correct_answer) {
-          answerKey[questionNumber] = question.correct_answer;
-        }
-      });
-
-      versions.push({
-        version_label: versionLabels[i],
-        questions: versionQuestions,
-        answer_key: answerKey,
-        total_points: selectedQuestions.length * metadata.points_per_question
-      });
-    }
-
-    return versions;
-  };
+    selectedQuestions: Question[],
+    seed?: string
+  ): VersionSet<Question> =>
+    generateVersionSet(selectedQuestions, {
+      numberOfVersions: metadata.number_of_versions,
+      shuffleQuestions: metadata.shuffle_questions,
+      shuffleChoices: metadata.shuffle_choices,
+      pointsPerQuestion: metadata.points_per_question,
+      seed
+    });
 
-  // Save test metadata and versions to database
+  // Save the version set as a parent test with one linked test per version
   const saveTestVersions = async (
     metadata: TestMetadata,
-    versions: TestVersion[]
+    set: VersionSet<Question>
   ): Promise<string> => {
     try {
-      // Save test metadata
-      const { data: testMetadataRecord, error: metadataError } = await (supabase as any)
-        .from('test_metadata')
-        .insert([{
+      const { parentId } = await TestVersions.save(
+        set,
+        {
           title: metadata.title,
           subject: metadata.subject,
           course: metadata.course,
@@ -147,52 +77,11 @@ export const useTestVersions = () => {
           school_year: metadata.school_year,
           instructions: metadata.instructions,
           time_limit: metadata.time_limit,
-          points_per_question: metadata.points_per_question,
-          total_questions: metadata.total_questions,
-          shuffle_questions: metadata.shuffle_questions,
-          shuffle_choices: metadata.shuffle_choices,
-          number_of_versions: metadata.number_of_versions,
-          created_by: 'teacher'
-        }])
-        .select()
-        .single();
-
-      if (metadataError) throw metadataError;
-
-      // Save each version
-      for (const version of versions) {
-        const { data: versionRecord, error: versionError } = await (supabase as any)
-          .from('test_versions')
-          .insert([{
-            test_metadata_id: testMetadataRecord.id,
-            version_label: version.version_label,
-            question_order: version.questions.map(q => q.id),
-            answer_key: version.answer_key,
-            total_points: version.total_points
-          }])
-          .select()
-          .single();
-
-        if (versionError) throw versionError;
-
-        // Save individual test questions for this version
-        const testQuestions = version.questions.map((question, index) => ({
-          test_version_id: versionRecord.id,
-          question_id: question.id,
-          question_number: index + 1,
-          shuffled_choices: question.choices || null,
-          correct_answer_key: question.correct_answer || null,
-          points: metadata.points_per_question
-        }));
-
-        const { error: questionsError } = await (supabase as any)
-          .from('test_questions')
-          .insert(testQuestions);
-
-        if (questionsError) throw questionsError;
-      }
-
-      return testMetadataRecord.id;
+          points_per_question: metadata.points_per_question
+        },
+        { shuffleQuestions: metadata.shuffle_questions, shuffleChoices: metadata.shuffle_choices }
+      );
+      return parentId;
     } catch (error) {
       console.error('Error saving test versions:', error);
       throw error;
@@ -218,36 +107,20 @@ export const useTestVersions = () => {
     }
   };
 
-  // Load specific test versions
-  const loadTestVersions = async (testMetadataId: string): Promise<TestVersion[]> => {
+  // Load specific test versions, from either storage layout
+  const loadTestVersions = async (testId: string): Promise<TestVersion[]> => {
     try {
-      const { data: versions, error: versionsError } = await (supabase as any)
-        .from('test_versions')
-        .select(`
-          *,
-          test_questions (
-            *,
-            questions (*)
-          )
-        `)
-        .eq('test_metadata_id', testMetadataId)
-        .order('version_label');
-
-      if (versionsError) throw versionsError;
-
-      return (versions || []).map((version: any) => ({
-        id: version.id,
-        version_label: version.version_label,
-        questions: version.test_questions
-          .sort((a: any, b: any) => a.question_number - b.question_number)
-          .map((tq: any) => ({
-            ...tq.questions,
-            choices: tq.shuffled_choices || tq.questions.choices,
-            correct_answer: tq.correct_answer_key || tq.questions.correct_answer
-          })),
-        answer_key: version.answer_key,
-        total_points: version.total_points
-      }));
+      const family = await TestVersions.loadFamily(testId);
+      return family.versions.map(version => {
+        const questions = (Array.isArray(version.items) ? version.items : []) as Question[];
+        return {
+          id: version.id,
+          version_label: version.version_label ?? '',
+          questions,
+          answer_key: (version.answer_key ?? {}) as Record<string, unknown>,
+          total_points: questions.reduce((sum, q) => sum + (Number(q.points) || 1), 0)
+        };
+      });
     } catch (error) {
       console.error('Error loading test versions:', error);
       throw error;
@@ -354,8 +227,6 @@ export const useTestVersions = () => {
     loadTestVersions,
     deleteTest,
     validateTestConfig,
-    validateVersionBalance,
-    shuffleArray,
-    shuffleQuestionChoices
+    validateVersionBalance
   };
 };
\ No newline at end of file
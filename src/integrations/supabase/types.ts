@@ -167,6 +167,254 @@ export type Database = {
           },
         ]
       }
+      bloom_distribution_profiles: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          department: string | null
+          id: string
+          is_default: boolean
+          name: string
+          scope: string
+          updated_at: string
+          weights: Json
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          department?: string | null
+          id?: string
+          is_default?: boolean
+          name: string
+          scope: string
+          updated_at?: string
+          weights: Json
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          department?: string | null
+          id?: string
+          is_default?: boolean
+          name?: string
+          scope?: string
+          updated_at?: string
+          weights?: Json
+        }
+        Relationships: []
+      }
+      classification_benchmark_results: {
+        Row: {
+          classifier: string
+          classifier_version: string
+          created_at: string
+          created_by: string | null
+          failed_count: number
+          gold_set_id: string
+          id: string
+          item_count: number
+          metrics: Json
+          run_id: string
+        }
+        Insert: {
+          classifier: string
+          classifier_version: string
+          created_at?: string
+          created_by?: string | null
+          failed_count?: number
+          gold_set_id: string
+          id?: string
+          item_count: number
+          metrics?: Json
+          run_id: string
+        }
+        Update: {
+          classifier?: string
+          classifier_version?: string
+          created_at?: string
+          created_by?: string | null
+          failed_count?: number
+          gold_set_id?: string
+          id?: string
+          item_count?: number
+          metrics?: Json
+          run_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "classification_benchmark_results_gold_set_id_fkey"
+            columns: ["gold_set_id"]
+            isOneToOne: false
+            referencedRelation: "classification_gold_sets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      classification_gold_items: {
+        Row: {
+          bloom_level: string | null
+          created_at: string
+          difficulty: string | null
+          gold_set_id: string
+          id: string
+          knowledge_dimension: string | null
+          question_text: string
+          question_type: string
+          topic: string | null
+        }
+        Insert: {
+          bloom_level?: string | null
+          created_at?: string
+          difficulty?: string | null
+          gold_set_id: string
+          id?: string
+          knowledge_dimension?: string | null
+          question_text: string
+          question_type?: string
+          topic?: string | null
+        }
+        Update: {
+          bloom_level?: string | null
+          created_at?: string
+          difficulty?: string | null
+          gold_set_id?: string
+          id?: string
+          knowledge_dimension?: string | null
+          question_text?: string
+          question_type?: string
+          topic?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "classification_gold_items_gold_set_id_fkey"
+            columns: ["gold_set_id"]
+            isOneToOne: false
+            referencedRelation: "classification_gold_sets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      classification_gold_sets: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          item_count: number
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          item_count?: number
+          name: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          item_count?: number
+          name?: string
+        }
+        Relationships: []
+      }
+      classification_ratings: {
+        Row: {
+          assigned_at: string
+          bloom_level: string | null
+          id: string
+          knowledge_dimension: string | null
+          notes: string | null
+          rater_id: string
+          review_id: string
+          submitted_at: string | null
+        }
+        Insert: {
+          assigned_at?: string
+          bloom_level?: string | null
+          id?: string
+          knowledge_dimension?: string | null
+          notes?: string | null
+          rater_id: string
+          review_id: string
+          submitted_at?: string | null
+        }
+        Update: {
+          assigned_at?: string
+          bloom_level?: string | null
+          id?: string
+          knowledge_dimension?: string | null
+          notes?: string | null
+          rater_id?: string
+          review_id?: string
+          submitted_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "classification_ratings_review_id_fkey"
+            columns: ["review_id"]
+            isOneToOne: false
+            referencedRelation: "classification_reviews"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      classification_reviews: {
+        Row: {
+          adjudicated_by: string | null
+          adjudication_notes: string | null
+          created_at: string
+          created_by: string | null
+          final_bloom_level: string | null
+          final_knowledge_dimension: string | null
+          id: string
+          question_id: string
+          required_ratings: number
+          resolution: string | null
+          resolved_at: string | null
+          status: string
+        }
+        Insert: {
+          adjudicated_by?: string | null
+          adjudication_notes?: string | null
+          created_at?: string
+          created_by?: string | null
+          final_bloom_level?: string | null
+          final_knowledge_dimension?: string | null
+          id?: string
+          question_id: string
+          required_ratings: number
+          resolution?: string | null
+          resolved_at?: string | null
+          status?: string
+        }
+        Update: {
+          adjudicated_by?: string | null
+          adjudication_notes?: string | null
+          created_at?: string
+          created_by?: string | null
+          final_bloom_level?: string | null
+          final_knowledge_dimension?: string | null
+          id?: string
+          question_id?: string
+          required_ratings?: number
+          resolution?: string | null
+          resolved_at?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "classification_reviews_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       classification_validations: {
         Row: {
           cognitive_level: string | null
@@ -434,6 +682,7 @@ export type Database = {
           parent_test_id: string | null
           points_per_question: number | null
           question_order: Json | null
+          question_revisions: Json
           school_year: string | null
           shuffle_choices: boolean | null
           shuffle_questions: boolean | null
@@ -459,6 +708,7 @@ export type Database = {
           parent_test_id?: string | null
           points_per_question?: number | null
           question_order?: Json | null
+          question_revisions?: Json
           school_year?: string | null
           shuffle_choices?: boolean | null
           shuffle_questions?: boolean | null
@@ -484,6 +734,7 @@ export type Database = {
           parent_test_id?: string | null
           points_per_question?: number | null
           question_order?: Json | null
+          question_revisions?: Json
           school_year?: string | null
           shuffle_choices?: boolean | null
           shuffle_questions?: boolean | null
@@ -514,6 +765,133 @@ export type Database = {
           },
         ]
       }
+      irt_calibrations: {
+        Row: {
+          aic: number | null
+          bic: number | null
+          converged: boolean
+          created_at: string
+          created_by: string | null
+          examinee_count: number
+          excluded_count: number
+          id: string
+          item_count: number
+          iterations: number
+          log_likelihood: number | null
+          model: string
+          response_count: number
+        }
+        Insert: {
+          aic?: number | null
+          bic?: number | null
+          converged?: boolean
+          created_at?: string
+          created_by?: string | null
+          examinee_count?: number
+          excluded_count?: number
+          id?: string
+          item_count?: number
+          iterations?: number
+          log_likelihood?: number | null
+          model: string
+          response_count?: number
+        }
+        Update: {
+          aic?: number | null
+          bic?: number | null
+          converged?: boolean
+          created_at?: string
+          created_by?: string | null
+          examinee_count?: number
+          excluded_count?: number
+          id?: string
+          item_count?: number
+          iterations?: number
+          log_likelihood?: number | null
+          model?: string
+          response_count?: number
+        }
+        Relationships: []
+      }
+      item_responses: {
+        Row: {
+          assignment_id: string
+          canonical_response: string | null
+          confidence: number | null
+          created_at: string
+          id: string
+          is_correct: boolean | null
+          item_number: number
+          max_score: number
+          needs_review: boolean
+          question_id: string | null
+          response: string | null
+          scan_data: Json | null
+          score: number
+          source: string
+          test_id: string
+          updated_at: string
+        }
+        Insert: {
+          assignment_id: string
+          canonical_response?: string | null
+          confidence?: number | null
+          created_at?: string
+          id?: string
+          is_correct?: boolean | null
+          item_number: number
+          max_score?: number
+          needs_review?: boolean
+          question_id?: string | null
+          response?: string | null
+          scan_data?: Json | null
+          score?: number
+          source?: string
+          test_id: string
+          updated_at?: string
+        }
+        Update: {
+          assignment_id?: string
+          canonical_response?: string | null
+          confidence?: number | null
+          created_at?: string
+          id?: string
+          is_correct?: boolean | null
+          item_number?: number
+          max_score?: number
+          needs_review?: boolean
+          question_id?: string | null
+          response?: string | null
+          scan_data?: Json | null
+          score?: number
+          source?: string
+          test_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "item_responses_assignment_id_fkey"
+            columns: ["assignment_id"]
+            isOneToOne: false
+            referencedRelation: "test_assignments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "item_responses_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "item_responses_test_id_fkey"
+            columns: ["test_id"]
+            isOneToOne: false
+            referencedRelation: "generated_tests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       learning_competencies: {
         Row: {
           analyzing_items: number
@@ -573,6 +951,69 @@ export type Database = {
           },
         ]
       }
+      ml_models: {
+        Row: {
+          accuracy_score: number | null
+          created_at: string | null
+          created_by: string | null
+          deployed_at: string | null
+          deprecated_at: string | null
+          f1_score: number | null
+          hyperparameters: Json | null
+          id: string
+          is_active: boolean | null
+          model_name: string
+          model_type: string
+          model_version: string
+          performance_metrics: Json | null
+          precision_score: number | null
+          recall_score: number | null
+          training_data_size: number | null
+          updated_at: string | null
+          weights: Json | null
+        }
+        Insert: {
+          accuracy_score?: number | null
+          created_at?: string | null
+          created_by?: string | null
+          deployed_at?: string | null
+          deprecated_at?: string | null
+          f1_score?: number | null
+          hyperparameters?: Json | null
+          id?: string
+          is_active?: boolean | null
+          model_name: string
+          model_type: string
+          model_version: string
+          performance_metrics?: Json | null
+          precision_score?: number | null
+          recall_score?: number | null
+          training_data_size?: number | null
+          updated_at?: string | null
+          weights?: Json | null
+        }
+        Update: {
+          accuracy_score?: number | null
+          created_at?: string | null
+          created_by?: string | null
+          deployed_at?: string | null
+          deprecated_at?: string | null
+          f1_score?: number | null
+          hyperparameters?: Json | null
+          id?: string
+          is_active?: boolean | null
+          model_name?: string
+          model_type?: string
+          model_version?: string
+          performance_metrics?: Json | null
+          precision_score?: number | null
+          recall_score?: number | null
+          training_data_size?: number | null
+          updated_at?: string | null
+          weights?: Json | null
+        }
+        Relationships: []
+      }
       performance_benchmarks: {
         Row: {
           average_response_time: number | null
@@ -654,6 +1095,7 @@ export type Database = {
           difficulty_index: number | null
           discrimination_index: number | null
           id: string
+          metrics: Json
           point_biserial_correlation: number | null
           question_id: string | null
           reliability_coefficient: number | null
@@ -669,6 +1111,7 @@ export type Database = {
           difficulty_index?: number | null
           discrimination_index?: number | null
           id?: string
+          metrics?: Json
           point_biserial_correlation?: number | null
           question_id?: string | null
           reliability_coefficient?: number | null
@@ -684,6 +1127,7 @@ export type Database = {
           difficulty_index?: number | null
           discrimination_index?: number | null
           id?: string
+          metrics?: Json
           point_biserial_correlation?: number | null
           question_id?: string | null
           reliability_coefficient?: number | null
@@ -818,6 +1262,122 @@ export type Database = {
           },
         ]
       }
+      question_irt_parameters: {
+        Row: {
+          a: number
+          b: number
+          c: number
+          calibration_id: string | null
+          created_at: string
+          id: string
+          model: string
+          p_value: number | null
+          question_id: string
+          response_count: number
+          se_a: number | null
+          se_b: number | null
+          se_c: number | null
+          source: string
+          updated_at: string
+        }
+        Insert: {
+          a?: number
+          b: number
+          c?: number
+          calibration_id?: string | null
+          created_at?: string
+          id?: string
+          model: string
+          p_value?: number | null
+          question_id: string
+          response_count?: number
+          se_a?: number | null
+          se_b?: number | null
+          se_c?: number | null
+          source?: string
+          updated_at?: string
+        }
+        Update: {
+          a?: number
+          b?: number
+          c?: number
+          calibration_id?: string | null
+          created_at?: string
+          id?: string
+          model?: string
+          p_value?: number | null
+          question_id?: string
+          response_count?: number
+          se_a?: number | null
+          se_b?: number | null
+          se_c?: number | null
+          source?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "question_irt_parameters_calibration_id_fkey"
+            columns: ["calibration_id"]
+            isOneToOne: false
+            referencedRelation: "irt_calibrations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "question_irt_parameters_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      question_revisions: {
+        Row: {
+          change_reason: string | null
+          changed_fields: string[]
+          classification_after: Json
+          classification_before: Json | null
+          created_at: string
+          created_by: string | null
+          id: string
+          question_id: string
+          revision_number: number
+          snapshot: Json
+        }
+        Insert: {
+          change_reason?: string | null
+          changed_fields?: string[]
+          classification_after: Json
+          classification_before?: Json | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          question_id: string
+          revision_number: number
+          snapshot: Json
+        }
+        Update: {
+          change_reason?: string | null
+          changed_fields?: string[]
+          classification_after?: Json
+          classification_before?: Json | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          question_id?: string
+          revision_number?: number
+          snapshot?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "question_revisions_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       question_similarities: {
         Row: {
           algorithm_used: string
@@ -915,6 +1475,45 @@ export type Database = {
           },
         ]
       }
+      question_stimuli: {
+        Row: {
+          attachments: Json
+          content: string
+          created_at: string
+          created_by: string | null
+          id: string
+          kind: string
+          subject: string | null
+          title: string
+          topic: string | null
+          updated_at: string
+        }
+        Insert: {
+          attachments?: Json
+          content?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          kind?: string
+          subject?: string | null
+          title: string
+          topic?: string | null
+          updated_at?: string
+        }
+        Update: {
+          attachments?: Json
+          content?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          kind?: string
+          subject?: string | null
+          title?: string
+          topic?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
       questions: {
         Row: {
           ai_confidence_score: number | null
@@ -923,6 +1522,7 @@ export type Database = {
           approval_timestamp: string | null
           approved: boolean
           approved_by: string | null
+          attachments: Json
           bloom_level: string | null
           category: string | null
           choices: Json | null
@@ -943,10 +1543,14 @@ export type Database = {
           question_text: string
           question_type: string
           readability_score: number | null
+          revision_number: number
+          revision_reason: string | null
           search_vector: unknown
+          semantic_embedding: string | null
           semantic_vector: string | null
           specialization: string | null
           status: string | null
+          stimulus_id: string | null
           subject: string | null
           subject_code: string | null
           subject_description: string | null
@@ -968,6 +1572,7 @@ export type Database = {
           approval_timestamp?: string | null
           approved?: boolean
           approved_by?: string | null
+          attachments?: Json
           bloom_level?: string | null
           category?: string | null
           choices?: Json | null
@@ -988,10 +1593,14 @@ export type Database = {
           question_text: string
           question_type: string
           readability_score?: number | null
+          revision_number?: number
+          revision_reason?: string | null
           search_vector?: unknown
+          semantic_embedding?: string | null
           semantic_vector?: string | null
           specialization?: string | null
           status?: string | null
+          stimulus_id?: string | null
           subject?: string | null
           subject_code?: string | null
           subject_description?: string | null
@@ -1013,6 +1622,7 @@ export type Database = {
           approval_timestamp?: string | null
           approved?: boolean
           approved_by?: string | null
+          attachments?: Json
           bloom_level?: string | null
           category?: string | null
           choices?: Json | null
@@ -1033,10 +1643,14 @@ export type Database = {
           question_text?: string
           question_type?: string
           readability_score?: number | null
+          revision_number?: number
+          revision_reason?: string | null
           search_vector?: unknown
+          semantic_embedding?: string | null
           semantic_vector?: string | null
           specialization?: string | null
           status?: string | null
+          stimulus_id?: string | null
           subject?: string | null
           subject_code?: string | null
           subject_description?: string | null
@@ -1080,6 +1694,13 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "questions_stimulus_id_fkey"
+            columns: ["stimulus_id"]
+            isOneToOne: false
+            referencedRelation: "question_stimuli"
+            referencedColumns: ["id"]
+          },
         ]
       }
       review_requests: {
@@ -1274,6 +1895,72 @@ export type Database = {
           },
         ]
       }
+      score_conversions: {
+        Row: {
+          anchor_item_count: number
+          conversion: Json
+          created_at: string
+          created_by: string | null
+          design: string
+          examinee_count: number
+          id: string
+          is_active: boolean
+          max_score: number
+          method: string
+          reference_examinee_count: number
+          reference_max_score: number
+          reference_test_id: string
+          test_id: string
+        }
+        Insert: {
+          anchor_item_count?: number
+          conversion?: Json
+          created_at?: string
+          created_by?: string | null
+          design: string
+          examinee_count?: number
+          id?: string
+          is_active?: boolean
+          max_score: number
+          method: string
+          reference_examinee_count?: number
+          reference_max_score: number
+          reference_test_id: string
+          test_id: string
+        }
+        Update: {
+          anchor_item_count?: number
+          conversion?: Json
+          created_at?: string
+          created_by?: string | null
+          design?: string
+          examinee_count?: number
+          id?: string
+          is_active?: boolean
+          max_score?: number
+          method?: string
+          reference_examinee_count?: number
+          reference_max_score?: number
+          reference_test_id?: string
+          test_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "score_conversions_test_id_fkey"
+            columns: ["test_id"]
+            isOneToOne: false
+            referencedRelation: "generated_tests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "score_conversions_reference_test_id_fkey"
+            columns: ["reference_test_id"]
+            isOneToOne: false
+            referencedRelation: "generated_tests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       system_metrics: {
         Row: {
           aggregation_period: string | null
@@ -2011,6 +2698,16 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      activate_ml_model: { Args: { p_model_id: string }; Returns: undefined }
+      adjudicate_classification_review: {
+        Args: {
+          p_bloom_level: string
+          p_knowledge_dimension: string
+          p_notes?: string
+          p_review_id: string
+        }
+        Returns: undefined
+      }
       assign_admin_role: { Args: { user_email: string }; Returns: undefined }
       assign_user_role: {
         Args: { new_role: string; target_user_id: string }
@@ -2040,6 +2737,19 @@ export type Database = {
         }[]
       }
       cleanup_old_presence: { Args: never; Returns: undefined }
+      get_adjudication_queue: {
+        Args: never
+        Returns: {
+          choices: Json
+          created_at: string
+          question_id: string
+          question_text: string
+          question_type: string
+          ratings: Json
+          review_id: string
+          topic: string
+        }[]
+      }
       get_available_test_versions: {
         Args: { p_parent_test_id: string }
         Returns: {
@@ -2084,6 +2794,10 @@ export type Database = {
       is_admin:
         | { Args: never; Returns: boolean }
         | { Args: { uid: string }; Returns: boolean }
+      is_classification_label: {
+        Args: { p_bloom_level: string; p_knowledge_dimension: string }
+        Returns: boolean
+      }
       is_document_collaborator: {
         Args: { p_document_id: string; p_document_type: string }
         Returns: boolean
@@ -2104,6 +2818,60 @@ export type Database = {
         Args: { p_question_id: string; p_test_id: string }
         Returns: undefined
       }
+      match_questions_by_embedding: {
+        Args: {
+          p_embedding: string
+          p_exclude_id?: string
+          p_match_count?: number
+          p_threshold?: number
+        }
+        Returns: {
+          bloom_level: string
+          difficulty: string
+          id: string
+          question_text: string
+          similarity: number
+          topic: string
+        }[]
+      }
+      match_similar_questions: {
+        Args: {
+          p_match_count?: number
+          p_question_id: string
+          p_threshold?: number
+        }
+        Returns: {
+          bloom_level: string
+          difficulty: string
+          id: string
+          question_text: string
+          similarity: number
+          topic: string
+        }[]
+      }
+      resolve_classification_review: {
+        Args: {
+          p_bloom_level: string
+          p_knowledge_dimension: string
+          p_notes: string
+          p_resolution: string
+          p_review_id: string
+        }
+        Returns: undefined
+      }
+      set_default_distribution_profile: {
+        Args: { p_profile_id: string }
+        Returns: undefined
+      }
+      submit_classification_rating: {
+        Args: {
+          p_bloom_level: string
+          p_knowledge_dimension: string
+          p_notes?: string
+          p_rating_id: string
+        }
+        Returns: string
+      }
       validate_tos_exists: { Args: { p_tos_id: string }; Returns: boolean }
       validate_version_balance: {
         Args: { p_parent_test_id: string }
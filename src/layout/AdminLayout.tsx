@@ -12,7 +12,8 @@ import {
   ChevronRight,
   Brain,
   Upload,
-  Sparkles
+  Sparkles,
+  ClipboardCheck
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
@@ -43,6 +44,12 @@ const adminMenuItems = [
     icon: Upload,
     description: "Import questions" 
   },
+  { 
+    title: "Classification Review", 
+    href: "/admin/classification-review", 
+    icon: ClipboardCheck,
+    description: "Multi-rater labels" 
+  },
   { 
     title: "AI Test Generator", 
     href: "/admin/generate-test", 
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { classifierText, markupToPlainText, parseMarkup, parseTex, texToText } from '../questionMarkup';
+
+describe('question markup', () => {
+  it('splits inline and display math, code spans and fenced code', () => {
+    const text = 'Solve $x^2 = 4$ for \\(x\\).\n$$\\sum_{i=1}^{n} i$$\nRun `main()`:\n```python\ndef f(x):\n    return x\n```\nDone.';
+    expect(parseMarkup(text)).toEqual([
+      { type: 'text', text: 'Solve ' },
+      { type: 'math', tex: 'x^2 = 4', display: false },
+      { type: 'text', text: ' for ' },
+      { type: 'math', tex: 'x', display: false },
+      { type: 'text', text: '.\n' },
+      { type: 'math', tex: '\\sum_{i=1}^{n} i', display: true },
+      { type: 'text', text: '\nRun ' },
+      { type: 'code', code: 'main()', language: null, block: false },
+      { type: 'text', text: ':\n' },
+      { type: 'code', code: 'def f(x):\n    return x', language: 'python', block: true },
+      { type: 'text', text: 'Done.' },
+    ]);
+  });
+
+  it('leaves prices and escaped dollars as text', () => {
+    expect(parseMarkup('It costs $5 and $10.')).toEqual([{ type: 'text', text: 'It costs $5 and $10.' }]);
+    expect(parseMarkup('Pay \\$3 now')).toEqual([{ type: 'text', text: 'Pay $3 now' }]);
+    expect(parseMarkup('A $ sign alone')).toEqual([{ type: 'text', text: 'A $ sign alone' }]);
+  });
+
+  it('parses scripts, fractions and roots into a tree', () => {
+    expect(parseTex('x_1^2')).toEqual([
+      { kind: 'script', base: [{ kind: 'text', text: 'x' }], sub: [{ kind: 'text', text: '1' }], sup: [{ kind: 'text', text: '2' }] },
+    ]);
+    expect(parseTex('\\frac{a}{b+1}')).toEqual([
+      { kind: 'frac', num: [{ kind: 'text', text: 'a' }], den: [{ kind: 'text', text: 'b' }, { kind: 'text', text: '+' }, { kind: 'text', text: '1' }] },
+    ]);
+  });
+
+  it('writes math as Unicode text, or ASCII for Latin-1 fonts', () => {
+    expect(texToText('x^2 + y_1 \\le \\frac{n(n+1)}{2}')).toBe('x² + y₁ ≤ (n(n + 1))/2');
+    expect(texToText('\\forall x \\in \\mathbb{N}, \\sqrt{x} \\ge 0')).toBe('∀x ∈ ℕ, √x ≥ 0');
+    expect(texToText('\\binom{n}{k} \\text{ ways}')).toBe('C(n, k) ways');
+    expect(texToText('2^{10}')).toBe('2¹⁰');
+    expect(texToText('a^{x+y}')).toBe('a^(x + y)');
+    expect(texToText('x^2 \\le \\alpha', true)).toBe('x^2 <= alpha');
+    expect(markupToPlainText('If $p \\to q$ then:\n```\n  indented\n```', true)).toBe('If p -> q then:\n\n  indented');
+  });
+
+  it('hides math and code from the classifiers', () => {
+    expect(classifierText('Evaluate $\\lim_{x \\to 0} \\frac{\\sin x}{x}$ and explain.')).toBe('Evaluate and explain.');
+    expect(classifierText('What does this print?\n```js\nconst list = define();\n```')).toBe('What does this print?');
+    expect(classifierText('Plain question?')).toBe('Plain question?');
+  });
+});
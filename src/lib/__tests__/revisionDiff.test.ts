@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { diffSnapshots, diffWords, formatSnapshotField, toSnapshot } from '../revisionDiff';
+
+const base = toSnapshot({
+  question_text: 'What is the capital of France?',
+  question_type: 'mcq',
+  choices: { A: 'Paris', B: 'Lyon', C: 'Nice', D: 'Lille' },
+  correct_answer: 'A',
+  topic: 'Geography',
+  bloom_level: 'remembering',
+  knowledge_dimension: 'factual',
+  difficulty: 'easy',
+  tags: ['europe'],
+});
+
+describe('revision diff', () => {
+  it('lists only the fields whose text changed', () => {
+    const after = toSnapshot({
+      ...base,
+      choices: { A: 'Paris', B: 'Marseille', C: 'Nice', D: 'Lille' },
+      bloom_level: 'understanding',
+      tags: ['europe'],
+    });
+    expect(diffSnapshots(base, after)).toEqual([
+      { field: 'choices', label: 'Choices', before: 'A. Paris\nB. Lyon\nC. Nice\nD. Lille', after: 'A. Paris\nB. Marseille\nC. Nice\nD. Lille' },
+      { field: 'bloom_level', label: "Bloom's level", before: 'remembering', after: 'understanding' },
+    ]);
+  });
+
+  it('treats every filled field of the first revision as added', () => {
+    const changes = diffSnapshots(null, base).map(c => c.field);
+    expect(changes).toEqual(['question_text', 'question_type', 'choices', 'correct_answer', 'topic', 'bloom_level', 'knowledge_dimension', 'difficulty', 'tags']);
+  });
+
+  it('formats array choices, matching sets and attachments one per line', () => {
+    expect(formatSnapshotField('choices', ['Yes', 'No'])).toBe('A. Yes\nB. No');
+    expect(formatSnapshotField('choices', { premises: ['Dog', 'Cat'], responses: ['Bark', 'Meow'] })).toBe('1. Dog\n2. Cat\nA. Bark\nB. Meow');
+    expect(formatSnapshotField('choices', { tolerance: 5, tolerance_type: 'percent', unit: 'm' })).toBe('Numeric ± 5% m');
+    expect(formatSnapshotField('attachments', [{ path: 'u/graph.png', alt: 'A rising line', placement: 'B' }]))
+      .toBe('graph.png (choice B): A rising line');
+  });
+
+  it('marks removed and added words on each side', () => {
+    const { before, after } = diffWords('The quick brown fox', 'The slow brown fox jumps');
+    expect(before).toEqual([
+      { text: 'The ', change: 'same' },
+      { text: 'quick', change: 'removed' },
+      { text: ' brown fox', change: 'same' },
+    ]);
+    expect(after).toEqual([
+      { text: 'The ', change: 'same' },
+      { text: 'slow', change: 'added' },
+      { text: ' brown fox', change: 'same' },
+      { text: ' jumps', change: 'added' },
+    ]);
+  });
+
+  it('keeps both sides whole when one is empty', () => {
+    expect(diffWords('', 'new text')).toEqual({ before: [], after: [{ text: 'new text', change: 'added' }] });
+  });
+});
@@ -1,4 +1,6 @@
 // AI Classification Engine for Questions
+import { classifierText } from './questionMarkup';
+
 export type Classification = {
   bloom_level: 'remembering' | 'understanding' | 'applying' | 'analyzing' | 'evaluating' | 'creating';
   knowledge_dimension: 'factual' | 'conceptual' | 'procedural' | 'metacognitive';
@@ -125,6 +127,7 @@ const QUESTION_TYPE_INDICATORS = {
  * Classify a question using heuristic analysis
  */
 export function classifyQuestionHeuristic(questionText: string, topic?: string): Classification {
+  questionText = classifierText(questionText);
   const text = questionText.toLowerCase();
   
   // Determine Bloom's level
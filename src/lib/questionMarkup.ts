@@ -0,0 +1,321 @@
+/**
+ * Markup subset for question text and choices:
+ *
+ *   $x^2$  or  \(x^2\)         inline math (TeX subset)
+ *   $$\sum x$$  or  \[\sum x\]  display math
+ *   `x = 1`                     inline code
+ *   ```python                   fenced code block with optional language
+ *   ...
+ *   ```
+ *
+ * A "$" only opens math when the next character is not a space and only closes
+ * it when the character before is not a space and the one after is not a
+ * digit, so prices such as "$5 and $10" stay text. "\$" is a literal dollar.
+ *
+ * parseMarkup splits text into segments and parseTex turns math into a small
+ * tree; the print view, PDF, DOCX and LaTeX exports each render those.
+ */
+
+import { hasMarkup, parseMarkup } from '../../supabase/functions/_shared/questionMarkup';
+
+export { classifierText, hasMarkup, parseMarkup } from '../../supabase/functions/_shared/questionMarkup';
+export type { MarkupSegment } from '../../supabase/functions/_shared/questionMarkup';
+
+export type MathNode =
+  /** `roman` text is set upright: function names, \text{...} */
+  | { kind: 'text'; text: string; roman?: boolean }
+  | { kind: 'group'; children: MathNode[] }
+  | { kind: 'script'; base: MathNode[]; sup?: MathNode[]; sub?: MathNode[] }
+  | { kind: 'frac'; num: MathNode[]; den: MathNode[]; binom?: boolean }
+  | { kind: 'sqrt'; body: MathNode[]; index?: MathNode[] };
+
+// ---------------------------------------------------------------------------
+// TeX subset
+
+/** Unicode for a symbol command, and the ASCII written where fonts lack it (jsPDF) */
+const SYMBOLS: Record<string, [string, string]> = {
+  alpha: ['α', 'alpha'], beta: ['β', 'beta'], gamma: ['γ', 'gamma'], delta: ['δ', 'delta'],
+  epsilon: ['ε', 'epsilon'], varepsilon: ['ε', 'epsilon'], zeta: ['ζ', 'zeta'], eta: ['η', 'eta'],
+  theta: ['θ', 'theta'], iota: ['ι', 'iota'], kappa: ['κ', 'kappa'], lambda: ['λ', 'lambda'],
+  mu: ['μ', 'mu'], nu: ['ν', 'nu'], xi: ['ξ', 'xi'], pi: ['π', 'pi'], rho: ['ρ', 'rho'],
+  sigma: ['σ', 'sigma'], tau: ['τ', 'tau'], phi: ['φ', 'phi'], varphi: ['φ', 'phi'], chi: ['χ', 'chi'],
+  psi: ['ψ', 'psi'], omega: ['ω', 'omega'], Gamma: ['Γ', 'Gamma'], Delta: ['Δ', 'Delta'],
+  Theta: ['Θ', 'Theta'], Lambda: ['Λ', 'Lambda'], Pi: ['Π', 'Pi'], Sigma: ['Σ', 'Sigma'],
+  Phi: ['Φ', 'Phi'], Psi: ['Ψ', 'Psi'], Omega: ['Ω', 'Omega'],
+  le: ['≤', ' <= '], leq: ['≤', ' <= '], ge: ['≥', ' >= '], geq: ['≥', ' >= '], ne: ['≠', ' != '], neq: ['≠', ' != '],
+  approx: ['≈', ' ~= '], equiv: ['≡', ' == '], sim: ['∼', ' ~ '], cong: ['≅', ' =~ '], propto: ['∝', ' prop '],
+  times: ['×', ' x '], cdot: ['·', ' * '], div: ['÷', ' / '], pm: ['±', '+/-'], mp: ['∓', '-/+'], ast: ['∗', '*'],
+  circ: ['∘', ' o '], bullet: ['•', '*'], oplus: ['⊕', ' xor '], otimes: ['⊗', ' (x) '],
+  in: ['∈', ' in '], notin: ['∉', ' not in '], ni: ['∋', ' contains '], subset: ['⊂', ' subset '],
+  subseteq: ['⊆', ' subseteq '], supset: ['⊃', ' supset '], supseteq: ['⊇', ' supseteq '],
+  cup: ['∪', ' U '], cap: ['∩', ' n '], setminus: ['∖', ' \\ '], emptyset: ['∅', '{}'], varnothing: ['∅', '{}'],
+  forall: ['∀', 'for all '], exists: ['∃', 'exists '], nexists: ['∄', 'no '], neg: ['¬', '~'], lnot: ['¬', '~'],
+  land: ['∧', ' ^ '], wedge: ['∧', ' ^ '], lor: ['∨', ' v '], vee: ['∨', ' v '],
+  to: ['→', ' -> '], rightarrow: ['→', ' -> '], leftarrow: ['←', ' <- '], gets: ['←', ' <- '],
+  leftrightarrow: ['↔', ' <-> '], Rightarrow: ['⇒', ' => '], implies: ['⇒', ' => '], Leftarrow: ['⇐', ' <= '],
+  Leftrightarrow: ['⇔', ' <=> '], iff: ['⇔', ' <=> '], mapsto: ['↦', ' |-> '], uparrow: ['↑', '^'], downarrow: ['↓', 'v'],
+  infty: ['∞', 'inf'], partial: ['∂', 'd'], nabla: ['∇', 'nabla'], sum: ['∑', 'sum '], prod: ['∏', 'prod '],
+  int: ['∫', 'int '], oint: ['∮', 'oint '], angle: ['∠', 'angle '], triangle: ['△', 'triangle '], perp: ['⊥', ' _|_ '],
+  parallel: ['∥', ' || '], mid: ['∣', ' | '], nmid: ['∤', ' !| '], ldots: ['…', '...'], cdots: ['⋯', '...'], dots: ['…', '...'],
+  vdots: ['⋮', ':'], prime: ['′', "'"], degree: ['°', ' deg'], therefore: ['∴', 'therefore '], because: ['∵', 'because '],
+  top: ['⊤', 'T'], bot: ['⊥', ' _|_ '], models: ['⊨', ' |= '], vdash: ['⊢', ' |- '], aleph: ['ℵ', 'aleph'], ell: ['ℓ', 'l'],
+  lfloor: ['⌊', 'floor('], rfloor: ['⌋', ')'], lceil: ['⌈', 'ceil('], rceil: ['⌉', ')'], langle: ['⟨', '<'], rangle: ['⟩', '>'],
+  '{': ['{', '{'], '}': ['}', '}'], '|': ['‖', '||'], '%': ['%', '%'], '&': ['&', '&'], '#': ['#', '#'], _: ['_', '_'],
+};
+
+/** Set in upright type, as written */
+const FUNCTIONS = new Set([
+  'sin', 'cos', 'tan', 'cot', 'sec', 'csc', 'arcsin', 'arccos', 'arctan', 'sinh', 'cosh', 'tanh',
+  'log', 'ln', 'lg', 'exp', 'lim', 'max', 'min', 'sup', 'inf', 'gcd', 'lcm', 'det', 'deg', 'dim', 'mod', 'bmod', 'arg', 'ker',
+]);
+
+const SPACES: Record<string, string> = { ',': ' ', ':': ' ', ';': ' ', ' ': ' ', '!': '', quad: '  ', qquad: '    ', '\\': ' ' };
+
+/** Sizing and delimiter commands that print nothing themselves */
+const IGNORED = new Set(['left', 'right', 'big', 'Big', 'bigg', 'Bigg', 'bigl', 'bigr', 'Bigl', 'Bigr', 'displaystyle', 'textstyle', 'limits', 'nolimits']);
+
+const DOUBLE_STRUCK: Record<string, string> = { N: 'ℕ', Z: 'ℤ', Q: 'ℚ', R: 'ℝ', C: 'ℂ', P: 'ℙ' };
+
+type Token = { type: 'command'; name: string } | { type: 'char'; char: string } | { type: 'space' };
+
+function tokenize(tex: string): Token[] {
+  const tokens: Token[] = [];
+  for (let i = 0; i < tex.length; i++) {
+    if (tex[i] === '\\') {
+      const word = /^[a-zA-Z]+/.exec(tex.slice(i + 1));
+      if (word) {
+        tokens.push({ type: 'command', name: word[0] });
+        i += word[0].length;
+      } else if (i + 1 < tex.length) {
+        tokens.push({ type: 'command', name: tex[i + 1] });
+        i++;
+      }
+    } else if (/\s/.test(tex[i])) {
+      // Spacing is TeX's own in math; it only survives inside \text{...}
+      if (tokens[tokens.length - 1]?.type !== 'space') tokens.push({ type: 'space' });
+    } else {
+      tokens.push({ type: 'char', char: tex[i] });
+    }
+  }
+  return tokens;
+}
+
+class TexParser {
+  private pos = 0;
+  constructor(private tokens: Token[]) {}
+
+  parse(): MathNode[] {
+    return this.sequence(false);
+  }
+
+  private sequence(inGroup: boolean): MathNode[] {
+    const nodes: MathNode[] = [];
+    while (this.pos < this.tokens.length) {
+      const token = this.tokens[this.pos];
+      if (token.type === 'space') {
+        this.pos++;
+        continue;
+      }
+      if (token.type === 'char' && token.char === '}') {
+        if (inGroup) {
+          this.pos++;
+          return nodes;
+        }
+        this.pos++;
+        continue;
+      }
+      if (token.type === 'char' && (token.char === '^' || token.char === '_')) {
+        this.pos++;
+        const argument = this.argument();
+        const previous = nodes.pop();
+        const script = previous && previous.kind === 'script' && !(token.char === '^' ? previous.sup : previous.sub)
+          ? previous
+          : { kind: 'script' as const, base: previous ? [previous] : [] };
+        if (token.char === '^') script.sup = argument;
+        else script.sub = argument;
+        nodes.push(script);
+        continue;
+      }
+      const node = this.atom();
+      if (node) nodes.push(node);
+    }
+    return nodes;
+  }
+
+  /** One argument: a {group}, a command or a single character */
+  private argument(): MathNode[] {
+    this.skipSpace();
+    const token = this.tokens[this.pos];
+    if (!token) return [];
+    if (token.type === 'char' && token.char === '{') {
+      this.pos++;
+      return this.sequence(true);
+    }
+    const node = this.atom();
+    return node ? [node] : [];
+  }
+
+  private skipSpace() {
+    while (this.tokens[this.pos]?.type === 'space') this.pos++;
+  }
+
+  /** Text of a {group} as written, spaces included, for \text and friends */
+  private rawArgument(): string {
+    this.skipSpace();
+    const first = this.tokens[this.pos];
+    if (!first) return '';
+    if (first.type !== 'char' || first.char !== '{') {
+      this.pos++;
+      return first.type === 'char' ? first.char : first.type === 'command' ? first.name : '';
+    }
+    this.pos++;
+    let depth = 1;
+    let text = '';
+    while (this.pos < this.tokens.length) {
+      const token = this.tokens[this.pos++];
+      if (token.type === 'char' && token.char === '{') depth++;
+      if (token.type === 'char' && token.char === '}' && --depth === 0) break;
+      text += token.type === 'space' ? ' ' : token.type === 'char' ? token.char : SYMBOLS[token.name]?.[0] ?? token.name;
+    }
+    return text;
+  }
+
+  private atom(): MathNode | null {
+    const token = this.tokens[this.pos++];
+    if (token.type === 'space') return null;
+    if (token.type === 'char') {
+      if (token.char === '{') return { kind: 'group', children: this.sequence(true) };
+      return { kind: 'text', text: token.char === '~' ? ' ' : token.char };
+    }
+
+    const name = token.name;
+    if (name === 'frac' || name === 'dfrac' || name === 'tfrac') {
+      return { kind: 'frac', num: this.argument(), den: this.argument() };
+    }
+    if (name === 'binom' || name === 'dbinom' || name === 'tbinom' || name === 'choose') {
+      return { kind: 'frac', num: this.argument(), den: this.argument(), binom: true };
+    }
+    if (name === 'sqrt') {
+      let index: MathNode[] | undefined;
+      const next = this.tokens[this.pos];
+      if (next && next.type === 'char' && next.char === '[') {
+        this.pos++;
+        index = [];
+        while (this.pos < this.tokens.length) {
+          const t = this.tokens[this.pos];
+          if (t.type === 'char' && t.char === ']') {
+            this.pos++;
+            break;
+          }
+          if (t.type === 'space') {
+            this.pos++;
+            continue;
+          }
+          const node = this.atom();
+          if (node) index.push(node);
+        }
+      }
+      return { kind: 'sqrt', body: this.argument(), index };
+    }
+    if (name === 'text' || name === 'textrm' || name === 'mathrm' || name === 'operatorname' || name === 'textit' || name === 'textbf' || name === 'mathbf') {
+      return { kind: 'text', text: this.rawArgument(), roman: true };
+    }
+    if (name === 'mathbb') {
+      const letters = this.rawArgument();
+      return { kind: 'text', text: [...letters].map(c => DOUBLE_STRUCK[c] ?? c).join(''), roman: true };
+    }
+    if (name === 'mathit' || name === 'mathcal' || name === 'mathsf' || name === 'mathtt' || name === 'overline' || name === 'bar' || name === 'hat' || name === 'vec') {
+      return { kind: 'group', children: this.argument() };
+    }
+    if (IGNORED.has(name)) return null;
+    if (name in SPACES) return { kind: 'text', text: SPACES[name], roman: true };
+    if (FUNCTIONS.has(name)) return { kind: 'text', text: `${name} `, roman: true };
+    if (name in SYMBOLS) return { kind: 'text', text: SYMBOLS[name][0], roman: true };
+    return { kind: 'text', text: `\\${name}`, roman: true };
+  }
+}
+
+export function parseTex(tex: string): MathNode[] {
+  return new TexParser(tokenize(tex)).parse();
+}
+
+// ---------------------------------------------------------------------------
+// Plain text
+
+const SUPERSCRIPTS: Record<string, string> = {
+  0: '⁰', 1: '¹', 2: '²', 3: '³', 4: '⁴', 5: '⁵', 6: '⁶', 7: '⁷', 8: '⁸', 9: '⁹',
+  '+': '⁺', '-': '⁻', '=': '⁼', '(': '⁽', ')': '⁾', n: 'ⁿ', i: 'ⁱ', T: 'ᵀ', '′': '′',
+};
+const SUBSCRIPTS: Record<string, string> = {
+  0: '₀', 1: '₁', 2: '₂', 3: '₃', 4: '₄', 5: '₅', 6: '₆', 7: '₇', 8: '₈', 9: '₉',
+  '+': '₊', '-': '₋', '=': '₌', '(': '₍', ')': '₎', i: 'ᵢ', j: 'ⱼ', k: 'ₖ', n: 'ₙ', m: 'ₘ', x: 'ₓ',
+};
+
+const ASCII_FALLBACK: Record<string, string> = Object.fromEntries(
+  Object.values(SYMBOLS).map(([unicode, ascii]) => [unicode, ascii])
+);
+Object.assign(ASCII_FALLBACK, { ℕ: 'N', ℤ: 'Z', ℚ: 'Q', ℝ: 'R', ℂ: 'C', ℙ: 'P', '−': '-' });
+
+/** Written with a space either side in plain text */
+const SPACED = new Set(['=', '<', '>', '+', ...['le', 'ge', 'ne', 'approx', 'equiv', 'sim', 'cong', 'propto', 'times', 'pm', 'mp',
+  'in', 'notin', 'ni', 'subset', 'subseteq', 'supset', 'supseteq', 'cup', 'cap', 'setminus', 'land', 'lor',
+  'to', 'leftarrow', 'leftrightarrow', 'Rightarrow', 'Leftarrow', 'Leftrightarrow', 'mapsto', 'models', 'vdash'].map(name => SYMBOLS[name][0])]);
+
+function wrapped(text: string): string {
+  return text.length <= 1 || /^[\w.]+$/.test(text) ? text : `(${text})`;
+}
+
+function script(text: string, table: Record<string, string>, marker: string, ascii: boolean): string {
+  if (!text) return '';
+  if (!ascii && [...text].every(c => c in table)) return [...text].map(c => table[c]).join('');
+  return `${marker}${wrapped(text)}`;
+}
+
+function plainMath(node: MathNode, ascii: boolean): string {
+  const all = (nodes: MathNode[] | undefined) => (nodes ?? []).map(n => plainMath(n, ascii)).join('').trim();
+  switch (node.kind) {
+    case 'text':
+      if (node.text === ',') return ', ';
+      if (ascii) return [...node.text].map(c => ASCII_FALLBACK[c] ?? (SPACED.has(c) ? ` ${c} ` : c)).join('');
+      return SPACED.has(node.text) ? ` ${node.text} ` : node.text;
+    case 'group':
+      return all(node.children);
+    case 'script':
+      return all(node.base) + script(all(node.sub), SUBSCRIPTS, '_', ascii) + script(all(node.sup), SUPERSCRIPTS, '^', ascii);
+    case 'frac':
+      return node.binom ? `C(${all(node.num)}, ${all(node.den)})` : `${wrapped(all(node.num))}/${wrapped(all(node.den))}`;
+    case 'sqrt': {
+      const body = all(node.body);
+      const index = all(node.index);
+      if (ascii) return index ? `root(${index}, ${body})` : `sqrt(${wrapped(body)})`;
+      return `${index ? script(index, SUPERSCRIPTS, '', false) : ''}√${wrapped(body)}`;
+    }
+  }
+}
+
+/** Math as one line of text; `ascii` for fonts that only cover Latin-1 (jsPDF's built-in fonts) */
+export function texToText(tex: string, ascii = false): string {
+  return parseTex(tex)
+    .map(n => plainMath(n, ascii))
+    .join('')
+    .replace(/ {2,}/g, ' ')
+    .replace(/\( /g, '(')
+    .replace(/ \)/g, ')')
+    .trim();
+}
+
+/**
+ * Text with math written out and code kept as typed: the fallback for
+ * plain-text outputs such as jsPDF and CSV.
+ */
+export function markupToPlainText(text: string | null | undefined, ascii = false): string {
+  if (!hasMarkup(text)) return text ?? '';
+  return parseMarkup(text)
+    .map(segment => {
+      if (segment.type === 'text') return segment.text;
+      if (segment.type === 'math') return segment.display ? `\n${texToText(segment.tex, ascii)}\n` : texToText(segment.tex, ascii);
+      return segment.block ? `\n${segment.code}\n` : segment.code;
+    })
+    .join('')
+    .replace(/^\n+|\n+$/g, '');
+}
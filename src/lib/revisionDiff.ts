@@ -0,0 +1,164 @@
+/**
+ * Comparing question revisions: which snapshot fields changed, how to show
+ * each as text, and a word-level diff for the side-by-side view.
+ */
+import { normalizeChoices } from '@/services/psychometrics/testItems';
+import { isMatchingChoices, isNumericChoices } from '@/types/questionTypes';
+import { parseQuestionAttachments } from '@/types/attachments';
+
+/** The question fields a revision records; mirrors question_revision_snapshot() */
+export interface QuestionSnapshot {
+  question_text: string;
+  question_type: string;
+  choices: unknown;
+  correct_answer: string | null;
+  attachments: unknown;
+  stimulus_id: string | null;
+  topic: string;
+  bloom_level: string;
+  knowledge_dimension: string | null;
+  difficulty: string;
+  subject: string | null;
+  category: string | null;
+  specialization: string | null;
+  subject_code: string | null;
+  subject_description: string | null;
+  tags: string[] | null;
+}
+
+export type SnapshotField = keyof QuestionSnapshot;
+
+export const SNAPSHOT_FIELD_LABELS: Record<SnapshotField, string> = {
+  question_text: 'Question text',
+  question_type: 'Type',
+  choices: 'Choices',
+  correct_answer: 'Answer key',
+  attachments: 'Attachments',
+  stimulus_id: 'Shared stimulus',
+  topic: 'Topic',
+  bloom_level: "Bloom's level",
+  knowledge_dimension: 'Knowledge dimension',
+  difficulty: 'Difficulty',
+  subject: 'Subject',
+  category: 'Category',
+  specialization: 'Specialization',
+  subject_code: 'Subject code',
+  subject_description: 'Subject description',
+  tags: 'Tags',
+};
+
+export const SNAPSHOT_FIELDS = Object.keys(SNAPSHOT_FIELD_LABELS) as SnapshotField[];
+
+export type Classification = Pick<QuestionSnapshot, 'bloom_level' | 'knowledge_dimension' | 'difficulty'>;
+
+export function toSnapshot(value: unknown): QuestionSnapshot {
+  const source = value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+  return Object.fromEntries(SNAPSHOT_FIELDS.map(field => [field, source[field] ?? null])) as unknown as QuestionSnapshot;
+}
+
+/** One line per choice, premise or attachment, so the diff lines them up */
+export function formatSnapshotField(field: SnapshotField, value: unknown): string {
+  if (value === null || value === undefined) return '';
+  switch (field) {
+    case 'choices': {
+      if (isNumericChoices(value)) {
+        const tolerance = value.tolerance ? ` ± ${value.tolerance}${value.tolerance_type === 'percent' ? '%' : ''}` : '';
+        return `Numeric${tolerance}${value.unit ? ` ${value.unit}` : ''}`;
+      }
+      if (isMatchingChoices(value)) {
+        const premises = value.premises.map((text, i) => `${i + 1}. ${text}`);
+        const responses = Object.entries(normalizeChoices(value.responses)).map(([letter, text]) => `${letter}. ${text}`);
+        return [...premises, ...responses].join('\n');
+      }
+      return Object.entries(normalizeChoices(value)).map(([letter, text]) => `${letter}. ${text}`).join('\n');
+    }
+    case 'attachments':
+      return parseQuestionAttachments(value)
+        .map(a => `${a.name} (${a.placement === 'stem' ? 'stem' : `choice ${a.placement}`})${a.alt ? `: ${a.alt}` : ''}`)
+        .join('\n');
+    case 'tags':
+      return Array.isArray(value) ? value.join(', ') : String(value);
+    default:
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+}
+
+export interface FieldChange {
+  field: SnapshotField;
+  label: string;
+  before: string;
+  after: string;
+}
+
+/** Fields whose shown text differs between two snapshots, in snapshot order */
+export function diffSnapshots(before: QuestionSnapshot | null, after: QuestionSnapshot): FieldChange[] {
+  return SNAPSHOT_FIELDS.flatMap(field => {
+    const previous = before ? formatSnapshotField(field, before[field]) : '';
+    const next = formatSnapshotField(field, after[field]);
+    return previous === next ? [] : [{ field, label: SNAPSHOT_FIELD_LABELS[field], before: previous, after: next }];
+  });
+}
+
+export type DiffToken = { text: string; change: 'same' | 'removed' | 'added' };
+
+// Beyond this many tokens a side the LCS table gets large; the text is marked as replaced outright
+const MAX_DIFF_TOKENS = 1500;
+
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) ?? [];
+}
+
+function merge(tokens: DiffToken[]): DiffToken[] {
+  const merged: DiffToken[] = [];
+  for (const token of tokens) {
+    const last = merged[merged.length - 1];
+    if (last && last.change === token.change) last.text += token.text;
+    else merged.push({ ...token });
+  }
+  return merged;
+}
+
+/**
+ * Word-level diff of two texts: `before` marks what was removed and `after`
+ * what was added, each keeping the words the two share, for showing the old
+ * and new text side by side.
+ */
+export function diffWords(before: string, after: string): { before: DiffToken[]; after: DiffToken[] } {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  if (a.length > MAX_DIFF_TOKENS || b.length > MAX_DIFF_TOKENS) {
+    return {
+      before: before ? [{ text: before, change: before === after ? 'same' : 'removed' }] : [],
+      after: after ? [{ text: after, change: before === after ? 'same' : 'added' }] : [],
+    };
+  }
+
+  // lengths[i][j]: longest common subsequence of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Uint16Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const left: DiffToken[] = [];
+  const right: DiffToken[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      left.push({ text: a[i], change: 'same' });
+      right.push({ text: b[j], change: 'same' });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      left.push({ text: a[i++], change: 'removed' });
+    } else {
+      right.push({ text: b[j++], change: 'added' });
+    }
+  }
+  while (i < a.length) left.push({ text: a[i++], change: 'removed' });
+  while (j < b.length) right.push({ text: b[j++], change: 'added' });
+
+  return { before: merge(left), after: merge(right) };
+}
@@ -1,5 +1,6 @@
 import { Questions, Tests, ActivityLog } from '@/services/db';
 import { generateAIQuestion, generateAIQuestionsForNeed, analyzeTopicCoverage } from './classify';
+import { generateVersionSet, type AnswerKeyEntry, type VersionSet } from '@/services/testGeneration/versionEngine';
 
 export type TestNeed = {
   topic: string;
@@ -34,7 +35,7 @@ export type TestGenerationResult = {
 export type TestVersion = {
   version_label: string;
   questions: any[];
-  answer_key: Record<string, string>;
+  answer_key: Record<string, AnswerKeyEntry>;
   total_points: number;
 };
 
@@ -142,6 +143,12 @@ export async function fetchQuestionsForNeeds(needs: TestNeed[], approvedOnly: bo
     }
   }
 
+  // Stimulus groups are selected whole, so bring in the rest of every group found
+  const stimulusIds = [...new Set(candidatePool.map(q => q.stimulus_id).filter(Boolean))] as string[];
+  if (stimulusIds.length > 0) {
+    candidatePool.push(...await Questions.listForStimuli(stimulusIds, approvedOnly));
+  }
+
   // Remove duplicates
   const uniqueCandidates = Array.from(
     new Map(candidatePool.map(q => [q.id, q])).values()
@@ -202,100 +209,18 @@ export async function fetchQuestionsForNeeds(needs: TestNeed[], approvedOnly: bo
 }
 
 /**
- * Shuffle array using Fisher-Yates algorithm
- */
-export function shuffleArray<T>(array: T[]): T[] {
-  const shuffled = [...array];
-  for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-  }
-  return shuffled;
-}
-
-/**
- * Shuffle MCQ choices and update correct answer
+ * Generate multiple test versions with the shared versioning engine
  */
-export function shuffleChoices(question: any): { question: any; mapping: Record<string, string> } {
-  if (question.question_type !== 'mcq' && question.question_type !== 'multiple_choice' || !question.choices) {
-    return { question, mapping: {} };
-  }
-
-  const choiceEntries = Object.entries(question.choices);
-  const shuffledEntries = shuffleArray(choiceEntries);
-  
-  // Create new choice mapping
-  const newChoices: Record<string, string> = {};
-  const choiceKeys = ['A', 'B', 'C', 'D', 'E', 'F'];
-  const mapping: Record<string, string> = {};
-  
-  shuffledEntries.forEach(([originalKey, value], index) => {
-    if (index < choiceKeys.length) {
-      const newKey = choiceKeys[index];
-      newChoices[newKey] = value as string;
-      mapping[newKey] = originalKey; // Track original position
-    }
-  });
-
-  // Find new position of correct answer
-  const originalCorrectValue = question.choices[question.correct_answer];
-  const newCorrectKey = shuffledEntries.findIndex(([, value]) => value === originalCorrectValue);
-  const newCorrectAnswer = newCorrectKey !== -1 ? choiceKeys[newCorrectKey] : question.correct_answer;
-
-  return {
-    question: {
-      ...question,
-      choices: newChoices,
-      correct_answer: newCorrectAnswer
-    },
-    mapping
-  };
-}
-
-/**
- * Generate multiple test versions with shuffling
- */
-export async function generateTestVersions(
+export function generateTestVersions(
   config: TestConfiguration,
   questions: any[]
-): Promise<TestVersion[]> {
-  const versions = [];
-  const versionLabels = ['A', 'B', 'C', 'D', 'E'];
-
-  for (let i = 0; i < config.number_of_versions; i++) {
-    let versionQuestions = [...questions];
-
-    // Shuffle questions if enabled
-    if (config.shuffle_questions) {
-      versionQuestions = shuffleArray(versionQuestions);
-    }
-
-    // Shuffle answer choices if enabled
-    if (config.shuffle_choices) {
-      versionQuestions = versionQuestions.map(q => {
-        const { question } = shuffleChoices(q);
-        return question;
-      });
-    }
-
-    // Create answer key
-    const answerKey: Record<string, string> = {};
-    versionQuestions.forEach((question, index) => {
-      const questionNumber = (index + 1).toString();
-      if (question.correct_answer) {
-        answerKey[questionNumber] = question.correct_answer;
-      }
-    });
-
-    versions.push({
-      version_label: versionLabels[i],
-      questions: versionQuestions,
-      answer_key: answerKey,
-      total_points: questions.length * config.points_per_question
-    });
-  }
-
-  return versions;
+): VersionSet<any> {
+  return generateVersionSet(questions, {
+    numberOfVersions: config.number_of_versions,
+    shuffleQuestions: config.shuffle_questions,
+    shuffleChoices: config.shuffle_choices,
+    pointsPerQuestion: config.points_per_question
+  });
 }
 
 /**
@@ -303,53 +228,47 @@ export async function generateTestVersions(
  */
 export async function saveTestWithVersions(
   config: TestConfiguration,
-  versions: TestVersion[]
+  set: VersionSet<any>
 ): Promise<TestGenerationResult> {
-  // Import GeneratedTests service dynamically to avoid circular dependencies
-  const { GeneratedTests } = await import('@/services/db/generatedTests');
+  // Import services dynamically to avoid circular dependencies
+  const { TestVersions } = await import('@/services/db/testVersions');
   const { markQuestionsAsUsed } = await import('@/services/testAssembly/intelligentSelector');
-  
-  // Create separate database entries for each version
-  const versionConfigs = versions.map((version, index) => ({
-    title: config.title,
-    subject: config.subject,
-    course: config.course,
-    year_section: config.year_section,
-    exam_period: config.exam_period,
-    school_year: config.school_year,
-    instructions: config.instructions,
-    tos_id: config.tos_id,
-    time_limit: config.time_limit,
-    points_per_question: config.points_per_question,
-    items: version.questions,
-    answer_key: version.answer_key,
-    shuffle_questions: config.shuffle_questions,
-    shuffle_choices: config.shuffle_choices,
-    version_label: version.version_label,
-    version_number: index + 1
-  }));
 
-  // Save all versions to database
-  const savedVersions = await GeneratedTests.createMultipleVersions(versionConfigs);
+  const { parentId } = await TestVersions.save(
+    set,
+    {
+      title: config.title,
+      subject: config.subject,
+      course: config.course,
+      year_section: config.year_section,
+      exam_period: config.exam_period,
+      school_year: config.school_year,
+      instructions: config.instructions,
+      tos_id: config.tos_id,
+      time_limit: config.time_limit,
+      points_per_question: config.points_per_question
+    },
+    { shuffleQuestions: config.shuffle_questions, shuffleChoices: config.shuffle_choices }
+  );
 
   await ActivityLog.log('generate_test', 'generated_tests');
 
-  // Mark all questions as used across all versions
-  const allQuestionIds = new Set<string>();
-  versions.forEach(version => {
-    version.questions.forEach(q => {
-      if (q.id) allQuestionIds.add(q.id);
-    });
-  });
-
-  if (savedVersions[0]?.id && allQuestionIds.size > 0) {
-    await markQuestionsAsUsed(Array.from(allQuestionIds), savedVersions[0].id);
+  // Every version holds the same questions
+  const questionIds = set.canonical.map(q => q.id).filter(Boolean);
+  if (questionIds.length > 0) {
+    await markQuestionsAsUsed(questionIds, parentId);
   }
 
-  const generatedQuestions = versions[0]?.questions.filter(q => q.created_by === 'ai').length || 0;
-  
+  const versions: TestVersion[] = set.versions.map(v => ({
+    version_label: v.version_label,
+    questions: v.questions,
+    answer_key: v.answer_key,
+    total_points: v.total_points
+  }));
+  const generatedQuestions = set.canonical.filter(q => q.created_by === 'ai').length;
+
   return {
-    testId: savedVersions[0]?.id || '',
+    testId: parentId,
     versions,
     generatedQuestions,
     warnings: generatedQuestions > 0 ? [`Generated ${generatedQuestions} AI questions due to insufficient question bank`] : []
@@ -468,7 +387,7 @@ export async function generateTestFromTOS(
   }
   
   // Generate versions
-  const versions = await generateTestVersions(config, testQuestions);
+  const versions = generateTestVersions(config, testQuestions);
   
   // Save to database
   const saveResult = await saveTestWithVersions(config, versions);
@@ -0,0 +1,28 @@
+/**
+ * Characters XML 1.0 allows in text: tab, line feed, carriage return and
+ * everything from space up, apart from the U+FFFE/U+FFFF non-characters.
+ * Pasted question text often carries stray control characters that would
+ * make Word or an LMS reject the whole file.
+ */
+function isXmlChar(code: number): boolean {
+  if (code < 0x20) return code === 0x09 || code === 0x0a || code === 0x0d;
+  return code !== 0xfffe && code !== 0xffff;
+}
+
+/** Text with the characters XML cannot carry removed */
+export function stripInvalidXmlChars(text: string): string {
+  let out = '';
+  for (let i = 0; i < text.length; i++) {
+    if (isXmlChar(text.charCodeAt(i))) out += text[i];
+  }
+  return out;
+}
+
+/** Text safe for XML element content and double-quoted attributes */
+export function escapeXml(text: string): string {
+  return stripInvalidXmlChars(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
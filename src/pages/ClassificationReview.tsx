@@ -0,0 +1,70 @@
+import { useEffect, useState } from 'react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Badge } from '@/components/ui/badge';
+import { useUserRole } from '@/hooks/useUserRole';
+import { ClassificationReviews, ReviewStatus } from '@/services/db/classificationReviews';
+import { RatingQueue } from '@/components/classification/RatingQueue';
+import { ReviewAssignmentPanel } from '@/components/classification/ReviewAssignmentPanel';
+import { AdjudicationQueue } from '@/components/classification/AdjudicationQueue';
+import { RaterAgreementReport } from '@/components/classification/RaterAgreementReport';
+
+export default function ClassificationReview() {
+  const { isAdmin } = useUserRole();
+  const [counts, setCounts] = useState<Record<ReviewStatus, number> | null>(null);
+
+  const loadCounts = () => {
+    ClassificationReviews.statusCounts()
+      .then(setCounts)
+      .catch(error => console.error('Error loading review counts:', error));
+  };
+
+  useEffect(() => {
+    if (isAdmin) loadCounts();
+  }, [isAdmin]);
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Classification Review</h1>
+          <p className="text-muted-foreground">
+            Independent faculty ratings of Bloom's level and knowledge dimension, with adjudication of disagreements
+          </p>
+        </div>
+        {isAdmin && counts && (
+          <div className="flex gap-2">
+            <Badge variant="outline">{counts.rating} awaiting ratings</Badge>
+            <Badge variant="outline">{counts.adjudication} awaiting adjudication</Badge>
+            <Badge variant="secondary">{counts.resolved} resolved</Badge>
+          </div>
+        )}
+      </div>
+
+      <Tabs defaultValue="ratings" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="ratings">My Ratings</TabsTrigger>
+          {isAdmin && <TabsTrigger value="assign">Assign</TabsTrigger>}
+          {isAdmin && <TabsTrigger value="adjudication">Adjudication</TabsTrigger>}
+          {isAdmin && <TabsTrigger value="agreement">Agreement</TabsTrigger>}
+        </TabsList>
+
+        <TabsContent value="ratings">
+          <RatingQueue />
+        </TabsContent>
+        {isAdmin && (
+          <>
+            <TabsContent value="assign">
+              <ReviewAssignmentPanel onAssigned={loadCounts} />
+            </TabsContent>
+            <TabsContent value="adjudication">
+              <AdjudicationQueue onResolved={loadCounts} />
+            </TabsContent>
+            <TabsContent value="agreement">
+              <RaterAgreementReport />
+            </TabsContent>
+          </>
+        )}
+      </Tabs>
+    </div>
+  );
+}
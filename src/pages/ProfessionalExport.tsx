@@ -8,7 +8,9 @@ import { ExportWizard } from '@/export/ExportWizard';
 import { ReportGenerator } from '@/export/ReportGenerator';
 import { LaTeXPreview } from '@/export/LaTeXPreview';
 import { TemplateSelector, type TemplateConfig } from '@/export/TemplateSelector';
-import { generateLaTeX } from '@/services/export/latexGenerator';
+import { generateLaTeX, packageLaTeX } from '@/services/export/latexGenerator';
+import { QuestionMedia } from '@/services/db/questionMedia';
+import { parseQuestionAttachments } from '@/types/attachments';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 
@@ -92,17 +94,23 @@ export default function ProfessionalExport() {
     }
   };
 
-  const handleDownloadLaTeX = () => {
+  const handleDownloadLaTeX = async () => {
     if (!latexCode) {
       toast.error('Generate LaTeX first');
       return;
     }
 
-    const blob = new Blob([latexCode], { type: 'text/plain' });
+    // With images, the .tex goes in a zip beside the media/ folder it includes
+    const questions: Array<{ attachments?: unknown }> = selectedTest?.items || [];
+    const baseName = selectedTest?.title.replace(/\s+/g, '_') || 'test';
+    const media = await QuestionMedia.download(questions.flatMap(q => parseQuestionAttachments(q.attachments)));
+    const zip = packageLaTeX(latexCode, `${baseName}.tex`, questions, media);
+
+    const blob = zip ? new Blob([zip], { type: 'application/zip' }) : new Blob([latexCode], { type: 'text/plain' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `${selectedTest?.title.replace(/\s+/g, '_') || 'test'}.tex`;
+    a.download = zip ? `${baseName}.zip` : `${baseName}.tex`;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
@@ -12,6 +12,7 @@ import { TestGenerator } from "@/components/tos/TestGenerator"
 import { GeneratedTest, TestQuestion } from "@/components/tos/GeneratedTest"
 import { usePDFExport } from "@/hooks/usePDFExport"
 import { useToast } from "@/hooks/use-toast"
+import { BloomDistributionProfile, calculateCanonicalTOSMatrix, toLegacyFormat } from "@/utils/tosCalculator"
 
 export interface TOSConfig {
   subjectNo: string
@@ -28,6 +29,7 @@ export interface TOSConfig {
     name: string
     hours: number
   }>
+  bloomDistribution?: BloomDistributionProfile
 }
 
 export interface TOSData extends TOSConfig {
@@ -72,71 +74,25 @@ const TOS = () => {
   const [currentStep, setCurrentStep] = useState<'form' | 'matrix' | 'generating' | 'test'>('form')
 
   const handleGenerateTOS = (config: TOSConfig) => {
-    // Calculate total hours
-    const totalHours = config.topics.reduce((sum, topic) => sum + topic.hours, 0)
-    
-    // Calculate distribution
-    const distribution: TOSData['distribution'] = {}
-    let currentItemNumber = 1
-
-    config.topics.forEach(topic => {
-      // Calculate topic allocation based on hours
-      const topicPercentage = topic.hours / totalHours
-      const topicItems = Math.round(config.totalItems * topicPercentage)
-      
-      // Bloom's distribution percentages
-      const bloomDistribution = {
-        remembering: 0.15,  // 15%
-        understanding: 0.15, // 15%
-        applying: 0.20,     // 20%
-        analyzing: 0.20,    // 20%
-        evaluating: 0.15,   // 15%
-        creating: 0.15      // 15%
-      }
-
-      // Calculate items per Bloom level for this topic
-      const remembering = Math.round(topicItems * bloomDistribution.remembering)
-      const understanding = Math.round(topicItems * bloomDistribution.understanding)
-      const applying = Math.round(topicItems * bloomDistribution.applying)
-      const analyzing = Math.round(topicItems * bloomDistribution.analyzing)
-      const evaluating = Math.round(topicItems * bloomDistribution.evaluating)
-      const creating = Math.round(topicItems * bloomDistribution.creating)
-      
-      // Adjust for rounding discrepancies
-      const calculatedTotal = remembering + understanding + applying + analyzing + evaluating + creating
-      let adjustment = topicItems - calculatedTotal
-      
-      // Apply adjustment to the largest category
-      let adjustedCounts = { remembering, understanding, applying, analyzing, evaluating, creating }
-      if (adjustment !== 0) {
-        const largest = Object.entries(adjustedCounts).reduce((a, b) => adjustedCounts[a[0]] > adjustedCounts[b[0]] ? a : b)[0] as keyof typeof adjustedCounts
-        adjustedCounts[largest] += adjustment
-      }
-
-      // Generate item number arrays
-      const generateItemNumbers = (count: number) => {
-        const items = []
-        for (let i = 0; i < count; i++) {
-          items.push(currentItemNumber++)
-        }
-        return items
-      }
-
-      distribution[topic.name] = {
-        hours: topic.hours,
-        total: topicItems,
-        remembering: generateItemNumbers(adjustedCounts.remembering),
-        understanding: generateItemNumbers(adjustedCounts.understanding),
-        applying: generateItemNumbers(adjustedCounts.applying),
-        analyzing: generateItemNumbers(adjustedCounts.analyzing),
-        evaluating: generateItemNumbers(adjustedCounts.evaluating),
-        creating: generateItemNumbers(adjustedCounts.creating)
-      }
+    // Canonical calculator keeps item totals exact under any distribution profile
+    const canonical = calculateCanonicalTOSMatrix({
+      subject_no: config.subjectNo,
+      course: config.course,
+      description: config.description,
+      year_section: config.yearSection,
+      exam_period: config.examPeriod,
+      school_year: config.schoolYear,
+      total_items: config.totalItems,
+      prepared_by: config.preparedBy,
+      checked_by: config.checkedBy,
+      noted_by: config.notedBy,
+      topics: config.topics.map(t => ({ topic: t.name, hours: t.hours })),
+      profile: config.bloomDistribution
     })
 
     const generatedTOS: TOSData = {
       ...config,
-      distribution
+      distribution: toLegacyFormat(canonical).distribution
     }
 
     setTosData(generatedTOS)
@@ -7,6 +7,9 @@ import { Wand2, Package, CheckCircle, AlertTriangle } from 'lucide-react';
 import { TestAssemblyWizard } from '@/tests/TestAssemblyWizard';
 import { AssemblyPreview } from '@/tests/AssemblyPreview';
 import { ParallelFormViewer } from '@/tests/ParallelFormViewer';
+import { TestInformationCard } from '@/components/tests/TestInformationCard';
+import { EquivalenceReportCard } from '@/components/tests/EquivalenceReportCard';
+import type { FormEquivalenceReport } from '@/services/testAssembly/equivalentForms';
 import { useTestAssembly } from '@/hooks/useTestAssembly';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
@@ -16,6 +19,7 @@ export default function TestAssembly() {
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState('wizard');
   const [assemblyResults, setAssemblyResults] = useState<any[]>([]);
+  const [equivalenceReport, setEquivalenceReport] = useState<FormEquivalenceReport | null>(null);
   const [savedAssemblies, setSavedAssemblies] = useState<any[]>([]);
   
   const { getAssemblies } = useTestAssembly();
@@ -53,8 +57,9 @@ export default function TestAssembly() {
     }
   };
 
-  const handleTestGenerated = (results: any) => {
+  const handleTestGenerated = (results: any, equivalence?: FormEquivalenceReport) => {
     setAssemblyResults(Array.isArray(results) ? results : [results]);
+    setEquivalenceReport(equivalence ?? null);
     setActiveTab('preview');
     toast.success('Test assembly completed successfully!');
   };
@@ -187,6 +192,12 @@ export default function TestAssembly() {
                 {assemblyResults.length === 1 && (
                   <AssemblyPreview result={assemblyResults[0]} />
                 )}
+                {assemblyResults.length === 1 && assemblyResults[0].metrics?.testInformation && (
+                  <TestInformationCard
+                    selectedQuestions={assemblyResults[0].selectedQuestions}
+                    points={assemblyResults[0].metrics.testInformation}
+                  />
+                )}
 
                 {/* Multiple Parallel Forms */}
                 {assemblyResults.length > 1 && (
@@ -210,9 +221,21 @@ export default function TestAssembly() {
                       questions={questionPool}
                     />
 
+                    {equivalenceReport && (
+                      <EquivalenceReportCard key={equivalenceReport.generatedAt} report={equivalenceReport} />
+                    )}
+
                     {/* Summary of each form */}
                     {assemblyResults.map((result, idx) => (
-                      <AssemblyPreview key={idx} result={result} />
+                      <div key={idx} className="space-y-6">
+                        <AssemblyPreview result={result} />
+                        {result.metrics?.testInformation && (
+                          <TestInformationCard
+                            selectedQuestions={result.selectedQuestions}
+                            points={result.metrics.testInformation}
+                          />
+                        )}
+                      </div>
                     ))}
                   </div>
                 )}
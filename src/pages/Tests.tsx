@@ -8,6 +8,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { FileText, Plus, Users, Key, GitCompare, Share2, Eye } from "lucide-react";
 import { toast } from "sonner";
 import { GeneratedTests } from "@/services/db/generatedTests";
+import { TestVersions } from "@/services/db/testVersions";
 import { TestVersionComparison } from "@/components/TestVersionComparison";
 import { TestVersionAnswerKey } from "@/components/TestVersionAnswerKey";
 import { TestDistribution } from "@/components/tests/TestDistribution";
@@ -40,7 +41,8 @@ const Tests = () => {
 
   const getTestGroups = () => {
     const groups: Record<string, any[]> = {};
-    tests.forEach(test => {
+    // Parent rows hold the unshuffled questions of a version family, not a version
+    tests.filter(test => test.version_label !== 'Parent').forEach(test => {
       const key = `${test.title}-${test.subject}`;
       if (!groups[key]) groups[key] = [];
       groups[key].push(test);
@@ -48,9 +50,9 @@ const Tests = () => {
     return groups;
   };
 
-  const handleViewComparison = async (baseTitle: string, subject: string) => {
+  const handleViewComparison = async (testId: string) => {
     try {
-      const versions = await GeneratedTests.listByBaseTest(baseTitle, subject);
+      const { versions } = await TestVersions.loadFamily(testId);
       if (versions.length < 2) {
         toast.error('At least 2 versions required for comparison');
         return;
@@ -124,7 +126,7 @@ const Tests = () => {
     return (
       <div className="animate-slide-up">
         <TestDistribution
-          parentTestId={selectedTest.id}
+          parentTestId={selectedTest.parent_test_id ?? selectedTest.id}
           onBack={() => setViewMode('list')}
         />
       </div>
@@ -265,7 +267,7 @@ const Tests = () => {
                           <Button
                             variant="outline"
                             className="h-auto flex-col py-4"
-                            onClick={() => handleViewComparison(baseTest.title, baseTest.subject)}
+                            onClick={() => handleViewComparison(baseTest.id)}
                           >
                             <GitCompare className="h-5 w-5 mb-2" />
                             <span className="font-medium">Compare Versions</span>
@@ -10,7 +10,7 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Plus, Search, Edit, Trash2, Save, X, Filter, FileText, BarChart3 } from "lucide-react";
+import { Plus, Search, Edit, Trash2, Save, X, Filter, FileText, BarChart3, Activity, Download } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { Questions, type Question } from "@/services/db/questions";
@@ -22,6 +22,12 @@ import {
   getSubjectDescription,
 } from "@/config/questionBankFilters";
 import { QuestionBankReports } from "@/components/admin/QuestionBankReports";
+import { QuestionDetailDialog } from "@/components/questionbank/QuestionDetailDialog";
+import { IrtParameters } from "@/services/db/irtParameters";
+import { IRT_MODELS, type IrtModel } from "@/services/psychometrics/irt";
+import { EXPORT_FORMATS, downloadFile, exportQuestions, type ExportFormat } from "@/services/interchange";
+import { QuestionMedia } from "@/services/db/questionMedia";
+import { parseQuestionAttachments } from "@/types/attachments";
 
 const ALL_BLOOM_LEVELS = ["Remembering", "Understanding", "Applying", "Analyzing", "Evaluating", "Creating"];
 
@@ -59,9 +65,14 @@ function getAllSubjectCodes(specialization?: string): { code: string; descriptio
 export default function QuestionBankManager() {
   const [searchQuery, setSearchQuery] = useState("");
   const [editingId, setEditingId] = useState<string | null>(null);
+  const [changeReason, setChangeReason] = useState("");
   const [isCreating, setIsCreating] = useState(false);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [activeView, setActiveView] = useState<"questions" | "reports">("questions");
+  const [viewingQuestion, setViewingQuestion] = useState<Question | null>(null);
+  const [irtModel, setIrtModel] = useState<IrtModel>("2PL");
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("qti21");
   const queryClient = useQueryClient();
 
   // Cascading filters
@@ -216,8 +227,8 @@ export default function QuestionBankManager() {
   });
 
   const updateMutation = useMutation({
-    mutationFn: async ({ id, data }: { id: string; data: Partial<typeof formData> }) => {
-      return await Questions.update(id, data);
+    mutationFn: async ({ id, data, reason }: { id: string; data: Partial<typeof formData>; reason?: string }) => {
+      return await Questions.update(id, data, reason);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["admin-questions"] });
@@ -272,6 +283,7 @@ export default function QuestionBankManager() {
     setFormDifficultyDomain([]);
     setIsCreating(false);
     setEditingId(null);
+    setChangeReason("");
   };
 
   const handleEdit = (question: Question) => {
@@ -304,7 +316,7 @@ export default function QuestionBankManager() {
     if (formCustomCategory) finalData.category = formCustomCategory;
     if (formCustomSpecialization) finalData.specialization = formCustomSpecialization;
 
-    if (editingId) updateMutation.mutate({ id: editingId, data: finalData });
+    if (editingId) updateMutation.mutate({ id: editingId, data: finalData, reason: changeReason });
     else createMutation.mutate(finalData);
   };
 
@@ -321,6 +333,33 @@ export default function QuestionBankManager() {
     else setSelectedIds(new Set(filteredQuestions.map((q) => q.id)));
   };
 
+  /** Export the selected questions, or every question matching the filters */
+  const handleExport = async () => {
+    const chosen = selectedIds.size > 0
+      ? filteredQuestions.filter((q) => selectedIds.has(q.id))
+      : filteredQuestions;
+    if (chosen.length === 0) {
+      toast.error("No questions to export");
+      return;
+    }
+    const format = EXPORT_FORMATS[exportFormat];
+    // GIFT and Aiken are text only; the other formats embed the question images
+    const media = exportFormat === "gift" || exportFormat === "aiken"
+      ? {}
+      : await QuestionMedia.download(chosen.flatMap((q) => parseQuestionAttachments(q.attachments)));
+    const { data, exported, issues } = exportQuestions(exportFormat, chosen, media);
+    if (exported > 0) {
+      downloadFile(data, `question-bank-${exportFormat.replace("_", "-")}.${format.extension}`, format.mimeType);
+    }
+    if (issues.length > 0) {
+      toast.warning(`Exported ${exported} questions; ${issues.length} could not be written as ${format.label}`, {
+        description: issues.slice(0, 3).map((i) => `${i.item}: ${i.message}`).join("\n"),
+      });
+    } else {
+      toast.success(`Exported ${exported} questions as ${format.label}`);
+    }
+  };
+
   const clearFilters = () => {
     setFilterCategory("all");
     setFilterSpecialization("all");
@@ -355,6 +394,27 @@ export default function QuestionBankManager() {
     });
   };
 
+  const handleCalibrate = async () => {
+    setIsCalibrating(true);
+    try {
+      const { result } = await IrtParameters.calibrateBank({ model: irtModel });
+      if (result.items.length === 0) {
+        toast.info("Not enough scored responses to calibrate any question yet");
+      } else {
+        toast.success(
+          `${irtModel} calibration: ${result.items.length} questions from ${result.examineeCount} examinees` +
+            (result.excluded.length ? ` (${result.excluded.length} skipped for too few responses)` : "") +
+            (result.converged ? "" : ". Did not fully converge")
+        );
+      }
+    } catch (error) {
+      console.error("IRT calibration failed:", error);
+      toast.error("IRT calibration failed");
+    } finally {
+      setIsCalibrating(false);
+    }
+  };
+
   const renderQuestionCard = (q: Question) => {
     const qAny = q as any;
     const ts = formatTimestamp(q.created_at);
@@ -369,9 +429,13 @@ export default function QuestionBankManager() {
           className="mt-1"
         />
         <div className="flex-1 min-w-0">
-          <p className="text-sm font-medium text-foreground leading-relaxed">
+          <button
+            type="button"
+            className="text-left text-sm font-medium text-foreground leading-relaxed hover:underline"
+            onClick={() => setViewingQuestion(q)}
+          >
             {q.question_text}
-          </p>
+          </button>
           <div className="flex flex-wrap items-center gap-1 mt-2 text-xs text-muted-foreground">
             {qAny.category && (
               <Badge variant="outline" className="text-xs bg-primary/10 text-primary border-primary/20">
@@ -575,6 +639,17 @@ export default function QuestionBankManager() {
           </div>
         </div>
 
+        {editingId && (
+          <div className="space-y-2">
+            <Label>Reason for change</Label>
+            <Input
+              value={changeReason}
+              onChange={(e) => setChangeReason(e.target.value)}
+              placeholder="Kept in the question's revision history, e.g. fixed ambiguous distractor"
+            />
+          </div>
+        )}
+
         <div className="flex gap-2 pt-2">
           <Button onClick={handleSubmit}>
             <Save className="h-4 w-4 mr-2" />
@@ -596,12 +671,35 @@ export default function QuestionBankManager() {
           <h1 className="text-3xl font-bold">Question Bank Manager</h1>
           <p className="text-muted-foreground">Full CRUD access to master question repository</p>
         </div>
-        <Button onClick={() => setIsCreating(true)} size="lg">
-          <Plus className="h-4 w-4 mr-2" />
-          Add Question
-        </Button>
+        <div className="flex items-center gap-2">
+          <Select value={irtModel} onValueChange={(v) => setIrtModel(v as IrtModel)}>
+            <SelectTrigger className="w-[90px]"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {IRT_MODELS.map((m) => (
+                <SelectItem key={m} value={m}>{m}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="lg" onClick={handleCalibrate} disabled={isCalibrating}>
+            <Activity className="h-4 w-4 mr-2" />
+            {isCalibrating ? "Calibrating..." : "Calibrate IRT"}
+          </Button>
+          <Button onClick={() => setIsCreating(true)} size="lg">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Question
+          </Button>
+        </div>
       </div>
 
+      <QuestionDetailDialog
+        question={viewingQuestion}
+        onOpenChange={(open) => !open && setViewingQuestion(null)}
+        onRolledBack={(question) => {
+          setViewingQuestion(question);
+          queryClient.invalidateQueries({ queryKey: ["admin-questions"] });
+        }}
+      />
+
       {/* Create/Edit Form */}
       {(isCreating || editingId) && renderForm()}
 
@@ -756,6 +854,20 @@ export default function QuestionBankManager() {
                   />
                   <span>{filteredQuestions.length} questions</span>
                 </div>
+                <div className="flex items-center gap-2">
+                  <Select value={exportFormat} onValueChange={(v) => setExportFormat(v as ExportFormat)}>
+                    <SelectTrigger className="h-8 w-[130px]"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((f) => (
+                        <SelectItem key={f} value={f}>{EXPORT_FORMATS[f].label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="outline" size="sm" onClick={handleExport} disabled={filteredQuestions.length === 0}>
+                    <Download className="h-3 w-3 mr-1" />
+                    {selectedIds.size > 0 ? `Export ${selectedIds.size}` : "Export"}
+                  </Button>
+                </div>
               </div>
 
               {/* Questions Display */}
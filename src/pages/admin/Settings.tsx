@@ -9,6 +9,10 @@ import { Badge } from '@/components/ui/badge';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { Switch } from '@/components/ui/switch';
+import { DistributionProfilesManager } from '@/components/admin/DistributionProfilesManager';
+import { LlmProviderManager } from '@/components/admin/LlmProviderManager';
+import { ClassifierModelManager } from '@/components/admin/ClassifierModelManager';
+import { ClassificationBenchmarkManager } from '@/components/admin/ClassificationBenchmarkManager';
 import { Shield, Eye, EyeOff, CheckCircle, XCircle, Database, Bell } from 'lucide-react';
 
 function PasswordRequirement({ met, label }: { met: boolean; label: string }) {
@@ -365,6 +369,18 @@ export default function Settings() {
           </div>
         </CardContent>
       </Card>
+
+      {/* Bloom Distribution Profiles */}
+      <DistributionProfilesManager />
+
+      {/* Language model provider */}
+      <LlmProviderManager />
+
+      {/* Trained classification models */}
+      <ClassifierModelManager />
+
+      {/* Classifier agreement with expert raters */}
+      <ClassificationBenchmarkManager />
     </div>
   );
 }
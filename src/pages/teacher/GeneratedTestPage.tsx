@@ -4,8 +4,10 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { ArrowLeft, Printer, Download, Key } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ArrowLeft, Printer, Download, Key, ClipboardList, History } from "lucide-react";
 import { GeneratedTests } from "@/services/db/generatedTests";
+import { PinnedRevisionDrift, QuestionRevisions } from "@/services/db/questionRevisions";
 import { useToast } from "@/hooks/use-toast";
 import { usePDFExport } from "@/hooks/usePDFExport";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -83,6 +85,7 @@ export default function GeneratedTestPage() {
   const [test, setTest] = useState<any>(null);
   const [loading, setLoading] = useState(true);
   const [showAnswerKey, setShowAnswerKey] = useState(false);
+  const [revisionDrift, setRevisionDrift] = useState<PinnedRevisionDrift[]>([]);
   const { checkAndRepair, isRepairing } = useTestAutoRepair(testId);
 
   useEffect(() => {
@@ -101,6 +104,11 @@ export default function GeneratedTestPage() {
       }
       
       setTest(data);
+      if (data) {
+        QuestionRevisions.driftForTest(data.question_revisions)
+          .then(setRevisionDrift)
+          .catch(error => console.warn("Could not check question revisions:", error));
+      }
     } catch (error) {
       console.error("Error fetching test:", error);
       toast({
@@ -209,6 +217,10 @@ export default function GeneratedTestPage() {
           Back to My Tests
         </Button>
         <div className="flex gap-2">
+          <Button variant="outline" onClick={() => navigate(`/teacher/responses/${test.id}`)}>
+            <ClipboardList className="w-4 h-4 mr-2" />
+            Enter Responses
+          </Button>
           <Button variant="outline" onClick={() => setShowAnswerKey(!showAnswerKey)}>
             <Key className="w-4 h-4 mr-2" />
             {showAnswerKey ? "Hide" : "Show"} Answer Key
@@ -224,6 +236,17 @@ export default function GeneratedTestPage() {
         </div>
       </div>
 
+      {revisionDrift.length > 0 && (
+        <Alert>
+          <History className="h-4 w-4" />
+          <AlertDescription>
+            {revisionDrift.length === 1 ? "1 question has" : `${revisionDrift.length} questions have`} been
+            edited in the bank since this test was generated. This test still prints the revisions
+            students saw ({revisionDrift.map(d => `rev. ${d.pinned} → ${d.current}`).join(", ")}).
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Exam Paper */}
       <Card className="print:shadow-none print:border-none" id="test-content">
         <CardHeader className="text-center border-b print:border-black">
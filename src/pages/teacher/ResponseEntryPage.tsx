@@ -0,0 +1,365 @@
+import { ChangeEvent, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowLeft, FileUp, Save, UserPlus } from "lucide-react";
+import { toast } from "sonner";
+import { AnswerSheetGrid, SheetDraft } from "@/components/responses/AnswerSheetGrid";
+import { ScanImportPanel } from "@/components/responses/ScanImportPanel";
+import { ScanReviewQueue } from "@/components/responses/ScanReviewQueue";
+import { EquatingPanel } from "@/components/responses/EquatingPanel";
+import { GradesPanel } from "@/components/responses/GradesPanel";
+import { ItemResponses, ItemResponseRow, TestAssignmentRow } from "@/services/db/itemResponses";
+import {
+  VersionAnswerKey,
+  formatAnswerString,
+  parseAnswerCsv,
+  parseAnswerString,
+  scoreAnswerSheet,
+} from "@/services/scoring/answerSheet";
+
+function draftFromSaved(key: VersionAnswerKey | undefined, rows: ItemResponseRow[] = []): SheetDraft {
+  if (!key || rows.length === 0) return { answers: '', source: 'keyboard', dirty: false };
+  const byItem = new Map(rows.map(r => [r.item_number, r.response]));
+  return {
+    answers: formatAnswerString(key.items.map(item => byItem.get(item.itemNumber) ?? null)),
+    source: rows[0].source === 'csv' || rows[0].source === 'scan' ? rows[0].source : 'keyboard',
+    dirty: false,
+  };
+}
+
+export default function ResponseEntryPage() {
+  const { testId } = useParams<{ testId: string }>();
+  const navigate = useNavigate();
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [title, setTitle] = useState('Test');
+  const [keys, setKeys] = useState<VersionAnswerKey[]>([]);
+  const [assignments, setAssignments] = useState<TestAssignmentRow[]>([]);
+  const [responses, setResponses] = useState<Record<string, ItemResponseRow[]>>({});
+  const [reviewCount, setReviewCount] = useState(0);
+  const [reviewRefresh, setReviewRefresh] = useState(0);
+  const [gradesRefresh, setGradesRefresh] = useState(0);
+  const [drafts, setDrafts] = useState<Record<string, SheetDraft>>({});
+  const [newStudent, setNewStudent] = useState({ id: '', name: '', versionId: '' });
+
+  const keysByVersion = useMemo(
+    () => Object.fromEntries(keys.map(k => [k.testId, k])) as Record<string, VersionAnswerKey>,
+    [keys]
+  );
+
+  const load = useCallback(async (showSkeleton = true) => {
+    if (!testId) return;
+    if (showSkeleton) setLoading(true);
+    try {
+      const context = await ItemResponses.loadSheetContext(testId);
+      const byVersion = Object.fromEntries(context.keys.map(k => [k.testId, k]));
+      setTitle(context.title);
+      setKeys(context.keys);
+      setAssignments(context.assignments);
+      setResponses(context.responses);
+      setDrafts(Object.fromEntries(context.assignments.map(a => [
+        a.id,
+        draftFromSaved(byVersion[a.test_version_id], context.responses[a.id]),
+      ])));
+      setNewStudent(prev => ({ ...prev, versionId: prev.versionId || context.keys[0]?.testId || '' }));
+    } catch (error) {
+      console.error('Error loading answer sheets:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load answer sheets');
+    } finally {
+      setLoading(false);
+    }
+  }, [testId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleChange = (assignmentId: string, answers: string) => {
+    setDrafts(prev => ({ ...prev, [assignmentId]: { answers, source: 'keyboard', dirty: true } }));
+  };
+
+  const handleCsv = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const rows = parseAnswerCsv(await file.text());
+    const lookup = new Map<string, TestAssignmentRow>();
+    for (const a of assignments) {
+      lookup.set(a.id.toLowerCase(), a);
+      lookup.set(a.student_id.trim().toLowerCase(), a);
+      lookup.set(a.student_name.trim().toLowerCase(), a);
+    }
+
+    const unmatched: string[] = [];
+    const updates: Record<string, SheetDraft> = {};
+    for (const row of rows) {
+      const assignment = lookup.get(row.studentKey.toLowerCase());
+      if (assignment) {
+        updates[assignment.id] = { answers: row.answers, source: 'csv', dirty: true };
+      } else {
+        unmatched.push(row.studentKey);
+      }
+    }
+
+    setDrafts(prev => ({ ...prev, ...updates }));
+    const matched = Object.keys(updates).length;
+    if (unmatched.length > 0) {
+      toast.warning(`Loaded ${matched} answer strings; no assigned student for: ${unmatched.slice(0, 5).join(', ')}${unmatched.length > 5 ? '…' : ''}`);
+    } else {
+      toast.success(`Loaded ${matched} answer strings. Review and save.`);
+    }
+  };
+
+  const handleSave = async () => {
+    const pending = assignments.filter(a => drafts[a.id]?.dirty);
+    if (pending.length === 0) {
+      toast.info('No changes to save');
+      return;
+    }
+
+    setSaving(true);
+    let saved = 0;
+    try {
+      for (const assignment of pending) {
+        const key = keysByVersion[assignment.test_version_id];
+        if (!key) continue;
+        const draft = drafts[assignment.id];
+        const scored = scoreAnswerSheet(key, parseAnswerString(draft.answers, key.items.length));
+        await ItemResponses.saveSheet(assignment, scored, draft.source);
+        saved++;
+        setDrafts(prev => ({ ...prev, [assignment.id]: { ...prev[assignment.id], dirty: false } }));
+      }
+      toast.success(`Saved and scored ${saved} answer sheet${saved === 1 ? '' : 's'}`);
+      load(false);
+    } catch (error) {
+      console.error('Error saving answer sheets:', error);
+      toast.error(`Saved ${saved} of ${pending.length}: ${error instanceof Error ? error.message : 'save failed'}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddStudent = async () => {
+    if (!newStudent.id.trim() || !newStudent.name.trim() || !newStudent.versionId) {
+      toast.error('Student ID, name and version are required');
+      return;
+    }
+    try {
+      const assignment = await ItemResponses.addStudent(newStudent.versionId, newStudent.id.trim(), newStudent.name.trim());
+      setAssignments(prev => [...prev, assignment]);
+      setDrafts(prev => ({ ...prev, [assignment.id]: { answers: '', source: 'keyboard', dirty: false } }));
+      setNewStudent(prev => ({ ...prev, id: '', name: '' }));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to add student');
+    }
+  };
+
+  const dirtyCount = assignments.filter(a => drafts[a.id]?.dirty).length;
+
+  if (loading) {
+    return (
+      <div className="container mx-auto py-8 space-y-4">
+        <Skeleton className="h-10 w-64" />
+        <Skeleton className="h-96 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      <div className="flex items-center justify-between">
+        <Button variant="outline" onClick={() => navigate(`/teacher/generated-test/${testId}`)}>
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to Test
+        </Button>
+        <div className="flex gap-2">
+          <input ref={fileInput} type="file" accept=".csv,text/csv" className="hidden" onChange={handleCsv} />
+          <Button variant="outline" onClick={() => fileInput.current?.click()}>
+            <FileUp className="w-4 h-4 mr-2" />
+            Upload CSV
+          </Button>
+          <Button onClick={handleSave} disabled={saving || dirtyCount === 0}>
+            <Save className="w-4 h-4 mr-2" />
+            {saving ? 'Saving...' : `Save ${dirtyCount || ''} Sheet${dirtyCount === 1 ? '' : 's'}`}
+          </Button>
+        </div>
+      </div>
+
+      <Tabs defaultValue="entry" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="entry">Keyboard &amp; CSV</TabsTrigger>
+          <TabsTrigger value="scan">Scanned Sheets</TabsTrigger>
+          <TabsTrigger value="review">
+            Review
+            {reviewCount > 0 && <Badge variant="secondary" className="ml-2">{reviewCount}</Badge>}
+          </TabsTrigger>
+          <TabsTrigger value="equating">Equating</TabsTrigger>
+          <TabsTrigger value="grades">Grades</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="entry">
+          <Card>
+            <CardHeader>
+              <CardTitle>Answer Sheets</CardTitle>
+              <CardDescription>
+                Type each student's answers for the objective items in order, e.g. <code>ABDCT-F</code> (use - for blank).
+                Separate answers with commas when the test has fill-in-the-blank items. CSV files use one row per student:
+                <code> student_id,answers</code> or one column per item. Responses are scored against each student's version
+                and mapped back to the bank question.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {keys.length === 0 ? (
+                <p className="text-sm text-muted-foreground">This test has no objective items to score.</p>
+              ) : (
+                <>
+                  <div className="flex flex-wrap gap-2 text-sm text-muted-foreground">
+                    {keys.map(k => (
+                      <span key={k.testId}>
+                        Version {k.versionLabel ?? '—'}: {k.items.length} objective items
+                        {k.items.some(i => i.correctAnswer == null) && ' (some items have no key)'}
+                      </span>
+                    ))}
+                  </div>
+
+                  {assignments.length > 0 ? (
+                    <AnswerSheetGrid
+                      assignments={assignments}
+                      keysByVersion={keysByVersion}
+                      drafts={drafts}
+                      onChange={handleChange}
+                    />
+                  ) : (
+                    <p className="text-sm text-muted-foreground">No students are assigned to this test yet.</p>
+                  )}
+
+                  <div className="flex flex-col md:flex-row gap-2 md:items-end border-t pt-4">
+                    <Input
+                      placeholder="Student ID"
+                      value={newStudent.id}
+                      onChange={e => setNewStudent({ ...newStudent, id: e.target.value })}
+                    />
+                    <Input
+                      placeholder="Student name"
+                      value={newStudent.name}
+                      onChange={e => setNewStudent({ ...newStudent, name: e.target.value })}
+                    />
+                    <Select value={newStudent.versionId} onValueChange={versionId => setNewStudent({ ...newStudent, versionId })}>
+                      <SelectTrigger className="md:w-[160px]">
+                        <SelectValue placeholder="Version" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {keys.map(k => (
+                          <SelectItem key={k.testId} value={k.testId}>Version {k.versionLabel ?? '—'}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button variant="outline" onClick={handleAddStudent}>
+                      <UserPlus className="w-4 h-4 mr-2" />
+                      Add Student
+                    </Button>
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="scan">
+          <Card>
+            <CardHeader>
+              <CardTitle>Bubble Sheets</CardTitle>
+              <CardDescription>
+                Each version gets its own sheet with corner registration marks, a version code and a student-ID grid.
+                Scans are read in your browser; nothing is uploaded until you save.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ScanImportPanel
+                title={title}
+                keys={keys}
+                assignments={assignments}
+                responses={responses}
+                onSaved={() => {
+                  load(false);
+                  setReviewRefresh(n => n + 1);
+                }}
+              />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="review">
+          <Card>
+            <CardHeader>
+              <CardTitle>Review Queue</CardTitle>
+              <CardDescription>
+                Scanned items with faint, erased or multiple marks. Choose the intended answer to rescore the item.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ScanReviewQueue
+                keysByVersion={keysByVersion}
+                assignments={assignments}
+                refreshKey={reviewRefresh}
+                onResolved={setReviewCount}
+              />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="equating">
+          <Card>
+            <CardHeader>
+              <CardTitle>Score Equating</CardTitle>
+              <CardDescription>
+                Put every version on the scale of a reference form using the items they share. The reference can be
+                another version of this test or an earlier test with common questions, such as last term's final.
+                Mean/sigma assumes the versions went to comparable groups; linear and equipercentile equating adjust for
+                group differences through the common items, and IRT true-score equating uses calibrated item parameters.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <EquatingPanel keys={keys} onSaved={() => setGradesRefresh(n => n + 1)} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="grades">
+          <Card>
+            <CardHeader>
+              <CardTitle>Grades</CardTitle>
+              <CardDescription>
+                Raw scores from saved answer sheets, and equated scores for versions with an applied conversion table.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <GradesPanel
+                title={title}
+                keys={keys}
+                assignments={assignments}
+                responses={responses}
+                refreshKey={gradesRefresh}
+              />
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
@@ -6,7 +6,7 @@ import { ArrowLeft, Download, Printer } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { TOSMatrix } from "@/components/TOSMatrix";
-import { calculateCanonicalTOSMatrix, CanonicalTOSMatrix, BloomLevel } from "@/utils/tosCalculator";
+import { calculateCanonicalTOSMatrix, CanonicalTOSMatrix, BloomLevel, fromStoredBloomDistribution, toStoredBloomDistribution } from "@/utils/tosCalculator";
 
 export default function TOSViewPage() {
   const { tosId } = useParams<{ tosId: string }>();
@@ -73,6 +73,8 @@ export default function TOSViewPage() {
         (v: any) => v?.remembering && typeof v.remembering === 'object' && 'count' in v.remembering
       );
 
+      const profile = fromStoredBloomDistribution(data.bloom_distribution);
+
       if (hasCanonicalFormat && dist) {
         // Already canonical - reconstruct directly
         const bloomLevels: BloomLevel[] = ['remembering', 'understanding', 'applying', 'analyzing', 'evaluating', 'creating'];
@@ -99,6 +101,7 @@ export default function TOSViewPage() {
           topics,
           distribution: dist as any,
           bloom_totals,
+          bloom_distribution: toStoredBloomDistribution(profile),
           matrix: {} as any,
         };
         setTosMatrix(matrix);
@@ -116,6 +119,7 @@ export default function TOSViewPage() {
           checked_by: data.checked_by || "",
           noted_by: data.noted_by || "",
           topics,
+          profile,
         });
         // Override ID with the real DB id
         matrix.id = data.id;
@@ -1,12 +1,27 @@
 import { useMemo } from "react";
 import { ISODocumentHeader } from "@/components/print/ISODocumentHeader";
+import { MarkupText } from "@/components/MarkupText";
+import { AttachmentFigures } from "@/components/print/AttachmentFigures";
+import { StimulusBlock } from "@/components/print/StimulusBlock";
+import { useAttachmentUrls } from "@/hooks/useAttachmentUrls";
+import { useStimuli } from "@/hooks/useStimuli";
+import { attachmentsAt, parseQuestionAttachments } from "@/types/attachments";
+import {
+  NumericChoices,
+  answerLetters,
+  describeNumericKey,
+  formatLetters,
+  isLetterListKind,
+  isMatchingChoices,
+  isNumericChoices,
+} from "@/types/questionTypes";
 
 interface TestItem {
   question_text?: string;
   question?: string;
   question_type?: string;
   type?: string;
-  choices?: Record<string, string> | string[];
+  choices?: Record<string, string> | string[] | { premises: string[]; responses: string[] } | NumericChoices;
   options?: string[];
   correct_answer?: string | number;
   correctAnswer?: string | number;
@@ -14,6 +29,8 @@ interface TestItem {
   difficulty?: string;
   bloom_level?: string;
   topic?: string;
+  stimulus_id?: string | null;
+  attachments?: unknown;
 }
 
 interface ExamPrintTemplateProps {
@@ -37,6 +54,10 @@ interface GroupedQuestions {
   trueFalse: TestItem[];
   fillBlank: TestItem[];
   essay: TestItem[];
+  matching: TestItem[];
+  ordering: TestItem[];
+  multipleResponse: TestItem[];
+  numeric: TestItem[];
 }
 
 function groupAllQuestionTypes(items: TestItem[]): GroupedQuestions {
@@ -44,6 +65,10 @@ function groupAllQuestionTypes(items: TestItem[]): GroupedQuestions {
   const trueFalse: TestItem[] = [];
   const fillBlank: TestItem[] = [];
   const essay: TestItem[] = [];
+  const matching: TestItem[] = [];
+  const ordering: TestItem[] = [];
+  const multipleResponse: TestItem[] = [];
+  const numeric: TestItem[] = [];
 
   for (const item of items) {
     const type = (item.question_type || item.type || '').toLowerCase();
@@ -55,15 +80,25 @@ function groupAllQuestionTypes(items: TestItem[]): GroupedQuestions {
       fillBlank.push(item);
     } else if (type === 'essay') {
       essay.push(item);
+    } else if (type === 'matching') {
+      matching.push(item);
+    } else if (type === 'ordering') {
+      ordering.push(item);
+    } else if (type === 'multiple_response') {
+      multipleResponse.push(item);
+    } else if (type === 'numeric') {
+      numeric.push(item);
     }
   }
 
-  return { mcq, trueFalse, fillBlank, essay };
+  return { mcq, trueFalse, fillBlank, essay, matching, ordering, multipleResponse, numeric };
 }
 
 export function ExamPrintTemplate({ test, showAnswerKey = false }: ExamPrintTemplateProps) {
   const items: TestItem[] = Array.isArray(test.items) ? test.items : [];
   const groupedQuestions = useMemo(() => groupAllQuestionTypes(items), [items]);
+  const stimuli = useStimuli(items);
+  const attachmentUrls = useAttachmentUrls(items);
 
   const totalPoints = items.reduce((sum, item) => sum + (item.points || 1), 0);
 
@@ -82,6 +117,17 @@ export function ExamPrintTemplate({ test, showAnswerKey = false }: ExamPrintTemp
     testNumber++;
   }
 
+  if (groupedQuestions.multipleResponse.length > 0) {
+    sections.push({
+      label: `TEST ${toRoman(testNumber)}. MULTIPLE RESPONSE`,
+      title: 'MULTIPLE RESPONSE',
+      instruction: 'Direction: Select ALL the correct answers for each item. Write every letter that applies on the space provided.',
+      items: groupedQuestions.multipleResponse,
+      type: 'multiple_response',
+    });
+    testNumber++;
+  }
+
   if (groupedQuestions.trueFalse.length > 0) {
     sections.push({
       label: `TEST ${toRoman(testNumber)}. TRUE OR FALSE`,
@@ -104,6 +150,39 @@ export function ExamPrintTemplate({ test, showAnswerKey = false }: ExamPrintTemp
     testNumber++;
   }
 
+  if (groupedQuestions.matching.length > 0) {
+    sections.push({
+      label: `TEST ${toRoman(testNumber)}. MATCHING TYPE`,
+      title: 'MATCHING TYPE',
+      instruction: 'Direction: Match each item in Column A with the correct answer in Column B. Write the letter on the space provided.',
+      items: groupedQuestions.matching,
+      type: 'matching',
+    });
+    testNumber++;
+  }
+
+  if (groupedQuestions.ordering.length > 0) {
+    sections.push({
+      label: `TEST ${toRoman(testNumber)}. ORDERING`,
+      title: 'ORDERING',
+      instruction: 'Direction: Arrange the given items in the correct order. Write the letters in sequence on the space provided.',
+      items: groupedQuestions.ordering,
+      type: 'ordering',
+    });
+    testNumber++;
+  }
+
+  if (groupedQuestions.numeric.length > 0) {
+    sections.push({
+      label: `TEST ${toRoman(testNumber)}. PROBLEM SOLVING`,
+      title: 'PROBLEM SOLVING',
+      instruction: 'Direction: Solve each problem and write the numerical answer, with its unit, on the space provided.',
+      items: groupedQuestions.numeric,
+      type: 'numeric',
+    });
+    testNumber++;
+  }
+
   if (groupedQuestions.essay.length > 0) {
     sections.push({
       label: `TEST ${toRoman(testNumber)}. ESSAY`,
@@ -210,14 +289,22 @@ export function ExamPrintTemplate({ test, showAnswerKey = false }: ExamPrintTemp
             {/* Questions */}
             {section.items.map((item, qIdx) => {
               const num = startNum + qIdx;
+              // A shared passage is printed once, above the first question of its run
+              const stimulus = item.stimulus_id ? stimuli[item.stimulus_id] : undefined;
+              const opensRun = stimulus && section.items[qIdx - 1]?.stimulus_id !== item.stimulus_id;
+              let runLength = 1;
+              while (opensRun && section.items[qIdx + runLength]?.stimulus_id === item.stimulus_id) runLength++;
               return (
-                <ISOQuestion
-                  key={qIdx}
-                  item={item}
-                  number={num}
-                  type={section.type}
-                  showAnswer={showAnswerKey}
-                />
+                <div key={qIdx}>
+                  {opensRun && <StimulusBlock stimulus={stimulus} firstNumber={num} lastNumber={num + runLength - 1} />}
+                  <ISOQuestion
+                    item={item}
+                    number={num}
+                    type={section.type}
+                    showAnswer={showAnswerKey}
+                    attachmentUrls={attachmentUrls}
+                  />
+                </div>
               );
             })}
           </div>
@@ -248,7 +335,7 @@ export function ExamPrintTemplate({ test, showAnswerKey = false }: ExamPrintTemp
                 </h3>
                 <div style={{ display: 'grid', gridTemplateColumns: 'repeat(5, 1fr)', gap: '4pt' }}>
                   {section.items.map((item, qIdx) => {
-                    const answer = item.correct_answer ?? item.correctAnswer ?? '—';
+                    const answer = keyText(item, section.type);
                     return (
                       <div key={qIdx} style={{ display: 'flex', gap: '4pt', fontSize: '10pt', padding: '2pt 6pt', border: '1pt solid #ccc' }}>
                         <span style={{ fontWeight: 'bold' }}>{startNum + qIdx}.</span>
@@ -266,15 +353,26 @@ export function ExamPrintTemplate({ test, showAnswerKey = false }: ExamPrintTemp
   );
 }
 
-function ISOQuestion({ item, number, type, showAnswer }: { item: TestItem; number: number; type: string; showAnswer: boolean }) {
+function ISOQuestion({ item, number, type, showAnswer, attachmentUrls }: {
+  item: TestItem;
+  number: number;
+  type: string;
+  showAnswer: boolean;
+  attachmentUrls: Record<string, string>;
+}) {
   const questionText = item.question_text || item.question || '';
+  const attachments = parseQuestionAttachments(item.attachments);
+  const figures = (placement: string) => (
+    <AttachmentFigures attachments={attachmentsAt(attachments, placement)} urls={attachmentUrls} compact={placement !== 'stem'} />
+  );
   const correctAnswer = item.correct_answer ?? item.correctAnswer;
 
   const getMCQOptions = (): { key: string; text: string }[] => {
-    const choices = item.choices || item.options;
-    if (!choices) return [];
+    const raw = item.choices || item.options;
+    if (!raw || isNumericChoices(raw)) return [];
+    const choices = isMatchingChoices(raw) ? raw.responses : raw;
     if (typeof choices === 'object' && !Array.isArray(choices)) {
-      return ['A', 'B', 'C', 'D'].filter(key => (choices as Record<string, string>)[key]).map(key => ({ key, text: (choices as Record<string, string>)[key] }));
+      return Object.keys(choices).filter(key => /^[A-Z]$/.test(key) && choices[key]).sort().map(key => ({ key, text: choices[key] }));
     }
     if (Array.isArray(choices)) {
       return choices.map((text, idx) => ({ key: String.fromCharCode(65 + idx), text: String(text) }));
@@ -288,7 +386,7 @@ function ISOQuestion({ item, number, type, showAnswer }: { item: TestItem; numbe
       <div className="exam-question" style={{ marginBottom: '8pt', pageBreakInside: 'avoid' }}>
         <div style={{ display: 'flex', alignItems: 'flex-start', marginBottom: '2pt' }}>
           <span style={{ fontWeight: 'bold', minWidth: '20pt' }}>{number}.</span>
-          <span style={{ textAlign: 'justify', flex: 1 }}>{questionText}</span>
+          <span style={{ textAlign: 'justify', flex: 1 }}><MarkupText text={questionText} />{figures('stem')}</span>
         </div>
         {options.length > 0 && (
           <div style={{ marginLeft: '28pt', display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '0 16pt' }}>
@@ -296,7 +394,7 @@ function ISOQuestion({ item, number, type, showAnswer }: { item: TestItem; numbe
               <div key={opt.key} style={{ display: 'flex', gap: '4pt', fontSize: '10pt' }}>
                 <span>{opt.key.toLowerCase()}.</span>
                 <span style={showAnswer && (correctAnswer === opt.key || correctAnswer === opt.key.toLowerCase()) ? { fontWeight: 'bold', textDecoration: 'underline' } : {}}>
-                  {opt.text}
+                  <MarkupText text={opt.text} />{figures(opt.key)}
                 </span>
               </div>
             ))}
@@ -306,6 +404,88 @@ function ISOQuestion({ item, number, type, showAnswer }: { item: TestItem; numbe
     );
   }
 
+  if (type === 'ordering' || type === 'multiple_response') {
+    const options = getMCQOptions();
+    const keyLetters = answerLetters(correctAnswer);
+    return (
+      <div className="exam-question" style={{ marginBottom: '8pt', pageBreakInside: 'avoid' }}>
+        <div style={{ display: 'flex', alignItems: 'flex-start', marginBottom: '2pt', gap: '4pt' }}>
+          <span style={{ fontWeight: 'bold', minWidth: '20pt' }}>{number}.</span>
+          <span style={{ display: 'inline-block', width: '60pt', borderBottom: '1px solid #000', marginRight: '6pt' }}>
+            {showAnswer ? formatLetters(keyLetters) : ''}
+          </span>
+          <span style={{ textAlign: 'justify', flex: 1 }}>
+            <MarkupText text={questionText} />{figures('stem')}
+            {type === 'multiple_response' && <em style={{ fontSize: '9pt' }}> (Select all that apply.)</em>}
+          </span>
+        </div>
+        <div style={{ marginLeft: '28pt', fontSize: '10pt' }}>
+          {options.map((opt) => (
+            <div key={opt.key} style={{ display: 'flex', gap: '4pt' }}>
+              <span>{opt.key}.</span>
+              <span style={showAnswer && type === 'multiple_response' && keyLetters.includes(opt.key) ? { fontWeight: 'bold', textDecoration: 'underline' } : {}}>
+                <MarkupText text={opt.text} />{figures(opt.key)}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  if (type === 'matching') {
+    const premises = isMatchingChoices(item.choices) ? item.choices.premises : [];
+    const options = getMCQOptions();
+    const keyLetters = answerLetters(correctAnswer);
+    return (
+      <div className="exam-question" style={{ marginBottom: '10pt', pageBreakInside: 'avoid' }}>
+        <div style={{ display: 'flex', alignItems: 'flex-start', marginBottom: '4pt' }}>
+          <span style={{ fontWeight: 'bold', minWidth: '20pt' }}>{number}.</span>
+          <span style={{ textAlign: 'justify', flex: 1 }}><MarkupText text={questionText} />{figures('stem')}</span>
+        </div>
+        <div style={{ marginLeft: '20pt', display: 'grid', gridTemplateColumns: '3fr 2fr', gap: '0 18pt', fontSize: '10pt' }}>
+          <div>
+            <div style={{ fontWeight: 'bold', marginBottom: '2pt' }}>Column A</div>
+            {premises.map((premise, i) => (
+              <div key={i} style={{ display: 'flex', gap: '4pt', marginBottom: '2pt' }}>
+                <span style={{ display: 'inline-block', width: '28pt', borderBottom: '1px solid #000', textAlign: 'center' }}>
+                  {showAnswer ? keyLetters[i] ?? '' : ''}
+                </span>
+                <span>{i + 1}.</span>
+                <span style={{ flex: 1 }}><MarkupText text={premise} /></span>
+              </div>
+            ))}
+          </div>
+          <div>
+            <div style={{ fontWeight: 'bold', marginBottom: '2pt' }}>Column B</div>
+            {options.map((opt) => (
+              <div key={opt.key} style={{ display: 'flex', gap: '4pt', marginBottom: '2pt' }}>
+                <span>{opt.key}.</span>
+                <span style={{ flex: 1 }}><MarkupText text={opt.text} />{figures(opt.key)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (type === 'numeric') {
+    const spec = isNumericChoices(item.choices) ? item.choices : null;
+    return (
+      <div className="exam-question" style={{ marginBottom: '8pt', display: 'flex', alignItems: 'flex-start', gap: '4pt' }}>
+        <span style={{ fontWeight: 'bold', minWidth: '20pt' }}>{number}.</span>
+        <span style={{ textAlign: 'justify', flex: 1 }}><MarkupText text={questionText} />{figures('stem')}</span>
+        <span style={{ whiteSpace: 'nowrap' }}>
+          <span style={{ display: 'inline-block', minWidth: '70pt', borderBottom: '1px solid #000', textAlign: 'center' }}>
+            {showAnswer ? String(correctAnswer ?? '') : ''}
+          </span>
+          {spec?.unit && <span style={{ marginLeft: '3pt' }}>{spec.unit.split('|')[0]}</span>}
+        </span>
+      </div>
+    );
+  }
+
   if (type === 'true_false') {
     return (
       <div className="exam-question" style={{ marginBottom: '4pt', display: 'flex', alignItems: 'flex-start', gap: '4pt' }}>
@@ -313,7 +493,7 @@ function ISOQuestion({ item, number, type, showAnswer }: { item: TestItem; numbe
         <span style={{ display: 'inline-block', width: '60pt', borderBottom: '1px solid #000', marginRight: '6pt' }}>
           {showAnswer ? String(correctAnswer) : ''}
         </span>
-        <span style={{ textAlign: 'justify', flex: 1 }}>{questionText}</span>
+        <span style={{ textAlign: 'justify', flex: 1 }}><MarkupText text={questionText} />{figures('stem')}</span>
       </div>
     );
   }
@@ -322,7 +502,7 @@ function ISOQuestion({ item, number, type, showAnswer }: { item: TestItem; numbe
     return (
       <div className="exam-question" style={{ marginBottom: '4pt', display: 'flex', alignItems: 'flex-start', gap: '4pt' }}>
         <span style={{ fontWeight: 'bold', minWidth: '20pt' }}>{number}.</span>
-        <span style={{ textAlign: 'justify', flex: 1 }}>{questionText}</span>
+        <span style={{ textAlign: 'justify', flex: 1 }}><MarkupText text={questionText} />{figures('stem')}</span>
       </div>
     );
   }
@@ -332,7 +512,7 @@ function ISOQuestion({ item, number, type, showAnswer }: { item: TestItem; numbe
     <div className="exam-question" style={{ marginBottom: '12pt', pageBreakInside: 'avoid' }}>
       <div style={{ display: 'flex', alignItems: 'flex-start', gap: '4pt', marginBottom: '6pt' }}>
         <span style={{ fontWeight: 'bold', minWidth: '20pt' }}>{number}.</span>
-        <span style={{ textAlign: 'justify', flex: 1 }}>{questionText}</span>
+        <span style={{ textAlign: 'justify', flex: 1 }}><MarkupText text={questionText} />{figures('stem')}</span>
         <span style={{ fontSize: '9pt', whiteSpace: 'nowrap' }}>({item.points || 1} {(item.points || 1) === 1 ? 'point' : 'points'})</span>
       </div>
       {showAnswer && correctAnswer ? (
@@ -350,6 +530,15 @@ function ISOQuestion({ item, number, type, showAnswer }: { item: TestItem; numbe
   );
 }
 
+/** Answer key entry for an item as printed */
+function keyText(item: TestItem, type: string): string {
+  const answer = item.correct_answer ?? item.correctAnswer;
+  if (answer == null || String(answer).trim() === '') return '—';
+  if (isLetterListKind(type)) return formatLetters(answerLetters(answer));
+  if (type === 'numeric') return describeNumericKey(answer, isNumericChoices(item.choices) ? item.choices : null);
+  return String(answer);
+}
+
 function toRoman(num: number): string {
   const map: [number, string][] = [[10, 'X'], [9, 'IX'], [5, 'V'], [4, 'IV'], [1, 'I']];
   let result = '';
@@ -1,5 +1,20 @@
-import { useEffect, useState } from 'react';
+import { Fragment, useEffect, useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { MarkupText } from '@/components/MarkupText';
+import { AttachmentFigures } from '@/components/print/AttachmentFigures';
+import { StimulusBlock } from '@/components/print/StimulusBlock';
+import { useAttachmentUrls } from '@/hooks/useAttachmentUrls';
+import { useStimuli } from '@/hooks/useStimuli';
+import { attachmentsAt, parseQuestionAttachments } from '@/types/attachments';
+import {
+  NumericChoices,
+  answerLetters,
+  describeNumericKey,
+  formatLetters,
+  isLetterListKind,
+  isMatchingChoices,
+  isNumericChoices,
+} from '@/types/questionTypes';
 
 interface TestItem {
   id?: string | number;
@@ -8,7 +23,7 @@ interface TestItem {
   type?: string;
   question_type?: string;
   options?: string[];
-  choices?: Record<string, string> | string[];
+  choices?: Record<string, string> | string[] | { premises: string[]; responses: string[] } | NumericChoices;
   correctAnswer?: string | number;
   correct_answer?: string | number;
   points?: number;
@@ -19,6 +34,8 @@ interface TestItem {
   section_label?: string;
   section_title?: string;
   question_number?: number;
+  stimulus_id?: string | null;
+  attachments?: unknown;
 }
 
 interface ExamSection {
@@ -70,6 +87,8 @@ export function ExamPrintView({ test, showAnswerKey = true }: ExamPrintViewProps
   }, []);
 
   const items: TestItem[] = Array.isArray(test.items) ? test.items : [];
+  const stimuli = useStimuli(items);
+  const attachmentUrls = useAttachmentUrls(items);
 
   // Check if items have section info (multi-section format)
   const hasMultipleSections = items.some(q => q.section_id || q.section_label);
@@ -88,12 +107,14 @@ export function ExamPrintView({ test, showAnswerKey = true }: ExamPrintViewProps
   };
 
   const getMCQOptions = (item: TestItem): { key: string; text: string }[] => {
-    const choices = item.choices || item.options;
-    if (!choices) return [];
+    const raw = item.choices || item.options;
+    if (!raw || isNumericChoices(raw)) return [];
+    const choices = isMatchingChoices(raw) ? raw.responses : raw;
     
     if (typeof choices === 'object' && !Array.isArray(choices)) {
-      return ['A', 'B', 'C', 'D']
-        .filter(key => choices[key])
+      return Object.keys(choices)
+        .filter(key => /^[A-Z]$/.test(key) && choices[key])
+        .sort()
         .map(key => ({ key, text: choices[key] as string }));
     }
     
@@ -200,49 +221,122 @@ export function ExamPrintView({ test, showAnswerKey = true }: ExamPrintViewProps
             };
             
             const displayNumber = questionType === 'essay' ? getEssayNumberRange() : `${questionNum}`;
+
+            // A shared passage is printed once, above the first question of its run
+            const stimulus = item.stimulus_id ? stimuli[item.stimulus_id] : undefined;
+            const opensRun = stimulus && section.questions[qIdx - 1]?.stimulus_id !== item.stimulus_id;
+            let runEnd = qIdx;
+            while (opensRun && section.questions[runEnd + 1]?.stimulus_id === item.stimulus_id) runEnd++;
+            const attachments = parseQuestionAttachments(item.attachments);
             
             return (
-              <div key={item.id} className="exam-question">
-                <p>
-                  <span className="question-number">{displayNumber}.</span>
-                  <span className="question-text">{qText}</span>
-                </p>
-                
-                {questionType === 'mcq' && options.length > 0 && (
-                  <div className="mcq-options">
-                    {options.map((opt) => (
-                      <div key={opt.key} className="mcq-option">
-                        <span className="option-letter">{opt.key}.</span>
-                        <span className="option-text">{opt.text}</span>
-                      </div>
-                    ))}
-                  </div>
+              <Fragment key={item.id ?? qIdx}>
+                {opensRun && (
+                  <StimulusBlock
+                    stimulus={stimulus}
+                    firstNumber={questionNum}
+                    lastNumber={section.questions[runEnd].question_number || questionNum + runEnd - qIdx}
+                  />
                 )}
+                <div className="exam-question">
+                  <p>
+                    <span className="question-number">{displayNumber}.</span>
+                    <MarkupText className="question-text" text={qText} />
+                  </p>
+                  <AttachmentFigures attachments={attachmentsAt(attachments, 'stem')} urls={attachmentUrls} />
                 
-                {questionType === 'true_false' && (
-                  <div className="mcq-options">
-                    <div className="mcq-option">
-                      <span className="option-letter">___</span>
-                      <span className="option-text">True / False</span>
+                  {(questionType === 'mcq' || questionType === 'ordering' || questionType === 'multiple_response') && options.length > 0 && (
+                    <div className="mcq-options">
+                      {options.map((opt) => (
+                        <div key={opt.key} className="mcq-option">
+                          <span className="option-letter">{opt.key}.</span>
+                          <div className="option-text">
+                            <MarkupText text={opt.text} />
+                            <AttachmentFigures attachments={attachmentsAt(attachments, opt.key)} urls={attachmentUrls} compact />
+                          </div>
+                        </div>
+                      ))}
                     </div>
-                  </div>
-                )}
+                  )}
                 
-                {(questionType === 'fill_blank' || questionType === 'short_answer') && (
-                  <div style={{ marginLeft: '20pt', marginTop: '4pt' }}>
-                    <span>Answer: </span>
-                    <span className="short-answer-line"></span>
-                  </div>
-                )}
+                  {questionType === 'ordering' && (
+                    <div style={{ marginLeft: '20pt', marginTop: '4pt' }}>
+                      <span>Order: </span>
+                      {options.map(opt => (
+                        <span key={opt.key} className="answer-blank"></span>
+                      ))}
+                    </div>
+                  )}
+
+                  {questionType === 'multiple_response' && (
+                    <div style={{ marginLeft: '20pt', marginTop: '4pt' }}>
+                      <span>Letters of ALL correct answers: </span>
+                      <span className="short-answer-line"></span>
+                    </div>
+                  )}
+
+                  {questionType === 'matching' && isMatchingChoices(item.choices) && (
+                    <div className="matching-columns">
+                      <div>
+                        <h5>Column A</h5>
+                        {item.choices.premises.map((premise, i) => (
+                          <div key={i} className="mcq-option">
+                            <span className="answer-blank"></span>
+                            <span className="option-letter">{i + 1}.</span>
+                            <MarkupText className="option-text" text={premise} />
+                          </div>
+                        ))}
+                      </div>
+                      <div>
+                        <h5>Column B</h5>
+                        {options.map(opt => (
+                          <div key={opt.key} className="mcq-option">
+                            <span className="option-letter">{opt.key}.</span>
+                            <div className="option-text">
+                              <MarkupText text={opt.text} />
+                              <AttachmentFigures attachments={attachmentsAt(attachments, opt.key)} urls={attachmentUrls} compact />
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {questionType === 'numeric' && (
+                    <div style={{ marginLeft: '20pt', marginTop: '4pt' }}>
+                      <span>Answer: </span>
+                      <span className="short-answer-line"></span>
+                      {isNumericChoices(item.choices) && item.choices.unit && (
+                        <span style={{ marginLeft: '4pt' }}>{item.choices.unit.split('|')[0]}</span>
+                      )}
+                    </div>
+                  )}
+
+                  {questionType === 'true_false' && (
+                    <div className="mcq-options">
+                      <div className="mcq-option">
+                        <span className="option-letter">___</span>
+                        <span className="option-text">True / False</span>
+                      </div>
+                    </div>
+                  )}
                 
-                {questionType === 'essay' && (
-                  <div className="essay-answer-space">
-                    {[...Array(8)].map((_, i) => (
-                      <div key={i} className="essay-lines"></div>
-                    ))}
-                  </div>
-                )}
-              </div>
+                  {(questionType === 'fill_blank' || questionType === 'short_answer') && (
+                    <div style={{ marginLeft: '20pt', marginTop: '4pt' }}>
+                      <span>Answer: </span>
+                      <span className="short-answer-line"></span>
+                    </div>
+                  )}
+                
+                  {questionType === 'essay' && (
+                    <div className="essay-answer-space">
+                      {[...Array(8)].map((_, i) => (
+                        <div key={i} className="essay-lines"></div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </Fragment>
             );
           })}
         </div>
@@ -319,6 +413,10 @@ function groupByType(items: TestItem[]): SectionGroup[] {
     true_false: [] as TestItem[],
     short_answer: [] as TestItem[],
     essay: [] as TestItem[],
+    matching: [] as TestItem[],
+    ordering: [] as TestItem[],
+    multiple_response: [] as TestItem[],
+    numeric: [] as TestItem[],
     other: [] as TestItem[]
   };
 
@@ -328,12 +426,16 @@ function groupByType(items: TestItem[]): SectionGroup[] {
     else if (type === 'true_false') grouped.true_false.push(q);
     else if (type === 'fill_blank' || type === 'short_answer') grouped.short_answer.push(q);
     else if (type === 'essay') grouped.essay.push(q);
+    else if (type === 'matching') grouped.matching.push(q);
+    else if (type === 'ordering') grouped.ordering.push(q);
+    else if (type === 'multiple_response') grouped.multiple_response.push(q);
+    else if (type === 'numeric') grouped.numeric.push(q);
     else grouped.other.push(q);
   });
 
   const sections: SectionGroup[] = [];
   let questionNum = 1;
-  const sectionLabels = ['A', 'B', 'C', 'D', 'E'];
+  const sectionLabels = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H', 'I'];
   let sectionIdx = 0;
 
   const addSection = (
@@ -368,7 +470,11 @@ function groupByType(items: TestItem[]): SectionGroup[] {
 
   addSection(grouped.mcq, 'Multiple Choice', 'mcq', 'Choose the letter of the best answer.');
   addSection(grouped.true_false, 'True or False', 'true_false', 'Write TRUE if the statement is correct, FALSE if incorrect.');
+  addSection(grouped.multiple_response, 'Multiple Response', 'multiple_response', getSectionInstruction('multiple_response'));
+  addSection(grouped.matching, 'Matching Type', 'matching', getSectionInstruction('matching'));
+  addSection(grouped.ordering, 'Ordering', 'ordering', getSectionInstruction('ordering'));
   addSection(grouped.short_answer, 'Identification / Fill in the Blank', 'short_answer', 'Write the correct answer on the blank provided.');
+  addSection(grouped.numeric, 'Numeric Response', 'numeric', getSectionInstruction('numeric'));
   addSection(grouped.essay, 'Essay', 'essay', 'Answer the following questions in complete sentences.', 5);
   addSection(grouped.other, 'Other', 'other', 'Answer the following questions.');
 
@@ -382,6 +488,10 @@ function normalizeQuestionType(type: string): string {
   if (t === 'fill_blank' || t === 'fill_in_blank' || t === 'identification') return 'fill_blank';
   if (t === 'short_answer') return 'short_answer';
   if (t === 'essay') return 'essay';
+  if (t === 'matching' || t === 'matching_type') return 'matching';
+  if (t === 'ordering' || t === 'sequencing') return 'ordering';
+  if (t === 'multiple_response' || t === 'multi_select') return 'multiple_response';
+  if (t === 'numeric' || t === 'numerical') return 'numeric';
   return t || 'mcq';
 }
 
@@ -392,7 +502,11 @@ function getSectionInstruction(type: string): string {
     true_false: 'Write TRUE if the statement is correct, FALSE if incorrect.',
     fill_blank: 'Write the correct answer on the blank provided.',
     short_answer: 'Write the correct answer on the blank provided.',
-    essay: 'Answer the following questions in complete sentences.'
+    essay: 'Answer the following questions in complete sentences.',
+    matching: 'Match each item in Column A with its answer in Column B. Write the letter on the blank.',
+    ordering: 'Arrange the items in the correct order by writing their letters in sequence.',
+    multiple_response: 'Write the letters of ALL correct answers. Wrong letters cancel right ones.',
+    numeric: 'Solve each problem. Write the numerical answer with its unit.'
   };
   return instructions[normalized] || 'Answer the following questions.';
 }
@@ -430,6 +544,10 @@ function buildAnswerKey(sections: SectionGroup[]): { num: number; displayNum: st
         }
       } else if (qType === 'true_false') {
         answer = String(correctAnswer || '').toLowerCase() === 'true' ? 'True' : 'False';
+      } else if (isLetterListKind(qType)) {
+        answer = formatLetters(answerLetters(correctAnswer));
+      } else if (qType === 'numeric') {
+        answer = describeNumericKey(correctAnswer, isNumericChoices(question.choices) ? question.choices : null);
       } else if (correctAnswer) {
         answer = String(correctAnswer).substring(0, 30) + (String(correctAnswer).length > 30 ? '...' : '');
       } else {
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildVersionKey,
+  formatAnswerString,
+  isBubbled,
+  parseAnswerCsv,
+  parseAnswerString,
+  scoreAnswerSheet,
+} from '../scoring/answerSheet';
+
+// Version B of a test: questions reordered and MCQ choices shuffled
+const versionB = {
+  id: 'version-b',
+  version_label: 'B',
+  question_order: ['q2', 'q1', 'q3'],
+  items: [
+    { id: 'q2', question_type: 'true_false', question_text: 'The sun is a star.', correct_answer: 'True' },
+    { id: 'q1', question_type: 'Multiple Choice', question_text: 'Capital of France?', choices: { A: 'Rome', B: 'Paris', C: 'Berlin' } },
+    { id: 'q3', question_type: 'fill_blank', question_text: 'Powerhouse of the cell', correct_answer: 'mitochondria|mitochondrion' },
+    { id: 'q4', question_type: 'essay', question_text: 'Discuss.' },
+  ],
+  answer_key: {
+    '1': { question_id: 'q2', correct_answer: 'True' },
+    '2': { question_id: 'q1', correct_answer: 'B' },
+    '3': { question_id: 'q3', correct_answer: 'mitochondria|mitochondrion' },
+  },
+};
+
+// The bank question q1 lists Paris first
+const canonical = { q1: { A: 'Paris', B: 'Berlin', C: 'Rome' } };
+
+describe('Answer sheet scoring', () => {
+  const key = buildVersionKey(versionB, canonical);
+
+  it('builds a key of objective items using question_order', () => {
+    expect(key.items.map(i => [i.itemNumber, i.questionId, i.questionType, i.correctAnswer])).toEqual([
+      [1, 'q2', 'true_false', 'T'],
+      [2, 'q1', 'mcq', 'B'],
+      [3, 'q3', 'fill_blank', 'mitochondria|mitochondrion'],
+    ]);
+    expect(key.items[1].toCanonical).toEqual({ A: 'C', B: 'A', C: 'B' });
+  });
+
+  it('scores against the version key and maps choices back to the bank question', () => {
+    const scored = scoreAnswerSheet(key, parseAnswerString('true, b , Mitochondrion.', key.items.length));
+
+    expect(scored.map(s => s.isCorrect)).toEqual([true, true, true]);
+    expect(scored[1]).toMatchObject({ response: 'B', canonicalResponse: 'A', score: 1, maxScore: 1 });
+  });
+
+  it('treats blanks and wrong answers as zero', () => {
+    const scored = scoreAnswerSheet(key, parseAnswerString('F-', key.items.length));
+
+    expect(scored.map(s => s.response)).toEqual(['F', null, null]);
+    expect(scored.map(s => s.score)).toEqual([0, 0, 0]);
+    expect(scored.every(s => s.isCorrect === false)).toBe(true);
+  });
+
+  it('parses compact and delimited answer strings', () => {
+    expect(parseAnswerString('AB-D', 5)).toEqual(['A', 'B', null, 'D', null]);
+    expect(parseAnswerString('A, ,photosynthesis', 3)).toEqual(['A', null, 'photosynthesis']);
+    expect(formatAnswerString(['A', null, 'C'])).toBe('A-C');
+    expect(formatAnswerString(['A', null, 'cell wall'])).toBe('A,,cell wall');
+  });
+
+  it('reads answer strings from CSV with or without a header', () => {
+    expect(parseAnswerCsv('student_id,answers\n2024-001,ABCD\n2024-002,"A,B,cell"')).toEqual([
+      { studentKey: '2024-001', answers: 'ABCD' },
+      { studentKey: '2024-002', answers: 'A,B,cell' },
+    ]);
+    expect(parseAnswerCsv('Juan Cruz,A,T,cell')).toEqual([
+      { studentKey: 'Juan Cruz', answers: 'A,T,cell' },
+    ]);
+  });
+});
+
+describe('Structured question scoring', () => {
+  const test = {
+    id: 'structured',
+    items: [
+      {
+        id: 'm1', question_type: 'matching', question_text: 'Match the layers.', points: 3,
+        choices: { premises: ['Routing', 'Framing', 'Bits on the wire'], responses: ['Data link', 'Network', 'Physical', 'Session'] },
+        correct_answer: 'B,A,C',
+      },
+      { id: 'o1', question_type: 'ordering', question_text: 'Order the handshake.', points: 2, choices: { A: 'ACK', B: 'SYN', C: 'SYN-ACK' }, correct_answer: 'B, C, A' },
+      { id: 'r1', question_type: 'multiple_response', question_text: 'Which are transport protocols?', choices: { A: 'TCP', B: 'IP', C: 'UDP', D: 'ARP' }, correct_answer: 'A,C' },
+      { id: 'n1', question_type: 'numeric', question_text: 'g?', choices: { tolerance: 0.05, unit: 'm/s^2|m/s²' }, correct_answer: '9.81' },
+      { id: 'n2', question_type: 'numeric', question_text: 'Yield?', choices: { tolerance: 2, tolerance_type: 'percent' }, correct_answer: '250' },
+    ],
+    answer_key: {},
+  };
+  const key = buildVersionKey(test);
+  const score = (answers: string) => scoreAnswerSheet(key, parseAnswerString(answers, key.items.length));
+
+  it('keys letter lists and keeps the numeric tolerance', () => {
+    expect(key.items.map(i => [i.questionType, i.correctAnswer])).toEqual([
+      ['matching', 'B,A,C'],
+      ['ordering', 'B,C,A'],
+      ['multiple_response', 'A,C'],
+      ['numeric', '9.81'],
+      ['numeric', '250'],
+    ]);
+    expect(key.items[0].choices).toEqual({ A: 'Data link', B: 'Network', C: 'Physical', D: 'Session' });
+    expect(key.items[3].numeric).toEqual({ tolerance: 0.05, unit: 'm/s^2|m/s²' });
+  });
+
+  it('gives full credit for exact answers', () => {
+    const scored = score('BAC, b c a, CA, 9.79 m/s², 254');
+    expect(scored.map(s => s.score)).toEqual([3, 2, 1, 1, 1]);
+    expect(scored.every(s => s.isCorrect)).toBe(true);
+    expect(scored[0].response).toBe('BAC');
+  });
+
+  it('gives partial credit per position and right minus wrong', () => {
+    const scored = score('BCA, BAC, ABD, 9.81 km, 256');
+    expect(scored.map(s => s.score)).toEqual([1, 0.67, 0, 0, 0]);
+    expect(scored.map(s => s.isCorrect)).toEqual([false, false, false, false, false]);
+    expect(score('-, -, ACD, 9.7, -')[2].score).toBe(0.5);
+  });
+
+  it('bubbles only single-letter items on answer sheets', () => {
+    expect(key.items.map(i => isBubbled(i.questionType))).toEqual([false, false, false, false, false]);
+    expect(isBubbled('mcq')).toBe(true);
+  });
+});
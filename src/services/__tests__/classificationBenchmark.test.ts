@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { cohensKappa, reliabilityDiagram, scoreField } from '../quality/classificationMetrics';
+import { parseGoldStandard } from '../quality/goldStandard';
+
+describe('Classification metrics', () => {
+  it("computes Cohen's kappa with chance agreement removed", () => {
+    // 2x2 table [[20, 5], [10, 15]]: observed 0.7, chance 0.5
+    const pairs = [
+      ...Array(20).fill({ expected: 'a', predicted: 'a' }),
+      ...Array(5).fill({ expected: 'a', predicted: 'b' }),
+      ...Array(10).fill({ expected: 'b', predicted: 'a' }),
+      ...Array(15).fill({ expected: 'b', predicted: 'b' }),
+    ];
+    expect(cohensKappa(pairs)).toBeCloseTo(0.4, 10);
+    expect(cohensKappa([{ expected: 'a', predicted: 'a' }, { expected: 'a', predicted: 'a' }])).toBe(1);
+  });
+
+  it('bins confidence and weights the calibration gap by bin size', () => {
+    const { bins, ece } = reliabilityDiagram([
+      { confidence: 0.95, correct: true },
+      { confidence: 0.95, correct: false },
+      { confidence: 0.25, correct: false },
+      { confidence: 1, correct: true },
+    ]);
+    expect(bins).toHaveLength(10);
+    expect(bins[9].count).toBe(3);
+    expect(bins[9].accuracy).toBeCloseTo(2 / 3, 10);
+    expect(bins[2].count).toBe(1);
+    expect(bins[5].accuracy).toBeNull();
+    // Top bin: |0.667 - 0.967| * 3/4; low bin: |0 - 0.25| * 1/4
+    expect(ece).toBeCloseTo(0.3 * 0.75 + 0.25 * 0.25, 10);
+  });
+
+  it('averages F1 over the labels the experts used', () => {
+    const report = scoreField([
+      { expected: 'remembering', predicted: 'remembering', confidence: 0.9 },
+      { expected: 'remembering', predicted: 'creating', confidence: 0.6 },
+      { expected: 'applying', predicted: 'applying', confidence: 0.8 },
+    ]);
+    expect(report.accuracy).toBeCloseTo(2 / 3, 10);
+    expect(report.per_class.creating.support).toBe(0);
+    // remembering F1 2/3, applying F1 1; creating is left out of the average
+    expect(report.macro_f1).toBeCloseTo((2 / 3 + 1) / 2, 10);
+    expect(report.mean_confidence).toBeCloseTo(0.7667, 3);
+  });
+});
+
+describe('Gold-standard parsing', () => {
+  it('reads CSV with aliased columns and normalizes labels', () => {
+    const { items, skipped } = parseGoldStandard(
+      [
+        'Question,Type,Bloom,Knowledge Dimension,Difficulty',
+        '"Define osmosis.",MCQ,Remember,factual,easy',
+        '"Justify the dam.",essay,evaluation,,hard',
+        '"No labels here.",mcq,,,',
+        '"Bad label.",mcq,guessing,,',
+      ].join('\n')
+    );
+    expect(items).toEqual([
+      { question_text: 'Define osmosis.', question_type: 'mcq', topic: null, bloom_level: 'remembering', knowledge_dimension: 'factual', difficulty: 'easy' },
+      { question_text: 'Justify the dam.', question_type: 'essay', topic: null, bloom_level: 'evaluating', knowledge_dimension: null, difficulty: 'difficult' },
+    ]);
+    expect(skipped).toEqual([
+      { row: 3, reason: 'No expert labels' },
+      { row: 4, reason: 'Unrecognised bloom level' },
+    ]);
+  });
+
+  it('reads JSON arrays and { items } objects', () => {
+    const json = JSON.stringify({ items: [{ text: 'Solve 2x = 4.', type: 'short_answer', topic: 'Algebra', bloom_level: 'applying' }] });
+    const { items } = parseGoldStandard(json, 'gold.json');
+    expect(items[0]).toMatchObject({ question_type: 'short_answer', topic: 'Algebra', bloom_level: 'applying' });
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { testInformation } from '../psychometrics/irt';
+import { ConstraintSolver, Question, TestConstraint, tosCellCounts } from '../testAssembly/constraintSolver';
+
+const topics = ['Fractions', 'Decimals'];
+const levels = ['remembering', 'applying'];
+
+// Six items per TOS cell with difficulties spread over [-2, 2]
+const pool: Question[] = topics.flatMap((topic, t) =>
+  levels.flatMap((bloom_level, l) =>
+    Array.from({ length: 6 }, (_, i) => ({
+      id: `${t}-${l}-${i}`,
+      topic,
+      bloom_level,
+      difficulty: 'Average',
+      irt: { a: 1 + ((i + t + l) % 3) * 0.25, b: -2 + (4 * i) / 5 + 0.1 * l, c: 0 },
+    }))
+  )
+);
+
+const cells = {
+  Fractions: { remembering: 2, applying: 1 },
+  Decimals: { remembering: 1, applying: 2 },
+};
+
+const cellCount = (questions: Question[], topic: string, level: string) =>
+  questions.filter(q => q.topic === topic && q.bloom_level === level).length;
+
+describe('ConstraintSolver test information targets', () => {
+  it('maximizes information at the cut point within the TOS cell counts', () => {
+    const constraint: TestConstraint = {
+      type: 'test_information',
+      config: { cutPoints: [0.8], cells },
+      priority: 5,
+      isRequired: true,
+    };
+    const result = ConstraintSolver.assembleTest(pool, [constraint], 6);
+
+    expect(result.selectedQuestions).toHaveLength(6);
+    for (const [topic, counts] of Object.entries(cells)) {
+      for (const [level, count] of Object.entries(counts)) {
+        expect(cellCount(result.selectedQuestions, topic, level)).toBe(count);
+      }
+    }
+
+    // Best achievable: the most informative items of each cell
+    const best = Object.entries(cells).flatMap(([topic, counts]) =>
+      Object.entries(counts).flatMap(([level, count]) =>
+        pool
+          .filter(q => q.topic === topic && q.bloom_level === level)
+          .map(q => testInformation([q.irt!], 0.8))
+          .sort((a, b) => b - a)
+          .slice(0, count)
+      )
+    );
+    const [point] = result.metrics.testInformation!;
+    expect(point.information).toBeCloseTo(best.reduce((s, v) => s + v, 0), 6);
+    expect(point.standardError).toBeCloseTo(1 / Math.sqrt(point.information), 10);
+  });
+
+  it('meets standard-error targets at several cut points', () => {
+    const constraint: TestConstraint = {
+      type: 'test_information',
+      config: { cutPoints: [-1, 1], targetSE: [0.8, 0.8] },
+      priority: 5,
+      isRequired: true,
+    };
+    const result = ConstraintSolver.assembleTest(pool, [constraint], 10);
+
+    expect(result.constraintsSatisfied.test_information).toBe(true);
+    for (const point of result.metrics.testInformation!) {
+      expect(point.targetInformation).toBeCloseTo(1 / 0.64, 10);
+      expect(point.standardError).toBeLessThanOrEqual(0.8);
+    }
+  });
+
+  it('reads cell counts from a saved TOS matrix', () => {
+    expect(tosCellCounts({
+      Fractions: { remembering: { count: 2 }, applying: { count: 0 } },
+      Decimals: { applying: 3 },
+    })).toEqual({ Fractions: { remembering: 2 }, Decimals: { applying: 3 } });
+  });
+});
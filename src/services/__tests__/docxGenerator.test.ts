@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest';
+import { strFromU8, unzipSync } from 'fflate';
+import { FORMAT_2 } from '@/types/examFormats';
+import { calculateCanonicalTOSMatrix } from '@/utils/tosCalculator';
+import { generateTOSDocx, generateTestDocx } from '../export/docxGenerator';
+
+function parts(bytes: Uint8Array): Record<string, string> {
+  const files = unzipSync(bytes);
+  return Object.fromEntries(
+    Object.entries(files)
+      .filter(([name]) => name.endsWith('.xml') || name.endsWith('.rels'))
+      .map(([name, data]) => [name, strFromU8(data)])
+  );
+}
+
+function wellFormed(xml: string): boolean {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  return doc.getElementsByTagName('parsererror').length === 0;
+}
+
+/** Visible text of a part, paragraph by paragraph */
+function text(xml: string): string {
+  return xml
+    .replace(/<\/w:p>/g, '\n')
+    .replace(/<w:tab\/>/g, '\t')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<');
+}
+
+const items = [
+  { question_number: 1, question_type: 'mcq', question_text: 'Pick 2 < 3 & 4', choices: { A: 'yes', B: 'no', C: 'maybe', D: 'All of the above' }, correct_answer: 'B' },
+  { question_number: 2, question_type: 'mcq', question_text: 'Second', choices: ['red', 'green'], correct_answer: 'green' },
+  { question_number: 3, question_type: 'true_false', question_text: 'The sky is blue.', correct_answer: 'True' },
+  { question_number: 4, question_type: 'essay', question_text: 'Explain.', points: 5 },
+];
+
+const test = {
+  title: 'Midterm',
+  subject: 'IT 101',
+  exam_period: 'Midterm',
+  school_year: '2026 – 2027',
+  items,
+};
+
+describe('DOCX export', () => {
+  it('packages a well-formed Word document with a header on every page', () => {
+    const files = parts(generateTestDocx(test));
+    for (const name of ['[Content_Types].xml', '_rels/.rels', 'word/document.xml', 'word/styles.xml', 'word/header1.xml', 'word/_rels/document.xml.rels']) {
+      expect(files[name], name).toBeDefined();
+      expect(wellFormed(files[name]), name).toBe(true);
+    }
+    const header = text(files['word/header1.xml']);
+    expect(header).toContain('F-DOI-018');
+    expect(header).toContain('AGUSAN DEL SUR STATE COLLEGE');
+    expect(files['word/header1.xml']).toContain('NUMPAGES');
+  });
+
+  it('numbers items with lettered choices under type sections', () => {
+    const body = text(parts(generateTestDocx(test))['word/document.xml']);
+    expect(body).toContain('TEST I. MULTIPLE CHOICE');
+    expect(body).toContain('TEST II. TRUE OR FALSE');
+    expect(body).toContain('TEST III. ESSAY');
+    expect(body).toContain('1.\tPick 2 < 3 & 4');
+    expect(body).toContain('d.\tAll of the above');
+    expect(body).toContain('b.\tgreen');
+    expect(body.indexOf('1.\tPick')).toBeLessThan(body.indexOf('2.\tSecond'));
+    expect(body).toContain('(5 points)');
+    expect(body).not.toContain('ANSWER KEY');
+  });
+
+  it('takes section headings from the exam format', () => {
+    const body = text(parts(generateTestDocx(test, { format: FORMAT_2 }))['word/document.xml']);
+    expect(body).toContain('SECTION A. MULTIPLE CHOICE');
+    expect(body).toContain(FORMAT_2.sections[0].instruction);
+    expect(body).not.toContain('TEST I.');
+  });
+
+  it('puts the answer key on a new page and fills the signature table', () => {
+    const xml = parts(generateTestDocx(test, {
+      includeAnswerKey: true,
+      signatories: { prepared_by: 'Ana Cruz', checked_by: 'Ben Reyes', noted_by: 'Carla Diaz' },
+    }))['word/document.xml'];
+    const body = text(xml);
+
+    const key = body.slice(body.indexOf('ANSWER KEY'));
+    expect(xml).toMatch(/<w:pageBreakBefore\/>[^]*ANSWER KEY/);
+    expect(key).toContain('1. B');
+    expect(key).toContain('2. B');
+    expect(key).toContain('3. TRUE');
+    expect(key).toContain('4. —');
+    for (const label of ['Prepared by:', 'Checked and Reviewed by:', 'Noted by:', 'Ana Cruz', 'Ben Reyes', 'Carla Diaz']) {
+      expect(body).toContain(label);
+    }
+  });
+
+  it('writes the TOS on landscape pages with merged header cells', () => {
+    const tos = calculateCanonicalTOSMatrix({
+      subject_no: 'IT 101',
+      course: 'BSIT',
+      description: 'Intro to Computing',
+      year_section: '1-A',
+      exam_period: 'Midterm',
+      school_year: '2026 – 2027',
+      total_items: 20,
+      prepared_by: 'Ana Cruz',
+      checked_by: 'Ben Reyes',
+      noted_by: 'Carla Diaz',
+      topics: [{ topic: 'Hardware', hours: 3 }, { topic: 'Software', hours: 2 }],
+    });
+    const files = parts(generateTOSDocx(tos));
+    const xml = files['word/document.xml'];
+    expect(wellFormed(xml)).toBe(true);
+    expect(xml).toContain('w:orient="landscape"');
+    expect(xml).toContain('<w:vMerge w:val="restart"/>');
+    expect(xml).toContain('<w:gridSpan w:val="6"/>');
+    expect(text(files['word/header1.xml'])).toContain('F-DOI-009');
+
+    const body = text(xml);
+    expect(body).toContain('TWO-WAY TABLE OF SPECIFICATION');
+    expect(body).toContain('Hardware');
+    expect(body).toContain('Carla Diaz');
+    expect(body).toMatch(/TOTAL\n5\n100%/);
+  });
+
+  it('appends the TOS as a landscape section after the test', () => {
+    const tos = calculateCanonicalTOSMatrix({
+      subject_no: 'IT 101', course: 'BSIT', description: '', year_section: '', exam_period: '', school_year: '',
+      total_items: 4, prepared_by: '', noted_by: '', topics: [{ topic: 'Hardware', hours: 1 }],
+    });
+    const files = parts(generateTestDocx(test, { tos }));
+    expect(files['word/header2.xml']).toBeDefined();
+    expect(files['word/document.xml'].match(/<w:sectPr>/g)).toHaveLength(2);
+  });
+
+  it('writes math as Office Math and code in a monospace font', () => {
+    const xml = parts(generateTestDocx({
+      ...test,
+      items: [{ question_number: 1, question_type: 'mcq', question_text: 'Simplify $\\frac{x^2}{\\sqrt{y}}$ in `f(x)`:\n```\nif a < b:\n    return a\n```', choices: { A: '$x_1$', B: 'none' }, correct_answer: 'A' }],
+    }))['word/document.xml'];
+    expect(wellFormed(xml)).toBe(true);
+    expect(xml).toContain('<m:oMath><m:f><m:num><m:sSup><m:e><m:r><m:t xml:space="preserve">x</m:t></m:r></m:e>');
+    expect(xml).toContain('<m:degHide m:val="1"/>');
+    expect(xml).toContain('<m:sSub>');
+    expect(xml).toMatch(/Courier New.*f\(x\)/);
+    expect(text(xml)).toContain('    return a');
+    expect(xml).not.toContain('$');
+  });
+
+  it('embeds attached images with alt text and captions', () => {
+    const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+    const bytes = generateTestDocx({
+      ...test,
+      items: [{
+        question_number: 1, question_type: 'mcq', question_text: 'Which gate is shown?', choices: { A: 'AND', B: 'OR' }, correct_answer: 'A',
+        attachments: [
+          { id: 'a1', path: 'u/gate.png', name: 'gate.png', mime_type: 'image/png', alt: 'A two-input gate', caption: 'Figure 1', size: 'medium', placement: 'stem', width: 400, height: 200 },
+          { id: 'a2', path: 'u/plot.svg', name: 'plot.svg', mime_type: 'image/svg+xml', alt: 'Truth table plot', size: 'small', placement: 'B' },
+        ],
+      }],
+    }, { media: { 'u/gate.png': png } });
+    const files = parts(bytes);
+    const xml = files['word/document.xml'];
+    expect(wellFormed(xml)).toBe(true);
+    expect(xml).toContain('<a:blip r:embed="rIdMedia1"/>');
+    expect(xml).toContain('descr="A two-input gate"');
+    expect(files['word/_rels/document.xml.rels']).toContain('Target="media/image1.png"');
+    expect(Array.from(unzipSync(bytes)['word/media/image1.png'])).toEqual(Array.from(png));
+    const body = text(xml);
+    expect(body).toContain('Figure 1');
+    expect(body).toContain('[Figure: Truth table plot]');
+  });
+});
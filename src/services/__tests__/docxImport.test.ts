@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import { strToU8, zipSync } from 'fflate';
+import { importDocx, readDocxLines } from '../documentImport/docx';
+import { detectQuestions, lineText } from '../documentImport/structure';
+
+const W = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const R = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+type Run = string | { text: string; b?: boolean; u?: boolean; highlight?: boolean };
+
+function run(r: Run): string {
+  const { text, b, u, highlight } = typeof r === 'string' ? { text: r } : r;
+  const props = [b && '<w:b/>', u && '<w:u w:val="single"/>', highlight && '<w:highlight w:val="yellow"/>'].filter(Boolean).join('');
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}<w:t xml:space="preserve">${text}</w:t></w:r>`;
+}
+
+function p(...runs: Run[]): string {
+  return `<w:p>${runs.map(run).join('')}</w:p>`;
+}
+
+function numbered(numId: number, ilvl: number, ...runs: Run[]): string {
+  return `<w:p><w:pPr><w:numPr><w:ilvl w:val="${ilvl}"/><w:numId w:val="${numId}"/></w:numPr></w:pPr>${runs.map(run).join('')}</w:p>`;
+}
+
+// fflate checks for Uint8Array by realm, so copy strToU8 output into this realm's type
+const bytes = (text: string) => new Uint8Array(strToU8(text));
+
+function docx(body: string, extra: Record<string, Uint8Array> = {}): Uint8Array {
+  return zipSync({
+    '[Content_Types].xml': bytes('<?xml version="1.0"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"/>'),
+    'word/document.xml': bytes(`<?xml version="1.0" encoding="UTF-8"?><w:document xmlns:w="${W}" xmlns:r="${R}" xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"><w:body>${body}</w:body></w:document>`),
+    ...extra,
+  });
+}
+
+describe('Word import', () => {
+  it('reads numbered items, choices, marked answers and section headers', () => {
+    const file = docx([
+      p('Directions: Read each question carefully.'),
+      p({ text: 'Part I – Multiple Choice', b: true }),
+      p('1. Which layer routes packets?'),
+      p('a. Physical'),
+      p({ text: 'b. ' }, { text: 'Network', b: true }),
+      p('c. Transport'),
+      p('2. What does DNS resolve? a. Names  b. MAC addresses  c. Ports'),
+      p('Answer: A'),
+      p('3. Which is a private address?'),
+      p('*a. 10.0.0.1'),
+      p('b. 8.8.8.8'),
+      p('c. 1.1.1.1'),
+      p({ text: 'Part II – True or False', b: true }),
+      p('1. TCP is connectionless.'),
+      p('Answer: False'),
+      p('2. HTTPS uses port 443.'),
+      p({ text: 'Part III – Identification', b: true }),
+      p('1. The _____ protocol assigns addresses automatically.'),
+      p('Ans: DHCP'),
+    ].join(''));
+
+    const { questions, issues } = importDocx(file);
+    expect(issues).toEqual([]);
+    expect(questions.map(q => [q.question_type, q.correct_answer])).toEqual([
+      ['mcq', 'B'],
+      ['mcq', 'A'],
+      ['mcq', 'A'],
+      ['true_false', 'False'],
+      ['true_false', null],
+      ['short_answer', 'DHCP'],
+    ]);
+    expect(questions[0]).toMatchObject({
+      item_number: 1,
+      section: 'Part I – Multiple Choice',
+      question_text: 'Which layer routes packets?',
+      choices: { A: 'Physical', B: 'Network', C: 'Transport' },
+      parse_confidence: 1,
+    });
+    expect(questions[1].question_text).toBe('What does DNS resolve?');
+    expect(questions[1].choices).toEqual({ A: 'Names', B: 'MAC addresses', C: 'Ports' });
+    expect(questions[2].choices).toEqual({ A: '10.0.0.1', B: '8.8.8.8', C: '1.1.1.1' });
+    expect(questions[4].parse_confidence).toBeLessThan(1);
+    expect(questions[4].parse_notes).toContain('No true/false answer found');
+    expect(questions[5].section).toBe('Part III – Identification');
+  });
+
+  it('uses Word list numbering, underlines and the answer key at the end', () => {
+    const numbering = `<?xml version="1.0"?><w:numbering xmlns:w="${W}">
+      <w:abstractNum w:abstractNumId="0">
+        <w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="decimal"/><w:lvlText w:val="%1."/></w:lvl>
+        <w:lvl w:ilvl="1"><w:start w:val="1"/><w:numFmt w:val="lowerLetter"/><w:lvlText w:val="%2)"/></w:lvl>
+      </w:abstractNum>
+      <w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>
+    </w:numbering>`;
+    const file = docx([
+      numbered(1, 0, 'Largest planet?'),
+      numbered(1, 1, 'Mars'),
+      numbered(1, 1, { text: 'Jupiter', u: true }),
+      numbered(1, 1, 'Venus'),
+      numbered(1, 0, 'Closest star to Earth?'),
+      numbered(1, 1, 'Sirius'),
+      numbered(1, 1, 'The Sun'),
+      numbered(1, 1, 'Vega'),
+      p('Answer Key'),
+      p('1. B   2. B'),
+    ].join(''), { 'word/numbering.xml': bytes(numbering) });
+
+    expect(readDocxLines(file).map(lineText).slice(0, 3)).toEqual(['1. Largest planet?', 'a) Mars', 'b) Jupiter']);
+    const { questions } = importDocx(file);
+    expect(questions.map(q => q.correct_answer)).toEqual(['B', 'B']);
+    expect(questions.every(q => q.parse_confidence === 1)).toBe(true);
+  });
+
+  it('attaches embedded images to their question', () => {
+    const rels = `<?xml version="1.0"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+      <Relationship Id="rId7" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/image1.png"/>
+    </Relationships>`;
+    const drawing = '<w:p><w:r><w:drawing><a:graphic><a:graphicData><a:blip r:embed="rId7"/></a:graphicData></a:graphic></w:drawing></w:r></w:p>';
+    const file = docx(p('1. Name the part shown.') + drawing + p('Answer: Mitochondrion'), {
+      'word/_rels/document.xml.rels': bytes(rels),
+      'word/media/image1.png': new Uint8Array([137, 80, 78, 71]),
+    });
+
+    const [question] = importDocx(file).questions;
+    expect(question.images).toEqual([{ name: 'image1.png', src: 'data:image/png;base64,iVBORw==' }]);
+    expect(question).toMatchObject({ question_type: 'short_answer', correct_answer: 'Mitochondrion' });
+  });
+
+  it('lowers confidence for doubtful blocks', () => {
+    const { questions } = detectQuestions([
+      { runs: [{ text: '1. Pick one.' }] },
+      { runs: [{ text: 'a. ' }, { text: 'x', bold: true }] },
+      { runs: [{ text: 'b. ' }, { text: 'y', bold: true }] },
+      { runs: [{ text: 'c. z' }] },
+      { runs: [{ text: '4. Describe your approach.' }] },
+    ]);
+    expect(questions[0].correct_answer).toBeNull();
+    expect(questions[0].parse_notes).toEqual(['2 choices are marked as correct', 'No correct answer found']);
+    expect(questions[1].question_type).toBe('essay');
+    expect(questions[1].parse_notes[0]).toBe('Numbering jumps from 1 to 4');
+    expect(questions[1].parse_confidence).toBeLessThan(0.8);
+  });
+
+  it('reads a matching section into one matching question', () => {
+    const { questions } = detectQuestions([
+      { runs: [{ text: 'Test IV. Matching Type' }] },
+      { runs: [{ text: '1. HTTP ____' }] },
+      { runs: [{ text: 'Answer: C' }] },
+      { runs: [{ text: '2. SSH ____' }] },
+      { runs: [{ text: 'Answer: A' }] },
+      { runs: [{ text: 'a. 22' }] },
+      { runs: [{ text: 'b. 25' }] },
+      { runs: [{ text: 'c. 80' }] },
+    ]);
+    expect(questions).toHaveLength(1);
+    expect(questions[0]).toMatchObject({
+      question_type: 'matching',
+      choices: { premises: ['HTTP', 'SSH'], responses: ['22', '80', '25'] },
+      correct_answer: 'B,A',
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import seedrandom from 'seedrandom';
+import { irtProbability } from '../psychometrics/irt';
+import {
+  EquatingItem,
+  FormScores,
+  applyConversion,
+  equipercentileEquating,
+  irtTrueScoreEquating,
+  meanSigmaEquating,
+  tuckerLinearEquating,
+} from '../psychometrics/equating';
+
+const item = (b: number, a = 1): EquatingItem => ({ a, b, c: 0, points: 1 });
+
+// Ten anchor items and ten unique items; both forms are built from the same parameters
+const anchorItems = Array.from({ length: 10 }, (_, i) => item(-1.5 + (i * 3) / 9));
+const uniqueItems = Array.from({ length: 10 }, (_, i) => item(-1.2 + (i * 2.4) / 9, 1.2));
+
+function normal(rng: () => number): number {
+  return Math.sqrt(-2 * Math.log(1 - rng())) * Math.cos(2 * Math.PI * rng());
+}
+
+/** Simulated examinees of one group: total and anchor scores */
+function simulate(seed: string, abilityMean: number, n = 2000, shift = 0): FormScores {
+  const rng = seedrandom(seed);
+  const totals: number[] = [];
+  const anchors: number[] = [];
+  for (let i = 0; i < n; i++) {
+    const theta = abilityMean + normal(rng);
+    const anchor = anchorItems.filter(p => rng() < irtProbability(p, theta)).length;
+    const unique = uniqueItems.filter(p => rng() < irtProbability({ ...p, b: p.b + shift }, theta)).length;
+    anchors.push(anchor);
+    totals.push(anchor + unique);
+  }
+  return { totals, anchors, maxScore: 20 };
+}
+
+describe('score equating', () => {
+  it('shifts and stretches scores with mean/sigma equating', () => {
+    const reference: FormScores = { totals: [4, 6, 8, 10], anchors: [], maxScore: 12 };
+    const form: FormScores = { totals: [3, 4, 5, 6], anchors: [], maxScore: 12 };
+    const table = meanSigmaEquating(form, reference);
+
+    expect(table.design).toBe('equivalent_groups');
+    expect(table.rows).toHaveLength(13);
+    // Slope 2, so x = 4.5 (the mean) maps to 7 (the reference mean)
+    expect(table.rows[4].equated).toBeCloseTo(6, 10);
+    expect(table.rows[5].equated).toBeCloseTo(8, 10);
+    // Equated scores stay on the reference scale
+    expect(table.rows[12].equated).toBe(12);
+    expect(table.rows[0].equated).toBe(0);
+
+    // Tucker has nothing to regress on without an anchor and says so
+    const tucker = tuckerLinearEquating(form, reference);
+    expect(tucker.method).toBe('linear');
+    expect(tucker.design).toBe('equivalent_groups');
+    expect(tucker.rows).toEqual(table.rows);
+  });
+
+  it('separates group ability from form difficulty through the anchor', () => {
+    // Same form taken by a stronger group: only the anchor reveals the ability difference
+    const form = simulate('stronger', 0.6);
+    const reference = simulate('reference', 0);
+
+    const naive = meanSigmaEquating({ ...form, anchors: [] }, { ...reference, anchors: [] });
+    const chained = meanSigmaEquating(form, reference);
+    const tucker = tuckerLinearEquating(form, reference);
+    const frequency = equipercentileEquating(form, reference);
+    expect(naive.design).toBe('equivalent_groups');
+    expect(chained.design).toBe('anchor');
+    expect(tucker.design).toBe('anchor');
+    expect(frequency.design).toBe('anchor');
+
+    for (const raw of [6, 10, 14]) {
+      // Treating the groups as equivalent wrongly lowers the stronger group's scores
+      expect(naive.rows[raw].equated).toBeLessThan(raw - 1);
+      expect(Math.abs(chained.rows[raw].equated - raw)).toBeLessThan(0.6);
+      expect(Math.abs(tucker.rows[raw].equated - raw)).toBeLessThan(0.6);
+      expect(Math.abs(frequency.rows[raw].equated - raw)).toBeLessThan(0.6);
+    }
+  });
+
+  it('raises scores on a harder form taken by an equivalent group', () => {
+    const form = simulate('harder', 0, 2000, 0.8);
+    const reference = simulate('reference', 0);
+    const tucker = tuckerLinearEquating(form, reference);
+    const frequency = equipercentileEquating(form, reference);
+
+    for (const raw of [6, 10, 14]) {
+      expect(tucker.rows[raw].equated).toBeGreaterThan(raw + 0.5);
+      expect(frequency.rows[raw].equated).toBeGreaterThan(raw + 0.5);
+    }
+    // Conversions keep the order of raw scores
+    for (let raw = 1; raw < frequency.rows.length; raw++) {
+      expect(frequency.rows[raw].equated).toBeGreaterThanOrEqual(frequency.rows[raw - 1].equated);
+    }
+  });
+
+  it('maps identical score distributions onto themselves', () => {
+    const scores: FormScores = { totals: [1, 2, 2, 3, 3, 3, 4, 4, 5], anchors: [], maxScore: 6 };
+    const table = equipercentileEquating(scores, scores);
+    for (const raw of [1, 2, 3, 4, 5]) {
+      expect(table.rows[raw].equated).toBeCloseTo(raw, 2);
+    }
+  });
+
+  it('equates true scores through the test characteristic curves', () => {
+    const formItems = [...anchorItems, ...uniqueItems.map(p => ({ ...p, b: p.b + 0.8 }))];
+    const referenceItems = [...anchorItems, ...uniqueItems];
+
+    const identity = irtTrueScoreEquating({ form: referenceItems, reference: referenceItems });
+    identity.rows.forEach(row => expect(row.equated).toBeCloseTo(row.raw, 2));
+
+    const table = irtTrueScoreEquating({ form: formItems, reference: referenceItems });
+    expect(table.design).toBe('irt');
+    expect(table.rows[0].equated).toBe(0);
+    expect(table.rows[20].equated).toBe(20);
+    for (const raw of [5, 10, 15]) {
+      expect(table.rows[raw].equated).toBeGreaterThan(raw);
+    }
+  });
+
+  it('applies a conversion table to fractional raw scores', () => {
+    const rows = [{ raw: 0, equated: 0 }, { raw: 1, equated: 1.5 }, { raw: 2, equated: 2.5 }];
+    expect(applyConversion(rows, 1)).toBe(1.5);
+    expect(applyConversion(rows, 1.5)).toBe(2);
+    expect(applyConversion(rows, 5)).toBe(2.5);
+    expect(applyConversion([], 7)).toBe(7);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { assembleEquivalentForms, buildEquivalenceReport } from '../testAssembly/equivalentForms';
+import type { Question } from '../testAssembly/constraintSolver';
+
+// Two topics with 30 items each over a wide difficulty range
+const pool: Question[] = ['Fractions', 'Decimals'].flatMap((topic, t) =>
+  Array.from({ length: 30 }, (_, i) => ({
+    id: `${t}-${i}`,
+    topic,
+    bloom_level: i % 3 === 0 ? 'applying' : 'remembering',
+    difficulty: 'Average',
+    // Mix of calibrated items and items with only a historical p-value
+    ...(i % 2 === 0
+      ? { irt: { a: 0.7 + (i % 5) * 0.2, b: -2 + (i / 29) * 4, c: 0 } }
+      : { p_value: 0.2 + (i / 29) * 0.7 }),
+  }))
+);
+
+describe('equivalent parallel forms', () => {
+  it('matches forms on expected mean and SD within the TOS cells', () => {
+    const { forms, report } = assembleEquivalentForms(pool, { numForms: 3, formLength: 12, seed: 'test' });
+
+    expect(forms).toHaveLength(3);
+    const ids = forms.flatMap(f => f.questions.map(q => q.id));
+    expect(new Set(ids).size).toBe(36);
+
+    // Same cell counts on every form
+    const cells = (f: typeof forms[number]) =>
+      f.questions.map(q => `${q.topic}|${q.bloom_level}`).sort().join(',');
+    expect(cells(forms[1])).toBe(cells(forms[0]));
+    expect(cells(forms[2])).toBe(cells(forms[0]));
+
+    const means = report.forms.map(f => f.expectedMean);
+    expect(Math.max(...means) - Math.min(...means)).toBeLessThan(0.1);
+    report.forms.forEach(f => {
+      expect(f.scoreDistribution.reduce((a, b) => a + b, 0)).toBeCloseTo(1, 8);
+    });
+    expect(report.pairs).toHaveLength(3);
+    expect(report.equivalent).toBe(true);
+    expect(report.sources.irt + report.sources.p_value).toBe(36);
+  });
+
+  it('shares anchor items across forms', () => {
+    const { forms, report } = assembleEquivalentForms(pool, { numForms: 2, formLength: 12, anchorCount: 4, seed: 'anchors' });
+
+    expect(forms[0].anchorIds).toHaveLength(4);
+    expect(forms[1].anchorIds).toEqual(forms[0].anchorIds);
+    forms.forEach(f => {
+      expect(f.questions).toHaveLength(12);
+      expect(f.questions.slice(0, 4).map(q => q.id)).toEqual(f.anchorIds);
+    });
+    const unique0 = forms[0].questions.slice(4).map(q => q.id);
+    const unique1 = forms[1].questions.slice(4).map(q => q.id);
+    expect(unique0.filter(id => unique1.includes(id))).toEqual([]);
+    expect(report.forms[0].anchorCount).toBe(4);
+  });
+
+  it('reports cells the pool cannot fill', () => {
+    expect(() =>
+      assembleEquivalentForms(pool, { numForms: 2, formLength: 4, cells: { 'fractions|creating': 4 } })
+    ).toThrow(/Not enough questions/);
+  });
+});
+
+describe('equivalence report', () => {
+  it('rejects forms of clearly different difficulty', () => {
+    const easy = pool.filter(q => q.irt && q.irt.b < -0.5);
+    const hard = pool.filter(q => q.irt && q.irt.b > 0.5);
+    const report = buildEquivalenceReport([
+      { label: 'A', questions: easy, anchorIds: [] },
+      { label: 'B', questions: hard, anchorIds: [] },
+    ]);
+
+    expect(report.pairs[0].meanDifference).toBeGreaterThan(0.2);
+    expect(report.pairs[0].tost.equivalent).toBe(false);
+    expect(report.equivalent).toBe(false);
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect } from 'vitest';
+import {
+  InterchangeQuestion,
+  detectInterchangeFormat,
+  splitCategoryPath,
+} from '../interchange';
+import { parseAiken, toAiken } from '../interchange/aiken';
+import { parseGift, toGift } from '../interchange/gift';
+import { parseMoodleXml, toMoodleXml } from '../interchange/moodleXml';
+
+const placed = { category: 'Major', topic: 'Networking' };
+
+const bank: InterchangeQuestion[] = [
+  {
+    question_type: 'mcq',
+    question_text: 'Which layer routes packets? {not an answer}',
+    choices: { A: 'Physical', B: 'Network = layer 3', C: 'Transport' },
+    correct_answer: 'B',
+    tags: ['osi', 'layers'],
+    ...placed,
+  },
+  { question_type: 'true_false', question_text: 'TCP is connectionless.', correct_answer: 'False', ...placed },
+  { question_type: 'short_answer', question_text: 'The _____ protocol resolves names.', correct_answer: 'DNS|domain name system', ...placed },
+  { question_type: 'essay', question_text: 'Explain subnetting.\nGive an example.', correct_answer: 'Dividing a network', category: 'Major', topic: 'Subnets' },
+  {
+    question_type: 'matching',
+    question_text: 'Match each service to its port.',
+    choices: { premises: ['HTTP', 'SSH', 'DNS'], responses: ['22', '53', '80', '25'] },
+    correct_answer: 'C,A,B',
+    category: 'Major',
+    topic: 'Subnets',
+  },
+];
+
+describe('Moodle XML', () => {
+  it('round-trips every supported type with its category, topic and tags', () => {
+    const { text, exported, issues } = toMoodleXml(bank);
+    expect(exported).toBe(5);
+    expect(issues).toEqual([]);
+    expect(text.match(/<question type="category">/g)).toHaveLength(2);
+    expect(text).toContain('$course$/top/Major/Networking');
+
+    const back = parseMoodleXml(text);
+    expect(back.issues).toEqual([]);
+    expect(back.questions).toEqual(bank);
+  });
+
+  it('reads Moodle exports and reports what it cannot import', () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<quiz>
+  <question type="category"><category><text>$course$/top/Default for IT 101/Hardware</text></category></question>
+  <question type="multichoice">
+    <name><text>CPU</text></name>
+    <questiontext format="html"><text><![CDATA[<p>What does the <b>CPU</b> do?</p>]]></text></questiontext>
+    <single>true</single>
+    <answer fraction="0" format="html"><text><![CDATA[<p>Stores files</p>]]></text></answer>
+    <answer fraction="100" format="html"><text><![CDATA[<p>Executes instructions</p>]]></text></answer>
+    <tags><tag><text>hardware</text></tag></tags>
+  </question>
+  <question type="multichoice">
+    <name><text>Pick two</text></name>
+    <questiontext format="html"><text>Pick two</text></questiontext>
+    <single>false</single>
+    <answer fraction="50"><text>a</text></answer>
+    <answer fraction="50"><text>b</text></answer>
+  </question>
+  <question type="numerical">
+    <name><text>Pi</text></name>
+    <questiontext format="html"><text>Value of pi?</text></questiontext>
+  </question>
+</quiz>`;
+    const { questions, issues } = parseMoodleXml(xml);
+    expect(questions).toEqual([{
+      question_type: 'mcq',
+      question_text: 'What does the CPU do?',
+      choices: { A: 'Stores files', B: 'Executes instructions' },
+      correct_answer: 'B',
+      category: 'Default for IT 101',
+      topic: 'Hardware',
+      tags: ['hardware'],
+    }]);
+    expect(issues).toEqual([
+      { item: 'Pick two', message: 'Multiple-response multichoice questions are not supported', severity: 'error' },
+      { item: 'Pi', message: 'Unsupported Moodle question type "numerical"', severity: 'error' },
+    ]);
+  });
+
+  it('embeds images as base64 files and reads them back with their alt text', () => {
+    const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+    const { text } = toMoodleXml([{
+      ...bank[0],
+      attachments: [
+        { id: 'img1', path: 'u/topology.png', name: 'topology.png', mime_type: 'image/png', alt: 'Star topology', size: 'medium', placement: 'stem' },
+        { id: 'img2', path: 'u/router.png', name: 'router.png', mime_type: 'image/png', alt: 'Router icon', size: 'small', placement: 'C' },
+      ],
+    }], { 'u/topology.png': png, 'u/router.png': png });
+    expect(text).toContain('<img src="@@PLUGINFILE@@/topology-img1.png" alt="Star topology">');
+    expect(text).toContain('<file name="topology-img1.png" path="/" encoding="base64">iVBORw==</file>');
+
+    const { questions } = parseMoodleXml(text);
+    expect(questions[0].question_text).toBe(bank[0].question_text);
+    expect(questions[0].images).toEqual([
+      { name: 'topology-img1.png', src: 'data:image/png;base64,iVBORw==', alt: 'Star topology', placement: 'stem' },
+      { name: 'router-img2.png', src: 'data:image/png;base64,iVBORw==', alt: 'Router icon', placement: 'C' },
+    ]);
+  });
+});
+
+describe('GIFT', () => {
+  it('round-trips every supported type with its category, topic and tags', () => {
+    const { text, exported, issues } = toGift(bank);
+    expect(exported).toBe(5);
+    expect(issues).toEqual([]);
+    expect(text).toContain('$CATEGORY: $course$/top/Major/Networking');
+    expect(text).toContain('The {=DNS =domain name system} protocol resolves names.');
+    expect(text).toContain('\\{not an answer\\}');
+
+    const back = parseGift(text);
+    expect(back.issues).toEqual([]);
+    // GIFT essays have nowhere to keep a model answer
+    const { correct_answer: _modelAnswer, ...essay } = bank[3];
+    expect(back.questions).toEqual([...bank.slice(0, 3), essay, bank[4]]);
+  });
+
+  it('reads hand-written GIFT and reports unsupported questions', () => {
+    const gift = `// question: 1
+// [tag:geo]
+::Capital:: What is the capital of France? {
+  ~London#No
+  =Paris#Yes
+  ~Rome
+}
+
+::Sky::The sky is blue.{T}
+
+Grant is buried in {=Grant's tomb} in New York.
+
+::Pi:: What is pi? {#3.14:0.01}
+
+::Multi:: Pick the even numbers. {~%50%2 ~%50%4 ~%-100%3}`;
+
+    const { questions, issues } = parseGift(gift);
+    expect(questions).toEqual([
+      { question_type: 'mcq', question_text: 'What is the capital of France?', choices: { A: 'London', B: 'Paris', C: 'Rome' }, correct_answer: 'B', tags: ['geo'] },
+      { question_type: 'true_false', question_text: 'The sky is blue.', correct_answer: 'True' },
+      { question_type: 'short_answer', question_text: 'Grant is buried in _____ in New York.', correct_answer: "Grant's tomb" },
+    ]);
+    expect(issues).toEqual([
+      { item: 'Pi', message: 'Numeric questions are not supported', severity: 'error' },
+      { item: 'Multi', message: 'Multiple-response questions are not supported', severity: 'error' },
+    ]);
+  });
+});
+
+describe('Aiken', () => {
+  it('round-trips multiple-choice and true/false questions and lists the rest', () => {
+    const { text, exported, issues } = toAiken(bank);
+    expect(exported).toBe(2);
+    expect(issues.map(i => i.item)).toEqual(['Question 3', 'Question 4', 'Question 5']);
+    expect(text).toContain('ANSWER: B');
+
+    const back = parseAiken(text);
+    expect(back.issues).toEqual([]);
+    expect(back.questions).toEqual([
+      { question_type: 'mcq', question_text: bank[0].question_text, choices: bank[0].choices, correct_answer: 'B' },
+      { question_type: 'true_false', question_text: 'TCP is connectionless.', correct_answer: 'False' },
+    ]);
+  });
+
+  it('reports questions without an answer line', () => {
+    const { questions, issues } = parseAiken('First?\nA) yes\nB) no\nANSWER: A\nSecond?\nA. x\nB. y\n\nThird?\nA. p\nB. q\nANSWER: b');
+    expect(questions.map(q => q.correct_answer)).toEqual(['A', 'B']);
+    expect(issues).toEqual([{ item: 'Question 2', message: 'Question is missing its ANSWER line', severity: 'error' }]);
+  });
+});
+
+describe('interchange helpers', () => {
+  it('maps Moodle category paths to category and topic', () => {
+    expect(splitCategoryPath('$course$/top/Major/Networking/Routing')).toEqual({ category: 'Major', topic: 'Routing' });
+    expect(splitCategoryPath('$course$/top/TCP//IP')).toEqual({ topic: 'TCP/IP' });
+    expect(splitCategoryPath('$system$/top')).toEqual({});
+  });
+
+  it('tells the formats apart by name and content', () => {
+    expect(detectInterchangeFormat('bank.xml', '<?xml version="1.0"?><quiz></quiz>')).toBe('moodle_xml');
+    expect(detectInterchangeFormat('item.xml', '<assessmentItem/>')).toBe('qti');
+    expect(detectInterchangeFormat('bank.txt', 'Q?\nA. x\nB. y\nANSWER: A')).toBe('aiken');
+    expect(detectInterchangeFormat('bank.txt', 'Q? {T}')).toBe('gift');
+    expect(detectInterchangeFormat('notes.txt', 'nothing here')).toBeNull();
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import seedrandom from 'seedrandom';
+import {
+  DichotomousResponse,
+  calibrateIrt,
+  irtProbability,
+  itemInformation,
+  marginalReliability,
+  parseIrtParameterCsv,
+} from '../psychometrics/irt';
+
+const trueItems = [
+  { a: 0.8, b: -1.5, c: 0 },
+  { a: 1.2, b: -0.5, c: 0 },
+  { a: 1.0, b: 0, c: 0 },
+  { a: 1.6, b: 0.6, c: 0 },
+  { a: 0.9, b: 1.4, c: 0 },
+  { a: 1.3, b: -1.0, c: 0 },
+  { a: 1.1, b: 0.3, c: 0 },
+  { a: 0.7, b: 1.0, c: 0 },
+];
+
+function simulate(examinees: number, seed: string): DichotomousResponse[] {
+  const rng = seedrandom(seed);
+  const normal = () => Math.sqrt(-2 * Math.log(1 - rng())) * Math.cos(2 * Math.PI * rng());
+  const responses: DichotomousResponse[] = [];
+  for (let e = 0; e < examinees; e++) {
+    const theta = normal();
+    trueItems.forEach((item, i) => {
+      // Every third examinee skips the last item, as if it came from another form
+      if (i === trueItems.length - 1 && e % 3 === 0) return;
+      responses.push({ examineeId: `e${e}`, itemId: `q${i}`, correct: rng() < irtProbability(item, theta) });
+    });
+  }
+  return responses;
+}
+
+describe('IRT calibration', () => {
+  it('computes probability and information on the logistic metric', () => {
+    const item = { a: 1.5, b: 0.5, c: 0.2 };
+    expect(irtProbability(item, 0.5)).toBeCloseTo(0.6, 10);
+    // Information peaks slightly above b when c > 0
+    expect(itemInformation(item, 0.7)).toBeGreaterThan(itemInformation(item, -1));
+    expect(itemInformation({ a: 1, b: 0, c: 0 }, 0)).toBeCloseTo(0.25, 10);
+  });
+
+  it('recovers 2PL parameters from simulated responses with missing data', () => {
+    const result = calibrateIrt(simulate(1500, 'irt-2pl'), { model: '2PL' });
+
+    expect(result.converged).toBe(true);
+    expect(result.items).toHaveLength(trueItems.length);
+    for (const estimate of result.items) {
+      const truth = trueItems[Number(estimate.itemId.slice(1))];
+      expect(estimate.seB).toBeGreaterThan(0);
+      expect(estimate.seB).toBeLessThan(0.3);
+      expect(estimate.seA).toBeGreaterThan(0);
+      // Within three standard errors of the generating values
+      expect(Math.abs(estimate.b - truth.b)).toBeLessThan(3 * estimate.seB);
+      expect(Math.abs(estimate.a - truth.a)).toBeLessThan(3 * estimate.seA);
+      expect(estimate.seC).toBeNull();
+    }
+  });
+
+  it('fixes discrimination under 1PL and prefers the true model by AIC', () => {
+    const responses = simulate(1000, 'irt-compare');
+    const rasch = calibrateIrt(responses, { model: '1PL' });
+    const twoPl = calibrateIrt(responses, { model: '2PL' });
+
+    expect(rasch.items.every(i => i.a === 1 && i.seA === null)).toBe(true);
+    expect(twoPl.aic).toBeLessThan(rasch.aic);
+  });
+
+  it('estimates a bounded guessing parameter under 3PL', () => {
+    const result = calibrateIrt(simulate(800, 'irt-3pl'), { model: '3PL' });
+
+    expect(result.items).toHaveLength(trueItems.length);
+    for (const estimate of result.items) {
+      expect(estimate.c).toBeGreaterThan(0);
+      expect(estimate.c).toBeLessThan(0.4);
+      expect(estimate.seC).toBeGreaterThan(0);
+    }
+  });
+
+  it('excludes items without enough or without varied responses', () => {
+    const responses: DichotomousResponse[] = [];
+    for (let e = 0; e < 30; e++) {
+      responses.push({ examineeId: `e${e}`, itemId: 'all-right', correct: true });
+      responses.push({ examineeId: `e${e}`, itemId: 'mixed', correct: e % 2 === 0 });
+      if (e < 5) responses.push({ examineeId: `e${e}`, itemId: 'rare', correct: true });
+    }
+    const result = calibrateIrt(responses, { model: '1PL' });
+
+    expect(result.items.map(i => i.itemId)).toEqual(['mixed']);
+    expect(result.excluded.map(e => e.itemId).sort()).toEqual(['all-right', 'rare']);
+  });
+});
+
+describe('IRT parameter import', () => {
+  it('reads parameters, infers the model and reports bad rows', () => {
+    const csv = [
+      'question_id,a,b,c,model',
+      'q1,1.2,-0.4,,',
+      'q2,,0.3,,',
+      'q3,0.9,1.1,0.2,',
+      'q4,1.0,0.5,0,3PL',
+      'q5,-1,0,0,',
+      ',1,0,0,',
+      'q7,1,0,0,4PL',
+    ].join('\n');
+    const { rows, errors } = parseIrtParameterCsv(csv);
+
+    expect(rows.map(r => [r.questionId, r.model])).toEqual([
+      ['q1', '2PL'],
+      ['q2', '1PL'],
+      ['q3', '3PL'],
+      ['q4', '3PL'],
+    ]);
+    expect(rows[1]).toMatchObject({ a: 1, b: 0.3, c: 0 });
+    expect(errors).toHaveLength(3);
+    expect(errors[0]).toContain('Line 6');
+  });
+
+  it('requires question_id and b columns', () => {
+    expect(parseIrtParameterCsv('id,a\nq1,1').errors[0]).toContain('question_id');
+  });
+
+  it('grows marginal reliability with test length', () => {
+    const short = marginalReliability(trueItems);
+    const long = marginalReliability(trueItems, 4);
+    expect(short).toBeGreaterThan(0);
+    expect(long).toBeGreaterThan(short);
+    expect(long).toBeLessThan(1);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { RatingRecord, agreementReport, assignRaters, fleissKappa } from '../quality/multiRaterReview';
+
+const rating = (
+  review_id: string,
+  topic: string,
+  rater_id: string,
+  bloom_level: string,
+  final_bloom_level: string | null
+): RatingRecord => ({
+  review_id,
+  topic,
+  rater_id,
+  bloom_level,
+  knowledge_dimension: 'conceptual',
+  final_bloom_level,
+  final_knowledge_dimension: final_bloom_level ? 'conceptual' : null,
+});
+
+describe('Multi-rater review', () => {
+  it("computes Fleiss' kappa, allowing a different number of raters per item", () => {
+    // Observed 0.75, chance (3/8)^2 + (5/8)^2
+    expect(fleissKappa([['a', 'a'], ['a', 'b'], ['b', 'b'], ['b', 'b']])).toBeCloseTo(7 / 15, 10);
+    // Observed 0.5, chance (4/5)^2 + (1/5)^2; the single rating is skipped
+    expect(fleissKappa([['a', 'a', 'a'], ['a', 'b'], ['c']])).toBeCloseTo(-0.5625, 10);
+    expect(fleissKappa([['a', 'a'], ['a', 'a']])).toBe(1);
+    expect(fleissKappa([])).toBe(0);
+  });
+
+  it('assigns distinct raters and balances their load', () => {
+    const assignments = assignRaters(['q1', 'q2', 'q3', 'q4'], ['r1', 'r2', 'r3'], 2);
+    expect(assignments.map(a => a.rater_ids)).toEqual([['r1', 'r2'], ['r3', 'r1'], ['r2', 'r3'], ['r1', 'r2']]);
+
+    const [first] = assignRaters(['q1'], ['r1', 'r2', 'r3'], 2, { r1: 5 });
+    expect(first.rater_ids).toEqual(['r2', 'r3']);
+
+    expect(() => assignRaters(['q1'], ['r1', 'r1'], 2)).toThrow(/at least 2 raters/);
+  });
+
+  it('reports agreement per topic and per rater', () => {
+    const report = agreementReport([
+      rating('rv1', 'Algebra', 'u1', 'apply', 'apply'),
+      rating('rv1', 'Algebra', 'u2', 'apply', 'apply'),
+      rating('rv2', 'Algebra', 'u1', 'apply', 'analyze'),
+      rating('rv2', 'Algebra', 'u2', 'analyze', 'analyze'),
+      rating('rv3', 'Geometry', 'u1', 'remember', null),
+      rating('rv3', 'Geometry', 'u3', 'remember', null),
+    ], 'bloom_level');
+
+    expect(report.overall.items).toBe(3);
+    expect(report.overall.unanimous).toBeCloseTo(2 / 3, 10);
+    expect(report.by_topic.map(t => [t.topic, t.items, t.unanimous])).toEqual([
+      ['Algebra', 2, 0.5],
+      ['Geometry', 1, 1],
+    ]);
+
+    const byRater = new Map(report.by_rater.map(r => [r.rater_id, r]));
+    expect(byRater.get('u1')!.ratings).toBe(3);
+    expect(byRater.get('u1')!.accuracy_vs_final).toBeCloseTo(0.5, 10);
+    expect(byRater.get('u2')!.accuracy_vs_final).toBe(1);
+    expect(byRater.get('u2')!.mean_pairwise_kappa).toBeCloseTo(0, 10);
+    expect(byRater.get('u3')!.kappa_vs_final).toBeNull();
+  });
+});
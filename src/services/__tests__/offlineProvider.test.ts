@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import {
+  offlineEmbedding,
+  offlineQuestions,
+  offlineReply,
+} from '../../../supabase/functions/_shared/offlineProvider';
+
+const cosine = (a: number[], b: number[]) => a.reduce((sum, v, i) => sum + v * b[i], 0);
+
+describe('offline LLM provider', () => {
+  it('generates the same multiple-choice questions for the same request', () => {
+    const request = { topic: 'Photosynthesis', bloom: 'Applying', count: 3, questionType: 'mcq', concepts: ['light reactions', 'Calvin cycle', 'chlorophyll'] };
+    const first = offlineQuestions(request);
+    expect(offlineQuestions(request)).toEqual(first);
+    expect(first.questions).toHaveLength(3);
+
+    for (const q of first.questions) {
+      expect(Object.keys(q.choices ?? {})).toEqual(['A', 'B', 'C', 'D']);
+      expect(q.choices?.[q.correct_answer ?? '']).toBe(q.correct_option);
+      expect(q.distractors).toHaveLength(3);
+      expect([q.correct_option, ...(q.distractors ?? [])].every(option => option.length >= 20)).toBe(true);
+    }
+    expect(first.questions.map(q => q.targeted_concept)).toEqual(['light reactions', 'Calvin cycle', 'chlorophyll']);
+  });
+
+  it('answers true/false with True or False and essays with a rubric', () => {
+    const tf = offlineQuestions({ topic: 'Cells', bloom: 'remembering', count: 4, questionType: 'true_false' }).questions;
+    expect(tf.every(q => q.correct_answer === 'True' || q.correct_answer === 'False')).toBe(true);
+
+    const [essay] = offlineQuestions({ topic: 'Cells', bloom: 'evaluating', count: 1, questionType: 'essay' }).questions;
+    expect(essay.correct_answer).toBeNull();
+    expect(Object.keys(essay.rubric ?? {})).toHaveLength(5);
+    expect(essay.model_answer).toBeTruthy();
+  });
+
+  it('replies to requests for questions with template questions', () => {
+    const reply = offlineReply([{ role: 'user', content: 'Write 3 questions about the water cycle' }]);
+    expect(reply).toContain('offline mode');
+    expect(reply).toContain('the water cycle');
+    expect(reply.match(/\*Answer: [A-D]/g)).toHaveLength(3);
+  });
+
+  it('embeds texts with shared words closer than unrelated ones', () => {
+    const a = offlineEmbedding('The mitochondria is the powerhouse of the cell');
+    const b = offlineEmbedding('Mitochondria produce energy for the cell');
+    const c = offlineEmbedding('Supply and demand set market prices');
+    expect(a).toHaveLength(384);
+    expect(cosine(a, a)).toBeCloseTo(1, 6);
+    expect(cosine(a, b)).toBeGreaterThan(cosine(a, c));
+    expect(offlineEmbedding('The mitochondria is the powerhouse of the cell')).toEqual(a);
+  });
+
+  it('embeds inflected forms of a word close together', () => {
+    const a = offlineEmbedding('Photosynthesis in green plants');
+    const b = offlineEmbedding('Photosynthetic plants are green');
+    const c = offlineEmbedding('Causes of the French Revolution');
+    expect(cosine(a, b)).toBeGreaterThan(0.5);
+    expect(cosine(a, c)).toBeLessThan(0.2);
+  });
+});
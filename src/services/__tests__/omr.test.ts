@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BUBBLE_RADIUS,
+  CODE_CELL,
+  MARK_SIZE,
+  PAGE_HEIGHT,
+  PAGE_WIDTH,
+  buildSheetLayout,
+  decodeVersionCode,
+  encodeVersionCode,
+  sheetItems,
+} from '../omr/sheetLayout';
+import {
+  GrayImage,
+  applyHomography,
+  classifyBubbleFills,
+  readScannedPage,
+  solveHomography,
+} from '../omr/scanner';
+import type { VersionAnswerKey } from '../scoring/answerSheet';
+
+const key: VersionAnswerKey = {
+  testId: '3f2a9c1e-0000-4000-8000-000000000001',
+  versionLabel: 'B',
+  items: [
+    { itemNumber: 1, questionId: 'q1', questionType: 'mcq', choices: { A: 'w', B: 'x', C: 'y', D: 'z' }, correctAnswer: 'B', points: 1, toCanonical: {} },
+    { itemNumber: 2, questionId: 'q2', questionType: 'true_false', choices: {}, correctAnswer: 'T', points: 1, toCanonical: {} },
+    { itemNumber: 3, questionId: 'q3', questionType: 'fill_blank', choices: {}, correctAnswer: 'cell', points: 1, toCanonical: {} },
+    { itemNumber: 4, questionId: 'q4', questionType: 'mcq', choices: { A: 'w', B: 'x', C: 'y', D: 'z' }, correctAnswer: 'A', points: 1, toCanonical: {} },
+    { itemNumber: 5, questionId: 'q5', questionType: 'mcq', choices: { A: 'w', B: 'x', C: 'y', D: 'z' }, correctAnswer: 'C', points: 1, toCanonical: {} },
+  ],
+};
+
+/**
+ * Render the first sheet page as a scan would see it: slightly scaled and shifted,
+ * with the given bubbles shaded. `marks` maps "item:option" or "id:column:digit" to
+ * a fill darkness between 0 (white) and 1 (solid).
+ */
+function renderSheet(marks: Record<string, number>, scale = 4.6, offset = { x: 17, y: 23 }): GrayImage {
+  const width = Math.round(PAGE_WIDTH * 5);
+  const height = Math.round(PAGE_HEIGHT * 5);
+  const data = new Uint8ClampedArray(width * height).fill(245);
+  const layout = buildSheetLayout(sheetItems(key))[0];
+  const px = (mm: number, o: number) => mm * scale + o;
+
+  const rect = (x: number, y: number, w: number, h: number) => {
+    for (let yy = Math.round(px(y, offset.y)); yy < Math.round(px(y + h, offset.y)); yy++) {
+      for (let xx = Math.round(px(x, offset.x)); xx < Math.round(px(x + w, offset.x)); xx++) {
+        data[yy * width + xx] = 20;
+      }
+    }
+  };
+  const bubble = (cx: number, cy: number, darkness: number) => {
+    const r = BUBBLE_RADIUS * scale;
+    const c = { x: px(cx, offset.x), y: px(cy, offset.y) };
+    for (let yy = Math.floor(c.y - r - 1); yy <= Math.ceil(c.y + r + 1); yy++) {
+      for (let xx = Math.floor(c.x - r - 1); xx <= Math.ceil(c.x + r + 1); xx++) {
+        const d = Math.hypot(xx - c.x, yy - c.y);
+        if (Math.abs(d - r) < 0.7) data[yy * width + xx] = 40;
+        else if (d < r && darkness > 0) {
+          // Partial marks: shade a share of the inside roughly equal to `darkness`
+          if ((xx * 7 + yy * 13) % 100 < darkness * 100) data[yy * width + xx] = 50;
+        }
+      }
+    }
+  };
+
+  layout.marks.forEach(m => rect(m.x, m.y, MARK_SIZE, MARK_SIZE));
+  encodeVersionCode(key.testId.substring(0, 8), 1).forEach((bit, i) => {
+    const cell = layout.codeCells[i];
+    if (bit) rect(cell.x - CODE_CELL / 2, cell.y - CODE_CELL / 2, CODE_CELL, CODE_CELL);
+  });
+  layout.studentId.forEach(b => bubble(b.x, b.y, marks[`id:${b.column}:${b.digit}`] ?? 0));
+  layout.bubbles.forEach(b => bubble(b.x, b.y, marks[`${b.itemNumber}:${b.option}`] ?? 0));
+
+  return { width, height, data };
+}
+
+describe('Answer sheet layout', () => {
+  it('places bubbles only for mcq and true/false items', () => {
+    const [page] = buildSheetLayout(sheetItems(key));
+    const items = new Set(page.bubbles.map(b => b.itemNumber));
+
+    expect([...items]).toEqual([1, 2, 4, 5]);
+    expect(page.bubbles.filter(b => b.itemNumber === 2).map(b => b.option)).toEqual(['T', 'F']);
+    expect(page.studentId).toHaveLength(100);
+  });
+
+  it('spills long tests onto continuation pages without an ID grid', () => {
+    const many = Array.from({ length: 150 }, (_, i) => ({ itemNumber: i + 1, options: ['A', 'B', 'C', 'D'] }));
+    const pages = buildSheetLayout(many);
+
+    expect(pages.length).toBe(2);
+    expect(pages[1].studentId).toHaveLength(0);
+    expect(new Set(pages.flatMap(p => p.bubbles.map(b => b.itemNumber))).size).toBe(150);
+  });
+
+  it('round-trips the version code and rejects corrupted codes', () => {
+    const bits = encodeVersionCode('3F2A9C1E', 2);
+    expect(decodeVersionCode(bits)).toEqual({ testIdHash: '3f2a9c1e', page: 2 });
+
+    const corrupted = [...bits];
+    corrupted[5] = !corrupted[5];
+    expect(decodeVersionCode(corrupted)).toBeNull();
+  });
+});
+
+describe('Bubble classification', () => {
+  it('accepts a single clear mark', () => {
+    const reading = classifyBubbleFills({ A: 0.02, B: 0.91, C: 0.04, D: 0.01 });
+    expect(reading).toMatchObject({ selected: 'B', status: 'ok', needsReview: false });
+    expect(reading.confidence).toBeGreaterThan(0.9);
+  });
+
+  it('reads an untouched item as blank', () => {
+    expect(classifyBubbleFills({ A: 0.01, B: 0.03, C: 0, D: 0.02 })).toMatchObject({ selected: null, status: 'blank', needsReview: false });
+  });
+
+  it('queues double marks and faint marks for review', () => {
+    expect(classifyBubbleFills({ A: 0.85, B: 0.8, C: 0 })).toMatchObject({ selected: null, status: 'multiple', needsReview: true });
+    expect(classifyBubbleFills({ A: 0.3, B: 0.02 })).toMatchObject({ selected: null, suggestion: 'A', status: 'ambiguous', needsReview: true });
+  });
+
+  it('prefers a firm mark over a light erasure but lowers confidence', () => {
+    const reading = classifyBubbleFills({ A: 0.9, B: 0.3, C: 0.01 });
+    expect(reading.selected).toBe('A');
+    expect(reading.confidence).toBeLessThan(0.5);
+    expect(reading.needsReview).toBe(true);
+  });
+});
+
+describe('Scan reading', () => {
+  it('solves the homography through four correspondences', () => {
+    const src = [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 0, y: 10 }, { x: 10, y: 10 }];
+    const dst = [{ x: 5, y: 7 }, { x: 26, y: 8 }, { x: 4, y: 28 }, { x: 27, y: 30 }];
+    const h = solveHomography(src, dst);
+
+    src.forEach((p, i) => {
+      const mapped = applyHomography(h, p);
+      expect(mapped.x).toBeCloseTo(dst[i].x, 6);
+      expect(mapped.y).toBeCloseTo(dst[i].y, 6);
+    });
+  });
+
+  it('reads version, student ID and marks from a shifted, scaled scan', () => {
+    const image = renderSheet({
+      'id:0:4': 1, 'id:1:0': 1, 'id:2:7': 1,
+      '1:B': 1,
+      '2:T': 0.95,
+      '4:A': 0.9, '4:C': 0.9,
+      '5:D': 0.3,
+    });
+    const page = readScannedPage(image, [key]);
+
+    expect(page.error).toBeUndefined();
+    expect(page.testId).toBe(key.testId);
+    expect(page.studentId?.value).toBe('407');
+
+    const byItem = Object.fromEntries(page.items.map(r => [r.itemNumber, r]));
+    expect(byItem[1]).toMatchObject({ selected: 'B', status: 'ok' });
+    expect(byItem[2]).toMatchObject({ selected: 'T', status: 'ok' });
+    expect(byItem[4]).toMatchObject({ status: 'multiple', needsReview: true });
+    expect(byItem[5]).toMatchObject({ selected: null, suggestion: 'D', needsReview: true });
+    expect(byItem[3]).toBeUndefined();
+  });
+
+  it('reports pages without registration marks', () => {
+    const blank: GrayImage = { width: 400, height: 560, data: new Uint8ClampedArray(400 * 560).fill(250) };
+    expect(readScannedPage(blank, [key]).error).toBe('Registration marks not found');
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { PdfPage, PositionedText, layoutPdfPages } from '../documentImport/pdfLayout';
+import { detectQuestions, lineText } from '../documentImport/structure';
+
+const WIDTH = 612;
+const HEIGHT = 792;
+const SIZE = 10;
+/** Roughly Helvetica at 10pt */
+const textWidth = (str: string) => str.length * 5;
+
+/** One text item per word, as pdf.js often splits them */
+function text(str: string, x: number, y: number): PositionedText[] {
+  const items: PositionedText[] = [];
+  let left = x;
+  for (const word of str.split(' ')) {
+    items.push({ str: word, x: left, y, width: textWidth(word), height: SIZE });
+    left += textWidth(word) + 3;
+  }
+  return items;
+}
+
+function page(rows: [string, number, number][], header = true, number = 1): PdfPage {
+  const items = rows.flatMap(([str, x, y]) => text(str, x, y));
+  if (header) {
+    items.push(...text('Networking Midterm – Section B', 200, 30));
+    items.push(...text(`Page ${number} of 2`, 280, 760));
+  }
+  return { width: WIDTH, height: HEIGHT, items };
+}
+
+const lines = (pages: PdfPage[]) => layoutPdfPages(pages).map(lineText);
+
+describe('PDF layout', () => {
+  it('rebuilds lines, drops running headers and page numbers', () => {
+    const pages = [
+      page([
+        ['Name: ________', 72, 80],
+        ['1. Which layer routes packets?', 72, 120],
+        ['a. Physical', 90, 135],
+        ['b. Network', 90, 150],
+      ], true, 1),
+      page([
+        ['c. Transport', 90, 100],
+        ['Answer: B', 72, 115],
+      ], true, 2),
+    ];
+    expect(lines(pages)).toEqual([
+      'Name: ________',
+      '1. Which layer routes packets?',
+      'a. Physical',
+      'b. Network',
+      'c. Transport',
+      'Answer: B',
+    ]);
+  });
+
+  it('reads two-column pages column by column under a full-width title', () => {
+    const left: [string, number, number][] = [
+      ['1. Largest planet?', 50, 120],
+      ['a. Mars', 60, 135],
+      ['b. Jupiter', 60, 150],
+      ['2. Red planet?', 50, 180],
+      ['a. Mars', 60, 195],
+      ['b. Venus', 60, 210],
+    ];
+    const right: [string, number, number][] = [
+      ['3. Ringed planet?', 330, 120],
+      ['a. Saturn', 340, 135],
+      ['b. Mercury', 340, 150],
+      ['4. Hottest planet?', 330, 180],
+      ['a. Venus', 340, 195],
+      ['b. Pluto', 340, 210],
+    ];
+    const result = lines([page([['Part I – Multiple Choice. Choose the best answer for each item below.', 50, 90], ...left, ...right], false)]);
+    expect(result[0]).toBe('Part I – Multiple Choice. Choose the best answer for each item below.');
+    expect(result.filter(l => /^\d\./.test(l))).toEqual(['1. Largest planet?', '2. Red planet?', '3. Ringed planet?', '4. Hottest planet?']);
+    expect(result[4]).toBe('2. Red planet?');
+  });
+
+  it('unfolds choice grids in letter order', () => {
+    const result = lines([page([
+      ['1. Which protocol resolves host names to addresses?', 72, 100],
+      ['a. ARP', 90, 115],
+      ['c. DNS', 300, 115],
+      ['b. DHCP', 90, 130],
+      ['d. ICMP', 300, 130],
+      ['Answer: c', 72, 145],
+    ], false)]);
+    expect(result).toEqual([
+      '1. Which protocol resolves host names to addresses?',
+      'a. ARP',
+      'b. DHCP',
+      'c. DNS',
+      'd. ICMP',
+      'Answer: c',
+    ]);
+  });
+
+  it('feeds structure detection, including an answer key at the end', () => {
+    const pages = [
+      page([
+        ['1. Which layer routes packets?', 72, 100],
+        ['a. Physical', 90, 115],
+        ['b. Network', 250, 115],
+        ['c. Transport', 410, 115],
+        ['2. Which device joins networks?', 72, 140],
+        ['a.', 90, 155],
+        ['Router', 120, 155],
+        ['b.', 90, 170],
+        ['Hub', 120, 170],
+      ], true, 1),
+      page([
+        ['Answer Key', 72, 100],
+        ['1. B', 72, 115],
+        ['2. A', 72, 130],
+      ], true, 2),
+    ];
+    const { questions, issues } = detectQuestions(layoutPdfPages(pages));
+    expect(issues).toEqual([]);
+    expect(questions.map(q => [q.question_text, q.choices, q.correct_answer])).toEqual([
+      ['Which layer routes packets?', { A: 'Physical', B: 'Network', C: 'Transport' }, 'B'],
+      ['Which device joins networks?', { A: 'Router', B: 'Hub' }, 'A'],
+    ]);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ScoredResponseMatrix,
+  analyzeItems,
+  analyzeOptions,
+  analyzeTestReliability,
+  studentTCdf,
+  welchTost,
+} from '../psychometrics/statistics';
+import { parseTestItems, resolveOptionLetter } from '../psychometrics/testItems';
+
+// Guttman-pattern data: 5 examinees, 4 items of decreasing easiness
+const matrix: ScoredResponseMatrix = {
+  itemNumbers: [1, 2, 3, 4],
+  questionIds: [null, null, null, null],
+  itemLabels: ['Item 1', 'Item 2', 'Item 3', 'Item 4'],
+  examineeIds: ['a', 'b', 'c', 'd', 'e'],
+  scores: [
+    [1, 1, 1, 1],
+    [1, 1, 1, 0],
+    [1, 1, 0, 0],
+    [1, 0, 0, 0],
+    [0, 0, 0, 0],
+  ],
+  maxScores: [1, 1, 1, 1],
+};
+
+describe('Classical item analysis', () => {
+  it('computes p-values and upper/lower discrimination', () => {
+    const items = analyzeItems(matrix);
+
+    expect(items.map(i => i.pValue)).toEqual([0.8, 0.6, 0.4, 0.2]);
+    // 27% of 5 rounds to one examinee per group: the top and bottom scorer
+    items.forEach(item => {
+      expect(item.upperP).toBe(1);
+      expect(item.lowerP).toBe(0);
+      expect(item.discrimination).toBe(1);
+      expect(item.correctedPointBiserial).toBeGreaterThan(0);
+    });
+  });
+
+  it('computes alpha-if-item-deleted', () => {
+    const [first] = analyzeItems(matrix);
+    // Items 2-4: totals 3,2,1,0,0 (var 1.36), item variances .24+.24+.16
+    expect(first.alphaIfDeleted).toBeCloseTo(1.5 * (1 - 0.64 / 1.36), 6);
+  });
+
+  it('computes test reliability coefficients and SEM', () => {
+    const stats = analyzeTestReliability(matrix);
+
+    expect(stats.dichotomous).toBe(true);
+    expect(stats.meanScore).toBe(2);
+    expect(stats.standardDeviation).toBeCloseTo(Math.SQRT2, 6);
+    expect(stats.cronbachAlpha).toBeCloseTo(0.8, 6);
+    expect(stats.kr20).toBeCloseTo(0.8, 6);
+    expect(stats.kr21).toBeCloseTo(2 / 3, 6);
+    expect(stats.splitHalf).toBeCloseTo(0.88, 6);
+    expect(stats.sem).toBeCloseTo(Math.sqrt(0.4), 6);
+  });
+
+  it('treats missing responses as zero and supports partial credit', () => {
+    const partial: ScoredResponseMatrix = {
+      ...matrix,
+      scores: [
+        [2, 1],
+        [1, null],
+        [0, 0],
+      ],
+      itemNumbers: [1, 2],
+      questionIds: [null, null],
+      itemLabels: ['Item 1', 'Item 2'],
+      examineeIds: ['a', 'b', 'c'],
+      maxScores: [2, 1],
+    };
+
+    const items = analyzeItems(partial);
+    expect(items[0].pValue).toBeCloseTo(0.5, 6);
+    expect(items[1].pValue).toBeCloseTo(1 / 3, 6);
+    expect(items[1].responseCount).toBe(2);
+    expect(analyzeTestReliability(partial).dichotomous).toBe(false);
+  });
+});
+
+describe('Distractor analysis', () => {
+  // 10 examinees ranked by total; C attracts the top scorers, D is never chosen
+  const totals = [10, 9, 8, 7, 6, 5, 4, 3, 2, 1];
+  const selections = ['A', 'C', 'C', 'A', 'A', 'B', 'B', 'A', 'B', null];
+  const itemScores = selections.map(s => (s === 'A' ? 1 : 0));
+  const rest = totals.map((t, i) => t - itemScores[i]);
+
+  const options = analyzeOptions(selections, rest, totals, ['A', 'B', 'C', 'D'], 'A');
+  const byOption = Object.fromEntries(options.map(o => [o.option, o]));
+
+  it('computes overall, upper and lower proportions', () => {
+    expect(byOption.A.proportion).toBeCloseTo(0.4, 6);
+    expect(byOption.B.proportion).toBeCloseTo(0.3, 6);
+    // round(10 * 0.27) = 3 per group
+    expect(byOption.C.upperProportion).toBeCloseTo(2 / 3, 6);
+    expect(byOption.B.lowerProportion).toBeCloseTo(1 / 3, 6);
+  });
+
+  it('flags non-functioning distractors and ones that pull high scorers', () => {
+    expect(byOption.D.nonFunctioning).toBe(true);
+    expect(byOption.C.attractsHighScorers).toBe(true);
+    expect(byOption.B.attractsHighScorers).toBe(false);
+    expect(byOption.B.pointBiserial).toBeLessThan(0);
+    expect(byOption.A.nonFunctioning).toBe(false);
+    expect(byOption.A.attractsHighScorers).toBe(false);
+  });
+});
+
+describe('Stored test items', () => {
+  it('normalizes choices and keys across stored layouts', () => {
+    const items = parseTestItems([
+      { id: 'q1', question_number: 3, question_type: 'mcq', choices: { a: 'Red', b: 'Blue' }, correct_answer: 'b' },
+      { question_type: 'Multiple Choice', choices: ['One', 'Two', 'Three'], correct_answer: 'Three' },
+      { question_type: 'essay', correct_answer: 'Any' },
+    ]);
+
+    expect(items[0]).toMatchObject({ itemNumber: 3, questionId: 'q1', correctAnswer: 'B', choices: { A: 'Red', B: 'Blue' } });
+    expect(items[1]).toMatchObject({ itemNumber: 2, correctAnswer: 'C' });
+    expect(items[2].correctAnswer).toBe('Any');
+    expect(resolveOptionLetter('b.', items[0].choices)).toBe('B');
+    expect(resolveOptionLetter('green', items[0].choices)).toBeNull();
+  });
+});
+
+describe('equivalence testing', () => {
+  it('matches Student t quantiles', () => {
+    expect(studentTCdf(0, 7)).toBeCloseTo(0.5, 10);
+    expect(studentTCdf(2.228, 10)).toBeCloseTo(0.975, 3);
+    expect(studentTCdf(-1.833, 9)).toBeCloseTo(0.05, 3);
+  });
+
+  it('shows equivalence only when the difference is well inside the margin', () => {
+    const a = [0.52, 0.61, 0.48, 0.7, 0.55, 0.66, 0.43, 0.59];
+    const shifted = a.map(v => v + 0.01);
+    expect(welchTost(a, shifted, 0.1).equivalent).toBe(true);
+    expect(welchTost(a, shifted, 0.01).equivalent).toBe(false);
+
+    const far = welchTost(a, a.map(v => v - 0.2), 0.1);
+    expect(far.difference).toBeCloseTo(0.2, 10);
+    expect(far.equivalent).toBe(false);
+  });
+});
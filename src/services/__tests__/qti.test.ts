@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import { QtiQuestion, exportQtiPackage, importQtiPackage } from '../interchange/qti';
+
+const classified = {
+  topic: 'Networking',
+  bloom_level: 'applying',
+  knowledge_dimension: 'procedural',
+  difficulty: 'average',
+  subject: 'IT 101',
+  category: 'Major',
+  specialization: 'Networks',
+  subject_code: 'IT101',
+  subject_description: 'Intro to Computing',
+};
+
+const bank: QtiQuestion[] = [
+  {
+    id: 'q-1',
+    question_type: 'mcq',
+    question_text: 'Which layer routes packets?\nChoose the best answer.',
+    choices: { A: 'Physical', B: 'Network', C: 'Transport', D: 'None of the above' },
+    correct_answer: 'B',
+    tags: ['osi', 'layers'],
+    ...classified,
+  },
+  { id: 'q-2', question_type: 'true_false', question_text: 'TCP is connectionless & fast.', correct_answer: 'False', ...classified },
+  { id: 'q-3', question_type: 'short_answer', question_text: 'The _____ protocol resolves names.', correct_answer: 'DNS|domain name system', ...classified },
+  { id: 'q-4', question_type: 'essay', question_text: 'Explain <subnetting>.', correct_answer: 'Dividing a network', ...classified },
+];
+
+function wellFormed(xml: string): boolean {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  return doc.getElementsByTagName('parsererror').length === 0;
+}
+
+function zip(files: Record<string, string>): Uint8Array {
+  return zipSync(Object.fromEntries(Object.entries(files).map(([name, text]) => [name, new Uint8Array(strToU8(text))])));
+}
+
+describe('QTI packages', () => {
+  it('writes a manifest and one well-formed assessment item per question', () => {
+    const { bytes, exported, issues } = exportQtiPackage(bank);
+    const files = unzipSync(bytes);
+    const manifest = strFromU8(files['imsmanifest.xml']);
+
+    expect(exported).toBe(4);
+    expect(issues).toEqual([]);
+    expect(wellFormed(manifest)).toBe(true);
+    expect(manifest.match(/type="imsqti_item_xmlv2p1"/g)).toHaveLength(4);
+
+    const item = strFromU8(files['items/item-q-1.xml']);
+    expect(wellFormed(item)).toBe(true);
+    expect(item).toContain('<choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="1">');
+    expect(item).toContain('<correctResponse><value>B</value></correctResponse>');
+    expect(wellFormed(strFromU8(files['items/item-q-4.xml']))).toBe(true);
+  });
+
+  it('uses qti- element names and kebab-case attributes for QTI 3.0', () => {
+    const files = unzipSync(exportQtiPackage(bank, { version: '3.0' }).bytes);
+    const item = strFromU8(files['items/item-q-3.xml']);
+    expect(wellFormed(item)).toBe(true);
+    expect(item).toContain('xmlns="http://www.imsglobal.org/xsd/imsqtiasi_v3p0"');
+    expect(item).toContain('<qti-text-entry-interaction response-identifier="RESPONSE"');
+    expect(strFromU8(files['imsmanifest.xml'])).toContain('imsqti_item_xmlv3p0');
+  });
+
+  it.each(['2.1', '3.0'] as const)('round-trips questions and their classification (QTI %s)', version => {
+    const { rows, issues, version: detected } = importQtiPackage(exportQtiPackage(bank, { version }).bytes);
+    expect(issues).toEqual([]);
+    expect(detected).toBe(version);
+
+    const metadata = {
+      Topic: 'Networking',
+      Bloom: 'applying',
+      KnowledgeDimension: 'procedural',
+      Difficulty: 'average',
+      Subject: 'IT 101',
+      Category: 'Major',
+      Specialization: 'Networks',
+      SubjectCode: 'IT101',
+      SubjectDescription: 'Intro to Computing',
+    };
+    expect(rows).toEqual([
+      {
+        ...metadata,
+        Question: 'Which layer routes packets?\nChoose the best answer.',
+        Type: 'mcq',
+        A: 'Physical', B: 'Network', C: 'Transport', D: 'None of the above',
+        Correct: 'B',
+        Tags: 'osi, layers',
+      },
+      { ...metadata, Question: 'TCP is connectionless & fast.', Type: 'true_false', Correct: 'False' },
+      { ...metadata, Question: 'The _____ protocol resolves names.', Type: 'short_answer', Correct: 'DNS|domain name system' },
+      { ...metadata, Question: 'Explain <subnetting>.', Type: 'essay', Correct: 'Dividing a network' },
+    ]);
+  });
+
+  it('reports unsupported interactions and keeps the items it can read', () => {
+    const item = (id: string, body: string) => `<?xml version="1.0"?>
+      <assessmentItem xmlns="http://www.imsglobal.org/xsd/imsqti_v2p1" identifier="${id}" title="${id}" adaptive="false" timeDependent="false">
+        <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier">
+          <correctResponse><value>ChoiceB</value></correctResponse>
+        </responseDeclaration>
+        <itemBody>${body}</itemBody>
+      </assessmentItem>`;
+
+    const { rows, issues } = importQtiPackage(zip({
+      'order.xml': item('order', '<p>Put in order</p><orderInteraction responseIdentifier="RESPONSE"><simpleChoice identifier="A">x</simpleChoice></orderInteraction>'),
+      'multi.xml': item('multi', '<choiceInteraction responseIdentifier="RESPONSE" maxChoices="0"><prompt>Pick all</prompt><simpleChoice identifier="A">x</simpleChoice><simpleChoice identifier="B">y</simpleChoice></choiceInteraction>'),
+      'plain.xml': item('plain', '<choiceInteraction responseIdentifier="RESPONSE" maxChoices="1"><prompt>Pick one</prompt><simpleChoice identifier="ChoiceA">x</simpleChoice><simpleChoice identifier="ChoiceB">y</simpleChoice></choiceInteraction>'),
+    }));
+
+    expect(rows).toEqual([{ Question: 'Pick one', Type: 'mcq', A: 'x', B: 'y', Correct: 'B' }]);
+    expect(issues).toEqual([
+      { item: 'multi', message: 'choiceInteraction with more than one answer is not supported', severity: 'error' },
+      { item: 'order', message: 'Unsupported interaction: orderInteraction', severity: 'error' },
+    ]);
+  });
+
+  it('lists questions it cannot export', () => {
+    const { exported, issues } = exportQtiPackage([
+      bank[0],
+      { id: 'q-9', question_type: 'matching', question_text: 'Match these' },
+    ]);
+    expect(exported).toBe(1);
+    expect(issues).toEqual([{ item: 'q-9', message: 'Not exported: question type "matching" has no QTI interaction', severity: 'error' }]);
+  });
+
+  it('carries stem and option images as package files', () => {
+    const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+    const question: QtiQuestion = {
+      ...bank[0],
+      attachments: [
+        { id: 'img1', path: 'u/topology.png', name: 'topology.png', mime_type: 'image/png', alt: 'Star topology', size: 'medium', placement: 'stem' },
+        { id: 'img2', path: 'u/router.png', name: 'router.png', mime_type: 'image/png', alt: 'Router icon', size: 'small', placement: 'B' },
+        { id: 'img3', path: 'u/missing.png', name: 'missing.png', mime_type: 'image/png', alt: 'Not loaded', size: 'small', placement: 'stem' },
+      ],
+    };
+    const { bytes, issues } = exportQtiPackage([question], { media: { 'u/topology.png': png, 'u/router.png': png } });
+    const files = unzipSync(bytes);
+    const item = strFromU8(files['items/item-q-1.xml']);
+    expect(wellFormed(item)).toBe(true);
+    expect(item).toContain('<img src="../media/topology-img1.png" alt="Star topology"/>');
+    expect(Object.keys(files)).toContain('media/router-img2.png');
+    expect(strFromU8(files['imsmanifest.xml'])).toContain('<file href="media/topology-img1.png"/>');
+    expect(issues).toEqual([{ item: 'q-1', message: 'Image "missing.png" could not be loaded and was left out', severity: 'warning' }]);
+
+    const [row] = importQtiPackage(bytes).rows;
+    expect(row.images).toEqual([
+      { name: 'topology-img1.png', src: 'data:image/png;base64,iVBORw==', alt: 'Star topology', placement: 'stem' },
+      { name: 'router-img2.png', src: 'data:image/png;base64,iVBORw==', alt: 'Router icon', placement: 'B' },
+    ]);
+    expect(row.B).toBe('Network');
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { redundancyDetector } from '../ai/redundancyDetector';
+
+const SUBJECTS = ['photosynthesis', 'the water cycle', 'plate tectonics', 'supply and demand', 'the French Revolution',
+  'cell division', 'Newton\'s second law', 'the Krebs cycle', 'ocean currents', 'the Roman Republic'];
+const STEMS = ['Which statement best describes', 'What is the main cause of', 'How would you explain',
+  'Which example illustrates', 'What evidence supports a claim about'];
+
+function bank(size: number) {
+  return Array.from({ length: size }, (_, i) => ({
+    id: `q${i}`,
+    text: `${STEMS[i % STEMS.length]} ${SUBJECTS[Math.floor(i / STEMS.length) % SUBJECTS.length]} in unit ${i}?`,
+    topic: SUBJECTS[Math.floor(i / STEMS.length) % SUBJECTS.length],
+  }));
+}
+
+describe('redundancyDetector.checkRedundancy', () => {
+  it('finds a near duplicate in a small bank', async () => {
+    const result = await redundancyDetector.checkRedundancy(
+      'What is the main cause of the water cycle, in unit 6?',
+      bank(40)
+    );
+    expect(result.similarQuestions[0]?.id).toBe('q6');
+    expect(result.confidence).toBeGreaterThan(0.9);
+  });
+
+  it('still finds the near duplicate when a large bank is prefiltered', async () => {
+    const questions = bank(2000);
+    const result = await redundancyDetector.checkRedundancy(
+      'Which statement best describes the Krebs cycle in unit 1835?',
+      questions
+    );
+    expect(result.similarQuestions[0]?.id).toBe('q1835');
+    expect(result.isDuplicate).toBe(true);
+  });
+
+  it('reports no redundancy for an unrelated question', async () => {
+    const result = await redundancyDetector.checkRedundancy('Solve 3x + 5 = 20 for x.', bank(500));
+    expect(result.similarQuestions).toHaveLength(0);
+    expect(result.isDuplicate).toBe(false);
+  });
+});
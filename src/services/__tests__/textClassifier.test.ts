@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import {
+  evaluate,
+  isTextClassifierModel,
+  predict,
+  splitHoldout,
+  trainTextClassifier,
+  TrainingExample,
+} from '../../../supabase/functions/_shared/textClassifier';
+
+const TOPICS = ['photosynthesis', 'the water cycle', 'plate tectonics', 'cell division', 'the French Revolution',
+  'supply and demand', 'ocean currents', 'the Krebs cycle', 'electric circuits', 'volcanoes'];
+
+const STEMS: Record<string, string[]> = {
+  remembering: ['Define', 'List the parts of', 'Name the term for', 'State the definition of', 'Recall the stages of'],
+  applying: ['Calculate the result for', 'Solve a problem using', 'Use the formula for', 'Apply the rule of', 'Compute the value in'],
+  evaluating: ['Evaluate the claims about', 'Justify your position on', 'Critique the argument on', 'Assess the evidence for', 'Judge the reasoning about'],
+};
+
+function examples(): TrainingExample[] {
+  return Object.entries(STEMS).flatMap(([label, stems]) =>
+    TOPICS.flatMap(topic => stems.map(stem => ({ text: `${stem} ${topic}.`, label })))
+  );
+}
+
+describe('textClassifier', () => {
+  it('keeps each class represented in a stratified holdout', () => {
+    const { train, holdout } = splitHoldout(examples(), 0.2);
+    expect(train.length + holdout.length).toBe(150);
+    for (const label of Object.keys(STEMS)) {
+      expect(holdout.filter(e => e.label === label)).toHaveLength(10);
+    }
+  });
+
+  it('learns verb cues and reports held-out accuracy', () => {
+    const result = trainTextClassifier(examples());
+    expect(result.train_size).toBe(120);
+    expect(result.holdout_size).toBe(30);
+    expect(result.evaluation.accuracy).toBeGreaterThan(0.9);
+    expect(predict(result.model, 'Justify the decision to build the dam.').label).toBe('evaluating');
+    expect(predict(result.model, 'Define osmosis.').label).toBe('remembering');
+  });
+
+  it('builds a confusion matrix with one row per actual class', () => {
+    const { model } = trainTextClassifier(examples());
+    const report = evaluate(model, [
+      { text: 'Calculate the speed of the train.', label: 'applying' },
+      { text: 'Define velocity.', label: 'applying' },
+    ]);
+    const { labels, matrix } = report.confusion_matrix;
+    const applying = labels.indexOf('applying');
+    expect(matrix[applying].reduce((a, b) => a + b, 0)).toBe(2);
+    expect(matrix[applying][labels.indexOf('remembering')]).toBe(1);
+    expect(report.accuracy).toBe(0.5);
+    expect(report.per_class.applying.recall).toBe(0.5);
+  });
+
+  it('is deterministic and survives a JSON round trip', () => {
+    const a = trainTextClassifier(examples());
+    const b = trainTextClassifier(examples());
+    expect(a.model).toEqual(b.model);
+    const stored = JSON.parse(JSON.stringify(a.model));
+    expect(isTextClassifierModel(stored)).toBe(true);
+    expect(predict(stored, 'Assess the evidence for evolution.')).toEqual(predict(a.model, 'Assess the evidence for evolution.'));
+  });
+
+  it('refuses to train on a single class', () => {
+    expect(() => trainTextClassifier([{ text: 'Define atom.', label: 'remembering' }])).toThrow(/two classes/);
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import type { ExamSection } from '@/types/examFormats';
+import { buildVersionKey } from '../scoring/answerSheet';
+import {
+  VersionQuestion,
+  generateVersionSet,
+  resolveSections,
+  shuffleChoices,
+  validateVersionBalance,
+} from '../testGeneration/versionEngine';
+
+const mcq = (id: string, choices: string[], correct: string): VersionQuestion => ({
+  id,
+  question_type: 'mcq',
+  question_text: `Question ${id}`,
+  choices: Object.fromEntries(choices.map((text, i) => [String.fromCharCode(65 + i), text])),
+  correct_answer: correct,
+  topic: 'Algebra',
+});
+
+const bank: VersionQuestion[] = [
+  ...Array.from({ length: 6 }, (_, i) => mcq(`m${i}`, ['one', 'two', 'three', 'four'], 'B')),
+  ...Array.from({ length: 4 }, (_, i) => ({ id: `t${i}`, question_type: 'true_false', correct_answer: 'True', topic: 'Logic' })),
+];
+
+const section = (id: string, startNumber: number, endNumber: number): ExamSection => ({
+  id,
+  label: id,
+  title: id,
+  questionType: 'mcq',
+  startNumber,
+  endNumber,
+  pointsPerQuestion: 1,
+  instruction: '',
+});
+
+describe('versioning engine', () => {
+  it('reproduces the same versions from the same seed', () => {
+    const options = { numberOfVersions: 3, shuffleQuestions: true, shuffleChoices: true, seed: 'midterm' };
+    const first = generateVersionSet(bank, options);
+    const second = generateVersionSet(bank, options);
+
+    expect(second.versions).toEqual(first.versions);
+    expect(first.versions.map(v => v.version_label)).toEqual(['A', 'B', 'C']);
+    expect(first.versions[1].question_order).not.toEqual(first.versions[2].question_order);
+
+    const other = generateVersionSet(bank, { ...options, seed: 'final' });
+    expect(other.versions.map(v => v.question_order)).not.toEqual(first.versions.map(v => v.question_order));
+  });
+
+  it('never moves questions across section boundaries', () => {
+    const sections = [section('part-1', 1, 4), section('part-2', 5, 8)];
+    const set = generateVersionSet(bank, { numberOfVersions: 4, shuffleQuestions: true, shuffleChoices: false, seed: 's', sections });
+
+    // Items 9 and 10 sit outside every format section and keep a section of their own
+    expect(set.sections.map(s => [s.id, s.startNumber, s.endNumber])).toEqual([
+      ['part-1', 1, 4], ['part-2', 5, 8], ['unsectioned-9', 9, 10],
+    ]);
+    for (const version of set.versions) {
+      expect(version.questions.slice(0, 4).map(q => q.id).sort()).toEqual(['m0', 'm1', 'm2', 'm3']);
+      expect(version.questions.slice(4, 8).map(q => q.id).sort()).toEqual(['m4', 'm5', 't0', 't1']);
+      expect(version.questions.slice(8).map(q => q.id).sort()).toEqual(['t2', 't3']);
+    }
+    expect(validateVersionBalance(set.versions).isBalanced).toBe(true);
+  });
+
+  it('falls back to runs of the same question type', () => {
+    const sections = resolveSections(bank);
+    expect(sections.map(s => [s.startNumber, s.endNumber])).toEqual([[1, 6], [7, 10]]);
+  });
+
+  it('keeps anchored options in place and moves the key with its option', () => {
+    const question = mcq('q', ['red', 'green', 'blue', 'yellow', 'All of the above'], 'B');
+    for (const seed of ['a', 'b', 'c', 'd', 'e']) {
+      const shuffled = shuffleChoices(question, seed);
+      const choices = shuffled.choices as Record<string, string>;
+      expect(choices.E).toBe('All of the above');
+      expect(choices[shuffled.correct_answer as string]).toBe('green');
+    }
+  });
+
+  it('moves images placed next to an option with that option', () => {
+    const question = {
+      ...mcq('q', ['red', 'green', 'blue', 'yellow'], 'A'),
+      attachments: [{ id: 'i1', path: 'u/green.png', placement: 'B' }, { id: 'i2', path: 'u/stem.png', placement: 'stem' }],
+    };
+    for (const seed of ['a', 'b', 'c']) {
+      const shuffled = shuffleChoices(question, seed);
+      const [choiceImage, stemImage] = shuffled.attachments as Array<{ placement: string }>;
+      expect((shuffled.choices as Record<string, string>)[choiceImage.placement]).toBe('green');
+      expect(stemImage.placement).toBe('stem');
+    }
+  });
+
+  it('leaves options that name other options by letter unshuffled', () => {
+    const question = mcq('q', ['red', 'green', 'blue', 'Both A and B'], 'D');
+    expect(shuffleChoices(question, 'seed')).toBe(question);
+  });
+
+  it('keeps questions on one stimulus together and shuffles within the group', () => {
+    const passage = (id: string, stimulus: string) => ({ ...mcq(id, ['one', 'two', 'three', 'four'], 'A'), stimulus_id: stimulus });
+    // The second passage question is out of place in the bank order
+    const questions = [
+      passage('p1', 'reading'), mcq('m0', ['a', 'b'], 'A'), passage('p2', 'reading'), mcq('m1', ['a', 'b'], 'A'),
+      passage('p3', 'reading'), mcq('m2', ['a', 'b'], 'A'), passage('q1', 'table'), passage('q2', 'table'),
+    ];
+    const set = generateVersionSet(questions, { numberOfVersions: 6, shuffleQuestions: true, shuffleChoices: false, seed: 'groups' });
+
+    expect(set.canonical.map(q => q.id)).toEqual(['p1', 'p2', 'p3', 'm0', 'm1', 'm2', 'q1', 'q2']);
+    const orders = new Set<string>();
+    for (const version of set.versions) {
+      const ids = version.question_order;
+      const start = ids.findIndex(id => id.startsWith('p'));
+      expect(ids.slice(start, start + 3).sort()).toEqual(['p1', 'p2', 'p3']);
+      orders.add(ids.slice(start, start + 3).join());
+      expect(Math.abs(ids.indexOf('q1') - ids.indexOf('q2'))).toBe(1);
+    }
+    expect(orders.size).toBeGreaterThan(1);
+    expect(validateVersionBalance(set.versions).isBalanced).toBe(true);
+
+    const split = { ...set.versions[0], questions: set.canonical.map((_, i) => set.canonical[i === 1 ? 3 : i === 3 ? 1 : i]) };
+    expect(validateVersionBalance([split]).warnings.some(w => w.includes('stimulus reading'))).toBe(true);
+  });
+
+  it('writes answer keys that scoring reads back per version', () => {
+    const set = generateVersionSet(bank, { numberOfVersions: 2, shuffleQuestions: true, shuffleChoices: true, seed: 'key' });
+    for (const version of set.versions) {
+      const key = buildVersionKey({
+        id: version.version_label,
+        version_label: version.version_label,
+        items: version.questions,
+        answer_key: version.answer_key,
+        question_order: version.question_order,
+      });
+      expect(key.items.map(i => i.questionId)).toEqual(version.question_order);
+      key.items.forEach((item, index) => {
+        const question = version.questions[index];
+        expect(item.itemNumber).toBe(index + 1);
+        if (question.question_type === 'mcq') {
+          expect(item.choices[item.correctAnswer as string]).toBe('two');
+        } else {
+          expect(item.correctAnswer).toBe('T');
+        }
+      });
+    }
+  });
+});
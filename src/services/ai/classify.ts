@@ -1,3 +1,5 @@
+import { classifierText } from '@/lib/questionMarkup';
+
 export type BloomLevel = 'remembering' | 'understanding' | 'applying' | 'analyzing' | 'evaluating' | 'creating';
 export type KnowledgeDimension = 'factual' | 'conceptual' | 'procedural' | 'metacognitive';
 export type Difficulty = 'easy' | 'average' | 'difficult';
@@ -184,6 +186,8 @@ export function classifyQuestion(
   questionType: 'mcq' | 'essay' | 'true_false' | 'short_answer' = 'mcq',
   topic?: string
 ): Classification {
+  // Only the prose is classified: TeX commands and code keywords are not Bloom verbs
+  questionText = classifierText(questionText);
   const bloom = classifyBloom(questionText);
   const kd = detectKnowledgeDimension(questionText, questionType);
   const difficulty = inferDifficulty(bloom, questionText, questionType);
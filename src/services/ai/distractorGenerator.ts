@@ -1,3 +1,5 @@
+import type { OptionStatistics } from '@/services/psychometrics/statistics';
+
 export interface DistractorOptions {
   questionText: string;
   correctAnswer: string;
@@ -155,10 +157,15 @@ export class DistractorGenerator {
     return `Alternative: ${answer}`;
   }
 
+  /**
+   * Score a distractor from 0 to 1. Text heuristics give the baseline; when option
+   * statistics from a real administration are supplied they outweigh the heuristics.
+   */
   async evaluateDistractorQuality(
     distractor: string,
     correctAnswer: string,
-    questionText: string
+    questionText: string,
+    evidence?: OptionStatistics
   ): Promise<number> {
     let quality = 0.5; // Base quality
 
@@ -176,7 +183,24 @@ export class DistractorGenerator {
     const overlap = distractorWords.filter(w => questionWords.has(w)).length;
     if (overlap > 2) quality += 0.15;
 
-    return Math.min(1.0, quality);
+    if (evidence && !evidence.isKey) {
+      quality = this.applyResponseEvidence(Math.min(1.0, quality), evidence);
+    }
+
+    return Math.min(1.0, Math.max(0, quality));
+  }
+
+  private applyResponseEvidence(heuristic: number, evidence: OptionStatistics): number {
+    // A distractor that pulls high scorers is miskeyed or ambiguous, whatever its wording
+    if (evidence.attractsHighScorers) return Math.min(heuristic, 0.2);
+
+    // Nobody chose it, so it is not doing any work on the item
+    if (evidence.nonFunctioning) return Math.min(heuristic, 0.35);
+
+    // Functioning distractor: weight how well it separates the lower group
+    const separation = Math.max(0, Math.min(1, (evidence.lowerProportion - evidence.upperProportion) * 2));
+    const empirical = 0.6 + 0.4 * separation;
+    return 0.3 * heuristic + 0.7 * empirical;
   }
 
   private calculateTextSimilarity(text1: string, text2: string): number {
@@ -16,6 +16,17 @@ import type { TOSCriteria } from "./testGenerationService";
 import { QuestionUniquenessStore, createQuestionFingerprint, extractConcept } from "./questionUniquenessChecker";
 import type { AnswerType, KnowledgeDimension } from "@/types/knowledge";
 import { resolveSubjectMetadata } from "./subjectMetadataResolver";
+import {
+  answerLetters,
+  formatLetters,
+  isMatchingChoices,
+  isNumericChoices,
+  matchingFromPairs,
+  orderingFromSteps,
+  type MatchingChoices,
+  type NumericChoices,
+  type OptionChoices
+} from "@/types/questionTypes";
 
 export interface FormatAwareTestConfig {
   format: ExamFormat;
@@ -246,7 +257,11 @@ function distributeCriteriaToSections(
       mcq: ['remembering', 'understanding', 'applying', 'analyzing', 'evaluating', 'creating'],
       true_false: ['remembering', 'understanding'],
       fill_blank: ['remembering', 'understanding', 'applying'],
-      essay: ['evaluating', 'creating', 'analyzing', 'applying']
+      essay: ['evaluating', 'creating', 'analyzing', 'applying'],
+      matching: ['remembering', 'understanding'],
+      ordering: ['understanding', 'applying', 'analyzing'],
+      multiple_response: ['understanding', 'analyzing', 'evaluating', 'remembering'],
+      numeric: ['applying', 'analyzing']
     };
     
     const priorityBlooms = bloomPriority[section.questionType];
@@ -518,7 +533,11 @@ function mapQuestionTypeToDb(type: QuestionType): string {
     mcq: 'mcq',
     true_false: 'true_false',
     fill_blank: 'short_answer',
-    essay: 'essay'
+    essay: 'essay',
+    matching: 'matching',
+    ordering: 'ordering',
+    multiple_response: 'multiple_response',
+    numeric: 'numeric'
   };
   return mapping[type];
 }
@@ -722,6 +741,31 @@ function mapAIResponseToQuestion(
           rubric_criteria: aiQ.rubric_points || []
         }
       };
+    case 'matching':
+      return {
+        ...base,
+        question_type: 'matching',
+        question_text: aiQ.text,
+        choices: isMatchingChoices(aiQ.choices) ? aiQ.choices : { premises: [], responses: [] },
+        correct_answer: formatLetters(answerLetters(aiQ.correct_answer))
+      };
+    case 'ordering':
+    case 'multiple_response':
+      return {
+        ...base,
+        question_type: questionType,
+        question_text: aiQ.text,
+        choices: aiQ.choices || {},
+        correct_answer: formatLetters(answerLetters(aiQ.correct_answer))
+      };
+    case 'numeric':
+      return {
+        ...base,
+        question_type: 'numeric',
+        question_text: aiQ.text,
+        choices: isNumericChoices(aiQ.choices) ? aiQ.choices : { tolerance: 0 },
+        correct_answer: String(aiQ.correct_answer ?? '').trim()
+      };
     default: // mcq
       return {
         ...base,
@@ -766,6 +810,28 @@ function generateTypedQuestionsFromTemplates(
   return questions;
 }
 
+/** Fields every template question starts from, before its type-specific content */
+interface GeneratedQuestionBase {
+  id: string;
+  topic: string;
+  bloom_level: string;
+  difficulty: string;
+  knowledge_dimension: string;
+  created_by: string;
+  status: string;
+  approved: boolean;
+  owner: string;
+  ai_confidence_score: number;
+  metadata: Record<string, unknown>;
+}
+
+interface GeneratedQuestion<C> extends GeneratedQuestionBase {
+  question_type: QuestionType;
+  question_text: string;
+  choices: C;
+  correct_answer: string;
+}
+
 /**
  * Generate a single question of a specific type
  */
@@ -775,7 +841,7 @@ function generateTypedQuestion(
   index: number,
   userId: string
 ): any {
-  const baseQuestion = {
+  const baseQuestion: GeneratedQuestionBase = {
     id: `gen-${questionType}-${Date.now()}-${index}`,
     topic: criterion.topic,
     bloom_level: criterion.bloom_level,
@@ -798,6 +864,14 @@ function generateTypedQuestion(
       return generateFillBlank(baseQuestion, criterion, index);
     case 'essay':
       return generateEssay(baseQuestion, criterion, index);
+    case 'matching':
+      return generateMatching(baseQuestion, criterion, index);
+    case 'ordering':
+      return generateOrdering(baseQuestion, criterion, index);
+    case 'multiple_response':
+      return generateMultipleResponse(baseQuestion, criterion, index);
+    case 'numeric':
+      return generateNumeric(baseQuestion, criterion, index);
     default:
       return generateMCQ(baseQuestion, criterion, index);
   }
@@ -858,6 +932,72 @@ function generateEssay(base: any, criterion: TOSCriteria, index: number): any {
   };
 }
 
+function generateMatching(
+  base: GeneratedQuestionBase,
+  criterion: TOSCriteria,
+  index: number
+): GeneratedQuestion<MatchingChoices> {
+  const templates = getMatchingTemplates(criterion);
+  const template = templates[index % templates.length];
+
+  return {
+    ...base,
+    question_type: 'matching',
+    question_text: template.prompt,
+    ...matchingFromPairs(template.pairs, [template.decoy])
+  };
+}
+
+function generateOrdering(
+  base: GeneratedQuestionBase,
+  criterion: TOSCriteria,
+  index: number
+): GeneratedQuestion<OptionChoices> {
+  const templates = getOrderingTemplates(criterion);
+  const template = templates[index % templates.length];
+
+  return {
+    ...base,
+    question_type: 'ordering',
+    question_text: template.prompt,
+    ...orderingFromSteps(template.steps)
+  };
+}
+
+function generateMultipleResponse(
+  base: GeneratedQuestionBase,
+  criterion: TOSCriteria,
+  index: number
+): GeneratedQuestion<OptionChoices> {
+  const templates = getMultipleResponseTemplates(criterion);
+  const template = templates[index % templates.length];
+
+  return {
+    ...base,
+    question_type: 'multiple_response',
+    question_text: template.question,
+    choices: template.choices,
+    correct_answer: template.answer
+  };
+}
+
+function generateNumeric(
+  base: GeneratedQuestionBase,
+  criterion: TOSCriteria,
+  index: number
+): GeneratedQuestion<NumericChoices> {
+  const templates = getNumericTemplates(criterion);
+  const template = templates[index % templates.length];
+
+  return {
+    ...base,
+    question_type: 'numeric',
+    question_text: template.question,
+    choices: { tolerance: template.tolerance, tolerance_type: 'absolute', unit: template.unit },
+    correct_answer: template.answer
+  };
+}
+
 // Template generators for each question type
 function getMCQTemplates(criterion: TOSCriteria) {
   return [
@@ -987,3 +1127,91 @@ function getEssayTemplates(criterion: TOSCriteria) {
     }
   ];
 }
+
+function getMatchingTemplates(criterion: TOSCriteria) {
+  return [
+    {
+      prompt: `Match each stage of working with ${criterion.topic} to its purpose.`,
+      pairs: [
+        ['Planning', 'Setting objectives and scope'],
+        ['Implementation', 'Carrying out the planned activities'],
+        ['Monitoring', 'Tracking progress against the plan'],
+        ['Evaluation', 'Judging results against the objectives'],
+      ] as [string, string][],
+      decoy: 'Replacing the plan without review'
+    },
+    {
+      prompt: `Match each term used in ${criterion.topic} to its meaning.`,
+      pairs: [
+        ['Principle', 'A fundamental rule that guides practice'],
+        ['Procedure', 'An ordered set of steps for a task'],
+        ['Standard', 'An agreed level of quality to meet'],
+        ['Metric', 'A measure used to assess performance'],
+      ] as [string, string][],
+      decoy: 'An informal opinion about results'
+    }
+  ];
+}
+
+function getOrderingTemplates(criterion: TOSCriteria) {
+  return [
+    {
+      prompt: `Arrange the steps for applying ${criterion.topic} in the correct order.`,
+      steps: ['Define the objectives', 'Plan the approach', 'Implement the plan', 'Evaluate the results']
+    },
+    {
+      prompt: `Arrange the stages of solving a problem in ${criterion.topic} in the correct order.`,
+      steps: ['Identify the problem', 'Gather relevant information', 'Select a solution', 'Apply the solution', 'Review the outcome']
+    }
+  ];
+}
+
+function getMultipleResponseTemplates(criterion: TOSCriteria) {
+  return [
+    {
+      question: `Which of the following are characteristics of effective ${criterion.topic}? Select all that apply.`,
+      choices: {
+        A: 'Clearly defined objectives',
+        B: 'Decisions made without any evidence',
+        C: 'Regular evaluation of results',
+        D: 'Consistent application of principles',
+        E: 'Ignoring feedback from stakeholders'
+      },
+      answer: 'A,C,D'
+    },
+    {
+      question: `Which practices support continuous improvement in ${criterion.topic}? Select all that apply.`,
+      choices: {
+        A: 'Collecting feedback after each cycle',
+        B: 'Keeping the same process regardless of results',
+        C: 'Measuring outcomes against targets',
+        D: 'Avoiding documentation of changes',
+        E: 'Reviewing and adjusting methods'
+      },
+      answer: 'A,C,E'
+    }
+  ];
+}
+
+function getNumericTemplates(criterion: TOSCriteria) {
+  return [
+    {
+      question: `A ${criterion.topic} activity completes 120 tasks per hour. How many tasks does it complete in 2.5 hours?`,
+      answer: '300',
+      tolerance: 0,
+      unit: 'tasks'
+    },
+    {
+      question: `In a ${criterion.topic} review, 45 of 60 criteria were met. What percentage of the criteria were met?`,
+      answer: '75',
+      tolerance: 0.5,
+      unit: '%'
+    },
+    {
+      question: `A ${criterion.topic} project has a budget of 18,000 spread evenly over 8 months. What is the monthly budget?`,
+      answer: '2250',
+      tolerance: 0,
+      unit: ''
+    }
+  ];
+}
@@ -1,5 +1,6 @@
 import { classifyQuestion } from "./classify";
 import type { BloomLevel, KnowledgeDimension, Difficulty } from "./classify";
+import { CHOICE_TEMPLATES, QUESTION_TEMPLATES } from "../../../supabase/functions/_shared/offlineProvider";
 
 export interface GenerationInput {
   topic: string;
@@ -33,130 +34,12 @@ export interface GeneratedQuestion {
   };
 }
 
-// Question templates by Bloom level and type
-const questionTemplates = {
-  remembering: {
-    mcq: [
-      "Which of the following best defines {topic}?",
-      "What is the primary characteristic of {topic}?",
-      "Identify the main component of {topic}.",
-      "Select the correct term for {topic}."
-    ],
-    essay: [
-      "Define {topic} and list its key characteristics.",
-      "Identify the main elements of {topic}.",
-      "List the fundamental principles of {topic}."
-    ]
-  },
-  understanding: {
-    mcq: [
-      "Which statement best explains {topic}?",
-      "How does {topic} relate to its broader context?",
-      "What is the significance of {topic}?",
-      "Which example best illustrates {topic}?"
-    ],
-    essay: [
-      "Explain the concept of {topic} in your own words.",
-      "Describe how {topic} functions in practice.",
-      "Summarize the key principles underlying {topic}."
-    ]
-  },
-  applying: {
-    mcq: [
-      "In which scenario would you apply {topic}?",
-      "How would you use {topic} to solve this problem?",
-      "Which approach demonstrates the application of {topic}?",
-      "What is the best way to implement {topic}?"
-    ],
-    essay: [
-      "Demonstrate how to apply {topic} in a real-world scenario.",
-      "Show how {topic} can be used to solve practical problems.",
-      "Apply the principles of {topic} to a specific case."
-    ]
-  },
-  analyzing: {
-    mcq: [
-      "Which factor most influences {topic}?",
-      "How do the components of {topic} interact?",
-      "What is the relationship between {topic} and related concepts?",
-      "Which element is most critical to {topic}?"
-    ],
-    essay: [
-      "Analyze the key components of {topic} and their relationships.",
-      "Examine the factors that influence {topic}.",
-      "Compare and contrast different aspects of {topic}."
-    ]
-  },
-  evaluating: {
-    mcq: [
-      "Which approach to {topic} is most effective?",
-      "What is the strongest argument for {topic}?",
-      "Which criterion best evaluates {topic}?",
-      "What is the most significant limitation of {topic}?"
-    ],
-    essay: [
-      "Evaluate the effectiveness of {topic} in achieving its goals.",
-      "Assess the strengths and weaknesses of {topic}.",
-      "Critique the current understanding of {topic}."
-    ]
-  },
-  creating: {
-    mcq: [
-      "Which design would best incorporate {topic}?",
-      "How would you modify {topic} to improve it?",
-      "What new approach could enhance {topic}?",
-      "Which innovation builds upon {topic}?"
-    ],
-    essay: [
-      "Design a new approach to {topic} that addresses current limitations.",
-      "Create a comprehensive plan incorporating {topic}.",
-      "Develop an innovative solution using {topic}."
-    ]
-  }
-};
+// Templates are shared with the edge functions' offline provider
+const questionTemplates = QUESTION_TEMPLATES;
 
 // Generate realistic MCQ choices
 function generateMCQChoices(topic: string, bloom: BloomLevel, correctAnswer: string): Record<string, string> {
-  const choiceTemplates = {
-    remembering: [
-      `The fundamental definition of ${topic}`,
-      `A basic characteristic of ${topic}`,
-      `An alternative interpretation of ${topic}`,
-      `A related but distinct concept`
-    ],
-    understanding: [
-      `A comprehensive explanation of ${topic}`,
-      `A partial understanding of ${topic}`,
-      `A common misconception about ${topic}`,
-      `An unrelated concept`
-    ],
-    applying: [
-      `The correct application of ${topic}`,
-      `A misapplication of ${topic}`,
-      `A theoretical approach to ${topic}`,
-      `An unrelated method`
-    ],
-    analyzing: [
-      `The most significant factor in ${topic}`,
-      `A contributing factor to ${topic}`,
-      `An unrelated variable`,
-      `A contradictory element`
-    ],
-    evaluating: [
-      `The most effective approach to ${topic}`,
-      `A moderately effective approach`,
-      `An ineffective approach`,
-      `An unrelated strategy`
-    ],
-    creating: [
-      `An innovative solution using ${topic}`,
-      `A traditional approach to ${topic}`,
-      `A flawed implementation`,
-      `An unrelated design`
-    ]
-  };
-
-  const templates = choiceTemplates[bloom] || choiceTemplates.understanding;
+  const templates = (CHOICE_TEMPLATES[bloom] || CHOICE_TEMPLATES.understanding).map(t => t.replace(/{topic}/g, topic));
   
   return {
     A: correctAnswer,
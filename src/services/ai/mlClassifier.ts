@@ -1,6 +1,9 @@
 import { supabase } from '@/integrations/supabase/client';
 import { RuleBasedClassifier } from './ruleBasedClassifier';
 import { ExplainabilityService, ClassificationExplanation } from './explainability';
+import { classifierText } from '@/lib/questionMarkup';
+import { ActiveClassifier, ClassifierModels, ClassifierTarget } from '@/services/db/classifierModels';
+import { predict } from '../../../supabase/functions/_shared/textClassifier';
 
 export interface MLClassificationResult {
   cognitive_level: 'remembering' | 'understanding' | 'applying' | 'analyzing' | 'evaluating' | 'creating';
@@ -13,6 +16,8 @@ export interface MLClassificationResult {
   semantic_vector: number[];
   needs_review: boolean;
   explanation?: ClassificationExplanation;
+  /** Trained model version behind each field; absent where keyword heuristics decided */
+  model_versions?: Partial<Record<ClassifierTarget, string>>;
 }
 
 export interface QuestionInput {
@@ -22,10 +27,11 @@ export interface QuestionInput {
   choices?: Record<string, string>;
 }
 
-// Advanced ML-based classifier using multiple models
+// Classifier backed by the active trained model versions (ml_models), with
+// keyword heuristics for any field that has no trained model yet
 export class MLClassifier {
   private static instance: MLClassifier;
-  private models: Map<string, any> = new Map();
+  private trained: Partial<Record<ClassifierTarget, ActiveClassifier>> = {};
   private initialized = false;
 
   static getInstance(): MLClassifier {
@@ -39,53 +45,35 @@ export class MLClassifier {
     if (this.initialized) return;
 
     try {
-      // Initialize pre-trained models (in production, these would be actual ML models)
-      this.models.set('bloom_classifier', await this.loadBloomModel());
-      this.models.set('knowledge_classifier', await this.loadKnowledgeModel());
-      this.models.set('difficulty_predictor', await this.loadDifficultyModel());
-      this.models.set('quality_assessor', await this.loadQualityModel());
-      
-      this.initialized = true;
-      console.log('ML Classifier initialized successfully');
+      this.trained = await ClassifierModels.active();
+      const versions = Object.entries(this.trained).map(([target, m]) => `${target} ${m.model_version}`);
+      console.log(versions.length
+        ? `ML Classifier loaded trained models: ${versions.join(', ')}`
+        : 'ML Classifier has no trained models yet; using keyword heuristics');
     } catch (error) {
-      console.error('Failed to initialize ML Classifier:', error);
-      throw error;
+      console.warn('Could not load trained classifier models, using keyword heuristics:', error);
+      this.trained = {};
     }
+    this.initialized = true;
   }
 
-  private async loadBloomModel() {
-    // In production, this would load a trained transformer model
-    return {
-      predict: (text: string) => this.predictBloomLevel(text),
-      confidence: (text: string) => this.calculateBloomConfidence(text)
-    };
-  }
-
-  private async loadKnowledgeModel() {
-    return {
-      predict: (text: string) => this.predictKnowledgeDimension(text),
-      confidence: (text: string) => this.calculateKnowledgeConfidence(text)
-    };
-  }
-
-  private async loadDifficultyModel() {
-    return {
-      predict: (text: string, type: string) => this.predictDifficulty(text, type),
-      confidence: (text: string) => this.calculateDifficultyConfidence(text)
-    };
+  /** Picks up a newly trained or rolled-back model version */
+  async reloadModels() {
+    this.initialized = false;
+    await this.initialize();
   }
 
-  private async loadQualityModel() {
-    return {
-      assess: (question: QuestionInput) => this.assessQuality(question),
-      readability: (text: string) => this.calculateReadability(text)
-    };
+  private predictWithTrained(target: ClassifierTarget, text: string): { label: string; confidence: number } | null {
+    const active = this.trained[target];
+    if (!active) return null;
+    const { label, confidence } = predict(active.model, text);
+    return { label, confidence };
   }
 
   async classifyQuestion(input: QuestionInput): Promise<MLClassificationResult> {
     await this.initialize();
 
-    const text = input.text.toLowerCase();
+    const text = classifierText(input.text).toLowerCase();
     
     // Multi-model ensemble prediction
     const bloomResult = await this.classifyBloom(text);
@@ -111,9 +99,17 @@ export class MLClassifier {
       quality_score: qualityResult.score,
       readability_score: readabilityScore,
       semantic_vector: semanticVector,
-      needs_review: overallConfidence < 0.75 || qualityResult.score < 0.7
+      needs_review: overallConfidence < 0.75 || qualityResult.score < 0.7,
+      model_versions: Object.fromEntries(
+        Object.entries(this.trained).map(([target, m]) => [target, m.model_version])
+      ) as Partial<Record<ClassifierTarget, string>>
     };
 
+    // Models trained on teachers' labels outrank the keyword rules
+    if (this.trained.bloom_level || this.trained.knowledge_dimension) {
+      return mlResult;
+    }
+
     // Enhanced: Add rule-based analysis and explainability
     try {
       const ruleBasedResult = RuleBasedClassifier.classifyQuestion(input.text, input.type, input.topic);
@@ -139,6 +135,9 @@ export class MLClassifier {
   }
 
   private async classifyBloom(text: string): Promise<{ level: any; confidence: number }> {
+    const trained = this.predictWithTrained('bloom_level', text);
+    if (trained) return { level: trained.label, confidence: trained.confidence };
+
     // Enhanced Bloom's classification with contextual analysis
     const bloomPatterns = {
       remembering: {
@@ -204,6 +203,9 @@ export class MLClassifier {
   }
 
   private async classifyKnowledge(text: string, type: string): Promise<{ dimension: any; confidence: number }> {
+    const trained = this.predictWithTrained('knowledge_dimension', text);
+    if (trained) return { dimension: trained.label, confidence: trained.confidence };
+
     const knowledgePatterns = {
       factual: {
         indicators: ['what is', 'define', 'list', 'name', 'when', 'where', 'who'],
@@ -252,6 +254,9 @@ export class MLClassifier {
   }
 
   private async classifyDifficulty(text: string, type: string): Promise<{ level: any; confidence: number }> {
+    const trained = this.predictWithTrained('difficulty', text);
+    if (trained) return { level: trained.label as 'easy' | 'average' | 'difficult', confidence: trained.confidence };
+
     const wordCount = text.split(/\s+/).length;
     const complexityScore = (text.match(/[,:;()-]/g)?.length ?? 0);
     const syllableCount = this.estimateSyllables(text);
@@ -413,36 +418,6 @@ export class MLClassifier {
     return Math.max(0.1, average - Math.sqrt(variance) * 0.5);
   }
 
-  private predictBloomLevel(text: string): string {
-    // Enhanced prediction logic would go here
-    return 'understanding';
-  }
-
-  private calculateBloomConfidence(text: string): number {
-    // Enhanced confidence calculation would go here
-    return 0.8;
-  }
-
-  private predictKnowledgeDimension(text: string): string {
-    // Enhanced prediction logic would go here
-    return 'conceptual';
-  }
-
-  private calculateKnowledgeConfidence(text: string): number {
-    // Enhanced confidence calculation would go here
-    return 0.75;
-  }
-
-  private predictDifficulty(text: string, type: string): string {
-    // Enhanced prediction logic would go here
-    return 'average';
-  }
-
-  private calculateDifficultyConfidence(text: string): number {
-    // Enhanced confidence calculation would go here
-    return 0.7;
-  }
-
   async batchClassify(questions: QuestionInput[]): Promise<MLClassificationResult[]> {
     await this.initialize();
     
@@ -458,7 +433,7 @@ export class MLClassifier {
     try {
       console.log('ML model performance tracked (mock)', {
         question_id: questionId,
-        model_version: '1.0',
+        model_version: this.trained.bloom_level?.model_version ?? 'heuristic',
         predicted: predictedClassification,
         actual: actualClassification,
         accuracy_score: this.calculateAccuracy(actualClassification, predictedClassification)
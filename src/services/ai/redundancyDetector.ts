@@ -1,3 +1,5 @@
+import { cosineSimilarity, findSimilarToText, generateLocalEmbedding } from './semanticAnalyzer';
+
 export interface RedundancyCheck {
   isDuplicate: boolean;
   similarQuestions: Array<{
@@ -25,6 +27,15 @@ export class RedundancyDetector {
   private static instance: RedundancyDetector;
   private readonly SIMILARITY_THRESHOLD = 0.85;
   private readonly CLUSTER_THRESHOLD = 0.75;
+  // Past this many existing questions, only the nearest by local embedding get the full comparison
+  private readonly PREFILTER_MIN_QUESTIONS = 200;
+  private readonly PREFILTER_CANDIDATES = 50;
+  // Neighbours fetched from the vector index for a bank-wide check
+  private readonly BANK_NEIGHBOURS = 25;
+  private readonly BANK_NEIGHBOUR_FLOOR = 0.5;
+  // Prefilter embeddings by question id, so repeated checks against the same bank embed it once
+  private readonly EMBEDDING_CACHE_LIMIT = 5000;
+  private embeddingCache = new Map<string, { text: string; embedding: number[] }>();
 
   static getInstance(): RedundancyDetector {
     if (!this.instance) {
@@ -46,7 +57,11 @@ export class RedundancyDetector {
       topic: string;
     }> = [];
 
-    for (const existing of existingQuestions) {
+    const candidates = existingQuestions.length > this.PREFILTER_MIN_QUESTIONS
+      ? this.nearestByLocalEmbedding(questionText, existingQuestions, this.PREFILTER_CANDIDATES)
+      : existingQuestions;
+
+    for (const existing of candidates) {
       const similarity = this.calculateSimilarity(questionText, existing.text);
       
       if (similarity >= similarityThreshold) {
@@ -74,6 +89,29 @@ export class RedundancyDetector {
     };
   }
 
+  /**
+   * Check a draft against the whole question bank: the vector index supplies
+   * the nearest questions and only those get the full text comparison
+   */
+  async checkRedundancyInBank(
+    questionText: string,
+    threshold?: number,
+    excludeId?: string
+  ): Promise<RedundancyCheck> {
+    const neighbours = await findSimilarToText(
+      questionText,
+      this.BANK_NEIGHBOURS,
+      this.BANK_NEIGHBOUR_FLOOR,
+      excludeId
+    );
+
+    return this.checkRedundancy(
+      questionText,
+      neighbours.map(n => ({ id: n.id, text: n.question_text, topic: n.topic })),
+      threshold
+    );
+  }
+
   async detectRedundancyInBank(
     questions: Array<{ id: string; text: string; topic: string }>
   ): Promise<RedundancyReport> {
@@ -152,6 +190,34 @@ export class RedundancyDetector {
     );
   }
 
+  private nearestByLocalEmbedding<T extends { id: string; text: string }>(
+    questionText: string,
+    questions: T[],
+    limit: number
+  ): T[] {
+    const query = generateLocalEmbedding(questionText);
+    return questions
+      .map(question => ({ question, score: cosineSimilarity(query, this.cachedEmbedding(question)) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ question }) => question);
+  }
+
+  /** An edited question's text no longer matches its entry and is embedded again */
+  private cachedEmbedding(question: { id: string; text: string }): number[] {
+    const cached = this.embeddingCache.get(question.id);
+    if (cached && cached.text === question.text) return cached.embedding;
+
+    const embedding = generateLocalEmbedding(question.text);
+    this.embeddingCache.delete(question.id);
+    if (this.embeddingCache.size >= this.EMBEDDING_CACHE_LIMIT) {
+      // Maps iterate in insertion order, so this drops the least recently embedded
+      this.embeddingCache.delete(this.embeddingCache.keys().next().value!);
+    }
+    this.embeddingCache.set(question.id, { text: question.text, embedding });
+    return embedding;
+  }
+
   private normalize(text: string): string {
     return text
       .toLowerCase()
@@ -1,4 +1,5 @@
 import { ConfidenceScorer } from './confidenceScoring';
+import { classifierText } from '@/lib/questionMarkup';
 
 export interface POSAnalysis {
   verbs: string[];
@@ -156,6 +157,7 @@ export class RuleBasedClassifier {
     questionType: string,
     topic?: string
   ): RuleBasedResult {
+    questionText = classifierText(questionText);
     const text = questionText.toLowerCase();
     const posAnalysis = this.performPOSAnalysis(questionText);
     const keywords = this.extractKeywords(questionText, topic);
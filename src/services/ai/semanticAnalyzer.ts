@@ -1,9 +1,14 @@
 /**
  * Semantic Similarity Analysis Service
- * Uses OpenAI embeddings to detect similar and duplicate questions
+ * Embeds questions with the configured provider (or the local hashing model)
+ * and finds similar and duplicate questions through the pgvector index
  */
 
 import { supabase } from '@/integrations/supabase/client';
+import {
+  OFFLINE_EMBEDDING_DIMENSIONS,
+  offlineEmbedding,
+} from '../../../supabase/functions/_shared/offlineProvider';
 
 export interface SimilarQuestion {
   id: string;
@@ -29,8 +34,12 @@ export interface ClusterResult {
   topic: string;
 }
 
+/** Width of the vectors questions.semantic_embedding indexes */
+export const INDEXED_EMBEDDING_DIMENSIONS = OFFLINE_EMBEDDING_DIMENSIONS;
+
 /**
- * Generate embedding for a text using OpenAI API via edge function
+ * Generate embedding for a text via the generate-embedding edge function,
+ * which uses the institution's configured embedding backend
  */
 export async function generateEmbedding(text: string): Promise<number[]> {
   try {
@@ -47,6 +56,15 @@ export async function generateEmbedding(text: string): Promise<number[]> {
   }
 }
 
+/**
+ * Embed a text on the CPU with the local hashing model (word, bigram and
+ * character n-gram features). No network call; the vectors match those the
+ * edge functions store when the embedding backend is local.
+ */
+export function generateLocalEmbedding(text: string): number[] {
+  return offlineEmbedding(text);
+}
+
 /**
  * Calculate cosine similarity between two vectors
  */
@@ -73,7 +91,8 @@ export function cosineSimilarity(vecA: number[], vecB: number[]): number {
 }
 
 /**
- * Find similar questions to a given question
+ * Find similar questions to a given question: a top-k query on the
+ * pgvector index, so nothing but the matches leaves the database
  */
 export async function findSimilarQuestions(
   questionId: string,
@@ -81,58 +100,68 @@ export async function findSimilarQuestions(
   threshold: number = 0.75
 ): Promise<SimilarQuestion[]> {
   try {
-    // Get the question and its embedding
-    const { data: question, error: questionError } = await supabase
-      .from('questions')
-      .select('id, question_text, semantic_vector')
-      .eq('id', questionId)
-      .single();
+    const { data, error } = await supabase.rpc('match_similar_questions', {
+      p_question_id: questionId,
+      p_match_count: topK,
+      p_threshold: threshold
+    });
 
-    if (questionError) throw questionError;
-    if (!question.semantic_vector) {
-      throw new Error('Question does not have an embedding yet');
-    }
+    if (error) throw error;
 
-    const queryVector = JSON.parse(question.semantic_vector);
+    return (data || []).map(toSimilarQuestion);
+  } catch (error) {
+    console.error('Error finding similar questions:', error);
+    throw error;
+  }
+}
 
-    // Get all other questions with embeddings
-    const { data: allQuestions, error: allError } = await supabase
-      .from('questions')
-      .select('id, question_text, topic, bloom_level, difficulty, semantic_vector')
-      .neq('id', questionId)
-      .not('semantic_vector', 'is', null);
-
-    if (allError) throw allError;
-
-    // Calculate similarities
-    const similarities: SimilarQuestion[] = [];
-
-    for (const q of allQuestions || []) {
-      if (!q.semantic_vector) continue;
-
-      const targetVector = JSON.parse(q.semantic_vector);
-      const similarity = cosineSimilarity(queryVector, targetVector);
-
-      if (similarity >= threshold) {
-        similarities.push({
-          id: q.id,
-          question_text: q.question_text,
-          topic: q.topic,
-          similarity_score: similarity,
-          bloom_level: q.bloom_level,
-          difficulty: q.difficulty
-        });
-      }
-    }
+/**
+ * Find questions similar to a text that is not in the bank yet, such as a
+ * draft or a generated question
+ */
+export async function findSimilarToText(
+  text: string,
+  topK: number = 10,
+  threshold: number = 0.75,
+  excludeId?: string
+): Promise<SimilarQuestion[]> {
+  const embedding = await generateEmbedding(text);
+  if (embedding.length !== INDEXED_EMBEDDING_DIMENSIONS) {
+    console.warn(`Embedding has ${embedding.length} dimensions; the similarity index holds ${INDEXED_EMBEDDING_DIMENSIONS}`);
+    return [];
+  }
 
-    // Sort by similarity (highest first) and take topK
-    similarities.sort((a, b) => b.similarity_score - a.similarity_score);
-    return similarities.slice(0, topK);
+  const { data, error } = await supabase.rpc('match_questions_by_embedding', {
+    p_embedding: JSON.stringify(embedding),
+    p_match_count: topK,
+    p_threshold: threshold,
+    p_exclude_id: excludeId
+  });
 
-  } catch (error) {
-    console.error('Error finding similar questions:', error);
+  if (error) {
+    console.error('Error finding questions similar to text:', error);
     throw error;
   }
+
+  return (data || []).map(toSimilarQuestion);
+}
+
+function toSimilarQuestion(row: {
+  id: string;
+  question_text: string;
+  topic: string;
+  bloom_level: string;
+  difficulty: string;
+  similarity: number;
+}): SimilarQuestion {
+  return {
+    id: row.id,
+    question_text: row.question_text,
+    topic: row.topic,
+    similarity_score: row.similarity,
+    bloom_level: row.bloom_level,
+    difficulty: row.difficulty
+  };
 }
 
 /**
@@ -147,7 +176,7 @@ export async function storeSimilarityPairs(
       question1_id: questionId,
       question2_id: sq.id,
       similarity_score: sq.similarity_score,
-      algorithm_used: 'openai-text-embedding-3-small-cosine'
+      algorithm_used: 'pgvector-cosine'
     }));
 
     const { error } = await supabase
@@ -205,18 +234,19 @@ export async function indexQuestion(questionId: string): Promise<SimilarityResul
 }
 
 /**
- * Batch index all questions that don't have embeddings
+ * Batch index all questions that don't have an indexed embedding, including
+ * those embedded at a width the vector index does not hold
  */
 export async function indexAllQuestions(
   batchSize: number = 50,
   onProgress?: (current: number, total: number) => void
 ): Promise<void> {
   try {
-    // Get all questions without embeddings
+    // Get all questions without indexed embeddings
     const { data: questions, error } = await supabase
       .from('questions')
       .select('id')
-      .is('semantic_vector', null);
+      .is('semantic_embedding', null);
 
     if (error) throw error;
 
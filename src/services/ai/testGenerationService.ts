@@ -1,4 +1,12 @@
 import { supabase } from "@/integrations/supabase/client";
+import {
+  answerLetters,
+  describeNumericKey,
+  formatLetters,
+  isLetterListKind,
+  isMatchingChoices,
+  isNumericChoices
+} from "@/types/questionTypes";
 
 export interface TOSCriteria {
   topic: string;
@@ -512,18 +520,45 @@ async function generateQuestionsWithAI(
 }
 
 /**
- * Generate automatic answer key for a test
+ * Generate automatic answer key for a test.
+ * Letter-list keys are normalized to "C,A,B"; `answer_display` is what a
+ * printed key shows and `scoring` names the rule in services/scoring/itemScoring.
  */
 export function generateAnswerKey(questions: any[]): any[] {
-  return questions.map((q, index) => ({
-    question_number: index + 1,
-    question_id: q.id,
-    correct_answer: q.correct_answer,
-    question_text: q.question_text,
-    points: 1,
-    bloom_level: q.bloom_level,
-    topic: q.topic
-  }));
+  return questions.map((q, index) => {
+    const type = String(q.question_type || 'mcq');
+    let correctAnswer = q.correct_answer ?? null;
+    let answerDisplay = correctAnswer == null ? '' : String(correctAnswer);
+    let scoring = 'exact';
+
+    if (isLetterListKind(type)) {
+      correctAnswer = formatLetters(answerLetters(correctAnswer));
+      answerDisplay = correctAnswer;
+      scoring = type === 'multiple_response' ? 'right_minus_wrong' : 'per_position';
+      if (type === 'matching' && isMatchingChoices(q.choices)) {
+        const letters = answerLetters(correctAnswer);
+        answerDisplay = letters.map((letter, i) => `${i + 1}-${letter}`).join(', ');
+      }
+    } else if (type === 'numeric') {
+      answerDisplay = describeNumericKey(correctAnswer, isNumericChoices(q.choices) ? q.choices : null);
+      scoring = 'tolerance';
+    } else if (type === 'essay') {
+      scoring = 'rubric';
+    }
+
+    return {
+      question_number: index + 1,
+      question_id: q.id,
+      question_type: type,
+      correct_answer: correctAnswer,
+      answer_display: answerDisplay,
+      scoring,
+      question_text: q.question_text,
+      points: Number(q.points ?? q.metadata?.points) || 1,
+      bloom_level: q.bloom_level,
+      topic: q.topic
+    };
+  });
 }
 
 /**
@@ -9,6 +9,7 @@
  */
 
 import type { KnowledgeDimension, KnowledgeClassificationResult } from '@/types/knowledge';
+import { classifierText } from '@/lib/questionMarkup';
 
 // Factual knowledge indicators
 const FACTUAL_VERBS = [
@@ -67,7 +68,7 @@ const METACOGNITIVE_PHRASES = [
 export function classifyKnowledgeDimension(
   questionText: string
 ): KnowledgeClassificationResult | null {
-  const q = questionText.toLowerCase().trim();
+  const q = classifierText(questionText).toLowerCase().trim();
   
   // Score each dimension
   const scores = {
@@ -193,7 +194,7 @@ export function needsAIFallback(questionText: string): boolean {
  * Get all matching indicators for debugging/explainability
  */
 export function getMatchedIndicators(questionText: string): Record<KnowledgeDimension, string[]> {
-  const q = questionText.toLowerCase().trim();
+  const q = classifierText(questionText).toLowerCase().trim();
   
   return {
     factual: [
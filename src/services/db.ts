@@ -1,4 +1,5 @@
 import { supabase } from "@/integrations/supabase/client";
+import { TestVersions } from "./db/testVersions";
 
 // Profile operations
 export const getProfile = async () => {
@@ -120,6 +121,21 @@ export const Questions = {
     return data ?? [];
   },
 
+  /** Every question on the given stimuli, so a test can take a group whole */
+  async listForStimuli(stimulusIds: string[], approvedOnly = false) {
+    if (stimulusIds.length === 0) return [];
+    let query = supabase
+      .from('questions')
+      .select('*')
+      .in('stimulus_id', stimulusIds)
+      .eq('deleted', false);
+    if (approvedOnly) query = query.eq('approved', true);
+
+    const { data, error } = await query.order('created_at', { ascending: true });
+    if (error) throw error;
+    return data ?? [];
+  },
+
   async toggleApproval(id: string, approved: boolean, reason?: string) {
     const { data: { user } } = await supabase.auth.getUser();
     const { data, error } = await supabase
@@ -205,14 +221,8 @@ export const Tests = {
   },
 
   async getVersions(test_id: string) {
-    const { data, error } = await supabase
-      .from('test_versions')
-      .select('*')
-      .eq('test_metadata_id', test_id)
-      .order('created_at', { ascending: false });
-    
-    if (error) throw error;
-    return data ?? [];
+    const family = await TestVersions.loadFamily(test_id);
+    return family.versions;
   },
 
   async listMine() {
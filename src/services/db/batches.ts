@@ -0,0 +1,39 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+type TableName = keyof Database["public"]["Tables"];
+type TableRow<T extends TableName> = Database["public"]["Tables"][T]["Row"];
+
+// Checking column names against a table chosen at runtime is more than the
+// generated types can express; callers still name the table and row type
+const untyped = supabase as unknown as SupabaseClient;
+
+// Keeps `in` filters well inside URL length limits
+const ID_BATCH = 200;
+
+/**
+ * Rows whose `column` is one of `ids`, fetched a slice of ids at a time.
+ * `eq` adds equality filters to every batch.
+ */
+export async function selectInBatches<T extends TableName, Row = TableRow<T>>(
+  table: T,
+  column: string,
+  ids: string[],
+  select = "*",
+  eq: Record<string, string> = {}
+): Promise<Row[]> {
+  const rows: Row[] = [];
+  for (let i = 0; i < ids.length; i += ID_BATCH) {
+    let query = untyped
+      .from(table)
+      .select(select)
+      .in(column, ids.slice(i, i + ID_BATCH));
+    for (const [key, value] of Object.entries(eq)) query = query.eq(key, value);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    rows.push(...((data ?? []) as unknown as Row[]));
+  }
+  return rows;
+}
@@ -0,0 +1,135 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import type { FieldBenchmark } from "@/services/quality/classificationMetrics";
+import type { GoldField, GoldItem } from "@/services/quality/goldStandard";
+
+/** The classification code paths a benchmark run scores */
+export type BenchmarkClassifier = 'classify_bloom' | 'rule_based' | 'ml_classifier' | 'edge_function';
+
+export const BENCHMARK_CLASSIFIER_LABELS: Record<BenchmarkClassifier, string> = {
+  classify_bloom: 'classifyBloom heuristics',
+  rule_based: 'Rule-based classifier',
+  ml_classifier: 'ML classifier',
+  edge_function: 'classify-questions function',
+};
+
+export interface GoldSet {
+  id: string;
+  name: string;
+  description: string | null;
+  item_count: number;
+  created_at: string;
+}
+
+export interface BenchmarkResult {
+  id: string;
+  gold_set_id: string;
+  run_id: string;
+  classifier: BenchmarkClassifier;
+  classifier_version: string;
+  item_count: number;
+  failed_count: number;
+  metrics: Partial<Record<GoldField, FieldBenchmark>>;
+  created_at: string;
+}
+
+export type NewBenchmarkResult = Omit<BenchmarkResult, 'id' | 'gold_set_id' | 'run_id' | 'created_at'>;
+
+const ITEM_BATCH = 500;
+const PAGE_SIZE = 1000;
+const RESULT_COLUMNS = 'id, gold_set_id, run_id, classifier, classifier_version, item_count, failed_count, metrics, created_at';
+
+type ResultRow = Omit<BenchmarkResult, 'classifier' | 'metrics'> & { classifier: string; metrics: Json };
+
+const toResult = (row: ResultRow): BenchmarkResult => ({
+  ...row,
+  classifier: row.classifier as BenchmarkClassifier,
+  metrics: row.metrics as unknown as BenchmarkResult['metrics'],
+});
+
+export const ClassificationBenchmarks = {
+  async listGoldSets(): Promise<GoldSet[]> {
+    const { data, error } = await supabase
+      .from('classification_gold_sets')
+      .select('id, name, description, item_count, created_at')
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  /** Stores an uploaded set; the set is removed again if its items fail to save */
+  async createGoldSet(name: string, description: string | null, items: GoldItem[]): Promise<GoldSet> {
+    if (items.length === 0) throw new Error('A gold-standard set needs at least one labelled question');
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const { data: set, error } = await supabase
+      .from('classification_gold_sets')
+      .insert({ name, description, item_count: items.length, created_by: user?.id })
+      .select('id, name, description, item_count, created_at')
+      .single();
+    if (error) throw error;
+
+    for (let i = 0; i < items.length; i += ITEM_BATCH) {
+      const { error: itemError } = await supabase
+        .from('classification_gold_items')
+        .insert(items.slice(i, i + ITEM_BATCH).map(item => ({ ...item, gold_set_id: set.id })));
+      if (itemError) {
+        await supabase.from('classification_gold_sets').delete().eq('id', set.id);
+        throw itemError;
+      }
+    }
+    return set;
+  },
+
+  /** Deletes the set with its items and benchmark results */
+  async deleteGoldSet(id: string): Promise<void> {
+    const { error } = await supabase.from('classification_gold_sets').delete().eq('id', id);
+    if (error) throw error;
+  },
+
+  async goldItems(goldSetId: string): Promise<GoldItem[]> {
+    const items: GoldItem[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('classification_gold_items')
+        .select('question_text, question_type, topic, bloom_level, knowledge_dimension, difficulty')
+        .eq('gold_set_id', goldSetId)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+      if (error) throw error;
+      items.push(...((data ?? []) as GoldItem[]));
+      if (!data || data.length < PAGE_SIZE) return items;
+    }
+  },
+
+  /** Results of every run, oldest first, optionally for one set */
+  async listResults(goldSetId?: string): Promise<BenchmarkResult[]> {
+    let query = supabase
+      .from('classification_benchmark_results')
+      .select(RESULT_COLUMNS)
+      .order('created_at', { ascending: true });
+    if (goldSetId) query = query.eq('gold_set_id', goldSetId);
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data ?? []).map(toResult);
+  },
+
+  /** Records one run: a row per classifier, sharing a run id */
+  async saveRun(goldSetId: string, results: NewBenchmarkResult[]): Promise<BenchmarkResult[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    const runId = crypto.randomUUID();
+    const { data, error } = await supabase
+      .from('classification_benchmark_results')
+      .insert(results.map(result => ({
+        ...result,
+        metrics: result.metrics as unknown as Json,
+        gold_set_id: goldSetId,
+        run_id: runId,
+        created_by: user?.id,
+      })))
+      .select(RESULT_COLUMNS);
+    if (error) throw error;
+    return (data ?? []).map(toResult);
+  },
+};
@@ -0,0 +1,257 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { selectInBatches } from "./batches";
+import { RatingRecord, assignRaters } from "@/services/quality/multiRaterReview";
+
+export type ReviewStatus = 'rating' | 'adjudication' | 'resolved';
+
+export interface Rater {
+  id: string;
+  full_name: string;
+  email: string;
+  role: 'admin' | 'teacher';
+}
+
+/** A question as a rater sees it: no AI label and no other rater's answer */
+export interface AssignedRating {
+  rating_id: string;
+  review_id: string;
+  review_status: ReviewStatus;
+  question_id: string;
+  question_text: string;
+  question_type: string;
+  topic: string | null;
+  choices: Json | null;
+  bloom_level: string | null;
+  knowledge_dimension: string | null;
+  notes: string | null;
+  submitted_at: string | null;
+}
+
+export interface AdjudicationItem {
+  review_id: string;
+  question_id: string;
+  question_text: string;
+  question_type: string;
+  topic: string | null;
+  choices: Json | null;
+  /** Shuffled, without rater names */
+  ratings: Array<{ bloom_level: string; knowledge_dimension: string; notes: string | null }>;
+  created_at: string;
+}
+
+export interface ReviewCandidate {
+  id: string;
+  question_text: string;
+  topic: string;
+}
+
+export interface AssignmentResult {
+  assigned: number;
+  /** Questions that already have an open review */
+  skipped: number;
+}
+
+export const ClassificationReviews = {
+  /** Faculty who can be assigned as raters */
+  async listRaters(): Promise<Rater[]> {
+    const { data: roles, error: rolesError } = await supabase
+      .from('user_roles')
+      .select('user_id, role')
+      .in('role', ['admin', 'teacher']);
+    if (rolesError) throw rolesError;
+    if (!roles?.length) return [];
+
+    const { data: profiles, error } = await supabase
+      .from('profiles')
+      .select('id, full_name, email')
+      .in('id', roles.map(r => r.user_id))
+      .order('full_name', { ascending: true });
+    if (error) throw error;
+
+    const roleOf = new Map(roles.map(r => [r.user_id, r.role as Rater['role']]));
+    return (profiles ?? []).map(p => ({ ...p, role: roleOf.get(p.id)! }));
+  },
+
+  /** Questions that could be sent for review, oldest first; those with an open review are left out */
+  async candidates(filters: { topic?: string; unvalidatedOnly?: boolean; limit: number }): Promise<ReviewCandidate[]> {
+    const { data: open, error: openError } = await supabase
+      .from('classification_reviews')
+      .select('question_id')
+      .neq('status', 'resolved');
+    if (openError) throw openError;
+    const underReview = new Set((open ?? []).map(r => r.question_id));
+
+    let query = supabase
+      .from('questions')
+      .select('id, question_text, topic')
+      .eq('deleted', false);
+    if (filters.topic) query = query.eq('topic', filters.topic);
+    if (filters.unvalidatedOnly) query = query.or('validation_status.is.null,validation_status.neq.validated');
+    const { data, error } = await query
+      .order('created_at', { ascending: true })
+      .limit(filters.limit + underReview.size);
+    if (error) throw error;
+
+    return (data ?? []).filter(q => !underReview.has(q.id)).slice(0, filters.limit);
+  },
+
+  async statusCounts(): Promise<Record<ReviewStatus, number>> {
+    const counts: Record<ReviewStatus, number> = { rating: 0, adjudication: 0, resolved: 0 };
+    await Promise.all((Object.keys(counts) as ReviewStatus[]).map(async status => {
+      const { count, error } = await supabase
+        .from('classification_reviews')
+        .select('id', { count: 'exact', head: true })
+        .eq('status', status);
+      if (error) throw error;
+      counts[status] = count ?? 0;
+    }));
+    return counts;
+  },
+
+  /**
+   * Opens a review for each question with `ratersPerItem` raters, spreading
+   * the work so raters with fewer open ratings are picked first.
+   */
+  async assign(questionIds: string[], raterIds: string[], ratersPerItem: number): Promise<AssignmentResult> {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const reviews = await selectInBatches<'classification_reviews', { question_id: string; status: string }>(
+      'classification_reviews', 'question_id', questionIds, 'question_id, status'
+    );
+    const underReview = new Set(reviews.filter(r => r.status !== 'resolved').map(r => r.question_id));
+    const toAssign = questionIds.filter(id => !underReview.has(id));
+    if (toAssign.length === 0) return { assigned: 0, skipped: questionIds.length };
+
+    const { data: pending, error: pendingError } = await supabase
+      .from('classification_ratings')
+      .select('rater_id')
+      .in('rater_id', raterIds)
+      .is('submitted_at', null);
+    if (pendingError) throw pendingError;
+    const load: Record<string, number> = {};
+    (pending ?? []).forEach(r => { load[r.rater_id] = (load[r.rater_id] ?? 0) + 1; });
+
+    const assignments = assignRaters(toAssign, raterIds, ratersPerItem, load);
+    const { data: created, error } = await supabase
+      .from('classification_reviews')
+      .insert(assignments.map(a => ({ question_id: a.question_id, required_ratings: ratersPerItem, created_by: user?.id })))
+      .select('id, question_id');
+    if (error) throw error;
+
+    const reviewOf = new Map((created ?? []).map(r => [r.question_id, r.id]));
+    const { error: ratingError } = await supabase
+      .from('classification_ratings')
+      .insert(assignments.flatMap(a => a.rater_ids.map(raterId => ({ review_id: reviewOf.get(a.question_id)!, rater_id: raterId }))));
+    if (ratingError) {
+      await supabase.from('classification_reviews').delete().in('id', [...reviewOf.values()]);
+      throw ratingError;
+    }
+
+    return { assigned: assignments.length, skipped: questionIds.length - toAssign.length };
+  },
+
+  /** Withdraws an open review together with its ratings */
+  async cancel(reviewId: string): Promise<void> {
+    const { error } = await supabase
+      .from('classification_reviews')
+      .delete()
+      .eq('id', reviewId)
+      .neq('status', 'resolved');
+    if (error) throw error;
+  },
+
+  /** The signed-in rater's assignments, open ones first */
+  async myRatings(): Promise<AssignedRating[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const { data, error } = await supabase
+      .from('classification_ratings')
+      .select('id, review_id, bloom_level, knowledge_dimension, notes, submitted_at, classification_reviews(status, question_id, questions(question_text, question_type, topic, choices))')
+      .eq('rater_id', user.id)
+      .order('assigned_at', { ascending: true });
+    if (error) throw error;
+
+    return (data ?? [])
+      .filter(row => row.classification_reviews?.questions)
+      .map(row => {
+        const review = row.classification_reviews!;
+        return {
+          rating_id: row.id,
+          review_id: row.review_id,
+          review_status: review.status as ReviewStatus,
+          question_id: review.question_id,
+          question_text: review.questions!.question_text,
+          question_type: review.questions!.question_type,
+          topic: review.questions!.topic,
+          choices: review.questions!.choices,
+          bloom_level: row.bloom_level,
+          knowledge_dimension: row.knowledge_dimension,
+          notes: row.notes,
+          submitted_at: row.submitted_at,
+        };
+      })
+      .sort((a, b) => Number(!!a.submitted_at) - Number(!!b.submitted_at));
+  },
+
+  /** Records a rating; returns the review's status afterwards */
+  async submitRating(ratingId: string, bloomLevel: string, knowledgeDimension: string, notes?: string): Promise<ReviewStatus> {
+    const { data, error } = await supabase.rpc('submit_classification_rating', {
+      p_rating_id: ratingId,
+      p_bloom_level: bloomLevel,
+      p_knowledge_dimension: knowledgeDimension,
+      p_notes: notes ?? null,
+    });
+    if (error) throw error;
+    return data as ReviewStatus;
+  },
+
+  async adjudicationQueue(): Promise<AdjudicationItem[]> {
+    const { data, error } = await supabase.rpc('get_adjudication_queue');
+    if (error) throw error;
+    return (data ?? []).map(row => ({
+      ...row,
+      ratings: (row.ratings ?? []) as unknown as AdjudicationItem['ratings'],
+    }));
+  },
+
+  /** Settles a disagreement and writes the labels back to the question */
+  async adjudicate(reviewId: string, bloomLevel: string, knowledgeDimension: string, notes?: string): Promise<void> {
+    const { error } = await supabase.rpc('adjudicate_classification_review', {
+      p_review_id: reviewId,
+      p_bloom_level: bloomLevel,
+      p_knowledge_dimension: knowledgeDimension,
+      p_notes: notes ?? null,
+    });
+    if (error) throw error;
+  },
+
+  /** Every submitted rating with its question's topic and the final labels, for agreement statistics */
+  async submittedRatings(): Promise<RatingRecord[]> {
+    const records: RatingRecord[] = [];
+    const pageSize = 1000;
+    for (let from = 0; ; from += pageSize) {
+      const { data, error } = await supabase
+        .from('classification_ratings')
+        .select('review_id, rater_id, bloom_level, knowledge_dimension, classification_reviews(final_bloom_level, final_knowledge_dimension, questions(topic))')
+        .not('submitted_at', 'is', null)
+        .order('id', { ascending: true })
+        .range(from, from + pageSize - 1);
+      if (error) throw error;
+
+      for (const row of data ?? []) {
+        records.push({
+          review_id: row.review_id,
+          rater_id: row.rater_id,
+          topic: row.classification_reviews?.questions?.topic ?? null,
+          bloom_level: row.bloom_level!,
+          knowledge_dimension: row.knowledge_dimension!,
+          final_bloom_level: row.classification_reviews?.final_bloom_level ?? null,
+          final_knowledge_dimension: row.classification_reviews?.final_knowledge_dimension ?? null,
+        });
+      }
+      if (!data || data.length < pageSize) return records;
+    }
+  },
+};
@@ -0,0 +1,118 @@
+import { supabase } from "@/integrations/supabase/client";
+import {
+  EvaluationReport,
+  TextClassifierModel,
+  isTextClassifierModel,
+} from "../../../supabase/functions/_shared/textClassifier";
+
+export type ClassifierTarget = 'bloom_level' | 'knowledge_dimension' | 'difficulty';
+
+/** ml_models.model_name of each classifier ml-model-retraining trains */
+export const CLASSIFIER_MODEL_NAMES: Record<ClassifierTarget, string> = {
+  bloom_level: 'bloom_classifier',
+  knowledge_dimension: 'knowledge_classifier',
+  difficulty: 'difficulty_classifier',
+};
+
+export const CLASSIFIER_TARGET_LABELS: Record<ClassifierTarget, string> = {
+  bloom_level: "Bloom's level",
+  knowledge_dimension: 'Knowledge dimension',
+  difficulty: 'Difficulty',
+};
+
+export interface ClassifierPerformance {
+  holdout: EvaluationReport;
+  train_size: number;
+  holdout_size: number;
+  label_distribution: Record<string, number>;
+  sources: { validations: number; corrected_questions: number };
+}
+
+export interface ClassifierModelVersion {
+  id: string;
+  target: ClassifierTarget;
+  model_name: string;
+  model_version: string;
+  training_data_size: number;
+  accuracy_score: number | null;
+  f1_score: number | null;
+  is_active: boolean;
+  deployed_at: string | null;
+  created_at: string;
+  performance: ClassifierPerformance | null;
+}
+
+export interface ActiveClassifier {
+  id: string;
+  model_version: string;
+  model: TextClassifierModel;
+}
+
+export interface TrainingRunResult {
+  success: boolean;
+  message: string;
+  trained: Array<{ target: ClassifierTarget; model_version: string; accuracy: number; train_size: number; holdout_size: number }>;
+  skipped: Array<{ target: ClassifierTarget; reason: string }>;
+}
+
+const targetOf = (modelName: string) =>
+  (Object.keys(CLASSIFIER_MODEL_NAMES) as ClassifierTarget[]).find(t => CLASSIFIER_MODEL_NAMES[t] === modelName);
+
+export const ClassifierModels = {
+  /** Every trained version, newest first; weights are left out */
+  async listVersions(): Promise<ClassifierModelVersion[]> {
+    const { data, error } = await supabase
+      .from('ml_models')
+      .select('id, model_name, model_version, training_data_size, accuracy_score, f1_score, is_active, deployed_at, created_at, performance_metrics')
+      .in('model_name', Object.values(CLASSIFIER_MODEL_NAMES))
+      .not('weights', 'is', null)
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+    return (data ?? []).map(row => ({
+      id: row.id,
+      target: targetOf(row.model_name)!,
+      model_name: row.model_name,
+      model_version: row.model_version,
+      training_data_size: row.training_data_size ?? 0,
+      accuracy_score: row.accuracy_score,
+      f1_score: row.f1_score,
+      is_active: !!row.is_active,
+      deployed_at: row.deployed_at,
+      created_at: row.created_at ?? '',
+      performance: (row.performance_metrics as unknown as ClassifierPerformance) ?? null,
+    }));
+  },
+
+  /** The active version of each classifier that has one */
+  async active(): Promise<Partial<Record<ClassifierTarget, ActiveClassifier>>> {
+    const { data, error } = await supabase
+      .from('ml_models')
+      .select('id, model_name, model_version, weights')
+      .in('model_name', Object.values(CLASSIFIER_MODEL_NAMES))
+      .eq('is_active', true)
+      .not('weights', 'is', null);
+    if (error) throw error;
+
+    const active: Partial<Record<ClassifierTarget, ActiveClassifier>> = {};
+    for (const row of data ?? []) {
+      const target = targetOf(row.model_name);
+      if (target && isTextClassifierModel(row.weights)) {
+        active[target] = { id: row.id, model_version: row.model_version, model: row.weights };
+      }
+    }
+    return active;
+  },
+
+  /** Makes a version the one the classifier uses; earlier versions roll back this way */
+  async activate(id: string): Promise<void> {
+    const { error } = await supabase.rpc('activate_ml_model', { p_model_id: id });
+    if (error) throw error;
+  },
+
+  /** Trains new versions of all three classifiers from validated labels */
+  async train(): Promise<TrainingRunResult> {
+    const { data, error } = await supabase.functions.invoke('ml-model-retraining', { body: {} });
+    if (error) throw error;
+    return data as TrainingRunResult;
+  },
+};
@@ -0,0 +1,162 @@
+import { supabase } from "@/integrations/supabase/client";
+import {
+  BloomDistributionProfile,
+  DEFAULT_DISTRIBUTION_PROFILE,
+  normalizeBloomDistribution,
+} from "@/utils/tosCalculator";
+
+export interface DistributionProfileRow {
+  id: string;
+  name: string;
+  scope: 'institution' | 'department';
+  department: string | null;
+  weights: Record<string, number>;
+  is_default: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DistributionProfileInput {
+  name: string;
+  scope: 'institution' | 'department';
+  department?: string | null;
+  weights: Record<string, number>;
+  is_default?: boolean;
+}
+
+function toProfile(row: DistributionProfileRow): BloomDistributionProfile {
+  return {
+    id: row.id,
+    name: row.name,
+    scope: row.scope,
+    weights: normalizeBloomDistribution(row.weights),
+  };
+}
+
+export const DistributionProfiles = {
+  /**
+   * List institution profiles plus the profiles of one department.
+   * Institution profiles come first, defaults before the rest.
+   */
+  async list(department?: string | null): Promise<DistributionProfileRow[]> {
+    // Department names are free text, so they go through eq() rather than an or() filter string
+    const scoped = (scope: DistributionProfileRow['scope']) => {
+      let query = supabase
+        .from("bloom_distribution_profiles")
+        .select("*")
+        .eq("scope", scope);
+      if (scope === 'department') query = query.eq("department", department!);
+      return query
+        .order("is_default", { ascending: false })
+        .order("name", { ascending: true });
+    };
+
+    const [institution, own] = await Promise.all([
+      scoped('institution'),
+      department ? scoped('department') : Promise.resolve({ data: [], error: null }),
+    ]);
+    if (institution.error) throw institution.error;
+    if (own.error) throw own.error;
+    return [...(institution.data ?? []), ...(own.data ?? [])] as DistributionProfileRow[];
+  },
+
+  async listAll(): Promise<DistributionProfileRow[]> {
+    const { data, error } = await supabase
+      .from("bloom_distribution_profiles")
+      .select("*")
+      .order("scope", { ascending: false })
+      .order("department", { ascending: true })
+      .order("name", { ascending: true });
+
+    if (error) throw error;
+    return (data ?? []) as DistributionProfileRow[];
+  },
+
+  async create(payload: DistributionProfileInput) {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const weights = normalizeBloomDistribution(payload.weights);
+
+    const { data, error } = await supabase
+      .from("bloom_distribution_profiles")
+      .insert({
+        name: payload.name,
+        scope: payload.scope,
+        department: payload.scope === 'department' ? payload.department : null,
+        weights,
+        created_by: user.id,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return payload.is_default ? this.setDefault(data.id) : data as DistributionProfileRow;
+  },
+
+  async update(id: string, patch: Partial<DistributionProfileInput>) {
+    const { is_default, ...rest } = patch;
+    const update: Record<string, unknown> = { ...rest };
+    if (patch.weights) {
+      update.weights = normalizeBloomDistribution(patch.weights);
+    }
+    if (is_default === false) update.is_default = false;
+
+    const { data, error } = await supabase
+      .from("bloom_distribution_profiles")
+      .update(update)
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return is_default ? this.setDefault(id) : data as DistributionProfileRow;
+  },
+
+  /**
+   * Make a profile the default of its institution / department. The previous
+   * default is cleared in the same database call, whoever created it.
+   */
+  async setDefault(id: string): Promise<DistributionProfileRow> {
+    const { error: rpcError } = await supabase.rpc("set_default_distribution_profile", { p_profile_id: id });
+    if (rpcError) throw rpcError;
+
+    const { data, error } = await supabase
+      .from("bloom_distribution_profiles")
+      .select("*")
+      .eq("id", id)
+      .single();
+
+    if (error) throw error;
+    return data as DistributionProfileRow;
+  },
+
+  async delete(id: string) {
+    const { error } = await supabase
+      .from("bloom_distribution_profiles")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw error;
+  },
+
+  /**
+   * Resolve the profile a new TOS should start from:
+   * department default, then institution default, then the built-in standard split.
+   */
+  async resolveDefault(department?: string | null): Promise<BloomDistributionProfile> {
+    try {
+      const rows = await this.list(department);
+      const departmentDefault = rows.find(r => r.scope === 'department' && r.is_default);
+      const institutionDefault = rows.find(r => r.scope === 'institution' && r.is_default);
+      const chosen = departmentDefault ?? institutionDefault;
+      return chosen ? toProfile(chosen) : DEFAULT_DISTRIBUTION_PROFILE;
+    } catch (error) {
+      console.warn('Falling back to standard Bloom distribution:', error);
+      return DEFAULT_DISTRIBUTION_PROFILE;
+    }
+  },
+
+  toProfile,
+};
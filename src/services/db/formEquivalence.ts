@@ -0,0 +1,82 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import type { FormEquivalenceReport } from "@/services/testAssembly/equivalentForms";
+import { selectInBatches } from "./batches";
+
+export interface EquivalenceGroupRow {
+  id: string;
+  group_name: string;
+  description: string | null;
+  target_difficulty: number | null;
+  target_reliability: number | null;
+  /** The FormEquivalenceReport the group was saved with */
+  statistical_metrics: unknown;
+  created_by: string;
+  created_at: string;
+}
+
+type AnalysisRow = Pick<Tables<"psychometric_analyses">, "question_id" | "difficulty_index" | "sample_size">;
+
+export const FormEquivalence = {
+  /**
+   * Attach each question's historical proportion correct as `p_value`: the
+   * sample-size weighted mean over every stored item analysis of the question.
+   */
+  async attachPValues<T extends { id: string }>(questions: T[]): Promise<(T & { p_value?: number })[]> {
+    const totals = new Map<string, { sum: number; weight: number }>();
+    const ids = questions.map(q => q.id);
+
+    const analyses = await selectInBatches<"psychometric_analyses", AnalysisRow>(
+      "psychometric_analyses",
+      "question_id",
+      ids,
+      "question_id, difficulty_index, sample_size",
+      { analysis_type: "item_analysis" }
+    );
+    for (const row of analyses) {
+      if (row.difficulty_index == null) continue;
+      const weight = Math.max(1, Number(row.sample_size) || 0);
+      const entry = totals.get(row.question_id) ?? { sum: 0, weight: 0 };
+      entry.sum += Number(row.difficulty_index) * weight;
+      entry.weight += weight;
+      totals.set(row.question_id, entry);
+    }
+
+    return questions.map(q => {
+      const entry = totals.get(q.id);
+      return entry ? { ...q, p_value: entry.sum / entry.weight } : q;
+    });
+  },
+
+  async saveGroup(name: string, description: string | null, report: FormEquivalenceReport): Promise<EquivalenceGroupRow> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error("Not authenticated");
+
+    const average = (values: number[]) => values.reduce((a, b) => a + b, 0) / Math.max(1, values.length);
+    const { data, error } = await supabase
+      .from("test_equivalence_groups")
+      .insert({
+        group_name: name,
+        description,
+        target_difficulty: average(report.forms.map(f => f.meanProportion)),
+        target_reliability: average(report.forms.map(f => f.reliability)),
+        statistical_metrics: report as unknown as Json,
+        created_by: user.id,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async listGroups(): Promise<EquivalenceGroupRow[]> {
+    const { data, error } = await supabase
+      .from("test_equivalence_groups")
+      .select("*")
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+    return data ?? [];
+  },
+};
@@ -3,6 +3,16 @@ export { Questions } from './questions';
 export { Rubrics } from './rubrics';
 export { TOS } from './tos';
 export { GeneratedTests } from './generatedTests';
+export { DistributionProfiles } from './distributionProfiles';
+export { ItemResponses } from './itemResponses';
+export { IrtParameters } from './irtParameters';
+export { Stimuli } from './stimuli';
+export { QuestionMedia } from './questionMedia';
+export { QuestionRevisions } from './questionRevisions';
+export { LlmSettings } from './llmSettings';
+export { ClassifierModels } from './classifierModels';
+export { ClassificationBenchmarks } from './classificationBenchmarks';
+export { ClassificationReviews } from './classificationReviews';
 
 // Activity Log service with simplified interface
 import { supabase } from "@/integrations/supabase/client";
@@ -0,0 +1,220 @@
+import { supabase } from "@/integrations/supabase/client";
+import { selectInBatches } from "./batches";
+import {
+  CalibrationOptions,
+  CalibrationResult,
+  DichotomousResponse,
+  ImportedIrtParameters,
+  IrtItemParameters,
+  IrtModel,
+  calibrateIrt,
+} from "@/services/psychometrics/irt";
+
+export interface QuestionIrtParameterRow {
+  id: string;
+  question_id: string;
+  calibration_id: string | null;
+  model: string;
+  a: number;
+  b: number;
+  c: number;
+  se_a: number | null;
+  se_b: number | null;
+  se_c: number | null;
+  response_count: number;
+  p_value: number | null;
+  /** 'calibration' when estimated from bank responses, 'import' when loaded from a file */
+  source: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface IrtCalibrationRow {
+  id: string;
+  model: string;
+  item_count: number;
+  excluded_count: number;
+  examinee_count: number;
+  response_count: number;
+  iterations: number;
+  converged: boolean;
+  log_likelihood: number | null;
+  aic: number | null;
+  bic: number | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+const PAGE_SIZE = 1000;
+
+export const IrtParameters = {
+  /**
+   * Every scored response linked to a bank question, across all administrations.
+   * An examinee is one test assignment; partial credit below full marks counts as incorrect.
+   */
+  async loadResponses(): Promise<DichotomousResponse[]> {
+    const responses: DichotomousResponse[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from("item_responses")
+        .select("assignment_id, question_id, score, max_score, is_correct")
+        .not("question_id", "is", null)
+        .order("id", { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+      if (error) throw error;
+
+      for (const row of data ?? []) {
+        responses.push({
+          examineeId: row.assignment_id,
+          itemId: row.question_id,
+          correct: row.is_correct ?? Number(row.score) >= Number(row.max_score),
+        });
+      }
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+    return responses;
+  },
+
+  /**
+   * Calibrate the bank from all stored responses and save the parameters.
+   * Existing parameters for the same model are replaced; items that could not be
+   * calibrated this time keep their previous values.
+   */
+  async calibrateBank(options: CalibrationOptions): Promise<{ calibration: IrtCalibrationRow; result: CalibrationResult }> {
+    const responses = await this.loadResponses();
+    const result = calibrateIrt(responses, options);
+    const calibration = await this.saveCalibration(result, responses.length);
+    return { calibration, result };
+  },
+
+  async saveCalibration(result: CalibrationResult, responseCount: number): Promise<IrtCalibrationRow> {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const { data: calibration, error } = await supabase
+      .from("irt_calibrations")
+      .insert({
+        model: result.model,
+        item_count: result.items.length,
+        excluded_count: result.excluded.length,
+        examinee_count: result.examineeCount,
+        response_count: responseCount,
+        iterations: result.iterations,
+        converged: result.converged,
+        log_likelihood: result.logLikelihood,
+        aic: result.aic,
+        bic: result.bic,
+        created_by: user?.id ?? null,
+      })
+      .select()
+      .single();
+    if (error) throw error;
+
+    const finite = (value: number | null) => (value != null && Number.isFinite(value) ? value : null);
+    const rows = result.items.map(item => ({
+      question_id: item.itemId,
+      calibration_id: calibration.id,
+      model: result.model,
+      a: item.a,
+      b: item.b,
+      c: item.c,
+      se_a: finite(item.seA),
+      se_b: finite(item.seB),
+      se_c: finite(item.seC),
+      response_count: item.responseCount,
+      p_value: item.pValue,
+      source: "calibration",
+    }));
+
+    for (let i = 0; i < rows.length; i += PAGE_SIZE) {
+      const { error: upsertError } = await supabase
+        .from("question_irt_parameters")
+        .upsert(rows.slice(i, i + PAGE_SIZE), { onConflict: "question_id,model" });
+      if (upsertError) throw upsertError;
+    }
+
+    return calibration;
+  },
+
+  async getForQuestion(questionId: string): Promise<QuestionIrtParameterRow[]> {
+    const { data, error } = await supabase
+      .from("question_irt_parameters")
+      .select("*")
+      .eq("question_id", questionId)
+      .order("model", { ascending: true });
+
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  async listForQuestions(questionIds: string[], model?: IrtModel): Promise<QuestionIrtParameterRow[]> {
+    return selectInBatches("question_irt_parameters", "question_id", questionIds, "*", model ? { model } : {});
+  },
+
+  /**
+   * Store externally calibrated parameters. Questions that already have calibrated
+   * parameters for the same model keep them; earlier imports are overwritten.
+   */
+  async importParameters(rows: ImportedIrtParameters[]): Promise<{ imported: number; skipped: string[] }> {
+    const existing = await this.listForQuestions([...new Set(rows.map(r => r.questionId))]);
+    const calibrated = new Set(
+      existing.filter(r => r.source === "calibration").map(r => `${r.question_id}:${r.model}`)
+    );
+
+    const skipped: string[] = [];
+    const payload = rows
+      .filter(row => {
+        if (!calibrated.has(`${row.questionId}:${row.model}`)) return true;
+        skipped.push(row.questionId);
+        return false;
+      })
+      .map(row => ({
+        question_id: row.questionId,
+        calibration_id: null,
+        model: row.model,
+        a: row.a,
+        b: row.b,
+        c: row.c,
+        se_a: null,
+        se_b: null,
+        se_c: null,
+        response_count: 0,
+        p_value: null,
+        source: "import",
+      }));
+
+    for (let i = 0; i < payload.length; i += PAGE_SIZE) {
+      const { error } = await supabase
+        .from("question_irt_parameters")
+        .upsert(payload.slice(i, i + PAGE_SIZE), { onConflict: "question_id,model" });
+      if (error) throw error;
+    }
+
+    return { imported: payload.length, skipped };
+  },
+
+  /**
+   * Attach stored parameters of one model to a question pool as `irt`.
+   * Questions without parameters for that model are returned unchanged.
+   */
+  async attachToQuestions<T extends { id: string }>(
+    questions: T[],
+    model: IrtModel
+  ): Promise<(T & { irt?: IrtItemParameters })[]> {
+    const rows = await this.listForQuestions(questions.map(q => q.id), model);
+    const byQuestion = new Map<string, IrtItemParameters>(
+      rows.map(r => [r.question_id, { a: Number(r.a), b: Number(r.b), c: Number(r.c) }])
+    );
+    return questions.map(q => (byQuestion.has(q.id) ? { ...q, irt: byQuestion.get(q.id) } : q));
+  },
+
+  async latestCalibrations(limit = 5): Promise<IrtCalibrationRow[]> {
+    const { data, error } = await supabase
+      .from("irt_calibrations")
+      .select("*")
+      .order("created_at", { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return data ?? [];
+  },
+};
@@ -0,0 +1,237 @@
+import { supabase } from "@/integrations/supabase/client";
+import { selectInBatches } from "./batches";
+import { ScoredItem, VersionAnswerKey, buildVersionKey } from "@/services/scoring/answerSheet";
+import { TestVersions } from "./testVersions";
+
+export type ResponseSource = 'keyboard' | 'csv' | 'scan';
+
+/** How a scanned item was read; stored with the response for the review queue */
+export interface ScanReadMeta {
+  confidence: number;
+  needsReview: boolean;
+  status: string;
+  suggestion: string | null;
+  fills: Record<string, number>;
+}
+
+export interface ItemResponseRow {
+  id: string;
+  assignment_id: string;
+  test_id: string;
+  item_number: number;
+  question_id: string | null;
+  response: string | null;
+  canonical_response: string | null;
+  score: number;
+  max_score: number;
+  is_correct: boolean | null;
+  source: string;
+  confidence: number | null;
+  needs_review: boolean;
+  /** ScanReadMeta fields for scanned sheets */
+  scan_data: unknown;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TestAssignmentRow {
+  id: string;
+  student_id: string;
+  student_name: string;
+  test_version_id: string;
+  seat_number: string | null;
+  status: string;
+  submitted_at: string | null;
+}
+
+export interface AnswerSheetContext {
+  title: string;
+  /** One scoring key per version of the test family */
+  keys: VersionAnswerKey[];
+  assignments: TestAssignmentRow[];
+  /** Saved responses grouped by assignment id */
+  responses: Record<string, ItemResponseRow[]>;
+}
+
+// PostgREST returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+
+/**
+ * Stored responses of the given versions in sheet order, a page at a time.
+ * `needsReview` limits them to scanned items flagged for review.
+ */
+async function loadResponses(testIds: string[], needsReview = false): Promise<ItemResponseRow[]> {
+  const rows: ItemResponseRow[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase
+      .from("item_responses")
+      .select("*")
+      .in("test_id", testIds);
+    if (needsReview) query = query.eq("needs_review", true);
+
+    const { data, error } = await query
+      .order("assignment_id", { ascending: true })
+      .order("item_number", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+export const ItemResponses = {
+  /**
+   * Load everything needed to enter answer sheets for a test: every version in its
+   * family, their keys, the assigned students and saved responses.
+   */
+  async loadSheetContext(testId: string): Promise<AnswerSheetContext> {
+    const { title, versions } = await TestVersions.loadFamily(testId);
+
+    const questionIds = new Set<string>();
+    for (const v of versions) {
+      v.question_order.forEach(id => questionIds.add(id));
+    }
+
+    const canonicalChoices: Record<string, unknown> = {};
+    if (questionIds.size > 0) {
+      const questions = await selectInBatches<"questions", { id: string; choices: unknown }>(
+        "questions", "id", [...questionIds], "id, choices"
+      );
+      questions.forEach(q => { canonicalChoices[q.id] = q.choices; });
+    }
+
+    const keys = versions.map(v => buildVersionKey(v, canonicalChoices));
+    const versionIds = versions.map(v => v.id);
+
+    const { data: assignments, error: assignmentError } = await supabase
+      .from("test_assignments")
+      .select("*")
+      .in("test_version_id", versionIds)
+      .order("student_name", { ascending: true });
+    if (assignmentError) throw assignmentError;
+
+    const responses: Record<string, ItemResponseRow[]> = {};
+    if ((assignments ?? []).length > 0) {
+      for (const row of await loadResponses(versionIds)) {
+        if (!responses[row.assignment_id]) responses[row.assignment_id] = [];
+        responses[row.assignment_id].push(row);
+      }
+    }
+
+    return { title, keys, assignments: assignments ?? [], responses };
+  },
+
+  async listForAssignment(assignmentId: string): Promise<ItemResponseRow[]> {
+    const { data, error } = await supabase
+      .from("item_responses")
+      .select("*")
+      .eq("assignment_id", assignmentId)
+      .order("item_number", { ascending: true });
+
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  /**
+   * Replace the stored answer sheet of one assignment with freshly scored items.
+   * Scanned sheets pass the read metadata per item number; low-confidence items
+   * are flagged for manual review.
+   */
+  async saveSheet(
+    assignment: TestAssignmentRow,
+    scored: ScoredItem[],
+    source: ResponseSource,
+    scanMeta: Record<number, ScanReadMeta> = {}
+  ) {
+    const rows = scored.map(item => ({
+      assignment_id: assignment.id,
+      test_id: assignment.test_version_id,
+      item_number: item.itemNumber,
+      question_id: item.questionId,
+      response: item.response,
+      canonical_response: item.canonicalResponse,
+      score: item.score,
+      max_score: item.maxScore,
+      is_correct: item.isCorrect,
+      source,
+      confidence: scanMeta[item.itemNumber]?.confidence ?? null,
+      needs_review: scanMeta[item.itemNumber]?.needsReview ?? false,
+      scan_data: scanMeta[item.itemNumber]
+        ? {
+            status: scanMeta[item.itemNumber].status,
+            suggestion: scanMeta[item.itemNumber].suggestion,
+            fills: scanMeta[item.itemNumber].fills,
+          }
+        : null,
+    }));
+
+    const { data, error } = await supabase
+      .from("item_responses")
+      .upsert(rows, { onConflict: "assignment_id,item_number" })
+      .select();
+    if (error) throw error;
+
+    const { error: statusError } = await supabase
+      .from("test_assignments")
+      .update({ status: 'completed', submitted_at: assignment.submitted_at ?? new Date().toISOString() })
+      .eq("id", assignment.id);
+    if (statusError) throw statusError;
+
+    return data ?? [];
+  },
+
+  /** Scanned items flagged for manual review, across the given versions */
+  async listReviewQueue(testIds: string[]): Promise<ItemResponseRow[]> {
+    if (testIds.length === 0) return [];
+    return loadResponses(testIds, true);
+  },
+
+  /**
+   * Record the reviewer's reading of a flagged item and clear the flag.
+   */
+  async resolveReview(rowId: string, scored: ScoredItem) {
+    const { data, error } = await supabase
+      .from("item_responses")
+      .update({
+        response: scored.response,
+        canonical_response: scored.canonicalResponse,
+        score: scored.score,
+        is_correct: scored.isCorrect,
+        needs_review: false,
+      })
+      .eq("id", rowId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async clearSheet(assignmentId: string) {
+    const { error } = await supabase
+      .from("item_responses")
+      .delete()
+      .eq("assignment_id", assignmentId);
+
+    if (error) throw error;
+  },
+
+  async addStudent(testVersionId: string, studentId: string, studentName: string) {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data, error } = await supabase
+      .from("test_assignments")
+      .insert({
+        test_version_id: testVersionId,
+        student_id: studentId,
+        student_name: studentName,
+        assigned_by: user.id,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+};
@@ -0,0 +1,87 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+
+/** Mirrors LlmSettings in supabase/functions/_shared/llm.ts */
+export type LlmProviderKind = 'openai' | 'openai_compatible' | 'self_hosted' | 'offline';
+export type EmbeddingBackend = 'provider' | 'local';
+
+export interface LlmProviderConfig {
+  provider: LlmProviderKind;
+  model: string;
+  base_url?: string;
+  /** Name of the edge function secret holding the API key; keys are never stored in settings */
+  api_key_env?: string;
+  temperature?: number;
+  max_tokens?: number;
+  embedding_model?: string;
+  embedding_dimensions?: number;
+  /** 'local' embeds on the CPU with the hashing model instead of calling the provider */
+  embedding_backend?: EmbeddingBackend;
+}
+
+export interface LlmProviderSetting {
+  /** null for the deployment-wide default */
+  institution: string | null;
+  config: LlmProviderConfig;
+  updated_at: string;
+}
+
+export const LLM_PROVIDER_LABELS: Record<LlmProviderKind, string> = {
+  openai: 'OpenAI',
+  openai_compatible: 'OpenAI-compatible endpoint',
+  self_hosted: 'Self-hosted (Ollama, llama.cpp)',
+  offline: 'Offline templates (no network)',
+};
+
+const SETTINGS_KEY = 'llm_provider';
+
+/** Mirrors isAllowedKeyEnv in the edge functions, which refuse any other secret */
+export function isAllowedKeyEnv(name: string): boolean {
+  return name === 'OPENAI_API_KEY' || name === 'LOVABLE_API_KEY' || /^LLM_[A-Z0-9_]+_KEY$/.test(name);
+}
+
+const keyFor = (institution: string | null) => (institution ? `${SETTINGS_KEY}:${institution}` : SETTINGS_KEY);
+
+export const LlmSettings = {
+  async list(): Promise<LlmProviderSetting[]> {
+    const { data, error } = await supabase
+      .from('system_settings')
+      .select('key, value, updated_at')
+      .or(`key.eq.${SETTINGS_KEY},key.like.${SETTINGS_KEY}:*`);
+    if (error) throw error;
+    return (data ?? [])
+      .map(row => ({
+        institution: row.key === SETTINGS_KEY ? null : row.key.slice(SETTINGS_KEY.length + 1),
+        config: row.value as unknown as LlmProviderConfig,
+        updated_at: row.updated_at,
+      }))
+      .sort((a, b) => (a.institution ?? '').localeCompare(b.institution ?? ''));
+  },
+
+  async save(institution: string | null, config: LlmProviderConfig): Promise<void> {
+    if (config.api_key_env && !isAllowedKeyEnv(config.api_key_env)) {
+      throw new Error('API key secret must be OPENAI_API_KEY, LOVABLE_API_KEY or named LLM_<NAME>_KEY');
+    }
+    const { data: { user } } = await supabase.auth.getUser();
+    const { error } = await supabase
+      .from('system_settings')
+      .upsert(
+        { key: keyFor(institution), value: config as unknown as Json, updated_at: new Date().toISOString(), updated_by: user?.id },
+        { onConflict: 'key' }
+      );
+    if (error) throw error;
+  },
+
+  /** Institutions fall back to the default; removing the default falls back to the deployment's keys */
+  async remove(institution: string | null): Promise<void> {
+    const { error } = await supabase.from('system_settings').delete().eq('key', keyFor(institution));
+    if (error) throw error;
+  },
+
+  /** Institutions named on user profiles, offered when adding an override */
+  async institutions(): Promise<string[]> {
+    const { data, error } = await supabase.from('profiles').select('institution').not('institution', 'is', null);
+    if (error) throw error;
+    return [...new Set((data ?? []).map(p => p.institution as string).filter(Boolean))].sort();
+  },
+};
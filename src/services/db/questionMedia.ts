@@ -0,0 +1,131 @@
+import { supabase } from "@/integrations/supabase/client";
+import {
+  AttachmentPlacement,
+  ImportedImage,
+  QuestionAttachment,
+  attachmentKey,
+  dataUrlBytes,
+  extensionForMimeType,
+  mimeTypeFromName,
+} from "@/types/attachments";
+
+export const QUESTION_MEDIA_BUCKET = 'question-media';
+
+/** Matches the bucket's file_size_limit */
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+// Long enough to print or export a test in one sitting
+const SIGNED_URL_SECONDS = 60 * 60;
+const PATH_BATCH = 100;
+
+async function imageSize(blob: Blob): Promise<{ width: number; height: number } | null> {
+  if (typeof createImageBitmap !== 'function') return null;
+  try {
+    const bitmap = await createImageBitmap(blob);
+    const size = { width: bitmap.width, height: bitmap.height };
+    bitmap.close();
+    return size;
+  } catch {
+    // SVG and some formats cannot be decoded to a bitmap; exports fall back to 4:3
+    return null;
+  }
+}
+
+export const QuestionMedia = {
+  /** Upload a file into the signed-in user's folder and describe it as an attachment */
+  async upload(
+    file: Blob,
+    name: string,
+    options: { placement?: AttachmentPlacement; alt?: string } = {}
+  ): Promise<QuestionAttachment> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Sign in to upload attachments');
+    if (file.size > MAX_ATTACHMENT_BYTES) throw new Error(`${name} is larger than 10 MB`);
+
+    const mimeType = file.type || mimeTypeFromName(name);
+    const id = crypto.randomUUID();
+    const path = `${user.id}/${id}.${extensionForMimeType(mimeType)}`;
+    const { error } = await supabase.storage
+      .from(QUESTION_MEDIA_BUCKET)
+      .upload(path, file, { contentType: mimeType, upsert: false });
+    if (error) throw error;
+
+    const size = mimeType.startsWith('image/') ? await imageSize(file) : null;
+    return {
+      id,
+      path,
+      name,
+      mime_type: mimeType,
+      alt: options.alt ?? '',
+      size: 'medium',
+      placement: options.placement ?? 'stem',
+      ...(size ?? {}),
+    };
+  },
+
+  /** Upload the images an import carried as data: URLs */
+  async uploadImported(images: ImportedImage[]): Promise<QuestionAttachment[]> {
+    const attachments: QuestionAttachment[] = [];
+    for (const image of images) {
+      const decoded = dataUrlBytes(image.src);
+      if (!decoded) continue;
+      attachments.push(await this.upload(new Blob([decoded.bytes], { type: decoded.mimeType }), image.name, {
+        placement: image.placement,
+        alt: image.alt,
+      }));
+    }
+    return attachments;
+  },
+
+  async remove(paths: string[]): Promise<void> {
+    if (paths.length === 0) return;
+    const { error } = await supabase.storage.from(QUESTION_MEDIA_BUCKET).remove(paths);
+    if (error) throw error;
+  },
+
+  /** Short-lived URLs for displaying attachments, keyed by attachmentKey */
+  async signedUrls(attachments: QuestionAttachment[]): Promise<Record<string, string>> {
+    const urls: Record<string, string> = {};
+    const paths = [...new Set(attachments.map(a => a.path).filter((p): p is string => !!p))];
+    for (let i = 0; i < paths.length; i += PATH_BATCH) {
+      const { data, error } = await supabase.storage
+        .from(QUESTION_MEDIA_BUCKET)
+        .createSignedUrls(paths.slice(i, i + PATH_BATCH), SIGNED_URL_SECONDS);
+      if (error) throw error;
+      for (const entry of data ?? []) {
+        if (entry.path && entry.signedUrl) urls[entry.path] = entry.signedUrl;
+      }
+    }
+    for (const attachment of attachments) {
+      if (!attachment.path && attachment.url) urls[attachmentKey(attachment)] = attachment.url;
+    }
+    return urls;
+  },
+
+  /**
+   * The bytes of each attachment, keyed by attachmentKey, for exports that
+   * embed the media (DOCX, PDF, QTI, Moodle XML). Files that cannot be fetched
+   * are left out and the exports print their alt text instead.
+   */
+  async download(attachments: QuestionAttachment[]): Promise<Record<string, Uint8Array>> {
+    const media: Record<string, Uint8Array> = {};
+    for (const attachment of attachments) {
+      const key = attachmentKey(attachment);
+      if (media[key]) continue;
+      try {
+        if (attachment.path) {
+          const { data, error } = await supabase.storage.from(QUESTION_MEDIA_BUCKET).download(attachment.path);
+          if (error) throw error;
+          media[key] = new Uint8Array(await data.arrayBuffer());
+        } else if (attachment.url) {
+          const response = await fetch(attachment.url);
+          if (!response.ok) throw new Error(`HTTP ${response.status}`);
+          media[key] = new Uint8Array(await response.arrayBuffer());
+        }
+      } catch (error) {
+        console.warn(`Could not load attachment ${attachment.name}:`, error);
+      }
+    }
+    return media;
+  },
+};
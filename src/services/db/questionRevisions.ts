@@ -0,0 +1,93 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Json } from "@/integrations/supabase/types";
+import { Classification, QuestionSnapshot, SNAPSHOT_FIELDS, toSnapshot } from "@/lib/revisionDiff";
+import { Question, QuestionUpdate, Questions } from "./questions";
+import { selectInBatches } from "./batches";
+
+type RevisionRow = Database['public']['Tables']['question_revisions']['Row'];
+
+export interface QuestionRevision extends Omit<RevisionRow, 'snapshot' | 'classification_before' | 'classification_after'> {
+  snapshot: QuestionSnapshot;
+  classification_before: Classification | null;
+  classification_after: Classification;
+  /** Full name of the editor, when their profile is visible */
+  author_name?: string | null;
+}
+
+/** A question a test pins at an older revision than the bank now holds */
+export interface PinnedRevisionDrift {
+  question_id: string;
+  pinned: number;
+  current: number;
+}
+
+function toRevision(row: RevisionRow): QuestionRevision {
+  return {
+    ...row,
+    snapshot: toSnapshot(row.snapshot),
+    classification_before: row.classification_before as unknown as Classification | null,
+    classification_after: row.classification_after as unknown as Classification,
+  };
+}
+
+/**
+ * Read side of question history. Revisions are written by database triggers
+ * whenever a question's content or classification changes and are never edited.
+ */
+export const QuestionRevisions = {
+  /** Newest first, with editors' names */
+  async list(questionId: string): Promise<QuestionRevision[]> {
+    const { data, error } = await supabase
+      .from('question_revisions')
+      .select('*')
+      .eq('question_id', questionId)
+      .order('revision_number', { ascending: false });
+    if (error) throw error;
+
+    const authorIds = [...new Set((data ?? []).map(r => r.created_by).filter(Boolean))] as string[];
+    const names: Record<string, string> = {};
+    if (authorIds.length) {
+      const { data: profiles } = await supabase.from('profiles').select('id, full_name').in('id', authorIds);
+      for (const profile of profiles ?? []) names[profile.id] = profile.full_name;
+    }
+    return (data ?? []).map(row => ({ ...toRevision(row), author_name: row.created_by ? names[row.created_by] ?? null : null }));
+  },
+
+  async getMany(ids: string[]): Promise<Record<string, QuestionRevision>> {
+    const unique = [...new Set(ids.filter(Boolean))];
+    const rows = await selectInBatches('question_revisions', 'id', unique);
+    return Object.fromEntries(rows.map(row => [row.id, toRevision(row)]));
+  },
+
+  /**
+   * Restores a question to an earlier revision. The restore is itself a new
+   * revision, so rolling back never loses the edits it undoes.
+   */
+  async rollback(questionId: string, revision: QuestionRevision, reason?: string): Promise<Question> {
+    const updates = Object.fromEntries(SNAPSHOT_FIELDS.map(field => [field, revision.snapshot[field] as Json])) as Partial<QuestionUpdate>;
+    const note = `Rolled back to revision ${revision.revision_number}${reason?.trim() ? `: ${reason.trim()}` : ''}`;
+    return Questions.update(questionId, updates, note);
+  },
+
+  /** Questions edited since the test was generated, from its `question_revisions` pins */
+  async driftForTest(pins: Json | null | undefined): Promise<PinnedRevisionDrift[]> {
+    const pinned = pins && typeof pins === 'object' && !Array.isArray(pins) ? (pins as Record<string, string>) : {};
+    const revisions = await this.getMany(Object.values(pinned));
+    const questionIds = Object.keys(pinned);
+    const rows = await selectInBatches<'questions', { id: string; revision_number: number }>(
+      'questions',
+      'id',
+      questionIds,
+      'id, revision_number'
+    );
+    const current: Record<string, number> = Object.fromEntries(rows.map(row => [row.id, row.revision_number]));
+
+    return questionIds.flatMap(questionId => {
+      const revision = revisions[pinned[questionId]];
+      const latest = current[questionId];
+      return revision && latest && latest > revision.revision_number
+        ? [{ question_id: questionId, pinned: revision.revision_number, current: latest }]
+        : [];
+    });
+  },
+};
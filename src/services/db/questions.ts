@@ -2,6 +2,7 @@
 import { supabase } from "@/integrations/supabase/client";
 import type { Database } from "@/integrations/supabase/types";
 import type { KnowledgeDimension } from "@/types/knowledge";
+import type { QuestionKind } from "@/types/questionTypes";
 import { quickClassifyKnowledgeDimension } from "@/services/analysis/knowledgeDeterminer";
 
 export type Question = Database['public']['Tables']['questions']['Row'];
@@ -27,7 +28,7 @@ export function convertQuestion(dbQuestion: Question): Question & { correct_answ
     ...dbQuestion,
     correct_answer: dbQuestion.correct_answer || '',
     choices: dbQuestion.choices as any,
-    question_type: dbQuestion.question_type as 'mcq' | 'true_false' | 'essay' | 'short_answer',
+    question_type: dbQuestion.question_type as QuestionKind,
     created_by: dbQuestion.created_by as 'teacher' | 'ai' | 'bulk_import'
   };
 }
@@ -73,6 +74,17 @@ export const Questions = {
     return data || [];
   },
 
+  async listForTos(tosId: string): Promise<Question[]> {
+    const { data, error } = await supabase
+      .from('questions')
+      .select('*')
+      .eq('tos_id', tosId)
+      .eq('deleted', false);
+
+    if (error) throw error;
+    return data || [];
+  },
+
   async getById(id: string): Promise<Question | null> {
     const { data, error } = await supabase
       .from('questions')
@@ -110,10 +122,11 @@ export const Questions = {
     return data;
   },
 
-  async update(id: string, updates: Partial<QuestionUpdate>): Promise<Question> {
+  /** `reason` is recorded on the revision the change creates */
+  async update(id: string, updates: Partial<QuestionUpdate>, reason?: string): Promise<Question> {
     const { data, error } = await supabase
       .from('questions')
-      .update(updates)
+      .update(reason ? { ...updates, revision_reason: reason } : updates)
       .eq('id', id)
       .select('*')
       .single();
@@ -0,0 +1,278 @@
+import { supabase } from "@/integrations/supabase/client";
+import { buildVersionKey } from "@/services/scoring/answerSheet";
+import { DichotomousResponse, IrtItemParameters, calibrateIrt } from "@/services/psychometrics/irt";
+import {
+  ConversionRow,
+  ConversionTable,
+  EquatingItem,
+  EquatingMethod,
+  FormScores,
+  equateScores,
+} from "@/services/psychometrics/equating";
+import { IrtParameters } from "./irtParameters";
+
+export interface ScoreConversionRow {
+  id: string;
+  test_id: string;
+  reference_test_id: string;
+  method: string;
+  design: string;
+  anchor_item_count: number;
+  examinee_count: number;
+  reference_examinee_count: number;
+  max_score: number;
+  reference_max_score: number;
+  /** ConversionRow[] from raw score on the form to the reference scale */
+  conversion: unknown;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  reference?: { title: string | null; version_label: string | null } | null;
+}
+
+/** One administered form: its scored items and every examinee's item scores */
+export interface EquatingForm {
+  testId: string;
+  title: string;
+  versionLabel: string | null;
+  items: { questionId: string | null; points: number }[];
+  maxScore: number;
+  /** Item scores per assignment, keyed by bank question id (item number when unlinked) */
+  examinees: Map<string, Map<string, { score: number; maxScore: number }>>;
+}
+
+export interface ComputedConversion {
+  testId: string;
+  referenceTestId: string;
+  table: ConversionTable;
+  anchorItemCount: number;
+  examineeCount: number;
+  referenceExamineeCount: number;
+}
+
+/** Another test that shares bank questions with the form, e.g. last term's final */
+export interface ReferenceCandidate {
+  id: string;
+  title: string;
+  versionLabel: string | null;
+  createdAt: string;
+  commonItemCount: number;
+}
+
+const PAGE_SIZE = 1000;
+
+const itemKey = (questionId: string | null, itemNumber: number) => questionId ?? `#${itemNumber}`;
+
+function formScores(form: EquatingForm, anchorIds: Set<string>): FormScores {
+  const totals: number[] = [];
+  const anchors: number[] = [];
+  for (const scores of form.examinees.values()) {
+    let total = 0;
+    let anchor = 0;
+    for (const [key, { score }] of scores) {
+      total += score;
+      if (anchorIds.has(key)) anchor += score;
+    }
+    totals.push(total);
+    anchors.push(anchor);
+  }
+  return { totals, anchors: anchorIds.size > 0 ? anchors : [], maxScore: form.maxScore };
+}
+
+/**
+ * Item parameters on one scale for every item of both forms: stored bank
+ * parameters when one model covers all items, otherwise a 2PL calibration of the
+ * two forms' responses together (the shared items link the scales).
+ */
+async function itemParameters(form: EquatingForm, reference: EquatingForm): Promise<{ form: EquatingItem[]; reference: EquatingItem[] }> {
+  const items = [...form.items, ...reference.items];
+  if (items.some(item => !item.questionId)) {
+    throw new Error("IRT true-score equating needs every item linked to a bank question");
+  }
+  const questionIds = [...new Set(items.map(item => item.questionId as string))];
+
+  let parameters: Map<string, IrtItemParameters> | null = null;
+  const stored = await IrtParameters.listForQuestions(questionIds);
+  for (const model of ['2PL', '3PL', '1PL']) {
+    const rows = stored.filter(r => r.model === model);
+    if (rows.length === questionIds.length) {
+      parameters = new Map(rows.map(r => [r.question_id, { a: Number(r.a), b: Number(r.b), c: Number(r.c) }]));
+      break;
+    }
+  }
+
+  if (!parameters) {
+    const responses: DichotomousResponse[] = [];
+    for (const f of [form, reference]) {
+      for (const [assignmentId, scores] of f.examinees) {
+        for (const [questionId, { score, maxScore }] of scores) {
+          responses.push({ examineeId: assignmentId, itemId: questionId, correct: score >= maxScore });
+        }
+      }
+    }
+    const result = calibrateIrt(responses, { model: '2PL', minResponses: 10 });
+    if (result.excluded.length > 0) {
+      throw new Error(`${result.excluded.length} item(s) have too few responses to calibrate; calibrate the bank or import item parameters first`);
+    }
+    parameters = new Map(result.items.map(item => [item.itemId, { a: item.a, b: item.b, c: item.c }]));
+  }
+
+  const withParameters = (f: EquatingForm) =>
+    f.items.map(item => ({ ...(parameters as Map<string, IrtItemParameters>).get(item.questionId as string)!, points: item.points }));
+  return { form: withParameters(form), reference: withParameters(reference) };
+}
+
+export const ScoreConversions = {
+  async loadForm(testId: string): Promise<EquatingForm> {
+    const { data: test, error } = await supabase
+      .from("generated_tests")
+      .select("id, title, version_label, items, answer_key, question_order")
+      .eq("id", testId)
+      .single();
+    if (error) throw error;
+
+    const key = buildVersionKey(test);
+    const items = key.items.map(item => ({ questionId: item.questionId, points: item.points }));
+
+    const examinees: EquatingForm["examinees"] = new Map();
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error: responseError } = await supabase
+        .from("item_responses")
+        .select("assignment_id, item_number, question_id, score, max_score")
+        .eq("test_id", testId)
+        .order("id", { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+      if (responseError) throw responseError;
+
+      for (const row of data ?? []) {
+        const scores = examinees.get(row.assignment_id) ?? new Map();
+        scores.set(itemKey(row.question_id, row.item_number), { score: Number(row.score), maxScore: Number(row.max_score) });
+        examinees.set(row.assignment_id, scores);
+      }
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return {
+      testId,
+      title: test.title ?? "Test",
+      versionLabel: test.version_label ?? null,
+      items,
+      maxScore: items.reduce((s, item) => s + item.points, 0),
+      examinees,
+    };
+  },
+
+  /** Bank questions that appear on both forms */
+  anchorItems(form: EquatingForm, reference: EquatingForm): string[] {
+    const referenceIds = new Set(reference.items.map(item => item.questionId));
+    const shared = form.items
+      .map(item => item.questionId)
+      .filter((id): id is string => id !== null && referenceIds.has(id));
+    return [...new Set(shared)];
+  },
+
+  /**
+   * Conversion table from raw scores on `testId` to the scale of `referenceTestId`.
+   */
+  async compute(method: EquatingMethod, testId: string, referenceTestId: string): Promise<ComputedConversion> {
+    const [form, reference] = await Promise.all([this.loadForm(testId), this.loadForm(referenceTestId)]);
+    if (method !== "irt_true_score" && (form.examinees.size < 2 || reference.examinees.size < 2)) {
+      throw new Error("Both forms need scored answer sheets from at least two students");
+    }
+
+    const anchorIds = new Set<string>(this.anchorItems(form, reference));
+    const items = method === "irt_true_score" ? await itemParameters(form, reference) : undefined;
+    const table = equateScores(method, formScores(form, anchorIds), formScores(reference, anchorIds), items);
+
+    return {
+      testId,
+      referenceTestId,
+      table,
+      anchorItemCount: anchorIds.size,
+      examineeCount: form.examinees.size,
+      referenceExamineeCount: reference.examinees.size,
+    };
+  },
+
+  /** Store a conversion as the one grade reports apply to its form */
+  async save(computed: ComputedConversion): Promise<ScoreConversionRow> {
+    await this.deactivate(computed.testId);
+
+    const { data, error } = await supabase
+      .from("score_conversions")
+      .insert({
+        test_id: computed.testId,
+        reference_test_id: computed.referenceTestId,
+        method: computed.table.method,
+        design: computed.table.design,
+        anchor_item_count: computed.anchorItemCount,
+        examinee_count: computed.examineeCount,
+        reference_examinee_count: computed.referenceExamineeCount,
+        max_score: computed.table.maxScore,
+        reference_max_score: computed.table.referenceMaxScore,
+        conversion: computed.table.rows.map(row => ({ raw: row.raw, equated: row.equated })),
+        is_active: true,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async deactivate(testId: string) {
+    const { error } = await supabase
+      .from("score_conversions")
+      .update({ is_active: false })
+      .eq("test_id", testId)
+      .eq("is_active", true);
+    if (error) throw error;
+  },
+
+  async listActive(testIds: string[]): Promise<ScoreConversionRow[]> {
+    if (testIds.length === 0) return [];
+    const { data, error } = await supabase
+      .from("score_conversions")
+      .select("*, reference:generated_tests!score_conversions_reference_test_id_fkey(title, version_label)")
+      .in("test_id", testIds)
+      .eq("is_active", true);
+
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  /**
+   * The caller's other tests that share bank questions with a form,
+   * most recent first. Versions of the form's own family are excluded.
+   */
+  async listReferenceCandidates(questionIds: string[], familyIds: string[]): Promise<ReferenceCandidate[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error("Not authenticated");
+
+    const { data, error } = await supabase
+      .from("generated_tests")
+      .select("id, title, version_label, question_order, created_at")
+      .eq("created_by", user.id)
+      .order("created_at", { ascending: false })
+      .limit(200);
+    if (error) throw error;
+
+    const shared = new Set(questionIds);
+    const excluded = new Set(familyIds);
+    return (data ?? [])
+      .filter(t => !excluded.has(t.id))
+      .map(t => ({
+        id: t.id,
+        title: t.title ?? "Test",
+        versionLabel: t.version_label ?? null,
+        createdAt: t.created_at,
+        commonItemCount: (Array.isArray(t.question_order) ? t.question_order : [])
+          .filter(id => typeof id === "string" && shared.has(id)).length,
+      }))
+      .filter(t => t.commonItemCount > 0);
+  },
+
+  conversionRows(row: ScoreConversionRow): ConversionRow[] {
+    return Array.isArray(row.conversion) ? (row.conversion as ConversionRow[]) : [];
+  },
+};
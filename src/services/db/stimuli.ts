@@ -0,0 +1,89 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Json } from "@/integrations/supabase/types";
+import { Stimulus, StimulusAttachment, StimulusKind, parseStimulusAttachments } from "@/types/stimulus";
+import { selectInBatches } from "./batches";
+
+type StimulusRow = Database['public']['Tables']['question_stimuli']['Row'];
+
+export interface StimulusInput {
+  title: string;
+  kind: StimulusKind;
+  content: string;
+  attachments?: StimulusAttachment[];
+  subject?: string | null;
+  topic?: string | null;
+}
+
+function toStimulus(row: StimulusRow): Stimulus {
+  return {
+    ...row,
+    kind: row.kind as StimulusKind,
+    attachments: parseStimulusAttachments(row.attachments),
+  };
+}
+
+function toRow(input: Partial<StimulusInput>) {
+  const { attachments, ...rest } = input;
+  return attachments === undefined ? rest : { ...rest, attachments: attachments as unknown as Json };
+}
+
+export const Stimuli = {
+  async list(filters: { topic?: string; subject?: string } = {}): Promise<Stimulus[]> {
+    let query = supabase.from('question_stimuli').select('*');
+    if (filters.topic) query = query.eq('topic', filters.topic);
+    if (filters.subject) query = query.eq('subject', filters.subject);
+
+    const { data, error } = await query.order('updated_at', { ascending: false });
+    if (error) throw error;
+    return (data ?? []).map(toStimulus);
+  },
+
+  /** Stimuli by id, for printing a test whose items reference them */
+  async getMany(ids: string[]): Promise<Record<string, Stimulus>> {
+    const unique = [...new Set(ids.filter(Boolean))];
+    const rows = await selectInBatches('question_stimuli', 'id', unique);
+    return Object.fromEntries(rows.map(row => [row.id, toStimulus(row)]));
+  },
+
+  async create(input: StimulusInput): Promise<Stimulus> {
+    const { data, error } = await supabase
+      .from('question_stimuli')
+      .insert({ ...input, attachments: (input.attachments ?? []) as unknown as Json })
+      .select()
+      .single();
+    if (error) throw error;
+    return toStimulus(data);
+  },
+
+  async update(id: string, updates: Partial<StimulusInput>): Promise<Stimulus> {
+    const { data, error } = await supabase
+      .from('question_stimuli')
+      .update(toRow(updates))
+      .eq('id', id)
+      .select()
+      .single();
+    if (error) throw error;
+    return toStimulus(data);
+  },
+
+  /** Questions keep their text; they just stop sharing the stimulus */
+  async delete(id: string): Promise<void> {
+    const { error } = await supabase.from('question_stimuli').delete().eq('id', id);
+    if (error) throw error;
+  },
+
+  /** Number of bank questions attached to each stimulus */
+  async questionCounts(): Promise<Record<string, number>> {
+    const { data, error } = await supabase
+      .from('questions')
+      .select('stimulus_id')
+      .not('stimulus_id', 'is', null)
+      .eq('deleted', false);
+    if (error) throw error;
+    const counts: Record<string, number> = {};
+    for (const row of data ?? []) {
+      if (row.stimulus_id) counts[row.stimulus_id] = (counts[row.stimulus_id] || 0) + 1;
+    }
+    return counts;
+  },
+};
@@ -0,0 +1,266 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import {
+  VersionOptions,
+  VersionQuestion,
+  VersionSet,
+  answerKeyFor,
+} from "@/services/testGeneration/versionEngine";
+
+/**
+ * Where a family of versions is stored: `generated_tests` rows linked by
+ * parent_test_id (current), or `test_metadata` with its `test_versions` (older tests).
+ */
+export type VersionStorageLayout = "generated_tests" | "test_versions";
+
+export interface StoredVersion {
+  id: string;
+  version_label: string | null;
+  version_number: number | null;
+  items: unknown;
+  answer_key: unknown;
+  question_order: string[];
+  shuffle_seed: string | null;
+}
+
+export interface VersionFamily {
+  layout: VersionStorageLayout;
+  /** Parent generated_tests id, or the test_metadata id */
+  familyId: string;
+  title: string;
+  subject: string | null;
+  versions: StoredVersion[];
+}
+
+export interface VersionTestDetails {
+  title: string;
+  subject: string;
+  course?: string;
+  year_section?: string;
+  exam_period?: string;
+  school_year?: string;
+  instructions?: string;
+  tos_id?: string;
+  time_limit?: number;
+  points_per_question?: number;
+}
+
+// Versions saved side by side before they were linked to a parent were inserted together
+const SIBLING_WINDOW_MS = 5 * 60 * 1000;
+
+const GENERATED_COLUMNS =
+  "id, title, subject, version_label, version_number, items, answer_key, question_order, shuffle_seed, parent_test_id, created_by, created_at";
+
+const idList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((id): id is string => typeof id === "string") : [];
+
+function storedVersion(row: {
+  id: string;
+  version_label: string | null;
+  version_number?: number | null;
+  items: unknown;
+  answer_key: unknown;
+  question_order: unknown;
+  shuffle_seed?: string | null;
+}): StoredVersion {
+  return {
+    id: row.id,
+    version_label: row.version_label,
+    version_number: row.version_number ?? null,
+    items: row.items,
+    answer_key: row.answer_key,
+    question_order: idList(row.question_order),
+    shuffle_seed: row.shuffle_seed ?? null,
+  };
+}
+
+async function loadGeneratedFamily(testId: string): Promise<VersionFamily | null> {
+  const { data: test, error } = await supabase
+    .from("generated_tests")
+    .select(GENERATED_COLUMNS)
+    .eq("id", testId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!test) return null;
+
+  const familyId = test.parent_test_id ?? test.id;
+  const { data: family, error: familyError } = await supabase
+    .from("generated_tests")
+    .select(GENERATED_COLUMNS)
+    .or(`id.eq.${familyId},parent_test_id.eq.${familyId}`)
+    .order("version_number", { ascending: true });
+  if (familyError) throw familyError;
+
+  const rows = family ?? [];
+  const parent = rows.find(r => r.id === familyId);
+  const children = rows.filter(r => r.parent_test_id === familyId);
+  let versions = children;
+
+  if (children.length > 0) {
+    // A parent holding the canonical copy is not a version; a labelled parent is version A
+    const label = parent?.version_label;
+    if (parent && label && label !== "Parent" && !children.some(c => c.version_label === label)) {
+      versions = [parent, ...children];
+    }
+  } else if (test.version_number != null && test.created_by) {
+    const created = new Date(test.created_at).getTime();
+    const { data: siblings, error: siblingError } = await supabase
+      .from("generated_tests")
+      .select(GENERATED_COLUMNS)
+      .eq("created_by", test.created_by)
+      .eq("title", test.title ?? "")
+      .is("parent_test_id", null)
+      .not("version_number", "is", null)
+      .gte("created_at", new Date(created - SIBLING_WINDOW_MS).toISOString())
+      .lte("created_at", new Date(created + SIBLING_WINDOW_MS).toISOString())
+      .order("version_number", { ascending: true });
+    if (siblingError) throw siblingError;
+    versions = (siblings ?? []).filter(s => s.subject === test.subject);
+  }
+  if (versions.length === 0) versions = [test];
+
+  return {
+    layout: "generated_tests",
+    familyId,
+    title: (parent ?? test).title ?? "Test",
+    subject: (parent ?? test).subject,
+    versions: versions.map(storedVersion),
+  };
+}
+
+async function loadMetadataFamily(testId: string): Promise<VersionFamily | null> {
+  const { data: version, error } = await supabase
+    .from("test_versions")
+    .select("test_metadata_id")
+    .eq("id", testId)
+    .maybeSingle();
+  if (error) throw error;
+
+  const metadataId = version?.test_metadata_id ?? testId;
+  const { data: metadata, error: metadataError } = await supabase
+    .from("test_metadata")
+    .select("id, title, subject, points_per_question")
+    .eq("id", metadataId)
+    .maybeSingle();
+  if (metadataError) throw metadataError;
+  if (!metadata) return null;
+
+  const { data: rows, error: versionError } = await supabase
+    .from("test_versions")
+    .select("*")
+    .eq("test_metadata_id", metadataId)
+    .order("version_label", { ascending: true });
+  if (versionError) throw versionError;
+
+  // Versions saved without their questions JSON fall back to the bank questions
+  // in question_order, with their unshuffled choices and keys
+  const missing = new Set<string>();
+  for (const row of rows ?? []) {
+    if (!Array.isArray(row.questions) || row.questions.length === 0) {
+      idList(row.question_order).forEach(id => missing.add(id));
+    }
+  }
+  const bank = new Map<string, Record<string, unknown>>();
+  if (missing.size > 0) {
+    const { data: questions, error: questionError } = await supabase
+      .from("questions")
+      .select("id, question_text, question_type, choices, correct_answer, topic, bloom_level, difficulty")
+      .in("id", [...missing]);
+    if (questionError) throw questionError;
+    (questions ?? []).forEach(q => bank.set(q.id, q));
+  }
+
+  const points = metadata.points_per_question ?? 1;
+  return {
+    layout: "test_versions",
+    familyId: metadata.id,
+    title: metadata.title,
+    subject: metadata.subject,
+    versions: (rows ?? []).map((row, index) => {
+      const order = idList(row.question_order);
+      const items = Array.isArray(row.questions) && row.questions.length > 0
+        ? row.questions
+        : order
+            .filter(id => bank.has(id))
+            .map((id, i) => ({ ...bank.get(id), question_number: i + 1, points }));
+      return storedVersion({
+        id: row.id,
+        version_label: row.version_label,
+        version_number: index + 1,
+        items,
+        answer_key: row.answer_key,
+        question_order: order,
+      });
+    }),
+  };
+}
+
+export const TestVersions = {
+  /**
+   * Every version in the family of a test, whichever layout it was saved in.
+   * Accepts a generated test (parent or version), a test_versions id or a test_metadata id.
+   */
+  async loadFamily(testId: string): Promise<VersionFamily> {
+    const family = (await loadGeneratedFamily(testId)) ?? (await loadMetadataFamily(testId));
+    if (!family) throw new Error("Test not found");
+    return family;
+  },
+
+  /**
+   * Save a version set as generated_tests rows: a parent with the unshuffled
+   * questions and the base seed, and one child row per version. A single version
+   * is saved on its own.
+   */
+  async save<Q extends VersionQuestion>(
+    set: VersionSet<Q>,
+    details: VersionTestDetails,
+    options: Pick<VersionOptions, "shuffleQuestions" | "shuffleChoices">
+  ): Promise<{ parentId: string; versionIds: string[] }> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error("User not authenticated");
+
+    const base = {
+      ...details,
+      shuffle_questions: options.shuffleQuestions,
+      shuffle_choices: options.shuffleChoices,
+      created_by: user.id,
+    };
+
+    let parentId: string | null = null;
+    if (set.versions.length > 1) {
+      const { data: parent, error } = await supabase
+        .from("generated_tests")
+        .insert({
+          ...base,
+          version_label: "Parent",
+          items: set.canonical as unknown as Json,
+          answer_key: answerKeyFor(set.canonical) as unknown as Json,
+          question_order: set.canonical.map(q => q.id),
+          shuffle_seed: set.seed,
+        })
+        .select("id")
+        .single();
+      if (error) throw error;
+      parentId = parent.id;
+    }
+
+    const { data: created, error: versionError } = await supabase
+      .from("generated_tests")
+      .insert(set.versions.map(version => ({
+        ...base,
+        parent_test_id: parentId,
+        version_label: version.version_label,
+        version_number: version.version_number,
+        items: version.questions as unknown as Json,
+        answer_key: version.answer_key as unknown as Json,
+        question_order: version.question_order,
+        shuffle_seed: version.shuffle_seed,
+      })))
+      .select("id, version_number")
+      .order("version_number", { ascending: true });
+    if (versionError) throw versionError;
+
+    const versionIds = (created ?? []).map(v => v.id);
+    return { parentId: parentId ?? versionIds[0], versionIds };
+  },
+};
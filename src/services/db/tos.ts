@@ -1,4 +1,6 @@
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import type { StoredBloomDistribution } from "@/utils/tosCalculator";
 
 export interface TOSEntry {
   id?: string;
@@ -18,6 +20,7 @@ export interface TOSEntry {
   topics?: any[];
   distribution?: any;
   matrix?: any;
+  bloom_distribution?: StoredBloomDistribution | null;
   created_at?: string;
   updated_at?: string;
 }
@@ -61,7 +64,8 @@ export const TOS = {
       ...payload,
       title,
       owner: user.id,        // REQUIRED: UUID for RLS policy
-      created_by: user.id    // REQUIRED: UUID for RLS policy
+      created_by: user.id,   // REQUIRED: UUID for RLS policy
+      bloom_distribution: payload.bloom_distribution as unknown as Json
     };
     
     console.log("📦 TOS data to insert:", {
@@ -131,7 +135,7 @@ export const TOS = {
   async update(id: string, patch: Partial<TOSEntry>) {
     const { data, error } = await supabase
       .from("tos_entries")
-      .update(patch)
+      .update({ ...patch, bloom_distribution: patch.bloom_distribution as unknown as Json })
       .eq("id", id)
       .select()
       .single();
@@ -0,0 +1,272 @@
+/**
+ * Word (.docx) exams: read word/document.xml straight out of the package
+ *
+ * Paragraphs, table cells and content controls become DocumentLines with their
+ * run formatting (bold, underline, highlight/shading), automatic list numbers
+ * from numbering.xml and the images anchored in them, ready for detectQuestions.
+ */
+
+import { strFromU8, unzipSync } from 'fflate';
+import { bytesToDataUrl } from '@/types/attachments';
+import { DetectionResult, DocumentImage, DocumentLine, TextRun, detectQuestions } from './structure';
+
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+  svg: 'image/svg+xml',
+  webp: 'image/webp',
+};
+
+/** Elements by local name, so w:, a:, pic: and v: prefixes need no namespace lookups */
+function descendants(root: Element | Document, name: string): Element[] {
+  return Array.from(root.getElementsByTagName('*')).filter(el => el.localName === name);
+}
+
+function children(root: Element, name?: string): Element[] {
+  return Array.from(root.children).filter(el => !name || el.localName === name);
+}
+
+/** The w:val (or other) attribute regardless of prefix */
+function attr(el: Element | undefined, name: string): string | null {
+  if (!el) return null;
+  for (const a of Array.from(el.attributes)) {
+    if (a.localName === name) return a.value;
+  }
+  return null;
+}
+
+function parseXml(text: string): Document | null {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  return doc.getElementsByTagName('parsererror').length > 0 ? null : doc;
+}
+
+/** Toggle properties are on unless w:val says otherwise */
+function toggled(el: Element | undefined): boolean {
+  if (!el) return false;
+  const value = attr(el, 'val');
+  return value === null || !['0', 'false', 'off', 'none'].includes(value);
+}
+
+function runFormat(run: Element): Omit<TextRun, 'text'> {
+  const props = children(run, 'rPr')[0];
+  if (!props) return {};
+  const shading = children(props, 'shd')[0];
+  const fill = attr(shading, 'fill');
+  return {
+    bold: toggled(children(props, 'b')[0]),
+    underline: toggled(children(props, 'u')[0]),
+    highlight: toggled(children(props, 'highlight')[0])
+      || (!!fill && !['auto', 'FFFFFF', 'ffffff'].includes(fill)),
+  };
+}
+
+interface Level {
+  format: string;
+  text: string;
+  start: number;
+}
+
+/** Automatic list numbering: numId → levels, with running counters */
+class Numbering {
+  private levels = new Map<string, Level[]>();
+  private abstractOf = new Map<string, string>();
+  private counters = new Map<string, number[]>();
+
+  constructor(doc: Document | null) {
+    if (!doc) return;
+    const abstracts = new Map<string, Level[]>();
+    for (const abstract of descendants(doc, 'abstractNum')) {
+      const levels: Level[] = [];
+      for (const lvl of children(abstract, 'lvl')) {
+        levels[Number(attr(lvl, 'ilvl') ?? 0)] = {
+          format: attr(children(lvl, 'numFmt')[0], 'val') ?? 'decimal',
+          text: attr(children(lvl, 'lvlText')[0], 'val') ?? '%1.',
+          start: Number(attr(children(lvl, 'start')[0], 'val') ?? 1),
+        };
+      }
+      abstracts.set(attr(abstract, 'abstractNumId') ?? '', levels);
+    }
+    for (const num of descendants(doc, 'num')) {
+      const id = attr(num, 'numId') ?? '';
+      const abstractId = attr(children(num, 'abstractNumId')[0], 'val') ?? '';
+      this.abstractOf.set(id, abstractId);
+      this.levels.set(id, abstracts.get(abstractId) ?? []);
+    }
+  }
+
+  /** The label Word would print for the next paragraph in this list, e.g. "3." or "b)" */
+  next(numId: string, ilvl: number): string {
+    const levels = this.levels.get(numId);
+    const level = levels?.[ilvl];
+    if (!levels || !level || level.format === 'bullet' || level.format === 'none') return '';
+
+    // Lists sharing an abstract definition continue each other's numbering
+    const key = this.abstractOf.get(numId) ?? numId;
+    const counters = this.counters.get(key) ?? [];
+    counters[ilvl] = (counters[ilvl] ?? levels[ilvl].start - 1) + 1;
+    counters.length = ilvl + 1;
+    this.counters.set(key, counters);
+
+    return level.text.replace(/%(\d)/g, (_, n) => {
+      const index = Number(n) - 1;
+      return formatNumber(counters[index] ?? levels[index]?.start ?? 1, levels[index]?.format ?? 'decimal');
+    });
+  }
+}
+
+function formatNumber(value: number, format: string): string {
+  switch (format) {
+    case 'lowerLetter':
+      return String.fromCharCode(96 + ((value - 1) % 26) + 1);
+    case 'upperLetter':
+      return String.fromCharCode(64 + ((value - 1) % 26) + 1);
+    case 'lowerRoman':
+      return roman(value).toLowerCase();
+    case 'upperRoman':
+      return roman(value);
+    default:
+      return String(value);
+  }
+}
+
+function roman(value: number): string {
+  const numerals: [number, string][] = [[1000, 'M'], [900, 'CM'], [500, 'D'], [400, 'CD'], [100, 'C'], [90, 'XC'], [50, 'L'], [40, 'XL'], [10, 'X'], [9, 'IX'], [5, 'V'], [4, 'IV'], [1, 'I']];
+  let result = '';
+  for (const [n, numeral] of numerals) {
+    while (value >= n) {
+      result += numeral;
+      value -= n;
+    }
+  }
+  return result;
+}
+
+/**
+ * Read a .docx into lines of formatted text. Soft line breaks inside a
+ * paragraph start a new line, as teachers often put each choice after Shift+Enter.
+ */
+export function readDocxLines(data: Uint8Array): DocumentLine[] {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(data);
+  } catch {
+    throw new Error('Not a Word document: the file is not a valid .docx package');
+  }
+  const documentXml = files['word/document.xml'];
+  if (!documentXml) throw new Error('Not a Word document: word/document.xml is missing');
+  const doc = parseXml(strFromU8(documentXml));
+  if (!doc) throw new Error('word/document.xml could not be parsed');
+
+  const numbering = new Numbering(files['word/numbering.xml'] ? parseXml(strFromU8(files['word/numbering.xml'])) : null);
+  const rels = files['word/_rels/document.xml.rels'] ? parseXml(strFromU8(files['word/_rels/document.xml.rels'])) : null;
+  const targets = new Map<string, string>();
+  for (const rel of rels ? descendants(rels, 'Relationship') : []) {
+    targets.set(attr(rel, 'Id') ?? '', attr(rel, 'Target') ?? '');
+  }
+  const imageCache = new Map<string, DocumentImage | null>();
+  const image = (id: string | null): DocumentImage | null => {
+    if (!id) return null;
+    if (!imageCache.has(id)) {
+      const target = targets.get(id) ?? '';
+      const path = target.startsWith('/') ? target.slice(1) : `word/${target}`;
+      const bytes = files[path];
+      const type = IMAGE_TYPES[path.split('.').pop()?.toLowerCase() ?? ''];
+      imageCache.set(id, bytes && type
+        ? { name: path.split('/').pop() ?? path, src: bytesToDataUrl(bytes, type) }
+        : null);
+    }
+    return imageCache.get(id) ?? null;
+  };
+
+  const lines: DocumentLine[] = [];
+
+  const readParagraph = (paragraph: Element) => {
+    let line: DocumentLine = { runs: [], images: [] };
+    const flush = () => {
+      lines.push(line);
+      line = { runs: [], images: [] };
+    };
+
+    const numPr = descendants(paragraph, 'numPr')[0];
+    if (numPr && children(paragraph, 'pPr')[0]?.contains(numPr)) {
+      const label = numbering.next(
+        attr(children(numPr, 'numId')[0], 'val') ?? '',
+        Number(attr(children(numPr, 'ilvl')[0], 'val') ?? 0)
+      );
+      if (label) line.runs.push({ text: `${label} ` });
+    }
+
+    for (const run of descendants(paragraph, 'r')) {
+      // Deleted tracked changes are not part of the text
+      if (run.parentElement?.localName === 'del') continue;
+      const format = runFormat(run);
+      for (const part of children(run)) {
+        switch (part.localName) {
+          case 't':
+            line.runs.push({ text: part.textContent ?? '', ...format });
+            break;
+          case 'tab':
+            line.runs.push({ text: '\t' });
+            break;
+          case 'br':
+          case 'cr':
+            if (attr(part, 'type') !== 'page') flush();
+            break;
+          case 'drawing':
+          case 'pict':
+          case 'object': {
+            const ids = [
+              ...descendants(part, 'blip').map(blip => attr(blip, 'embed')),
+              ...descendants(part, 'imagedata').map(data => attr(data, 'id')),
+            ];
+            // The picture's description in Word is its alt text
+            const alt = attr(descendants(part, 'docPr')[0], 'descr') ?? '';
+            for (const id of ids) {
+              const found = image(id);
+              if (found) line.images.push(alt ? { ...found, alt } : found);
+            }
+            break;
+          }
+        }
+      }
+    }
+    flush();
+  };
+
+  const walk = (container: Element) => {
+    for (const el of children(container)) {
+      switch (el.localName) {
+        case 'p':
+          readParagraph(el);
+          break;
+        case 'tbl':
+          // Two-column answer tables and choice grids read left to right, row by row
+          for (const row of children(el, 'tr')) {
+            for (const cell of children(row, 'tc')) walk(cell);
+          }
+          break;
+        case 'sdt':
+          for (const content of children(el, 'sdtContent')) walk(content);
+          break;
+        case 'customXml':
+        case 'ins':
+          walk(el);
+          break;
+      }
+    }
+  };
+
+  const body = descendants(doc, 'body')[0];
+  if (body) walk(body);
+  return lines.map(line => (line.images.length ? line : { runs: line.runs }));
+}
+
+/** Detect the questions in a Word document */
+export function importDocx(data: Uint8Array): DetectionResult {
+  return detectQuestions(readDocxLines(data));
+}
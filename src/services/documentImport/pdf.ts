@@ -0,0 +1,38 @@
+/**
+ * PDF exams: positioned text from pdf.js, laid out by pdfLayout and read by
+ * the same structure detection as Word documents
+ */
+
+import * as pdfjsLib from 'pdfjs-dist';
+import pdfjsWorker from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { PdfPage, layoutPdfPages } from './pdfLayout';
+import { DetectionResult, detectQuestions } from './structure';
+
+/** Text items of every page, with top-left coordinates in points */
+export async function readPdfPages(data: ArrayBuffer): Promise<PdfPage[]> {
+  pdfjsLib.GlobalWorkerOptions.workerSrc = pdfjsWorker;
+  const pdf = await pdfjsLib.getDocument(data).promise;
+
+  const pages: PdfPage[] = [];
+  for (let i = 1; i <= pdf.numPages; i++) {
+    const page = await pdf.getPage(i);
+    const viewport = page.getViewport({ scale: 1 });
+    const content = await page.getTextContent();
+    const items = content.items
+      .filter((item): item is TextItem => 'str' in item)
+      .map(item => {
+        // transform is [a, b, c, d, e, f]: e, f is the baseline origin, d the font size
+        const height = item.height || Math.abs(item.transform[3]);
+        const [x, y] = viewport.convertToViewportPoint(item.transform[4], item.transform[5]);
+        return { str: item.str, x, y: y - height, width: item.width, height };
+      });
+    pages.push({ width: viewport.width, height: viewport.height, items });
+  }
+  return pages;
+}
+
+/** Detect the questions in a PDF exam */
+export async function importPdf(data: ArrayBuffer): Promise<DetectionResult> {
+  return detectQuestions(layoutPdfPages(await readPdfPages(data)));
+}
@@ -0,0 +1,226 @@
+/**
+ * Reading order for PDF exams from positioned text
+ *
+ * pdf.js hands out text items with coordinates but no lines or columns. This
+ * module rebuilds rows from baselines, splits two-column pages at their gutter,
+ * drops running headers, footers and page numbers, and unfolds choice grids
+ * ("a. x   c. z" over "b. y   d. w") into one choice per line, producing the
+ * DocumentLines detectQuestions reads.
+ */
+
+import type { DocumentLine } from './structure';
+
+export interface PositionedText {
+  str: string;
+  /** Left edge, in points from the left of the page */
+  x: number;
+  /** Top edge, in points from the top of the page */
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PdfPage {
+  width: number;
+  height: number;
+  items: PositionedText[];
+}
+
+interface Cell {
+  text: string;
+  x: number;
+  right: number;
+}
+
+interface Row {
+  y: number;
+  height: number;
+  cells: Cell[];
+}
+
+/** Share of the page height at the top and bottom treated as header/footer margin */
+const MARGIN = 0.08;
+const ITEM_START = /^\s*\d{1,3}\s*[.)]\s*\S/;
+const SECTION_HEADER = /^\s*(part|test|section|type)\s+([IVXLC]+|\d+|[A-Z])\b/i;
+const CHOICE_CELL = /^\s*(?:[*✓✔]\s*)?\(?([A-Ha-h])\s*[.)]\s/;
+const LABEL_ONLY = /^\s*(?:[*✓✔]\s*)?\(?([A-Ha-h]|\d{1,3})\s*[.)]\s*$/;
+const PAGE_NUMBER = /^(page\s*)?#+(\s*(of|\/)\s*#+)?$|^[-–—]\s*#+\s*[-–—]$/i;
+
+const rowText = (row: Row) => row.cells.map(c => c.text).join('\t');
+
+/** Group items sharing a baseline into rows of cells; wide gaps separate cells */
+function buildRows(items: PositionedText[]): Row[] {
+  const sorted = items
+    .filter(item => item.str.trim())
+    .sort((a, b) => a.y - b.y || a.x - b.x);
+
+  const groups: { y: number; height: number; items: PositionedText[] }[] = [];
+  for (const item of sorted) {
+    const group = groups.find(g => Math.abs(g.y - item.y) <= Math.max(g.height, item.height) * 0.5);
+    if (group) {
+      group.items.push(item);
+      group.height = Math.max(group.height, item.height);
+    } else {
+      groups.push({ y: item.y, height: item.height, items: [item] });
+    }
+  }
+
+  return groups
+    .sort((a, b) => a.y - b.y)
+    .map(group => {
+      const cells: Cell[] = [];
+      let cell: Cell | null = null;
+      for (const item of group.items.sort((a, b) => a.x - b.x)) {
+        const gap = cell ? item.x - cell.right : 0;
+        if (!cell || gap > group.height * 1.5) {
+          cell = { text: item.str, x: item.x, right: item.x + item.width };
+          cells.push(cell);
+          continue;
+        }
+        const joined = gap > group.height * 0.15 && !/\s$/.test(cell.text) && !/^\s/.test(item.str);
+        cell.text += (joined ? ' ' : '') + item.str;
+        cell.right = Math.max(cell.right, item.x + item.width);
+      }
+
+      // A label set apart by a tab ("a.   Paris") belongs to the cell after it
+      const merged: Cell[] = [];
+      for (const c of cells) {
+        const previous = merged[merged.length - 1];
+        if (previous && LABEL_ONLY.test(previous.text)) {
+          previous.text = `${previous.text.trim()} ${c.text.trim()}`;
+          previous.right = c.right;
+        } else {
+          merged.push({ ...c, text: c.text.trim() });
+        }
+      }
+      return { y: group.y, height: group.height, cells: merged };
+    });
+}
+
+/** Text shape of a margin row, with numbers blanked so "Page 2" matches "Page 3" */
+const marginKey = (row: Row) => rowText(row).replace(/\d+/g, '#').replace(/\s+/g, ' ').trim().toLowerCase();
+
+function isMargin(row: Row, page: PdfPage): boolean {
+  return row.y < page.height * MARGIN || row.y + row.height > page.height * (1 - MARGIN);
+}
+
+/** Drop page numbers, and text repeated in the margins of most pages */
+function dropRunningText(pages: PdfPage[], rows: Row[][]): Row[][] {
+  const seen = new Map<string, number>();
+  rows.forEach((pageRows, index) => {
+    const keys = new Set(pageRows.filter(row => isMargin(row, pages[index])).map(marginKey));
+    keys.forEach(key => seen.set(key, (seen.get(key) ?? 0) + 1));
+  });
+  const running = (key: string) => {
+    const count = seen.get(key) ?? 0;
+    return count >= 2 && count >= pages.length / 2;
+  };
+
+  return rows.map((pageRows, index) => pageRows.filter(row => {
+    if (!isMargin(row, pages[index])) return true;
+    const key = marginKey(row);
+    return !PAGE_NUMBER.test(key) && !running(key);
+  }));
+}
+
+/**
+ * The x of a gutter between two text columns, or null for single-column pages.
+ * The right column must start at least one numbered item or section, so a
+ * choice grid's second column is not taken for a page column.
+ */
+function findGutter(rows: Row[], width: number): number | null {
+  if (rows.length < 3) return null;
+
+  const crossing = (x: number) => rows.filter(row => row.cells.some(c => c.x < x && c.right > x)).length;
+  // Rows with text on both sides of x: a page column needs several
+  const split = (x: number) => rows.filter(row => row.cells.some(c => c.right <= x) && row.cells.some(c => c.x >= x)).length;
+
+  let best: number | null = null;
+  for (let x = Math.round(width * 0.3); x <= width * 0.7; x++) {
+    if (split(x) >= 3 && (best === null || crossing(x) < crossing(best))) best = x;
+  }
+  if (best === null) return null;
+  const fewest = crossing(best);
+  // Titles and directions may run across both columns, but most rows must not
+  if (fewest > rows.length * 0.5) return null;
+
+  // Centre the gutter in the clear band around the best position
+  let left = best;
+  let right = best;
+  while (left > width * 0.25 && crossing(left - 1) <= fewest) left--;
+  while (right < width * 0.75 && crossing(right + 1) <= fewest) right++;
+  const gutter = (left + right) / 2;
+
+  const rightCells = rows.flatMap(row => row.cells.filter(c => c.x >= gutter));
+  if (!rightCells.some(c => ITEM_START.test(c.text) || SECTION_HEADER.test(c.text))) return null;
+  return gutter;
+}
+
+/** Rows in reading order: full-width rows break the page into bands read left column first */
+function readingOrder(rows: Row[], gutter: number | null): Row[] {
+  if (gutter === null) return rows;
+
+  const ordered: Row[] = [];
+  let left: Row[] = [];
+  let right: Row[] = [];
+  const flush = () => {
+    ordered.push(...left, ...right);
+    left = [];
+    right = [];
+  };
+
+  for (const row of rows) {
+    if (row.cells.some(c => c.x < gutter && c.right > gutter)) {
+      flush();
+      ordered.push(row);
+      continue;
+    }
+    const leftCells = row.cells.filter(c => c.right <= gutter);
+    const rightCells = row.cells.filter(c => c.x >= gutter);
+    if (leftCells.length) left.push({ ...row, cells: leftCells });
+    if (rightCells.length) right.push({ ...row, cells: rightCells });
+  }
+  flush();
+  return ordered;
+}
+
+/**
+ * Rows made only of lettered choices, with at least one holding several, are a
+ * choice grid: emit its choices one per row in letter order, whichever way the
+ * grid runs.
+ */
+function unfoldChoiceGrids(rows: Row[]): Row[] {
+  const result: Row[] = [];
+  let grid: Row[] = [];
+  const flush = () => {
+    if (grid.some(row => row.cells.length > 1)) {
+      const cells = grid.flatMap(row => row.cells);
+      cells.sort((a, b) => label(a).localeCompare(label(b)));
+      result.push(...cells.map(cell => ({ ...grid[0], cells: [cell] })));
+    } else {
+      result.push(...grid);
+    }
+    grid = [];
+  };
+  const label = (cell: Cell) => cell.text.match(CHOICE_CELL)![1].toLowerCase();
+
+  for (const row of rows) {
+    if (row.cells.every(c => CHOICE_CELL.test(c.text))) {
+      grid.push(row);
+    } else {
+      flush();
+      result.push(row);
+    }
+  }
+  flush();
+  return result;
+}
+
+/** Lines of every page in reading order */
+export function layoutPdfPages(pages: PdfPage[]): DocumentLine[] {
+  const rows = dropRunningText(pages, pages.map(page => buildRows(page.items)));
+  return pages.flatMap((page, index) => {
+    const ordered = unfoldChoiceGrids(readingOrder(rows[index], findGutter(rows[index], page.width)));
+    return ordered.map(row => ({ runs: [{ text: rowText(row) }] }));
+  });
+}
@@ -0,0 +1,477 @@
+/**
+ * Question structure detection for exams pasted from documents
+ *
+ * Word and PDF extraction both reduce a document to lines of styled text runs;
+ * this module finds the numbered items, lettered choices, keyed answers
+ * (emphasis, asterisks, "Answer:" lines or an answer key at the end) and the
+ * section headers that set the question type. Each question carries a parse
+ * confidence so the verification step can point reviewers at doubtful blocks.
+ */
+
+import { optionLetter } from '@/services/psychometrics/testItems';
+import { normalizeTrueFalse } from '@/services/scoring/answerSheet';
+import type { InterchangeIssue, InterchangeQuestion } from '@/services/interchange/common';
+import { matchingFromPairs } from '@/services/interchange/common';
+import type { ImportedImage } from '@/types/attachments';
+
+export interface TextRun {
+  text: string;
+  bold?: boolean;
+  underline?: boolean;
+  highlight?: boolean;
+}
+
+/** An image anchored in the document, kept with the question it sits in */
+export type DocumentImage = ImportedImage;
+
+export interface DocumentLine {
+  runs: TextRun[];
+  images?: DocumentImage[];
+}
+
+export interface DetectedQuestion extends InterchangeQuestion {
+  /** Item number as printed */
+  item_number: number;
+  /** Heading of the section the item sits in, e.g. "Part II – True or False" */
+  section?: string;
+  /** 0–1: how sure the parser is about the block's structure */
+  parse_confidence: number;
+  /** What lowered the confidence, for reviewers */
+  parse_notes: string[];
+  images?: DocumentImage[];
+}
+
+export interface DetectionResult {
+  questions: DetectedQuestion[];
+  issues: InterchangeIssue[];
+}
+
+type SectionType = 'mcq' | 'true_false' | 'short_answer' | 'essay' | 'matching';
+
+const SECTION_HEADER = /^\s*(part|test|section|type)\s+([IVXLC]+|\d+|[A-Z])\b\s*[.:–—-]*\s*(.*)$/i;
+const SECTION_TYPES: [RegExp, SectionType][] = [
+  [/true\s*(or|\/|-|and)?\s*false|modified\s+true/i, 'true_false'],
+  [/matching/i, 'matching'],
+  [/multiple[\s-]*choice/i, 'mcq'],
+  [/identification|fill|completion|short[\s-]*answer|enumeration/i, 'short_answer'],
+  [/essay|discussion|explain|problem\s+solving/i, 'essay'],
+];
+const ITEM_START = /^\s*(\d{1,3})\s*[.)]\s*(.*)$/;
+const CHOICE_LABEL = /(^|\s)([*✓✔]\s*)?\(?([A-Ha-h])\s*[.)]\s+/g;
+const ANSWER_LINE = /^\s*(?:correct\s+answer|answer|ans|key)\s*[:.–—-]\s*(.+?)\s*$/i;
+const ANSWER_KEY_HEADER = /^\s*(answer\s*key|answers|key\s+to\s+corrections?)\s*[:.]?\s*$/i;
+const KEY_ENTRY = /(\d{1,3})\s*[.)\-:]\s*([A-Ha-h]\b|true\b|false\b|T\b|F\b|[^\s\d][^\d]*?)(?=\s+\d{1,3}\s*[.)\-:]|\s*$)/gi;
+/** Marks some teachers type next to the right option */
+const ANSWER_MARK = /^\s*[*✓✔]\s*|\s*[*✓✔]\s*$/;
+
+export function lineText(line: DocumentLine): string {
+  return line.runs.map(r => r.text).join('');
+}
+
+/** Whether every visible character in [start, end) is bold, underlined or highlighted */
+function emphasised(runs: TextRun[], start: number, end: number): boolean {
+  let offset = 0;
+  let visible = 0;
+  for (const run of runs) {
+    const from = Math.max(start, offset);
+    const to = Math.min(end, offset + run.text.length);
+    if (to > from) {
+      const part = run.text.slice(from - offset, to - offset);
+      if (part.trim()) {
+        if (!(run.bold || run.underline || run.highlight)) return false;
+        visible++;
+      }
+    }
+    offset += run.text.length;
+  }
+  return visible > 0;
+}
+
+function sectionType(title: string): SectionType | null {
+  return SECTION_TYPES.find(([pattern]) => pattern.test(title))?.[1] ?? null;
+}
+
+interface Choice {
+  letter: string;
+  text: string;
+  marked: boolean;
+}
+
+/**
+ * Lettered choices in a line, in order ("a. x  b. y" or one per line).
+ * Labels must run a, b, c... from `next`, so "a" inside a sentence is not taken for a choice.
+ */
+function choicesIn(line: DocumentLine, next: number): Choice[] | null {
+  const text = lineText(line);
+  const starts: { index: number; contentStart: number; letter: string; starred: boolean }[] = [];
+  CHOICE_LABEL.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = CHOICE_LABEL.exec(text))) {
+    const letter = match[3].toUpperCase();
+    if (letter !== optionLetter(next + starts.length)) continue;
+    const index = match.index + match[1].length;
+    if (starts.length === 0 && text.slice(0, index).trim()) return null;
+    starts.push({ index, contentStart: match.index + match[0].length, letter, starred: !!match[2] });
+  }
+  if (starts.length === 0) return null;
+
+  return starts.map((start, i) => {
+    const end = i + 1 < starts.length ? starts[i + 1].index : text.length;
+    const raw = text.slice(start.contentStart, end);
+    return {
+      letter: start.letter,
+      text: raw.replace(ANSWER_MARK, '').trim(),
+      marked: start.starred || ANSWER_MARK.test(raw) || emphasised(line.runs, start.contentStart, end),
+    };
+  });
+}
+
+interface KeyEntry {
+  section: number;
+  number: number;
+  answer: string;
+}
+
+/** Pull an answer key printed at the end of the document out of the lines */
+function extractAnswerKey(lines: DocumentLine[]): { body: DocumentLine[]; key: KeyEntry[] } {
+  const start = lines.findIndex(l => ANSWER_KEY_HEADER.test(lineText(l)));
+  if (start < 0) return { body: lines, key: [] };
+
+  const key: KeyEntry[] = [];
+  let section = 0;
+  for (const line of lines.slice(start + 1)) {
+    const text = lineText(line).trim();
+    if (!text) continue;
+    if (SECTION_HEADER.test(text)) {
+      section++;
+      continue;
+    }
+    KEY_ENTRY.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = KEY_ENTRY.exec(text))) {
+      key.push({ section, number: Number(match[1]), answer: match[2].trim() });
+    }
+  }
+  return { body: lines.slice(0, start), key };
+}
+
+interface Block {
+  number: number;
+  section: number;
+  sectionTitle?: string;
+  sectionType: SectionType | null;
+  stem: string[];
+  choices: Choice[];
+  answer?: string;
+  images: DocumentImage[];
+  notes: string[];
+  penalty: number;
+}
+
+/**
+ * Find the questions in a document's lines.
+ */
+export function detectQuestions(allLines: DocumentLine[]): DetectionResult {
+  const issues: InterchangeIssue[] = [];
+  const { body: lines, key } = extractAnswerKey(allLines);
+
+  const blocks: Block[] = [];
+  let current: Block | null = null;
+  let section = 0;
+  let sectionTitle: string | undefined;
+  let currentType: SectionType | null = null;
+  let pendingImages: DocumentImage[] = [];
+  let lastNumber = 0;
+  let matchingResponses: Choice[] = [];
+  const matchingSections = new Map<number, { title?: string; responses: Choice[] }>();
+
+  const penalise = (block: Block, amount: number, note: string) => {
+    block.penalty += amount;
+    if (!block.notes.includes(note)) block.notes.push(note);
+  };
+
+  for (const line of lines) {
+    const text = lineText(line).replace(/\s+$/, '');
+    const images = line.images ?? [];
+
+    if (!text.trim()) {
+      if (images.length) {
+        if (current) current.images.push(...images);
+        else pendingImages.push(...images);
+      }
+      continue;
+    }
+
+    const header = text.match(SECTION_HEADER);
+    if (header && !ITEM_START.test(text)) {
+      section++;
+      sectionTitle = text.trim();
+      currentType = sectionType(header[3]) ?? sectionType(text);
+      current = null;
+      lastNumber = 0;
+      matchingResponses = [];
+      if (currentType === 'matching') matchingSections.set(section, { title: sectionTitle, responses: matchingResponses });
+      continue;
+    }
+
+    const answer = text.match(ANSWER_LINE);
+    if (answer && current) {
+      current.answer = answer[1].replace(ANSWER_MARK, '').trim();
+      continue;
+    }
+
+    const item = text.match(ITEM_START);
+    if (item) {
+      const number = Number(item[1]);
+      current = {
+        number,
+        section,
+        sectionTitle,
+        sectionType: currentType,
+        stem: [],
+        choices: [],
+        images: [...pendingImages, ...images],
+        notes: [],
+        penalty: 0,
+      };
+      pendingImages = [];
+      if (lastNumber && number !== lastNumber + 1) {
+        penalise(current, 0.1, `Numbering jumps from ${lastNumber} to ${number}`);
+      }
+      lastNumber = number;
+      blocks.push(current);
+
+      // The rest of the line may hold the stem followed by choices, or a matching response
+      const rest: DocumentLine = { runs: [{ text: item[2] }] };
+      const offset = text.length - item[2].length;
+      const restRuns = sliceRuns(line.runs, offset);
+      const inline = findInlineChoices({ runs: restRuns }, currentType === 'matching' ? matchingResponses.length : 0);
+      if (inline && currentType === 'matching') {
+        current.stem.push(lineText(rest).slice(0, inline.at).trim());
+        matchingResponses.push(...inline.choices);
+      } else if (inline) {
+        current.stem.push(lineText(rest).slice(0, inline.at).trim());
+        current.choices.push(...inline.choices);
+      } else {
+        current.stem.push(item[2].trim());
+      }
+      continue;
+    }
+
+    if (currentType === 'matching') {
+      const responses = choicesIn(line, matchingResponses.length);
+      if (responses) {
+        matchingResponses.push(...responses);
+        continue;
+      }
+    }
+
+    if (!current) {
+      // Directions and other text before the first item of a section
+      if (images.length) pendingImages.push(...images);
+      continue;
+    }
+    current.images.push(...images);
+
+    const choices = choicesIn(line, current.choices.length);
+    if (choices && currentType !== 'matching') {
+      current.choices.push(...choices);
+      continue;
+    }
+
+    if (current.choices.length === 0) {
+      current.stem.push(text.trim());
+    } else if (/^[a-z]/.test(text.trim())) {
+      // A wrapped choice continues on the next line
+      const last = current.choices[current.choices.length - 1];
+      last.text = `${last.text} ${text.trim()}`;
+    } else {
+      penalise(current, 0.1, `Unplaced text: "${text.trim().slice(0, 40)}"`);
+    }
+  }
+
+  if (blocks.length === 0) {
+    issues.push({ item: 'document', message: 'No numbered questions found', severity: 'error' });
+    return { questions: [], issues };
+  }
+
+  applyAnswerKey(blocks, key);
+
+  const questions: DetectedQuestion[] = [];
+  const matchingDone = new Set<number>();
+  for (const block of blocks) {
+    if (block.sectionType === 'matching' && matchingSections.has(block.section)) {
+      if (matchingDone.has(block.section)) continue;
+      matchingDone.add(block.section);
+      const question = matchingQuestion(blocks.filter(b => b.section === block.section), matchingSections.get(block.section)!);
+      if (question) questions.push(question);
+      continue;
+    }
+    questions.push(toQuestion(block));
+  }
+  return { questions, issues };
+}
+
+/** Runs from character `offset` on */
+function sliceRuns(runs: TextRun[], offset: number): TextRun[] {
+  const result: TextRun[] = [];
+  let position = 0;
+  for (const run of runs) {
+    const end = position + run.text.length;
+    if (end > offset) result.push({ ...run, text: run.text.slice(Math.max(0, offset - position)) });
+    position = end;
+  }
+  return result;
+}
+
+/** Choices that follow the stem on the item's own line, e.g. "Capital of France? a. Paris b. Rome" */
+function findInlineChoices(line: DocumentLine, next: number): { at: number; choices: Choice[] } | null {
+  const text = lineText(line);
+  const label = optionLetter(next).toLowerCase();
+  const pattern = new RegExp(`(^|\\s{2,}|\\t|\\?\\s*|:\\s*)(?:[*✓✔]\\s*)?\\(?[${label}${label.toUpperCase()}]\\s*[.)]\\s+`);
+  const match = text.match(pattern);
+  if (!match || match.index === undefined) return null;
+  const at = match.index + match[1].length;
+  const choices = choicesIn({ runs: sliceRuns(line.runs, at) }, next);
+  if (!choices || choices.length < (next === 0 ? 2 : 1)) return null;
+  return { at, choices };
+}
+
+function applyAnswerKey(blocks: Block[], key: KeyEntry[]) {
+  if (key.length === 0) return;
+  const keySections = new Set(key.map(k => k.section));
+  const testSections = new Set(blocks.map(b => b.section));
+  const numbersUnique = new Set(blocks.map(b => b.number)).size === blocks.length;
+
+  let find: (block: Block, index: number) => KeyEntry | undefined;
+  if (keySections.size > 1 && keySections.size === testSections.size) {
+    // Sections of the key line up with the sections of the test
+    const sectionIds = [...testSections].sort((a, b) => a - b);
+    const keyIds = [...keySections].sort((a, b) => a - b);
+    find = block => key.find(k => k.section === keyIds[sectionIds.indexOf(block.section)] && k.number === block.number);
+  } else if (numbersUnique) {
+    find = block => key.find(k => k.number === block.number);
+  } else if (key.length === blocks.length) {
+    find = (_, index) => key[index];
+  } else {
+    return;
+  }
+
+  blocks.forEach((block, index) => {
+    const entry = find(block, index);
+    if (!entry) return;
+    if (block.answer && block.answer.toLowerCase() !== entry.answer.toLowerCase()) {
+      block.penalty += 0.2;
+      block.notes.push(`Answer key says ${entry.answer} but the item marks ${block.answer}`);
+    }
+    block.answer = block.answer ?? entry.answer;
+  });
+}
+
+function matchingQuestion(blocks: Block[], section: { title?: string; responses: Choice[] }): DetectedQuestion | null {
+  const notes: string[] = [];
+  let penalty = 0;
+  const pairs: [string, string][] = [];
+  const responses = section.responses.map(r => r.text);
+
+  for (const block of blocks) {
+    const premise = block.stem.join(' ').replace(/_{2,}/g, '').trim();
+    const letter = (block.answer ?? '').trim().toUpperCase();
+    const response = /^[A-Z]$/.test(letter) ? responses[letter.charCodeAt(0) - 65] : undefined;
+    if (!premise) continue;
+    if (response === undefined) {
+      penalty += 0.3;
+      notes.push(`No answer for ${block.number}. ${premise}`);
+      continue;
+    }
+    pairs.push([premise, response]);
+  }
+  if (pairs.length < 2) return null;
+
+  const used = new Set(pairs.map(([, r]) => r));
+  const { choices, correct_answer } = matchingFromPairs(pairs, responses.filter(r => !used.has(r)));
+  return {
+    item_number: blocks[0].number,
+    section: section.title,
+    question_text: section.title ? section.title.replace(SECTION_HEADER, '$3').trim() || section.title : 'Match the items.',
+    question_type: 'matching',
+    choices,
+    correct_answer,
+    parse_confidence: confidence(penalty),
+    parse_notes: notes,
+    images: blocks.flatMap(b => b.images),
+  };
+}
+
+function confidence(penalty: number): number {
+  return Math.round(Math.min(1, Math.max(0.05, 1 - penalty)) * 100) / 100;
+}
+
+function toQuestion(block: Block): DetectedQuestion {
+  const notes = [...block.notes];
+  let penalty = block.penalty;
+  const penalise = (amount: number, note: string) => {
+    penalty += amount;
+    notes.push(note);
+  };
+
+  const question_text = block.stem.filter(Boolean).join('\n');
+  if (question_text.length < 3) penalise(0.3, 'Question text is missing or very short');
+
+  const choices = block.choices.filter(c => c.text);
+  const marked = choices.filter(c => c.marked);
+  const answer = block.answer?.trim();
+  const trueFalseChoices = choices.length === 2 && choices.every(c => normalizeTrueFalse(c.text) !== null);
+
+  let type: SectionType;
+  if (choices.length >= 2 && !trueFalseChoices) type = 'mcq';
+  else if (trueFalseChoices) type = 'true_false';
+  else if (block.sectionType && block.sectionType !== 'matching' && block.sectionType !== 'mcq') type = block.sectionType;
+  else if (answer && normalizeTrueFalse(answer)) type = 'true_false';
+  else if (/_{3,}/.test(question_text) || answer) type = 'short_answer';
+  else {
+    type = 'essay';
+    penalise(0.25, 'Question type guessed: no choices, answer or section heading');
+  }
+
+  if (block.sectionType && block.sectionType !== type && block.sectionType !== 'matching') {
+    penalise(0.15, `Section heading says ${block.sectionType.replace('_', ' ')} but the item looks like ${type.replace('_', ' ')}`);
+  }
+
+  const question: DetectedQuestion = {
+    item_number: block.number,
+    section: block.sectionTitle,
+    question_text,
+    question_type: type,
+    parse_confidence: 1,
+    parse_notes: notes,
+    ...(block.images.length ? { images: block.images } : {}),
+  };
+
+  if (type === 'mcq') {
+    question.choices = Object.fromEntries(choices.map((c, i) => [optionLetter(i), c.text]));
+    if (choices.some((c, i) => c.letter !== optionLetter(i))) penalise(0.15, 'Choice letters are out of sequence');
+    if (choices.length < 3) penalise(0.1, 'Only two choices');
+
+    const keyed = answer?.replace(/[.)]$/, '').toUpperCase();
+    const fromKey = keyed && /^[A-H]$/.test(keyed) && keyed.charCodeAt(0) - 65 < choices.length ? keyed : null;
+    const fromMarks = marked.length === 1 ? optionLetter(choices.indexOf(marked[0])) : null;
+    if (marked.length > 1) penalise(0.3, `${marked.length} choices are marked as correct`);
+    if (fromKey && fromMarks && fromKey !== fromMarks) penalise(0.2, `Answer line says ${fromKey} but choice ${fromMarks} is marked`);
+    question.correct_answer = fromKey ?? fromMarks ?? null;
+    if (!question.correct_answer) penalise(0.3, 'No correct answer found');
+  } else if (type === 'true_false') {
+    const value = normalizeTrueFalse(answer ?? null)
+      ?? (marked.length === 1 ? normalizeTrueFalse(marked[0].text) : null);
+    question.correct_answer = value ? (value === 'T' ? 'True' : 'False') : null;
+    if (!value) penalise(0.3, 'No true/false answer found');
+  } else if (type === 'short_answer') {
+    question.correct_answer = answer ?? null;
+    if (!answer) penalise(0.2, 'No answer found');
+  } else if (type === 'essay') {
+    question.correct_answer = answer ?? null;
+  }
+
+  question.parse_confidence = confidence(penalty);
+  return question;
+}
@@ -0,0 +1,890 @@
+/**
+ * Word (DOCX) Document Generator
+ * Builds editable OOXML documents for tests, answer keys and the TOS,
+ * laid out like the printed ISO forms
+ */
+
+import { strToU8, zipSync } from 'fflate';
+import type { ExamFormat, ExamSection } from '@/types/examFormats';
+import { scaledFormatSections } from '@/types/examFormats';
+import { ObjectiveType, objectiveType } from '@/services/scoring/answerSheet';
+import { TestItem, parseTestItems, resolveOptionLetter } from '@/services/psychometrics/testItems';
+import { answerLetters, describeNumericKey, formatLetters, isLetterListKind } from '@/types/questionTypes';
+import { MathNode, hasMarkup, parseMarkup, parseTex } from '@/lib/questionMarkup';
+import { escapeXml } from '@/lib/xml';
+import { QuestionAttachment, attachmentBox, attachmentKey, attachmentsAt, isImageAttachment } from '@/types/attachments';
+import { BLOOM_DISTRIBUTION, BloomLevel, CanonicalTOSMatrix, getDifficultySplit } from '@/utils/tosCalculator';
+
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+/** The controlled-document block printed at the top of every page */
+export interface ISOHeaderInfo {
+  docNo: string;
+  effectiveDate: string;
+  revNo: string;
+  institution?: string;
+}
+
+export const EXAM_ISO_HEADER: ISOHeaderInfo = { docNo: 'F-DOI-018', effectiveDate: '08/25/2017', revNo: '0' };
+export const TOS_ISO_HEADER: ISOHeaderInfo = { docNo: 'F-DOI-009', effectiveDate: '11/17/2025', revNo: '3' };
+
+const INSTITUTION = 'AGUSAN DEL SUR STATE COLLEGE OF AGRICULTURE AND TECHNOLOGY';
+const INSTITUTION_LINES = [
+  'Bunawan, Agusan del Sur',
+  'website: http://asscat.edu.ph',
+  'email address: op@asscat.edu.ph; mobile no.: +639486379266',
+];
+
+const DEFAULT_INSTRUCTIONS = 'Make sure your mobile phone is switched off and place it at the front together with any bags, books, and etc. If you have a question or need more papers, raise your hand and ask the proctor. Keep your eyes on your own paper. Remember, copying is cheating! Stop writing immediately when the proctor says it is the end of the exam. You must remain silent until after you have exited the room.';
+
+export interface Signatories {
+  prepared_by?: string | null;
+  checked_by?: string | null;
+  noted_by?: string | null;
+}
+
+/** The columns of a `generated_tests` row the document is built from */
+export interface DocxTestSource {
+  title?: string | null;
+  subject?: string | null;
+  course?: string | null;
+  year_section?: string | null;
+  exam_period?: string | null;
+  school_year?: string | null;
+  time_limit?: number | null;
+  instructions?: string | null;
+  version_label?: string | null;
+  items: unknown;
+  answer_key?: unknown;
+}
+
+export interface TestDocxOptions {
+  /** Section headings and instructions; without one, sections follow the item types */
+  format?: ExamFormat;
+  includeAnswerKey?: boolean;
+  signatories?: Signatories;
+  header?: ISOHeaderInfo;
+  /** PNG bytes of the institution logo */
+  logo?: Uint8Array;
+  /** Appends the TOS on landscape pages */
+  tos?: CanonicalTOSMatrix;
+  /** Bytes of the items' attachments by attachmentKey (QuestionMedia.download); others print their alt text */
+  media?: Record<string, Uint8Array>;
+}
+
+export interface TOSDocxOptions {
+  header?: ISOHeaderInfo;
+  logo?: Uint8Array;
+}
+
+// ---------------------------------------------------------------------------
+// OOXML building blocks. Sizes are in twips (1/20 pt); font sizes in half-points.
+// ---------------------------------------------------------------------------
+
+const NS = {
+  w: 'http://schemas.openxmlformats.org/wordprocessingml/2006/main',
+  r: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+  wp: 'http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing',
+  a: 'http://schemas.openxmlformats.org/drawingml/2006/main',
+  pic: 'http://schemas.openxmlformats.org/drawingml/2006/picture',
+  m: 'http://schemas.openxmlformats.org/officeDocument/2006/math',
+  rel: 'http://schemas.openxmlformats.org/package/2006/relationships',
+};
+
+const PORTRAIT = { width: 12240, height: 15840, margin: 1080 };
+const LANDSCAPE = { width: 15840, height: 12240, margin: 864 };
+
+interface RunStyle {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  caps?: boolean;
+  size?: number;
+  /** Courier New, for code */
+  mono?: boolean;
+}
+
+interface ParagraphStyle {
+  align?: 'left' | 'center' | 'right' | 'both';
+  keepNext?: boolean;
+  pageBreakBefore?: boolean;
+  /** Box around the paragraph, or a rule under it */
+  border?: 'box' | 'bottom';
+  spacingBefore?: number;
+  spacingAfter?: number;
+  indentLeft?: number;
+  hanging?: number;
+}
+
+interface CellSpec {
+  content: string;
+  span?: number;
+  /** 'restart' opens a vertical merge, 'continue' extends the one above */
+  vMerge?: 'restart' | 'continue';
+  shade?: string;
+}
+
+interface TableStyle {
+  widths: number[];
+  borders?: boolean;
+  /** Leading rows repeated at the top of each page */
+  headerRows?: number;
+}
+
+function run(text: string, style: RunStyle = {}): string {
+  const props = [
+    style.mono ? '<w:rFonts w:ascii="Courier New" w:hAnsi="Courier New" w:cs="Courier New"/>' : '',
+    style.bold ? '<w:b/>' : '',
+    style.italic ? '<w:i/>' : '',
+    style.caps ? '<w:caps/>' : '',
+    style.size ? `<w:sz w:val="${style.size}"/><w:szCs w:val="${style.size}"/>` : '',
+    style.underline ? '<w:u w:val="single"/>' : '',
+  ].join('');
+  const rPr = props ? `<w:rPr>${props}</w:rPr>` : '';
+  const body = text
+    .split('\n')
+    .map(line => line.split('\t').map(part => `<w:t xml:space="preserve">${escapeXml(part)}</w:t>`).join('<w:tab/>'))
+    .join('<w:br/>');
+  return `<w:r>${rPr}${body}</w:r>`;
+}
+
+/** Office Math for a parsed TeX expression */
+function omml(nodes: MathNode[] | undefined): string {
+  return (nodes ?? []).map(node => {
+    switch (node.kind) {
+      case 'text': {
+        const rPr = node.roman ? '<m:rPr><m:sty m:val="p"/></m:rPr>' : '';
+        return `<m:r>${rPr}<m:t xml:space="preserve">${escapeXml(node.text)}</m:t></m:r>`;
+      }
+      case 'group':
+        return omml(node.children);
+      case 'script': {
+        const base = `<m:e>${omml(node.base)}</m:e>`;
+        if (node.sub && node.sup) return `<m:sSubSup>${base}<m:sub>${omml(node.sub)}</m:sub><m:sup>${omml(node.sup)}</m:sup></m:sSubSup>`;
+        if (node.sub) return `<m:sSub>${base}<m:sub>${omml(node.sub)}</m:sub></m:sSub>`;
+        return `<m:sSup>${base}<m:sup>${omml(node.sup)}</m:sup></m:sSup>`;
+      }
+      case 'frac': {
+        const fraction = `<m:f>${node.binom ? '<m:fPr><m:type m:val="noBar"/></m:fPr>' : ''}`
+          + `<m:num>${omml(node.num)}</m:num><m:den>${omml(node.den)}</m:den></m:f>`;
+        return node.binom ? `<m:d><m:e>${fraction}</m:e></m:d>` : fraction;
+      }
+      case 'sqrt':
+        return node.index
+          ? `<m:rad><m:deg>${omml(node.index)}</m:deg><m:e>${omml(node.body)}</m:e></m:rad>`
+          : `<m:rad><m:radPr><m:degHide m:val="1"/></m:radPr><m:deg/><m:e>${omml(node.body)}</m:e></m:rad>`;
+    }
+  }).join('');
+}
+
+/** Runs for question text: math as Office Math, code in Courier New on its own lines */
+function markupRuns(text: string, style: RunStyle = {}): string {
+  if (!hasMarkup(text)) return run(text, style);
+  return parseMarkup(text).map(segment => {
+    if (segment.type === 'text') return run(segment.text, style);
+    if (segment.type === 'math') {
+      const math = `<m:oMath>${omml(parseTex(segment.tex))}</m:oMath>`;
+      return segment.display ? `<m:oMathPara>${math}</m:oMathPara>` : math;
+    }
+    if (!segment.block) return run(segment.code, { ...style, mono: true });
+    return run(`\n${segment.code}\n`, { ...style, mono: true });
+  }).join('');
+}
+
+function paragraph(runs: string | string[], style: ParagraphStyle = {}): string {
+  const line = '<w:top w:val="single" w:sz="12" w:space="4" w:color="000000"/>';
+  const borders = style.border === 'box'
+    ? `<w:pBdr>${line}${line.replace('top', 'left')}${line.replace('top', 'bottom')}${line.replace('top', 'right')}</w:pBdr>`
+    : style.border === 'bottom'
+      ? '<w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="000000"/></w:pBdr>'
+      : '';
+  const pPr = [
+    style.keepNext ? '<w:keepNext/>' : '',
+    style.pageBreakBefore ? '<w:pageBreakBefore/>' : '',
+    borders,
+    `<w:spacing w:before="${style.spacingBefore ?? 0}" w:after="${style.spacingAfter ?? 80}"/>`,
+    style.indentLeft || style.hanging
+      ? `<w:ind w:left="${style.indentLeft ?? 0}"${style.hanging ? ` w:hanging="${style.hanging}"` : ''}/>`
+      : '',
+    style.align ? `<w:jc w:val="${style.align}"/>` : '',
+  ].join('');
+  return `<w:p><w:pPr>${pPr}</w:pPr>${Array.isArray(runs) ? runs.join('') : runs}</w:p>`;
+}
+
+function table(rows: CellSpec[][], style: TableStyle): string {
+  const border = style.borders === false ? 'nil' : 'single';
+  const edge = (side: string) => `<w:${side} w:val="${border}" w:sz="8" w:space="0" w:color="000000"/>`;
+  const tblPr = `<w:tblPr><w:tblW w:w="${style.widths.reduce((a, b) => a + b, 0)}" w:type="dxa"/>`
+    + `<w:tblBorders>${['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(edge).join('')}</w:tblBorders>`
+    + '<w:tblLayout w:type="fixed"/>'
+    + '<w:tblCellMar><w:left w:w="80" w:type="dxa"/><w:right w:w="80" w:type="dxa"/></w:tblCellMar></w:tblPr>';
+  const grid = `<w:tblGrid>${style.widths.map(w => `<w:gridCol w:w="${w}"/>`).join('')}</w:tblGrid>`;
+
+  const body = rows.map((cells, rowIndex) => {
+    let column = 0;
+    const tcs = cells.map(cell => {
+      const span = cell.span ?? 1;
+      const width = style.widths.slice(column, column + span).reduce((a, b) => a + b, 0);
+      column += span;
+      const tcPr = `<w:tcPr><w:tcW w:w="${width}" w:type="dxa"/>`
+        + (span > 1 ? `<w:gridSpan w:val="${span}"/>` : '')
+        + (cell.vMerge === 'restart' ? '<w:vMerge w:val="restart"/>' : cell.vMerge === 'continue' ? '<w:vMerge/>' : '')
+        + (cell.shade ? `<w:shd w:val="clear" w:color="auto" w:fill="${cell.shade}"/>` : '')
+        + '<w:vAlign w:val="center"/></w:tcPr>';
+      return `<w:tc>${tcPr}${cell.content || paragraph('', { spacingAfter: 0 })}</w:tc>`;
+    }).join('');
+    const trPr = rowIndex < (style.headerRows ?? 0) ? '<w:trPr><w:tblHeader/></w:trPr>' : '<w:trPr><w:cantSplit/></w:trPr>';
+    return `<w:tr>${trPr}${tcs}</w:tr>`;
+  }).join('');
+
+  return `<w:tbl>${tblPr}${grid}${body}</w:tbl>`;
+}
+
+const cell = (text: string, runStyle: RunStyle = {}, paraStyle: ParagraphStyle = {}): string =>
+  paragraph(run(text, runStyle), { spacingAfter: 0, ...paraStyle });
+
+function toRoman(num: number): string {
+  const map: [number, string][] = [[10, 'X'], [9, 'IX'], [5, 'V'], [4, 'IV'], [1, 'I']];
+  let result = '';
+  for (const [value, symbol] of map) {
+    while (num >= value) {
+      result += symbol;
+      num -= value;
+    }
+  }
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// ISO header and signatures
+// ---------------------------------------------------------------------------
+
+const LOGO_RELATIONSHIP = 'rIdLogo';
+const LOGO_SIZE_EMU = 914400; // 72pt
+
+/** An inline picture; `descr` is the alt text screen readers announce */
+function drawingRun(id: number, relationship: string, name: string, cx: number, cy: number, descr = ''): string {
+  const size = `cx="${cx}" cy="${cy}"`;
+  return '<w:r><w:drawing>'
+    + `<wp:inline distT="0" distB="0" distL="0" distR="0"><wp:extent ${size}/><wp:docPr id="${id}" name="${escapeXml(name)}"${descr ? ` descr="${escapeXml(descr)}"` : ''}/>`
+    + `<a:graphic><a:graphicData uri="${NS.pic}"><pic:pic>`
+    + `<pic:nvPicPr><pic:cNvPr id="${id}" name="${escapeXml(name)}"/><pic:cNvPicPr/></pic:nvPicPr>`
+    + `<pic:blipFill><a:blip r:embed="${relationship}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>`
+    + `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext ${size}/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>`
+    + '</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>';
+}
+
+function logoRun(id: number): string {
+  return drawingRun(id, LOGO_RELATIONSHIP, 'logo.png', LOGO_SIZE_EMU, LOGO_SIZE_EMU);
+}
+
+function headerXml(info: ISOHeaderInfo, contentWidth: number, logoId: number | null): string {
+  const small = { size: 17 };
+  const metaCell = (text: string) => cell(text, small);
+  const pageCell = paragraph([
+    '<w:fldSimple w:instr=" PAGE "><w:r><w:rPr><w:sz w:val="17"/></w:rPr><w:t>1</w:t></w:r></w:fldSimple>',
+    run(' of ', small),
+    '<w:fldSimple w:instr=" NUMPAGES "><w:r><w:rPr><w:sz w:val="17"/></w:rPr><w:t>1</w:t></w:r></w:fldSimple>',
+  ], { spacingAfter: 0 });
+  const meta = table([
+    [{ content: metaCell('Doc No.:') }, { content: metaCell(info.docNo) }],
+    [{ content: metaCell('Effective Date:') }, { content: metaCell(info.effectiveDate) }],
+    [{ content: metaCell('Rev No.:') }, { content: metaCell(info.revNo) }],
+    [{ content: metaCell('Page No.:') }, { content: pageCell }],
+  ], { widths: [1300, 1500] });
+
+  const institution = [
+    cell(info.institution || INSTITUTION, { bold: true, size: 22, caps: true }),
+    ...INSTITUTION_LINES.map(line => cell(line, { size: 18 })),
+  ].join('');
+
+  const logoWidth = 1640;
+  const metaWidth = 2900;
+  const block = table([[
+    { content: paragraph(logoId == null ? '' : logoRun(logoId), { spacingAfter: 0 }) },
+    { content: institution },
+    // A cell may not end with a table
+    { content: meta + paragraph('', { spacingAfter: 0 }) },
+  ]], { widths: [logoWidth, contentWidth - logoWidth - metaWidth, metaWidth], borders: false });
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>`
+    + `<w:hdr xmlns:w="${NS.w}" xmlns:r="${NS.r}" xmlns:wp="${NS.wp}" xmlns:a="${NS.a}" xmlns:pic="${NS.pic}">`
+    + block + paragraph('', { spacingAfter: 120 }) + '</w:hdr>';
+}
+
+function signatureTable(signatories: Signatories, contentWidth: number): string {
+  const column = Math.floor(contentWidth / 3);
+  const block = (label: string, name: string | null | undefined, title: string) => [
+    cell(label, { size: 20 }),
+    paragraph(run(name || '', { bold: true, caps: true }), { spacingBefore: 360, spacingAfter: 0, border: 'bottom', align: 'center' }),
+    cell(title, { italic: true, size: 18 }, { align: 'center' }),
+  ].join('');
+
+  return paragraph('', { spacingBefore: 360 }) + table([[
+    { content: block('Prepared by:', signatories.prepared_by, 'Subject Instructor') },
+    { content: block('Checked and Reviewed by:', signatories.checked_by, 'Program Chair') },
+    { content: block('Noted by:', signatories.noted_by, 'Dean') },
+  ]], { widths: [column, column, column], borders: false });
+}
+
+// ---------------------------------------------------------------------------
+// Test questionnaire and answer key
+// ---------------------------------------------------------------------------
+
+type ItemKind = ObjectiveType | 'essay';
+
+const KIND_HEADINGS: Record<ItemKind, { title: string; instruction: string }> = {
+  mcq: { title: 'MULTIPLE CHOICE', instruction: 'Direction: Read and understand each statement and select the best letter to the correct number' },
+  true_false: { title: 'TRUE OR FALSE', instruction: 'Direction: Read and understand each statement and write TRUE if the statement is correct, and write FALSE if the statement is wrong.' },
+  fill_blank: { title: 'FILL IN THE BLANK', instruction: 'Direction: Read and understand each statement and provide the correct word/s in the blank space in every statement.' },
+  essay: { title: 'ESSAY', instruction: 'Direction: Answer the following questions in complete sentences. Provide clear and concise explanations.' },
+  matching: { title: 'MATCHING TYPE', instruction: 'Direction: Match each item in Column A with the correct answer in Column B. Write the letter on the space provided.' },
+  ordering: { title: 'ORDERING', instruction: 'Direction: Arrange the given items in the correct order. Write the letters in sequence on the space provided.' },
+  multiple_response: { title: 'MULTIPLE RESPONSE', instruction: 'Direction: Select ALL the correct answers for each item. Write every letter that applies on the space provided.' },
+  numeric: { title: 'PROBLEM SOLVING', instruction: 'Direction: Solve each problem and write the numerical answer, with its unit, on the space provided.' },
+};
+
+interface ExamBlock {
+  heading: string;
+  instruction: string;
+  kind: ItemKind;
+  items: TestItem[];
+}
+
+function itemKind(questionType: string): ItemKind {
+  const type = objectiveType(questionType);
+  if (type) return type;
+  return /essay/i.test(questionType) ? 'essay' : 'fill_blank';
+}
+
+/**
+ * Sections in item order: the exam format's sections when one is given,
+ * otherwise the `section_*` labels stored on the items or runs of one item type.
+ */
+function examBlocks(rawItems: unknown, items: TestItem[], format?: ExamFormat): ExamBlock[] {
+  const blocks: ExamBlock[] = [];
+  const ordered = [...items].sort((a, b) => a.itemNumber - b.itemNumber);
+
+  if (format) {
+    const sections: ExamSection[] = format.totalItems === ordered.length
+      ? format.sections
+      : scaledFormatSections(format, ordered.length);
+    const placed = new Set<TestItem>();
+    for (const section of sections) {
+      const members = ordered.filter(i => i.itemNumber >= section.startNumber && i.itemNumber <= section.endNumber);
+      members.forEach(i => placed.add(i));
+      if (members.length === 0) continue;
+      blocks.push({
+        heading: `${section.label.toUpperCase()}. ${section.title.toUpperCase()}`,
+        instruction: section.instruction,
+        kind: section.questionType,
+        items: members,
+      });
+    }
+    const rest = ordered.filter(i => !placed.has(i));
+    if (rest.length === 0) return blocks;
+    return blocks.concat(examBlocks(undefined, rest));
+  }
+
+  const raw = (Array.isArray(rawItems) ? rawItems : []) as Record<string, unknown>[];
+  const sectionOf = (item: TestItem) => {
+    const source = raw[items.indexOf(item)] ?? {};
+    return {
+      id: typeof source.section_id === 'string' ? source.section_id : null,
+      label: typeof source.section_label === 'string' ? source.section_label : null,
+      title: typeof source.section_title === 'string' ? source.section_title : null,
+    };
+  };
+
+  for (const item of ordered) {
+    const kind = itemKind(item.questionType);
+    const section = sectionOf(item);
+    const key = section.id ?? kind;
+    const last = blocks[blocks.length - 1];
+    if (last && (sectionOf(last.items[0]).id ?? last.kind) === key) {
+      last.items.push(item);
+      continue;
+    }
+    const heading = section.label && section.title
+      ? `${section.label.toUpperCase()}. ${section.title.toUpperCase()}`
+      : `TEST ${toRoman(blocks.length + 1)}. ${KIND_HEADINGS[kind].title}`;
+    blocks.push({ heading, instruction: KIND_HEADINGS[kind].instruction, kind, items: [item] });
+  }
+  return blocks;
+}
+
+function answerFor(item: TestItem, answerKey: unknown): string {
+  let value: unknown = item.correctAnswer;
+  if (value == null && answerKey && typeof answerKey === 'object') {
+    const entry = (answerKey as Record<string, unknown>)[String(item.itemNumber)];
+    value = entry && typeof entry === 'object' ? (entry as Record<string, unknown>).correct_answer : entry;
+  }
+  if (value == null || String(value).trim() === '') return '—';
+
+  const kind = itemKind(item.questionType);
+  if (kind === 'mcq') return resolveOptionLetter(value, item.choices) ?? String(value);
+  if (kind === 'true_false') return /^(t|true)$/i.test(String(value).trim()) ? 'TRUE' : 'FALSE';
+  if (isLetterListKind(kind)) return formatLetters(answerLetters(value));
+  if (kind === 'numeric') return describeNumericKey(value, item.numeric);
+  return String(value);
+}
+
+const markupCell = (label: string, text: string): string =>
+  paragraph([run(label, { size: 20 }), markupRuns(text, { size: 20 })], { spacingAfter: 0 });
+
+// ---------------------------------------------------------------------------
+// Question attachments
+// ---------------------------------------------------------------------------
+
+const EMU_PER_TWIP = 635;
+const MAX_FIGURE_HEIGHT = 5760; // 4in
+/** Formats Word displays; others (SVG, WebP) print their alt text instead */
+const EMBEDDABLE: Record<string, string> = { 'image/png': 'png', 'image/jpeg': 'jpeg', 'image/gif': 'gif', 'image/bmp': 'bmp' };
+
+interface EmbeddedImage {
+  relationship: string;
+  target: string;
+  bytes: Uint8Array;
+}
+
+interface BodyImages {
+  embedded: EmbeddedImage[];
+  /** Paragraphs with the attachments' pictures and captions, at most `maxWidth` twips wide */
+  figures: (attachments: QuestionAttachment[], maxWidth: number, indentLeft: number) => string;
+}
+
+function bodyImages(media: Record<string, Uint8Array> = {}): BodyImages {
+  const embedded: EmbeddedImage[] = [];
+  const relationships = new Map<string, string>();
+
+  const relationshipFor = (attachment: QuestionAttachment): string | null => {
+    const key = attachmentKey(attachment);
+    const ext = EMBEDDABLE[attachment.mime_type];
+    if (!ext || !media[key]) return null;
+    if (!relationships.has(key)) {
+      const n = embedded.length + 1;
+      embedded.push({ relationship: `rIdMedia${n}`, target: `media/image${n}.${ext}`, bytes: media[key] });
+      relationships.set(key, `rIdMedia${n}`);
+    }
+    return relationships.get(key);
+  };
+
+  let drawingId = 100;
+  const figures = (attachments: QuestionAttachment[], maxWidth: number, indentLeft: number) => attachments.map(attachment => {
+    const relationship = isImageAttachment(attachment) ? relationshipFor(attachment) : null;
+    let picture: string;
+    if (relationship) {
+      let { width, height } = attachmentBox(attachment, maxWidth);
+      if (height > MAX_FIGURE_HEIGHT) {
+        width *= MAX_FIGURE_HEIGHT / height;
+        height = MAX_FIGURE_HEIGHT;
+      }
+      picture = drawingRun(drawingId++, relationship, attachment.name, Math.round(width * EMU_PER_TWIP), Math.round(height * EMU_PER_TWIP), attachment.alt);
+    } else {
+      const label = isImageAttachment(attachment) ? 'Figure' : 'Attachment';
+      picture = run(`[${label}: ${attachment.alt || attachment.name}]`, { italic: true, size: 20 });
+    }
+    return paragraph(picture, { indentLeft, keepNext: !!attachment.caption, spacingAfter: attachment.caption ? 0 : 80 })
+      + (attachment.caption ? paragraph(run(attachment.caption, { italic: true, size: 18 }), { indentLeft, spacingAfter: 80 }) : '');
+  }).join('');
+
+  return { embedded, figures };
+}
+
+function questionXml(item: TestItem, kind: ItemKind, contentWidth: number, images: BodyImages): string {
+  const numberRun = run(`${item.itemNumber}.\t`, { bold: true });
+  const hanging = { indentLeft: 480, hanging: 480, align: 'both' as const };
+  const stemFigures = (indent: number) => images.figures(attachmentsAt(item.attachments, 'stem'), contentWidth - indent, indent);
+
+  if (kind === 'true_false') {
+    return paragraph([numberRun, run('________\t'), markupRuns(item.questionText)], { ...hanging, indentLeft: 1800, hanging: 1800 })
+      + stemFigures(1800);
+  }
+  if (kind === 'essay') {
+    const points = `(${item.points} ${item.points === 1 ? 'point' : 'points'})`;
+    const lines = Array.from({ length: Math.max(5, item.points * 2) }, () =>
+      paragraph('', { indentLeft: 480, border: 'bottom', spacingBefore: 240, spacingAfter: 0 })
+    );
+    return paragraph([numberRun, markupRuns(item.questionText), run(` ${points}`, { size: 18 })], { ...hanging, keepNext: true })
+      + stemFigures(480)
+      + lines.join('');
+  }
+
+  if (kind === 'matching') {
+    const premises = item.premises ?? [];
+    const letters = Object.keys(item.choices).sort();
+    const width = contentWidth - 480;
+    const widths = [Math.floor(width * 0.55), width - Math.floor(width * 0.55)];
+    const rows: CellSpec[][] = [[{ content: cell('Column A', { bold: true, size: 20 }) }, { content: cell('Column B', { bold: true, size: 20 }) }]];
+    for (let i = 0; i < Math.max(premises.length, letters.length); i++) {
+      rows.push([
+        { content: i < premises.length ? markupCell(`______ ${i + 1}. `, premises[i]) : '' },
+        {
+          content: i < letters.length
+            ? markupCell(`${letters[i]}. `, item.choices[letters[i]]) + images.figures(attachmentsAt(item.attachments, letters[i]), widths[1] - 160, 0)
+            : '',
+        },
+      ]);
+    }
+    return paragraph([numberRun, markupRuns(item.questionText)], { ...hanging, keepNext: true, spacingAfter: 60 })
+      + stemFigures(480)
+      + table(rows, { widths, borders: false, headerRows: 1 })
+      + paragraph('', { spacingAfter: 120 });
+  }
+  if (kind === 'numeric') {
+    const unit = item.numeric?.unit ? ` ${item.numeric.unit.split('|')[0]}` : '';
+    return paragraph([numberRun, markupRuns(item.questionText), run(`\tAnswer: ____________${unit}`)], { ...hanging, spacingAfter: 120 })
+      + stemFigures(480);
+  }
+
+  const listed = kind === 'mcq' || kind === 'ordering' || kind === 'multiple_response';
+  const prompt = kind === 'ordering'
+    ? ` (Order: ${Object.keys(item.choices).map(() => '____').join(' ')})`
+    : kind === 'multiple_response' ? ' (Select all that apply.)' : '';
+  const question = paragraph([numberRun, markupRuns(item.questionText), prompt ? run(prompt, { italic: true, size: 18 }) : ''], { ...hanging, keepNext: listed, spacingAfter: listed ? 40 : 120 });
+  if (!listed) return question;
+
+  const letters = Object.keys(item.choices).sort();
+  const options = letters.map((letter, i) =>
+    paragraph([run(`${letter.toLowerCase()}.\t`, { size: 20 }), markupRuns(item.choices[letter], { size: 20 })], {
+      indentLeft: 960,
+      hanging: 360,
+      keepNext: i < letters.length - 1,
+      spacingAfter: i === letters.length - 1 ? 120 : 0,
+    }) + images.figures(attachmentsAt(item.attachments, letter), contentWidth - 960, 960)
+  );
+  return question + stemFigures(480) + options.join('');
+}
+
+function testBody(test: DocxTestSource, options: TestDocxOptions, contentWidth: number, images: BodyImages): string {
+  const items = parseTestItems(test.items);
+  const blocks = examBlocks(test.items, items, options.format);
+  const parts: string[] = [];
+
+  parts.push(paragraph(run('TEST QUESTIONNAIRE', { bold: true, size: 32 }), { align: 'center', border: 'box', spacingBefore: 120, spacingAfter: 200 }));
+  parts.push(paragraph(run(`${test.exam_period || 'Midterm'} Examination`, { size: 24 }), { align: 'center' }));
+  parts.push(paragraph(run(`Academic Year: ${test.school_year || '2025 – 2026'}`, { size: 22 }), { align: 'center' }));
+  parts.push(paragraph(run(test.subject || test.title || '', { bold: true, italic: true, size: 24 }), { align: 'center', spacingAfter: 200 }));
+  if (test.version_label && test.version_label !== 'Parent') {
+    parts.push(paragraph(run(`Version ${test.version_label}`, { bold: true }), { align: 'center' }));
+  }
+
+  const half = Math.floor(contentWidth / 2);
+  const field = (label: string) => cell(`${label} ________________________________`, { size: 22 });
+  parts.push(table([
+    [{ content: field('Name:') }, { content: field('Score:') }],
+    [{ content: field('Course/Year/Sec.:') }, { content: field('Instructor:') }],
+  ], { widths: [half, half], borders: false }));
+  parts.push(paragraph('', { border: 'bottom', spacingAfter: 200 }));
+
+  parts.push(paragraph(run('General Instructions:', { bold: true, size: 24 }), { keepNext: true }));
+  parts.push(paragraph(run(test.instructions || DEFAULT_INSTRUCTIONS, { italic: true, size: 20 }), { align: 'both' }));
+  if (test.time_limit) {
+    parts.push(paragraph(run(`Time limit: ${test.time_limit} minutes`, { size: 20 })));
+  }
+  parts.push(paragraph([
+    run('Read and analyze each of the following questions carefully. Write the ', { size: 20 }),
+    run('CAPITAL LETTER', { bold: true, size: 20 }),
+    run(' of your choice on the space provided. ', { size: 20 }),
+    run('NOTE', { underline: true, size: 20 }),
+    run(': Do not use sticky tape or any kind of eraser fluid to change your answers. ', { size: 20 }),
+    run('MODIFIED/ERASURES IN ANSWERS ARE CONSIDERED WRONG.', { italic: true, size: 20 }),
+  ], { align: 'both', spacingAfter: 240 }));
+
+  blocks.forEach((block, index) => {
+    parts.push(paragraph(run(`${block.heading}:`, { bold: true, underline: true, size: 22 }), { keepNext: true, spacingBefore: index > 0 ? 280 : 0 }));
+    parts.push(paragraph(run(block.instruction, { italic: true, size: 20 }), { keepNext: true, spacingAfter: 120 }));
+    block.items.forEach(item => parts.push(questionXml(item, block.kind, contentWidth, images)));
+  });
+
+  parts.push(signatureTable(options.signatories ?? {}, contentWidth));
+
+  if (options.includeAnswerKey) {
+    parts.push(answerKeyBody(blocks, test.answer_key, contentWidth));
+  }
+  return parts.join('');
+}
+
+function answerKeyBody(blocks: ExamBlock[], answerKey: unknown, contentWidth: number): string {
+  const columns = 5;
+  const width = Math.floor(contentWidth / columns);
+  const parts = [paragraph(run('ANSWER KEY', { bold: true, size: 28 }), { align: 'center', pageBreakBefore: true, border: 'bottom', spacingAfter: 240 })];
+
+  for (const block of blocks) {
+    parts.push(paragraph(run(block.heading, { bold: true, size: 22 }), { keepNext: true, spacingBefore: 200 }));
+    const rows: CellSpec[][] = [];
+    for (let i = 0; i < block.items.length; i += columns) {
+      const row = block.items.slice(i, i + columns).map(item => ({
+        content: paragraph([run(`${item.itemNumber}. `, { bold: true, size: 20 }), run(answerFor(item, answerKey), { bold: true, size: 20 })], { spacingAfter: 0 }),
+      }));
+      while (row.length < columns) row.push({ content: '' });
+      rows.push(row);
+    }
+    parts.push(table(rows, { widths: Array(columns).fill(width) }));
+  }
+  return parts.join('');
+}
+
+// ---------------------------------------------------------------------------
+// Table of specification
+// ---------------------------------------------------------------------------
+
+const HEADER_FILL = '91E291';
+const TOTAL_FILL = 'F5F5F5';
+
+function formatItemNumbers(items: number[]): string {
+  if (!items || items.length === 0) return '';
+  if (items.length <= 3) return `(${items.join(',')})`;
+  const sorted = [...items].sort((a, b) => a - b);
+  const ranges: string[] = [];
+  let start = sorted[0], end = sorted[0];
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i] === end + 1) { end = sorted[i]; }
+    else { ranges.push(start === end ? `${start}` : `${start}-${end}`); start = end = sorted[i]; }
+  }
+  ranges.push(start === end ? `${start}` : `${start}-${end}`);
+  return `(${ranges.join(',')})`;
+}
+
+function tosBody(tos: CanonicalTOSMatrix, contentWidth: number): string {
+  const weights = tos.bloom_distribution?.weights ?? BLOOM_DISTRIBUTION;
+  const pctOf = (fraction: number) => `${Math.round(fraction * 1000) / 10}%`;
+  const split = getDifficultySplit(weights);
+  const levels: { key: BloomLevel; label: string }[] = [
+    { key: 'remembering', label: 'Remembering' },
+    { key: 'understanding', label: 'Understanding' },
+    { key: 'applying', label: 'Applying' },
+    { key: 'analyzing', label: 'Analyzing' },
+    { key: 'evaluating', label: 'Evaluating' },
+    { key: 'creating', label: 'Creating' },
+  ];
+
+  const parts: string[] = [];
+  parts.push(paragraph(run('TWO-WAY TABLE OF SPECIFICATION', { bold: true, size: 28 }), { align: 'center', border: 'box', spacingBefore: 120, spacingAfter: 200 }));
+
+  const half = Math.floor(contentWidth / 2);
+  const meta = (label: string, value: string) =>
+    paragraph([run(`${label}: `, { size: 22 }), run(value || '_______________', { underline: true, size: 22 })], { spacingAfter: 0 });
+  parts.push(table([
+    [{ content: meta('College', tos.description) }, { content: meta('Examination Period', tos.exam_period) }],
+    [{ content: meta('Subject No.', tos.subject_no) }, { content: meta('Year and Section', tos.year_section) }],
+    [{ content: meta('Description', tos.description) }, { content: meta('Course', tos.course) }],
+  ], { widths: [half, half], borders: false }));
+  parts.push(paragraph('', { spacingAfter: 120 }));
+
+  const th = (text: string, extra: Partial<CellSpec> = {}, size = 19): CellSpec => ({
+    content: cell(text, { bold: true, size }, { align: 'center' }),
+    shade: HEADER_FILL,
+    ...extra,
+  });
+  const merged: CellSpec = { content: '', vMerge: 'continue', shade: HEADER_FILL };
+  const td = (text: string, bold = false, shade?: string): CellSpec => ({ content: cell(text, { bold, size: 19 }, { align: 'center' }), shade });
+
+  const rows: CellSpec[][] = [
+    [
+      th('TOPIC', { vMerge: 'restart' }), th('NO. OF HOURS', { vMerge: 'restart' }), th('PERCENTAGE', { vMerge: 'restart' }),
+      th('COGNITIVE DOMAINS', { span: 6 }, 20),
+      th('ITEM PLACEMENT', { vMerge: 'restart' }), th('TOTAL', { vMerge: 'restart' }),
+    ],
+    [
+      merged, merged, merged,
+      th(`EASY (${pctOf(split.easy)})`, { span: 2 }, 17),
+      th(`AVERAGE (${pctOf(split.average)})`, { span: 2 }, 17),
+      th(`DIFFICULT (${pctOf(split.difficult)})`, { span: 2 }, 17),
+      merged, merged,
+    ],
+    [
+      merged, merged, merged,
+      ...levels.map(level => th(`${level.label} (${pctOf(weights[level.key])})`, {}, 16)),
+      merged, merged,
+    ],
+  ];
+
+  const totals = { hours: 0, total: 0, ...Object.fromEntries(levels.map(l => [l.key, 0])) } as Record<string, number>;
+  for (const topic of tos.topics) {
+    const dist = tos.distribution[topic.topic];
+    const hours = dist?.hours ?? topic.hours ?? 0;
+    totals.hours += hours;
+    totals.total += dist?.total ?? 0;
+    rows.push([
+      { content: cell(topic.topic, { size: 19 }) },
+      td(String(hours)),
+      td(`${dist?.percentage ?? 0}%`),
+      ...levels.map(level => {
+        const data = dist?.[level.key] ?? { count: 0, items: [] };
+        totals[level.key] += data.count;
+        return {
+          content: cell(String(data.count), { size: 19 }, { align: 'center' })
+            + cell(formatItemNumbers(data.items), { size: 15 }, { align: 'center' }),
+        };
+      }),
+      td('Test I', true),
+      td(String(dist?.total ?? 0), true),
+    ]);
+  }
+  rows.push([
+    { content: cell('TOTAL', { bold: true, size: 20 }), shade: TOTAL_FILL },
+    td(String(totals.hours), true, TOTAL_FILL),
+    td('100%', true, TOTAL_FILL),
+    ...levels.map(level => td(String(totals[level.key]), true, TOTAL_FILL)),
+    td('', false, TOTAL_FILL),
+    td(String(totals.total), true, TOTAL_FILL),
+  ]);
+
+  const bloomWidth = 1180;
+  const fixed = 900 + 1100 + 1200 + 900 + bloomWidth * 6;
+  parts.push(table(rows, {
+    widths: [Math.max(1800, contentWidth - fixed), 900, 1100, ...Array(6).fill(bloomWidth), 1200, 900],
+    headerRows: 3,
+  }));
+
+  parts.push(signatureTable(tos, contentWidth));
+  return parts.join('');
+}
+
+// ---------------------------------------------------------------------------
+// Packaging
+// ---------------------------------------------------------------------------
+
+interface DocumentSection {
+  body: string;
+  header: ISOHeaderInfo;
+  landscape?: boolean;
+  /** Pictures the body's drawings refer to */
+  images?: EmbeddedImage[];
+}
+
+function sectionProperties(index: number, landscape: boolean): string {
+  const page = landscape ? LANDSCAPE : PORTRAIT;
+  return `<w:sectPr><w:headerReference w:type="default" r:id="rIdHeader${index + 1}"/>`
+    + `<w:pgSz w:w="${page.width}" w:h="${page.height}"${landscape ? ' w:orient="landscape"' : ''}/>`
+    + `<w:pgMar w:top="${page.margin}" w:right="${page.margin}" w:bottom="${page.margin}" w:left="${page.margin}" w:header="432" w:footer="432" w:gutter="0"/>`
+    + '</w:sectPr>';
+}
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>`
+  + `<w:styles xmlns:w="${NS.w}"><w:docDefaults>`
+  + '<w:rPrDefault><w:rPr><w:rFonts w:ascii="Times New Roman" w:hAnsi="Times New Roman" w:cs="Times New Roman" w:eastAsia="Times New Roman"/>'
+  + '<w:sz w:val="22"/><w:szCs w:val="22"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault>'
+  + '<w:pPrDefault><w:pPr><w:spacing w:after="80" w:line="264" w:lineRule="auto"/></w:pPr></w:pPrDefault>'
+  + '</w:docDefaults><w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>'
+  + '</w:styles>';
+
+function packageDocx(sections: DocumentSection[], logo?: Uint8Array): Uint8Array {
+  const files: Record<string, Uint8Array> = {};
+  // Copy into this realm's Uint8Array; under jsdom TextEncoder hands back Node's
+  const xml = (text: string) => new Uint8Array(strToU8(text));
+
+  const body = sections.map((section, index) => {
+    const props = sectionProperties(index, !!section.landscape);
+    // Every section but the last ends with a paragraph carrying its properties;
+    // the last one's properties close the body, after a paragraph
+    return index < sections.length - 1 ? `${section.body}<w:p><w:pPr>${props}</w:pPr></w:p>` : `${section.body}<w:p/>${props}`;
+  }).join('');
+  const images = sections.flatMap(section => section.images ?? []);
+
+  files['[Content_Types].xml'] = xml(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>`
+    + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+    + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+    + '<Default Extension="xml" ContentType="application/xml"/>'
+    + '<Default Extension="png" ContentType="image/png"/>'
+    + '<Default Extension="jpeg" ContentType="image/jpeg"/>'
+    + '<Default Extension="gif" ContentType="image/gif"/>'
+    + '<Default Extension="bmp" ContentType="image/bmp"/>'
+    + '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>'
+    + '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>'
+    + sections.map((_, i) => `<Override PartName="/word/header${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml"/>`).join('')
+    + '</Types>');
+
+  files['_rels/.rels'] = xml(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>`
+    + `<Relationships xmlns="${NS.rel}">`
+    + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>'
+    + '</Relationships>');
+
+  files['word/_rels/document.xml.rels'] = xml(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>`
+    + `<Relationships xmlns="${NS.rel}">`
+    + '<Relationship Id="rIdStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>'
+    + sections.map((_, i) => `<Relationship Id="rIdHeader${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/header" Target="header${i + 1}.xml"/>`).join('')
+    + images.map(image => `<Relationship Id="${image.relationship}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="${image.target}"/>`).join('')
+    + '</Relationships>');
+
+  files['word/styles.xml'] = xml(STYLES_XML);
+
+  sections.forEach((section, i) => {
+    const page = section.landscape ? LANDSCAPE : PORTRAIT;
+    files[`word/header${i + 1}.xml`] = xml(headerXml(section.header, page.width - page.margin * 2, logo ? i + 1 : null));
+    if (logo) {
+      files[`word/_rels/header${i + 1}.xml.rels`] = xml(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>`
+        + `<Relationships xmlns="${NS.rel}">`
+        + `<Relationship Id="${LOGO_RELATIONSHIP}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/logo.png"/>`
+        + '</Relationships>');
+    }
+  });
+  if (logo) files['word/media/logo.png'] = logo;
+  images.forEach(image => { files[`word/${image.target}`] = image.bytes; });
+
+  files['word/document.xml'] = xml(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>`
+    + `<w:document xmlns:w="${NS.w}" xmlns:r="${NS.r}" xmlns:m="${NS.m}" xmlns:wp="${NS.wp}" xmlns:a="${NS.a}" xmlns:pic="${NS.pic}"><w:body>${body}</w:body></w:document>`);
+
+  return zipSync(files);
+}
+
+const contentWidth = (landscape: boolean) => {
+  const page = landscape ? LANDSCAPE : PORTRAIT;
+  return page.width - page.margin * 2;
+};
+
+/**
+ * Test questionnaire from a generated test, with its answer key on a new page
+ * and optionally the TOS on landscape pages after it.
+ */
+export function generateTestDocx(test: DocxTestSource, options: TestDocxOptions = {}): Uint8Array {
+  const images = bodyImages(options.media);
+  const sections: DocumentSection[] = [{
+    body: testBody(test, options, contentWidth(false), images),
+    header: options.header ?? EXAM_ISO_HEADER,
+    images: images.embedded,
+  }];
+  if (options.tos) {
+    sections.push({ body: tosBody(options.tos, contentWidth(true)), header: TOS_ISO_HEADER, landscape: true });
+  }
+  return packageDocx(sections, options.logo);
+}
+
+/**
+ * Two-way table of specification on landscape pages.
+ */
+export function generateTOSDocx(tos: CanonicalTOSMatrix, options: TOSDocxOptions = {}): Uint8Array {
+  return packageDocx(
+    [{ body: tosBody(tos, contentWidth(true)), header: options.header ?? TOS_ISO_HEADER, landscape: true }],
+    options.logo
+  );
+}
+
+/**
+ * The institution logo shown in the ISO header, if it can be fetched.
+ */
+export async function loadInstitutionLogo(url = '/images/institution-logo.png'): Promise<Uint8Array | undefined> {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return undefined;
+    return new Uint8Array(await response.arrayBuffer());
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Save a generated document through the browser.
+ */
+export function downloadDocx(bytes: Uint8Array, filename: string): void {
+  const blob = new Blob([bytes], { type: DOCX_MIME_TYPE });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename.endsWith('.docx') ? filename : `${filename}.docx`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
@@ -3,7 +3,19 @@
  * Generates LaTeX source code for academic test documents
  */
 
+import { zipSync } from 'fflate';
 import { TestMetadata } from './professionalTemplates';
+import { hasMarkup, parseMarkup } from '@/lib/questionMarkup';
+import {
+  ATTACHMENT_SIZE_FRACTION,
+  AttachmentPlacement,
+  QuestionAttachment,
+  attachmentFileName,
+  attachmentKey,
+  attachmentsAt,
+  isImageAttachment,
+  parseQuestionAttachments,
+} from '@/types/attachments';
 
 export interface LaTeXOptions {
   documentClass?: 'article' | 'exam' | 'report';
@@ -136,7 +148,9 @@ function generateQuestions(questions: any[]): string {
  * Generate a single question
  */
 function generateQuestion(question: any, number: number): string {
-  let latex = `\\question ${escapeLatex(question.question_text)}\n`;
+  const attachments = parseQuestionAttachments(question.attachments);
+  let latex = `\\question ${markupToLatex(question.question_text)}\n`;
+  latex += latexFigures(attachments, 'stem');
   
   if (question.question_type === 'multiple_choice' && question.choices) {
     latex += '\\begin{choices}\n';
@@ -144,9 +158,13 @@ function generateQuestion(question: any, number: number): string {
     const choices = typeof question.choices === 'string' 
       ? JSON.parse(question.choices) 
       : question.choices;
+    const entries: [string, string][] = Array.isArray(choices)
+      ? choices.map((choice: string, i: number) => [String.fromCharCode(65 + i), choice])
+      : Object.entries(choices);
     
-    choices.forEach((choice: string) => {
-      latex += `  \\choice ${escapeLatex(choice)}\n`;
+    entries.forEach(([letter, choice]) => {
+      latex += `  \\choice ${markupToLatex(String(choice))}\n`;
+      latex += latexFigures(attachments, letter);
     });
     
     latex += '\\end{choices}\n';
@@ -176,6 +194,55 @@ function generateAnswerKey(questions: any[]): string {
   return latex;
 }
 
+/**
+ * Question text for LaTeX: prose is escaped, math is passed through as TeX,
+ * inline code is set in \texttt and code blocks in a verbatim environment.
+ */
+export function markupToLatex(text: string): string {
+  if (!hasMarkup(text)) return escapeLatex(text);
+
+  return parseMarkup(text)
+    .map(segment => {
+      if (segment.type === 'text') return escapeLatex(segment.text);
+      if (segment.type === 'math') return segment.display ? `\\[${segment.tex}\\]` : `$${segment.tex}$`;
+      if (!segment.block) return `\\texttt{${escapeLatex(segment.code)}}`;
+      return `\n\\begin{verbatim}\n${segment.code}\n\\end{verbatim}\n`;
+    })
+    .join('');
+}
+
+/** Formats \includegraphics reads; others print their alt text instead */
+const INCLUDABLE = new Set(['image/png', 'image/jpeg', 'application/pdf']);
+
+/**
+ * The attachments at a placement as centred figures, read from the media/
+ * folder that packageLaTeX writes beside the .tex file.
+ */
+export function latexFigures(attachments: QuestionAttachment[], placement: AttachmentPlacement): string {
+  return attachmentsAt(attachments, placement).map(attachment => {
+    const body = INCLUDABLE.has(attachment.mime_type)
+      ? `\\includegraphics[width=${ATTACHMENT_SIZE_FRACTION[attachment.size]}\\linewidth]{media/${attachmentFileName(attachment)}}`
+      : `\\textit{[${isImageAttachment(attachment) ? 'Figure' : 'Attachment'}: ${escapeLatex(attachment.alt || attachment.name)}]}`;
+    const caption = attachment.caption ? `\\\\\n\\small\\textit{${escapeLatex(attachment.caption)}}` : '';
+    return `\\begin{center}\n${body}${caption}\n\\end{center}\n`;
+  }).join('');
+}
+
+/**
+ * Zip of the .tex file with the media/ folder its figures refer to, or null
+ * when none of the questions has an attachment to include.
+ */
+export function packageLaTeX(latex: string, fileName: string, questions: Array<{ attachments?: unknown }>, media: Record<string, Uint8Array>): Uint8Array | null {
+  const files: Record<string, Uint8Array> = {};
+  for (const attachment of questions.flatMap(q => parseQuestionAttachments(q.attachments))) {
+    const bytes = media[attachmentKey(attachment)];
+    if (bytes && INCLUDABLE.has(attachment.mime_type)) files[`media/${attachmentFileName(attachment)}`] = bytes;
+  }
+  if (Object.keys(files).length === 0) return null;
+  files[fileName] = new TextEncoder().encode(latex);
+  return zipSync(files);
+}
+
 /**
  * Escape special LaTeX characters
  */
@@ -5,6 +5,9 @@
 
 import jsPDF from 'jspdf';
 import { supabase } from '@/integrations/supabase/client';
+import { markupToPlainText, parseMarkup, texToText } from '@/lib/questionMarkup';
+import { latexFigures, markupToLatex } from './latexGenerator';
+import { QuestionAttachment, attachmentBox, attachmentKey, attachmentsAt, isImageAttachment, parseQuestionAttachments } from '@/types/attachments';
 
 export interface TestMetadata {
   title: string;
@@ -29,6 +32,8 @@ export interface ExportOptions {
   includeStatistics: boolean;
   watermark?: string;
   pageNumbers: boolean;
+  /** Bytes of the questions' attachments by attachmentKey (QuestionMedia.download); others print their alt text */
+  media?: Record<string, Uint8Array>;
 }
 
 export class ProfessionalTemplates {
@@ -210,9 +215,9 @@ export class ProfessionalTemplates {
       pdf.text(`${index + 1}.`, margin, yPos);
       
       pdf.setFont('helvetica', 'normal');
-      const questionText = pdf.splitTextToSize(q.question_text || q.text, pageWidth - margin * 2 - 10);
-      pdf.text(questionText, margin + 10, yPos);
-      yPos += questionText.length * 5 + 5;
+      yPos = this.drawQuestionText(pdf, q.question_text || q.text, margin + 10, yPos, pageWidth - margin * 2 - 10, 5) + 5;
+      const attachments = parseQuestionAttachments(q.attachments);
+      yPos = this.drawFigures(pdf, attachmentsAt(attachments, 'stem'), margin + 10, yPos, pageWidth - margin * 2 - 10, margin, options.media);
       
       // Multiple choice options with bubbles
       if (q.choices || q.options) {
@@ -224,9 +229,10 @@ export class ProfessionalTemplates {
           const letter = String.fromCharCode(65 + idx);
           pdf.text(`${letter}.`, margin + 15, yPos);
           
-          const choiceText = pdf.splitTextToSize(String(choice), pageWidth - margin * 2 - 25);
+          const choiceText = pdf.splitTextToSize(markupToPlainText(String(choice), true), pageWidth - margin * 2 - 25);
           pdf.text(choiceText, margin + 22, yPos);
           yPos += Math.max(choiceText.length * 5, 6);
+          yPos = this.drawFigures(pdf, attachmentsAt(attachments, letter), margin + 22, yPos, pageWidth - margin * 2 - 25, margin, options.media);
         });
       }
       
@@ -291,12 +297,9 @@ export class ProfessionalTemplates {
       pdf.text(`${index + 1}.`, margin, yPos);
       
       pdf.setFont('helvetica', 'normal');
-      const questionText = pdf.splitTextToSize(
-        q.question_text || q.text,
-        pageWidth - margin * 2 - 10
-      );
-      pdf.text(questionText, margin + 8, yPos);
-      yPos += questionText.length * 6 + 3;
+      yPos = this.drawQuestionText(pdf, q.question_text || q.text, margin + 8, yPos, pageWidth - margin * 2 - 10, 6) + 3;
+      const attachments = parseQuestionAttachments(q.attachments);
+      yPos = this.drawFigures(pdf, attachmentsAt(attachments, 'stem'), margin + 8, yPos, pageWidth - margin * 2 - 10, margin, options.media);
       
       // Add options for multiple choice
       if (q.choices || q.options) {
@@ -309,11 +312,12 @@ export class ProfessionalTemplates {
           
           const letter = String.fromCharCode(65 + idx);
           const choiceText = pdf.splitTextToSize(
-            `${letter}. ${choice}`,
+            `${letter}. ${markupToPlainText(String(choice), true)}`,
             pageWidth - margin * 2 - 15
           );
           pdf.text(choiceText, margin + 15, yPos);
           yPos += choiceText.length * 6;
+          yPos = this.drawFigures(pdf, attachmentsAt(attachments, letter), margin + 20, yPos, pageWidth - margin * 2 - 25, margin, options.media);
         });
       }
       
@@ -321,6 +325,84 @@ export class ProfessionalTemplates {
     });
   }
   
+  /**
+   * Draw question text with its math written out and code blocks in Courier,
+   * indentation kept. Returns the y position below the text.
+   */
+  private static drawQuestionText(pdf: jsPDF, text: string, x: number, y: number, width: number, lineHeight: number): number {
+    const chunks: { code: boolean; text: string }[] = [];
+    let prose = '';
+    for (const segment of parseMarkup(text)) {
+      if (segment.type === 'code' && segment.block) {
+        chunks.push({ code: false, text: prose }, { code: true, text: segment.code });
+        prose = '';
+      } else {
+        if (segment.type === 'text') prose += segment.text;
+        else if (segment.type === 'math') prose += segment.display ? `\n${texToText(segment.tex, true)}\n` : texToText(segment.tex, true);
+        else prose += segment.code;
+      }
+    }
+    chunks.push({ code: false, text: prose });
+
+    for (const chunk of chunks) {
+      if (!chunk.text.trim()) continue;
+      pdf.setFont(chunk.code ? 'courier' : 'helvetica', 'normal');
+      const lines = pdf.splitTextToSize(chunk.code ? chunk.text : chunk.text.trim(), width);
+      pdf.text(lines, x, y);
+      y += lines.length * lineHeight;
+    }
+    pdf.setFont('helvetica', 'normal');
+    return y;
+  }
+
+  /**
+   * Draw attached images sized by their size hint, starting a new page when
+   * one does not fit. Formats jsPDF cannot embed, and images whose bytes were
+   * not loaded, print their alt text. Returns the y position below them.
+   */
+  private static drawFigures(
+    pdf: jsPDF,
+    attachments: QuestionAttachment[],
+    x: number,
+    y: number,
+    width: number,
+    margin: number,
+    media: Record<string, Uint8Array> = {}
+  ): number {
+    const pageHeight = pdf.internal.pageSize.getHeight();
+    for (const attachment of attachments) {
+      const bytes = media[attachmentKey(attachment)];
+      const format = attachment.mime_type === 'image/png' ? 'PNG' : attachment.mime_type === 'image/jpeg' ? 'JPEG' : null;
+      if (bytes && format) {
+        let { width: w, height: h } = attachmentBox(attachment, width);
+        const maxHeight = pageHeight - margin * 2 - 20;
+        if (h > maxHeight) {
+          w *= maxHeight / h;
+          h = maxHeight;
+        }
+        if (y + h > pageHeight - margin) {
+          pdf.addPage();
+          y = margin;
+        }
+        pdf.addImage(bytes, format, x, y - 3, w, h, undefined, 'FAST');
+        y += h + 2;
+      } else {
+        pdf.setFont('helvetica', 'italic');
+        pdf.text(`[${isImageAttachment(attachment) ? 'Figure' : 'Attachment'}: ${attachment.alt || attachment.name}]`, x, y);
+        y += 6;
+      }
+      if (attachment.caption) {
+        pdf.setFont('helvetica', 'italic');
+        pdf.setFontSize(9);
+        pdf.text(attachment.caption, x, y);
+        pdf.setFontSize(11);
+        y += 6;
+      }
+      pdf.setFont('helvetica', 'normal');
+    }
+    return y;
+  }
+
   /**
    * Add page numbers
    */
@@ -370,6 +452,7 @@ export class ProfessionalTemplates {
     let latex = `\\documentclass[12pt]{article}
 \\usepackage[utf8]{inputenc}
 \\usepackage{amsmath}
+\\usepackage{graphicx}
 \\usepackage{enumitem}
 \\usepackage{geometry}
 \\geometry{a4paper, margin=1in}
@@ -388,13 +471,16 @@ ${metadata.instructions || 'Answer all questions to the best of your ability.'}
 `;
     
     questions.forEach(q => {
-      latex += `\\item ${q.question_text || q.text}\n`;
+      const attachments = parseQuestionAttachments(q.attachments);
+      latex += `\\item ${markupToLatex(q.question_text || q.text)}\n`;
+      latex += latexFigures(attachments, 'stem');
       
       if (q.choices || q.options) {
         latex += `\\begin{enumerate}[label=\\alph*.]\n`;
         const choices = q.choices ? Object.values(q.choices) : q.options;
-        choices.forEach((choice: any) => {
-          latex += `\\item ${choice}\n`;
+        choices.forEach((choice: any, idx: number) => {
+          latex += `\\item ${markupToLatex(String(choice))}\n`;
+          latex += latexFigures(attachments, String.fromCharCode(65 + idx));
         });
         latex += `\\end{enumerate}\n`;
       }
@@ -0,0 +1,129 @@
+/**
+ * Aiken question files: multiple choice only
+ *
+ *   Which layer routes packets?
+ *   A. Physical
+ *   B. Network
+ *   C. Transport
+ *   ANSWER: B
+ *
+ * Two-option questions answered True/False are read as true_false items.
+ */
+
+import { normalizeChoices, optionLetter, resolveOptionLetter } from '@/services/psychometrics/testItems';
+import { normalizeTrueFalse } from '@/services/scoring/answerSheet';
+import { InterchangeExport, InterchangeImport, InterchangeIssue, InterchangeQuestion, bankQuestionType } from './common';
+
+export const AIKEN_MIME_TYPE = 'text/plain';
+
+const OPTION_LINE = /^([A-Z])[.)]\s+(.*)$/;
+const ANSWER_LINE = /^ANSWER:\s*([A-Z])\s*$/i;
+
+export function parseAiken(text: string): InterchangeImport {
+  const questions: InterchangeQuestion[] = [];
+  const issues: InterchangeIssue[] = [];
+
+  let stem: string[] = [];
+  let options: string[] = [];
+  let number = 1;
+  const label = () => `Question ${number}`;
+  const reset = () => {
+    stem = [];
+    options = [];
+    number++;
+  };
+
+  for (const raw of text.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+    const line = raw.trim();
+    // Questions end at their ANSWER line; blank lines between them are optional
+    if (!line) continue;
+
+    const answer = line.match(ANSWER_LINE);
+    if (answer) {
+      const letter = answer[1].toUpperCase();
+      const index = letter.charCodeAt(0) - 65;
+      if (stem.length === 0 || options.length < 2) {
+        issues.push({ item: label(), message: 'ANSWER line without a question and at least two options', severity: 'error' });
+      } else if (index >= options.length) {
+        issues.push({ item: label(), message: `ANSWER ${letter} is not one of the options`, severity: 'error' });
+      } else {
+        const question_text = stem.join('\n');
+        const trueFalse = options.length === 2 && options.every(o => normalizeTrueFalse(o) !== null);
+        questions.push(trueFalse
+          ? { question_text, question_type: 'true_false', correct_answer: normalizeTrueFalse(options[index]) === 'T' ? 'True' : 'False' }
+          : {
+            question_text,
+            question_type: 'mcq',
+            choices: Object.fromEntries(options.map((o, i) => [optionLetter(i), o])),
+            correct_answer: letter,
+          });
+      }
+      reset();
+      continue;
+    }
+
+    const option = line.match(OPTION_LINE);
+    if (option && stem.length > 0 && option[1] === optionLetter(options.length)) {
+      options.push(option[2].trim());
+    } else if (options.length > 0) {
+      issues.push({ item: label(), message: 'Question is missing its ANSWER line', severity: 'error' });
+      reset();
+      stem.push(line);
+    } else {
+      stem.push(line);
+    }
+  }
+
+  if (stem.length > 0) {
+    issues.push({ item: label(), message: 'Question is missing its ANSWER line', severity: 'error' });
+  }
+  if (questions.length === 0 && issues.length === 0) {
+    issues.push({ item: 'file', message: 'No Aiken questions found', severity: 'error' });
+  }
+  return { questions, issues };
+}
+
+/**
+ * Write multiple-choice and true/false questions in Aiken format. Aiken has no
+ * categories, tags or other question types; those questions are listed in `issues`.
+ */
+export function toAiken(questions: InterchangeQuestion[]): InterchangeExport {
+  const issues: InterchangeIssue[] = [];
+  const parts: string[] = [];
+
+  questions.forEach((question, index) => {
+    const item = question.id ?? `Question ${index + 1}`;
+    const type = bankQuestionType(question.question_type);
+    let options: string[];
+    let correct: string | null;
+
+    if (type === 'mcq') {
+      const choices = normalizeChoices(question.choices);
+      const letters = Object.keys(choices).sort();
+      options = letters.map(l => choices[l]);
+      const key = resolveOptionLetter(question.correct_answer, choices);
+      correct = key ? optionLetter(letters.indexOf(key)) : null;
+    } else if (type === 'true_false') {
+      options = ['True', 'False'];
+      const value = normalizeTrueFalse(question.correct_answer, normalizeChoices(question.choices));
+      correct = value ? (value === 'T' ? 'A' : 'B') : null;
+    } else {
+      issues.push({ item, message: `Not exported: Aiken holds only multiple-choice questions (${question.question_type})`, severity: 'error' });
+      return;
+    }
+    if (options.length < 2 || !correct) {
+      issues.push({ item, message: 'Not exported: needs at least two options and a correct one', severity: 'error' });
+      return;
+    }
+
+    // Each option and the question itself must stay on one line
+    const oneLine = (text: string) => text.replace(/\s*\r?\n\s*/g, ' ').trim();
+    parts.push([
+      oneLine(question.question_text),
+      ...options.map((o, i) => `${optionLetter(i)}. ${oneLine(o)}`),
+      `ANSWER: ${correct}`,
+    ].join('\n'));
+  });
+
+  return { text: parts.join('\n\n') + '\n', exported: parts.length, issues };
+}
@@ -0,0 +1,140 @@
+/**
+ * Shared shapes for the question interchange formats (QTI, Moodle XML, GIFT, Aiken)
+ */
+
+import { MatchingChoices, isMatchingChoices, matchingFromPairs } from '@/types/questionTypes';
+import type { ImportedImage } from '@/types/attachments';
+import { escapeXml } from '@/lib/xml';
+
+export { escapeXml, isMatchingChoices, matchingFromPairs };
+export type { MatchingChoices };
+
+/** A question in question bank columns, as written by the exporters and read by the importers */
+export interface InterchangeQuestion {
+  id?: string;
+  question_text: string;
+  question_type: string;
+  /** Letter-keyed record or array of option texts; MatchingChoices for matching */
+  choices?: unknown;
+  correct_answer?: string | null;
+  topic?: string | null;
+  bloom_level?: string | null;
+  knowledge_dimension?: string | null;
+  difficulty?: string | null;
+  subject?: string | null;
+  category?: string | null;
+  specialization?: string | null;
+  subject_code?: string | null;
+  subject_description?: string | null;
+  tags?: string[] | null;
+  /** Exports: the question's attachments (QuestionAttachment[]), written where the format can carry images */
+  attachments?: unknown;
+  /** Imports: images read from the file, uploaded when the import is saved */
+  images?: ImportedImage[];
+}
+
+export interface InterchangeIssue {
+  /** Item identifier, file name or question id the issue is about */
+  item: string;
+  message: string;
+  /** Errors leave the item out; warnings import it as far as it could be read */
+  severity: 'error' | 'warning';
+}
+
+export interface InterchangeImport {
+  questions: InterchangeQuestion[];
+  issues: InterchangeIssue[];
+}
+
+export interface InterchangeExport {
+  text: string;
+  exported: number;
+  issues: InterchangeIssue[];
+}
+
+/** Premise → response pairs of a matching question, plus the responses no premise uses */
+export function matchingPairs(question: Pick<InterchangeQuestion, 'choices' | 'correct_answer'>): { pairs: [string, string][]; decoys: string[] } | null {
+  if (!isMatchingChoices(question.choices)) return null;
+  const { premises, responses } = question.choices;
+  const letters = (question.correct_answer ?? '').split(',').map(l => l.trim().toUpperCase());
+  const pairs: [string, string][] = [];
+  premises.forEach((premise, i) => {
+    const response = responses[(letters[i] ?? '').charCodeAt(0) - 65];
+    if (response !== undefined) pairs.push([premise, response]);
+  });
+  if (pairs.length !== premises.length) return null;
+  return { pairs, decoys: responses.filter(r => !pairs.some(([, used]) => used === r)) };
+}
+
+/** The bank's canonical question type for a type name written by hand or by another system */
+export function bankQuestionType(type: string | null | undefined): string {
+  const t = (type ?? '').trim().toLowerCase();
+  if (t.includes('match')) return 'matching';
+  if (t.includes('order') || t.includes('sequenc')) return 'ordering';
+  if (t.includes('multiple_response') || t.includes('multiple response') || t.includes('multi-select') || t.includes('multiselect') || t === 'mr') return 'multiple_response';
+  if (t.includes('numeric') || t.includes('numerical')) return 'numeric';
+  if (t.includes('true') || t.includes('false') || t === 'tf') return 'true_false';
+  if (t.includes('essay')) return 'essay';
+  if (t.includes('short') || t.includes('fill') || t === 'identification') return 'short_answer';
+  return 'mcq';
+}
+
+/** Plain text of an HTML fragment: block ends and <br> become line breaks */
+export function htmlToText(html: string): string {
+  const marked = html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|h[1-6]|tr)>/gi, '\n');
+  const doc = new DOMParser().parseFromString(`<body>${marked}</body>`, 'text/html');
+  return (doc.body.textContent ?? '')
+    .split('\n')
+    .map(line => line.replace(/[ \t\r\u00A0]+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+/** One paragraph per line of plain text */
+export function textToHtml(text: string): string {
+  return text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => `<p>${escapeXml(line)}</p>`)
+    .join('');
+}
+
+/**
+ * Category and topic from a Moodle-style category path such as
+ * "$course$/top/Major/Networking": the first level is the category and the
+ * last the topic; the context prefix and "top" are dropped.
+ */
+export function splitCategoryPath(path: string): { category?: string; topic?: string } {
+  const parts = path
+    // "//" escapes a slash inside a category name
+    .split(/(?<!\/)\/(?!\/)/)
+    .map(part => part.replace(/\/\//g, '/').trim())
+    .filter(part => part && !/^\$\w+\$$/.test(part) && part.toLowerCase() !== 'top');
+  if (parts.length === 0) return {};
+  if (parts.length === 1) return { topic: parts[0] };
+  return { category: parts[0], topic: parts[parts.length - 1] };
+}
+
+export function categoryPath(question: Pick<InterchangeQuestion, 'category' | 'topic'>): string {
+  const escape = (part: string) => part.replace(/\//g, '//');
+  return ['$course$', 'top', question.category, question.topic]
+    .filter((part): part is string => !!part && part.trim() !== '')
+    .map(part => (part.startsWith('$') ? part : escape(part.trim())))
+    .join('/');
+}
+
+/** Browser download of an export */
+export function downloadFile(data: Uint8Array | string, filename: string, mimeType: string): void {
+  const blob = new Blob([data], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
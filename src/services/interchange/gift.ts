@@ -0,0 +1,335 @@
+/**
+ * GIFT question files (Moodle's plain-text format)
+ *
+ *   $CATEGORY: $course$/top/Major/Networking
+ *
+ *   // [tag:osi]
+ *   ::Q1:: Which layer routes packets? { =Network ~Physical ~Transport }
+ *   ::Q2:: TCP is connectionless. {F}
+ *   ::Q3:: The { =DNS =domain name system } protocol resolves names.
+ *   ::Q4:: Explain subnetting. {}
+ *   ::Q5:: Match the ports. { =HTTP -> 80 =SSH -> 22 = -> 25 }
+ *
+ * Questions are separated by blank lines. Numeric and multiple-response
+ * questions are reported as unsupported.
+ */
+
+import { normalizeChoices, optionLetter, resolveOptionLetter } from '@/services/psychometrics/testItems';
+import { normalizeTrueFalse } from '@/services/scoring/answerSheet';
+import {
+  InterchangeExport,
+  InterchangeImport,
+  InterchangeIssue,
+  InterchangeQuestion,
+  bankQuestionType,
+  categoryPath,
+  htmlToText,
+  matchingFromPairs,
+  matchingPairs,
+  splitCategoryPath,
+} from './common';
+
+export const GIFT_MIME_TYPE = 'text/plain';
+
+const SPECIAL = /[~=#{}:\\]/g;
+
+function escapeGift(text: string): string {
+  return text.replace(SPECIAL, c => `\\${c}`).replace(/\r?\n/g, '\\n');
+}
+
+function unescapeGift(text: string): string {
+  return text.replace(/\\(.)/g, (_, c: string) => (c === 'n' ? '\n' : c));
+}
+
+/** Index of the first unescaped occurrence of `char` at or after `from` */
+function findUnescaped(text: string, char: string, from = 0): number {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') i++;
+    else if (text[i] === char) return i;
+  }
+  return -1;
+}
+
+/** Split on unescaped separators, keeping the escapes for unescapeGift */
+function splitUnescaped(text: string, separators: string): { marker: string; text: string }[] {
+  const parts: { marker: string; text: string }[] = [];
+  let current: { marker: string; text: string } | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (c === '\\') {
+      if (current) current.text += c + (text[i + 1] ?? '');
+      i++;
+    } else if (separators.includes(c)) {
+      current = { marker: c, text: '' };
+      parts.push(current);
+    } else if (current) {
+      current.text += c;
+    }
+  }
+  return parts;
+}
+
+/** Text in the question's own markup: [html] text is converted, other formats taken as written */
+function formatted(text: string, format: string): string {
+  const plain = unescapeGift(text).trim();
+  return format === 'html' ? htmlToText(plain) : plain.replace(/[ \t]*\n[ \t]*/g, '\n');
+}
+
+interface GiftAnswer {
+  correct: boolean;
+  weight: number | null;
+  text: string;
+}
+
+function parseAnswers(block: string, format: string): GiftAnswer[] {
+  return splitUnescaped(block, '=~').map(({ marker, text }) => {
+    let body = text;
+    const feedback = findUnescaped(body, '#');
+    if (feedback >= 0) body = body.slice(0, feedback);
+
+    let weight: number | null = null;
+    const weighted = body.match(/^\s*%(-?\d+(?:\.\d+)?)%/);
+    if (weighted) {
+      weight = Number(weighted[1]);
+      body = body.slice(weighted[0].length);
+    }
+    return { correct: marker === '=', weight, text: formatted(body, format) };
+  });
+}
+
+function readBlock(
+  block: string,
+  label: string,
+  issues: InterchangeIssue[]
+): InterchangeQuestion | null {
+  const fail = (message: string, severity: InterchangeIssue['severity'] = 'error') => {
+    issues.push({ item: label, message, severity });
+    return null;
+  };
+
+  let body = block.trim();
+  const title = body.match(/^::(.*?)::/s);
+  if (title) body = body.slice(title[0].length).trimStart();
+
+  let format = 'moodle';
+  const markup = body.match(/^\[(html|moodle|plain|markdown)\]/);
+  if (markup) {
+    format = markup[1];
+    body = body.slice(markup[0].length);
+  }
+
+  const open = findUnescaped(body, '{');
+  const close = open >= 0 ? findUnescaped(body, '}', open) : -1;
+  if (open < 0) return fail('Description items carry no question and were skipped', 'warning');
+  if (close < 0) return fail('Answer block is not closed');
+
+  const before = body.slice(0, open).trim();
+  const after = body.slice(close + 1).trim();
+  // Answers written inside the sentence leave a blank in the question
+  const stem = after ? `${before} _____ ${after}` : before;
+  const question_text = formatted(stem, format);
+  if (!question_text) return fail('Question has no text');
+
+  const content = body.slice(open + 1, close).trim();
+
+  if (content === '') return { question_text, question_type: 'essay' };
+  if (content.startsWith('#')) return fail('Numeric questions are not supported');
+
+  const truth = content.split('#')[0].trim().toUpperCase();
+  if (['T', 'TRUE', 'F', 'FALSE'].includes(truth)) {
+    return { question_text, question_type: 'true_false', correct_answer: truth.startsWith('T') ? 'True' : 'False' };
+  }
+
+  const answers = parseAnswers(content, format);
+  if (answers.length === 0) return fail('Answer block has no answers');
+
+  const arrows = answers.map(a => a.text.split(/\s*->\s*/));
+  if (answers.every(a => a.correct) && arrows.every(parts => parts.length === 2)) {
+    const pairs = arrows.filter(([premise]) => premise).map(([premise, response]) => [premise, response] as [string, string]);
+    const decoys = arrows.filter(([premise]) => !premise).map(([, response]) => response);
+    if (pairs.length < 2) return fail('Matching question needs at least two pairs');
+    return { question_text, question_type: 'matching', ...matchingFromPairs(pairs, decoys) };
+  }
+
+  if (answers.every(a => a.correct)) {
+    const accepted = answers.filter(a => a.weight == null || a.weight >= 100).map(a => a.text).filter(Boolean);
+    if (accepted.length < answers.length) {
+      issues.push({ item: label, message: 'Partial-credit answers were dropped', severity: 'warning' });
+    }
+    if (accepted.length === 0) return fail('Short-answer question has no fully correct answer');
+    return { question_text, question_type: 'short_answer', correct_answer: accepted.join('|') };
+  }
+
+  if (answers.some(a => !a.correct && a.weight != null && a.weight > 0)) {
+    return fail('Multiple-response questions are not supported');
+  }
+  const correct = answers.filter(a => a.correct);
+  if (correct.length !== 1) return fail(`Multiple-choice question has ${correct.length} correct answers; exactly one is supported`);
+
+  return {
+    question_text,
+    question_type: 'mcq',
+    choices: Object.fromEntries(answers.map((a, i) => [optionLetter(i), a.text])),
+    correct_answer: optionLetter(answers.indexOf(correct[0])),
+  };
+}
+
+/**
+ * Split the file into question blocks at blank lines outside answer blocks,
+ * keeping the comment lines and category that apply to each.
+ */
+function blocks(text: string): { body: string; comments: string[]; category: string | null }[] {
+  const result: { body: string; comments: string[]; category: string | null }[] = [];
+  let category: string | null = null;
+  let comments: string[] = [];
+  let lines: string[] = [];
+  let depth = 0;
+
+  const flush = () => {
+    if (lines.length) result.push({ body: lines.join('\n'), comments, category });
+    lines = [];
+    comments = [];
+  };
+
+  for (const raw of text.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+    const line = raw.trimEnd();
+    if (depth === 0 && lines.length === 0) {
+      if (line.trim() === '') continue;
+      if (line.trimStart().startsWith('//')) {
+        comments.push(line.trim().slice(2).trim());
+        continue;
+      }
+      const categoryLine = line.match(/^\s*\$CATEGORY:\s*(.*)$/);
+      if (categoryLine) {
+        category = categoryLine[1].trim();
+        comments = [];
+        continue;
+      }
+    }
+    if (depth === 0 && line.trim() === '') {
+      flush();
+      continue;
+    }
+    // Comment lines between questions' lines are dropped
+    if (depth === 0 && line.trimStart().startsWith('//')) continue;
+    lines.push(line);
+    for (let i = 0; i < line.length; i++) {
+      if (line[i] === '\\') i++;
+      else if (line[i] === '{') depth++;
+      else if (line[i] === '}') depth = Math.max(0, depth - 1);
+    }
+  }
+  flush();
+  return result;
+}
+
+/**
+ * Read a GIFT file. `$CATEGORY:` lines set the category and topic of the
+ * questions after them; `// [tag:name]` comments tag the next question.
+ */
+export function parseGift(text: string): InterchangeImport {
+  const questions: InterchangeQuestion[] = [];
+  const issues: InterchangeIssue[] = [];
+
+  blocks(text).forEach((block, index) => {
+    const title = block.body.trim().match(/^::(.*?)::/s);
+    const label = title ? unescapeGift(title[1]).trim() || `Question ${index + 1}` : `Question ${index + 1}`;
+    const question = readBlock(block.body, label, issues);
+    if (!question) return;
+
+    const placement = block.category ? splitCategoryPath(block.category) : {};
+    const tags = block.comments.flatMap(c => Array.from(c.matchAll(/\[tag:([^\]]+)\]/g), m => m[1].trim()));
+    questions.push({
+      ...question,
+      ...(placement.topic ? { topic: placement.topic } : {}),
+      ...(placement.category ? { category: placement.category } : {}),
+      ...(tags.length ? { tags } : {}),
+    });
+  });
+
+  if (questions.length === 0 && issues.length === 0) {
+    issues.push({ item: 'file', message: 'No GIFT questions found', severity: 'error' });
+  }
+  return { questions, issues };
+}
+
+function questionTitle(text: string): string {
+  const line = text.trim().split(/\r?\n/)[0] ?? '';
+  return line.length > 60 ? `${line.slice(0, 57)}...` : line;
+}
+
+/** The answer block of a question and where it goes, or the reason it cannot be written */
+function answerBlock(question: InterchangeQuestion): { block: string; inline: boolean } | string {
+  const type = bankQuestionType(question.question_type);
+
+  if (type === 'mcq') {
+    const choices = normalizeChoices(question.choices);
+    const letters = Object.keys(choices).sort();
+    if (letters.length < 2) return 'needs at least two options';
+    const correct = resolveOptionLetter(question.correct_answer, choices);
+    if (!correct) return 'has no correct option';
+    const lines = letters.map(l => `\t${l === correct ? '=' : '~'}${escapeGift(choices[l])}`);
+    return { block: `{\n${lines.join('\n')}\n}`, inline: false };
+  }
+  if (type === 'true_false') {
+    const value = normalizeTrueFalse(question.correct_answer, normalizeChoices(question.choices));
+    if (!value) return 'has no true/false answer';
+    return { block: value === 'T' ? '{TRUE}' : '{FALSE}', inline: false };
+  }
+  if (type === 'short_answer') {
+    const accepted = (question.correct_answer ?? '').split('|').map(a => a.trim()).filter(Boolean);
+    if (accepted.length === 0) return 'has no accepted answer';
+    return { block: `{${accepted.map(a => `=${escapeGift(a)}`).join(' ')}}`, inline: true };
+  }
+  if (type === 'essay') return { block: '{}', inline: false };
+  if (type !== 'matching') return `question type "${question.question_type}" is not exported to GIFT`;
+
+  const matching = matchingPairs(question);
+  if (!matching) return 'has no premise/response pairs';
+  const lines = [
+    ...matching.pairs.map(([premise, response]) => `\t=${escapeGift(premise)} -> ${escapeGift(response)}`),
+    ...matching.decoys.map(decoy => `\t= -> ${escapeGift(decoy)}`),
+  ];
+  return { block: `{\n${lines.join('\n')}\n}`, inline: false };
+}
+
+/**
+ * Write questions as a GIFT file, with a `$CATEGORY:` line before each run of
+ * questions from the same category and topic.
+ */
+export function toGift(questions: InterchangeQuestion[]): InterchangeExport {
+  const issues: InterchangeIssue[] = [];
+  const parts: string[] = [];
+  let currentCategory: string | null = null;
+  let exported = 0;
+
+  questions.forEach((question, index) => {
+    const answer = answerBlock(question);
+    if (typeof answer === 'string') {
+      issues.push({ item: question.id ?? `Question ${index + 1}`, message: `Not exported: ${answer}`, severity: 'error' });
+      return;
+    }
+
+    const path = categoryPath(question);
+    if (path !== currentCategory) {
+      currentCategory = path;
+      parts.push(`$CATEGORY: ${path}`);
+    }
+
+    const text = escapeGift(question.question_text.trim());
+    // A blank in a short-answer question is where the answer block goes
+    const blank = answer.inline ? text.match(/\s*_{3,}\s*/) : null;
+    const stem = blank
+      ? `${text.slice(0, blank.index)} ${answer.block} ${text.slice(blank.index! + blank[0].length)}`.trim()
+      : `${text} ${answer.block}`;
+
+    const tags = (question.tags ?? []).filter(Boolean);
+    parts.push([
+      ...(tags.length ? [`// ${tags.map(tag => `[tag:${tag.replace(/]/g, '')}]`).join(' ')}`] : []),
+      `::${escapeGift(questionTitle(question.question_text))}:: ${stem}`,
+    ].join('\n'));
+    exported++;
+  });
+
+  return { text: parts.join('\n\n') + '\n', exported, issues };
+}
@@ -0,0 +1,120 @@
+/**
+ * Question interchange formats: reading uploaded files and writing exports
+ */
+
+import { parseAiken, toAiken } from './aiken';
+import { InterchangeIssue, InterchangeQuestion } from './common';
+import { parseGift, toGift } from './gift';
+import { parseMoodleXml, toMoodleXml } from './moodleXml';
+import { QtiImportRow, QTI_PACKAGE_MIME_TYPE, exportQtiPackage, importQtiPackage } from './qti';
+
+export * from './common';
+
+export type InterchangeFormat = 'qti' | 'moodle_xml' | 'gift' | 'aiken';
+
+export const INTERCHANGE_FORMAT_LABELS: Record<InterchangeFormat, string> = {
+  qti: 'IMS QTI',
+  moodle_xml: 'Moodle XML',
+  gift: 'GIFT',
+  aiken: 'Aiken',
+};
+
+export interface InterchangeFile {
+  format: InterchangeFormat;
+  /** QTI items come as import-template rows, the other formats in bank columns */
+  rows: (QtiImportRow | InterchangeQuestion)[];
+  issues: InterchangeIssue[];
+}
+
+/** Files BulkImport hands to readInterchangeFile */
+export function isInterchangeFile(name: string): boolean {
+  return /\.(zip|xml|gift|txt)$/i.test(name);
+}
+
+/**
+ * Work out the format from the file name and, where names are shared
+ * (.xml, .txt), from the content.
+ */
+export function detectInterchangeFormat(name: string, text: string): InterchangeFormat | null {
+  const lower = name.toLowerCase();
+  if (lower.endsWith('.zip')) return 'qti';
+  if (lower.endsWith('.gift')) return 'gift';
+  if (lower.endsWith('.xml')) return /<quiz[\s>]/.test(text) ? 'moodle_xml' : 'qti';
+  if (lower.endsWith('.txt')) {
+    if (/^\s*ANSWER:\s*[A-Z]\s*$/im.test(text)) return 'aiken';
+    if (/\{[^}]*\}/.test(text)) return 'gift';
+  }
+  return null;
+}
+
+export function readInterchangeFile(name: string, data: Uint8Array): InterchangeFile | null {
+  const isZip = data[0] === 0x50 && data[1] === 0x4b;
+  const text = isZip ? '' : new TextDecoder().decode(data);
+  const format = isZip ? 'qti' : detectInterchangeFormat(name, text);
+
+  switch (format) {
+    case 'qti': {
+      const { rows, issues } = importQtiPackage(data);
+      return { format, rows, issues };
+    }
+    case 'moodle_xml': {
+      const { questions, issues } = parseMoodleXml(text);
+      return { format, rows: questions, issues };
+    }
+    case 'gift': {
+      const { questions, issues } = parseGift(text);
+      return { format, rows: questions, issues };
+    }
+    case 'aiken': {
+      const { questions, issues } = parseAiken(text);
+      return { format, rows: questions, issues };
+    }
+    default:
+      return null;
+  }
+}
+
+export type ExportFormat = 'qti21' | 'qti30' | 'moodle_xml' | 'gift' | 'aiken';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  qti21: { label: 'QTI 2.1', extension: 'zip', mimeType: QTI_PACKAGE_MIME_TYPE },
+  qti30: { label: 'QTI 3.0', extension: 'zip', mimeType: QTI_PACKAGE_MIME_TYPE },
+  moodle_xml: { label: 'Moodle XML', extension: 'xml', mimeType: 'application/xml' },
+  gift: { label: 'GIFT', extension: 'gift', mimeType: 'text/plain' },
+  aiken: { label: 'Aiken', extension: 'txt', mimeType: 'text/plain' },
+};
+
+/**
+ * Write questions in an export format. `media` holds the bytes of their
+ * attachments by attachmentKey (QuestionMedia.download) for the formats that
+ * carry images; GIFT and Aiken are text only.
+ */
+export function exportQuestions(
+  format: ExportFormat,
+  questions: InterchangeQuestion[],
+  media: Record<string, Uint8Array> = {}
+): { data: Uint8Array | string; exported: number; issues: InterchangeIssue[] } {
+  switch (format) {
+    case 'qti21':
+    case 'qti30': {
+      const { bytes, exported, issues } = exportQtiPackage(questions, {
+        version: format === 'qti21' ? '2.1' : '3.0',
+        title: 'Question Bank',
+        media,
+      });
+      return { data: bytes, exported, issues };
+    }
+    case 'moodle_xml': {
+      const { text, exported, issues } = toMoodleXml(questions, media);
+      return { data: text, exported, issues };
+    }
+    case 'gift': {
+      const { text, exported, issues } = toGift(questions);
+      return { data: text, exported, issues };
+    }
+    case 'aiken': {
+      const { text, exported, issues } = toAiken(questions);
+      return { data: text, exported, issues };
+    }
+  }
+}
@@ -0,0 +1,346 @@
+/**
+ * Moodle XML question files
+ *
+ * Reads and writes multichoice, truefalse, shortanswer, essay and matching
+ * questions. Moodle categories become the bank's category and topic (see
+ * splitCategoryPath) and Moodle tags become tags. Images are embedded as
+ * base64 <file> elements that the HTML refers to through @@PLUGINFILE@@.
+ */
+
+import { normalizeChoices, optionLetter, resolveOptionLetter } from '@/services/psychometrics/testItems';
+import { normalizeTrueFalse } from '@/services/scoring/answerSheet';
+import {
+  ImportedImage,
+  attachmentFileName,
+  attachmentKey,
+  attachmentsAt,
+  bytesToDataUrl,
+  isImageAttachment,
+  mimeTypeFromName,
+  parseQuestionAttachments,
+} from '@/types/attachments';
+import {
+  InterchangeExport,
+  InterchangeImport,
+  InterchangeIssue,
+  InterchangeQuestion,
+  bankQuestionType,
+  categoryPath,
+  escapeXml,
+  htmlToText,
+  matchingFromPairs,
+  matchingPairs,
+  splitCategoryPath,
+  textToHtml,
+} from './common';
+
+export const MOODLE_XML_MIME_TYPE = 'application/xml';
+
+const child = (el: Element, name: string): Element | undefined =>
+  Array.from(el.children).find(c => c.localName === name);
+
+const childText = (el: Element | undefined, name: string): string =>
+  (el && child(el, name)?.textContent?.trim()) ?? '';
+
+/** Text of an element holding a <text> child, converted from its format */
+function richText(el: Element | undefined): string {
+  if (!el) return '';
+  const raw = childText(el, 'text');
+  const format = el.getAttribute('format') ?? 'html';
+  return format === 'plain_text' || format === 'markdown' ? raw : htmlToText(raw);
+}
+
+const PLUGINFILE = '@@PLUGINFILE@@/';
+
+/** Images embedded in an element as <file> children, with the alt text of the <img> showing each */
+function embeddedImages(el: Element | undefined, placement: string): ImportedImage[] {
+  if (!el) return [];
+  const html = new DOMParser().parseFromString(`<body>${childText(el, 'text')}</body>`, 'text/html');
+  const alts = new Map(Array.from(html.getElementsByTagName('img')).map(img => {
+    const src = img.getAttribute('src') ?? '';
+    return [decodeURIComponent(src.startsWith(PLUGINFILE) ? src.slice(PLUGINFILE.length) : src), img.getAttribute('alt') ?? ''];
+  }));
+  return Array.from(el.children)
+    .filter(c => c.localName === 'file' && c.getAttribute('encoding') === 'base64')
+    .map(file => {
+      const name = file.getAttribute('name') ?? 'image';
+      const path = `${(file.getAttribute('path') ?? '/').replace(/^\/+/, '')}${name}`;
+      return {
+        name,
+        src: `data:${mimeTypeFromName(name)};base64,${(file.textContent ?? '').replace(/\s+/g, '')}`,
+        alt: alts.get(path) ?? alts.get(name) ?? '',
+        placement,
+      };
+    });
+}
+
+function fraction(answer: Element): number {
+  return Number(answer.getAttribute('fraction') ?? 0) || 0;
+}
+
+function readQuestion(el: Element, label: string, issues: InterchangeIssue[]): InterchangeQuestion | null {
+  const type = el.getAttribute('type') ?? '';
+  const fail = (message: string, severity: InterchangeIssue['severity'] = 'error') => {
+    issues.push({ item: label, message, severity });
+    return null;
+  };
+
+  const question_text = richText(child(el, 'questiontext'));
+  const answers = Array.from(el.children).filter(c => c.localName === 'answer');
+
+  switch (type) {
+    case 'multichoice': {
+      const correct = answers.filter(a => fraction(a) > 0);
+      if (childText(el, 'single') === 'false' && !(correct.length === 1 && fraction(correct[0]) >= 100)) {
+        return fail('Multiple-response multichoice questions are not supported');
+      }
+      if (answers.length < 2) return fail('Multichoice question needs at least two answers');
+      const best = answers.reduce((top, a) => (fraction(a) > fraction(top) ? a : top), answers[0]);
+      if (fraction(best) <= 0) return fail('Multichoice question has no correct answer');
+      return {
+        question_text,
+        question_type: 'mcq',
+        choices: Object.fromEntries(answers.map((a, i) => [optionLetter(i), richText(a)])),
+        correct_answer: optionLetter(answers.indexOf(best)),
+      };
+    }
+    case 'truefalse': {
+      const right = answers.find(a => fraction(a) >= 100);
+      const value = normalizeTrueFalse(right ? richText(right) : null);
+      if (!value) return fail('True/false question has no correct answer');
+      return { question_text, question_type: 'true_false', correct_answer: value === 'T' ? 'True' : 'False' };
+    }
+    case 'shortanswer': {
+      const accepted = answers.filter(a => fraction(a) >= 100).map(richText).filter(Boolean);
+      if (accepted.length === 0) return fail('Short-answer question has no fully correct answer');
+      if (answers.some(a => fraction(a) > 0 && fraction(a) < 100)) {
+        issues.push({ item: label, message: 'Partial-credit answers were dropped', severity: 'warning' });
+      }
+      return { question_text, question_type: 'short_answer', correct_answer: accepted.join('|') };
+    }
+    case 'essay':
+      return { question_text, question_type: 'essay', correct_answer: richText(child(el, 'graderinfo')) || null };
+    case 'matching': {
+      const pairs: [string, string][] = [];
+      const decoys: string[] = [];
+      for (const sub of Array.from(el.children).filter(c => c.localName === 'subquestion')) {
+        const premise = richText(sub);
+        const response = childText(child(sub, 'answer'), 'text');
+        if (!response) continue;
+        // Subquestions without a premise are extra wrong answers
+        if (premise) pairs.push([premise, response]);
+        else decoys.push(response);
+      }
+      if (pairs.length < 2) return fail('Matching question needs at least two pairs');
+      return { question_text, question_type: 'matching', ...matchingFromPairs(pairs, decoys) };
+    }
+    case 'description':
+      return fail('Description items carry no question and were skipped', 'warning');
+    default:
+      return fail(`Unsupported Moodle question type "${type}"`);
+  }
+}
+
+/**
+ * Read a Moodle XML export. Category questions set the category and topic of
+ * the questions after them.
+ */
+export function parseMoodleXml(text: string): InterchangeImport {
+  const questions: InterchangeQuestion[] = [];
+  const issues: InterchangeIssue[] = [];
+
+  const doc = new DOMParser().parseFromString(text.replace(/^\uFEFF/, ''), 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0 || doc.documentElement.localName !== 'quiz') {
+    issues.push({ item: 'file', message: 'Not a Moodle XML quiz file', severity: 'error' });
+    return { questions, issues };
+  }
+
+  let placement: { category?: string; topic?: string } = {};
+  Array.from(doc.documentElement.children)
+    .filter(el => el.localName === 'question')
+    .forEach((el, index) => {
+      if (el.getAttribute('type') === 'category') {
+        placement = splitCategoryPath(childText(child(el, 'category'), 'text'));
+        return;
+      }
+
+      const label = childText(child(el, 'name'), 'text') || `Question ${index + 1}`;
+      const question = readQuestion(el, label, issues);
+      if (!question) return;
+      if (!question.question_text) {
+        issues.push({ item: label, message: 'Question has no text', severity: 'error' });
+        return;
+      }
+
+      const tags = Array.from(el.getElementsByTagName('tag')).map(tag => childText(tag, 'text')).filter(Boolean);
+      const answers = question.question_type === 'mcq' ? Array.from(el.children).filter(c => c.localName === 'answer') : [];
+      const images = [
+        ...embeddedImages(child(el, 'questiontext'), 'stem'),
+        ...answers.flatMap((answer, i) => embeddedImages(answer, optionLetter(i))),
+      ];
+      questions.push({
+        ...question,
+        ...(placement.topic ? { topic: placement.topic } : {}),
+        ...(placement.category ? { category: placement.category } : {}),
+        ...(tags.length ? { tags } : {}),
+        ...(images.length ? { images } : {}),
+      });
+    });
+
+  return { questions, issues };
+}
+
+function cdata(text: string): string {
+  return `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+/** HTML showing a question's images and the <file> elements that carry them */
+interface MoodleImages {
+  html: string;
+  files: string;
+}
+
+const NO_IMAGES: MoodleImages = { html: '', files: '' };
+
+function textElement(name: string, text: string, format = 'html', images = NO_IMAGES): string {
+  const content = format === 'html' ? cdata(textToHtml(text) + images.html) : escapeXml(text);
+  return `<${name} format="${format}"><text>${content}</text>${images.files}</${name}>`;
+}
+
+function answerXml(text: string, percent: number, format = 'html', images = NO_IMAGES): string {
+  const content = format === 'html' ? cdata(textToHtml(text) + images.html) : escapeXml(text);
+  return `<answer fraction="${percent}" format="${format}"><text>${content}</text>${images.files}<feedback format="html"><text></text></feedback></answer>`;
+}
+
+function questionName(text: string): string {
+  const line = text.trim().split(/\r?\n/)[0] ?? '';
+  return line.length > 60 ? `${line.slice(0, 57)}...` : line;
+}
+
+/** The type-specific part of a question, or the reason it cannot be written */
+function questionBody(question: InterchangeQuestion, images: (placement: string) => MoodleImages): { type: string; xml: string[] } | string {
+  const type = bankQuestionType(question.question_type);
+
+  if (type === 'mcq') {
+    const choices = normalizeChoices(question.choices);
+    const letters = Object.keys(choices).sort();
+    if (letters.length < 2) return 'needs at least two options';
+    const correct = resolveOptionLetter(question.correct_answer, choices);
+    return {
+      type: 'multichoice',
+      xml: [
+        '<single>true</single>',
+        '<shuffleanswers>true</shuffleanswers>',
+        '<answernumbering>abc</answernumbering>',
+        ...letters.map(letter => answerXml(choices[letter], letter === correct ? 100 : 0, 'html', images(letter))),
+      ],
+    };
+  }
+  if (type === 'true_false') {
+    const value = normalizeTrueFalse(question.correct_answer, normalizeChoices(question.choices));
+    if (!value) return 'has no true/false answer';
+    return {
+      type: 'truefalse',
+      xml: [answerXml('true', value === 'T' ? 100 : 0, 'moodle_auto_format'), answerXml('false', value === 'F' ? 100 : 0, 'moodle_auto_format')],
+    };
+  }
+  if (type === 'short_answer') {
+    const accepted = (question.correct_answer ?? '').split('|').map(a => a.trim()).filter(Boolean);
+    if (accepted.length === 0) return 'has no accepted answer';
+    return {
+      type: 'shortanswer',
+      xml: ['<usecase>0</usecase>', ...accepted.map(a => answerXml(a, 100, 'moodle_auto_format'))],
+    };
+  }
+  if (type === 'essay') {
+    return {
+      type: 'essay',
+      xml: [
+        '<responseformat>editor</responseformat>',
+        '<responserequired>1</responserequired>',
+        '<responsefieldlines>15</responsefieldlines>',
+        '<attachments>0</attachments>',
+        textElement('graderinfo', question.correct_answer ?? ''),
+      ],
+    };
+  }
+  if (type !== 'matching') return `question type "${question.question_type}" is not exported to Moodle XML`;
+  const matching = matchingPairs(question);
+  if (!matching) return 'has no premise/response pairs';
+  return {
+    type: 'matching',
+    xml: [
+      '<shuffleanswers>true</shuffleanswers>',
+      ...matching.pairs.map(([premise, response]) =>
+        `<subquestion format="html"><text>${cdata(textToHtml(premise))}</text><answer><text>${escapeXml(response)}</text></answer></subquestion>`),
+      ...matching.decoys.map(decoy =>
+        `<subquestion format="html"><text></text><answer><text>${escapeXml(decoy)}</text></answer></subquestion>`),
+    ],
+  };
+}
+
+/**
+ * Write questions as a Moodle XML quiz file, with a category question before
+ * each run of questions from the same category and topic.
+ */
+export function toMoodleXml(questions: InterchangeQuestion[], media: Record<string, Uint8Array> = {}): InterchangeExport {
+  const issues: InterchangeIssue[] = [];
+  const parts: string[] = [];
+  let currentCategory: string | null = null;
+  let exported = 0;
+
+  questions.forEach((question, index) => {
+    const attachments = parseQuestionAttachments(question.attachments);
+    const images = (placement: string): MoodleImages => {
+      const html: string[] = [];
+      const files: string[] = [];
+      for (const attachment of attachmentsAt(attachments, placement).filter(isImageAttachment)) {
+        const bytes = media[attachmentKey(attachment)];
+        const alt = escapeXml(attachment.alt || attachment.name);
+        if (bytes) {
+          const name = attachmentFileName(attachment);
+          html.push(`<p><img src="${PLUGINFILE}${encodeURIComponent(name)}" alt="${alt}"></p>`);
+          files.push(`<file name="${escapeXml(name)}" path="/" encoding="base64">${bytesToDataUrl(bytes, attachment.mime_type).split(',')[1]}</file>`);
+        } else if (attachment.url) {
+          html.push(`<p><img src="${escapeXml(attachment.url)}" alt="${alt}"></p>`);
+        } else {
+          issues.push({ item: question.id ?? `Question ${index + 1}`, message: `Image "${attachment.name}" could not be loaded and was left out`, severity: 'warning' });
+        }
+      }
+      return { html: html.join(''), files: files.join('') };
+    };
+
+    const body = questionBody(question, images);
+    if (typeof body === 'string') {
+      issues.push({ item: question.id ?? `Question ${index + 1}`, message: `Not exported: ${body}`, severity: 'error' });
+      return;
+    }
+
+    const path = categoryPath(question);
+    if (path !== currentCategory) {
+      currentCategory = path;
+      parts.push(`  <question type="category">\n    <category><text>${escapeXml(path)}</text></category>\n  </question>`);
+    }
+
+    const tags = (question.tags ?? []).filter(Boolean);
+    parts.push([
+      `  <question type="${body.type}">`,
+      `    <name><text>${escapeXml(questionName(question.question_text))}</text></name>`,
+      `    ${textElement('questiontext', question.question_text, 'html', images('stem'))}`,
+      '    <generalfeedback format="html"><text></text></generalfeedback>',
+      '    <defaultgrade>1</defaultgrade>',
+      '    <penalty>0.3333333</penalty>',
+      '    <hidden>0</hidden>',
+      ...body.xml.map(line => `    ${line}`),
+      ...(tags.length ? [`    <tags>${tags.map(tag => `<tag><text>${escapeXml(tag)}</text></tag>`).join('')}</tags>`] : []),
+      '  </question>',
+    ].join('\n'));
+    exported++;
+  });
+
+  return {
+    text: `<?xml version="1.0" encoding="UTF-8"?>\n<quiz>\n${parts.join('\n')}\n</quiz>\n`,
+    exported,
+    issues,
+  };
+}
@@ -0,0 +1,673 @@
+/**
+ * IMS QTI 2.1 / 3.0 content packages for the question bank
+ *
+ * Export writes one assessmentItem per question and an imsmanifest.xml whose
+ * LOM metadata carries the question type, Bloom level, knowledge dimension,
+ * topic, difficulty and subject fields. Import reads such packages (or any
+ * QTI item files) back into rows shaped like the CSV import template, so
+ * BulkImport validates, classifies and verifies them the same way. Items whose
+ * interactions the bank cannot hold are reported rather than half-imported.
+ * Question images travel as files under media/, referenced by <img> elements.
+ */
+
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import { normalizeChoices, optionLetter, resolveOptionLetter } from '@/services/psychometrics/testItems';
+import { normalizeTrueFalse, objectiveType } from '@/services/scoring/answerSheet';
+import {
+  ImportedImage,
+  QuestionAttachment,
+  attachmentFileName,
+  attachmentKey,
+  attachmentsAt,
+  bytesToDataUrl,
+  isImageAttachment,
+  mimeTypeFromName,
+  parseQuestionAttachments,
+} from '@/types/attachments';
+import { InterchangeIssue, InterchangeQuestion, escapeXml } from './common';
+
+export type QtiVersion = '2.1' | '3.0';
+
+export const QTI_PACKAGE_MIME_TYPE = 'application/zip';
+
+/** The question bank columns a QTI item is written from */
+export type QtiQuestion = InterchangeQuestion;
+
+export interface QtiExportOptions {
+  version?: QtiVersion;
+  title?: string;
+  /** Bytes of the questions' attachments by attachmentKey, written into the package */
+  media?: Record<string, Uint8Array>;
+}
+
+export type QtiIssue = InterchangeIssue;
+
+export interface QtiExportResult {
+  bytes: Uint8Array;
+  exported: number;
+  issues: QtiIssue[];
+}
+
+/**
+ * One question in the CSV import template's columns (Question, Type, A–F,
+ * Correct, Topic, ...), plus `images` read from the package
+ */
+export type QtiImportRow = Record<string, string | ImportedImage[]>;
+
+export interface QtiImportResult {
+  rows: QtiImportRow[];
+  issues: QtiIssue[];
+  version: QtiVersion | null;
+}
+
+const ITEM_NAMESPACE: Record<QtiVersion, string> = {
+  '2.1': 'http://www.imsglobal.org/xsd/imsqti_v2p1',
+  '3.0': 'http://www.imsglobal.org/xsd/imsqtiasi_v3p0',
+};
+const ITEM_SCHEMA: Record<QtiVersion, string> = {
+  '2.1': 'http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1p2.xsd',
+  '3.0': 'https://purl.imsglobal.org/spec/qti/v3p0/schema/xsd/imsqti_asiv3p0_v1p0.xsd',
+};
+const MANIFEST_NAMESPACE: Record<QtiVersion, string> = {
+  '2.1': 'http://www.imsglobal.org/xsd/imscp_v1p1',
+  '3.0': 'http://www.imsglobal.org/xsd/qti/qtiv3p0/imscp_v1p1',
+};
+const LOM_NAMESPACE: Record<QtiVersion, string> = {
+  '2.1': 'http://ltsc.ieee.org/xsd/LOM',
+  '3.0': 'http://ltsc.ieee.org/xsd/qti/qtiv3p0/imsmd_loose_v1p0',
+};
+const QTI_METADATA_NAMESPACE: Record<QtiVersion, string> = {
+  '2.1': 'http://www.imsglobal.org/xsd/imsqti_metadata_v2p1',
+  '3.0': 'http://www.imsglobal.org/xsd/imsqti_metadata_v3p0',
+};
+const RESOURCE_TYPE: Record<QtiVersion, string> = {
+  '2.1': 'imsqti_item_xmlv2p1',
+  '3.0': 'imsqti_item_xmlv3p0',
+};
+const RP_TEMPLATE: Record<QtiVersion, (name: string) => string> = {
+  '2.1': name => `http://www.imsglobal.org/question/qti_v2p1/rptemplates/${name}`,
+  '3.0': name => `https://purl.imsglobal.org/spec/qti/v3p0/rptemplates/${name}.xml`,
+};
+
+/** LOM vocabulary source that carries the bank's own question_type */
+const QUESTION_TYPE_SOURCE = 'question_type';
+const BLOOM_SOURCE = "Bloom's Revised Taxonomy: Cognitive Process";
+const KNOWLEDGE_SOURCE = "Bloom's Revised Taxonomy: Knowledge Dimension";
+
+/** Subject fields written as LOM "discipline" taxon paths, by source name */
+const DISCIPLINE_FIELDS: [keyof QtiQuestion, string, string][] = [
+  ['topic', 'Topic', 'Topic'],
+  ['subject', 'Subject', 'Subject'],
+  ['category', 'Category', 'Category'],
+  ['specialization', 'Specialization', 'Specialization'],
+  ['subject_code', 'Subject Code', 'SubjectCode'],
+  ['subject_description', 'Subject Description', 'SubjectDescription'],
+];
+
+/** The bank's difficulty levels against the LOM difficulty vocabulary */
+const LOM_DIFFICULTY: Record<string, string> = { easy: 'easy', average: 'medium', difficult: 'difficult' };
+const BANK_DIFFICULTY: Record<string, string> = {
+  'very easy': 'easy',
+  easy: 'easy',
+  medium: 'average',
+  difficult: 'difficult',
+  'very difficult': 'difficult',
+};
+
+/** The import template has columns for six options */
+const MAX_CHOICES = 6;
+const SUPPORTED_INTERACTIONS = new Set(['choiceInteraction', 'textEntryInteraction', 'extendedTextInteraction']);
+
+type Attrs = Record<string, string | number | boolean | null | undefined>;
+
+function element(name: string, attrs: Attrs = {}, children: string | string[] = []): string {
+  const attributes = Object.entries(attrs)
+    .filter(([, value]) => value != null && value !== '')
+    .map(([key, value]) => ` ${key}="${escapeXml(String(value))}"`)
+    .join('');
+  const content = Array.isArray(children) ? children.join('') : children;
+  return content ? `<${name}${attributes}>${content}</${name}>` : `<${name}${attributes}/>`;
+}
+
+const kebab = (name: string) => name.replace(/[A-Z]/g, c => `-${c.toLowerCase()}`);
+
+/**
+ * Element writer for QTI names: QTI 3.0 prefixes them with "qti-" and spells
+ * names and attributes in kebab case (choiceInteraction → qti-choice-interaction).
+ */
+function qtiWriter(version: QtiVersion) {
+  if (version === '2.1') return element;
+  return (name: string, attrs: Attrs = {}, children: string | string[] = []) =>
+    element(
+      `qti-${kebab(name)}`,
+      Object.fromEntries(Object.entries(attrs).map(([key, value]) => [key.includes(':') ? key : kebab(key), value])),
+      children
+    );
+}
+
+/** Each line of the question becomes its own paragraph */
+function paragraphs(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => element('p', {}, escapeXml(line)));
+}
+
+function itemIdentifier(question: QtiQuestion, index: number): string {
+  // Identifiers are XML NCNames: they may not start with a digit
+  const base = (question.id ?? '').replace(/[^A-Za-z0-9_.-]/g, '');
+  return base ? `item-${base}` : `item-${index + 1}`;
+}
+
+function itemTitle(text: string): string {
+  const line = text.trim().split(/\r?\n/)[0] ?? '';
+  return line.length > 60 ? `${line.slice(0, 57)}...` : line;
+}
+
+interface ItemXml {
+  xml: string;
+  interaction: string;
+}
+
+/** <img> elements for the attachments at a placement, given each one's src */
+type Figures = (placement: string) => string[];
+
+function itemXml(question: QtiQuestion, identifier: string, version: QtiVersion, figures: Figures): ItemXml | string {
+  const q = qtiWriter(version);
+  const text = question.question_text ?? '';
+  const kind = question.question_type?.trim().toLowerCase() === 'essay' ? 'essay' : objectiveType(question.question_type);
+  const score = q('outcomeDeclaration', { identifier: 'SCORE', cardinality: 'single', baseType: 'float' });
+
+  let interaction: string;
+  let declaration: string;
+  let body: string[];
+  let processing = '';
+
+  if (kind === 'mcq' || kind === 'true_false') {
+    const options: [string, string][] = kind === 'mcq'
+      ? Object.entries(normalizeChoices(question.choices)).sort(([a], [b]) => a.localeCompare(b))
+      : [['true', 'True'], ['false', 'False']];
+    if (options.length < 2) return 'needs at least two options';
+
+    const correct = kind === 'mcq'
+      ? resolveOptionLetter(question.correct_answer, Object.fromEntries(options))
+      : { T: 'true', F: 'false' }[normalizeTrueFalse(question.correct_answer, normalizeChoices(question.choices)) ?? ''];
+
+    interaction = 'choiceInteraction';
+    declaration = q('responseDeclaration', { identifier: 'RESPONSE', cardinality: 'single', baseType: 'identifier' },
+      correct ? q('correctResponse', {}, q('value', {}, correct)) : '');
+    body = [
+      ...paragraphs(text),
+      ...figures('stem').map(img => element('p', {}, img)),
+      q('choiceInteraction', { responseIdentifier: 'RESPONSE', shuffle: false, maxChoices: 1 },
+        options.map(([id, option]) => q('simpleChoice', { identifier: id }, [escapeXml(option), ...(kind === 'mcq' ? figures(id) : [])]))),
+    ];
+    processing = q('responseProcessing', { template: RP_TEMPLATE[version]('match_correct') });
+  } else if (kind === 'fill_blank') {
+    // Accepted alternatives are separated by "|" in the bank, as in answer-sheet scoring
+    const accepted = (question.correct_answer ?? '').split('|').map(a => a.trim()).filter(Boolean);
+    interaction = 'textEntryInteraction';
+    declaration = q('responseDeclaration', { identifier: 'RESPONSE', cardinality: 'single', baseType: 'string' }, [
+      accepted.length ? q('correctResponse', {}, q('value', {}, escapeXml(accepted[0]))) : '',
+      accepted.length ? q('mapping', { defaultValue: 0 },
+        accepted.map(a => q('mapEntry', { mapKey: a, mappedValue: 1, caseSensitive: false }))) : '',
+    ]);
+    const entry = q('textEntryInteraction', { responseIdentifier: 'RESPONSE', expectedLength: 20 });
+    // A blank written into the question becomes the entry box; otherwise it goes below
+    const lines = paragraphs(text);
+    const blank = lines.findIndex(p => /_{3,}/.test(p));
+    const images = figures('stem').map(img => element('p', {}, img));
+    body = blank >= 0
+      ? [...lines.map((p, i) => (i === blank ? p.replace(/_{3,}/, entry) : p)), ...images]
+      : [...lines, ...images, element('p', {}, entry)];
+    processing = q('responseProcessing', { template: RP_TEMPLATE[version]('map_response') });
+  } else if (kind === 'essay') {
+    interaction = 'extendedTextInteraction';
+    // Essays are scored by hand; a model answer, if any, travels as the correct response
+    declaration = q('responseDeclaration', { identifier: 'RESPONSE', cardinality: 'single', baseType: 'string' },
+      question.correct_answer ? q('correctResponse', {}, q('value', {}, escapeXml(question.correct_answer))) : '');
+    body = [
+      ...paragraphs(text),
+      ...figures('stem').map(img => element('p', {}, img)),
+      q('extendedTextInteraction', { responseIdentifier: 'RESPONSE', expectedLines: 10 }),
+    ];
+  } else {
+    return `question type "${question.question_type}" has no QTI interaction`;
+  }
+
+  const root = version === '2.1' ? 'assessmentItem' : 'qti-assessment-item';
+  const xml = '<?xml version="1.0" encoding="UTF-8"?>\n' + element(root, {
+    xmlns: ITEM_NAMESPACE[version],
+    'xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
+    'xsi:schemaLocation': `${ITEM_NAMESPACE[version]} ${ITEM_SCHEMA[version]}`,
+    identifier,
+    title: itemTitle(text),
+    adaptive: false,
+    [version === '2.1' ? 'timeDependent' : 'time-dependent']: false,
+    'xml:lang': 'en',
+  }, [declaration, score, q('itemBody', {}, body), processing]);
+
+  return { xml, interaction };
+}
+
+function lomString(value: string): string {
+  return element('imsmd:string', { language: 'en' }, escapeXml(value));
+}
+
+function vocabulary(name: string, source: string, value: string): string {
+  return element(`imsmd:${name}`, {}, [
+    element('imsmd:source', {}, escapeXml(source)),
+    element('imsmd:value', {}, escapeXml(value)),
+  ]);
+}
+
+function taxonPath(source: string, entry: string): string {
+  return element('imsmd:taxonPath', {}, [
+    element('imsmd:source', {}, lomString(source)),
+    element('imsmd:taxon', {}, element('imsmd:entry', {}, lomString(entry))),
+  ]);
+}
+
+function classification(purpose: string, paths: string[]): string {
+  if (paths.length === 0) return '';
+  return element('imsmd:classification', {}, [vocabulary('purpose', 'LOMv1.0', purpose), ...paths]);
+}
+
+function resourceMetadata(question: QtiQuestion, identifier: string, interaction: string): string {
+  const present = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+  const difficulty = LOM_DIFFICULTY[(question.difficulty ?? '').trim().toLowerCase()];
+
+  const lom = element('imsmd:lom', {}, [
+    element('imsmd:general', {}, [
+      element('imsmd:identifier', {}, [
+        element('imsmd:catalog', {}, 'question-bank'),
+        element('imsmd:entry', {}, escapeXml(question.id ?? identifier)),
+      ]),
+      element('imsmd:title', {}, lomString(itemTitle(question.question_text ?? ''))),
+      ...(question.tags ?? []).filter(present).map(tag => element('imsmd:keyword', {}, lomString(tag))),
+    ]),
+    element('imsmd:educational', {}, [
+      vocabulary('learningResourceType', QUESTION_TYPE_SOURCE, question.question_type),
+      difficulty ? vocabulary('difficulty', 'LOMv1.0', difficulty) : '',
+    ]),
+    classification('discipline', DISCIPLINE_FIELDS
+      .filter(([field]) => present(question[field]))
+      .map(([field, source]) => taxonPath(source, (question[field] as string).trim()))),
+    classification('educational objective', [
+      present(question.bloom_level) ? taxonPath(BLOOM_SOURCE, question.bloom_level.trim().toLowerCase()) : '',
+      present(question.knowledge_dimension) ? taxonPath(KNOWLEDGE_SOURCE, question.knowledge_dimension.trim().toLowerCase()) : '',
+    ].filter(Boolean)),
+  ]);
+
+  const qti = element('imsqti:qtiMetadata', {}, [
+    element('imsqti:timeDependent', {}, 'false'),
+    element('imsqti:interactionType', {}, interaction),
+  ]);
+
+  return element('metadata', {}, [lom, qti]);
+}
+
+/**
+ * Where an item refers to an attachment: its file under media/ (written into
+ * `files` the first time), or its own address for an image hosted elsewhere.
+ */
+function mediaSource(attachment: QuestionAttachment, media: Record<string, Uint8Array> = {}, files: Record<string, Uint8Array>): string | null {
+  const bytes = media[attachmentKey(attachment)];
+  if (bytes) {
+    const path = `media/${attachmentFileName(attachment)}`;
+    files[path] = bytes;
+    return `../${path}`;
+  }
+  return attachment.url ?? null;
+}
+
+/**
+ * Package questions as a QTI content package (zip). Questions whose type has
+ * no QTI interaction are left out and listed in `issues`.
+ */
+export function exportQtiPackage(questions: QtiQuestion[], options: QtiExportOptions = {}): QtiExportResult {
+  const version = options.version ?? '2.1';
+  // fflate checks for Uint8Array by realm, so copy strToU8 output into this realm's type
+  const xml = (text: string) => new Uint8Array(strToU8(text));
+  const files: Record<string, Uint8Array> = {};
+  const resources: string[] = [];
+  const issues: QtiIssue[] = [];
+  const used = new Set<string>();
+
+  questions.forEach((question, index) => {
+    let identifier = itemIdentifier(question, index);
+    while (used.has(identifier)) identifier = `${identifier}-${index + 1}`;
+
+    const attachments = parseQuestionAttachments(question.attachments);
+    const mediaFiles = new Set<string>();
+    const figures: Figures = placement => attachmentsAt(attachments, placement).filter(isImageAttachment).flatMap(attachment => {
+      const src = mediaSource(attachment, options.media, files);
+      if (!src) {
+        issues.push({ item: question.id ?? identifier, message: `Image "${attachment.name}" could not be loaded and was left out`, severity: 'warning' });
+        return [];
+      }
+      if (!src.startsWith('http')) mediaFiles.add(src.replace(/^\.\.\//, ''));
+      return [element('img', { src, alt: attachment.alt || attachment.name })];
+    });
+
+    const item = itemXml(question, identifier, version, figures);
+    if (typeof item === 'string') {
+      issues.push({ item: question.id ?? identifier, message: `Not exported: ${item}`, severity: 'error' });
+      return;
+    }
+    used.add(identifier);
+    const href = `items/${identifier}.xml`;
+    files[href] = xml(item.xml);
+    resources.push(element('resource', { identifier, type: RESOURCE_TYPE[version], href }, [
+      resourceMetadata(question, identifier, item.interaction),
+      element('file', { href }),
+      ...[...mediaFiles].map(file => element('file', { href: file })),
+    ]));
+  });
+
+  const manifest = '<?xml version="1.0" encoding="UTF-8"?>\n' + element('manifest', {
+    xmlns: MANIFEST_NAMESPACE[version],
+    'xmlns:imsmd': LOM_NAMESPACE[version],
+    'xmlns:imsqti': QTI_METADATA_NAMESPACE[version],
+    identifier: `question-bank-${Date.now()}`,
+  }, [
+    element('metadata', {}, [
+      element('schema', {}, 'QTI Package'),
+      element('schemaversion', {}, version === '2.1' ? '2.1' : '3.0.0'),
+      options.title ? element('imsmd:lom', {}, element('imsmd:general', {}, element('imsmd:title', {}, lomString(options.title)))) : '',
+    ]),
+    element('organizations'),
+    element('resources', {}, resources),
+  ]);
+  files['imsmanifest.xml'] = xml(manifest);
+
+  return { bytes: zipSync(files), exported: resources.length, issues };
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+/** QTI 2.1 name of an element, whichever version it is written in */
+function qtiName(el: Element): string {
+  return el.localName.replace(/^qti-/, '').replace(/-([a-z])/g, (_, c: string) => c.toUpperCase());
+}
+
+function qtiAttr(el: Element, name: string): string | null {
+  return el.getAttribute(name) ?? el.getAttribute(kebab(name));
+}
+
+function descendants(root: Element, name: string): Element[] {
+  return Array.from(root.getElementsByTagName('*')).filter(el => qtiName(el) === name);
+}
+
+function childrenNamed(root: Element, name: string): Element[] {
+  return Array.from(root.children).filter(el => qtiName(el) === name);
+}
+
+function parseXml(text: string): Document | null {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  return doc.getElementsByTagName('parsererror').length > 0 ? null : doc;
+}
+
+const clean = (text: string | null | undefined) => (text ?? '').replace(/[ \t\r\n]+/g, ' ').trim();
+
+/** The question text: every block of the item body outside the interaction, one per line */
+function bodyText(body: Element, interaction: Element): string {
+  const copy = body.cloneNode(true) as Element;
+  for (const el of descendants(copy, qtiName(interaction))) {
+    const prompt = childrenNamed(el, 'prompt')[0];
+    const parent = el.parentElement;
+    if (prompt) {
+      el.replaceWith(...Array.from(prompt.childNodes));
+    } else if (parent && parent !== copy && clean(parent.textContent) !== '') {
+      // An entry box inside a sentence is the blank of a fill-in question
+      el.replaceWith(copy.ownerDocument.createTextNode(' _____ '));
+    } else {
+      el.remove();
+    }
+  }
+  for (const el of [...descendants(copy, 'rubricBlock'), ...descendants(copy, 'feedbackBlock'), ...descendants(copy, 'modalFeedback')]) {
+    el.remove();
+  }
+
+  const lines: string[] = [];
+  const walk = (el: Element) => {
+    const blocks = Array.from(el.children).filter(child => /^(p|div|ul|ol|li|table|tr|blockquote|pre|h[1-6])$/i.test(child.localName));
+    if (blocks.length === 0) {
+      const line = clean(el.textContent);
+      if (line) lines.push(line);
+      return;
+    }
+    Array.from(el.childNodes).forEach(node => {
+      if (node.nodeType === 1 && blocks.includes(node as Element)) {
+        walk(node as Element);
+      } else {
+        const line = clean(node.textContent);
+        if (line) lines.push(line);
+      }
+    });
+  };
+  walk(copy);
+  return lines.join('\n').replace(/\s*_{3,}\s*/g, ' _____ ').replace(/ +\n/g, '\n').trim();
+}
+
+interface ResourceMetadata {
+  questionType?: string;
+  fields: Record<string, string>;
+}
+
+/** Read the LOM classification written by exportQtiPackage (or any LOM that uses the same sources) */
+function readResourceMetadata(resource: Element | null): ResourceMetadata {
+  const fields: Record<string, string> = {};
+  if (!resource) return { fields };
+
+  const lom = (root: Element, name: string) => Array.from(root.getElementsByTagNameNS('*', name));
+  const text = (root: Element, name: string) => clean(lom(root, name)[0]?.textContent);
+  let questionType: string | undefined;
+
+  for (const type of lom(resource, 'learningResourceType')) {
+    if (text(type, 'source') === QUESTION_TYPE_SOURCE) questionType = text(type, 'value');
+  }
+  const difficulty = lom(resource, 'difficulty')[0];
+  if (difficulty) {
+    const level = BANK_DIFFICULTY[text(difficulty, 'value').toLowerCase()];
+    if (level) fields.Difficulty = level;
+  }
+  const keywords = lom(resource, 'keyword').map(k => clean(k.textContent)).filter(Boolean);
+  if (keywords.length) fields.Tags = keywords.join(', ');
+
+  for (const path of lom(resource, 'taxonPath')) {
+    const source = text(path, 'source').toLowerCase();
+    const entries = lom(path, 'entry').map(e => clean(e.textContent)).filter(Boolean);
+    const entry = entries[entries.length - 1];
+    if (!entry) continue;
+    if (source === BLOOM_SOURCE.toLowerCase()) fields.Bloom = entry;
+    else if (source === KNOWLEDGE_SOURCE.toLowerCase()) fields.KnowledgeDimension = entry;
+    else {
+      const field = DISCIPLINE_FIELDS.find(([, name]) => name.toLowerCase() === source);
+      if (field) fields[field[2]] = entry;
+    }
+  }
+  return { questionType, fields };
+}
+
+/** Reads the file an <img src> names, relative to the item; null when it is not in the package */
+type MediaResolver = (src: string) => ImportedImage | null;
+
+function readItem(doc: Document, ref: string, metadata: ResourceMetadata, issues: QtiIssue[], resolve: MediaResolver): QtiImportRow | null {
+  const root = doc.documentElement;
+  if (qtiName(root) !== 'assessmentItem') return null;
+
+  const label = qtiAttr(root, 'identifier') || ref;
+  const fail = (message: string) => {
+    issues.push({ item: label, message, severity: 'error' });
+    return null;
+  };
+  const warn = (message: string) => issues.push({ item: label, message, severity: 'warning' });
+
+  const body = descendants(root, 'itemBody')[0];
+  if (!body) return fail('Item has no itemBody');
+
+  const interactions = Array.from(body.getElementsByTagName('*')).filter(el => qtiName(el).endsWith('Interaction'));
+  if (interactions.length === 0) return fail('Item has no interaction');
+  const unsupported = interactions.map(qtiName).filter(name => !SUPPORTED_INTERACTIONS.has(name));
+  if (unsupported.length > 0) return fail(`Unsupported interaction: ${[...new Set(unsupported)].join(', ')}`);
+  if (interactions.length > 1) return fail('Items with more than one interaction are not supported');
+
+  const interaction = interactions[0];
+  const name = qtiName(interaction);
+  const responseId = qtiAttr(interaction, 'responseIdentifier');
+  const declaration = descendants(root, 'responseDeclaration').find(d => qtiAttr(d, 'identifier') === responseId);
+  const correct = declaration
+    ? descendants(declaration, 'correctResponse').flatMap(c => descendants(c, 'value')).map(v => clean(v.textContent)).filter(Boolean)
+    : [];
+
+  const question = bodyText(body, interaction);
+  if (!question) return fail('Item has no question text');
+
+  const row: QtiImportRow = { Question: question, ...metadata.fields };
+  // Images inside an option belong to it; the rest go with the stem
+  const placements = new Map<Element, string>();
+
+  if (name === 'choiceInteraction') {
+    const maxChoices = Number(qtiAttr(interaction, 'maxChoices') ?? 1);
+    if (maxChoices !== 1 || correct.length > 1) return fail('choiceInteraction with more than one answer is not supported');
+
+    const options = descendants(interaction, 'simpleChoice').map(c => ({
+      id: qtiAttr(c, 'identifier') ?? '',
+      text: clean(c.textContent),
+      el: c,
+    }));
+    if (options.length < 2) return fail('choiceInteraction needs at least two options');
+    if (options.length > MAX_CHOICES) return fail(`choiceInteraction has ${options.length} options; at most ${MAX_CHOICES} can be imported`);
+
+    const key = options.find(o => o.id === correct[0]);
+    const trueFalse = options.length === 2 && options.every(o => normalizeTrueFalse(o.text) !== null);
+    if (metadata.questionType ? objectiveType(metadata.questionType) === 'true_false' : trueFalse) {
+      row.Type = 'true_false';
+      row.Correct = key ? (normalizeTrueFalse(key.text) === 'F' ? 'False' : 'True') : '';
+    } else {
+      row.Type = 'mcq';
+      options.forEach((option, i) => { row[optionLetter(i)] = option.text; });
+      row.Correct = key ? optionLetter(options.indexOf(key)) : '';
+      options.forEach((option, i) => { placements.set(option.el, optionLetter(i)); });
+    }
+    if (!key) warn('No correct response is declared');
+  } else if (name === 'textEntryInteraction') {
+    const mapped = declaration
+      ? descendants(declaration, 'mapEntry').map(e => clean(qtiAttr(e, 'mapKey'))).filter(Boolean)
+      : [];
+    const accepted = [...new Set([...correct, ...mapped])];
+    row.Type = 'short_answer';
+    row.Correct = accepted.join('|');
+    if (accepted.length === 0) warn('No correct response is declared');
+  } else {
+    row.Type = 'essay';
+    row.Correct = correct.join('\n');
+  }
+
+  const images: ImportedImage[] = [];
+  for (const img of Array.from(body.getElementsByTagName('*')).filter(el => el.localName === 'img')) {
+    const src = img.getAttribute('src') ?? '';
+    const image = resolve(src);
+    if (!image) {
+      warn(`Image ${src} is missing from the package`);
+      continue;
+    }
+    const option = [...placements.keys()].find(el => el.contains(img));
+    images.push({ ...image, alt: img.getAttribute('alt') ?? '', placement: option ? placements.get(option) : 'stem' });
+  }
+  if (images.length) row.images = images;
+
+  return row;
+}
+
+function detectVersion(doc: Document): QtiVersion | null {
+  const ns = doc.documentElement.namespaceURI ?? '';
+  if (ns.includes('v3p0') || doc.documentElement.localName.startsWith('qti-')) return '3.0';
+  if (ns.includes('v2p')) return '2.1';
+  return null;
+}
+
+/**
+ * Read a QTI content package (zip) or a single item file into import rows.
+ * Items that cannot be represented in the bank are skipped and listed in `issues`.
+ */
+export function importQtiPackage(data: Uint8Array): QtiImportResult {
+  const rows: QtiImportRow[] = [];
+  const issues: QtiIssue[] = [];
+  let version: QtiVersion | null = null;
+
+  let files: Record<string, Uint8Array> = {};
+  /** Reads media relative to the item file at `path` */
+  const resolver = (path: string): MediaResolver => src => {
+    if (!src || /^[a-z]+:/i.test(src)) return null;
+    const parts = path.split('/').slice(0, -1);
+    for (const part of decodeURI(src).split('/')) {
+      if (part === '..') parts.pop();
+      else if (part && part !== '.') parts.push(part);
+    }
+    const name = parts.join('/');
+    const bytes = files[name];
+    return bytes ? { name: parts[parts.length - 1], src: bytesToDataUrl(bytes, mimeTypeFromName(name)) } : null;
+  };
+
+  const read = (text: string, ref: string, metadata: ResourceMetadata = { fields: {} }, path = ref) => {
+    const doc = parseXml(text.replace(/^\uFEFF/, ''));
+    if (!doc) {
+      issues.push({ item: ref, message: 'Not well-formed XML', severity: 'error' });
+      return;
+    }
+    if (qtiName(doc.documentElement) !== 'assessmentItem') {
+      issues.push({ item: ref, message: `Not an assessment item (${doc.documentElement.localName})`, severity: 'error' });
+      return;
+    }
+    version = version ?? detectVersion(doc);
+    const row = readItem(doc, ref, metadata, issues, resolver(path));
+    if (row) rows.push(row);
+  };
+
+  const isZip = data[0] === 0x50 && data[1] === 0x4b;
+  if (!isZip) {
+    read(strFromU8(data), 'item');
+    return { rows, issues, version };
+  }
+
+  files = unzipSync(data);
+  const manifestName = Object.keys(files).find(name => name.toLowerCase().split('/').pop() === 'imsmanifest.xml');
+  const manifest = manifestName ? parseXml(strFromU8(files[manifestName])) : null;
+
+  if (!manifest) {
+    // A bare zip of item files
+    Object.keys(files)
+      .filter(name => name.toLowerCase().endsWith('.xml'))
+      .sort()
+      .forEach(name => read(strFromU8(files[name]), name));
+    if (rows.length === 0 && issues.length === 0) {
+      issues.push({ item: 'package', message: 'No imsmanifest.xml or QTI items found', severity: 'error' });
+    }
+    return { rows, issues, version };
+  }
+
+  const base = manifestName!.includes('/') ? manifestName!.slice(0, manifestName!.lastIndexOf('/') + 1) : '';
+  for (const resource of Array.from(manifest.getElementsByTagNameNS('*', 'resource'))) {
+    const type = resource.getAttribute('type') ?? '';
+    const id = resource.getAttribute('identifier') ?? '';
+    if (!type.startsWith('imsqti_item')) continue;
+
+    const href = resource.getAttribute('href') ?? resource.getElementsByTagNameNS('*', 'file')[0]?.getAttribute('href');
+    const path = href ? base + decodeURI(href) : '';
+    if (!path || !files[path]) {
+      issues.push({ item: id, message: `Item file ${href ?? ''} is missing from the package`, severity: 'error' });
+      continue;
+    }
+    read(strFromU8(files[path]), id, readResourceMetadata(resource), path);
+  }
+
+  if (rows.length === 0 && issues.length === 0) {
+    issues.push({ item: 'package', message: 'The manifest lists no QTI items', severity: 'error' });
+  }
+  return { rows, issues, version };
+}
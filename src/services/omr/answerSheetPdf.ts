@@ -0,0 +1,143 @@
+import jsPDF from 'jspdf';
+import { generateWatermarkCode, logSecurityEvent, verifyWatermark } from '@/services/testGeneration/security';
+import { VersionAnswerKey, isBubbled } from '@/services/scoring/answerSheet';
+import {
+  BUBBLE_RADIUS,
+  CODE_CELL,
+  MARK_SIZE,
+  PAGE_WIDTH,
+  STUDENT_ID_DIGITS,
+  buildSheetLayout,
+  encodeVersionCode,
+  sheetItems,
+} from './sheetLayout';
+
+/** Light enough that printed letters inside bubbles read as empty paper when scanned */
+const BUBBLE_LETTER_GRAY = 190;
+
+function drawSheetPage(
+  pdf: jsPDF,
+  title: string,
+  key: VersionAnswerKey,
+  watermarkCode: string,
+  layout: ReturnType<typeof buildSheetLayout>[number],
+  pageCount: number
+) {
+  const versionLabel = key.versionLabel ?? '-';
+  const { testIdHash } = verifyWatermark(watermarkCode);
+
+  pdf.setFillColor(0, 0, 0);
+  layout.marks.forEach(mark => pdf.rect(mark.x, mark.y, MARK_SIZE, MARK_SIZE, 'F'));
+
+  pdf.setTextColor(0, 0, 0);
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(13);
+  pdf.text(title, PAGE_WIDTH / 2, 16, { align: 'center', maxWidth: 150 });
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(9);
+  pdf.text(`Version ${versionLabel} - Answer Sheet - Page ${layout.page} of ${pageCount}`, PAGE_WIDTH / 2, 22, { align: 'center' });
+
+  if (layout.page === 1) {
+    pdf.text('Name: ________________________________', 20, 32);
+    pdf.text('Section: ______________', 130, 32);
+  }
+
+  // Version code strip: filled cell = 1, read back by the scanner
+  const bits = encodeVersionCode(testIdHash ?? key.testId.substring(0, 8), layout.page);
+  pdf.setLineWidth(0.2);
+  bits.forEach((bit, i) => {
+    const cell = layout.codeCells[i];
+    const x = cell.x - CODE_CELL / 2;
+    const y = cell.y - CODE_CELL / 2;
+    if (bit) pdf.rect(x, y, CODE_CELL, CODE_CELL, 'F');
+  });
+  pdf.setFontSize(6);
+  pdf.setTextColor(100, 100, 100);
+  pdf.text(watermarkCode, layout.codeCells[bits.length - 1].x + 4, layout.codeCells[0].y + 1);
+
+  if (layout.studentId.length > 0) {
+    pdf.setTextColor(0, 0, 0);
+    pdf.setFontSize(8);
+    pdf.text('Student ID: write one digit per column, then shade it', 20, 52);
+    const first = layout.studentId[0];
+    for (let column = 0; column < STUDENT_ID_DIGITS; column++) {
+      pdf.rect(first.x + column * 5 - 2.2, 53.5, 4.4, 4.4);
+    }
+    drawBubbles(pdf, layout.studentId.map(b => ({ x: b.x, y: b.y, label: String(b.digit) })));
+
+    pdf.setFontSize(8);
+    pdf.text('Shade one bubble per item completely with a dark pencil or pen.', 80, 62);
+    pdf.text('Erase changes cleanly. Do not write near the black corner squares.', 80, 67);
+    const manual = key.items.filter(item => !isBubbled(item.questionType));
+    if (manual.length > 0) {
+      pdf.text(`Write answers to items ${manual.map(i => i.itemNumber).join(', ')} on the test paper.`, 80, 72, { maxWidth: 110 });
+    }
+  }
+
+  // Item numbers to the left of each row of bubbles
+  pdf.setTextColor(0, 0, 0);
+  pdf.setFontSize(8);
+  const firstBubble = new Map<number, { x: number; y: number }>();
+  layout.bubbles.forEach(b => {
+    if (!firstBubble.has(b.itemNumber)) firstBubble.set(b.itemNumber, b);
+  });
+  firstBubble.forEach((b, itemNumber) => {
+    pdf.text(`${itemNumber}.`, b.x - 4, b.y + 1, { align: 'right' });
+  });
+  drawBubbles(pdf, layout.bubbles.map(b => ({ x: b.x, y: b.y, label: b.option })));
+}
+
+function drawBubbles(pdf: jsPDF, bubbles: { x: number; y: number; label: string }[]) {
+  pdf.setDrawColor(0, 0, 0);
+  pdf.setLineWidth(0.25);
+  pdf.setFontSize(5.5);
+  pdf.setTextColor(BUBBLE_LETTER_GRAY, BUBBLE_LETTER_GRAY, BUBBLE_LETTER_GRAY);
+  bubbles.forEach(b => {
+    pdf.circle(b.x, b.y, BUBBLE_RADIUS, 'S');
+    pdf.text(b.label, b.x, b.y + 0.7, { align: 'center' });
+  });
+  pdf.setTextColor(0, 0, 0);
+}
+
+/**
+ * Build bubble answer sheets for each version. `copies` sheets are printed per
+ * version; every page carries registration marks and the version code so scans
+ * can be matched to the right key.
+ */
+export function createAnswerSheetPdf(title: string, keys: VersionAnswerKey[], copies = 1): { pdf: jsPDF; codes: Record<string, string> } {
+  const pdf = new jsPDF('p', 'mm', 'a4');
+  const codes: Record<string, string> = {};
+  let first = true;
+
+  for (const key of keys) {
+    const watermarkCode = generateWatermarkCode(key.testId, key.versionLabel ?? 'X');
+    codes[key.testId] = watermarkCode;
+    const layout = buildSheetLayout(sheetItems(key));
+
+    for (let copy = 0; copy < copies; copy++) {
+      for (const page of layout) {
+        if (!first) pdf.addPage();
+        first = false;
+        drawSheetPage(pdf, title, key, watermarkCode, page, layout.length);
+      }
+    }
+  }
+
+  return { pdf, codes };
+}
+
+export async function downloadAnswerSheets(title: string, keys: VersionAnswerKey[], copies = 1): Promise<void> {
+  const { pdf, codes } = createAnswerSheetPdf(title, keys, copies);
+
+  for (const key of keys) {
+    await logSecurityEvent('export', key.testId, {
+      version_label: key.versionLabel,
+      watermark_code: codes[key.testId],
+      document: 'answer_sheet',
+      copies,
+      exported_at: new Date().toISOString(),
+    });
+  }
+
+  pdf.save(`${title.toLowerCase().replace(/\s+/g, '-')}-answer-sheets.pdf`);
+}
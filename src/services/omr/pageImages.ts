@@ -0,0 +1,74 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import pdfjsWorker from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import type { GrayImage } from './scanner';
+
+/** Scans are normalised to this width (about 150 dpi on A4) before reading */
+const TARGET_WIDTH = 1240;
+
+export interface ScanPage {
+  fileName: string;
+  /** 1-based page within the file */
+  pageIndex: number;
+  image: GrayImage;
+}
+
+function toGray(canvas: HTMLCanvasElement): GrayImage {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const gray = new Uint8ClampedArray(canvas.width * canvas.height);
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+    gray[p] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  }
+  return { width: canvas.width, height: canvas.height, data: gray };
+}
+
+async function imageFilePage(file: File): Promise<GrayImage> {
+  const bitmap = await createImageBitmap(file);
+  const scale = TARGET_WIDTH / bitmap.width;
+  const canvas = document.createElement('canvas');
+  canvas.width = TARGET_WIDTH;
+  canvas.height = Math.round(bitmap.height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return toGray(canvas);
+}
+
+async function* pdfFilePages(file: File): AsyncGenerator<GrayImage> {
+  pdfjsLib.GlobalWorkerOptions.workerSrc = pdfjsWorker;
+  const pdf = await pdfjsLib.getDocument(await file.arrayBuffer()).promise;
+
+  for (let i = 1; i <= pdf.numPages; i++) {
+    const page = await pdf.getPage(i);
+    const base = page.getViewport({ scale: 1 });
+    const viewport = page.getViewport({ scale: TARGET_WIDTH / base.width });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(viewport.width);
+    canvas.height = Math.round(viewport.height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not available');
+    await page.render({ canvas, canvasContext: ctx, viewport }).promise;
+    yield toGray(canvas);
+  }
+}
+
+/**
+ * Decode scanned PNG/JPEG images and PDF pages into grayscale buffers, one page at
+ * a time so large batches do not hold every rendered page in memory.
+ */
+export async function* loadScanPages(files: File[]): AsyncGenerator<ScanPage> {
+  for (const file of files) {
+    if (file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf')) {
+      let pageIndex = 0;
+      for await (const image of pdfFilePages(file)) {
+        yield { fileName: file.name, pageIndex: ++pageIndex, image };
+      }
+    } else {
+      yield { fileName: file.name, pageIndex: 1, image: await imageFilePage(file) };
+    }
+  }
+}
@@ -0,0 +1,370 @@
+/**
+ * Bubble detection on scanned answer sheets. Everything here works on plain
+ * grayscale pixel buffers so it runs in the browser without a server round trip
+ * and can be tested without a canvas.
+ *
+ * A page is located by its four registration squares; a homography maps sheet
+ * millimetres to pixels, then each bubble is sampled for the share of dark pixels
+ * inside its inner circle.
+ */
+
+import {
+  BUBBLE_RADIUS,
+  CODE_CELL,
+  MARK_SIZE,
+  PAGE_WIDTH,
+  Point,
+  SheetPageLayout,
+  STUDENT_ID_DIGITS,
+  buildSheetLayout,
+  decodeVersionCode,
+  markCenter,
+  sheetItems,
+} from './sheetLayout';
+import type { VersionAnswerKey } from '@/services/scoring/answerSheet';
+
+export interface GrayImage {
+  width: number;
+  height: number;
+  /** One luminance byte per pixel, row-major, 0 = black */
+  data: Uint8ClampedArray | Uint8Array;
+}
+
+/** A fill at or above this share of dark pixels is a mark */
+export const FILLED_THRESHOLD = 0.45;
+/** A fill at or below this share is an empty bubble */
+export const EMPTY_THRESHOLD = 0.2;
+/** Readings with a lower confidence go to the manual review queue */
+export const REVIEW_CONFIDENCE = 0.5;
+/** A darker mark wins over a faint one (e.g. an erasure) when it leads by this much */
+const ERASURE_MARGIN = 0.35;
+
+export type BubbleStatus = 'ok' | 'blank' | 'multiple' | 'ambiguous';
+
+export interface BubbleReading {
+  /** Chosen option, or null for blank / unresolved readings */
+  selected: string | null;
+  /** Darkest option, offered to the reviewer when the reading is unresolved */
+  suggestion: string | null;
+  status: BubbleStatus;
+  /** 0..1, the lowest per-bubble confidence in the group */
+  confidence: number;
+  fills: Record<string, number>;
+  needsReview: boolean;
+}
+
+/** How far a fill sits from the undecided middle band, 0 (undecided) to 1 (clear) */
+export function bubbleConfidence(fill: number): number {
+  const mid = (FILLED_THRESHOLD + EMPTY_THRESHOLD) / 2;
+  return Math.min(1, Math.abs(fill - mid) / 0.25);
+}
+
+/**
+ * Decide which option of one item (or one student-ID column) was marked.
+ */
+export function classifyBubbleFills(fills: Record<string, number>): BubbleReading {
+  const ranked = Object.entries(fills).sort((a, b) => b[1] - a[1]);
+  const [topOption, top] = ranked[0] ?? [null, 0];
+  const second = ranked[1]?.[1] ?? 0;
+  const confidence = ranked.length
+    ? Math.min(...ranked.map(([, fill]) => bubbleConfidence(fill)))
+    : 0;
+
+  let status: BubbleStatus;
+  if (top <= EMPTY_THRESHOLD) {
+    status = 'blank';
+  } else if (top < FILLED_THRESHOLD) {
+    status = 'ambiguous';
+  } else if (second >= FILLED_THRESHOLD) {
+    status = 'multiple';
+  } else if (second <= EMPTY_THRESHOLD || top - second >= ERASURE_MARGIN) {
+    status = 'ok';
+  } else {
+    status = 'ambiguous';
+  }
+
+  const rounded = Object.fromEntries(ranked.map(([option, fill]) => [option, Math.round(fill * 100) / 100]));
+  return {
+    selected: status === 'ok' ? topOption : null,
+    suggestion: status === 'blank' ? null : topOption,
+    status,
+    confidence: Math.round(confidence * 100) / 100,
+    fills: rounded,
+    needsReview: status === 'multiple' || status === 'ambiguous' || confidence < REVIEW_CONFIDENCE,
+  };
+}
+
+/**
+ * Solve the projective transform mapping four source points onto four destination points.
+ * Returns the 3×3 matrix row-major with h[8] = 1.
+ */
+export function solveHomography(src: Point[], dst: Point[]): number[] {
+  const a: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = src[i];
+    const { x: u, y: v } = dst[i];
+    a.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+    a.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+  }
+
+  // Gaussian elimination with partial pivoting on the 8×9 augmented matrix
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 8; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-12) throw new Error('Registration marks are collinear');
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    for (let row = 0; row < 8; row++) {
+      if (row === col) continue;
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k < 9; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+
+  return [...a.map((row, i) => row[8] / row[i]), 1];
+}
+
+export function applyHomography(h: number[], p: Point): Point {
+  const w = h[6] * p.x + h[7] * p.y + h[8];
+  return {
+    x: (h[0] * p.x + h[1] * p.y + h[2]) / w,
+    y: (h[3] * p.x + h[4] * p.y + h[5]) / w,
+  };
+}
+
+/** Otsu threshold separating ink from paper */
+export function otsuThreshold(image: GrayImage): number {
+  const histogram = new Array(256).fill(0);
+  for (let i = 0; i < image.data.length; i++) histogram[image.data[i]]++;
+
+  const total = image.data.length;
+  let sum = 0;
+  for (let i = 0; i < 256; i++) sum += i * histogram[i];
+
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let best = 0;
+  let threshold = 128;
+  for (let t = 0; t < 256; t++) {
+    weightBackground += histogram[t];
+    if (weightBackground === 0) continue;
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+    sumBackground += t * histogram[t];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sum - sumBackground) / weightForeground;
+    const between = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+    if (between > best) {
+      best = between;
+      threshold = t;
+    }
+  }
+  return threshold;
+}
+
+export interface PageFrame {
+  /** Sheet millimetres → image pixels */
+  homography: number[];
+  threshold: number;
+  /** Pixels per millimetre, averaged over the page */
+  scale: number;
+}
+
+function darkIntegral(image: GrayImage, threshold: number): Int32Array {
+  const { width, height, data } = image;
+  const integral = new Int32Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += data[y * width + x] <= threshold ? 1 : 0;
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+    }
+  }
+  return integral;
+}
+
+function boxSum(integral: Int32Array, stride: number, x0: number, y0: number, x1: number, y1: number): number {
+  return integral[y1 * stride + x1] - integral[y0 * stride + x1] - integral[y1 * stride + x0] + integral[y0 * stride + x0];
+}
+
+/** Centroid of the dark pixels within `half` pixels of a point, refining a coarse search hit */
+function darkCentroid(image: GrayImage, threshold: number, around: Point, half: number): Point {
+  let sx = 0;
+  let sy = 0;
+  let n = 0;
+  for (let y = Math.max(0, Math.floor(around.y - half)); y < Math.min(image.height, around.y + half); y++) {
+    for (let x = Math.max(0, Math.floor(around.x - half)); x < Math.min(image.width, around.x + half); x++) {
+      if (image.data[y * image.width + x] > threshold) continue;
+      sx += x + 0.5;
+      sy += y + 0.5;
+      n++;
+    }
+  }
+  return n ? { x: sx / n, y: sy / n } : around;
+}
+
+/**
+ * Find the four registration squares, searching the corner regions for the
+ * solid square that stands out most from its surroundings.
+ */
+export function locatePage(image: GrayImage): PageFrame | null {
+  const { width, height } = image;
+  const threshold = otsuThreshold(image);
+  const integral = darkIntegral(image, threshold);
+  const stride = width + 1;
+
+  const size = Math.max(4, Math.round((MARK_SIZE * width) / PAGE_WIDTH));
+  const ring = Math.max(2, Math.round(size / 3));
+  const step = Math.max(1, Math.floor(size / 8));
+  const regionW = Math.floor(width * 0.3);
+  const regionH = Math.floor(height * 0.25);
+
+  const corners = [
+    { x0: 0, y0: 0 },
+    { x0: width - regionW, y0: 0 },
+    { x0: 0, y0: height - regionH },
+    { x0: width - regionW, y0: height - regionH },
+  ];
+
+  const found: Point[] = [];
+  for (const { x0, y0 } of corners) {
+    let bestScore = -Infinity;
+    let best: Point | null = null;
+    for (let y = y0; y + size <= y0 + regionH; y += step) {
+      for (let x = x0; x + size <= x0 + regionW; x += step) {
+        const inside = boxSum(integral, stride, x, y, x + size, y + size);
+        if (inside < size * size * 0.7) continue;
+        const ox0 = Math.max(0, x - ring);
+        const oy0 = Math.max(0, y - ring);
+        const ox1 = Math.min(width, x + size + ring);
+        const oy1 = Math.min(height, y + size + ring);
+        const around = boxSum(integral, stride, ox0, oy0, ox1, oy1) - inside;
+        const ringArea = (ox1 - ox0) * (oy1 - oy0) - size * size;
+        const score = inside / (size * size) - around / Math.max(1, ringArea);
+        if (score > bestScore) {
+          bestScore = score;
+          best = { x: x + size / 2, y: y + size / 2 };
+        }
+      }
+    }
+    if (!best || bestScore < 0.5) return null;
+    found.push(darkCentroid(image, threshold, best, size / 2 + ring));
+  }
+
+  const reference = buildSheetLayout([])[0].marks.map(markCenter);
+  const homography = solveHomography(reference, found);
+  const scale = (Math.hypot(found[1].x - found[0].x, found[1].y - found[0].y) / (reference[1].x - reference[0].x)
+    + Math.hypot(found[2].x - found[0].x, found[2].y - found[0].y) / (reference[2].y - reference[0].y)) / 2;
+
+  return { homography, threshold, scale };
+}
+
+/** Share of dark pixels inside a circle of `radius` mm around a sheet point */
+export function sampleFill(image: GrayImage, frame: PageFrame, center: Point, radius: number): number {
+  const c = applyHomography(frame.homography, center);
+  const r = radius * frame.scale;
+  const x0 = Math.max(0, Math.floor(c.x - r));
+  const x1 = Math.min(image.width - 1, Math.ceil(c.x + r));
+  const y0 = Math.max(0, Math.floor(c.y - r));
+  const y1 = Math.min(image.height - 1, Math.ceil(c.y + r));
+
+  let dark = 0;
+  let count = 0;
+  for (let y = y0; y <= y1; y++) {
+    for (let x = x0; x <= x1; x++) {
+      if ((x - c.x) ** 2 + (y - c.y) ** 2 > r * r) continue;
+      count++;
+      if (image.data[y * image.width + x] <= frame.threshold) dark++;
+    }
+  }
+  return count ? dark / count : 0;
+}
+
+/** Inner sampling radius: keeps the printed outline out of the sample */
+const INNER_RADIUS = BUBBLE_RADIUS * 0.6;
+
+export function readVersionCode(image: GrayImage, frame: PageFrame): { testIdHash: string; page: number } | null {
+  const layout = buildSheetLayout([])[0];
+  const bits = layout.codeCells.map(cell => sampleFill(image, frame, cell, CODE_CELL * 0.3) >= 0.5);
+  return decodeVersionCode(bits);
+}
+
+export interface StudentIdReading {
+  /** Digits read left to right, trailing blank columns dropped; null when unreadable */
+  value: string | null;
+  confidence: number;
+  needsReview: boolean;
+}
+
+export function readStudentId(image: GrayImage, frame: PageFrame, layout: SheetPageLayout): StudentIdReading {
+  const columns: BubbleReading[] = [];
+  for (let column = 0; column < STUDENT_ID_DIGITS; column++) {
+    const fills: Record<string, number> = {};
+    layout.studentId
+      .filter(b => b.column === column)
+      .forEach(b => { fills[String(b.digit)] = sampleFill(image, frame, b, INNER_RADIUS); });
+    columns.push(classifyBubbleFills(fills));
+  }
+
+  let last = columns.length - 1;
+  while (last >= 0 && columns[last].status === 'blank') last--;
+  const used = columns.slice(0, last + 1);
+  const confidence = used.length ? Math.min(...used.map(c => c.confidence)) : 0;
+  const readable = used.length > 0 && used.every(c => c.status === 'ok');
+
+  return {
+    value: readable ? used.map(c => c.selected).join('') : null,
+    confidence,
+    needsReview: !readable || used.some(c => c.needsReview),
+  };
+}
+
+export interface ItemReading extends BubbleReading {
+  itemNumber: number;
+}
+
+export function readItems(image: GrayImage, frame: PageFrame, layout: SheetPageLayout): ItemReading[] {
+  const byItem = new Map<number, Record<string, number>>();
+  for (const bubble of layout.bubbles) {
+    const fills = byItem.get(bubble.itemNumber) ?? {};
+    fills[bubble.option] = sampleFill(image, frame, bubble, INNER_RADIUS);
+    byItem.set(bubble.itemNumber, fills);
+  }
+  return [...byItem.entries()].map(([itemNumber, fills]) => ({ itemNumber, ...classifyBubbleFills(fills) }));
+}
+
+export interface ScannedPage {
+  /** Version the page belongs to, null when the version code could not be read */
+  testId: string | null;
+  page: number;
+  studentId: StudentIdReading | null;
+  items: ItemReading[];
+  error?: string;
+}
+
+/**
+ * Read one scanned page against the versions it may belong to. The version code
+ * carries the first eight characters of the test id, as in the watermark code.
+ */
+export function readScannedPage(image: GrayImage, keys: VersionAnswerKey[]): ScannedPage {
+  const empty = { testId: null, page: 0, studentId: null, items: [] };
+  const frame = locatePage(image);
+  if (!frame) return { ...empty, error: 'Registration marks not found' };
+
+  const code = readVersionCode(image, frame);
+  if (!code) return { ...empty, error: 'Version code unreadable' };
+
+  const key = keys.find(k => k.testId.substring(0, 8).toLowerCase() === code.testIdHash);
+  if (!key) return { ...empty, page: code.page, error: `Sheet belongs to another test (${code.testIdHash})` };
+
+  const layout = buildSheetLayout(sheetItems(key)).find(p => p.page === code.page);
+  if (!layout) return { ...empty, testId: key.testId, page: code.page, error: `Version has no page ${code.page}` };
+
+  return {
+    testId: key.testId,
+    page: code.page,
+    studentId: code.page === 1 ? readStudentId(image, frame, layout) : null,
+    items: readItems(image, frame, layout),
+  };
+}
@@ -0,0 +1,198 @@
+/**
+ * Geometry of the printed bubble answer sheet, shared by the PDF generator and the
+ * scan reader so both agree on where every mark is. All units are millimetres on
+ * an A4 portrait page with the origin at the top-left corner.
+ */
+
+import { VersionAnswerKey, isBubbled } from '@/services/scoring/answerSheet';
+
+export const PAGE_WIDTH = 210;
+export const PAGE_HEIGHT = 297;
+
+export const MARK_SIZE = 8;
+export const BUBBLE_RADIUS = 2;
+export const STUDENT_ID_DIGITS = 10;
+
+export const CODE_CELL = 3;
+
+const MARGIN = 10;
+const CODE_Y = 44;
+const CODE_X = 20;
+const ID_TOP = 60;
+const ID_LEFT = 22;
+const ID_SPACING = 5;
+const ITEM_COLUMNS_X = [20, 67, 114, 161];
+const ITEM_ROW_HEIGHT = 6;
+const OPTION_SPACING = 6;
+const FIRST_PAGE_ITEMS_TOP = 128;
+const NEXT_PAGE_ITEMS_TOP = 58;
+const ITEMS_BOTTOM = 272;
+
+/** Bits in the printed version code: 32-bit test id prefix, 4-bit page, 8-bit checksum */
+export const CODE_BITS = 44;
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface RegistrationMark extends Point {
+  /** Top-left corner; the mark is a filled MARK_SIZE square */
+  corner: 'tl' | 'tr' | 'bl' | 'br';
+}
+
+export interface BubblePosition extends Point {
+  itemNumber: number;
+  option: string;
+}
+
+export interface DigitBubble extends Point {
+  column: number;
+  digit: number;
+}
+
+export interface SheetPageLayout {
+  page: number;
+  marks: RegistrationMark[];
+  /** Centres of the version-code cells, most significant bit first */
+  codeCells: Point[];
+  studentId: DigitBubble[];
+  bubbles: BubblePosition[];
+}
+
+export interface SheetItem {
+  itemNumber: number;
+  options: string[];
+}
+
+/** Options printed for each bubble-able item; written answers are entered by hand */
+export function sheetItems(key: VersionAnswerKey): SheetItem[] {
+  return key.items
+    .filter(item => isBubbled(item.questionType))
+    .map(item => ({
+      itemNumber: item.itemNumber,
+      options: item.questionType === 'true_false'
+        ? ['T', 'F']
+        : (Object.keys(item.choices).length ? Object.keys(item.choices).sort() : ['A', 'B', 'C', 'D']).slice(0, 6),
+    }));
+}
+
+function markCenters(): RegistrationMark[] {
+  const right = PAGE_WIDTH - MARGIN - MARK_SIZE;
+  const bottom = PAGE_HEIGHT - MARGIN - MARK_SIZE;
+  return [
+    { corner: 'tl', x: MARGIN, y: MARGIN },
+    { corner: 'tr', x: right, y: MARGIN },
+    { corner: 'bl', x: MARGIN, y: bottom },
+    { corner: 'br', x: right, y: bottom },
+  ];
+}
+
+export function markCenter(mark: RegistrationMark): Point {
+  return { x: mark.x + MARK_SIZE / 2, y: mark.y + MARK_SIZE / 2 };
+}
+
+function rowsPerColumn(page: number): number {
+  const top = page === 1 ? FIRST_PAGE_ITEMS_TOP : NEXT_PAGE_ITEMS_TOP;
+  return Math.floor((ITEMS_BOTTOM - top) / ITEM_ROW_HEIGHT) + 1;
+}
+
+/**
+ * Split the sheet items over as many pages as needed and place every bubble.
+ */
+export function buildSheetLayout(items: SheetItem[]): SheetPageLayout[] {
+  const pages: SheetPageLayout[] = [];
+  let remaining = [...items];
+  let page = 1;
+
+  do {
+    const rows = rowsPerColumn(page);
+    const capacity = rows * ITEM_COLUMNS_X.length;
+    const pageItems = remaining.slice(0, capacity);
+    remaining = remaining.slice(capacity);
+    const top = page === 1 ? FIRST_PAGE_ITEMS_TOP : NEXT_PAGE_ITEMS_TOP;
+
+    const bubbles: BubblePosition[] = [];
+    pageItems.forEach((item, index) => {
+      const column = Math.floor(index / rows);
+      const row = index % rows;
+      const y = top + row * ITEM_ROW_HEIGHT;
+      item.options.forEach((option, o) => {
+        bubbles.push({
+          itemNumber: item.itemNumber,
+          option,
+          x: ITEM_COLUMNS_X[column] + 10 + o * OPTION_SPACING,
+          y,
+        });
+      });
+    });
+
+    const studentId: DigitBubble[] = [];
+    if (page === 1) {
+      for (let column = 0; column < STUDENT_ID_DIGITS; column++) {
+        for (let digit = 0; digit <= 9; digit++) {
+          studentId.push({
+            column,
+            digit,
+            x: ID_LEFT + column * ID_SPACING,
+            y: ID_TOP + digit * ID_SPACING,
+          });
+        }
+      }
+    }
+
+    pages.push({
+      page,
+      marks: markCenters(),
+      codeCells: Array.from({ length: CODE_BITS }, (_, i) => ({
+        x: CODE_X + i * CODE_CELL + CODE_CELL / 2,
+        y: CODE_Y + CODE_CELL / 2,
+      })),
+      studentId,
+      bubbles,
+    });
+    page++;
+  } while (remaining.length > 0);
+
+  return pages;
+}
+
+function checksum(bytes: number[]): number {
+  return bytes.reduce((sum, b, i) => (sum + b * (i + 1)) % 256, 0x5a);
+}
+
+/**
+ * Encode the test-id hash from the version's watermark code plus the page number
+ * as a bit string for the printed version-code strip.
+ */
+export function encodeVersionCode(testIdHash: string, page: number): boolean[] {
+  const hex = testIdHash.toLowerCase().replace(/[^0-9a-f]/g, '').padEnd(8, '0').slice(0, 8);
+  const bytes = [0, 2, 4, 6].map(i => parseInt(hex.slice(i, i + 2), 16));
+  const pageBits = Math.min(15, Math.max(1, page));
+  const check = checksum([...bytes, pageBits]);
+
+  const bits: boolean[] = [];
+  const push = (value: number, width: number) => {
+    for (let i = width - 1; i >= 0; i--) bits.push(((value >> i) & 1) === 1);
+  };
+  bytes.forEach(b => push(b, 8));
+  push(pageBits, 4);
+  push(check, 8);
+  return bits;
+}
+
+export function decodeVersionCode(bits: boolean[]): { testIdHash: string; page: number } | null {
+  if (bits.length !== CODE_BITS) return null;
+  const read = (start: number, width: number) =>
+    bits.slice(start, start + width).reduce((v, bit) => (v << 1) | (bit ? 1 : 0), 0);
+
+  const bytes = [0, 8, 16, 24].map(start => read(start, 8));
+  const page = read(32, 4);
+  const check = read(36, 8);
+  if (page < 1 || checksum([...bytes, page]) !== check) return null;
+
+  return {
+    testIdHash: bytes.map(b => b.toString(16).padStart(2, '0')).join(''),
+    page,
+  };
+}
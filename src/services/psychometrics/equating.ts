@@ -0,0 +1,328 @@
+/**
+ * Score equating between test forms that share anchor items.
+ *
+ * Form X (the form being converted) was taken by group 1 and the reference form Y
+ * by group 2. Both groups also answered the common anchor items V, which is the
+ * non-equivalent groups anchor test design. Every method returns a conversion
+ * table from each integer raw score on X to the Y scale:
+ *
+ *   mean_sigma      chained through the anchor: x goes to the anchor scale with the
+ *                   means and SDs of X and V in group 1, then to Y with those of V and Y
+ *                   in group 2, e(x) = σY/σX (x − μX) + μY once the groups are equivalent
+ *   linear          Tucker linear equating: the moments of X and Y in a synthetic
+ *                   population of both groups, predicted from the anchor by regression
+ *   equipercentile  frequency estimation: synthetic score distributions through the
+ *                   anchor, then equal percentile ranks on X and Y are matched
+ *   irt_true_score  x is mapped to the θ where the expected score on X is x, then to
+ *                   the expected score on Y at that θ
+ *
+ * Without anchor scores the observed-score methods fall back to the equivalent
+ * groups design (versions handed out at random in one sitting). Notation follows
+ * Kolen & Brennan, Test Equating, Scaling, and Linking.
+ */
+
+import { IrtItemParameters, irtProbability } from './irt';
+
+export type EquatingMethod = 'mean_sigma' | 'linear' | 'equipercentile' | 'irt_true_score';
+
+export const EQUATING_METHODS: { value: EquatingMethod; label: string }[] = [
+  { value: 'mean_sigma', label: 'Mean/sigma' },
+  { value: 'linear', label: 'Linear (Tucker)' },
+  { value: 'equipercentile', label: 'Equipercentile' },
+  { value: 'irt_true_score', label: 'IRT true-score' },
+];
+
+/** 'anchor' when the anchor items linked the groups, 'equivalent_groups' otherwise */
+export type EquatingDesign = 'anchor' | 'equivalent_groups' | 'irt';
+
+export interface FormScores {
+  /** Total raw score per examinee */
+  totals: number[];
+  /** Anchor-item score per examinee, in the same order; empty when the forms share no items */
+  anchors: number[];
+  maxScore: number;
+}
+
+export interface EquatingItem extends IrtItemParameters {
+  points: number;
+}
+
+export interface ConversionRow {
+  raw: number;
+  equated: number;
+}
+
+export interface ConversionTable {
+  method: EquatingMethod;
+  design: EquatingDesign;
+  maxScore: number;
+  referenceMaxScore: number;
+  rows: ConversionRow[];
+}
+
+export interface IrtEquatingItems {
+  form: EquatingItem[];
+  reference: EquatingItem[];
+}
+
+const mean = (values: number[]) => values.reduce((s, v) => s + v, 0) / Math.max(1, values.length);
+
+function variance(values: number[]): number {
+  const m = mean(values);
+  return values.reduce((s, v) => s + (v - m) ** 2, 0) / Math.max(1, values.length);
+}
+
+function covariance(x: number[], y: number[]): number {
+  const mx = mean(x);
+  const my = mean(y);
+  return x.reduce((s, v, i) => s + (v - mx) * (y[i] - my), 0) / Math.max(1, x.length);
+}
+
+const hasAnchor = (scores: FormScores) =>
+  scores.anchors.length === scores.totals.length && scores.totals.length > 1 && variance(scores.anchors) > 0;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function buildTable(
+  method: EquatingMethod,
+  design: EquatingDesign,
+  maxScore: number,
+  referenceMaxScore: number,
+  convert: (raw: number) => number
+): ConversionTable {
+  const top = Math.max(0, Math.round(maxScore));
+  const rows = Array.from({ length: top + 1 }, (_, raw) => ({
+    raw,
+    equated: round(Math.min(referenceMaxScore, Math.max(0, convert(raw)))),
+  }));
+  return { method, design, maxScore, referenceMaxScore, rows };
+}
+
+function linearTable(
+  method: EquatingMethod,
+  design: EquatingDesign,
+  form: FormScores,
+  reference: FormScores,
+  moments: { meanX: number; sdX: number; meanY: number; sdY: number }
+): ConversionTable {
+  // A form without score spread can only be shifted, not stretched
+  const slope = moments.sdX > 0 && moments.sdY > 0 ? moments.sdY / moments.sdX : 1;
+  return buildTable(method, design, form.maxScore, reference.maxScore,
+    x => slope * (x - moments.meanX) + moments.meanY);
+}
+
+/** Moments of X and Y taken as they are, for groups assumed equivalent */
+function equivalentGroupMoments(form: FormScores, reference: FormScores) {
+  return {
+    meanX: mean(form.totals),
+    sdX: Math.sqrt(variance(form.totals)),
+    meanY: mean(reference.totals),
+    sdY: Math.sqrt(variance(reference.totals)),
+  };
+}
+
+export function meanSigmaEquating(form: FormScores, reference: FormScores): ConversionTable {
+  if (!hasAnchor(form) || !hasAnchor(reference)) {
+    return linearTable('mean_sigma', 'equivalent_groups', form, reference, equivalentGroupMoments(form, reference));
+  }
+
+  // X → V in group 1, then V → Y in group 2; folding both steps into the
+  // moments of Y keeps the slope σY2·σV1 / (σV2·σX1)
+  const sdV1 = Math.sqrt(variance(form.anchors));
+  const sdV2 = Math.sqrt(variance(reference.anchors));
+  const sdY = Math.sqrt(variance(reference.totals));
+  return linearTable('mean_sigma', 'anchor', form, reference, {
+    meanX: mean(form.totals),
+    sdX: Math.sqrt(variance(form.totals)),
+    meanY: mean(reference.totals) + (sdY / sdV2) * (mean(form.anchors) - mean(reference.anchors)),
+    sdY: (sdY * sdV1) / sdV2,
+  });
+}
+
+/**
+ * Tucker linear equating with synthetic weights proportional to group size.
+ */
+export function tuckerLinearEquating(form: FormScores, reference: FormScores): ConversionTable {
+  // Without an anchor the synthetic population is just the two groups as they are
+  if (!hasAnchor(form) || !hasAnchor(reference)) {
+    return linearTable('linear', 'equivalent_groups', form, reference, equivalentGroupMoments(form, reference));
+  }
+
+  const n1 = form.totals.length;
+  const n2 = reference.totals.length;
+  const w1 = n1 / (n1 + n2);
+  const w2 = 1 - w1;
+
+  const gamma1 = covariance(form.totals, form.anchors) / variance(form.anchors);
+  const gamma2 = covariance(reference.totals, reference.anchors) / variance(reference.anchors);
+  const meanGap = mean(form.anchors) - mean(reference.anchors);
+  const varGap = variance(form.anchors) - variance(reference.anchors);
+
+  const meanX = mean(form.totals) - w2 * gamma1 * meanGap;
+  const meanY = mean(reference.totals) + w1 * gamma2 * meanGap;
+  const varX = variance(form.totals) - w2 * gamma1 ** 2 * varGap + w1 * w2 * gamma1 ** 2 * meanGap ** 2;
+  const varY = variance(reference.totals) + w1 * gamma2 ** 2 * varGap + w1 * w2 * gamma2 ** 2 * meanGap ** 2;
+
+  return linearTable('linear', 'anchor', form, reference, {
+    meanX,
+    sdX: Math.sqrt(Math.max(0, varX)),
+    meanY,
+    sdY: Math.sqrt(Math.max(0, varY)),
+  });
+}
+
+/** Relative frequency of each integer score 0..max */
+function distribution(scores: number[], max: number): number[] {
+  const freq = new Array(max + 1).fill(0);
+  for (const s of scores) freq[Math.min(max, Math.max(0, Math.round(s)))]++;
+  return freq.map(f => f / Math.max(1, scores.length));
+}
+
+/**
+ * Synthetic-population distribution of a form's total score: the group's own
+ * distribution, and the other group's via the conditional distribution given the anchor.
+ */
+function syntheticDistribution(own: FormScores, otherAnchors: number[], ownWeight: number, max: number, anchorMax: number): number[] {
+  const anchorFreq = new Array(anchorMax + 1).fill(0);
+  const joint = Array.from({ length: max + 1 }, () => new Array(anchorMax + 1).fill(0));
+  own.totals.forEach((total, i) => {
+    const x = Math.min(max, Math.max(0, Math.round(total)));
+    const v = Math.min(anchorMax, Math.max(0, Math.round(own.anchors[i])));
+    joint[x][v]++;
+    anchorFreq[v]++;
+  });
+  const otherAnchorDist = distribution(otherAnchors, anchorMax);
+  const ownDist = distribution(own.totals, max);
+
+  const synthetic = ownDist.map((f, x) => {
+    let other = 0;
+    for (let v = 0; v <= anchorMax; v++) {
+      if (anchorFreq[v] > 0) other += (joint[x][v] / anchorFreq[v]) * otherAnchorDist[v];
+    }
+    return ownWeight * f + (1 - ownWeight) * other;
+  });
+
+  // Anchor scores the group never reached carry no conditional distribution
+  const total = synthetic.reduce((s, f) => s + f, 0);
+  return total > 0 ? synthetic.map(f => f / total) : ownDist;
+}
+
+/** Keeps the cumulative distribution strictly increasing so percentile ranks invert uniquely */
+function spread(freq: number[]): number[] {
+  const epsilon = 1e-6;
+  return freq.map(f => (1 - epsilon) * f + epsilon / freq.length);
+}
+
+function cumulative(freq: number[]): number[] {
+  let running = 0;
+  return freq.map(f => (running += f));
+}
+
+/** Percentile rank of integer score x, as a proportion */
+function percentileRank(freq: number[], cum: number[], x: number): number {
+  return (x > 0 ? cum[x - 1] : 0) + freq[x] / 2;
+}
+
+/** Continuized score on a form with the given percentile rank */
+function percentilePoint(freq: number[], cum: number[], p: number): number {
+  const y = cum.findIndex(c => c > p);
+  if (y < 0) return freq.length - 0.5;
+  const below = y > 0 ? cum[y - 1] : 0;
+  return (p - below) / freq[y] + y - 0.5;
+}
+
+export function equipercentileEquating(form: FormScores, reference: FormScores): ConversionTable {
+  const maxX = Math.max(0, Math.round(form.maxScore));
+  const maxY = Math.max(0, Math.round(reference.maxScore));
+  const anchored = hasAnchor(form) && hasAnchor(reference);
+
+  let f: number[];
+  let g: number[];
+  if (anchored) {
+    const anchorMax = Math.round(Math.max(...form.anchors, ...reference.anchors));
+    const w1 = form.totals.length / (form.totals.length + reference.totals.length);
+    f = syntheticDistribution(form, reference.anchors, w1, maxX, anchorMax);
+    g = syntheticDistribution(reference, form.anchors, 1 - w1, maxY, anchorMax);
+  } else {
+    f = distribution(form.totals, maxX);
+    g = distribution(reference.totals, maxY);
+  }
+
+  f = spread(f);
+  g = spread(g);
+  const cumF = cumulative(f);
+  const cumG = cumulative(g);
+
+  return buildTable('equipercentile', anchored ? 'anchor' : 'equivalent_groups', form.maxScore, reference.maxScore,
+    x => percentilePoint(g, cumG, percentileRank(f, cumF, x)));
+}
+
+/** Expected raw score at θ: the test characteristic curve */
+export function expectedScore(items: EquatingItem[], theta: number): number {
+  return items.reduce((s, item) => s + item.points * irtProbability(item, theta), 0);
+}
+
+/** θ at which the expected score equals `score`; the curve is increasing so bisection always converges */
+function thetaForScore(items: EquatingItem[], score: number): number {
+  let low = -20;
+  let high = 20;
+  for (let i = 0; i < 100 && high - low > 1e-8; i++) {
+    const mid = (low + high) / 2;
+    if (expectedScore(items, mid) < score) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * IRT true-score equating. Item parameters of both forms must be on one scale,
+ * which holds for parameters calibrated together by bank question. Scores at or
+ * below the guessing floor of X are mapped linearly onto the guessing floor of Y.
+ */
+export function irtTrueScoreEquating(items: IrtEquatingItems): ConversionTable {
+  const maxX = items.form.reduce((s, item) => s + item.points, 0);
+  const maxY = items.reference.reduce((s, item) => s + item.points, 0);
+  const floorX = items.form.reduce((s, item) => s + item.points * item.c, 0);
+  const floorY = items.reference.reduce((s, item) => s + item.points * item.c, 0);
+
+  return buildTable('irt_true_score', 'irt', maxX, maxY, x => {
+    if (x >= maxX) return maxY;
+    if (x <= floorX) return floorX > 0 ? (x * floorY) / floorX : 0;
+    return expectedScore(items.reference, thetaForScore(items.form, x));
+  });
+}
+
+export function equateScores(
+  method: EquatingMethod,
+  form: FormScores,
+  reference: FormScores,
+  items?: IrtEquatingItems
+): ConversionTable {
+  switch (method) {
+    case 'mean_sigma':
+      return meanSigmaEquating(form, reference);
+    case 'linear':
+      return tuckerLinearEquating(form, reference);
+    case 'equipercentile':
+      return equipercentileEquating(form, reference);
+    case 'irt_true_score':
+      if (!items) throw new Error('IRT true-score equating needs item parameters for both forms');
+      return irtTrueScoreEquating(items);
+  }
+}
+
+/**
+ * Equated score for a raw score, interpolating between table rows for
+ * fractional raw scores.
+ */
+export function applyConversion(rows: ConversionRow[], raw: number): number {
+  if (rows.length === 0) return raw;
+  if (raw <= rows[0].raw) return rows[0].equated;
+  const last = rows[rows.length - 1];
+  if (raw >= last.raw) return last.equated;
+
+  const upper = rows.findIndex(r => r.raw >= raw);
+  const lo = rows[upper - 1];
+  const hi = rows[upper];
+  return round(lo.equated + ((raw - lo.raw) / (hi.raw - lo.raw)) * (hi.equated - lo.equated));
+}
@@ -0,0 +1,589 @@
+/**
+ * Item Response Theory calibration by marginal maximum likelihood (Bock–Aitkin EM).
+ *
+ * Items are dichotomous; ability is integrated over a fixed standard-normal
+ * quadrature, so examinees only contribute to the items they actually saw and
+ * responses from different tests can be pooled per bank question. Parameters
+ * use the logistic metric (D = 1):
+ *
+ *   P(θ) = c + (1 − c) / (1 + exp(−a(θ − b)))
+ *
+ * 1PL fixes a = 1 and c = 0 (Rasch), 2PL fixes c = 0, 3PL estimates all three.
+ * Weak priors (log a ~ N(0, 0.5²), b ~ N(0, 2²), c ~ Beta(5, 17)) keep items
+ * with few or extreme responses from drifting off to infinity.
+ */
+
+import Papa from 'papaparse';
+
+export type IrtModel = '1PL' | '2PL' | '3PL';
+
+export const IRT_MODELS: IrtModel[] = ['1PL', '2PL', '3PL'];
+
+export interface IrtItemParameters {
+  a: number;
+  b: number;
+  c: number;
+}
+
+export interface IrtItemEstimate extends IrtItemParameters {
+  itemId: string;
+  /** Standard errors; null for parameters the model fixes */
+  seA: number | null;
+  seB: number;
+  seC: number | null;
+  responseCount: number;
+  /** Proportion correct among the responses used */
+  pValue: number;
+}
+
+export interface DichotomousResponse {
+  examineeId: string;
+  itemId: string;
+  correct: boolean;
+}
+
+export interface CalibrationOptions {
+  model: IrtModel;
+  quadraturePoints?: number;
+  maxIterations?: number;
+  /** Largest parameter change that still counts as converged */
+  tolerance?: number;
+  /** Items with fewer responses are left uncalibrated */
+  minResponses?: number;
+}
+
+export interface CalibrationResult {
+  model: IrtModel;
+  items: IrtItemEstimate[];
+  excluded: { itemId: string; reason: string }[];
+  examineeCount: number;
+  iterations: number;
+  converged: boolean;
+  /** Marginal log-likelihood of the data at the final estimates */
+  logLikelihood: number;
+  aic: number;
+  bic: number;
+}
+
+export function irtProbability({ a, b, c }: IrtItemParameters, theta: number): number {
+  return c + (1 - c) / (1 + Math.exp(-a * (theta - b)));
+}
+
+/** Fisher information of one item at θ */
+export function itemInformation(params: IrtItemParameters, theta: number): number {
+  const p = irtProbability(params, theta);
+  const q = 1 - p;
+  if (p <= 0 || q <= 0) return 0;
+  const { a, c } = params;
+  return (a * a * q * (p - c) ** 2) / (p * (1 - c) ** 2);
+}
+
+export interface CurvePoint {
+  theta: number;
+  probability: number;
+  information: number;
+}
+
+export function itemCurve(params: IrtItemParameters, from = -4, to = 4, step = 0.1): CurvePoint[] {
+  const points: CurvePoint[] = [];
+  for (let theta = from; theta <= to + 1e-9; theta += step) {
+    const t = Math.round(theta * 100) / 100;
+    points.push({ theta: t, probability: irtProbability(params, t), information: itemInformation(params, t) });
+  }
+  return points;
+}
+
+/** Test information at θ: the sum of the item informations */
+export function testInformation(items: IrtItemParameters[], theta: number): number {
+  return items.reduce((sum, item) => sum + itemInformation(item, theta), 0);
+}
+
+/** Standard error of the ability estimate at a given test information */
+export function informationToStandardError(information: number): number {
+  return information > 0 ? 1 / Math.sqrt(information) : Infinity;
+}
+
+/** Standard-normal quadrature on [−4, 4]; the weights sum to 1 */
+export function quadrature(count: number): { nodes: number[]; weights: number[] } {
+  const nodes: number[] = [];
+  const raw: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const theta = -4 + (8 * i) / (count - 1);
+    nodes.push(theta);
+    raw.push(Math.exp(-theta * theta / 2));
+  }
+  const total = raw.reduce((s, w) => s + w, 0);
+  return { nodes, weights: raw.map(w => w / total) };
+}
+
+/** Expected proportion correct over a standard-normal ability distribution */
+export function marginalProbability(params: IrtItemParameters, quadraturePoints = 41): number {
+  const { nodes, weights } = quadrature(quadraturePoints);
+  return nodes.reduce((sum, theta, q) => sum + weights[q] * irtProbability(params, theta), 0);
+}
+
+/**
+ * Unit-discrimination item whose marginal proportion correct is p, for placing
+ * items that only have a classical p-value on the θ scale.
+ */
+export function itemFromPValue(p: number): IrtItemParameters {
+  const target = Math.min(0.99, Math.max(0.01, p));
+  let low = -8;
+  let high = 8;
+  for (let i = 0; i < 50; i++) {
+    const mid = (low + high) / 2;
+    // Proportion correct falls as b rises
+    if (marginalProbability({ a: 1, b: mid, c: 0 }) > target) low = mid;
+    else high = mid;
+  }
+  return { a: 1, b: (low + high) / 2, c: 0 };
+}
+
+/**
+ * Marginal number-correct score distribution over a standard-normal ability
+ * distribution (Lord–Wingersky recursion at each quadrature node). Entry k is
+ * the probability of scoring k.
+ */
+export function expectedScoreDistribution(items: IrtItemParameters[], quadraturePoints = 41): number[] {
+  const { nodes, weights } = quadrature(quadraturePoints);
+  const marginal = new Array(items.length + 1).fill(0);
+  nodes.forEach((theta, q) => {
+    let dist = [1];
+    for (const item of items) {
+      const p = irtProbability(item, theta);
+      const next = new Array(dist.length + 1).fill(0);
+      dist.forEach((value, k) => {
+        next[k] += value * (1 - p);
+        next[k + 1] += value * p;
+      });
+      dist = next;
+    }
+    dist.forEach((value, k) => { marginal[k] += weights[q] * value; });
+  });
+  return marginal;
+}
+
+const logistic = (x: number) => 1 / (1 + Math.exp(-x));
+const logit = (p: number) => Math.log(p / (1 - p));
+const clampProbability = (p: number) => Math.min(1 - 1e-9, Math.max(1e-9, p));
+
+/** Unconstrained parameter vector ↔ item parameters */
+function toParams(model: IrtModel, v: number[]): IrtItemParameters {
+  if (model === '1PL') return { a: 1, b: v[0], c: 0 };
+  if (model === '2PL') return { a: Math.exp(v[0]), b: v[1], c: 0 };
+  return { a: Math.exp(v[0]), b: v[1], c: logistic(v[2]) };
+}
+
+function toVector(model: IrtModel, p: IrtItemParameters): number[] {
+  if (model === '1PL') return [p.b];
+  if (model === '2PL') return [Math.log(p.a), p.b];
+  return [Math.log(p.a), p.b, logit(Math.min(0.5, Math.max(0.01, p.c)))];
+}
+
+function logPrior(model: IrtModel, p: IrtItemParameters): number {
+  let prior = -(p.b * p.b) / (2 * 4);
+  if (model !== '1PL') prior += -(Math.log(p.a) ** 2) / (2 * 0.25);
+  if (model === '3PL') prior += 4 * Math.log(p.c) + 16 * Math.log(1 - p.c);
+  return prior;
+}
+
+/** Expected complete-data log-likelihood of one item plus its prior */
+function itemObjective(model: IrtModel, v: number[], nodes: number[], r: Float64Array, n: Float64Array): number {
+  const params = toParams(model, v);
+  let sum = logPrior(model, params);
+  for (let q = 0; q < nodes.length; q++) {
+    if (n[q] === 0) continue;
+    const p = clampProbability(irtProbability(params, nodes[q]));
+    sum += r[q] * Math.log(p) + (n[q] - r[q]) * Math.log(1 - p);
+  }
+  return sum;
+}
+
+/** Central-difference gradient and Hessian of f at v */
+function derivatives(f: (v: number[]) => number, v: number[]): { gradient: number[]; hessian: number[][] } {
+  const h = 1e-4;
+  const k = v.length;
+  const f0 = f(v);
+  const shifted = (changes: [number, number][]) => {
+    const next = [...v];
+    changes.forEach(([i, d]) => { next[i] += d; });
+    return f(next);
+  };
+
+  const gradient = v.map((_, i) => (shifted([[i, h]]) - shifted([[i, -h]])) / (2 * h));
+  const hessian = Array.from({ length: k }, () => new Array(k).fill(0));
+  for (let i = 0; i < k; i++) {
+    hessian[i][i] = (shifted([[i, h]]) - 2 * f0 + shifted([[i, -h]])) / (h * h);
+    for (let j = i + 1; j < k; j++) {
+      const value = (shifted([[i, h], [j, h]]) - shifted([[i, h], [j, -h]])
+        - shifted([[i, -h], [j, h]]) + shifted([[i, -h], [j, -h]])) / (4 * h * h);
+      hessian[i][j] = value;
+      hessian[j][i] = value;
+    }
+  }
+  return { gradient, hessian };
+}
+
+/** Inverse of a small symmetric matrix by Gauss–Jordan elimination; null when singular */
+function invert(matrix: number[][]): number[][] | null {
+  const k = matrix.length;
+  const m = matrix.map((row, i) => [...row, ...Array.from({ length: k }, (_, j) => (i === j ? 1 : 0))]);
+  for (let col = 0; col < k; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < k; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    const div = m[col][col];
+    for (let j = 0; j < 2 * k; j++) m[col][j] /= div;
+    for (let row = 0; row < k; row++) {
+      if (row === col) continue;
+      const factor = m[row][col];
+      for (let j = 0; j < 2 * k; j++) m[row][j] -= factor * m[col][j];
+    }
+  }
+  return m.map(row => row.slice(k));
+}
+
+/** A few damped Newton steps on one item's M-step objective */
+function maximizeItem(f: (v: number[]) => number, start: number[]): number[] {
+  let v = start;
+  let value = f(v);
+  for (let iter = 0; iter < 8; iter++) {
+    const { gradient, hessian } = derivatives(f, v);
+    const inverse = invert(hessian.map(row => row.map(x => -x)));
+    const concave = inverse && inverse.every((row, i) => row[i] > 0);
+    const direction = concave
+      ? inverse.map(row => row.reduce((s, x, j) => s + x * gradient[j], 0))
+      : gradient.map(g => 0.1 * g);
+
+    let step = 1;
+    let improved = false;
+    while (step > 1e-4) {
+      const candidate = v.map((x, i) => x + step * Math.max(-1, Math.min(1, direction[i])));
+      const candidateValue = f(candidate);
+      if (candidateValue > value) {
+        v = candidate;
+        value = candidateValue;
+        improved = true;
+        break;
+      }
+      step /= 2;
+    }
+    if (!improved || Math.max(...direction.map(Math.abs)) * step < 1e-6) break;
+  }
+  return v;
+}
+
+/** Derivative of P(θ) with respect to the unconstrained parameter vector */
+function probabilityGradient(model: IrtModel, { a, b, c }: IrtItemParameters, theta: number): number[] {
+  const l = logistic(a * (theta - b));
+  const slope = (1 - c) * l * (1 - l);
+  const dB = -a * slope;
+  if (model === '1PL') return [dB];
+  const dLogA = a * (theta - b) * slope;
+  if (model === '2PL') return [dLogA, dB];
+  return [dLogA, dB, (1 - l) * c * (1 - c)];
+}
+
+/**
+ * Per-item block of the missing information Σ_p (E[s sᵀ] − E[s] E[s]ᵀ), where s is an
+ * examinee's complete-data score for the item and expectations run over the
+ * examinee's ability posterior. Cross-item terms are ignored.
+ */
+function missingInformation(
+  model: IrtModel,
+  params: IrtItemParameters[],
+  examinees: { item: number; u: number }[][],
+  nodes: number[],
+  logs: { logP: number[][]; logQ: number[][] },
+  posteriorFor: (answers: { item: number; u: number }[], logs: { logP: number[][]; logQ: number[][] }, out: Float64Array) => number
+): number[][][] {
+  const k = model === '1PL' ? 1 : model === '2PL' ? 2 : 3;
+  const zero = () => Array.from({ length: k }, () => new Array(k).fill(0));
+  const missing = params.map(zero);
+
+  // Score factors per item and node: (u − P) / (P(1 − P)) · ∂P/∂v, for u = 0 and u = 1
+  const gradients = params.map(p => nodes.map(t => probabilityGradient(model, p, t)));
+  const probabilities = params.map(p => nodes.map(t => clampProbability(irtProbability(p, t))));
+
+  const posterior = new Float64Array(nodes.length);
+  const mean = new Array(k).fill(0);
+  for (const answers of examinees) {
+    posteriorFor(answers, logs, posterior);
+    for (const { item, u } of answers) {
+      mean.fill(0);
+      const block = missing[item];
+      for (let q = 0; q < nodes.length; q++) {
+        const w = posterior[q];
+        if (w < 1e-12) continue;
+        const p = probabilities[item][q];
+        const factor = (u - p) / (p * (1 - p));
+        const g = gradients[item][q];
+        for (let x = 0; x < k; x++) {
+          const sx = factor * g[x];
+          mean[x] += w * sx;
+          for (let y = 0; y < k; y++) block[x][y] += w * sx * factor * g[y];
+        }
+      }
+      for (let x = 0; x < k; x++) {
+        for (let y = 0; y < k; y++) block[x][y] -= mean[x] * mean[y];
+      }
+    }
+  }
+  return missing;
+}
+
+function positiveDiagonal(matrix: number[][] | null): number[][] | null {
+  return matrix && matrix.every((row, i) => row[i] > 0) ? matrix : null;
+}
+
+/**
+ * Fit item parameters for all items with enough responses.
+ */
+export function calibrateIrt(responses: DichotomousResponse[], options: CalibrationOptions): CalibrationResult {
+  const {
+    model,
+    quadraturePoints = 41,
+    maxIterations = 200,
+    tolerance = 1e-3,
+    minResponses = 20,
+  } = options;
+
+  // Response counts per item decide which items can be calibrated
+  const counts = new Map<string, { n: number; correct: number }>();
+  for (const r of responses) {
+    const count = counts.get(r.itemId) ?? { n: 0, correct: 0 };
+    count.n++;
+    if (r.correct) count.correct++;
+    counts.set(r.itemId, count);
+  }
+
+  const excluded: { itemId: string; reason: string }[] = [];
+  const itemIds: string[] = [];
+  for (const [itemId, { n, correct }] of counts) {
+    if (n < minResponses) excluded.push({ itemId, reason: `Only ${n} responses (needs ${minResponses})` });
+    else if (correct === 0) excluded.push({ itemId, reason: 'No correct responses' });
+    else if (correct === n) excluded.push({ itemId, reason: 'Every response correct' });
+    else itemIds.push(itemId);
+  }
+  const itemIndex = new Map(itemIds.map((id, i) => [id, i]));
+
+  const byExaminee = new Map<string, { item: number; u: number }[]>();
+  for (const r of responses) {
+    const item = itemIndex.get(r.itemId);
+    if (item === undefined) continue;
+    const list = byExaminee.get(r.examineeId) ?? [];
+    list.push({ item, u: r.correct ? 1 : 0 });
+    byExaminee.set(r.examineeId, list);
+  }
+  const examinees = [...byExaminee.values()];
+
+  const { nodes, weights } = quadrature(quadraturePoints);
+  const logWeights = weights.map(Math.log);
+  const Q = nodes.length;
+
+  let params: IrtItemParameters[] = itemIds.map(id => {
+    const { n, correct } = counts.get(id);
+    const p = Math.min(0.95, Math.max(0.05, correct / n));
+    return { a: 1, b: -logit(p), c: model === '3PL' ? 0.2 : 0 };
+  });
+  let vectors = params.map(p => toVector(model, p));
+
+  let r: Float64Array[] = [];
+  let n: Float64Array[] = [];
+  let logLikelihood = 0;
+  let iterations = 0;
+  let converged = false;
+
+  const itemLogs = () => ({
+    logP: params.map(p => nodes.map(t => Math.log(clampProbability(irtProbability(p, t))))),
+    logQ: params.map(p => nodes.map(t => Math.log(clampProbability(1 - irtProbability(p, t))))),
+  });
+
+  /** Posterior over the quadrature nodes for one examinee; returns the log marginal likelihood */
+  const posteriorFor = (
+    answers: { item: number; u: number }[],
+    { logP, logQ }: ReturnType<typeof itemLogs>,
+    posterior: Float64Array
+  ): number => {
+    let max = -Infinity;
+    for (let q = 0; q < Q; q++) {
+      let value = logWeights[q];
+      for (const { item, u } of answers) value += u ? logP[item][q] : logQ[item][q];
+      posterior[q] = value;
+      if (value > max) max = value;
+    }
+    let total = 0;
+    for (let q = 0; q < Q; q++) {
+      posterior[q] = Math.exp(posterior[q] - max);
+      total += posterior[q];
+    }
+    for (let q = 0; q < Q; q++) posterior[q] /= total;
+    return max + Math.log(total);
+  };
+
+  const eStep = () => {
+    const logs = itemLogs();
+    r = itemIds.map(() => new Float64Array(Q));
+    n = itemIds.map(() => new Float64Array(Q));
+    logLikelihood = 0;
+
+    const posterior = new Float64Array(Q);
+    for (const answers of examinees) {
+      logLikelihood += posteriorFor(answers, logs, posterior);
+      for (const { item, u } of answers) {
+        const ni = n[item];
+        const ri = r[item];
+        for (let q = 0; q < Q; q++) {
+          ni[q] += posterior[q];
+          if (u) ri[q] += posterior[q];
+        }
+      }
+    }
+  };
+
+  while (iterations < maxIterations && itemIds.length > 0) {
+    iterations++;
+    eStep();
+
+    let maxChange = 0;
+    vectors = vectors.map((v, i) => {
+      const next = maximizeItem(x => itemObjective(model, x, nodes, r[i], n[i]), v);
+      const before = toParams(model, v);
+      const after = toParams(model, next);
+      maxChange = Math.max(maxChange, Math.abs(after.a - before.a), Math.abs(after.b - before.b), Math.abs(after.c - before.c));
+      return next;
+    });
+    params = vectors.map(v => toParams(model, v));
+
+    if (maxChange < tolerance) {
+      converged = true;
+      break;
+    }
+  }
+
+  // Final expected counts at the converged parameters, for standard errors and fit
+  if (itemIds.length > 0) eStep();
+
+  const missing = itemIds.length > 0 ? missingInformation(model, params, examinees, nodes, itemLogs(), posteriorFor) : [];
+
+  const items = itemIds.map((itemId, i): IrtItemEstimate => {
+    const { hessian } = derivatives(x => itemObjective(model, x, nodes, r[i], n[i]), vectors[i]);
+    // Louis' identity: observed information = complete-data information − missing information
+    const complete = hessian.map(row => row.map(x => -x));
+    const observed = complete.map((row, j) => row.map((x, k) => x - missing[i][j][k]));
+    const covariance = positiveDiagonal(invert(observed)) ?? invert(complete);
+    const se = (k: number) => (covariance && covariance[k][k] > 0 ? Math.sqrt(covariance[k][k]) : NaN);
+    const p = params[i];
+    const { n: count, correct } = counts.get(itemId);
+
+    let seA: number | null = null;
+    let seB: number;
+    let seC: number | null = null;
+    if (model === '1PL') {
+      seB = se(0);
+    } else {
+      seA = p.a * se(0);
+      seB = se(1);
+      if (model === '3PL') seC = p.c * (1 - p.c) * se(2);
+    }
+
+    return { itemId, ...p, seA, seB, seC, responseCount: count, pValue: correct / count };
+  });
+
+  const parameterCount = itemIds.length * (model === '1PL' ? 1 : model === '2PL' ? 2 : 3);
+  return {
+    model,
+    items,
+    excluded,
+    examineeCount: examinees.length,
+    iterations,
+    converged,
+    logLikelihood,
+    aic: -2 * logLikelihood + 2 * parameterCount,
+    bic: -2 * logLikelihood + parameterCount * Math.log(Math.max(1, examinees.length)),
+  };
+}
+
+/** Difficulty label implied by the calibrated b parameter */
+export function difficultyFromB(b: number): 'Easy' | 'Average' | 'Difficult' {
+  if (b < -0.5) return 'Easy';
+  if (b > 0.5) return 'Difficult';
+  return 'Average';
+}
+
+/**
+ * Marginal reliability of a test: 1 − E[SE²(θ)] over a standard-normal ability
+ * distribution. Unlike Spearman–Brown it reflects where the items measure, not
+ * just how many there are. `scale` multiplies the information, e.g. to project
+ * a test of a different length from the same kind of items.
+ */
+export function marginalReliability(items: IrtItemParameters[], scale = 1, quadraturePoints = 41): number {
+  if (items.length === 0) return 0;
+  const { nodes, weights } = quadrature(quadraturePoints);
+  let errorVariance = 0;
+  nodes.forEach((theta, q) => {
+    errorVariance += weights[q] / Math.max(scale * testInformation(items, theta), 1e-6);
+  });
+  return Math.max(0, 1 - errorVariance);
+}
+
+export interface ImportedIrtParameters extends IrtItemParameters {
+  questionId: string;
+  model: IrtModel;
+}
+
+const CSV_COLUMNS = ['question_id', 'a', 'b', 'c', 'model'] as const;
+
+/**
+ * Read item parameters from CSV text with a `question_id,a,b[,c][,model]` header.
+ * A missing a defaults to 1 and a missing c to 0; without a model column the
+ * model is inferred from which parameters are free. Bad rows are reported by
+ * line number and skipped.
+ */
+export function parseIrtParameterCsv(text: string): { rows: ImportedIrtParameters[]; errors: string[] } {
+  const { data } = Papa.parse<string[]>(text.trim(), { skipEmptyLines: true });
+  const errors: string[] = [];
+  if (data.length === 0) return { rows: [], errors: ['The file is empty'] };
+
+  const header = data[0].map(cell => String(cell).trim().toLowerCase());
+  const column = Object.fromEntries(CSV_COLUMNS.map(name => [name, header.indexOf(name)])) as Record<
+    (typeof CSV_COLUMNS)[number],
+    number
+  >;
+  if (column.question_id < 0 || column.b < 0) {
+    return { rows: [], errors: ['Header must include question_id and b columns'] };
+  }
+
+  const rows: ImportedIrtParameters[] = [];
+  data.slice(1).forEach((cells, i) => {
+    const line = i + 2;
+    const cell = (index: number) => (index >= 0 ? String(cells[index] ?? '').trim() : '');
+    const number = (index: number, fallback: number) => (cell(index) === '' ? fallback : Number(cell(index)));
+
+    const questionId = cell(column.question_id);
+    const a = number(column.a, 1);
+    const b = number(column.b, NaN);
+    const c = number(column.c, 0);
+    if (!questionId) {
+      errors.push(`Line ${line}: missing question_id`);
+      return;
+    }
+    if (![a, b, c].every(Number.isFinite) || a <= 0 || c < 0 || c >= 1) {
+      errors.push(`Line ${line}: invalid parameters for ${questionId}`);
+      return;
+    }
+
+    const declared = cell(column.model).toUpperCase();
+    if (declared && !IRT_MODELS.includes(declared as IrtModel)) {
+      errors.push(`Line ${line}: unknown model ${declared}`);
+      return;
+    }
+    const model: IrtModel = (declared as IrtModel) || (c > 0 ? '3PL' : a !== 1 ? '2PL' : '1PL');
+    rows.push({ questionId, model, a, b, c });
+  });
+
+  return { rows, errors };
+}
@@ -1,10 +1,28 @@
 import { supabase } from '@/integrations/supabase/client';
+import {
+  OptionStatistics,
+  ScoredResponseMatrix,
+  analyzeItems,
+  analyzeOptions,
+  analyzeTestReliability,
+} from './statistics';
+import { isMultipleChoice, parseTestItems, resolveOptionLetter } from './testItems';
 
 export interface ItemStatistics {
+  /** Display label, e.g. "Item 3" */
+  label: string;
+  itemNumber: number;
+  questionId: string | null;
+  /** p-value (proportion of the max score earned) */
   difficulty: number;
+  /** Upper-lower 27% discrimination index */
   discrimination: number;
+  /** Corrected (item-rest) point-biserial */
   pointBiserial: number;
+  /** Cronbach's alpha of the test with this item removed */
   reliability: number;
+  upperGroupP: number;
+  lowerGroupP: number;
   sampleSize: number;
 }
 
@@ -12,22 +30,79 @@ export interface TestReliability {
   cronbachAlpha: number;
   splitHalf: number;
   kuderRichardson20: number;
+  kuderRichardson21: number;
+  /** Standard error of measurement in raw score points */
   standardError: number;
+  meanScore: number;
+  standardDeviation: number;
+  examineeCount: number;
 }
 
 export interface PsychometricReport {
   testId: string;
   overallReliability: TestReliability;
   itemStatistics: Record<string, ItemStatistics>;
+  /** Validity evidence is not derivable from responses alone; null until an external study is recorded */
   validityMeasures: {
-    contentValidity: number;
-    constructValidity: number;
-    criterionValidity: number;
+    contentValidity: number | null;
+    constructValidity: number | null;
+    criterionValidity: number | null;
   };
   recommendations: string[];
   analysisDate: string;
 }
 
+export interface DifficultyDistribution {
+  veryEasy: number;
+  easy: number;
+  moderate: number;
+  hard: number;
+  veryHard: number;
+}
+
+export interface ItemDistractorAnalysis {
+  itemNumber: number;
+  questionId: string | null;
+  questionText: string;
+  choices: Record<string, string>;
+  keyOption: string | null;
+  options: OptionStatistics[];
+  /** Proportion of examinees who left the item blank or gave an unreadable response */
+  omitted: number;
+  sampleSize: number;
+}
+
+interface ItemResponseRow {
+  assignment_id: string;
+  item_number: number;
+  question_id: string | null;
+  response?: string | null;
+  score: number;
+  max_score: number;
+}
+
+interface SummaryMetrics {
+  split_half?: number;
+  kr20?: number;
+  kr21?: number;
+  sem?: number;
+  mean_score?: number;
+  standard_deviation?: number;
+  item_count?: number;
+  recommendations?: string[];
+}
+
+interface ItemMetrics {
+  item_number?: number;
+  label?: string;
+  upper_p?: number;
+  lower_p?: number;
+}
+
+const MIN_EXAMINEES = 2;
+// PostgREST returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+
 export class ItemAnalyzer {
   private static instance: ItemAnalyzer;
 
@@ -38,80 +113,116 @@ export class ItemAnalyzer {
     return ItemAnalyzer.instance;
   }
 
-  async analyzeTest(testId: string, responses: any[]): Promise<PsychometricReport> {
-    console.log('Analyzing test psychometrics:', testId);
-    
-    // Calculate item statistics for each question
-    const itemStatistics: Record<string, ItemStatistics> = {};
-    
-    // Mock data for demonstration - in real implementation, this would analyze actual student responses
-    const mockQuestions = ['q1', 'q2', 'q3', 'q4', 'q5'];
-    
-    for (const questionId of mockQuestions) {
-      itemStatistics[questionId] = await this.calculateItemStatistics(questionId, responses);
+  /**
+   * Run classical item analysis for one generated_tests version and persist the results.
+   * The response matrix is loaded from item_responses unless one is supplied.
+   */
+  async analyzeTest(testId: string, matrix?: ScoredResponseMatrix): Promise<PsychometricReport> {
+    const responses = matrix ?? await this.loadResponseMatrix(testId);
+
+    if (responses.examineeIds.length < MIN_EXAMINEES || responses.itemNumbers.length === 0) {
+      throw new Error('Not enough scored responses to analyze this test version');
     }
 
-    // Calculate overall test reliability
-    const overallReliability = await this.calculateTestReliability(responses);
-    
-    // Calculate validity measures
-    const validityMeasures = await this.calculateValidityMeasures(testId);
-    
-    // Generate recommendations
-    const recommendations = this.generateRecommendations(itemStatistics, overallReliability);
+    const report = this.buildReport(testId, responses);
+    await this.storeAnalysis(report);
+    return report;
+  }
 
-    const report: PsychometricReport = {
-      testId,
-      overallReliability,
-      itemStatistics,
-      validityMeasures,
-      recommendations,
-      analysisDate: new Date().toISOString()
-    };
+  /**
+   * Build the examinee × item score matrix for a test version.
+   * Items are columns ordered by item number; a missing response scores 0.
+   */
+  async loadResponseMatrix(testId: string): Promise<ScoredResponseMatrix> {
+    return ItemAnalyzer.toMatrix(await this.loadResponseRows(testId, 'assignment_id, item_number, question_id, score, max_score'));
+  }
 
-    // Store in database
-    await this.storeAnalysis(report);
+  /** Every item_responses row of a test version, a page at a time */
+  private async loadResponseRows(testId: string, columns: string): Promise<ItemResponseRow[]> {
+    const rows: ItemResponseRow[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('item_responses')
+        .select(columns)
+        .eq('test_id', testId)
+        .order('id', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+      if (error) throw error;
 
-    return report;
+      rows.push(...((data ?? []) as unknown as ItemResponseRow[]));
+      if (!data || data.length < PAGE_SIZE) return rows;
+    }
   }
 
-  private async calculateItemStatistics(questionId: string, responses: any[]): Promise<ItemStatistics> {
-    // Simulate psychometric calculations
-    const difficulty = Math.random() * 0.4 + 0.3; // 0.3 to 0.7 (ideal range)
-    const discrimination = Math.random() * 0.6 + 0.2; // 0.2 to 0.8
-    const pointBiserial = Math.random() * 0.5 + 0.2; // 0.2 to 0.7
-    const reliability = Math.random() * 0.3 + 0.7; // 0.7 to 1.0
-    const sampleSize = responses.length || Math.floor(Math.random() * 100) + 50;
+  static toMatrix(rows: ItemResponseRow[]): ScoredResponseMatrix {
+    const itemNumbers = [...new Set(rows.map(r => r.item_number))].sort((a, b) => a - b);
+    const examineeIds = [...new Set(rows.map(r => r.assignment_id))];
+    const column = new Map(itemNumbers.map((n, j) => [n, j]));
+    const rowIndex = new Map(examineeIds.map((id, i) => [id, i]));
+
+    const questionIds: (string | null)[] = itemNumbers.map(() => null);
+    const maxScores = itemNumbers.map(() => 1);
+    const scores: (number | null)[][] = examineeIds.map(() => itemNumbers.map(() => null));
+
+    for (const r of rows) {
+      const j = column.get(r.item_number)!;
+      scores[rowIndex.get(r.assignment_id)!][j] = Number(r.score);
+      questionIds[j] = questionIds[j] ?? r.question_id;
+      maxScores[j] = Math.max(maxScores[j], Number(r.max_score) || 1);
+    }
 
     return {
-      difficulty,
-      discrimination,
-      pointBiserial,
-      reliability,
-      sampleSize
+      itemNumbers,
+      questionIds,
+      itemLabels: itemNumbers.map(n => `Item ${n}`),
+      examineeIds,
+      scores,
+      maxScores,
     };
   }
 
-  private async calculateTestReliability(responses: any[]): Promise<TestReliability> {
-    // Simulate reliability calculations
-    return {
-      cronbachAlpha: Math.random() * 0.2 + 0.8, // 0.8 to 1.0
-      splitHalf: Math.random() * 0.25 + 0.75, // 0.75 to 1.0
-      kuderRichardson20: Math.random() * 0.2 + 0.78, // 0.78 to 0.98
-      standardError: Math.random() * 0.1 + 0.02 // 0.02 to 0.12
+  private buildReport(testId: string, matrix: ScoredResponseMatrix): PsychometricReport {
+    const test = analyzeTestReliability(matrix);
+    const items = analyzeItems(matrix);
+
+    const itemStatistics: Record<string, ItemStatistics> = {};
+    for (const item of items) {
+      itemStatistics[item.label] = {
+        label: item.label,
+        itemNumber: item.itemNumber,
+        questionId: item.questionId,
+        difficulty: item.pValue,
+        discrimination: item.discrimination,
+        pointBiserial: item.correctedPointBiserial,
+        reliability: item.alphaIfDeleted,
+        upperGroupP: item.upperP,
+        lowerGroupP: item.lowerP,
+        sampleSize: item.responseCount,
+      };
+    }
+
+    const overallReliability: TestReliability = {
+      cronbachAlpha: test.cronbachAlpha,
+      splitHalf: test.splitHalf,
+      kuderRichardson20: test.kr20,
+      kuderRichardson21: test.kr21,
+      standardError: test.sem,
+      meanScore: test.meanScore,
+      standardDeviation: test.standardDeviation,
+      examineeCount: test.examineeCount,
     };
-  }
 
-  private async calculateValidityMeasures(testId: string): Promise<{
-    contentValidity: number;
-    constructValidity: number;
-    criterionValidity: number;
-  }> {
-    // Simulate validity calculations
     return {
-      contentValidity: Math.random() * 0.15 + 0.85, // 0.85 to 1.0
-      constructValidity: Math.random() * 0.2 + 0.75, // 0.75 to 0.95
-      criterionValidity: Math.random() * 0.25 + 0.70 // 0.70 to 0.95
+      testId,
+      overallReliability,
+      itemStatistics,
+      validityMeasures: {
+        contentValidity: null,
+        constructValidity: null,
+        criterionValidity: null,
+      },
+      recommendations: this.generateRecommendations(itemStatistics, overallReliability),
+      analysisDate: new Date().toISOString(),
     };
   }
 
@@ -121,19 +232,23 @@ export class ItemAnalyzer {
   ): string[] {
     const recommendations: string[] = [];
 
+    if (reliability.examineeCount < 30) {
+      recommendations.push(`Small sample (n=${reliability.examineeCount}); treat item statistics as provisional`);
+    }
+
     // Check overall reliability
-    if (reliability.cronbachAlpha < 0.8) {
-      recommendations.push('Consider revising items to improve internal consistency (Cronbach\'s α < 0.8)');
+    if (reliability.cronbachAlpha < 0.7) {
+      recommendations.push('Consider revising items to improve internal consistency (Cronbach\'s α < 0.7)');
     }
 
     // Check item difficulty distribution
     const difficulties = Object.values(itemStats).map(stat => stat.difficulty);
     const avgDifficulty = difficulties.reduce((sum, d) => sum + d, 0) / difficulties.length;
-    
+
     if (avgDifficulty < 0.3) {
-      recommendations.push('Test may be too difficult (average difficulty < 0.3)');
+      recommendations.push('Test may be too difficult (average p-value < 0.3)');
     } else if (avgDifficulty > 0.7) {
-      recommendations.push('Test may be too easy (average difficulty > 0.7)');
+      recommendations.push('Test may be too easy (average p-value > 0.7)');
     }
 
     // Check discrimination indices
@@ -142,7 +257,7 @@ export class ItemAnalyzer {
       .map(([id, _]) => id);
 
     if (poorDiscriminationItems.length > 0) {
-      recommendations.push(`Review items with poor discrimination: ${poorDiscriminationItems.join(', ')}`);
+      recommendations.push(`Review items with poor discrimination (D < 0.2): ${poorDiscriminationItems.join(', ')}`);
     }
 
     // Check point-biserial correlations
@@ -154,79 +269,232 @@ export class ItemAnalyzer {
       recommendations.push(`Consider revising items with low point-biserial correlation: ${poorCorrelationItems.join(', ')}`);
     }
 
+    // Items whose removal would raise alpha
+    const alphaRaisingItems = Object.entries(itemStats)
+      .filter(([_, stats]) => stats.reliability > reliability.cronbachAlpha + 0.01)
+      .map(([id, _]) => id);
+
+    if (alphaRaisingItems.length > 0) {
+      recommendations.push(`Removing these items would increase Cronbach's α: ${alphaRaisingItems.join(', ')}`);
+    }
+
     return recommendations;
   }
 
   private async storeAnalysis(report: PsychometricReport): Promise<void> {
-    try {
-      // Store overall analysis
-      console.log('Storing psychometric analysis:', {
-        test_id: report.testId,
-        analysis_type: 'comprehensive',
-        reliability_coefficient: report.overallReliability.cronbachAlpha,
-        validity_score: (
-          report.validityMeasures.contentValidity +
-          report.validityMeasures.constructValidity +
-          report.validityMeasures.criterionValidity
-        ) / 3,
-        sample_size: Object.values(report.itemStatistics)[0]?.sampleSize || 0
-      });
+    const { data: { user } } = await supabase.auth.getUser();
+    const r = report.overallReliability;
+
+    const summary = {
+      test_id: report.testId,
+      analysis_type: 'test_summary',
+      analysis_date: report.analysisDate,
+      analyzed_by: user?.id ?? null,
+      reliability_coefficient: r.cronbachAlpha,
+      sample_size: r.examineeCount,
+      metrics: {
+        split_half: r.splitHalf,
+        kr20: r.kuderRichardson20,
+        kr21: r.kuderRichardson21,
+        sem: r.standardError,
+        mean_score: r.meanScore,
+        standard_deviation: r.standardDeviation,
+        item_count: Object.keys(report.itemStatistics).length,
+        recommendations: report.recommendations,
+      },
+    };
+
+    const items = Object.values(report.itemStatistics).map(stats => ({
+      test_id: report.testId,
+      question_id: stats.questionId,
+      analysis_type: 'item_analysis',
+      analysis_date: report.analysisDate,
+      analyzed_by: user?.id ?? null,
+      difficulty_index: stats.difficulty,
+      discrimination_index: stats.discrimination,
+      point_biserial_correlation: stats.pointBiserial,
+      reliability_coefficient: stats.reliability,
+      sample_size: stats.sampleSize,
+      metrics: {
+        item_number: stats.itemNumber,
+        label: stats.label,
+        upper_p: stats.upperGroupP,
+        lower_p: stats.lowerGroupP,
+      },
+    }));
 
-      // Store individual item statistics
-      for (const [questionId, stats] of Object.entries(report.itemStatistics)) {
-        console.log('Storing item statistics:', {
-          question_id: questionId,
-          analysis_type: 'item_analysis',
-          difficulty_index: stats.difficulty,
-          discrimination_index: stats.discrimination,
-          point_biserial_correlation: stats.pointBiserial,
-          reliability_coefficient: stats.reliability,
-          sample_size: stats.sampleSize
-        });
-      }
-    } catch (error) {
+    const { error } = await supabase.from('psychometric_analyses').insert([summary, ...items]);
+    if (error) {
       console.error('Error storing psychometric analysis:', error);
+      throw error;
     }
   }
 
-  async getDifficultyDistribution(testId: string): Promise<{
-    veryEasy: number;
-    easy: number;
-    moderate: number;
-    hard: number;
-    veryHard: number;
-  }> {
-    // Simulate difficulty distribution analysis
+  /**
+   * Per-option analysis of every multiple-choice item on a test version.
+   * Option letters are the ones printed on that version, so shuffled versions are analyzed separately.
+   */
+  async analyzeDistractors(testId: string): Promise<ItemDistractorAnalysis[]> {
+    const [{ data: test, error: testError }, responses] = await Promise.all([
+      supabase.from('generated_tests').select('items').eq('id', testId).single(),
+      this.loadResponseRows(testId, 'assignment_id, item_number, question_id, response, score, max_score'),
+    ]);
+
+    if (testError) throw testError;
+
+    const examineeIds = [...new Set(responses.map(r => r.assignment_id))];
+    const totals = new Map<string, number>(examineeIds.map(id => [id, 0]));
+    for (const r of responses) {
+      totals.set(r.assignment_id, totals.get(r.assignment_id)! + Number(r.score));
+    }
+
+    const byItem = new Map<number, Map<string, ItemResponseRow>>();
+    for (const r of responses) {
+      if (!byItem.has(r.item_number)) byItem.set(r.item_number, new Map());
+      byItem.get(r.item_number)!.set(r.assignment_id, r);
+    }
+
+    const totalScores = examineeIds.map(id => totals.get(id)!);
+
+    return parseTestItems(test?.items)
+      .filter(item => isMultipleChoice(item.questionType) && Object.keys(item.choices).length > 0)
+      .map(item => {
+        const itemRows = byItem.get(item.itemNumber) ?? new Map<string, ItemResponseRow>();
+        const selections = examineeIds.map(id => resolveOptionLetter(itemRows.get(id)?.response, item.choices));
+        const restScores = examineeIds.map((id, i) => totalScores[i] - Number(itemRows.get(id)?.score ?? 0));
+
+        // Fall back to the scored responses when the stored key is missing or unreadable
+        const keyOption = item.correctAnswer ?? examineeIds
+          .map((id, i) => ({ row: itemRows.get(id), selection: selections[i] }))
+          .find(({ row, selection }) => selection && row && Number(row.score) >= Number(row.max_score))?.selection ?? null;
+
+        const options = Object.keys(item.choices).sort();
+        return {
+          itemNumber: item.itemNumber,
+          questionId: item.questionId,
+          questionText: item.questionText,
+          choices: item.choices,
+          keyOption,
+          options: analyzeOptions(selections, restScores, totalScores, options, keyOption),
+          omitted: examineeIds.length ? selections.filter(s => s == null).length / examineeIds.length : 0,
+          sampleSize: examineeIds.length,
+        };
+      })
+      .sort((a, b) => a.itemNumber - b.itemNumber);
+  }
+
+  /**
+   * Rebuild the most recent stored report for a test version, or null if none has been run.
+   */
+  async getLatestReport(testId: string): Promise<PsychometricReport | null> {
+    const { data: summary, error } = await supabase
+      .from('psychometric_analyses')
+      .select('*')
+      .eq('test_id', testId)
+      .eq('analysis_type', 'test_summary')
+      .order('analysis_date', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!summary) return null;
+
+    const { data: itemRows, error: itemError } = await supabase
+      .from('psychometric_analyses')
+      .select('*')
+      .eq('test_id', testId)
+      .eq('analysis_type', 'item_analysis')
+      .eq('analysis_date', summary.analysis_date);
+
+    if (itemError) throw itemError;
+
+    const metrics = (summary.metrics ?? {}) as SummaryMetrics;
+    const itemStatistics: Record<string, ItemStatistics> = {};
+    (itemRows ?? [])
+      .map(row => ({ row, m: (row.metrics ?? {}) as ItemMetrics }))
+      .sort((a, b) => (a.m.item_number ?? 0) - (b.m.item_number ?? 0))
+      .forEach(({ row, m }, j) => {
+        const label = m.label ?? `Item ${m.item_number ?? j + 1}`;
+        itemStatistics[label] = {
+          label,
+          itemNumber: m.item_number ?? j + 1,
+          questionId: row.question_id,
+          difficulty: Number(row.difficulty_index ?? 0),
+          discrimination: Number(row.discrimination_index ?? 0),
+          pointBiserial: Number(row.point_biserial_correlation ?? 0),
+          reliability: Number(row.reliability_coefficient ?? 0),
+          upperGroupP: Number(m.upper_p ?? 0),
+          lowerGroupP: Number(m.lower_p ?? 0),
+          sampleSize: row.sample_size ?? 0,
+        };
+      });
+
     return {
-      veryEasy: Math.floor(Math.random() * 10), // 0.8-1.0 difficulty
-      easy: Math.floor(Math.random() * 15) + 5, // 0.6-0.8 difficulty
-      moderate: Math.floor(Math.random() * 20) + 10, // 0.4-0.6 difficulty
-      hard: Math.floor(Math.random() * 15) + 5, // 0.2-0.4 difficulty
-      veryHard: Math.floor(Math.random() * 10) // 0.0-0.2 difficulty
+      testId,
+      overallReliability: {
+        cronbachAlpha: Number(summary.reliability_coefficient ?? 0),
+        splitHalf: Number(metrics.split_half ?? 0),
+        kuderRichardson20: Number(metrics.kr20 ?? 0),
+        kuderRichardson21: Number(metrics.kr21 ?? 0),
+        standardError: Number(metrics.sem ?? 0),
+        meanScore: Number(metrics.mean_score ?? 0),
+        standardDeviation: Number(metrics.standard_deviation ?? 0),
+        examineeCount: summary.sample_size ?? 0,
+      },
+      itemStatistics,
+      validityMeasures: {
+        contentValidity: null,
+        constructValidity: null,
+        criterionValidity: summary.validity_score != null ? Number(summary.validity_score) : null,
+      },
+      recommendations: Array.isArray(metrics.recommendations) ? metrics.recommendations : [],
+      analysisDate: summary.analysis_date,
     };
   }
 
+  /**
+   * Bucket the latest stored item p-values for a test version.
+   */
+  async getDifficultyDistribution(testId: string): Promise<DifficultyDistribution> {
+    const distribution: DifficultyDistribution = { veryEasy: 0, easy: 0, moderate: 0, hard: 0, veryHard: 0 };
+    const report = await this.getLatestReport(testId);
+    if (!report) return distribution;
+
+    for (const { difficulty } of Object.values(report.itemStatistics)) {
+      if (difficulty >= 0.8) distribution.veryEasy++;
+      else if (difficulty >= 0.6) distribution.easy++;
+      else if (difficulty >= 0.4) distribution.moderate++;
+      else if (difficulty >= 0.2) distribution.hard++;
+      else distribution.veryHard++;
+    }
+    return distribution;
+  }
+
+  /**
+   * Reliability of the last `periods` stored analyses of a test version, oldest first.
+   */
   async getReliabilityTrends(testId: string, periods: number = 6): Promise<{
     dates: string[];
     cronbachAlpha: number[];
     splitHalf: number[];
   }> {
-    // Simulate reliability trends over time
-    const dates: string[] = [];
-    const cronbachAlpha: number[] = [];
-    const splitHalf: number[] = [];
-
-    for (let i = periods - 1; i >= 0; i--) {
-      const date = new Date();
-      date.setMonth(date.getMonth() - i);
-      dates.push(date.toISOString().split('T')[0]);
-      
-      cronbachAlpha.push(Math.random() * 0.15 + 0.8);
-      splitHalf.push(Math.random() * 0.2 + 0.75);
-    }
+    const { data, error } = await supabase
+      .from('psychometric_analyses')
+      .select('analysis_date, reliability_coefficient, metrics')
+      .eq('test_id', testId)
+      .eq('analysis_type', 'test_summary')
+      .order('analysis_date', { ascending: false })
+      .limit(periods);
+
+    if (error) throw error;
 
-    return { dates, cronbachAlpha, splitHalf };
+    const rows = [...(data ?? [])].reverse();
+    return {
+      dates: rows.map(r => r.analysis_date),
+      cronbachAlpha: rows.map(r => Number(r.reliability_coefficient ?? 0)),
+      splitHalf: rows.map(r => Number(((r.metrics ?? {}) as SummaryMetrics).split_half ?? 0)),
+    };
   }
 }
 
-export const itemAnalyzer = ItemAnalyzer.getInstance();
\ No newline at end of file
+export const itemAnalyzer = ItemAnalyzer.getInstance();
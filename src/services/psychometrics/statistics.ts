@@ -0,0 +1,370 @@
+/**
+ * Classical Test Theory statistics over a scored response matrix.
+ *
+ * All functions are pure: rows are examinees, columns are items, and each cell
+ * holds the score earned on that item (0/1 for objective items, partial credit
+ * allowed up to the item's max score). Variances use the population form (÷ n)
+ * so KR-20 and coefficient alpha agree on dichotomous data.
+ */
+
+export interface ScoredResponseMatrix {
+  /** Position of each item on the test version (1-based) */
+  itemNumbers: number[];
+  /** Bank question behind each item, when known */
+  questionIds: (string | null)[];
+  /** Display labels, e.g. "Item 12" */
+  itemLabels: string[];
+  /** Examinee identifiers (test_assignments.id) */
+  examineeIds: string[];
+  /** scores[examinee][item]; null means the item was not answered and scores 0 */
+  scores: (number | null)[][];
+  /** Maximum attainable score per item */
+  maxScores: number[];
+}
+
+export interface ClassicalItemStatistics {
+  itemNumber: number;
+  questionId: string | null;
+  label: string;
+  /** p-value: mean proportion of the max score earned */
+  pValue: number;
+  /** Proportion correct in the upper 27% by total score */
+  upperP: number;
+  /** Proportion correct in the lower 27% by total score */
+  lowerP: number;
+  /** Upper-lower discrimination index D = upperP - lowerP */
+  discrimination: number;
+  /** Point-biserial against the total score with this item removed */
+  correctedPointBiserial: number;
+  /** Coefficient alpha of the test with this item removed */
+  alphaIfDeleted: number;
+  /** Number of examinees who answered the item */
+  responseCount: number;
+}
+
+export interface ClassicalTestStatistics {
+  examineeCount: number;
+  itemCount: number;
+  meanScore: number;
+  standardDeviation: number;
+  cronbachAlpha: number;
+  kr20: number;
+  kr21: number;
+  /** Odd-even split corrected with Spearman-Brown */
+  splitHalf: number;
+  /** Standard error of measurement, SD * sqrt(1 - alpha) */
+  sem: number;
+  /** True when every item is scored 0/1, which KR-20/21 assume */
+  dichotomous: boolean;
+}
+
+export const UPPER_LOWER_FRACTION = 0.27;
+
+export function mean(values: number[]): number {
+  if (values.length === 0) return 0;
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+export function variance(values: number[]): number {
+  if (values.length === 0) return 0;
+  const m = mean(values);
+  return values.reduce((sum, v) => sum + (v - m) ** 2, 0) / values.length;
+}
+
+export function pearson(x: number[], y: number[]): number {
+  const n = Math.min(x.length, y.length);
+  if (n < 2) return 0;
+  const mx = mean(x.slice(0, n));
+  const my = mean(y.slice(0, n));
+  let sxy = 0, sxx = 0, syy = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = x[i] - mx;
+    const dy = y[i] - my;
+    sxy += dx * dy;
+    sxx += dx * dx;
+    syy += dy * dy;
+  }
+  if (sxx === 0 || syy === 0) return 0;
+  return sxy / Math.sqrt(sxx * syy);
+}
+
+function logGamma(x: number): number {
+  // Lanczos approximation (g = 7, n = 9)
+  const c = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+    -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+    1.5056327351493116e-7,
+  ];
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  const z = x - 1;
+  let sum = c[0];
+  for (let i = 1; i < 9; i++) sum += c[i] / (z + i);
+  const t = z + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+/** Continued fraction for the incomplete beta function (modified Lentz) */
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const tiny = 1e-30;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  d = 1 / (Math.abs(d) < tiny ? tiny : d);
+  let h = d;
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 / (Math.abs(1 + aa * d) < tiny ? tiny : 1 + aa * d);
+    c = Math.abs(1 + aa / c) < tiny ? tiny : 1 + aa / c;
+    h *= d * c;
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 / (Math.abs(1 + aa * d) < tiny ? tiny : 1 + aa * d);
+    c = Math.abs(1 + aa / c) < tiny ? tiny : 1 + aa / c;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-12) break;
+  }
+  return h;
+}
+
+/** Regularized incomplete beta function I_x(a, b) */
+export function incompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(x, a, b)) / a
+    : 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+}
+
+/** Cumulative Student t distribution */
+export function studentTCdf(t: number, df: number): number {
+  const tail = 0.5 * incompleteBeta(df / (df + t * t), df / 2, 0.5);
+  return t >= 0 ? 1 - tail : tail;
+}
+
+export interface TostResult {
+  /** Mean of the first sample minus mean of the second */
+  difference: number;
+  standardError: number;
+  degreesOfFreedom: number;
+  /** One-sided p-values against the lower and upper equivalence bounds */
+  pLower: number;
+  pUpper: number;
+  /** The larger of the two; equivalence is shown when it is below alpha */
+  pValue: number;
+  equivalent: boolean;
+}
+
+export interface SampleSummary {
+  mean: number;
+  /** Sample variance (n − 1 denominator) */
+  variance: number;
+  n: number;
+}
+
+/**
+ * Two one-sided tests (Welch) that the difference of means lies within
+ * ±margin, from sample summaries. Both samples need at least two values.
+ */
+export function welchTostFromSummary(a: SampleSummary, b: SampleSummary, margin: number, alpha = 0.05): TostResult {
+  const va = a.variance / a.n;
+  const vb = b.variance / b.n;
+  const difference = a.mean - b.mean;
+  const standardError = Math.sqrt(va + vb);
+
+  if (standardError === 0) {
+    const equivalent = Math.abs(difference) < margin;
+    const p = equivalent ? 0 : 1;
+    return { difference, standardError, degreesOfFreedom: a.n + b.n - 2, pLower: p, pUpper: p, pValue: p, equivalent };
+  }
+
+  const degreesOfFreedom = (va + vb) ** 2 / (va ** 2 / (a.n - 1) + vb ** 2 / (b.n - 1));
+  const pLower = 1 - studentTCdf((difference + margin) / standardError, degreesOfFreedom);
+  const pUpper = studentTCdf((difference - margin) / standardError, degreesOfFreedom);
+  const pValue = Math.max(pLower, pUpper);
+  return { difference, standardError, degreesOfFreedom, pLower, pUpper, pValue, equivalent: pValue < alpha };
+}
+
+/** Welch TOST on two samples of raw values */
+export function welchTost(a: number[], b: number[], margin: number, alpha = 0.05): TostResult {
+  const summary = (values: number[]): SampleSummary => ({
+    mean: mean(values),
+    variance: (variance(values) * values.length) / (values.length - 1),
+    n: values.length,
+  });
+  return welchTostFromSummary(summary(a), summary(b), margin, alpha);
+}
+
+/**
+ * Coefficient alpha for a set of item columns.
+ * Returns 0 when there are fewer than two items or no total-score variance.
+ */
+export function cronbachAlpha(columns: number[][]): number {
+  const k = columns.length;
+  if (k < 2) return 0;
+  const n = columns[0]?.length ?? 0;
+  const totals = Array.from({ length: n }, (_, i) => columns.reduce((s, col) => s + col[i], 0));
+  const totalVariance = variance(totals);
+  if (totalVariance === 0) return 0;
+  const itemVariance = columns.reduce((s, col) => s + variance(col), 0);
+  return (k / (k - 1)) * (1 - itemVariance / totalVariance);
+}
+
+function filledScores(matrix: ScoredResponseMatrix): number[][] {
+  return matrix.scores.map(row => row.map(v => (v == null || Number.isNaN(v) ? 0 : v)));
+}
+
+function columnsOf(rows: number[][], itemCount: number): number[][] {
+  return Array.from({ length: itemCount }, (_, j) => rows.map(row => row[j]));
+}
+
+/**
+ * Indices of the upper and lower groups (27% each by default) ranked by total score.
+ */
+export function upperLowerGroups(totals: number[], fraction = UPPER_LOWER_FRACTION): { upper: number[]; lower: number[] } {
+  const n = totals.length;
+  const size = Math.max(1, Math.round(n * fraction));
+  const order = totals.map((t, i) => ({ t, i })).sort((a, b) => b.t - a.t || a.i - b.i);
+  return {
+    upper: order.slice(0, size).map(o => o.i),
+    lower: order.slice(-size).map(o => o.i),
+  };
+}
+
+export function analyzeItems(matrix: ScoredResponseMatrix): ClassicalItemStatistics[] {
+  const rows = filledScores(matrix);
+  const k = matrix.itemNumbers.length;
+  const columns = columnsOf(rows, k);
+  const totals = rows.map(row => row.reduce((a, b) => a + b, 0));
+  const { upper, lower } = upperLowerGroups(totals);
+
+  return matrix.itemNumbers.map((itemNumber, j) => {
+    const max = matrix.maxScores[j] || 1;
+    const column = columns[j];
+    const proportion = (indices: number[]) =>
+      indices.length ? mean(indices.map(i => column[i])) / max : 0;
+
+    const restTotals = totals.map((t, i) => t - column[i]);
+    const others = columns.filter((_, idx) => idx !== j);
+
+    const upperP = proportion(upper);
+    const lowerP = proportion(lower);
+
+    return {
+      itemNumber,
+      questionId: matrix.questionIds[j] ?? null,
+      label: matrix.itemLabels[j] ?? `Item ${itemNumber}`,
+      pValue: mean(column) / max,
+      upperP,
+      lowerP,
+      discrimination: upperP - lowerP,
+      correctedPointBiserial: pearson(column, restTotals),
+      alphaIfDeleted: cronbachAlpha(others),
+      responseCount: matrix.scores.filter(row => row[j] != null).length,
+    };
+  });
+}
+
+export function analyzeTestReliability(matrix: ScoredResponseMatrix): ClassicalTestStatistics {
+  const rows = filledScores(matrix);
+  const k = matrix.itemNumbers.length;
+  const n = rows.length;
+  const columns = columnsOf(rows, k);
+  const totals = rows.map(row => row.reduce((a, b) => a + b, 0));
+  const totalVariance = variance(totals);
+  const meanScore = mean(totals);
+  const sd = Math.sqrt(totalVariance);
+
+  const dichotomous = matrix.maxScores.every(m => m === 1) &&
+    rows.every(row => row.every(v => v === 0 || v === 1));
+
+  const alpha = cronbachAlpha(columns);
+
+  // KR-20 uses item p*q, which for 0/1 items equals the item variance
+  let kr20 = 0;
+  let kr21 = 0;
+  if (k > 1 && totalVariance > 0) {
+    const pq = columns.reduce((s, col) => {
+      const p = mean(col);
+      return s + p * (1 - p);
+    }, 0);
+    kr20 = (k / (k - 1)) * (1 - pq / totalVariance);
+    kr21 = (k / (k - 1)) * (1 - (meanScore * (k - meanScore)) / (k * totalVariance));
+  }
+
+  // Odd-even split-half with Spearman-Brown correction
+  const odd = rows.map(row => row.reduce((s, v, j) => (j % 2 === 0 ? s + v : s), 0));
+  const even = rows.map(row => row.reduce((s, v, j) => (j % 2 === 1 ? s + v : s), 0));
+  const halfCorrelation = pearson(odd, even);
+  const splitHalf = halfCorrelation > -1 ? (2 * halfCorrelation) / (1 + halfCorrelation) : 0;
+
+  return {
+    examineeCount: n,
+    itemCount: k,
+    meanScore,
+    standardDeviation: sd,
+    cronbachAlpha: alpha,
+    kr20: dichotomous ? kr20 : alpha,
+    kr21: dichotomous ? kr21 : alpha,
+    splitHalf,
+    sem: sd * Math.sqrt(Math.max(0, 1 - alpha)),
+    dichotomous,
+  };
+}
+
+export interface OptionStatistics {
+  option: string;
+  isKey: boolean;
+  /** Proportion of all examinees choosing this option */
+  proportion: number;
+  upperProportion: number;
+  lowerProportion: number;
+  /** Correlation of choosing this option with the rest score (total minus this item) */
+  pointBiserial: number;
+  /** Distractor chosen by fewer than NON_FUNCTIONING_THRESHOLD of examinees */
+  nonFunctioning: boolean;
+  /** Distractor chosen more by the upper group than the lower group, or positively correlated with score */
+  attractsHighScorers: boolean;
+}
+
+export const NON_FUNCTIONING_THRESHOLD = 0.05;
+
+/**
+ * Option-level analysis for one multiple-choice item.
+ *
+ * `selections[i]` is the option examinee i chose (null when omitted) and
+ * `restScores[i]` their total score excluding this item. Upper and lower
+ * groups are the same 27% groups used for item discrimination.
+ */
+export function analyzeOptions(
+  selections: (string | null)[],
+  restScores: number[],
+  totals: number[],
+  options: string[],
+  keyOption: string | null
+): OptionStatistics[] {
+  const n = selections.length;
+  const { upper, lower } = upperLowerGroups(totals);
+  const share = (indices: number[], option: string) =>
+    indices.length ? indices.filter(i => selections[i] === option).length / indices.length : 0;
+
+  return options.map(option => {
+    const indicator = selections.map(s => (s === option ? 1 : 0));
+    const proportion = n ? indicator.reduce((a, b) => a + b, 0) / n : 0;
+    const upperProportion = share(upper, option);
+    const lowerProportion = share(lower, option);
+    const pointBiserial = pearson(indicator, restScores);
+    const isKey = option === keyOption;
+
+    return {
+      option,
+      isKey,
+      proportion,
+      upperProportion,
+      lowerProportion,
+      pointBiserial,
+      nonFunctioning: !isKey && proportion < NON_FUNCTIONING_THRESHOLD,
+      attractsHighScorers: !isKey && proportion > 0 && (upperProportion > lowerProportion || pointBiserial > 0),
+    };
+  });
+}
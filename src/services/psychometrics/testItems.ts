@@ -0,0 +1,102 @@
+/**
+ * Normalizes the `items` JSON stored on generated_tests.
+ *
+ * Generators have written several shapes over time (format-aware sections,
+ * legacy multi-version questions, array or record choices), so anything that
+ * reads a stored test should go through here instead of poking at the JSON.
+ */
+
+import { NumericChoices, isMatchingChoices, isNumericChoices } from '@/types/questionTypes';
+import { QuestionAttachment, parseQuestionAttachments } from '@/types/attachments';
+
+export interface TestItem {
+  itemNumber: number;
+  questionId: string | null;
+  questionType: string;
+  questionText: string;
+  /** Choices keyed by the letter shown on this version (A, B, C, ...); matching responses for matching */
+  choices: Record<string, string>;
+  /** Numbered premises of a matching item */
+  premises?: string[];
+  /** Tolerance and unit of a numeric item */
+  numeric?: NumericChoices;
+  /** Correct option letter for choice items, raw answer text otherwise */
+  correctAnswer: string | null;
+  points: number;
+  /** Images shown with the stem or a choice */
+  attachments?: QuestionAttachment[];
+}
+
+const MCQ_TYPES = new Set(['mcq', 'multiple_choice', 'multiple choice', 'multiple-choice']);
+
+export function isMultipleChoice(questionType: string | null | undefined): boolean {
+  return MCQ_TYPES.has((questionType ?? '').trim().toLowerCase());
+}
+
+export function optionLetter(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+/**
+ * Lettered options of any stored choices shape. Matching choices give their
+ * responses; numeric specs have no options.
+ */
+export function normalizeChoices(choices: unknown): Record<string, string> {
+  if (isMatchingChoices(choices)) return normalizeChoices(choices.responses);
+  if (isNumericChoices(choices)) return {};
+  if (Array.isArray(choices)) {
+    return Object.fromEntries(choices.map((text, i) => [optionLetter(i), String(text)]));
+  }
+  if (choices && typeof choices === 'object') {
+    return Object.fromEntries(
+      Object.entries(choices as Record<string, unknown>).map(([key, text]) => [key.trim().toUpperCase(), String(text)])
+    );
+  }
+  return {};
+}
+
+/**
+ * Resolve a response or key to an option letter: accepts a letter ("b", "B.")
+ * or the full option text. Returns null when it matches neither.
+ */
+export function resolveOptionLetter(value: unknown, choices: Record<string, string>): string | null {
+  if (value == null) return null;
+  const raw = String(value).trim();
+  if (!raw) return null;
+
+  const letter = raw.replace(/[.)]$/, '').toUpperCase();
+  if (letter in choices) return letter;
+
+  const lowered = raw.toLowerCase();
+  const match = Object.entries(choices).find(([, text]) => text.trim().toLowerCase() === lowered);
+  return match ? match[0] : null;
+}
+
+export function parseTestItems(items: unknown): TestItem[] {
+  if (!Array.isArray(items)) return [];
+
+  return items.map((raw, index) => {
+    const item = (raw ?? {}) as Record<string, unknown>;
+    const questionType = String(item.question_type ?? item.type ?? '');
+    const rawChoices = item.choices ?? item.options;
+    const choices = normalizeChoices(rawChoices);
+    const rawAnswer = item.correct_answer ?? item.correctAnswer ?? null;
+    const attachments = parseQuestionAttachments(item.attachments);
+    const correctAnswer = isMultipleChoice(questionType)
+      ? resolveOptionLetter(rawAnswer, choices)
+      : rawAnswer == null ? null : String(rawAnswer);
+
+    return {
+      itemNumber: Number(item.question_number ?? item.number) || index + 1,
+      questionId: typeof item.id === 'string' ? item.id : typeof item.question_id === 'string' ? item.question_id : null,
+      questionType,
+      questionText: String(item.question_text ?? item.text ?? ''),
+      choices,
+      correctAnswer,
+      points: Number(item.points) || 1,
+      ...(isMatchingChoices(rawChoices) ? { premises: rawChoices.premises.map(String) } : {}),
+      ...(isNumericChoices(rawChoices) ? { numeric: rawChoices } : {}),
+      ...(attachments.length ? { attachments } : {}),
+    };
+  });
+}
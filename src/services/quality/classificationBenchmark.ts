@@ -0,0 +1,144 @@
+/**
+ * Runs every classification path over a gold-standard set and scores each
+ * against the expert labels. The browser classifiers run locally; the
+ * classify-questions edge function is called in batches of its request limit.
+ */
+import { classifyQuestion } from '@/services/ai/classify';
+import { RuleBasedClassifier } from '@/services/ai/ruleBasedClassifier';
+import { mlClassifier } from '@/services/ai/mlClassifier';
+import { classifyQuestions } from '@/services/edgeFunctions';
+import type { BenchmarkClassifier, NewBenchmarkResult } from '@/services/db/classificationBenchmarks';
+import { GOLD_FIELDS, GoldItem, normalizeGoldLabel } from './goldStandard';
+import { LabelledPrediction, scoreField } from './classificationMetrics';
+
+export const BENCHMARK_CLASSIFIERS: BenchmarkClassifier[] = ['classify_bloom', 'rule_based', 'ml_classifier', 'edge_function'];
+
+/** Version recorded for paths driven by keyword rules rather than trained weights */
+export const HEURISTIC_VERSION = 'keyword-heuristics';
+
+/** classify-questions rejects larger requests */
+const EDGE_BATCH = 100;
+
+interface ClassifierOutput {
+  bloom_level: string;
+  knowledge_dimension: string;
+  difficulty: string;
+  confidence: number;
+}
+
+interface ClassifierRun {
+  version: string;
+  /** Aligned with the gold items; null where the classifier failed */
+  outputs: Array<ClassifierOutput | null>;
+}
+
+async function runEdgeFunction(items: GoldItem[]): Promise<ClassifierRun> {
+  const outputs: Array<ClassifierOutput | null> = [];
+  for (let i = 0; i < items.length; i += EDGE_BATCH) {
+    const batch = items.slice(i, i + EDGE_BATCH);
+    try {
+      const results = await classifyQuestions(
+        batch.map(item => ({ text: item.question_text, type: item.question_type, topic: item.topic ?? undefined }))
+      );
+      outputs.push(...batch.map((_, j) => results[j] ?? null));
+    } catch (error) {
+      console.error('classify-questions failed during benchmark:', error);
+      outputs.push(...batch.map(() => null));
+    }
+  }
+  return { version: HEURISTIC_VERSION, outputs };
+}
+
+async function runMlClassifier(items: GoldItem[]): Promise<ClassifierRun> {
+  await mlClassifier.reloadModels();
+  let versions: Record<string, string> = {};
+  const outputs: Array<ClassifierOutput | null> = [];
+  for (const item of items) {
+    try {
+      const result = await mlClassifier.classifyQuestion({
+        text: item.question_text,
+        type: item.question_type,
+        topic: item.topic ?? undefined,
+      });
+      versions = { ...versions, ...result.model_versions };
+      outputs.push(result);
+    } catch {
+      outputs.push(null);
+    }
+  }
+
+  // e.g. "bloom_level v3, difficulty v1"; heuristics fill the fields not listed
+  const trained = GOLD_FIELDS.filter(field => versions[field]).map(field => `${field} ${versions[field]}`);
+  return { version: trained.length ? trained.join(', ') : HEURISTIC_VERSION, outputs };
+}
+
+async function runClassifier(classifier: BenchmarkClassifier, items: GoldItem[]): Promise<ClassifierRun> {
+  switch (classifier) {
+    // classifyBloom with the knowledge, difficulty and confidence rules around it
+    case 'classify_bloom':
+      return {
+        version: HEURISTIC_VERSION,
+        outputs: items.map(item => classifyQuestion(item.question_text, item.question_type, item.topic ?? undefined)),
+      };
+    case 'rule_based':
+      return {
+        version: HEURISTIC_VERSION,
+        outputs: items.map(item => {
+          const result = RuleBasedClassifier.classifyQuestion(item.question_text, item.question_type, item.topic ?? undefined);
+          return {
+            bloom_level: result.bloomLevel,
+            knowledge_dimension: result.knowledgeDimension,
+            difficulty: result.difficulty,
+            confidence: result.confidence,
+          };
+        }),
+      };
+    case 'ml_classifier':
+      return runMlClassifier(items);
+    case 'edge_function':
+      return runEdgeFunction(items);
+  }
+}
+
+/**
+ * Scores one classifier's outputs: each field is compared only on the items
+ * the experts labelled for it, with the classifier's overall confidence.
+ */
+export function scoreRun(items: GoldItem[], outputs: Array<ClassifierOutput | null>): NewBenchmarkResult['metrics'] {
+  const metrics: NewBenchmarkResult['metrics'] = {};
+  for (const field of GOLD_FIELDS) {
+    const predictions: LabelledPrediction[] = [];
+    items.forEach((item, i) => {
+      const output = outputs[i];
+      if (!item[field] || !output) return;
+      predictions.push({
+        expected: item[field]!,
+        // Unknown labels are kept as given so they count as wrong
+        predicted: normalizeGoldLabel(field, output[field]) ?? String(output[field] ?? 'none'),
+        confidence: Number(output.confidence) || 0,
+      });
+    });
+    if (predictions.length) metrics[field] = scoreField(predictions);
+  }
+  return metrics;
+}
+
+export async function runClassificationBenchmark(
+  items: GoldItem[],
+  classifiers: BenchmarkClassifier[] = BENCHMARK_CLASSIFIERS,
+  onProgress?: (classifier: BenchmarkClassifier) => void
+): Promise<NewBenchmarkResult[]> {
+  const results: NewBenchmarkResult[] = [];
+  for (const classifier of classifiers) {
+    onProgress?.(classifier);
+    const { version, outputs } = await runClassifier(classifier, items);
+    results.push({
+      classifier,
+      classifier_version: version,
+      item_count: items.length,
+      failed_count: outputs.filter(o => !o).length,
+      metrics: scoreRun(items, outputs),
+    });
+  }
+  return results;
+}
@@ -0,0 +1,133 @@
+/**
+ * Agreement and calibration of a classifier against expert labels: accuracy,
+ * macro-F1, Cohen's kappa and a reliability diagram with its expected
+ * calibration error (ECE). Pure functions over label pairs so every
+ * classifier path is scored the same way.
+ */
+import type { ClassMetrics } from '../../../supabase/functions/_shared/textClassifier';
+
+export interface LabelledPrediction {
+  /** Expert label */
+  expected: string;
+  predicted: string;
+  /** Confidence the classifier reported, 0–1 */
+  confidence: number;
+}
+
+export interface ReliabilityBin {
+  lower: number;
+  upper: number;
+  count: number;
+  /** Mean reported confidence of the predictions in the bin; null when empty */
+  mean_confidence: number | null;
+  /** Share of the predictions in the bin that matched the expert; null when empty */
+  accuracy: number | null;
+}
+
+export interface FieldBenchmark {
+  size: number;
+  accuracy: number;
+  macro_f1: number;
+  kappa: number;
+  ece: number;
+  /** Mean reported confidence; above accuracy means the classifier is overconfident */
+  mean_confidence: number;
+  reliability: ReliabilityBin[];
+  per_class: Record<string, ClassMetrics>;
+  /** matrix[expected][predicted], both indexed by labels */
+  confusion_matrix: { labels: string[]; matrix: number[][] };
+}
+
+export const DEFAULT_RELIABILITY_BINS = 10;
+
+function confusion(pairs: Array<{ expected: string; predicted: string }>) {
+  const labels = [...new Set(pairs.flatMap(p => [p.expected, p.predicted]))].sort();
+  const position = new Map(labels.map((label, i) => [label, i]));
+  const matrix = labels.map(() => labels.map(() => 0));
+  for (const { expected, predicted } of pairs) {
+    matrix[position.get(expected)!][position.get(predicted)!]++;
+  }
+  return { labels, matrix };
+}
+
+/**
+ * Chance-corrected agreement between two raters (here: the experts and a
+ * classifier). 1 is perfect agreement, 0 is what chance alone would give.
+ */
+export function cohensKappa(pairs: Array<{ expected: string; predicted: string }>): number {
+  const n = pairs.length;
+  if (!n) return 0;
+  const { matrix } = confusion(pairs);
+  const observed = matrix.reduce((sum, row, i) => sum + row[i], 0) / n;
+  const byChance = matrix.reduce((sum, row, i) => {
+    const rowTotal = row.reduce((a, b) => a + b, 0);
+    const columnTotal = matrix.reduce((a, r) => a + r[i], 0);
+    return sum + (rowTotal * columnTotal) / (n * n);
+  }, 0);
+  if (byChance === 1) return observed === 1 ? 1 : 0;
+  return (observed - byChance) / (1 - byChance);
+}
+
+/**
+ * Groups predictions into equal-width confidence bins and compares each bin's
+ * mean confidence with its accuracy. ECE is the gap weighted by bin size.
+ */
+export function reliabilityDiagram(
+  predictions: Array<{ confidence: number; correct: boolean }>,
+  binCount = DEFAULT_RELIABILITY_BINS
+): { bins: ReliabilityBin[]; ece: number } {
+  const totals = Array.from({ length: binCount }, () => ({ count: 0, confidence: 0, correct: 0 }));
+  for (const { confidence, correct } of predictions) {
+    const c = Math.min(1, Math.max(0, Number.isFinite(confidence) ? confidence : 0));
+    const bin = totals[Math.min(binCount - 1, Math.floor(c * binCount))];
+    bin.count++;
+    bin.confidence += c;
+    if (correct) bin.correct++;
+  }
+
+  let ece = 0;
+  const bins = totals.map((t, i) => {
+    const meanConfidence = t.count ? t.confidence / t.count : null;
+    const accuracy = t.count ? t.correct / t.count : null;
+    if (t.count) ece += (t.count / predictions.length) * Math.abs(accuracy! - meanConfidence!);
+    return { lower: i / binCount, upper: (i + 1) / binCount, count: t.count, mean_confidence: meanConfidence, accuracy };
+  });
+  return { bins, ece };
+}
+
+/** Every metric for one classification field */
+export function scoreField(predictions: LabelledPrediction[], binCount = DEFAULT_RELIABILITY_BINS): FieldBenchmark {
+  const { labels, matrix } = confusion(predictions);
+
+  const perClass: Record<string, ClassMetrics> = {};
+  labels.forEach((label, i) => {
+    const truePositives = matrix[i][i];
+    const predictedCount = matrix.reduce((sum, row) => sum + row[i], 0);
+    const support = matrix[i].reduce((sum, v) => sum + v, 0);
+    const precision = predictedCount ? truePositives / predictedCount : 0;
+    const recall = support ? truePositives / support : 0;
+    const f1 = precision + recall ? (2 * precision * recall) / (precision + recall) : 0;
+    perClass[label] = { precision, recall, f1, support };
+  });
+
+  // Macro averages run over the labels the experts used, so a label the
+  // classifier invents only costs precision on the real ones
+  const expertLabels = labels.filter(label => perClass[label].support > 0);
+  const correct = predictions.filter(p => p.expected === p.predicted).length;
+  const { bins, ece } = reliabilityDiagram(
+    predictions.map(p => ({ confidence: p.confidence, correct: p.expected === p.predicted })),
+    binCount
+  );
+
+  return {
+    size: predictions.length,
+    accuracy: predictions.length ? correct / predictions.length : 0,
+    macro_f1: expertLabels.length ? expertLabels.reduce((sum, label) => sum + perClass[label].f1, 0) / expertLabels.length : 0,
+    kappa: cohensKappa(predictions),
+    ece,
+    mean_confidence: predictions.length ? predictions.reduce((sum, p) => sum + p.confidence, 0) / predictions.length : 0,
+    reliability: bins,
+    per_class: perClass,
+    confusion_matrix: { labels, matrix },
+  };
+}
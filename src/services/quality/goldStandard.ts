@@ -0,0 +1,124 @@
+/**
+ * Reading gold-standard classification sets: questions with the Bloom's
+ * level, knowledge dimension and difficulty expert raters gave them.
+ * Accepts CSV with a header row or JSON (an array, or { items: [...] }).
+ */
+import Papa from 'papaparse';
+
+export type GoldField = 'bloom_level' | 'knowledge_dimension' | 'difficulty';
+
+export const GOLD_FIELDS: GoldField[] = ['bloom_level', 'knowledge_dimension', 'difficulty'];
+
+export type GoldQuestionType = 'mcq' | 'true_false' | 'essay' | 'short_answer';
+
+export interface GoldItem {
+  question_text: string;
+  question_type: GoldQuestionType;
+  topic: string | null;
+  bloom_level: string | null;
+  knowledge_dimension: string | null;
+  difficulty: string | null;
+}
+
+export interface GoldParseResult {
+  items: GoldItem[];
+  /** 1-based row numbers with why each was left out */
+  skipped: Array<{ row: number; reason: string }>;
+}
+
+const BLOOM_LEVELS = ['remembering', 'understanding', 'applying', 'analyzing', 'evaluating', 'creating'];
+const KNOWLEDGE_DIMENSIONS = ['factual', 'conceptual', 'procedural', 'metacognitive'];
+const DIFFICULTY_LABELS: Record<string, string> = {
+  easy: 'easy',
+  average: 'average',
+  medium: 'average',
+  moderate: 'average',
+  difficult: 'difficult',
+  hard: 'difficult',
+};
+const QUESTION_TYPES: Record<string, GoldQuestionType> = {
+  mcq: 'mcq',
+  multiple_choice: 'mcq',
+  true_false: 'true_false',
+  tf: 'true_false',
+  essay: 'essay',
+  short_answer: 'short_answer',
+  identification: 'short_answer',
+};
+
+/** Column names accepted for each field, after lower-casing and underscoring */
+const COLUMN_ALIASES: Record<keyof GoldItem, string[]> = {
+  question_text: ['question_text', 'text', 'question', 'stem'],
+  question_type: ['question_type', 'type'],
+  topic: ['topic'],
+  bloom_level: ['bloom_level', 'bloom', 'cognitive_level'],
+  knowledge_dimension: ['knowledge_dimension', 'knowledge', 'kd'],
+  difficulty: ['difficulty'],
+};
+
+/** Canonical label, or null when the value is empty or not a known label */
+export function normalizeGoldLabel(field: GoldField, value: unknown): string | null {
+  const v = String(value ?? '').trim().toLowerCase();
+  if (!v) return null;
+  if (field === 'bloom_level') return BLOOM_LEVELS.find(level => level.slice(0, 5) === v.slice(0, 5)) ?? null;
+  if (field === 'knowledge_dimension') return KNOWLEDGE_DIMENSIONS.includes(v) ? v : null;
+  return DIFFICULTY_LABELS[v] ?? null;
+}
+
+const columnKey = (name: string) => name.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+function pick(record: Record<string, unknown>, field: keyof GoldItem): unknown {
+  const keys = new Map(Object.keys(record).map(key => [columnKey(key), key]));
+  const alias = COLUMN_ALIASES[field].find(a => keys.has(a));
+  return alias ? record[keys.get(alias)!] : undefined;
+}
+
+function toItems(records: Record<string, unknown>[]): GoldParseResult {
+  const items: GoldItem[] = [];
+  const skipped: GoldParseResult['skipped'] = [];
+
+  records.forEach((record, i) => {
+    const row = i + 1;
+    const text = String(pick(record, 'question_text') ?? '').trim();
+    if (!text) {
+      skipped.push({ row, reason: 'No question text' });
+      return;
+    }
+
+    const labels = Object.fromEntries(GOLD_FIELDS.map(field => [field, normalizeGoldLabel(field, pick(record, field))])) as
+      Record<GoldField, string | null>;
+    const unknown = GOLD_FIELDS.filter(field => String(pick(record, field) ?? '').trim() && !labels[field]);
+    if (unknown.length) {
+      skipped.push({ row, reason: `Unrecognised ${unknown.map(f => f.replace('_', ' ')).join(', ')}` });
+      return;
+    }
+    if (GOLD_FIELDS.every(field => !labels[field])) {
+      skipped.push({ row, reason: 'No expert labels' });
+      return;
+    }
+
+    const type = columnKey(String(pick(record, 'question_type') ?? ''));
+    const topic = String(pick(record, 'topic') ?? '').trim();
+    items.push({
+      question_text: text,
+      question_type: QUESTION_TYPES[type] ?? 'mcq',
+      topic: topic || null,
+      ...labels,
+    });
+  });
+
+  return { items, skipped };
+}
+
+export function parseGoldStandard(content: string, fileName = ''): GoldParseResult {
+  const trimmed = content.trim();
+  if (fileName.toLowerCase().endsWith('.json') || trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    const parsed = JSON.parse(trimmed);
+    const records = Array.isArray(parsed) ? parsed : parsed?.items;
+    if (!Array.isArray(records)) throw new Error('Expected a JSON array of labelled questions or { "items": [...] }');
+    return toItems(records.filter(r => r && typeof r === 'object'));
+  }
+
+  const { data } = Papa.parse<Record<string, unknown>>(trimmed, { header: true, skipEmptyLines: true });
+  return toItems(data);
+}
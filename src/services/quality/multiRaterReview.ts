@@ -0,0 +1,166 @@
+/**
+ * Multi-rater classification review: spreading questions across faculty
+ * raters, and inter-rater agreement per topic (Fleiss' kappa) and per rater
+ * (Cohen's kappa).
+ */
+import { cohensKappa } from './classificationMetrics';
+import { BLOOM_LEVELS } from '@/utils/tosCalculator';
+
+export type ReviewField = 'bloom_level' | 'knowledge_dimension';
+
+export const REVIEW_FIELDS: ReviewField[] = ['bloom_level', 'knowledge_dimension'];
+
+/** Labels a rater chooses from for each field */
+export const REVIEW_LABELS: Record<ReviewField, string[]> = {
+  bloom_level: BLOOM_LEVELS,
+  knowledge_dimension: ['factual', 'conceptual', 'procedural', 'metacognitive'],
+};
+
+/** One submitted rating with the review's outcome */
+export interface RatingRecord {
+  review_id: string;
+  topic: string | null;
+  rater_id: string;
+  bloom_level: string;
+  knowledge_dimension: string;
+  /** Null until the review is resolved */
+  final_bloom_level: string | null;
+  final_knowledge_dimension: string | null;
+}
+
+export interface GroupAgreement {
+  /** Items with at least two ratings */
+  items: number;
+  ratings: number;
+  fleiss_kappa: number;
+  /** Share of items every rater labelled the same */
+  unanimous: number;
+}
+
+export interface RaterAgreement {
+  rater_id: string;
+  ratings: number;
+  /** Against the consensus or adjudicated label, over resolved items */
+  kappa_vs_final: number | null;
+  accuracy_vs_final: number | null;
+  /** Mean Cohen's kappa with each co-rater, weighted by items shared */
+  mean_pairwise_kappa: number | null;
+}
+
+export interface AgreementReport {
+  overall: GroupAgreement;
+  by_topic: Array<GroupAgreement & { topic: string }>;
+  by_rater: RaterAgreement[];
+}
+
+/**
+ * Balanced assignment: each question gets `ratersPerItem` different raters,
+ * always the ones with the fewest assignments so far (ties go to the rater
+ * listed first). `currentLoad` counts ratings raters already have open.
+ */
+export function assignRaters(
+  questionIds: string[],
+  raterIds: string[],
+  ratersPerItem: number,
+  currentLoad: Record<string, number> = {}
+): Array<{ question_id: string; rater_ids: string[] }> {
+  const raters = [...new Set(raterIds)];
+  if (raters.length < ratersPerItem) {
+    throw new Error(`Need at least ${ratersPerItem} raters; ${raters.length} selected`);
+  }
+
+  const load = new Map(raters.map(id => [id, currentLoad[id] ?? 0]));
+  return questionIds.map(questionId => {
+    const chosen = [...raters]
+      .sort((a, b) => load.get(a)! - load.get(b)! || raters.indexOf(a) - raters.indexOf(b))
+      .slice(0, ratersPerItem);
+    chosen.forEach(id => load.set(id, load.get(id)! + 1));
+    return { question_id: questionId, rater_ids: chosen };
+  });
+}
+
+/**
+ * Fleiss' kappa over items that each carry the labels their raters gave.
+ * Items may have different numbers of raters; items with fewer than two are
+ * skipped.
+ */
+export function fleissKappa(items: string[][]): number {
+  const rated = items.filter(labels => labels.length >= 2);
+  if (!rated.length) return 0;
+
+  const categoryTotals = new Map<string, number>();
+  let totalRatings = 0;
+  let observed = 0;
+  for (const labels of rated) {
+    const counts = new Map<string, number>();
+    labels.forEach(label => counts.set(label, (counts.get(label) ?? 0) + 1));
+    const n = labels.length;
+    const agreeingPairs = [...counts.values()].reduce((sum, c) => sum + c * (c - 1), 0);
+    observed += agreeingPairs / (n * (n - 1));
+    counts.forEach((c, label) => categoryTotals.set(label, (categoryTotals.get(label) ?? 0) + c));
+    totalRatings += n;
+  }
+
+  observed /= rated.length;
+  const byChance = [...categoryTotals.values()].reduce((sum, c) => sum + (c / totalRatings) ** 2, 0);
+  if (byChance === 1) return observed === 1 ? 1 : 0;
+  return (observed - byChance) / (1 - byChance);
+}
+
+function groupAgreement(byReview: Map<string, RatingRecord[]>, field: ReviewField): GroupAgreement {
+  const items = [...byReview.values()].map(ratings => ratings.map(r => r[field])).filter(labels => labels.length >= 2);
+  return {
+    items: items.length,
+    ratings: items.reduce((sum, labels) => sum + labels.length, 0),
+    fleiss_kappa: fleissKappa(items),
+    unanimous: items.length ? items.filter(labels => new Set(labels).size === 1).length / items.length : 0,
+  };
+}
+
+function groupByReview(ratings: RatingRecord[]): Map<string, RatingRecord[]> {
+  const byReview = new Map<string, RatingRecord[]>();
+  ratings.forEach(r => byReview.set(r.review_id, [...(byReview.get(r.review_id) ?? []), r]));
+  return byReview;
+}
+
+export function agreementReport(ratings: RatingRecord[], field: ReviewField): AgreementReport {
+  const finalField = field === 'bloom_level' ? 'final_bloom_level' : 'final_knowledge_dimension';
+  const byReview = groupByReview(ratings);
+
+  const topics = [...new Set(ratings.map(r => r.topic ?? 'No topic'))].sort();
+  const byTopic = topics.map(topic => ({
+    topic,
+    ...groupAgreement(groupByReview(ratings.filter(r => (r.topic ?? 'No topic') === topic)), field),
+  }));
+
+  const raters = [...new Set(ratings.map(r => r.rater_id))];
+  const byRater = raters.map(raterId => {
+    const own = ratings.filter(r => r.rater_id === raterId);
+    const resolved = own.filter(r => r[finalField]);
+    const vsFinal = resolved.map(r => ({ expected: r[finalField]!, predicted: r[field] }));
+
+    // Cohen's kappa with each co-rater over the items both rated
+    let weighted = 0;
+    let shared = 0;
+    for (const other of raters.filter(id => id !== raterId)) {
+      const pairs = own.flatMap(r => {
+        const theirs = byReview.get(r.review_id)!.find(o => o.rater_id === other);
+        return theirs ? [{ expected: theirs[field], predicted: r[field] }] : [];
+      });
+      if (pairs.length) {
+        weighted += cohensKappa(pairs) * pairs.length;
+        shared += pairs.length;
+      }
+    }
+
+    return {
+      rater_id: raterId,
+      ratings: own.length,
+      kappa_vs_final: vsFinal.length ? cohensKappa(vsFinal) : null,
+      accuracy_vs_final: vsFinal.length ? vsFinal.filter(p => p.expected === p.predicted).length / vsFinal.length : null,
+      mean_pairwise_kappa: shared ? weighted / shared : null,
+    };
+  });
+
+  return { overall: groupAgreement(byReview, field), by_topic: byTopic, by_rater: byRater };
+}
@@ -0,0 +1,323 @@
+/**
+ * Answer-sheet scoring for objective items (mcq, true_false, fill_blank,
+ * matching, ordering, multiple_response, numeric).
+ *
+ * A version key is built from one generated_tests row: the printed items, the
+ * version's answer_key and its question_order. Responses are scored against the
+ * letters printed on that version, then mapped back to the canonical bank
+ * question (and its unshuffled option letter) so analyses can pool versions.
+ */
+
+import Papa from 'papaparse';
+import { normalizeChoices, parseTestItems, resolveOptionLetter } from '@/services/psychometrics/testItems';
+import { NumericChoices, answerLetters, formatLetters, isLetterListKind } from '@/types/questionTypes';
+import { letterListCredit, numericCredit } from './itemScoring';
+
+export type ObjectiveType = 'mcq' | 'true_false' | 'fill_blank' | 'matching' | 'ordering' | 'multiple_response' | 'numeric';
+
+export interface AnswerKeyItem {
+  itemNumber: number;
+  questionId: string | null;
+  questionType: ObjectiveType;
+  /** Choices as printed on this version */
+  choices: Record<string, string>;
+  /**
+   * Option letter for mcq, 'T' / 'F' for true_false, accepted text for fill_blank,
+   * comma-separated letters for matching, ordering and multiple_response, the number for numeric
+   */
+  correctAnswer: string | null;
+  points: number;
+  /** Tolerance and unit of a numeric item */
+  numeric?: NumericChoices | null;
+  /** Printed option letter → option letter on the canonical bank question */
+  toCanonical: Record<string, string>;
+}
+
+export interface VersionAnswerKey {
+  testId: string;
+  versionLabel: string | null;
+  items: AnswerKeyItem[];
+}
+
+export interface StoredTestVersion {
+  id: string;
+  version_label?: string | null;
+  items: unknown;
+  answer_key: unknown;
+  question_order?: unknown;
+}
+
+export interface ScoredItem {
+  itemNumber: number;
+  questionId: string | null;
+  /** Normalized response as printed on the version (letter, T/F or text) */
+  response: string | null;
+  /** Response expressed against the canonical question */
+  canonicalResponse: string | null;
+  score: number;
+  maxScore: number;
+  /** null when the key is missing and the item cannot be scored */
+  isCorrect: boolean | null;
+}
+
+/** Characters that mean "left blank" in a compact answer string */
+const BLANK_MARKS = new Set(['-', '.', '_', '*', '?']);
+
+const TYPE_ALIASES: Record<string, ObjectiveType> = {
+  'mcq': 'mcq',
+  'multiple_choice': 'mcq',
+  'multiple choice': 'mcq',
+  'multiple-choice': 'mcq',
+  'true_false': 'true_false',
+  'true-false': 'true_false',
+  'truefalse': 'true_false',
+  'true/false': 'true_false',
+  'fill_blank': 'fill_blank',
+  'fill-blank': 'fill_blank',
+  'fill in the blank': 'fill_blank',
+  'short_answer': 'fill_blank',
+  'identification': 'fill_blank',
+  'matching': 'matching',
+  'matching_type': 'matching',
+  'ordering': 'ordering',
+  'sequencing': 'ordering',
+  'multiple_response': 'multiple_response',
+  'multiple-response': 'multiple_response',
+  'multi_select': 'multiple_response',
+  'numeric': 'numeric',
+  'numerical': 'numeric',
+};
+
+export function objectiveType(questionType: string | null | undefined): ObjectiveType | null {
+  return TYPE_ALIASES[(questionType ?? '').trim().toLowerCase()] ?? null;
+}
+
+/** Items answered by shading one bubble; the rest are written on the test paper */
+export function isBubbled(type: ObjectiveType): boolean {
+  return type === 'mcq' || type === 'true_false';
+}
+
+export function normalizeTrueFalse(value: unknown, choices: Record<string, string> = {}): 'T' | 'F' | null {
+  if (value == null) return null;
+  let raw = String(value).trim();
+  const letter = raw.replace(/[.)]$/, '').toUpperCase();
+  // Printed as lettered options, e.g. { A: 'True', B: 'False' }
+  if (letter in choices) raw = choices[letter];
+
+  const lowered = raw.trim().toLowerCase();
+  if (lowered === 't' || lowered === 'true') return 'T';
+  if (lowered === 'f' || lowered === 'false') return 'F';
+  return null;
+}
+
+export function normalizeText(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, ' ').replace(/[.]+$/, '');
+}
+
+function keyValueFor(answerKey: unknown, itemNumber: number, index: number): unknown {
+  if (Array.isArray(answerKey)) {
+    const entry = answerKey.find(e => e && typeof e === 'object' && Number((e as Record<string, unknown>).question_number) === itemNumber)
+      ?? answerKey[index];
+    if (entry && typeof entry === 'object') {
+      const e = entry as Record<string, unknown>;
+      return e.correct_answer ?? e.answer ?? null;
+    }
+    return entry ?? null;
+  }
+  if (answerKey && typeof answerKey === 'object') {
+    const entry = (answerKey as Record<string, unknown>)[String(itemNumber)];
+    if (entry && typeof entry === 'object') {
+      const e = entry as Record<string, unknown>;
+      return e.correct_answer ?? e.answer ?? null;
+    }
+    return entry ?? null;
+  }
+  return null;
+}
+
+function keyQuestionIdFor(answerKey: unknown, itemNumber: number): string | null {
+  const entry = Array.isArray(answerKey)
+    ? answerKey.find(e => e && typeof e === 'object' && Number((e as Record<string, unknown>).question_number) === itemNumber)
+    : answerKey && typeof answerKey === 'object'
+      ? (answerKey as Record<string, unknown>)[String(itemNumber)]
+      : null;
+  const id = entry && typeof entry === 'object' ? (entry as Record<string, unknown>).question_id : null;
+  return typeof id === 'string' ? id : null;
+}
+
+/**
+ * Map printed option letters to the canonical question's letters by matching option text.
+ * Letters without a textual match map to themselves.
+ */
+export function canonicalChoiceMap(
+  printed: Record<string, string>,
+  canonical: Record<string, string> | undefined
+): Record<string, string> {
+  const map: Record<string, string> = {};
+  const byText = new Map(Object.entries(canonical ?? {}).map(([letter, text]) => [normalizeText(text), letter]));
+  for (const [letter, text] of Object.entries(printed)) {
+    map[letter] = byText.get(normalizeText(text)) ?? letter;
+  }
+  return map;
+}
+
+/**
+ * Build the scoring key for one stored test version.
+ * `canonicalChoices` holds the bank choices per question id, used to undo choice shuffling.
+ */
+export function buildVersionKey(
+  test: StoredTestVersion,
+  canonicalChoices: Record<string, unknown> = {}
+): VersionAnswerKey {
+  const order = Array.isArray(test.question_order) ? test.question_order : [];
+
+  const items = parseTestItems(test.items)
+    .map((item, index): AnswerKeyItem | null => {
+      const type = objectiveType(item.questionType);
+      if (!type) return null;
+
+      const ordered = order[index];
+      const questionId = (typeof ordered === 'string' ? ordered : null)
+        ?? keyQuestionIdFor(test.answer_key, item.itemNumber)
+        ?? item.questionId;
+
+      const keyValue = keyValueFor(test.answer_key, item.itemNumber, index) ?? item.correctAnswer;
+      let correctAnswer: string | null;
+      if (type === 'mcq') {
+        correctAnswer = resolveOptionLetter(keyValue, item.choices);
+      } else if (type === 'true_false') {
+        correctAnswer = normalizeTrueFalse(keyValue, item.choices);
+      } else if (isLetterListKind(type)) {
+        const letters = answerLetters(keyValue);
+        correctAnswer = letters.length ? formatLetters(letters) : null;
+      } else {
+        correctAnswer = keyValue == null || String(keyValue).trim() === '' ? null : String(keyValue);
+      }
+
+      return {
+        itemNumber: item.itemNumber,
+        questionId,
+        questionType: type,
+        choices: item.choices,
+        correctAnswer,
+        points: item.points,
+        numeric: type === 'numeric' ? item.numeric ?? null : undefined,
+        toCanonical: (type === 'mcq' || type === 'ordering' || type === 'multiple_response') && questionId
+          ? canonicalChoiceMap(item.choices, normalizeChoices(canonicalChoices[questionId]))
+          : {},
+      };
+    })
+    .filter((item): item is AnswerKeyItem => item !== null)
+    .sort((a, b) => a.itemNumber - b.itemNumber);
+
+  return { testId: test.id, versionLabel: test.version_label ?? null, items };
+}
+
+export function scoreItem(item: AnswerKeyItem, raw: string | null | undefined): ScoredItem {
+  const text = raw == null ? '' : String(raw).trim();
+  const base = { itemNumber: item.itemNumber, questionId: item.questionId, maxScore: item.points };
+
+  if (!text || BLANK_MARKS.has(text)) {
+    return { ...base, response: null, canonicalResponse: null, score: 0, isCorrect: item.correctAnswer == null ? null : false };
+  }
+
+  let response: string;
+  let canonicalResponse: string;
+  let isCorrect: boolean | null;
+  // Share of the points earned, for the types with partial credit
+  let credit: number | null = null;
+
+  if (item.questionType === 'mcq') {
+    response = resolveOptionLetter(text, item.choices) ?? text.toUpperCase();
+    canonicalResponse = item.toCanonical[response] ?? response;
+    isCorrect = item.correctAnswer == null ? null : response === item.correctAnswer;
+  } else if (item.questionType === 'true_false') {
+    const value = normalizeTrueFalse(text, item.choices);
+    response = value ?? text.toUpperCase();
+    canonicalResponse = response;
+    isCorrect = item.correctAnswer == null ? null : value === item.correctAnswer;
+  } else if (isLetterListKind(item.questionType)) {
+    const letters = answerLetters(text);
+    // Written without separators so the response stays one token of a comma-separated answer string
+    response = letters.join('');
+    canonicalResponse = letters.map(l => item.toCanonical[l] ?? l).join('');
+    if (item.correctAnswer != null) credit = letterListCredit(item.questionType, item.correctAnswer, letters.join(','));
+    isCorrect = credit == null ? null : credit === 1;
+  } else if (item.questionType === 'numeric') {
+    response = text;
+    canonicalResponse = text;
+    if (item.correctAnswer != null) credit = numericCredit(item.correctAnswer, text, item.numeric);
+    isCorrect = credit == null ? null : credit === 1;
+  } else {
+    response = text;
+    canonicalResponse = text;
+    // Alternatives in the key are separated by "|", e.g. "mitochondria|mitochondrion"
+    isCorrect = item.correctAnswer == null
+      ? null
+      : item.correctAnswer.split('|').map(normalizeText).includes(normalizeText(text));
+  }
+
+  const score = credit != null ? Math.round(item.points * credit * 100) / 100 : isCorrect ? item.points : 0;
+  return { ...base, response, canonicalResponse, score, isCorrect };
+}
+
+/**
+ * Split an answer string into one token per objective item.
+ *
+ * Compact strings ("ABCDTF-A") give one character per item, with -, ., _, * or ?
+ * for a blank. Comma-, semicolon- or tab-separated strings give one token per item
+ * and are required when the version has items answered in more than one
+ * character: fill_blank, numeric, and letter lists written as "CAB".
+ */
+export function parseAnswerString(value: string, itemCount: number): (string | null)[] {
+  const trimmed = value.trim();
+  const tokens = /[,;\t]/.test(trimmed)
+    ? trimmed.split(/[,;\t]/).map(t => t.trim())
+    : [...trimmed.replace(/\s+/g, '')];
+
+  return Array.from({ length: itemCount }, (_, i) => {
+    const token = tokens[i];
+    return token && !BLANK_MARKS.has(token) ? token : null;
+  });
+}
+
+/** Inverse of parseAnswerString, choosing the compact form when every answer is one character */
+export function formatAnswerString(answers: (string | null)[]): string {
+  const compact = answers.every(a => a == null || a.length === 1);
+  return compact
+    ? answers.map(a => a ?? '-').join('')
+    : answers.map(a => a ?? '').join(',');
+}
+
+export function scoreAnswerSheet(key: VersionAnswerKey, answers: (string | null)[]): ScoredItem[] {
+  return key.items.map((item, i) => scoreItem(item, answers[i]));
+}
+
+export interface CsvAnswerRow {
+  /** Student id, student name or assignment id as written in the file */
+  studentKey: string;
+  /** Answer string in parseAnswerString form */
+  answers: string;
+}
+
+const HEADER_CELLS = new Set(['student', 'student_id', 'student id', 'id', 'assignment_id', 'name', 'student_name']);
+
+/**
+ * Read answer strings from CSV text. Each row is either `student,answer_string`
+ * or `student,ans1,ans2,...` with one column per objective item; a header row is optional.
+ */
+export function parseAnswerCsv(text: string): CsvAnswerRow[] {
+  const { data } = Papa.parse<string[]>(text.trim(), { skipEmptyLines: true });
+  const rows = data.filter(row => row.length >= 2 && String(row[0]).trim());
+
+  if (rows.length > 0 && HEADER_CELLS.has(String(rows[0][0]).trim().toLowerCase())) {
+    rows.shift();
+  }
+
+  return rows.map(([student, ...answers]) => ({
+    studentKey: String(student).trim(),
+    answers: answers.length === 1
+      ? String(answers[0]).trim()
+      : answers.map(a => String(a ?? '').trim()).join(','),
+  }));
+}
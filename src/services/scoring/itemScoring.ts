@@ -0,0 +1,54 @@
+/**
+ * Scoring rules for the structured question types. Each rule returns the
+ * share of the item's points earned, 0–1.
+ *
+ *   matching           one share per premise answered with the right response
+ *   ordering           one share per step in its correct position
+ *   multiple_response  (right picks − wrong picks) / correct options, never below 0
+ *   numeric            all or nothing: within tolerance, and in the expected unit if one is written
+ */
+
+import { NumericChoices, answerLetters, parseNumericAnswer } from '@/types/questionTypes';
+
+/** Share of positions where the response letter equals the key letter (matching, ordering) */
+export function positionalCredit(key: string[], response: string[]): number {
+  if (key.length === 0) return 0;
+  const right = key.filter((letter, i) => response[i] === letter).length;
+  return right / key.length;
+}
+
+/** Right-minus-wrong credit, so ticking every option earns nothing */
+export function multipleResponseCredit(key: string[], response: string[]): number {
+  if (key.length === 0) return 0;
+  const correct = new Set(key);
+  const picked = new Set(response);
+  let right = 0;
+  let wrong = 0;
+  picked.forEach(letter => (correct.has(letter) ? right++ : wrong++));
+  return Math.max(0, (right - wrong) / correct.size);
+}
+
+export function numericCredit(key: unknown, response: unknown, spec: NumericChoices | null | undefined): number {
+  const expected = parseNumericAnswer(key);
+  const given = parseNumericAnswer(response);
+  if (!expected || !given) return 0;
+
+  const units = (spec?.unit ?? expected.unit).split('|').map(u => u.replace(/\s+/g, '')).filter(Boolean);
+  if (given.unit && units.length > 0 && !units.includes(given.unit.replace(/\s+/g, ''))) return 0;
+
+  const tolerance = spec?.tolerance ?? 0;
+  const allowed = spec?.tolerance_type === 'percent'
+    ? Math.abs(expected.value) * tolerance / 100
+    : tolerance;
+  // Floating-point slack so 0.1 + 0.2 style keys still match exactly
+  return Math.abs(given.value - expected.value) <= allowed + 1e-9 * Math.max(1, Math.abs(expected.value)) ? 1 : 0;
+}
+
+/** Credit for a letter-list item given its key and response as written ("C,A,B", "CAB") */
+export function letterListCredit(type: 'matching' | 'ordering' | 'multiple_response', key: unknown, response: unknown): number {
+  const keyLetters = answerLetters(key);
+  const responseLetters = answerLetters(response);
+  return type === 'multiple_response'
+    ? multipleResponseCredit(keyLetters, responseLetters)
+    : positionalCredit(keyLetters, responseLetters);
+}
@@ -3,8 +3,16 @@
  * Implements optimization algorithms for test construction
  */
 
+import {
+  IrtItemParameters,
+  informationToStandardError,
+  marginalReliability,
+  testInformation
+} from '@/services/psychometrics/irt';
+import { EquivalentFormOptions, FormEquivalenceReport, assembleEquivalentForms } from './equivalentForms';
+
 export interface TestConstraint {
-  type: 'topic_coverage' | 'difficulty_balance' | 'bloom_distribution' | 'time_limit' | 'point_distribution' | 'standards_alignment';
+  type: 'topic_coverage' | 'difficulty_balance' | 'bloom_distribution' | 'time_limit' | 'point_distribution' | 'standards_alignment' | 'test_information';
   config: any;
   priority: number;
   isRequired: boolean;
@@ -19,6 +27,31 @@ export interface Question {
   estimated_time?: number;
   points?: number;
   standards?: string[];
+  /** Calibrated or imported item parameters; items without them add no information */
+  irt?: IrtItemParameters;
+  /** Historical proportion correct, used when there are no item parameters */
+  p_value?: number;
+}
+
+/**
+ * Config of a 'test_information' constraint. Targets are per cut point, given
+ * either as test information or as the standard error of θ (SE = 1/√I); with
+ * neither, the solver aims for the most information the pool can offer there.
+ */
+export interface TestInformationConfig {
+  /** Ability cut points, e.g. the θ of the passing score */
+  cutPoints: number[];
+  targetInformation?: number[];
+  targetSE?: number[];
+  /** TOS cell counts (topic → Bloom level → items) that the selection must fill exactly */
+  cells?: Record<string, Record<string, number>>;
+}
+
+export interface InformationAtCutPoint {
+  theta: number;
+  information: number;
+  standardError: number;
+  targetInformation: number;
 }
 
 export interface AssemblyResult {
@@ -31,7 +64,34 @@ export interface AssemblyResult {
     bloomDistribution: Record<string, number>;
     totalTime: number;
     totalPoints: number;
+    /** Present when a test_information constraint is active */
+    testInformation?: InformationAtCutPoint[];
   };
+  /** Items shared by every parallel form */
+  anchorIds?: string[];
+}
+
+export type ParallelFormOptions = Pick<
+  EquivalentFormOptions,
+  'anchorCount' | 'margin' | 'alpha' | 'sdRatioLimit' | 'sampleSize' | 'seed'
+>;
+
+/**
+ * Cell counts of a saved TOS matrix (topic → Bloom level → { count }) in the
+ * shape TestInformationConfig.cells expects. Empty cells are dropped.
+ */
+export function tosCellCounts(matrix: unknown): Record<string, Record<string, number>> {
+  const cells: Record<string, Record<string, number>> = {};
+  const topics = (matrix || {}) as Record<string, Record<string, { count?: number } | number>>;
+  for (const [topic, levels] of Object.entries(topics)) {
+    for (const [level, cell] of Object.entries(levels || {})) {
+      const count = typeof cell === 'number' ? cell : Number(cell?.count) || 0;
+      if (count > 0) {
+        cells[topic] = { ...cells[topic], [level]: count };
+      }
+    }
+  }
+  return cells;
 }
 
 /**
@@ -47,11 +107,14 @@ export class ConstraintSolver {
     targetLength: number
   ): AssemblyResult {
     // Sort constraints by priority
-    const sortedConstraints = [...constraints].sort((a, b) => b.priority - a.priority);
+    const sortedConstraints = this.resolveInformationTargets(questionPool, constraints, targetLength)
+      .sort((a, b) => b.priority - a.priority);
     
     // Initialize selected questions
     const selected: Question[] = [];
     const remaining = [...questionPool];
+    const cellQuotas = this.collectCellQuotas(sortedConstraints);
+    const cellCounts = new Map<string, number>();
     
     // Greedy selection with constraint satisfaction
     let finalScore = 0;
@@ -60,6 +123,11 @@ export class ConstraintSolver {
       let bestScore = -Infinity;
       
       for (const question of remaining) {
+        // A full TOS cell takes no more items, whatever they would add
+        const key = this.cellKey(question);
+        if (cellQuotas && (cellCounts.get(key) || 0) >= (cellQuotas.get(key) || 0)) {
+          continue;
+        }
         const tempSelected = [...selected, question];
         const score = this.evaluateSelection(tempSelected, sortedConstraints, targetLength);
         
@@ -71,6 +139,8 @@ export class ConstraintSolver {
       
       if (bestQuestion) {
         selected.push(bestQuestion);
+        const key = this.cellKey(bestQuestion);
+        cellCounts.set(key, (cellCounts.get(key) || 0) + 1);
         const index = remaining.indexOf(bestQuestion);
         remaining.splice(index, 1);
         finalScore = bestScore;
@@ -80,7 +150,7 @@ export class ConstraintSolver {
     }
     
     // Calculate final metrics
-    const metrics = this.calculateMetrics(selected);
+    const metrics = this.calculateMetrics(selected, sortedConstraints);
     const constraintsSatisfied = this.checkConstraints(selected, sortedConstraints, targetLength);
     
     return {
@@ -98,33 +168,49 @@ export class ConstraintSolver {
     questionPool: Question[],
     constraints: TestConstraint[],
     targetLength: number,
-    numberOfForms: number
+    numberOfForms: number,
+    options: ParallelFormOptions = {}
   ): AssemblyResult[] {
-    const forms: AssemblyResult[] = [];
-    const usedQuestions = new Set<string>();
-    
-    for (let i = 0; i < numberOfForms; i++) {
-      // Filter out already used questions
-      const availablePool = questionPool.filter(q => !usedQuestions.has(q.id));
-      
-      if (availablePool.length < targetLength) {
-        console.warn(`Not enough questions for form ${i + 1}`);
-        break;
-      }
-      
-      // Assemble the form
-      const form = this.assembleTest(availablePool, constraints, targetLength);
-      
-      // Mark questions as used
-      form.selectedQuestions.forEach(q => usedQuestions.add(q.id));
-      
-      forms.push(form);
-    }
+    return this.assembleEquivalentForms(questionPool, constraints, targetLength, numberOfForms, options).forms;
+  }
+  
+  /**
+   * Generate parallel forms matched on expected score mean and variance, with
+   * an equivalence report. A first constrained assembly fixes the TOS cell
+   * counts every form then keeps.
+   */
+  static assembleEquivalentForms(
+    questionPool: Question[],
+    constraints: TestConstraint[],
+    targetLength: number,
+    numberOfForms: number,
+    options: ParallelFormOptions = {}
+  ): { forms: AssemblyResult[]; report: FormEquivalenceReport } {
+    const blueprint = this.assembleTest(questionPool, constraints, targetLength);
+    const cells: Record<string, number> = {};
+    blueprint.selectedQuestions.forEach(q => {
+      const key = this.cellKey(q);
+      cells[key] = (cells[key] || 0) + 1;
+    });
     
-    // Calculate equivalence scores
-    this.calculateEquivalenceScores(forms);
+    const { forms, report } = assembleEquivalentForms(questionPool, {
+      ...options,
+      numForms: numberOfForms,
+      formLength: blueprint.selectedQuestions.length,
+      cells
+    });
     
-    return forms;
+    const resolved = this.resolveInformationTargets(questionPool, constraints, targetLength);
+    return {
+      forms: forms.map(form => ({
+        selectedQuestions: form.questions,
+        score: this.evaluateSelection(form.questions, resolved, targetLength),
+        constraintsSatisfied: this.checkConstraints(form.questions, resolved, targetLength),
+        metrics: this.calculateMetrics(form.questions, resolved),
+        anchorIds: form.anchorIds
+      })),
+      report
+    };
   }
   
   /**
@@ -167,7 +253,7 @@ export class ConstraintSolver {
     }
     
     // Check reliability
-    const estimatedReliability = this.estimateReliability(optimalLength);
+    const estimatedReliability = this.estimateReliability(optimalLength, questionPool);
     if (estimatedReliability < targetReliability) {
       const adjustedLength = Math.ceil(optimalLength * (targetReliability / estimatedReliability));
       reasoning.push(`Adjusted to ${adjustedLength} questions for target reliability of ${targetReliability}`);
@@ -265,6 +351,9 @@ export class ConstraintSolver {
       case 'point_distribution':
         return this.evaluatePointDistribution(selected, constraint.config);
       
+      case 'test_information':
+        return this.evaluateTestInformation(selected, constraint.config);
+      
       default:
         return 0;
     }
@@ -337,6 +426,80 @@ export class ConstraintSolver {
     return 1 - Math.abs(totalPoints - targetPoints) / targetPoints;
   }
   
+  private static evaluateTestInformation(selected: Question[], config: TestInformationConfig): number {
+    const points = this.informationAtCutPoints(selected, config);
+    if (points.length === 0) return 0;
+    
+    // Information beyond the target earns nothing, so the greedy step moves on
+    // to the cut points that are still short
+    const total = points.reduce(
+      (sum, p) => sum + (p.targetInformation > 0 ? Math.min(1, p.information / p.targetInformation) : 1),
+      0
+    );
+    return total / points.length;
+  }
+  
+  private static informationAtCutPoints(selected: Question[], config: TestInformationConfig): InformationAtCutPoint[] {
+    const items = selected.filter(q => q.irt).map(q => q.irt as IrtItemParameters);
+    return (config.cutPoints || []).map((theta, i) => {
+      const information = testInformation(items, theta);
+      return {
+        theta,
+        information,
+        standardError: informationToStandardError(information),
+        targetInformation: config.targetInformation?.[i] ?? 0
+      };
+    });
+  }
+  
+  /**
+   * Turn SE targets into information targets and fill in missing ones with the
+   * information of the best targetLength pool items at each cut point.
+   */
+  private static resolveInformationTargets(
+    questionPool: Question[],
+    constraints: TestConstraint[],
+    targetLength: number
+  ): TestConstraint[] {
+    return constraints.map(constraint => {
+      if (constraint.type !== 'test_information') return constraint;
+      const config = constraint.config as TestInformationConfig;
+      
+      const targetInformation = (config.cutPoints || []).map((theta, i) => {
+        if (config.targetInformation?.[i] != null) return config.targetInformation[i];
+        const se = config.targetSE?.[i];
+        if (se != null && se > 0) return 1 / (se * se);
+        
+        return questionPool
+          .filter(q => q.irt)
+          .map(q => testInformation([q.irt as IrtItemParameters], theta))
+          .sort((a, b) => b - a)
+          .slice(0, targetLength)
+          .reduce((sum, info) => sum + info, 0);
+      });
+      
+      return { ...constraint, config: { ...config, targetInformation } };
+    });
+  }
+  
+  private static cellKey(question: Question): string {
+    return `${(question.topic || '').trim().toLowerCase()}|${(question.bloom_level || '').trim().toLowerCase()}`;
+  }
+  
+  private static collectCellQuotas(constraints: TestConstraint[]): Map<string, number> | null {
+    const withCells = constraints.find(c => c.type === 'test_information' && c.config?.cells);
+    if (!withCells) return null;
+    
+    const quotas = new Map<string, number>();
+    for (const [topic, levels] of Object.entries((withCells.config as TestInformationConfig).cells)) {
+      for (const [level, count] of Object.entries(levels)) {
+        const key = this.cellKey({ topic, bloom_level: level } as Question);
+        quotas.set(key, (quotas.get(key) || 0) + (Number(count) || 0));
+      }
+    }
+    return quotas;
+  }
+  
   private static checkConstraints(
     selected: Question[],
     constraints: TestConstraint[],
@@ -352,13 +515,17 @@ export class ConstraintSolver {
     return results;
   }
   
-  private static calculateMetrics(selected: Question[]) {
+  private static calculateMetrics(selected: Question[], constraints: TestConstraint[] = []): AssemblyResult['metrics'] {
+    const informationConstraint = constraints.find(c => c.type === 'test_information');
     return {
       topicCoverage: this.calculateTopicCoverage(selected),
       difficultyDistribution: this.calculateDifficultyDistribution(selected),
       bloomDistribution: this.calculateBloomDistribution(selected),
       totalTime: selected.reduce((sum, q) => sum + (q.estimated_time || 2), 0),
-      totalPoints: selected.reduce((sum, q) => sum + (q.points || 1), 0)
+      totalPoints: selected.reduce((sum, q) => sum + (q.points || 1), 0),
+      ...(informationConstraint && {
+        testInformation: this.informationAtCutPoints(selected, informationConstraint.config)
+      })
     };
   }
   
@@ -386,56 +553,14 @@ export class ConstraintSolver {
     return dist;
   }
   
-  private static calculateEquivalenceScores(forms: AssemblyResult[]): void {
-    // Calculate statistical equivalence between forms
-    for (let i = 0; i < forms.length; i++) {
-      for (let j = i + 1; j < forms.length; j++) {
-        const score = this.compareFormsEquivalence(forms[i], forms[j]);
-        // Store equivalence score (could be extended to persist to database)
-        console.log(`Forms ${i + 1} and ${j + 1} equivalence: ${score.toFixed(2)}`);
-      }
+  private static estimateReliability(testLength: number, questionPool: Question[] = []): number {
+    // With item parameters, use the marginal reliability of a test made of
+    // testLength items of average pool quality
+    const calibrated = questionPool.filter(q => q.irt).map(q => q.irt as IrtItemParameters);
+    if (calibrated.length > 0) {
+      return marginalReliability(calibrated, testLength / calibrated.length);
     }
-  }
-  
-  private static compareFormsEquivalence(form1: AssemblyResult, form2: AssemblyResult): number {
-    // Compare difficulty distributions
-    const diff1 = form1.metrics.difficultyDistribution;
-    const diff2 = form2.metrics.difficultyDistribution;
     
-    const diffScore = this.compareDistributions(diff1, diff2);
-    
-    // Compare Bloom distributions
-    const bloom1 = form1.metrics.bloomDistribution;
-    const bloom2 = form2.metrics.bloomDistribution;
-    
-    const bloomScore = this.compareDistributions(bloom1, bloom2);
-    
-    // Compare total metrics
-    const timeRatio = Math.min(form1.metrics.totalTime, form2.metrics.totalTime) / 
-                      Math.max(form1.metrics.totalTime, form2.metrics.totalTime);
-    
-    return (diffScore + bloomScore + timeRatio) / 3;
-  }
-  
-  private static compareDistributions(dist1: Record<string, number>, dist2: Record<string, number>): number {
-    const keys = new Set([...Object.keys(dist1), ...Object.keys(dist2)]);
-    let totalDiff = 0;
-    
-    keys.forEach(key => {
-      const val1 = dist1[key] || 0;
-      const val2 = dist2[key] || 0;
-      totalDiff += Math.abs(val1 - val2);
-    });
-    
-    const maxPossibleDiff = Math.max(
-      Object.values(dist1).reduce((a, b) => a + b, 0),
-      Object.values(dist2).reduce((a, b) => a + b, 0)
-    );
-    
-    return 1 - (totalDiff / (maxPossibleDiff * 2));
-  }
-  
-  private static estimateReliability(testLength: number): number {
     // Simplified Spearman-Brown prediction formula
     // Assumes base reliability of 0.7 for 20 questions
     const baseLength = 20;
@@ -0,0 +1,382 @@
+/**
+ * Statistically Equivalent Parallel Forms
+ * Builds forms with matching expected score means and variances from IRT
+ * parameters or historical p-values, optionally sharing a set of anchor items,
+ * and verifies them with two one-sided tests (TOST).
+ */
+
+import seedrandom from 'seedrandom';
+import {
+  IrtItemParameters,
+  expectedScoreDistribution,
+  irtProbability,
+  itemFromPValue,
+  marginalProbability,
+  marginalReliability,
+  quadrature
+} from '@/services/psychometrics/irt';
+import { TostResult, welchTostFromSummary } from '@/services/psychometrics/statistics';
+import type { Question } from './constraintSolver';
+
+export type ItemStatisticSource = 'irt' | 'p_value' | 'label';
+
+export interface EquivalentFormOptions {
+  numForms: number;
+  formLength: number;
+  /** Items every form shares, used to link scores across forms */
+  anchorCount?: number;
+  /** Items per TOS cell (topic|bloom key) on each form; proportional to the pool when omitted */
+  cells?: Record<string, number>;
+  /** Equivalence margin on the expected proportion correct */
+  margin?: number;
+  alpha?: number;
+  /** Largest accepted ratio between two forms' expected score SDs */
+  sdRatioLimit?: number;
+  /** Planned examinees per form, the sample size the TOST assumes */
+  sampleSize?: number;
+  seed?: string;
+}
+
+export interface EquivalentForm {
+  label: string;
+  questions: Question[];
+  anchorIds: string[];
+}
+
+export interface FormSummary {
+  label: string;
+  itemCount: number;
+  anchorCount: number;
+  expectedMean: number;
+  expectedSd: number;
+  /** Expected proportion correct */
+  meanProportion: number;
+  reliability: number;
+  /** Entry k is the probability of a number-correct score of k */
+  scoreDistribution: number[];
+}
+
+export interface FormPairComparison {
+  formA: string;
+  formB: string;
+  meanDifference: number;
+  sdRatio: number;
+  /** TOST on the expected proportion correct of planned samples taking each form */
+  tost: TostResult;
+  equivalent: boolean;
+}
+
+export interface FormEquivalenceReport {
+  forms: FormSummary[];
+  pairs: FormPairComparison[];
+  margin: number;
+  alpha: number;
+  sdRatioLimit: number;
+  sampleSize: number;
+  /** How many selected items took their statistics from each source */
+  sources: Record<ItemStatisticSource, number>;
+  equivalent: boolean;
+  generatedAt: string;
+}
+
+interface ModelledItem {
+  question: Question;
+  params: IrtItemParameters;
+  source: ItemStatisticSource;
+  expectedP: number;
+}
+
+// Nominal proportion correct for items with neither parameters nor history
+const LABEL_P_VALUES: Record<string, number> = { easy: 0.8, average: 0.6, medium: 0.6, difficult: 0.4, hard: 0.4 };
+
+const QUADRATURE_POINTS = 21;
+
+const cellKey = (q: Pick<Question, 'topic' | 'bloom_level'>) =>
+  `${(q.topic || '').trim().toLowerCase()}|${(q.bloom_level || '').trim().toLowerCase()}`;
+
+function modelItem(question: Question): ModelledItem {
+  let params: IrtItemParameters;
+  let source: ItemStatisticSource;
+  if (question.irt) {
+    params = question.irt;
+    source = 'irt';
+  } else if (question.p_value != null) {
+    params = itemFromPValue(question.p_value);
+    source = 'p_value';
+  } else {
+    params = itemFromPValue(LABEL_P_VALUES[(question.difficulty || '').toLowerCase()] ?? 0.6);
+    source = 'label';
+  }
+  return { question, params, source, expectedP: marginalProbability(params) };
+}
+
+/** Split a total over weighted keys by largest remainder */
+function apportion(total: number, weights: Record<string, number>): Record<string, number> {
+  const sum = Object.values(weights).reduce((a, b) => a + b, 0);
+  const result: Record<string, number> = {};
+  if (sum === 0) return result;
+
+  const remainders: [string, number][] = [];
+  let assigned = 0;
+  for (const [key, weight] of Object.entries(weights)) {
+    const exact = (total * weight) / sum;
+    result[key] = Math.floor(exact);
+    assigned += result[key];
+    remainders.push([key, exact - result[key]]);
+  }
+  remainders.sort((a, b) => b[1] - a[1]);
+  for (let i = 0; i < total - assigned; i++) result[remainders[i % remainders.length][0]]++;
+  return result;
+}
+
+/** Items at evenly spaced quantiles of expected difficulty */
+function spreadPick(items: ModelledItem[], count: number): ModelledItem[] {
+  const sorted = [...items].sort((a, b) => a.expectedP - b.expectedP);
+  return Array.from({ length: count }, (_, k) => sorted[Math.floor(((k + 0.5) * sorted.length) / count)]);
+}
+
+/**
+ * Running conditional moments of a form at each quadrature node, so that the
+ * marginal mean and variance of a candidate swap cost O(nodes).
+ */
+class FormMoments {
+  readonly mean: number[];
+  readonly variance: number[];
+
+  constructor(private nodes: number[], private weights: number[]) {
+    this.mean = nodes.map(() => 0);
+    this.variance = nodes.map(() => 0);
+  }
+
+  add(params: IrtItemParameters, sign: 1 | -1) {
+    this.nodes.forEach((theta, q) => {
+      const p = irtProbability(params, theta);
+      this.mean[q] += sign * p;
+      this.variance[q] += sign * p * (1 - p);
+    });
+  }
+
+  /** Marginal mean and SD, optionally with one item replaced by another */
+  marginal(remove?: IrtItemParameters, add?: IrtItemParameters): { mean: number; sd: number } {
+    let m1 = 0;
+    let m2 = 0;
+    let within = 0;
+    this.nodes.forEach((theta, q) => {
+      let mean = this.mean[q];
+      let variance = this.variance[q];
+      if (remove) {
+        const p = irtProbability(remove, theta);
+        mean -= p;
+        variance -= p * (1 - p);
+      }
+      if (add) {
+        const p = irtProbability(add, theta);
+        mean += p;
+        variance += p * (1 - p);
+      }
+      m1 += this.weights[q] * mean;
+      m2 += this.weights[q] * mean * mean;
+      within += this.weights[q] * variance;
+    });
+    return { mean: m1, sd: Math.sqrt(Math.max(0, within + m2 - m1 * m1)) };
+  }
+}
+
+function spreadObjective(stats: { mean: number; sd: number }[]): number {
+  const meanOfMeans = stats.reduce((s, f) => s + f.mean, 0) / stats.length;
+  const meanOfSds = stats.reduce((s, f) => s + f.sd, 0) / stats.length;
+  return stats.reduce((s, f) => s + (f.mean - meanOfMeans) ** 2 + (f.sd - meanOfSds) ** 2, 0);
+}
+
+/**
+ * Assemble forms with the same TOS cell counts whose expected score means and
+ * variances match. Anchors are spread over the difficulty range; the unique
+ * items of each cell are dealt out in serpentine order of expected difficulty
+ * and then improved by swaps within the cell, including with unused pool items.
+ */
+export function assembleEquivalentForms(
+  pool: Question[],
+  options: EquivalentFormOptions
+): { forms: EquivalentForm[]; report: FormEquivalenceReport } {
+  const { numForms, formLength, anchorCount = 0, seed = 'equivalent-forms' } = options;
+  const rng = seedrandom(seed);
+  const modelled = pool.map(modelItem);
+
+  const byCell = new Map<string, ModelledItem[]>();
+  modelled.forEach(item => {
+    const key = cellKey(item.question);
+    if (!byCell.has(key)) byCell.set(key, []);
+    byCell.get(key)!.push(item);
+  });
+
+  const quotas = options.cells
+    ? Object.fromEntries(Object.entries(options.cells).map(([key, count]) => [key.toLowerCase(), count]))
+    : apportion(formLength, Object.fromEntries([...byCell].map(([key, items]) => [key, items.length])));
+  const anchorQuotas = apportion(Math.min(anchorCount, formLength), quotas);
+
+  const anchors: ModelledItem[] = [];
+  const unique: ModelledItem[][] = Array.from({ length: numForms }, () => []);
+  const spare = new Map<string, ModelledItem[]>();
+
+  for (const [key, quota] of Object.entries(quotas)) {
+    const cellItems = byCell.get(key) || [];
+    const anchorCountInCell = Math.min(anchorQuotas[key] || 0, quota);
+    const perForm = quota - anchorCountInCell;
+    const needed = anchorCountInCell + perForm * numForms;
+    if (cellItems.length < needed) {
+      const [topic, bloom] = key.split('|');
+      throw new Error(`Not enough questions for ${topic} / ${bloom}: ${needed} needed, ${cellItems.length} available`);
+    }
+
+    const cellAnchors = anchorCountInCell > 0 ? spreadPick(cellItems, anchorCountInCell) : [];
+    anchors.push(...cellAnchors);
+    const rest = cellItems.filter(item => !cellAnchors.includes(item));
+
+    // Take the items nearest the cell's median difficulty, then deal them out
+    const median = [...rest].sort((a, b) => a.expectedP - b.expectedP)[Math.floor(rest.length / 2)]?.expectedP ?? 0;
+    const chosen = [...rest]
+      .sort((a, b) => Math.abs(a.expectedP - median) - Math.abs(b.expectedP - median))
+      .slice(0, perForm * numForms)
+      .sort((a, b) => a.expectedP - b.expectedP);
+    // Rotate the starting form so no form always gets each cell's hardest item
+    const offset = Math.floor(rng() * numForms);
+    chosen.forEach((item, i) => {
+      const round = Math.floor(i / numForms);
+      const slot = i % numForms;
+      unique[((round % 2 === 0 ? slot : numForms - 1 - slot) + offset) % numForms].push(item);
+    });
+    spare.set(key, rest.filter(item => !chosen.includes(item)));
+  }
+
+  const { nodes, weights } = quadrature(QUADRATURE_POINTS);
+  const moments = unique.map(items => {
+    const m = new FormMoments(nodes, weights);
+    [...anchors, ...items].forEach(item => m.add(item.params, 1));
+    return m;
+  });
+  let stats = moments.map(m => m.marginal());
+  let objective = spreadObjective(stats);
+
+  // Local search: swap one unique item for another of the same cell, taken
+  // from another form or from the unused pool, while the spread keeps falling
+  for (let pass = 0; pass < 20; pass++) {
+    let improved = false;
+    for (let f = 0; f < numForms; f++) {
+      for (let i = 0; i < unique[f].length; i++) {
+        const item = unique[f][i];
+        const key = cellKey(item.question);
+        const candidates: { form: number | null; index: number; item: ModelledItem }[] = [];
+        for (let g = 0; g < numForms; g++) {
+          if (g === f) continue;
+          unique[g].forEach((other, j) => {
+            if (cellKey(other.question) === key) candidates.push({ form: g, index: j, item: other });
+          });
+        }
+        (spare.get(key) || []).forEach((other, j) => candidates.push({ form: null, index: j, item: other }));
+
+        for (const candidate of candidates) {
+          const trial = [...stats];
+          trial[f] = moments[f].marginal(item.params, candidate.item.params);
+          if (candidate.form !== null) {
+            trial[candidate.form] = moments[candidate.form].marginal(candidate.item.params, item.params);
+          }
+          const value = spreadObjective(trial);
+          if (value >= objective - 1e-12) continue;
+
+          moments[f].add(item.params, -1);
+          moments[f].add(candidate.item.params, 1);
+          unique[f][i] = candidate.item;
+          if (candidate.form !== null) {
+            moments[candidate.form].add(candidate.item.params, -1);
+            moments[candidate.form].add(item.params, 1);
+            unique[candidate.form][candidate.index] = item;
+          } else {
+            spare.get(key)![candidate.index] = item;
+          }
+          stats = trial;
+          objective = value;
+          improved = true;
+          break;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+
+  const forms: EquivalentForm[] = unique.map((items, f) => ({
+    label: String.fromCharCode(65 + f),
+    // Anchors keep the same positions at the start of every form
+    questions: [...anchors, ...items].map(item => item.question),
+    anchorIds: anchors.map(item => item.question.id)
+  }));
+
+  return { forms, report: buildEquivalenceReport(forms, options) };
+}
+
+/**
+ * Expected score distributions of each form and pairwise equivalence tests.
+ * TOST compares proportion-correct scores as if sampleSize examinees from the
+ * same standard-normal population took each form, so it asks whether forms
+ * this close could be told apart in a real administration of that size.
+ */
+export function buildEquivalenceReport(
+  forms: EquivalentForm[],
+  options: Pick<EquivalentFormOptions, 'margin' | 'alpha' | 'sdRatioLimit' | 'sampleSize'> = {}
+): FormEquivalenceReport {
+  const { margin = 0.05, alpha = 0.05, sdRatioLimit = 1.1, sampleSize = 200 } = options;
+  const sources: Record<ItemStatisticSource, number> = { irt: 0, p_value: 0, label: 0 };
+  const modelledForms = forms.map(form => form.questions.map(modelItem));
+  new Map(modelledForms.flat().map(item => [item.question.id, item.source])).forEach(source => sources[source]++);
+
+  const summaries: FormSummary[] = forms.map((form, f) => {
+    const params = modelledForms[f].map(item => item.params);
+    const scoreDistribution = expectedScoreDistribution(params);
+    const expectedMean = scoreDistribution.reduce((s, p, k) => s + p * k, 0);
+    const expectedVariance = scoreDistribution.reduce((s, p, k) => s + p * (k - expectedMean) ** 2, 0);
+    return {
+      label: form.label,
+      itemCount: form.questions.length,
+      anchorCount: form.anchorIds.length,
+      expectedMean,
+      expectedSd: Math.sqrt(expectedVariance),
+      meanProportion: form.questions.length > 0 ? expectedMean / form.questions.length : 0,
+      reliability: marginalReliability(params),
+      scoreDistribution
+    };
+  });
+
+  const pairs: FormPairComparison[] = [];
+  for (let i = 0; i < forms.length; i++) {
+    for (let j = i + 1; j < forms.length; j++) {
+      const proportion = (f: FormSummary) => ({
+        mean: f.meanProportion,
+        variance: f.itemCount > 0 ? (f.expectedSd / f.itemCount) ** 2 : 0,
+        n: sampleSize
+      });
+      const tost = welchTostFromSummary(proportion(summaries[i]), proportion(summaries[j]), margin, alpha);
+      const sdRatio = Math.max(summaries[i].expectedSd, summaries[j].expectedSd) /
+        Math.max(1e-9, Math.min(summaries[i].expectedSd, summaries[j].expectedSd));
+
+      pairs.push({
+        formA: forms[i].label,
+        formB: forms[j].label,
+        meanDifference: summaries[i].meanProportion - summaries[j].meanProportion,
+        sdRatio,
+        tost,
+        equivalent: tost.equivalent && sdRatio <= sdRatioLimit
+      });
+    }
+  }
+
+  return {
+    forms: summaries,
+    pairs,
+    margin,
+    alpha,
+    sdRatioLimit,
+    sampleSize,
+    sources,
+    equivalent: pairs.every(p => p.equivalent),
+    generatedAt: new Date().toISOString()
+  };
+}
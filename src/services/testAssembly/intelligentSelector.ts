@@ -1,6 +1,7 @@
 /**
  * Intelligent Question Selector
- * Prevents redundant questions using semantic similarity and usage tracking
+ * Prevents redundant questions using semantic similarity and usage tracking.
+ * Questions sharing a stimulus (stimulus_id) are picked or rejected as a group.
  */
 
 import { supabase } from '@/integrations/supabase/client';
@@ -43,6 +44,11 @@ export interface SelectionReport {
   };
 }
 
+// Neighbours fetched from the vector index for each selected question; less
+// similar questions barely move a candidate's score and count as unrelated
+const NEIGHBOUR_COUNT = 50;
+const SIMILARITY_FLOOR = 0.3;
+
 export class IntelligentSelector {
   private config: SelectionConfig;
   
@@ -179,12 +185,21 @@ export class IntelligentSelector {
   ): Promise<ScoredQuestion[]> {
     const selected: ScoredQuestion[] = [];
     const remaining = [...scoredCandidates].sort((a, b) => b.score - a.score);
+    // Highest similarity of any question to the selection so far, grown from
+    // each selected question's indexed neighbours; null means compare in memory
+    let neighbours: Map<string, number> | null = new Map();
 
     // Track requirements
     const topicNeeds = { ...this.config.topicDistribution };
     const bloomNeeds = { ...this.config.bloomDistribution };
     const difficultyNeeds = { ...this.config.difficultyDistribution };
 
+    // A stimulus group is led by its best-scoring question
+    const groupOf = (candidate: ScoredQuestion) =>
+      candidate.question.stimulus_id
+        ? remaining.filter(c => c.question.stimulus_id === candidate.question.stimulus_id)
+        : [candidate];
+
     while (selected.length < this.config.totalQuestions && remaining.length > 0) {
       // Find best candidate that meets requirements
       const candidateIndex = remaining.findIndex(candidate => {
@@ -194,8 +209,14 @@ export class IntelligentSelector {
         const topicOk = (topicNeeds[q.topic] || 0) > 0;
         const bloomOk = (bloomNeeds[q.bloom_level] || 0) > 0;
         const difficultyOk = (difficultyNeeds[q.difficulty] || 0) > 0;
-
-        return topicOk && bloomOk && difficultyOk;
+        if (!(topicOk && bloomOk && difficultyOk)) return false;
+
+        // The whole group has to fit the remaining count and its topics' needs
+        const group = groupOf(candidate);
+        if (selected.length + group.length > this.config.totalQuestions) return false;
+        const perTopic: Record<string, number> = {};
+        group.forEach(member => { perTopic[member.question.topic] = (perTopic[member.question.topic] || 0) + 1; });
+        return Object.entries(perTopic).every(([topic, count]) => count <= (topicNeeds[topic] || 0));
       });
 
       if (candidateIndex === -1) {
@@ -203,12 +224,15 @@ export class IntelligentSelector {
         break;
       }
 
-      const candidate = remaining.splice(candidateIndex, 1)[0];
+      const candidate = remaining[candidateIndex];
+      const group = groupOf(candidate);
+      group.forEach(member => remaining.splice(remaining.indexOf(member), 1));
 
       // Check similarity to already selected questions
-      const similarityPenalty = await this.checkSimilarityToSelected(
+      const similarityPenalty = this.checkSimilarityToSelected(
         candidate.question,
-        selected.map(s => s.question)
+        selected.map(s => s.question),
+        neighbours
       );
 
       // Update penalty and score
@@ -217,32 +241,74 @@ export class IntelligentSelector {
         (1 - candidate.penalties.recency * 0.5) * 
         (1 - similarityPenalty * 0.3);
 
-      // If too similar, skip (unless desperate)
+      // If too similar, skip (unless desperate); a group goes with its lead
       if (similarityPenalty > this.config.similarityThreshold && remaining.length > 5) {
         continue;
       }
 
-      // Add to selected
-      selected.push(candidate);
+      // Add to selected, the lead first and its group in bank order
+      selected.push(candidate, ...group.filter(member => member !== candidate));
+      for (const member of group) {
+        if (neighbours) neighbours = await this.addNeighbours(neighbours, member.question);
+      }
 
       // Update needs
-      const q = candidate.question;
-      topicNeeds[q.topic] = Math.max(0, (topicNeeds[q.topic] || 0) - 1);
-      bloomNeeds[q.bloom_level] = Math.max(0, (bloomNeeds[q.bloom_level] || 0) - 1);
-      difficultyNeeds[q.difficulty] = Math.max(0, (difficultyNeeds[q.difficulty] || 0) - 1);
+      for (const member of group) {
+        const q = member.question;
+        topicNeeds[q.topic] = Math.max(0, (topicNeeds[q.topic] || 0) - 1);
+        bloomNeeds[q.bloom_level] = Math.max(0, (bloomNeeds[q.bloom_level] || 0) - 1);
+        difficultyNeeds[q.difficulty] = Math.max(0, (difficultyNeeds[q.difficulty] || 0) - 1);
+      }
     }
 
     return selected;
   }
 
   /**
-   * Check similarity between candidate and already selected questions
+   * Merges a newly selected question's nearest neighbours, found through the
+   * embedding index, into the selection-wide similarity map. Returns null when
+   * the database cannot answer, so the rest of the selection compares in memory.
    */
-  private async checkSimilarityToSelected(
+  private async addNeighbours(
+    neighbours: Map<string, number>,
+    question: { id?: string }
+  ): Promise<Map<string, number> | null> {
+    if (!question.id) return neighbours;
+
+    const { data, error } = await supabase.rpc('match_similar_questions', {
+      p_question_id: question.id,
+      p_match_count: NEIGHBOUR_COUNT,
+      p_threshold: SIMILARITY_FLOOR
+    });
+    if (error) {
+      console.warn('Falling back to in-memory similarity:', error);
+      return null;
+    }
+    for (const row of data ?? []) {
+      neighbours.set(row.id, Math.max(neighbours.get(row.id) ?? 0, row.similarity));
+    }
+    return neighbours;
+  }
+
+  /**
+   * Check similarity between candidate and already selected questions, from
+   * the selected questions' indexed neighbours when the database supplied
+   * them; pools that carry their vectors are otherwise compared in memory.
+   */
+  private checkSimilarityToSelected(
     candidate: any,
-    selected: any[]
-  ): Promise<number> {
+    selected: any[],
+    neighbours: Map<string, number> | null
+  ): number {
     if (selected.length === 0) return 0;
+    if (neighbours && candidate.id) return neighbours.get(candidate.id) ?? 0;
+    return this.maxSimilarityInMemory(candidate, selected);
+  }
+
+  private maxSimilarityInMemory(
+    candidate: { semantic_vector?: string | number[] | null },
+    selected: Array<{ semantic_vector?: string | number[] | null }>
+  ): number {
     if (!candidate.semantic_vector) return 0;
 
     let maxSimilarity = 0;
@@ -315,6 +381,9 @@ export class IntelligentSelector {
     if (candidate.penalties.quality > 0.5) {
       return 'Quality score below threshold';
     }
+    if (candidate.question.stimulus_id) {
+      return 'Its stimulus group did not fit the distribution as a whole';
+    }
     return 'Did not meet distribution requirements';
   }
 
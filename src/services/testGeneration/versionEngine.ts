@@ -0,0 +1,380 @@
+/**
+ * Versioning engine: the one place test versions are shuffled.
+ *
+ * Everything is driven by a single base seed. Version A uses `${seed}-A`, each
+ * section and each question's choices derive their own seeds from that, so
+ * the same seed always reproduces the same set of versions and one version can
+ * be rebuilt without the others.
+ *
+ * Questions never leave their section. Sections come from the exam format
+ * (ExamSection item ranges), from `section_id` on stored items, or failing
+ * both from runs of the same question type. Questions sharing a stimulus
+ * (`stimulus_id`) move as one block inside their section and are shuffled
+ * among themselves. Options such as "All of the above" keep their position
+ * while the other choices are shuffled around them.
+ */
+
+import seedrandom from 'seedrandom';
+import type { ExamSection } from '@/types/examFormats';
+import { objectiveType } from '@/services/scoring/answerSheet';
+import { normalizeChoices, optionLetter, resolveOptionLetter } from '@/services/psychometrics/testItems';
+
+export interface VersionQuestion {
+  id: string;
+  question_type: string;
+  question_text?: string;
+  /** Letter-keyed record or array of option texts */
+  choices?: unknown;
+  correct_answer?: string | null;
+  topic?: string;
+  bloom_level?: string;
+  difficulty?: string;
+  points?: number;
+  section_id?: string;
+  /** Passage, table or figure the question is answered from */
+  stimulus_id?: string | null;
+  /** Images placed in the stem or next to a choice (types/attachments) */
+  attachments?: unknown;
+}
+
+export interface VersionOptions {
+  numberOfVersions: number;
+  shuffleQuestions: boolean;
+  shuffleChoices: boolean;
+  /** Base seed; a random one is drawn (and returned) when omitted */
+  seed?: string;
+  /** Exam format sections, numbered over the questions in their given order */
+  sections?: ExamSection[];
+  /** Points for questions that carry none of their own */
+  pointsPerQuestion?: number;
+}
+
+export interface VersionSection {
+  id: string;
+  label: string;
+  /** First and last question number (1-based) on every version */
+  startNumber: number;
+  endNumber: number;
+}
+
+export interface AnswerKeyEntry {
+  question_id: string;
+  correct_answer: string | null;
+  points: number;
+  section_id: string;
+}
+
+export type VersionedQuestion<Q extends VersionQuestion> = Q & {
+  question_number: number;
+  section_id: string;
+  points: number;
+};
+
+export interface GeneratedVersion<Q extends VersionQuestion = VersionQuestion> {
+  version_label: string;
+  version_number: number;
+  questions: VersionedQuestion<Q>[];
+  answer_key: Record<string, AnswerKeyEntry>;
+  question_order: string[];
+  shuffle_seed: string;
+  total_points: number;
+}
+
+export interface VersionSet<Q extends VersionQuestion = VersionQuestion> {
+  seed: string;
+  sections: VersionSection[];
+  /** The questions in their unshuffled order, numbered like the versions */
+  canonical: VersionedQuestion<Q>[];
+  versions: GeneratedVersion<Q>[];
+}
+
+export interface VersionBalance {
+  isBalanced: boolean;
+  warnings: string[];
+  metrics: {
+    bloomDistribution: Record<string, number[]>;
+    difficultyDistribution: Record<string, number[]>;
+    topicDistribution: Record<string, number[]>;
+  };
+}
+
+/** Options that refer to the other options by position, e.g. "All of the above" */
+const ANCHORED_OPTION = /^\s*(all|none|any|neither|both)\s+of\s+(the\s+)?(above|these|those|preceding|previous|choices|options|answers)\b/i;
+/** Options that name other options by letter, e.g. "Both A and B" */
+const LETTER_REFERENCE = /\b[A-H]\s*(,|&|\band\b|\bor\b)\s*[A-H]\b/;
+
+export function versionLabel(index: number): string {
+  return index < 26 ? optionLetter(index) : `V${index + 1}`;
+}
+
+export function newSeed(): string {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+export function shuffleWithSeed<T>(array: T[], seed: string): T[] {
+  const shuffled = [...array];
+  const rng = seedrandom(seed);
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/**
+ * Questions in blocks that move together: one block per stimulus, in the order
+ * its first question appears, and a block of one for every other question.
+ */
+export function stimulusBlocks<Q extends VersionQuestion>(questions: Q[]): Q[][] {
+  const blocks: Q[][] = [];
+  const byStimulus = new Map<string, Q[]>();
+  for (const q of questions) {
+    if (!q.stimulus_id) {
+      blocks.push([q]);
+      continue;
+    }
+    const block = byStimulus.get(q.stimulus_id);
+    if (block) {
+      block.push(q);
+    } else {
+      const started = [q];
+      byStimulus.set(q.stimulus_id, started);
+      blocks.push(started);
+    }
+  }
+  return blocks;
+}
+
+/**
+ * Section boundaries over the questions in their given order.
+ */
+export function resolveSections(questions: VersionQuestion[], sections?: ExamSection[]): VersionSection[] {
+  const resolved: VersionSection[] = [];
+
+  if (sections && sections.length > 0) {
+    // Questions outside every format section stay together in sections of their own
+    const gap = (startNumber: number, endNumber: number) =>
+      resolved.push({ id: `unsectioned-${startNumber}`, label: 'Other', startNumber, endNumber });
+
+    let next = 1;
+    for (const s of [...sections].sort((a, b) => a.startNumber - b.startNumber)) {
+      const startNumber = Math.max(next, s.startNumber);
+      const endNumber = Math.min(questions.length, s.endNumber);
+      if (startNumber > endNumber) continue;
+      if (startNumber > next) gap(next, startNumber - 1);
+      resolved.push({ id: s.id, label: s.label, startNumber, endNumber });
+      next = endNumber + 1;
+    }
+    if (next <= questions.length) gap(next, questions.length);
+    return resolved;
+  }
+
+  const keyOf = (q: VersionQuestion) =>
+    q.section_id ? `section:${q.section_id}` : `type:${objectiveType(q.question_type) ?? q.question_type.trim().toLowerCase()}`;
+
+  questions.forEach((q, index) => {
+    const key = keyOf(q);
+    const last = resolved[resolved.length - 1];
+    if (last && keyOf(questions[last.startNumber - 1]) === key) {
+      last.endNumber = index + 1;
+    } else {
+      const id = q.section_id && !resolved.some(r => r.id === q.section_id)
+        ? q.section_id
+        : `section-${resolved.length + 1}`;
+      resolved.push({ id, label: `Section ${versionLabel(resolved.length)}`, startNumber: index + 1, endNumber: index + 1 });
+    }
+  });
+  return resolved;
+}
+
+/**
+ * Shuffle a multiple-choice question's options and move the key with them.
+ * Anchored options ("None of the above") keep their position; questions whose
+ * options name other options by letter are left as they are.
+ */
+export function shuffleChoices<Q extends VersionQuestion>(question: Q, seed: string): Q {
+  if (objectiveType(question.question_type) !== 'mcq' || !question.choices) return question;
+
+  const choices = normalizeChoices(question.choices);
+  const letters = Object.keys(choices).sort();
+  const texts = letters.map(l => choices[l]);
+  if (texts.length < 2 || texts.some(t => LETTER_REFERENCE.test(t))) return question;
+
+  const correct = resolveOptionLetter(question.correct_answer, choices);
+  const free = letters.map((_, i) => i).filter(i => !ANCHORED_OPTION.test(texts[i]));
+  const moved = shuffleWithSeed(free, seed);
+
+  // Position free[k] now shows the option that was at moved[k]
+  const source = letters.map((_, i) => i);
+  free.forEach((position, k) => { source[position] = moved[k]; });
+
+  const shuffled: Record<string, string> = {};
+  const relettered: Record<string, string> = {};
+  let correctAnswer = question.correct_answer ?? null;
+  source.forEach((from, position) => {
+    const letter = optionLetter(position);
+    shuffled[letter] = texts[from];
+    relettered[letters[from]] = letter;
+    if (correct && letters[from] === correct) correctAnswer = letter;
+  });
+
+  // Images shown next to an option move with it
+  const attachments = Array.isArray(question.attachments)
+    ? question.attachments.map(a => (a && relettered[a.placement] ? { ...a, placement: relettered[a.placement] } : a))
+    : question.attachments;
+
+  return { ...question, choices: shuffled, correct_answer: correctAnswer, ...(attachments !== undefined ? { attachments } : {}) };
+}
+
+function numbered<Q extends VersionQuestion>(
+  questions: Q[],
+  sections: VersionSection[],
+  pointsPerQuestion: number
+): VersionedQuestion<Q>[] {
+  // Questions on the same stimulus are gathered next to its first question
+  return sections.flatMap(section =>
+    stimulusBlocks(questions.slice(section.startNumber - 1, section.endNumber)).flat().map((q, i) => ({
+      ...q,
+      question_number: section.startNumber + i,
+      section_id: section.id,
+      points: q.points ?? pointsPerQuestion,
+    }))
+  );
+}
+
+/** Answer key by question number, in the shape answer-sheet scoring reads */
+export function answerKeyFor(questions: VersionedQuestion<VersionQuestion>[]): Record<string, AnswerKeyEntry> {
+  const answerKey: Record<string, AnswerKeyEntry> = {};
+  for (const q of questions) {
+    answerKey[String(q.question_number)] = {
+      question_id: q.id,
+      correct_answer: q.correct_answer ?? null,
+      points: q.points,
+      section_id: q.section_id,
+    };
+  }
+  return answerKey;
+}
+
+/**
+ * Build one version. `index` 0 is version A.
+ */
+export function buildVersion<Q extends VersionQuestion>(
+  canonical: VersionedQuestion<Q>[],
+  sections: VersionSection[],
+  options: Pick<VersionOptions, 'shuffleQuestions' | 'shuffleChoices'> & { seed: string },
+  index: number
+): GeneratedVersion<Q> {
+  const label = versionLabel(index);
+  const versionSeed = `${options.seed}-${label}`;
+
+  const questions = sections.flatMap(section => {
+    const members = canonical.filter(q => q.section_id === section.id);
+    const ordered = options.shuffleQuestions
+      ? shuffleWithSeed(stimulusBlocks(members), `${versionSeed}-section-${section.id}`).flatMap(block =>
+          block.length > 1 ? shuffleWithSeed(block, `${versionSeed}-stimulus-${block[0].stimulus_id}`) : block
+        )
+      : members;
+    return ordered.map((q, i) => {
+      const placed = { ...q, question_number: section.startNumber + i };
+      return options.shuffleChoices ? shuffleChoices(placed, `${versionSeed}-choices-${q.id}`) : placed;
+    });
+  });
+
+  return {
+    version_label: label,
+    version_number: index + 1,
+    questions,
+    answer_key: answerKeyFor(questions),
+    question_order: questions.map(q => q.id),
+    shuffle_seed: versionSeed,
+    total_points: questions.reduce((sum, q) => sum + q.points, 0),
+  };
+}
+
+export function generateVersionSet<Q extends VersionQuestion>(questions: Q[], options: VersionOptions): VersionSet<Q> {
+  if (questions.length === 0) throw new Error('No questions selected for test generation');
+  if (options.numberOfVersions < 1) throw new Error('At least one version is required');
+
+  const seed = options.seed?.trim() || newSeed();
+  const sections = resolveSections(questions, options.sections);
+  const canonical = numbered(questions, sections, options.pointsPerQuestion ?? 1);
+
+  const versions = Array.from({ length: options.numberOfVersions }, (_, i) =>
+    buildVersion(canonical, sections, { ...options, seed }, i)
+  );
+  return { seed, sections, canonical, versions };
+}
+
+/**
+ * Compare topic, Bloom and difficulty counts across versions, overall and per section.
+ */
+export function validateVersionBalance(versions: GeneratedVersion[]): VersionBalance {
+  const warnings: string[] = [];
+  const metrics: VersionBalance['metrics'] = {
+    bloomDistribution: {},
+    difficultyDistribution: {},
+    topicDistribution: {},
+  };
+
+  const count = (target: Record<string, number[]>, key: string | undefined, vIndex: number) => {
+    const k = key || 'Unspecified';
+    if (!target[k]) target[k] = versions.map(() => 0);
+    target[k][vIndex]++;
+  };
+
+  versions.forEach((version, vIndex) => {
+    version.questions.forEach(q => {
+      count(metrics.bloomDistribution, q.bloom_level, vIndex);
+      count(metrics.difficultyDistribution, q.difficulty, vIndex);
+      count(metrics.topicDistribution, q.topic, vIndex);
+    });
+  });
+
+  const checkBalance = (distribution: Record<string, number[]>, name: string) => {
+    Object.entries(distribution).forEach(([key, counts]) => {
+      const diff = Math.max(...counts) - Math.min(...counts);
+      if (diff > 0) warnings.push(`${name} "${key}" varies by ${diff} questions across versions`);
+    });
+  };
+  checkBalance(metrics.bloomDistribution, 'Bloom level');
+  checkBalance(metrics.difficultyDistribution, 'Difficulty');
+  checkBalance(metrics.topicDistribution, 'Topic');
+
+  // Every version must hold the same questions in each section
+  const sectionSignature = (version: GeneratedVersion) => {
+    const bySection: Record<string, string[]> = {};
+    version.questions.forEach(q => {
+      if (!bySection[q.section_id]) bySection[q.section_id] = [];
+      bySection[q.section_id].push(q.id);
+    });
+    return Object.entries(bySection)
+      .map(([id, ids]) => `${id}:${[...ids].sort().join(',')}`)
+      .sort()
+      .join('|');
+  };
+  const reference = versions[0] ? sectionSignature(versions[0]) : '';
+  versions.slice(1).forEach(v => {
+    if (sectionSignature(v) !== reference) {
+      warnings.push(`Version ${v.version_label} has different questions in a section than version ${versions[0].version_label}`);
+    }
+  });
+
+  // Within a section, questions on one stimulus must follow each other so it is printed once
+  versions.forEach(v => {
+    const closed = new Set<string>();
+    let current: string | null = null;
+    for (const q of v.questions) {
+      const stimulus = q.stimulus_id ? `${q.section_id}:${q.stimulus_id}` : null;
+      if (stimulus === current) continue;
+      if (current) closed.add(current);
+      if (stimulus && closed.has(stimulus)) {
+        warnings.push(`Version ${v.version_label} splits the questions on stimulus ${q.stimulus_id}`);
+        break;
+      }
+      current = stimulus;
+    }
+  });
+
+  return { isBalanced: warnings.length === 0, warnings, metrics };
+}
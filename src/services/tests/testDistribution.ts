@@ -1,4 +1,5 @@
 import { supabase } from "@/integrations/supabase/client";
+import { TestVersions } from "@/services/db/testVersions";
 
 export interface Student {
   id: string;
@@ -27,14 +28,8 @@ export interface Assignment {
  * Get all available test versions for distribution
  */
 export async function getAvailableVersions(parentTestId: string) {
-  const { data, error } = await supabase
-    .from('generated_tests')
-    .select('id, version_label, version_number')
-    .or(`id.eq.${parentTestId},parent_test_id.eq.${parentTestId}`)
-    .order('version_number');
-
-  if (error) throw error;
-  return data || [];
+  const family = await TestVersions.loadFamily(parentTestId);
+  return family.versions.map(({ id, version_label, version_number }) => ({ id, version_label, version_number }));
 }
 
 /**
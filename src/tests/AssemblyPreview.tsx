@@ -10,7 +10,9 @@ interface AssemblyPreviewProps {
 }
 
 export function AssemblyPreview({ result }: AssemblyPreviewProps) {
-  const { selectedQuestions, metadata } = result;
+  const { selectedQuestions } = result;
+  // Constraint solver results carry metrics instead of strategy metadata
+  const metadata = result.metadata ?? { coverageScore: 0, balanceScore: 0, constraintsSatisfied: false, warnings: [] };
 
   // Calculate distributions
   const topicCounts: Record<string, number> = {};
@@ -8,13 +8,13 @@ import { Badge } from '@/components/ui/badge';
 import { toast } from 'sonner';
 import { Loader2, Sparkles, Download, Eye } from 'lucide-react';
 import {
-  generateMultipleVersions,
-  saveTestVersions,
-  fetchQuestionsFromTOS,
-  type Question,
-  type TestVersion,
-  type GenerationConfig
-} from '@/services/tests/multiVersionGenerator';
+  generateVersionSet,
+  validateVersionBalance,
+  type GeneratedVersion,
+  type VersionSet
+} from '@/services/testGeneration/versionEngine';
+import { Questions, type Question } from '@/services/db/questions';
+import { TestVersions } from '@/services/db/testVersions';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
 
 interface MultiVersionGeneratorProps {
@@ -32,14 +32,15 @@ export function MultiVersionGenerator({
 }: MultiVersionGeneratorProps) {
   const [loading, setLoading] = useState(false);
   const [questions, setQuestions] = useState<Question[]>([]);
-  const [versions, setVersions] = useState<TestVersion[]>([]);
+  const [versionSet, setVersionSet] = useState<VersionSet<Question> | null>(null);
+  const versions = versionSet?.versions ?? [];
   
-  const [config, setConfig] = useState<GenerationConfig>({
+  const [config, setConfig] = useState({
     numberOfVersions: 3,
     shuffleQuestions: true,
     shuffleChoices: true,
     ensureBalance: true,
-    tosId
+    seed: ''
   });
 
   useEffect(() => {
@@ -51,7 +52,7 @@ export function MultiVersionGenerator({
 
     setLoading(true);
     try {
-      const data = await fetchQuestionsFromTOS(tosId);
+      const data = await Questions.listForTos(tosId);
       setQuestions(data);
       
       if (data.length === 0) {
@@ -79,9 +80,15 @@ export function MultiVersionGenerator({
     setLoading(true);
 
     try {
-      const generatedVersions = await generateMultipleVersions(questions, config);
-      setVersions(generatedVersions);
-      toast.success(`Generated ${generatedVersions.length} test versions successfully`);
+      const set = generateVersionSet(questions, config);
+      setVersionSet(set);
+      setConfig(prev => ({ ...prev, seed: set.seed }));
+      toast.success(`Generated ${set.versions.length} test versions successfully`);
+
+      if (config.ensureBalance) {
+        const { isBalanced, warnings } = validateVersionBalance(set.versions);
+        if (!isBalanced) toast.warning('Version balance warnings', { description: warnings.slice(0, 3).join(' • ') });
+      }
     } catch (error) {
       console.error('Generation error:', error);
       toast.error('Failed to generate test versions');
@@ -91,7 +98,7 @@ export function MultiVersionGenerator({
   };
 
   const handleSave = async () => {
-    if (versions.length === 0) {
+    if (!versionSet) {
       toast.error('No versions to save');
       return;
     }
@@ -99,14 +106,13 @@ export function MultiVersionGenerator({
     setLoading(true);
 
     try {
-      const result = await saveTestVersions(versions, config);
-      
-      if (result.success && result.parentId) {
-        toast.success('Test versions saved successfully');
-        onComplete?.(result.parentId, result.versionIds);
-      } else {
-        toast.error(result.error || 'Failed to save test versions');
-      }
+      const result = await TestVersions.save(
+        versionSet,
+        { title: 'Multi-Version Test', subject: questions[0]?.subject || 'General', tos_id: tosId },
+        config
+      );
+      toast.success('Test versions saved successfully');
+      onComplete?.(result.parentId, result.versionIds);
     } catch (error) {
       console.error('Save error:', error);
       toast.error('Failed to save test versions');
@@ -115,7 +121,7 @@ export function MultiVersionGenerator({
     }
   };
 
-  const getDistributionStats = (version: TestVersion) => {
+  const getDistributionStats = (version: GeneratedVersion<Question>) => {
     const topics = version.questions.reduce((acc, q) => {
       acc[q.topic] = (acc[q.topic] || 0) + 1;
       return acc;
@@ -176,6 +182,17 @@ export function MultiVersionGenerator({
               <p className="text-xs text-muted-foreground">Between 2 and 8 versions</p>
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="seed">Shuffle Seed</Label>
+              <Input
+                id="seed"
+                placeholder="Random"
+                value={config.seed}
+                onChange={(e) => setConfig({ ...config, seed: e.target.value })}
+              />
+              <p className="text-xs text-muted-foreground">The same seed regenerates the same versions</p>
+            </div>
+
             <div className="space-y-4">
               <div className="flex items-center justify-between">
                 <Label htmlFor="shuffleQuestions" className="cursor-pointer">
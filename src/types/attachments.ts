@@ -0,0 +1,148 @@
+/**
+ * Question attachments: diagrams, schematics, screenshots and other media kept
+ * in the question-media storage bucket and shown in a question's stem or next
+ * to one of its choices.
+ */
+
+export type AttachmentSize = 'small' | 'medium' | 'large' | 'full';
+
+export const ATTACHMENT_SIZE_LABELS: Record<AttachmentSize, string> = {
+  small: 'Small (¼ width)',
+  medium: 'Medium (½ width)',
+  large: 'Large (¾ width)',
+  full: 'Full width',
+};
+
+/** Share of the text width an image is printed at */
+export const ATTACHMENT_SIZE_FRACTION: Record<AttachmentSize, number> = {
+  small: 0.25,
+  medium: 0.5,
+  large: 0.75,
+  full: 1,
+};
+
+/** Where an attachment is shown: the stem, or the letter of a choice */
+export type AttachmentPlacement = 'stem' | string;
+
+export interface QuestionAttachment {
+  id: string;
+  /** Object path in the question-media bucket */
+  path?: string;
+  /** Address of an image hosted elsewhere, for attachments not in storage */
+  url?: string;
+  name: string;
+  mime_type: string;
+  /** Text read out in place of the image; required for accessibility */
+  alt: string;
+  /** Printed under the image */
+  caption?: string;
+  size: AttachmentSize;
+  placement: AttachmentPlacement;
+  /** Pixel dimensions, when known, so exports keep the aspect ratio */
+  width?: number;
+  height?: number;
+}
+
+/** An image read from an imported file, uploaded to question media when the import is saved */
+export interface ImportedImage {
+  name: string;
+  /** data: URL of the image bytes */
+  src: string;
+  alt?: string;
+  /** 'stem' unless the image sat in a choice */
+  placement?: AttachmentPlacement;
+}
+
+const SIZES = new Set<AttachmentSize>(['small', 'medium', 'large', 'full']);
+
+export function parseQuestionAttachments(value: unknown): QuestionAttachment[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((a): a is Record<string, unknown> =>
+      !!a && typeof a === 'object' && (typeof (a as Record<string, unknown>).path === 'string' || typeof (a as Record<string, unknown>).url === 'string'))
+    .map((a, i) => {
+      const location = String(a.path ?? a.url);
+      return {
+        id: typeof a.id === 'string' && a.id ? a.id : `attachment-${i + 1}`,
+        ...(typeof a.path === 'string' ? { path: a.path } : {}),
+        ...(typeof a.url === 'string' ? { url: a.url } : {}),
+        name: typeof a.name === 'string' && a.name ? a.name : location.split('/').pop() || 'attachment',
+        mime_type: typeof a.mime_type === 'string' ? a.mime_type : mimeTypeFromName(location),
+        alt: typeof a.alt === 'string' ? a.alt : '',
+        ...(typeof a.caption === 'string' && a.caption ? { caption: a.caption } : {}),
+        size: SIZES.has(a.size as AttachmentSize) ? (a.size as AttachmentSize) : 'medium',
+        placement: typeof a.placement === 'string' && a.placement ? a.placement : 'stem',
+        ...(Number(a.width) > 0 && Number(a.height) > 0 ? { width: Number(a.width), height: Number(a.height) } : {}),
+      };
+    });
+}
+
+/** Key of an attachment in signed-URL and media maps */
+export function attachmentKey(attachment: QuestionAttachment): string {
+  return attachment.path ?? attachment.url ?? attachment.id;
+}
+
+export function attachmentsAt(attachments: QuestionAttachment[] | null | undefined, placement: AttachmentPlacement): QuestionAttachment[] {
+  return (attachments ?? []).filter(a => a.placement === placement);
+}
+
+export function isImageAttachment(attachment: Pick<QuestionAttachment, 'mime_type'>): boolean {
+  return attachment.mime_type.startsWith('image/');
+}
+
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  bmp: 'image/bmp',
+  mp3: 'audio/mpeg',
+  mp4: 'video/mp4',
+  pdf: 'application/pdf',
+};
+
+export function mimeTypeFromName(name: string): string {
+  return MIME_TYPES[name.split(/[?#]/)[0].split('.').pop()?.toLowerCase() ?? ''] ?? 'application/octet-stream';
+}
+
+export function extensionForMimeType(mimeType: string): string {
+  return Object.entries(MIME_TYPES).find(([, type]) => type === mimeType)?.[0] ?? 'bin';
+}
+
+/**
+ * Printed size of an image within `maxWidth` (any unit): its size hint's
+ * share of the width, with the height from its pixel aspect ratio (4:3 when
+ * the dimensions are unknown).
+ */
+export function attachmentBox(attachment: QuestionAttachment, maxWidth: number): { width: number; height: number } {
+  const width = maxWidth * ATTACHMENT_SIZE_FRACTION[attachment.size];
+  const ratio = attachment.width && attachment.height ? attachment.height / attachment.width : 0.75;
+  return { width, height: width * ratio };
+}
+
+/** A file name unique within an export, for packages that carry the media alongside */
+export function attachmentFileName(attachment: QuestionAttachment): string {
+  const base = attachment.name.replace(/\.[^.]+$/, '').replace(/[^A-Za-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '') || 'image';
+  return `${base}-${attachment.id.replace(/[^A-Za-z0-9]/g, '').slice(0, 8)}.${extensionForMimeType(attachment.mime_type)}`;
+}
+
+export function dataUrlBytes(src: string): { bytes: Uint8Array; mimeType: string } | null {
+  const match = /^data:([^;,]+)?(;base64)?,(.*)$/s.exec(src);
+  if (!match) return null;
+  const mimeType = match[1] || 'application/octet-stream';
+  if (!match[2]) return { bytes: new TextEncoder().encode(decodeURIComponent(match[3])), mimeType };
+  const binary = atob(match[3]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return { bytes, mimeType };
+}
+
+export function bytesToDataUrl(bytes: Uint8Array, mimeType: string): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+}
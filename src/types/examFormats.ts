@@ -3,7 +3,15 @@
  * Predefined multi-section exam formats with strict section boundaries
  */
 
-export type QuestionType = 'mcq' | 'true_false' | 'fill_blank' | 'essay';
+export type QuestionType =
+  | 'mcq'
+  | 'true_false'
+  | 'fill_blank'
+  | 'essay'
+  | 'matching'
+  | 'ordering'
+  | 'multiple_response'
+  | 'numeric';
 
 export interface ExamSection {
   id: string;
@@ -172,10 +180,98 @@ export const FORMAT_4: ExamFormat = {
   ]
 };
 
+/**
+ * Format 5: Science – MCQ + Matching + Numeric
+ * Section B: each item is one matching set worth 2 points
+ */
+export const FORMAT_5: ExamFormat = {
+  id: 'format_5',
+  name: 'Format 5: MCQ + Matching + Numeric',
+  description: 'Section A – MCQ (1–30), Section B – Matching (31–35; 2 pts per set), Section C – Numeric (36–45)',
+  totalItems: 45,
+  totalPoints: 50, // 30 + 10 (5 sets @ 2pts) + 10
+  sections: [
+    {
+      id: 'A',
+      label: 'Section A',
+      title: 'Multiple Choice',
+      questionType: 'mcq',
+      startNumber: 1,
+      endNumber: 30,
+      pointsPerQuestion: 1,
+      instruction: 'Choose the letter of the best answer.'
+    },
+    {
+      id: 'B',
+      label: 'Section B',
+      title: 'Matching Type',
+      questionType: 'matching',
+      startNumber: 31,
+      endNumber: 35,
+      pointsPerQuestion: 2, // Shared among the set's premises
+      instruction: 'Match each item in Column A with its answer in Column B. Write the letter on the blank.'
+    },
+    {
+      id: 'C',
+      label: 'Section C',
+      title: 'Numeric Response',
+      questionType: 'numeric',
+      startNumber: 36,
+      endNumber: 45,
+      pointsPerQuestion: 1,
+      instruction: 'Solve each problem. Write the numerical answer with its unit.'
+    }
+  ]
+};
+
+/**
+ * Format 6: Programming – MCQ + Multiple Response + Ordering
+ * Sections B and C earn partial credit (see services/scoring/itemScoring)
+ */
+export const FORMAT_6: ExamFormat = {
+  id: 'format_6',
+  name: 'Format 6: MCQ + Multiple Response + Ordering',
+  description: 'Section A – MCQ (1–30), Section B – Multiple Response (31–40), Section C – Ordering (41–45; 2 pts each)',
+  totalItems: 45,
+  totalPoints: 50, // 30 + 10 + 10 (5 items @ 2pts)
+  sections: [
+    {
+      id: 'A',
+      label: 'Section A',
+      title: 'Multiple Choice',
+      questionType: 'mcq',
+      startNumber: 1,
+      endNumber: 30,
+      pointsPerQuestion: 1,
+      instruction: 'Choose the letter of the best answer.'
+    },
+    {
+      id: 'B',
+      label: 'Section B',
+      title: 'Multiple Response',
+      questionType: 'multiple_response',
+      startNumber: 31,
+      endNumber: 40,
+      pointsPerQuestion: 1,
+      instruction: 'Write the letters of ALL correct answers. Wrong letters cancel right ones.'
+    },
+    {
+      id: 'C',
+      label: 'Section C',
+      title: 'Ordering',
+      questionType: 'ordering',
+      startNumber: 41,
+      endNumber: 45,
+      pointsPerQuestion: 2,
+      instruction: 'Arrange the steps in the correct order by writing their letters in sequence.'
+    }
+  ]
+};
+
 /**
  * All available exam formats
  */
-export const EXAM_FORMATS: ExamFormat[] = [FORMAT_1, FORMAT_2, FORMAT_3, FORMAT_4];
+export const EXAM_FORMATS: ExamFormat[] = [FORMAT_1, FORMAT_2, FORMAT_3, FORMAT_4, FORMAT_5, FORMAT_6];
 
 /**
  * Get exam format by ID
@@ -0,0 +1,165 @@
+/**
+ * Question Type Definitions
+ * What `choices` and `correct_answer` hold for each bank question type
+ *
+ *   mcq                { A: text, B: text, ... }              "B"
+ *   true_false         { A: 'True', B: 'False' } or none      "True" / "False"
+ *   short_answer       none                                   "DNS|domain name system"
+ *   essay              none                                   model answer or rubric
+ *   matching           { premises: [...], responses: [...] }  "C,A,B"  response letter per premise
+ *   ordering           { A: step, B: step, ... }              "C,A,B"  letters in the correct order
+ *   multiple_response  { A: text, B: text, ... }              "A,C"    every correct option
+ *   numeric            { tolerance, tolerance_type, unit }    "9.81"
+ *
+ * Matching responses and ordering steps are listed alphabetically so the key
+ * does not simply read A, B, C; matching decoys (responses no premise uses) go last.
+ */
+
+export type QuestionKind =
+  | 'mcq'
+  | 'true_false'
+  | 'short_answer'
+  | 'essay'
+  | 'matching'
+  | 'ordering'
+  | 'multiple_response'
+  | 'numeric';
+
+export const QUESTION_KIND_LABELS: Record<QuestionKind, string> = {
+  mcq: 'Multiple Choice',
+  true_false: 'True/False',
+  short_answer: 'Short Answer',
+  essay: 'Essay',
+  matching: 'Matching Type',
+  ordering: 'Ordering / Sequencing',
+  multiple_response: 'Multiple Response',
+  numeric: 'Numeric',
+};
+
+/** Types whose choices and key need more than a list of options and one letter */
+export type StructuredKind = 'matching' | 'ordering' | 'multiple_response' | 'numeric';
+
+export function isStructuredKind(kind: string): kind is StructuredKind {
+  return kind === 'matching' || kind === 'ordering' || kind === 'multiple_response' || kind === 'numeric';
+}
+
+export type OptionChoices = Record<string, string>;
+
+export interface MatchingChoices {
+  premises: string[];
+  responses: string[];
+}
+
+export interface NumericChoices {
+  /** Allowed distance from the key; 0 means exact */
+  tolerance: number;
+  tolerance_type?: 'absolute' | 'percent';
+  /** Expected unit; alternatives separated by "|", e.g. "m/s^2|m/s²" */
+  unit?: string;
+}
+
+export type QuestionChoices = OptionChoices | MatchingChoices | NumericChoices;
+
+export function isMatchingChoices(value: unknown): value is MatchingChoices {
+  const v = value as MatchingChoices | null;
+  return !!v && typeof v === 'object' && Array.isArray(v.premises) && Array.isArray(v.responses);
+}
+
+export function isNumericChoices(value: unknown): value is NumericChoices {
+  const v = value as NumericChoices | null;
+  return !!v && typeof v === 'object' && !Array.isArray(v) && typeof v.tolerance === 'number';
+}
+
+/** Types whose key is a list of option letters */
+export function isLetterListKind(kind: string): kind is 'matching' | 'ordering' | 'multiple_response' {
+  return kind === 'matching' || kind === 'ordering' || kind === 'multiple_response';
+}
+
+/**
+ * Option letters in a key or response: "C,A,B", "C A B", "cab" and "C-A-B" all
+ * give ['C', 'A', 'B'].
+ */
+export function answerLetters(value: unknown): string[] {
+  if (value == null) return [];
+  return String(value).toUpperCase().match(/[A-Z]/g) ?? [];
+}
+
+export function formatLetters(letters: string[]): string {
+  return letters.join(',');
+}
+
+/** A number with an optional unit after it, e.g. "9.81 m/s^2" or "-3e-4" */
+export function parseNumericAnswer(text: unknown): { value: number; unit: string } | null {
+  if (text == null) return null;
+  const match = String(text).trim().match(/^([+-]?(?:\d+(?:\.\d*)?|\.\d+)(?:e[+-]?\d+)?)\s*(.*)$/i);
+  if (!match) return null;
+  const value = Number(match[1]);
+  return Number.isFinite(value) ? { value, unit: match[2].trim() } : null;
+}
+
+/** "9.81 ± 0.05 m/s^2" style summary of a numeric key */
+export function describeNumericKey(correctAnswer: unknown, spec: NumericChoices | null | undefined): string {
+  const key = correctAnswer == null ? '' : String(correctAnswer).trim();
+  if (!spec) return key;
+  const tolerance = spec.tolerance > 0
+    ? ` ± ${spec.tolerance}${spec.tolerance_type === 'percent' ? '%' : ''}`
+    : '';
+  const unit = spec.unit ? ` ${spec.unit.split('|')[0]}` : '';
+  return `${key}${tolerance}${unit}`;
+}
+
+const letterAt = (index: number) => String.fromCharCode(65 + index);
+
+/** Matching choices and key from premise → response pairs */
+export function matchingFromPairs(pairs: [string, string][], decoys: string[] = []): { choices: MatchingChoices; correct_answer: string } {
+  const responses = [...new Set(pairs.map(([, response]) => response))].sort((a, b) => a.localeCompare(b));
+  for (const decoy of decoys) {
+    if (!responses.includes(decoy)) responses.push(decoy);
+  }
+  return {
+    choices: { premises: pairs.map(([premise]) => premise), responses },
+    correct_answer: formatLetters(pairs.map(([, response]) => letterAt(responses.indexOf(response)))),
+  };
+}
+
+/** Ordering choices and key from the steps in their correct order */
+export function orderingFromSteps(steps: string[]): { choices: OptionChoices; correct_answer: string } {
+  const listed = [...steps].sort((a, b) => a.localeCompare(b));
+  return {
+    choices: Object.fromEntries(listed.map((step, i) => [letterAt(i), step])),
+    correct_answer: formatLetters(steps.map(step => letterAt(listed.indexOf(step)))),
+  };
+}
+
+/** Steps of an ordering question in their correct order */
+export function orderedSteps(choices: unknown, correctAnswer: unknown): string[] {
+  if (!choices || typeof choices !== 'object' || Array.isArray(choices)) return [];
+  const options = choices as OptionChoices;
+  return answerLetters(correctAnswer).map(letter => options[letter]).filter((step): step is string => typeof step === 'string');
+}
+
+/** Why a structured question cannot be saved as written, or null when it can */
+export function structuredAnswerError(kind: StructuredKind, choices: unknown, correctAnswer: unknown): string | null {
+  const letters = answerLetters(correctAnswer);
+  if (kind === 'matching') {
+    if (!isMatchingChoices(choices) || choices.premises.length < 2) return 'Matching questions need at least two premises';
+    if (letters.length !== choices.premises.length) return 'Every premise needs a matching response';
+    if (letters.some(l => l.charCodeAt(0) - 65 >= choices.responses.length)) return 'The key refers to a response that does not exist';
+    return null;
+  }
+  if (kind === 'numeric') {
+    if (!parseNumericAnswer(correctAnswer)) return 'Numeric questions need a number as the answer';
+    if (isNumericChoices(choices) && (choices.tolerance < 0 || !Number.isFinite(choices.tolerance))) return 'Tolerance must be zero or more';
+    return null;
+  }
+  const options = choices && typeof choices === 'object' && !Array.isArray(choices) ? Object.keys(choices as OptionChoices) : [];
+  if (kind === 'ordering') {
+    if (options.length < 3) return 'Ordering questions need at least three steps';
+    if (letters.length !== options.length || new Set(letters).size !== letters.length) return 'The key must list every step exactly once';
+    return null;
+  }
+  if (options.length < 3) return 'Multiple-response questions need at least three options';
+  if (letters.length === 0) return 'Mark at least one correct option';
+  if (letters.some(l => !options.includes(l))) return 'The key refers to an option that does not exist';
+  return null;
+}
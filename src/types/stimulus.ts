@@ -0,0 +1,102 @@
+/**
+ * Stimuli: a passage, data table, figure or case that several questions are
+ * answered from. Questions point at one through `stimulus_id`; tests keep the
+ * group together and print the stimulus once above its items.
+ */
+
+export type StimulusKind = 'passage' | 'table' | 'figure' | 'case';
+
+export const STIMULUS_KIND_LABELS: Record<StimulusKind, string> = {
+  passage: 'Reading Passage',
+  table: 'Data Table',
+  figure: 'Figure / Diagram',
+  case: 'Case',
+};
+
+export interface StimulusAttachment {
+  name: string;
+  url: string;
+  mime_type?: string;
+  /** Text read out in place of an image, also printed as its caption */
+  alt?: string;
+}
+
+export interface Stimulus {
+  id: string;
+  title: string;
+  kind: StimulusKind;
+  content: string;
+  attachments: StimulusAttachment[];
+  subject: string | null;
+  topic: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** A printed piece of stimulus content */
+export type StimulusBlock =
+  | { type: 'paragraph'; text: string }
+  | { type: 'table'; header: string[]; rows: string[][] };
+
+const TABLE_RULE = /^\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?$/;
+
+function tableCells(line: string): string[] {
+  return line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+}
+
+/**
+ * Split stimulus content into paragraphs and tables. Paragraphs are separated
+ * by blank lines and keep their line breaks; a run of lines starting with "|"
+ * is a table whose first row is the header (a "|---|" rule under it is optional).
+ */
+export function stimulusBlocks(content: string | null | undefined): StimulusBlock[] {
+  const blocks: StimulusBlock[] = [];
+  let paragraph: string[] = [];
+  let table: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length) blocks.push({ type: 'paragraph', text: paragraph.join('\n') });
+    paragraph = [];
+  };
+  const flushTable = () => {
+    const rows = table.filter(line => !TABLE_RULE.test(line.trim())).map(tableCells);
+    if (rows.length) blocks.push({ type: 'table', header: rows[0], rows: rows.slice(1) });
+    table = [];
+  };
+
+  for (const raw of (content ?? '').split(/\r?\n/)) {
+    const line = raw.trimEnd();
+    if (line.trim().startsWith('|')) {
+      flushParagraph();
+      table.push(line);
+    } else if (line.trim() === '') {
+      flushParagraph();
+      flushTable();
+    } else {
+      flushTable();
+      paragraph.push(line.trim());
+    }
+  }
+  flushParagraph();
+  flushTable();
+  return blocks;
+}
+
+export function parseStimulusAttachments(value: unknown): StimulusAttachment[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((a): a is Record<string, unknown> => !!a && typeof a === 'object' && typeof (a as Record<string, unknown>).url === 'string')
+    .map(a => ({
+      name: typeof a.name === 'string' && a.name ? a.name : String(a.url).split('/').pop() || 'attachment',
+      url: String(a.url),
+      ...(typeof a.mime_type === 'string' ? { mime_type: a.mime_type } : {}),
+      ...(typeof a.alt === 'string' ? { alt: a.alt } : {}),
+    }));
+}
+
+export function isImageAttachment(attachment: StimulusAttachment): boolean {
+  return attachment.mime_type
+    ? attachment.mime_type.startsWith('image/')
+    : /\.(png|jpe?g|gif|svg|webp)(\?|$)/i.test(attachment.url);
+}
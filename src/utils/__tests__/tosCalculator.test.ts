@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateCanonicalTOSMatrix,
+  validateTOSMatrix,
+  normalizeBloomDistribution,
+  getDifficultySplit,
+  fromStoredBloomDistribution,
+  DEFAULT_DISTRIBUTION_PROFILE,
+  BLOOM_LEVELS,
+  TOSInput,
+} from '../tosCalculator';
+
+const baseInput: TOSInput = {
+  subject_no: 'IS 9',
+  course: 'BSIS',
+  description: 'System Analysis and Design',
+  year_section: '3A',
+  exam_period: 'Final',
+  school_year: '2024-2025',
+  total_items: 50,
+  prepared_by: 'Teacher',
+  noted_by: 'Dean',
+  topics: [
+    { topic: 'Requirements Engineering', hours: 10 },
+    { topic: 'Data and Process Modeling', hours: 15 },
+    { topic: 'Object Modeling', hours: 7 },
+  ],
+};
+
+describe('tosCalculator', () => {
+  describe('normalizeBloomDistribution', () => {
+    it('should accept percentages and return fractions summing to 1', () => {
+      const weights = normalizeBloomDistribution({
+        remembering: 30, understanding: 30, applying: 20, analyzing: 10, evaluating: 10, creating: 0,
+      });
+      const sum = BLOOM_LEVELS.reduce((s, l) => s + weights[l], 0);
+      expect(sum).toBeCloseTo(1);
+      expect(weights.remembering).toBeCloseTo(0.3);
+      expect(weights.creating).toBe(0);
+    });
+
+    it('should reject negative or all-zero weights', () => {
+      expect(() => normalizeBloomDistribution({ remembering: -1, understanding: 2 })).toThrow();
+      expect(() => normalizeBloomDistribution({})).toThrow();
+    });
+  });
+
+  describe('calculateCanonicalTOSMatrix', () => {
+    it('should use the standard 30/40/30 split by default', () => {
+      const tos = calculateCanonicalTOSMatrix(baseInput);
+      expect(validateTOSMatrix(tos)).toBe(true);
+      expect(tos.bloom_totals.applying).toBe(10);
+      expect(tos.bloom_distribution.profile_name).toBe(DEFAULT_DISTRIBUTION_PROFILE.name);
+    });
+
+    it('should apply a custom profile while conserving items', () => {
+      const prelim = {
+        name: 'Prelim (60% easy)',
+        scope: 'department' as const,
+        weights: normalizeBloomDistribution({
+          remembering: 30, understanding: 30, applying: 20, analyzing: 10, evaluating: 10, creating: 0,
+        }),
+      };
+
+      for (const total_items of [10, 37, 50, 73, 100]) {
+        const tos = calculateCanonicalTOSMatrix({ ...baseInput, total_items, profile: prelim });
+        expect(validateTOSMatrix(tos)).toBe(true);
+
+        const split = getDifficultySplit(tos.bloom_distribution.weights);
+        expect(split.easy).toBeCloseTo(0.6);
+        expect(tos.bloom_totals.creating).toBe(0);
+        Object.values(tos.distribution).forEach(topic => {
+          expect(topic.creating.count).toBe(0);
+        });
+      }
+    });
+
+    it('should keep topic totals proportional to hours for any profile', () => {
+      const noCreating = {
+        name: 'Board review',
+        scope: 'tos' as const,
+        weights: normalizeBloomDistribution({
+          remembering: 20, understanding: 20, applying: 20, analyzing: 20, evaluating: 20, creating: 0,
+        }),
+      };
+      const tos = calculateCanonicalTOSMatrix({ ...baseInput, total_items: 64, profile: noCreating });
+      const topicTotals = baseInput.topics.map(t => tos.distribution[t.topic].total);
+      expect(topicTotals).toEqual([20, 30, 14]);
+      expect(tos.bloom_totals).toMatchObject({ remembering: 13, understanding: 13, creating: 0 });
+    });
+  });
+
+  describe('fromStoredBloomDistribution', () => {
+    it('should fall back to the default profile for legacy rows', () => {
+      expect(fromStoredBloomDistribution(null)).toBe(DEFAULT_DISTRIBUTION_PROFILE);
+      expect(fromStoredBloomDistribution({})).toBe(DEFAULT_DISTRIBUTION_PROFILE);
+    });
+  });
+});
@@ -11,9 +11,11 @@
  * - Total items (input) === Total items (matrix sum)
  * - Sum of Bloom levels === Total items
  * - Sum of all matrix cells === Total items
+ * - A Bloom level with a zero weight in the profile never receives items
  */
 
-// Bloom's Taxonomy distribution (must sum to 1.0)
+// Default Bloom's Taxonomy distribution (must sum to 1.0).
+// Institutions and departments can replace it with a saved distribution profile.
 export const BLOOM_DISTRIBUTION = {
   remembering: 0.15,   // 15% - Easy
   understanding: 0.15, // 15% - Easy
@@ -32,6 +34,40 @@ export const DIFFICULTY_GROUPS = {
 
 export type BloomLevel = keyof typeof BLOOM_DISTRIBUTION;
 
+export const BLOOM_LEVELS: BloomLevel[] = ['remembering', 'understanding', 'applying', 'analyzing', 'evaluating', 'creating'];
+
+export type DifficultyGroup = keyof typeof DIFFICULTY_GROUPS;
+
+/** Bloom weights as fractions of the total (sum === 1). */
+export type BloomDistribution = Record<BloomLevel, number>;
+
+export type DistributionProfileScope = 'institution' | 'department' | 'tos';
+
+/**
+ * A named Bloom distribution. Institution and department profiles are saved in
+ * `bloom_distribution_profiles`; a per-TOS override only lives on the TOS entry.
+ */
+export interface BloomDistributionProfile {
+  id?: string;
+  name: string;
+  scope: DistributionProfileScope;
+  weights: BloomDistribution;
+}
+
+/** Shape persisted on `tos_entries.bloom_distribution`. */
+export interface StoredBloomDistribution {
+  profile_id: string | null;
+  profile_name: string;
+  scope: DistributionProfileScope;
+  weights: BloomDistribution;
+}
+
+export const DEFAULT_DISTRIBUTION_PROFILE: BloomDistributionProfile = {
+  name: 'Standard (30/40/30)',
+  scope: 'institution',
+  weights: { ...BLOOM_DISTRIBUTION }
+};
+
 export interface TopicInput {
   topic: string;
   hours: number;
@@ -49,6 +85,8 @@ export interface TOSInput {
   checked_by?: string;
   noted_by: string;
   topics: TopicInput[];
+  /** Distribution profile to apply; defaults to DEFAULT_DISTRIBUTION_PROFILE */
+  profile?: BloomDistributionProfile;
 }
 
 export interface BloomCellData {
@@ -94,6 +132,9 @@ export interface CanonicalTOSMatrix {
   // Pre-computed Bloom totals (for validation/display)
   bloom_totals: Record<BloomLevel, number>;
   
+  // Profile the matrix was computed with
+  bloom_distribution: StoredBloomDistribution;
+  
   // Legacy compatibility field
   matrix: Record<string, Record<BloomLevel, BloomCellData>>;
 }
@@ -132,18 +173,138 @@ function distributeWithLargestRemainder(total: number, weights: number[]): numbe
   return result;
 }
 
+/**
+ * Normalize Bloom weights into fractions that sum to 1.
+ * Accepts either fractions (0.15) or percentages (15); missing levels count as 0.
+ */
+export function normalizeBloomDistribution(weights: Partial<Record<BloomLevel, number>>): BloomDistribution {
+  const raw = BLOOM_LEVELS.map(level => Number(weights?.[level] ?? 0));
+  
+  if (raw.some(w => !Number.isFinite(w) || w < 0)) {
+    throw new Error("Bloom distribution weights must be non-negative numbers");
+  }
+  
+  const sum = raw.reduce((a, b) => a + b, 0);
+  if (sum === 0) {
+    throw new Error("Bloom distribution must allocate items to at least one level");
+  }
+  
+  const normalized = {} as BloomDistribution;
+  BLOOM_LEVELS.forEach((level, i) => {
+    normalized[level] = raw[i] / sum;
+  });
+  return normalized;
+}
+
+/**
+ * Sum Bloom weights into the easy / average / difficult groups.
+ */
+export function getDifficultySplit(weights: BloomDistribution): Record<DifficultyGroup, number> {
+  const split = { easy: 0, average: 0, difficult: 0 } as Record<DifficultyGroup, number>;
+  BLOOM_LEVELS.forEach(level => {
+    split[getDifficultyForBloom(level)] += weights[level] || 0;
+  });
+  return split;
+}
+
+/**
+ * Convert a profile into the shape stored on `tos_entries.bloom_distribution`.
+ */
+export function toStoredBloomDistribution(profile: BloomDistributionProfile): StoredBloomDistribution {
+  return {
+    profile_id: profile.id ?? null,
+    profile_name: profile.name,
+    scope: profile.scope,
+    weights: normalizeBloomDistribution(profile.weights)
+  };
+}
+
+/**
+ * Read a stored `tos_entries.bloom_distribution` value back into a profile.
+ * Returns the default profile for legacy rows that have none.
+ */
+export function fromStoredBloomDistribution(value: unknown): BloomDistributionProfile {
+  const stored = value as Partial<StoredBloomDistribution> | null;
+  if (!stored || typeof stored !== 'object' || !stored.weights) {
+    return DEFAULT_DISTRIBUTION_PROFILE;
+  }
+  
+  try {
+    return {
+      id: stored.profile_id ?? undefined,
+      name: stored.profile_name || 'Custom',
+      scope: stored.scope || 'tos',
+      weights: normalizeBloomDistribution(stored.weights)
+    };
+  } catch {
+    return DEFAULT_DISTRIBUTION_PROFILE;
+  }
+}
+
+/**
+ * Fill a rows x columns integer matrix whose row sums equal `rowTotals` and
+ * column sums equal `colTotals` (both must add up to the same total).
+ * Cells start at the floor of their proportional share; leftover units go to
+ * the largest remainders while both the row and the column still need items.
+ */
+function allocateMatrix(rowTotals: number[], colTotals: number[]): number[][] {
+  const total = rowTotals.reduce((a, b) => a + b, 0);
+  
+  if (total === 0) {
+    return rowTotals.map(() => colTotals.map(() => 0));
+  }
+  
+  const cells: { row: number; col: number; remainder: number }[] = [];
+  const matrix = rowTotals.map((rowTotal, r) =>
+    colTotals.map((colTotal, c) => {
+      const ideal = (rowTotal * colTotal) / total;
+      const floor = Math.floor(ideal);
+      cells.push({ row: r, col: c, remainder: ideal - floor });
+      return floor;
+    })
+  );
+  
+  const rowNeed = rowTotals.map((t, r) => t - matrix[r].reduce((a, b) => a + b, 0));
+  const colNeed = colTotals.map((t, c) => t - matrix.reduce((sum, row) => sum + row[c], 0));
+  
+  cells.sort((a, b) => b.remainder - a.remainder);
+  for (const { row, col } of cells) {
+    if (rowNeed[row] > 0 && colNeed[col] > 0) {
+      matrix[row][col]++;
+      rowNeed[row]--;
+      colNeed[col]--;
+    }
+  }
+  
+  // Any row still short can take from any column still short: the totals match,
+  // so this always terminates with both marginals satisfied.
+  rowNeed.forEach((_, r) => {
+    for (let c = 0; c < colTotals.length && rowNeed[r] > 0; c++) {
+      const take = Math.min(rowNeed[r], colNeed[c]);
+      if (take > 0) {
+        matrix[r][c] += take;
+        rowNeed[r] -= take;
+        colNeed[c] -= take;
+      }
+    }
+  });
+  
+  return matrix;
+}
+
 /**
  * Calculate TOS Matrix with guaranteed item conservation.
  * 
  * Algorithm:
- * 1. Lock Bloom totals first (global constraint)
+ * 1. Lock Bloom totals first (global constraint, from the distribution profile)
  * 2. Distribute topic allocations based on hours
- * 3. For each topic, distribute Bloom items using largest remainder
- * 4. Reconcile to ensure exact totals match
+ * 3. Fill the topic x Bloom cells so both row and column totals hold exactly
  */
 export function calculateCanonicalTOSMatrix(input: TOSInput): CanonicalTOSMatrix {
   const { total_items, topics } = input;
-  const bloomLevels: BloomLevel[] = ['remembering', 'understanding', 'applying', 'analyzing', 'evaluating', 'creating'];
+  const bloomLevels = BLOOM_LEVELS;
+  const profile = input.profile ?? DEFAULT_DISTRIBUTION_PROFILE;
+  const weights = normalizeBloomDistribution(profile.weights);
   
   // Step 1: Calculate total hours
   const total_hours = topics.reduce((sum, t) => sum + t.hours, 0);
@@ -153,85 +314,16 @@ export function calculateCanonicalTOSMatrix(input: TOSInput): CanonicalTOSMatrix
   }
   
   // Step 2: Lock Bloom totals globally (this is the constraint)
-  const bloomWeights = bloomLevels.map(level => BLOOM_DISTRIBUTION[level]);
+  const bloomWeights = bloomLevels.map(level => weights[level]);
   const bloomTotals = distributeWithLargestRemainder(total_items, bloomWeights);
-  const bloom_totals: Record<BloomLevel, number> = {} as Record<BloomLevel, number>;
-  bloomLevels.forEach((level, i) => {
-    bloom_totals[level] = bloomTotals[i];
-  });
   
   // Step 3: Distribute items to topics based on hours
   const topicWeights = topics.map(t => t.hours);
   const topicItemAllocations = distributeWithLargestRemainder(total_items, topicWeights);
   
-  // Step 4: For each topic, distribute its items across Bloom levels
-  // We need to ensure that the column (Bloom) totals match the locked values
-  
-  // First pass: calculate ideal distribution per topic
-  const topicBloomMatrix: number[][] = topics.map((topic, topicIdx) => {
-    const topicTotal = topicItemAllocations[topicIdx];
-    // Each topic distributes according to Bloom percentages
-    return distributeWithLargestRemainder(topicTotal, bloomWeights);
-  });
-  
-  // Second pass: reconcile column totals to match locked Bloom totals
-  // This ensures global Bloom constraints are met
-  bloomLevels.forEach((_, bloomIdx) => {
-    const currentColTotal = topicBloomMatrix.reduce((sum, row) => sum + row[bloomIdx], 0);
-    const targetColTotal = bloomTotals[bloomIdx];
-    let diff = targetColTotal - currentColTotal;
-    
-    if (diff !== 0) {
-      // Find topics to adjust (prefer topics with more items)
-      const topicsBySize = topics
-        .map((t, i) => ({ index: i, items: topicItemAllocations[i] }))
-        .sort((a, b) => b.items - a.items);
-      
-      for (const { index: topicIdx } of topicsBySize) {
-        if (diff === 0) break;
-        
-        const currentVal = topicBloomMatrix[topicIdx][bloomIdx];
-        
-        if (diff > 0) {
-          // Need to add items to this column
-          topicBloomMatrix[topicIdx][bloomIdx]++;
-          diff--;
-        } else if (diff < 0 && currentVal > 0) {
-          // Need to remove items from this column
-          topicBloomMatrix[topicIdx][bloomIdx]--;
-          diff++;
-        }
-      }
-    }
-  });
-  
-  // Third pass: ensure row totals match topic allocations
-  // Adjust within each row without changing column totals
-  topics.forEach((_, topicIdx) => {
-    const currentRowTotal = topicBloomMatrix[topicIdx].reduce((a, b) => a + b, 0);
-    const targetRowTotal = topicItemAllocations[topicIdx];
-    let diff = targetRowTotal - currentRowTotal;
-    
-    if (diff !== 0) {
-      // Find columns where we can adjust without breaking column totals
-      // Priority: adjust columns that have more items
-      const colsBySize = bloomLevels
-        .map((_, i) => ({ index: i, items: topicBloomMatrix[topicIdx][i] }))
-        .sort((a, b) => b.items - a.items);
-      
-      for (const { index: bloomIdx } of colsBySize) {
-        if (diff === 0) break;
-        
-        if (diff > 0) {
-          topicBloomMatrix[topicIdx][bloomIdx]++;
-          diff--;
-        } else if (diff < 0 && topicBloomMatrix[topicIdx][bloomIdx] > 0) {
-          topicBloomMatrix[topicIdx][bloomIdx]--;
-          diff++;
-        }
-      }
-    }
-  });
+  // Step 4: Fill each topic's row so that row totals match topic allocations
+  // and column totals match the locked Bloom totals
+  const topicBloomMatrix = allocateMatrix(topicItemAllocations, bloomTotals);
   
   // Step 5: Generate item numbers sequentially
   let itemCounter = 1;
@@ -291,8 +383,13 @@ export function calculateCanonicalTOSMatrix(input: TOSInput): CanonicalTOSMatrix
   
   // Recalculate bloom_totals from actual distribution (for consistency)
   const finalBloomTotals: Record<BloomLevel, number> = {} as Record<BloomLevel, number>;
-  bloomLevels.forEach(level => {
+  bloomLevels.forEach((level, bloomIdx) => {
     finalBloomTotals[level] = Object.values(distribution).reduce((sum, topic) => sum + topic[level].count, 0);
+    
+    if (finalBloomTotals[level] !== bloomTotals[bloomIdx]) {
+      console.error(`INVARIANT VIOLATION: ${level} total (${finalBloomTotals[level]}) !== locked total (${bloomTotals[bloomIdx]})`);
+      throw new Error(`TOS calculation error: ${level} total mismatch (${finalBloomTotals[level]} vs ${bloomTotals[bloomIdx]})`);
+    }
   });
   
   return {
@@ -313,6 +410,7 @@ export function calculateCanonicalTOSMatrix(input: TOSInput): CanonicalTOSMatrix
     topics: input.topics,
     distribution,
     bloom_totals: finalBloomTotals,
+    bloom_distribution: toStoredBloomDistribution({ ...profile, weights }),
     matrix
   };
 }
@@ -323,7 +421,7 @@ export function calculateCanonicalTOSMatrix(input: TOSInput): CanonicalTOSMatrix
  */
 export function validateTOSMatrix(tos: CanonicalTOSMatrix): boolean {
   const { total_items, distribution, bloom_totals } = tos;
-  const bloomLevels: BloomLevel[] = ['remembering', 'understanding', 'applying', 'analyzing', 'evaluating', 'creating'];
+  const bloomLevels = BLOOM_LEVELS;
   
   // Check 1: Matrix total equals input total
   const matrixTotal = Object.values(distribution).reduce((sum, topic) => sum + topic.total, 0);
@@ -348,7 +446,16 @@ export function validateTOSMatrix(tos: CanonicalTOSMatrix): boolean {
     }
   });
   
-  // Check 4: Item numbers are sequential and correct
+  // Check 4: Levels excluded by the profile hold no items
+  if (tos.bloom_distribution) {
+    bloomLevels.forEach(level => {
+      if (tos.bloom_distribution.weights[level] === 0 && bloom_totals[level] > 0) {
+        throw new Error(`Validation failed: ${level} is excluded by profile "${tos.bloom_distribution.profile_name}" but has ${bloom_totals[level]} item(s)`);
+      }
+    });
+  }
+  
+  // Check 5: Item numbers are sequential and correct
   const allItems = Object.values(distribution)
     .flatMap(topic => bloomLevels.flatMap(level => topic[level].items))
     .sort((a, b) => a - b);
@@ -0,0 +1,294 @@
+/**
+ * Provider layer for every function that calls a language model.
+ *
+ * Providers:
+ *   openai             api.openai.com, key in OPENAI_API_KEY
+ *   openai_compatible  any server speaking the OpenAI chat/embeddings API (gateways, vLLM, ...)
+ *   self_hosted        Ollama or llama.cpp on the institution's network (OpenAI-compatible /v1)
+ *   offline            deterministic templates from offlineProvider.ts; no network
+ *
+ * Settings live in system_settings under `llm_provider`, with per-institution
+ * overrides under `llm_provider:<institution>` (the institution on the
+ * caller's profile). Keys are never stored there: `api_key_env` names the
+ * function secret that holds one. `embedding_backend: 'local'` embeds on the
+ * CPU with the offline hashing model whatever the chat provider is.
+ * LLM_PROVIDER=offline in the function's
+ * environment forces the offline provider, for laptops and tests.
+ */
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  OFFLINE_EMBEDDING_DIMENSIONS,
+  OFFLINE_EMBEDDING_MODEL,
+  OfflineChatMessage,
+  OfflineQuestionRequest,
+  offlineEmbedding,
+  offlineQuestions,
+  offlineReply,
+} from './offlineProvider.ts';
+
+export type LlmProviderKind = 'openai' | 'openai_compatible' | 'self_hosted' | 'offline';
+export type EmbeddingBackend = 'provider' | 'local';
+
+export interface LlmSettings {
+  provider: LlmProviderKind;
+  model: string;
+  /** Base of the OpenAI-compatible API, ending in /v1 */
+  base_url?: string;
+  /** Name of the function secret holding the API key */
+  api_key_env?: string;
+  /** Replaces each call's own default when set */
+  temperature?: number;
+  /** Upper bound on completion tokens per call */
+  max_tokens?: number;
+  embedding_model?: string;
+  embedding_dimensions?: number;
+  /** 'local' embeds without a network call; defaults to the provider */
+  embedding_backend?: EmbeddingBackend;
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  /** Ask for a JSON object response */
+  json?: boolean;
+  temperature?: number;
+  maxTokens?: number;
+  /** What the offline provider should generate in place of the model */
+  offline?: OfflineQuestionRequest;
+}
+
+export class LlmError extends Error {
+  constructor(message: string, public status = 500) {
+    super(message);
+    this.name = 'LlmError';
+  }
+}
+
+export const SETTINGS_KEY = 'llm_provider';
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const SELF_HOSTED_BASE_URL = 'http://localhost:11434/v1';
+const LOVABLE_GATEWAY_URL = 'https://ai.gateway.lovable.dev/v1';
+// Secrets an API key may be read from. Settings are editable in the app and
+// base_url can point anywhere, so an arbitrary name would let whoever edits
+// them send SUPABASE_SERVICE_ROLE_KEY or any other function secret off-site
+const KNOWN_KEY_ENVS = ['OPENAI_API_KEY', 'LOVABLE_API_KEY'];
+const KEY_ENV_PATTERN = /^LLM_[A-Z0-9_]+_KEY$/;
+
+export function isAllowedKeyEnv(name: string): boolean {
+  return KNOWN_KEY_ENVS.includes(name) || KEY_ENV_PATTERN.test(name);
+}
+
+const RETRY_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 800;
+
+const PROVIDERS: LlmProviderKind[] = ['openai', 'openai_compatible', 'self_hosted', 'offline'];
+
+/** Width of questions.semantic_embedding, the pgvector similarity index */
+export const INDEXED_EMBEDDING_DIMENSIONS = OFFLINE_EMBEDDING_DIMENSIONS;
+
+/** What a deployment does with no settings saved: whichever key it has, else offline */
+export function defaultLlmSettings(): LlmSettings {
+  if (Deno.env.get('OPENAI_API_KEY')) {
+    return { provider: 'openai', model: 'gpt-4o-mini', api_key_env: 'OPENAI_API_KEY', embedding_model: 'text-embedding-3-small' };
+  }
+  if (Deno.env.get('LOVABLE_API_KEY')) {
+    return { provider: 'openai_compatible', model: 'google/gemini-2.5-flash', base_url: LOVABLE_GATEWAY_URL, api_key_env: 'LOVABLE_API_KEY' };
+  }
+  return { provider: 'offline', model: 'offline-templates' };
+}
+
+function parseSettings(value: unknown): Partial<LlmSettings> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  const v = value as Record<string, unknown>;
+  const settings: Partial<LlmSettings> = {};
+  if (PROVIDERS.includes(v.provider as LlmProviderKind)) settings.provider = v.provider as LlmProviderKind;
+  if (v.embedding_backend === 'provider' || v.embedding_backend === 'local') settings.embedding_backend = v.embedding_backend;
+  for (const key of ['model', 'base_url', 'api_key_env', 'embedding_model'] as const) {
+    if (typeof v[key] === 'string' && v[key]) settings[key] = v[key] as string;
+  }
+  for (const key of ['temperature', 'max_tokens', 'embedding_dimensions'] as const) {
+    if (typeof v[key] === 'number' && Number.isFinite(v[key])) settings[key] = v[key] as number;
+  }
+  return settings;
+}
+
+/**
+ * Settings for a caller: the deployment default, then the `llm_provider`
+ * row, then their institution's row. Needs a client that can read profiles.
+ */
+export async function loadLlmSettings(client: SupabaseClient, userId?: string | null): Promise<LlmSettings> {
+  let settings: LlmSettings = defaultLlmSettings();
+  try {
+    let institution: string | null = null;
+    if (userId) {
+      const { data: profile } = await client.from('profiles').select('institution').eq('id', userId).maybeSingle();
+      institution = profile?.institution ?? null;
+    }
+    const keys = institution ? [SETTINGS_KEY, `${SETTINGS_KEY}:${institution}`] : [SETTINGS_KEY];
+    const { data: rows } = await client.from('system_settings').select('key, value').in('key', keys);
+    for (const key of keys) {
+      const row = (rows ?? []).find((r: { key: string }) => r.key === key);
+      if (!row) continue;
+      const override = parseSettings(row.value);
+      // A different provider brings its own endpoint and models; tuning carries over
+      settings = override.provider && override.provider !== settings.provider
+        ? { temperature: settings.temperature, max_tokens: settings.max_tokens, ...override, provider: override.provider, model: override.model ?? '' }
+        : { ...settings, ...override };
+    }
+  } catch (error) {
+    console.warn('Could not load LLM settings, using defaults:', error);
+  }
+
+  if (Deno.env.get('LLM_PROVIDER') === 'offline') settings = { ...settings, provider: 'offline' };
+  if (!settings.model) settings.model = settings.provider === 'offline' ? 'offline-templates' : 'gpt-4o-mini';
+  return settings;
+}
+
+function endpoint(settings: LlmSettings): { baseUrl: string; apiKey: string | undefined } {
+  const baseUrl = (settings.base_url || (settings.provider === 'self_hosted' ? SELF_HOSTED_BASE_URL : OPENAI_BASE_URL)).replace(/\/+$/, '');
+  const keyEnv = settings.api_key_env || (settings.provider === 'openai' ? 'OPENAI_API_KEY' : undefined);
+  if (keyEnv && !isAllowedKeyEnv(keyEnv)) {
+    throw new LlmError(`AI service misconfigured: api_key_env must be OPENAI_API_KEY, LOVABLE_API_KEY or LLM_<NAME>_KEY, not ${keyEnv}`);
+  }
+  const apiKey = keyEnv ? Deno.env.get(keyEnv) : undefined;
+  if (settings.provider === 'openai' && !apiKey) throw new LlmError('AI service not configured: OPENAI_API_KEY is not set');
+  if (settings.provider === 'openai_compatible' && !settings.base_url) throw new LlmError('AI service not configured: base_url is required');
+  return { baseUrl, apiKey };
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/** POSTs to the provider, retrying network failures, 429s and 5xx with backoff */
+async function post(settings: LlmSettings, path: string, body: Record<string, unknown>): Promise<Response> {
+  const { baseUrl, apiKey } = endpoint(settings);
+  let lastError: LlmError | null = null;
+
+  for (let attempt = 1; attempt <= RETRY_ATTEMPTS; attempt++) {
+    try {
+      const response = await fetch(`${baseUrl}${path}`, {
+        method: 'POST',
+        headers: {
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      });
+      if (response.ok) return response;
+
+      const text = await response.text();
+      lastError = new LlmError(`${settings.provider} API error ${response.status}: ${text.slice(0, 300)}`, response.status);
+      if (response.status !== 429 && response.status < 500) throw lastError;
+    } catch (error) {
+      if (error instanceof LlmError && error.status !== 429 && error.status < 500) throw error;
+      lastError = error instanceof LlmError ? error : new LlmError(`${settings.provider} request failed: ${error instanceof Error ? error.message : error}`, 503);
+    }
+    if (attempt < RETRY_ATTEMPTS) {
+      console.warn(`🔁 ${settings.provider} attempt ${attempt}/${RETRY_ATTEMPTS} failed: ${lastError?.message}`);
+      await sleep(RETRY_DELAY_MS * 2 ** (attempt - 1));
+    }
+  }
+  throw lastError ?? new LlmError('AI service unavailable', 503);
+}
+
+function completionBody(settings: LlmSettings, request: ChatRequest, stream = false): Record<string, unknown> {
+  const maxTokens = request.maxTokens && settings.max_tokens
+    ? Math.min(request.maxTokens, settings.max_tokens)
+    : request.maxTokens ?? settings.max_tokens;
+  const temperature = settings.temperature ?? request.temperature;
+  return {
+    model: settings.model,
+    messages: request.messages,
+    ...(request.json ? { response_format: { type: 'json_object' } } : {}),
+    ...(temperature !== undefined ? { temperature } : {}),
+    ...(maxTokens ? { max_tokens: maxTokens } : {}),
+    ...(stream ? { stream: true } : {}),
+  };
+}
+
+/** The completion text of one chat request */
+export async function chatCompletion(settings: LlmSettings, request: ChatRequest): Promise<string> {
+  if (settings.provider === 'offline') {
+    return request.offline
+      ? JSON.stringify(offlineQuestions(request.offline))
+      : offlineReply(request.messages as OfflineChatMessage[]);
+  }
+
+  const response = await post(settings, '/chat/completions', completionBody(settings, request));
+  const data = await response.json();
+  const content = data?.choices?.[0]?.message?.content;
+  if (typeof content !== 'string') throw new LlmError('AI service returned no content', 502);
+  return content;
+}
+
+/**
+ * A chat request answered with a JSON object. Local models often wrap JSON
+ * in a code fence or add a sentence around it, so the outermost object is
+ * taken from the text.
+ */
+export async function chatJson<T = Record<string, unknown>>(settings: LlmSettings, request: Omit<ChatRequest, 'json'>): Promise<T> {
+  const content = await chatCompletion(settings, { ...request, json: true });
+  try {
+    return JSON.parse(content) as T;
+  } catch {
+    const start = content.indexOf('{');
+    const end = content.lastIndexOf('}');
+    if (start >= 0 && end > start) {
+      try {
+        return JSON.parse(content.slice(start, end + 1)) as T;
+      } catch {
+        // fall through
+      }
+    }
+    throw new LlmError('Invalid response format from AI service', 502);
+  }
+}
+
+/**
+ * A streamed chat completion as server-sent events in the OpenAI format
+ * (`data: {"choices":[{"delta":{"content":...}}]}` ... `data: [DONE]`).
+ * Errors come back as the provider's response so callers can map statuses.
+ */
+export async function streamChat(settings: LlmSettings, request: ChatRequest): Promise<Response> {
+  if (settings.provider === 'offline') {
+    const reply = offlineReply(request.messages as OfflineChatMessage[]);
+    const chunks = reply.match(/[^\n]*\n?/g)?.filter(Boolean) ?? [reply];
+    const events = [...chunks.map(content => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`), 'data: [DONE]\n\n'];
+    return new Response(events.join(''), { headers: { 'Content-Type': 'text/event-stream' } });
+  }
+
+  try {
+    return await post(settings, '/chat/completions', completionBody(settings, request, true));
+  } catch (error) {
+    const status = error instanceof LlmError ? error.status : 500;
+    return new Response(error instanceof Error ? error.message : 'AI service unavailable', { status });
+  }
+}
+
+/**
+ * An embedding for the similarity index. Only vectors of
+ * INDEXED_EMBEDDING_DIMENSIONS are indexed, so OpenAI's text-embedding-3
+ * models are shortened to that width unless configured otherwise.
+ */
+export async function createEmbedding(settings: LlmSettings, text: string): Promise<{ embedding: number[]; model: string }> {
+  if (settings.provider === 'offline' || settings.embedding_backend === 'local') {
+    return { embedding: offlineEmbedding(text), model: OFFLINE_EMBEDDING_MODEL };
+  }
+
+  const model = settings.embedding_model || (settings.provider === 'self_hosted' ? 'nomic-embed-text' : 'text-embedding-3-small');
+  const response = await post(settings, '/embeddings', {
+    model,
+    input: text,
+    encoding_format: 'float',
+    // Only OpenAI's text-embedding-3 models can shorten their vectors
+    ...(settings.provider === 'openai' ? { dimensions: settings.embedding_dimensions ?? INDEXED_EMBEDDING_DIMENSIONS } : {}),
+  });
+  const data = await response.json();
+  const embedding = data?.data?.[0]?.embedding;
+  if (!Array.isArray(embedding)) throw new LlmError('AI service returned no embedding', 502);
+  return { embedding, model };
+}
@@ -0,0 +1,385 @@
+/**
+ * Deterministic offline provider: questions from templates, a canned chat
+ * reply and hashed bag-of-words embeddings, so the TOS-to-test pipeline runs
+ * without network access. The same inputs always give the same output.
+ *
+ * Plain TypeScript with no imports: the edge functions load it through
+ * llm.ts and the app's template generator (src/services/ai/generate.ts)
+ * shares its templates.
+ */
+
+export type TemplateBloomLevel = 'remembering' | 'understanding' | 'applying' | 'analyzing' | 'evaluating' | 'creating';
+
+// Question stems by Bloom level; {topic} is replaced with the topic
+export const QUESTION_TEMPLATES: Record<TemplateBloomLevel, { mcq: string[]; essay: string[] }> = {
+  remembering: {
+    mcq: [
+      "Which of the following best defines {topic}?",
+      "What is the primary characteristic of {topic}?",
+      "Identify the main component of {topic}.",
+      "Select the correct term for {topic}."
+    ],
+    essay: [
+      "Define {topic} and list its key characteristics.",
+      "Identify the main elements of {topic}.",
+      "List the fundamental principles of {topic}."
+    ]
+  },
+  understanding: {
+    mcq: [
+      "Which statement best explains {topic}?",
+      "How does {topic} relate to its broader context?",
+      "What is the significance of {topic}?",
+      "Which example best illustrates {topic}?"
+    ],
+    essay: [
+      "Explain the concept of {topic} in your own words.",
+      "Describe how {topic} functions in practice.",
+      "Summarize the key principles underlying {topic}."
+    ]
+  },
+  applying: {
+    mcq: [
+      "In which scenario would you apply {topic}?",
+      "How would you use {topic} to solve this problem?",
+      "Which approach demonstrates the application of {topic}?",
+      "What is the best way to implement {topic}?"
+    ],
+    essay: [
+      "Demonstrate how to apply {topic} in a real-world scenario.",
+      "Show how {topic} can be used to solve practical problems.",
+      "Apply the principles of {topic} to a specific case."
+    ]
+  },
+  analyzing: {
+    mcq: [
+      "Which factor most influences {topic}?",
+      "How do the components of {topic} interact?",
+      "What is the relationship between {topic} and related concepts?",
+      "Which element is most critical to {topic}?"
+    ],
+    essay: [
+      "Analyze the key components of {topic} and their relationships.",
+      "Examine the factors that influence {topic}.",
+      "Compare and contrast different aspects of {topic}."
+    ]
+  },
+  evaluating: {
+    mcq: [
+      "Which approach to {topic} is most effective?",
+      "What is the strongest argument for {topic}?",
+      "Which criterion best evaluates {topic}?",
+      "What is the most significant limitation of {topic}?"
+    ],
+    essay: [
+      "Evaluate the effectiveness of {topic} in achieving its goals.",
+      "Assess the strengths and weaknesses of {topic}.",
+      "Critique the current understanding of {topic}."
+    ]
+  },
+  creating: {
+    mcq: [
+      "Which design would best incorporate {topic}?",
+      "How would you modify {topic} to improve it?",
+      "What new approach could enhance {topic}?",
+      "Which innovation builds upon {topic}?"
+    ],
+    essay: [
+      "Design a new approach to {topic} that addresses current limitations.",
+      "Create a comprehensive plan incorporating {topic}.",
+      "Develop an innovative solution using {topic}."
+    ]
+  }
+};
+
+// Answer options by Bloom level: the first is the key, the rest are distractors
+export const CHOICE_TEMPLATES: Record<TemplateBloomLevel, string[]> = {
+  remembering: [
+    "The fundamental definition of {topic}",
+    "A basic characteristic of {topic}",
+    "An alternative interpretation of {topic}",
+    "A related but distinct concept"
+  ],
+  understanding: [
+    "A comprehensive explanation of {topic}",
+    "A partial understanding of {topic}",
+    "A common misconception about {topic}",
+    "An unrelated concept"
+  ],
+  applying: [
+    "The correct application of {topic}",
+    "A misapplication of {topic}",
+    "A theoretical approach to {topic}",
+    "An unrelated method"
+  ],
+  analyzing: [
+    "The most significant factor in {topic}",
+    "A contributing factor to {topic}",
+    "An unrelated variable",
+    "A contradictory element"
+  ],
+  evaluating: [
+    "The most effective approach to {topic}",
+    "A moderately effective approach",
+    "An ineffective approach",
+    "An unrelated strategy"
+  ],
+  creating: [
+    "An innovative solution using {topic}",
+    "A traditional approach to {topic}",
+    "A flawed implementation",
+    "An unrelated design"
+  ]
+};
+
+// Full-sentence options for offline multiple choice; long enough to pass the generators' content checks
+const OFFLINE_OPTIONS: Record<TemplateBloomLevel, string[]> = {
+  remembering: [
+    "It is the standard term for {concept} as it is defined and used within {topic}",
+    "It names a procedure from a different field that happens to share some vocabulary with {topic}",
+    "It refers to an informal expression that textbooks on {topic} avoid because it is imprecise",
+    "It describes a historical idea about {topic} that current references no longer use"
+  ],
+  understanding: [
+    "It explains how {concept} produces its effect within {topic} and why that effect matters",
+    "It restates the name of {concept} without explaining how it works in {topic}",
+    "It confuses {concept} with a neighbouring idea, reversing cause and effect in {topic}",
+    "It treats {concept} as a fixed rule that holds whatever the conditions in {topic}"
+  ],
+  applying: [
+    "Use {concept} step by step on the given case and check the result against the conditions of {topic}",
+    "Skip the analysis of the case and reuse the answer from an earlier, unrelated problem in {topic}",
+    "Apply {concept} only to the first part of the case and assume the rest follows unchanged",
+    "Replace {concept} with a rule of thumb that ignores the constraints stated for {topic}"
+  ],
+  analyzing: [
+    "{concept} depends on the other parts of {topic}, so a change in one part alters how the others behave",
+    "{concept} works in isolation, so the other parts of {topic} can be studied without reference to it",
+    "{concept} only follows from the other parts of {topic} and never affects them in return",
+    "{concept} is unrelated to the structure of {topic} and is present only by convention"
+  ],
+  evaluating: [
+    "The approach to {concept} that meets the stated criteria for {topic} and is justified by evidence",
+    "The approach to {concept} that is newest, whether or not it meets the criteria for {topic}",
+    "The approach to {concept} that is cheapest, even though it fails the main criteria for {topic}",
+    "The approach to {concept} that changes least, whatever its results for {topic}"
+  ],
+  creating: [
+    "A plan that combines {concept} with the constraints of {topic} into a design that can be tested",
+    "A plan that copies an existing design for {topic} without adapting it to the new situation",
+    "A plan that lists goals for {concept} but gives no structure for reaching them in {topic}",
+    "A plan that tries to cover every case in {topic} at once and so cannot be carried out"
+  ]
+};
+
+const OPERATIONS: Record<TemplateBloomLevel, string> = {
+  remembering: 'recall',
+  understanding: 'explain',
+  applying: 'apply',
+  analyzing: 'analyze',
+  evaluating: 'evaluate',
+  creating: 'design',
+};
+
+const LETTERS = ['A', 'B', 'C', 'D'];
+
+export type OfflineQuestionType = 'mcq' | 'true_false' | 'short_answer' | 'essay';
+
+export interface OfflineQuestionRequest {
+  topic: string;
+  bloom: string;
+  count: number;
+  questionType?: OfflineQuestionType | string;
+  difficulty?: string;
+  knowledgeDimension?: string;
+  /** One concept per question, e.g. the intents a generator assigned */
+  concepts?: string[];
+}
+
+/**
+ * One offline question, carrying the fields each generator's JSON format
+ * reads: `text` with `choices`/`correct_answer` (letters for multiple
+ * choice), `correct_option`/`distractors`, `answer`, `rubric` and so on.
+ */
+export interface OfflineQuestion {
+  text: string;
+  question_type: OfflineQuestionType;
+  choices?: Record<string, string>;
+  correct_answer: string | null;
+  correct_option?: string;
+  distractors?: string[];
+  answer: string;
+  acceptable_answers?: string[];
+  explanation: string;
+  rubric?: Record<string, string>;
+  model_answer?: string;
+  bloom_level: string;
+  difficulty: string;
+  knowledge_dimension: string;
+  targeted_concept: string;
+  cognitive_operation_used: string;
+}
+
+/** FNV-1a; stable across runtimes */
+export function stableHash(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function templateBloom(bloom: string): TemplateBloomLevel {
+  const level = bloom.trim().toLowerCase();
+  return (level in QUESTION_TEMPLATES ? level : 'understanding') as TemplateBloomLevel;
+}
+
+function fill(template: string, topic: string, concept: string): string {
+  return template.replace(/\{topic\}/g, topic).replace(/\{concept\}/g, concept);
+}
+
+function offlineQuestionType(value: string | undefined): OfflineQuestionType {
+  const type = (value ?? 'mcq').toLowerCase().replace(/-/g, '_');
+  if (type === 'true_false' || type === 'truefalse') return 'true_false';
+  if (type === 'short_answer' || type === 'fill_blank' || type === 'identification') return 'short_answer';
+  if (type === 'essay') return 'essay';
+  return 'mcq';
+}
+
+export function offlineQuestions(request: OfflineQuestionRequest): { questions: OfflineQuestion[]; items: OfflineQuestion[] } {
+  const bloom = templateBloom(request.bloom);
+  const type = offlineQuestionType(request.questionType);
+  const topic = request.topic.trim() || 'the topic';
+  const operation = OPERATIONS[bloom];
+  const questions: OfflineQuestion[] = [];
+
+  for (let i = 0; i < Math.max(0, request.count); i++) {
+    const concept = request.concepts?.[i]?.trim() || topic;
+    const seed = stableHash(`${topic}|${bloom}|${type}|${concept}|${i}`);
+    const stems = QUESTION_TEMPLATES[bloom][type === 'essay' ? 'essay' : 'mcq'];
+    const stem = fill(stems[(seed + i) % stems.length], concept === topic ? topic : `${concept} in ${topic}`, concept);
+    const base = {
+      question_type: type,
+      bloom_level: request.bloom,
+      difficulty: request.difficulty ?? 'average',
+      knowledge_dimension: request.knowledgeDimension ?? 'conceptual',
+      targeted_concept: concept,
+      cognitive_operation_used: operation,
+    };
+
+    if (type === 'mcq') {
+      const [key, ...distractors] = OFFLINE_OPTIONS[bloom].map(option => fill(option, topic, concept));
+      const keyIndex = seed % LETTERS.length;
+      const ordered = [...distractors];
+      ordered.splice(keyIndex, 0, key);
+      questions.push({
+        ...base,
+        text: stem,
+        choices: Object.fromEntries(ordered.map((option, j) => [LETTERS[j], option])),
+        correct_answer: LETTERS[keyIndex],
+        correct_option: key,
+        distractors,
+        answer: key,
+        explanation: `The key states what ${concept} means for ${topic}; the other options misstate or misapply it.`,
+      });
+    } else if (type === 'true_false') {
+      const isTrue = seed % 2 === 0;
+      const statement = isTrue
+        ? `${concept} is one of the ideas studied as part of ${topic}.`
+        : `${concept} has no bearing on how ${topic} is studied or applied.`;
+      questions.push({
+        ...base,
+        text: statement,
+        choices: { True: 'True', False: 'False' },
+        correct_answer: isTrue ? 'True' : 'False',
+        answer: isTrue ? 'True' : 'False',
+        explanation: isTrue
+          ? `${concept} is part of ${topic}, so the statement is true.`
+          : `${concept} is part of ${topic}, so the statement is false.`,
+      });
+    } else if (type === 'short_answer') {
+      questions.push({
+        ...base,
+        text: `In ${topic}, the idea this item assesses is called ________.`,
+        correct_answer: concept,
+        acceptable_answers: [concept, concept.toLowerCase()],
+        answer: concept,
+        explanation: `The blank names ${concept}.`,
+      });
+    } else {
+      const modelAnswer = `A complete answer has to ${operation} ${concept} in relation to ${topic}, support each point with an example, and explain how the points connect to one another.`;
+      questions.push({
+        ...base,
+        text: stem,
+        correct_answer: null,
+        answer: modelAnswer,
+        model_answer: modelAnswer,
+        rubric: {
+          '5_points': `Excellent: fully ${operation}s ${concept} with accurate, well-connected examples`,
+          '4_points': `Good: ${operation}s ${concept} accurately with minor gaps`,
+          '3_points': `Satisfactory: addresses ${concept} but with limited depth`,
+          '2_points': `Developing: partly addresses ${concept} with errors`,
+          '1_point': `Beginning: mentions ${concept} without addressing the task`,
+        },
+        explanation: `Scored against the rubric for ${bloom} level work.`,
+      });
+    }
+  }
+
+  return { questions, items: questions };
+}
+
+export interface OfflineChatMessage {
+  role: string;
+  content: string;
+}
+
+/** A deterministic assistant reply; asks for questions get template questions */
+export function offlineReply(messages: OfflineChatMessage[]): string {
+  const last = [...messages].reverse().find(m => m.role === 'user')?.content?.trim() ?? '';
+  const intro = 'The assistant is running in offline mode, so this reply comes from templates rather than a language model.';
+  if (!/\bquestions?\b|\bquiz\b|\bmcqs?\b/i.test(last)) {
+    return `${intro}\n\nAsk an administrator to configure a provider in the AI settings for full answers.`;
+  }
+
+  const topic = /\b(?:about|on|for|covering)\s+(.+?)[?.!]*$/i.exec(last)?.[1] ?? 'the topic';
+  const { questions } = offlineQuestions({ topic, bloom: 'understanding', count: 3, questionType: 'mcq' });
+  const lines = questions.map((q, i) => [
+    `**${i + 1}. ${q.text}**`,
+    ...Object.entries(q.choices ?? {}).map(([letter, text]) => `- ${letter}. ${text}`),
+    `*Answer: ${q.correct_answer} · Bloom: Understanding · Difficulty: Average*`,
+  ].join('\n'));
+  return `${intro}\n\n${lines.join('\n\n')}`;
+}
+
+export const OFFLINE_EMBEDDING_DIMENSIONS = 384;
+export const OFFLINE_EMBEDDING_MODEL = 'local-hashed-ngrams';
+
+/** Character trigrams count for less than whole words; they catch inflections and typos */
+const CHAR_NGRAM_WEIGHT = 0.4;
+
+/**
+ * Feature-hashed words, word bigrams and character trigrams, L2-normalised,
+ * so texts sharing vocabulary (or word stems) land close together under
+ * cosine similarity. Runs on the CPU in the browser and in edge functions
+ * alike, so vectors from either are comparable.
+ */
+export function offlineEmbedding(text: string, dimensions = OFFLINE_EMBEDDING_DIMENSIONS): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const add = (feature: string, weight: number) => {
+    const hash = stableHash(feature);
+    vector[hash % dimensions] += hash & 0x80000000 ? -weight : weight;
+  };
+
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  words.forEach((word, i) => {
+    add(word, 1);
+    if (i > 0) add(`${words[i - 1]} ${word}`, 1);
+    const padded = `#${word}#`;
+    for (let j = 0; j + 3 <= padded.length; j++) add(`#3:${padded.slice(j, j + 3)}`, CHAR_NGRAM_WEIGHT);
+  });
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm ? vector.map(v => v / norm) : vector;
+}
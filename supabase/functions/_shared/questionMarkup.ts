@@ -0,0 +1,115 @@
+/**
+ * Markup parsing shared by the app and the edge functions: question text split
+ * into prose, math and code segments. Pure TypeScript with no imports, so
+ * ml-model-retraining trains on the same classifier text the browser predicts
+ * from. The syntax is described in src/lib/questionMarkup.ts.
+ */
+
+export type MarkupSegment =
+  | { type: 'text'; text: string }
+  | { type: 'math'; tex: string; display: boolean }
+  | { type: 'code'; code: string; language: string | null; block: boolean };
+
+const MARKUP_HINT = /\$|\\\(|\\\[|`/;
+
+export function hasMarkup(text: string | null | undefined): boolean {
+  return !!text && MARKUP_HINT.test(text);
+}
+
+export function parseMarkup(text: string | null | undefined): MarkupSegment[] {
+  const source = text ?? '';
+  const segments: MarkupSegment[] = [];
+  let plain = '';
+  const flush = () => {
+    if (plain) segments.push({ type: 'text', text: plain });
+    plain = '';
+  };
+
+  let i = 0;
+  while (i < source.length) {
+    const atLineStart = i === 0 || source[i - 1] === '\n';
+
+    if (atLineStart && source.startsWith('```', i)) {
+      const lineEnd = source.indexOf('\n', i);
+      const close = lineEnd === -1 ? -1 : source.indexOf('\n```', lineEnd - 1);
+      if (close !== -1) {
+        flush();
+        const language = source.slice(i + 3, lineEnd).trim() || null;
+        segments.push({ type: 'code', code: source.slice(lineEnd + 1, Math.max(lineEnd + 1, close)), language, block: true });
+        const after = source.indexOf('\n', close + 4);
+        i = after === -1 ? source.length : after + 1;
+        continue;
+      }
+    }
+
+    if (source.startsWith('\\$', i)) {
+      plain += '$';
+      i += 2;
+      continue;
+    }
+
+    const delimited = (open: string, closeWith: string, display: boolean) => {
+      if (!source.startsWith(open, i)) return false;
+      const end = source.indexOf(closeWith, i + open.length);
+      if (end === -1 || end === i + open.length) return false;
+      flush();
+      segments.push({ type: 'math', tex: source.slice(i + open.length, end).trim(), display });
+      i = end + closeWith.length;
+      return true;
+    };
+    if (delimited('$$', '$$', true) || delimited('\\[', '\\]', true) || delimited('\\(', '\\)', false)) continue;
+
+    if (source[i] === '$') {
+      const end = closingDollar(source, i);
+      if (end !== -1) {
+        flush();
+        segments.push({ type: 'math', tex: source.slice(i + 1, end), display: false });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (source[i] === '`') {
+      const end = source.indexOf('`', i + 1);
+      if (end > i + 1 && !source.slice(i + 1, end).includes('\n')) {
+        flush();
+        segments.push({ type: 'code', code: source.slice(i + 1, end), language: null, block: false });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    plain += source[i];
+    i++;
+  }
+  flush();
+  return segments;
+}
+
+function closingDollar(source: string, open: number): number {
+  const first = source[open + 1];
+  if (first === undefined || /\s/.test(first)) return -1;
+  for (let j = open + 1; j < source.length; j++) {
+    if (source[j] === '\n' && source[j + 1] === '\n') return -1;
+    if (source[j] === '\\') {
+      j++;
+      continue;
+    }
+    if (source[j] === '$' && !/\s/.test(source[j - 1]) && !/\d/.test(source[j + 1] ?? '')) return j;
+  }
+  return -1;
+}
+
+/**
+ * What the classifiers read: prose only. Math and code are replaced by a space
+ * so TeX commands and code keywords ("define", "list", "return") do not count
+ * as Bloom verbs or knowledge indicators.
+ */
+export function classifierText(text: string | null | undefined): string {
+  if (!hasMarkup(text)) return text ?? '';
+  return parseMarkup(text)
+    .map(segment => (segment.type === 'text' ? segment.text : ' '))
+    .join('')
+    .replace(/[ \t]{2,}/g, ' ')
+    .trim();
+}
@@ -0,0 +1,313 @@
+/**
+ * Lightweight text classifier: TF-IDF features over words and word bigrams,
+ * multinomial logistic regression trained by SGD. Pure TypeScript with no
+ * imports, so ml-model-retraining trains with it and the browser classifier
+ * predicts with the same code.
+ *
+ * A trained model is plain JSON (TextClassifierModel) and is stored as the
+ * `weights` of an ml_models row.
+ */
+
+export const MODEL_FORMAT = 'tfidf-logreg-v1';
+
+export interface TrainingExample {
+  text: string;
+  label: string;
+}
+
+export interface TextClassifierModel {
+  format: typeof MODEL_FORMAT;
+  vocabulary: string[];
+  idf: number[];
+  classes: string[];
+  /** One row per class, one column per vocabulary term */
+  weights: number[][];
+  bias: number[];
+}
+
+export interface TrainingOptions {
+  /** Vocabulary size cap; the most frequent terms are kept */
+  maxFeatures?: number;
+  /** Terms in fewer training texts than this are dropped */
+  minDocumentFrequency?: number;
+  epochs?: number;
+  learningRate?: number;
+  /** L2 penalty on the weights */
+  l2?: number;
+  /** Share of each class held out for evaluation */
+  holdoutFraction?: number;
+  /** Weight classes inversely to their frequency */
+  balanced?: boolean;
+  seed?: number;
+}
+
+export interface ClassMetrics {
+  precision: number;
+  recall: number;
+  f1: number;
+  support: number;
+}
+
+export interface EvaluationReport {
+  accuracy: number;
+  macro_precision: number;
+  macro_recall: number;
+  macro_f1: number;
+  per_class: Record<string, ClassMetrics>;
+  /** matrix[actual][predicted], both indexed by labels */
+  confusion_matrix: { labels: string[]; matrix: number[][] };
+  size: number;
+}
+
+export interface TrainingResult {
+  model: TextClassifierModel;
+  evaluation: EvaluationReport;
+  train_size: number;
+  holdout_size: number;
+  options: Required<TrainingOptions>;
+}
+
+export interface Prediction {
+  label: string;
+  confidence: number;
+  probabilities: Record<string, number>;
+}
+
+export const DEFAULT_TRAINING_OPTIONS: Required<TrainingOptions> = {
+  maxFeatures: 3000,
+  minDocumentFrequency: 2,
+  epochs: 40,
+  learningRate: 0.5,
+  l2: 1e-4,
+  holdoutFraction: 0.2,
+  balanced: true,
+  seed: 17,
+};
+
+type SparseVector = { indices: number[]; values: number[] };
+
+/** Lower-cased words and adjacent word pairs */
+export function tokenize(text: string): string[] {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+(?:'[\p{L}]+)?/gu) ?? [];
+  return [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)];
+}
+
+/** Deterministic PRNG so training runs are reproducible */
+function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Stratified split: each class keeps its share in the holdout set. Classes
+ * with a single example stay in training.
+ */
+export function splitHoldout<T extends { label: string }>(
+  examples: T[],
+  fraction: number,
+  seed = DEFAULT_TRAINING_OPTIONS.seed
+): { train: T[]; holdout: T[] } {
+  const random = mulberry32(seed);
+  const byClass = new Map<string, T[]>();
+  for (const example of examples) {
+    byClass.set(example.label, [...(byClass.get(example.label) ?? []), example]);
+  }
+
+  const train: T[] = [];
+  const holdout: T[] = [];
+  for (const label of [...byClass.keys()].sort()) {
+    const members = shuffle(byClass.get(label)!, random);
+    const held = members.length < 2 ? 0 : Math.max(1, Math.round(members.length * fraction));
+    holdout.push(...members.slice(0, held));
+    train.push(...members.slice(held));
+  }
+  return { train, holdout };
+}
+
+function buildVocabulary(texts: string[][], maxFeatures: number, minDf: number): { vocabulary: string[]; idf: number[] } {
+  const documentFrequency = new Map<string, number>();
+  for (const tokens of texts) {
+    for (const token of new Set(tokens)) {
+      documentFrequency.set(token, (documentFrequency.get(token) ?? 0) + 1);
+    }
+  }
+
+  const vocabulary = [...documentFrequency.entries()]
+    .filter(([, df]) => df >= minDf)
+    .sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : 1))
+    .slice(0, maxFeatures)
+    .map(([term]) => term);
+  const n = texts.length;
+  const idf = vocabulary.map(term => Math.log((1 + n) / (1 + documentFrequency.get(term)!)) + 1);
+  return { vocabulary, idf };
+}
+
+function vectorize(tokens: string[], index: Map<string, number>, idf: number[]): SparseVector {
+  const counts = new Map<number, number>();
+  for (const token of tokens) {
+    const i = index.get(token);
+    if (i !== undefined) counts.set(i, (counts.get(i) ?? 0) + 1);
+  }
+
+  const indices = [...counts.keys()].sort((a, b) => a - b);
+  const values = indices.map(i => (1 + Math.log(counts.get(i)!)) * idf[i]);
+  const norm = Math.sqrt(values.reduce((sum, v) => sum + v * v, 0));
+  return { indices, values: norm ? values.map(v => v / norm) : values };
+}
+
+function indexOf(model: TextClassifierModel): Map<string, number> {
+  return new Map(model.vocabulary.map((term, i) => [term, i]));
+}
+
+function softmax(scores: number[]): number[] {
+  const max = Math.max(...scores);
+  const exps = scores.map(s => Math.exp(s - max));
+  const total = exps.reduce((sum, e) => sum + e, 0);
+  return exps.map(e => e / total);
+}
+
+function probabilitiesFor(model: TextClassifierModel, x: SparseVector): number[] {
+  const scores = model.classes.map((_, c) => {
+    let score = model.bias[c];
+    const row = model.weights[c];
+    for (let k = 0; k < x.indices.length; k++) score += row[x.indices[k]] * x.values[k];
+    return score;
+  });
+  return softmax(scores);
+}
+
+export function predict(model: TextClassifierModel, text: string): Prediction {
+  const probabilities = probabilitiesFor(model, vectorize(tokenize(text), indexOf(model), model.idf));
+  let best = 0;
+  probabilities.forEach((p, c) => { if (p > probabilities[best]) best = c; });
+  return {
+    label: model.classes[best],
+    confidence: probabilities[best],
+    probabilities: Object.fromEntries(model.classes.map((label, c) => [label, probabilities[c]])),
+  };
+}
+
+/** Accuracy, per-class precision/recall/F1 and the confusion matrix on labelled examples */
+export function evaluate(model: TextClassifierModel, examples: TrainingExample[]): EvaluationReport {
+  const labels = [...new Set([...model.classes, ...examples.map(e => e.label)])];
+  const position = new Map(labels.map((label, i) => [label, i]));
+  const matrix = labels.map(() => labels.map(() => 0));
+
+  const index = indexOf(model);
+  let correct = 0;
+  for (const example of examples) {
+    const probabilities = probabilitiesFor(model, vectorize(tokenize(example.text), index, model.idf));
+    const predicted = model.classes[probabilities.indexOf(Math.max(...probabilities))];
+    matrix[position.get(example.label)!][position.get(predicted)!]++;
+    if (predicted === example.label) correct++;
+  }
+
+  const perClass: Record<string, ClassMetrics> = {};
+  labels.forEach((label, i) => {
+    const truePositives = matrix[i][i];
+    const predictedCount = matrix.reduce((sum, row) => sum + row[i], 0);
+    const support = matrix[i].reduce((sum, v) => sum + v, 0);
+    const precision = predictedCount ? truePositives / predictedCount : 0;
+    const recall = support ? truePositives / support : 0;
+    const f1 = precision + recall ? (2 * precision * recall) / (precision + recall) : 0;
+    perClass[label] = { precision, recall, f1, support };
+  });
+
+  const supported = labels.filter(label => perClass[label].support > 0);
+  const macro = (key: keyof ClassMetrics) =>
+    supported.length ? supported.reduce((sum, label) => sum + perClass[label][key], 0) / supported.length : 0;
+
+  return {
+    accuracy: examples.length ? correct / examples.length : 0,
+    macro_precision: macro('precision'),
+    macro_recall: macro('recall'),
+    macro_f1: macro('f1'),
+    per_class: perClass,
+    confusion_matrix: { labels, matrix },
+    size: examples.length,
+  };
+}
+
+/**
+ * Fits a model on a stratified training split and evaluates it on the
+ * held-out remainder. Needs at least two classes.
+ */
+export function trainTextClassifier(examples: TrainingExample[], options: TrainingOptions = {}): TrainingResult {
+  const opts: Required<TrainingOptions> = { ...DEFAULT_TRAINING_OPTIONS, ...options };
+  const classes = [...new Set(examples.map(e => e.label))].sort();
+  if (classes.length < 2) throw new Error('Training needs examples of at least two classes');
+
+  const { train, holdout } = splitHoldout(examples, opts.holdoutFraction, opts.seed);
+  const tokens = train.map(e => tokenize(e.text));
+  const { vocabulary, idf } = buildVocabulary(tokens, opts.maxFeatures, opts.minDocumentFrequency);
+  const index = new Map(vocabulary.map((term, i) => [term, i]));
+  const vectors = tokens.map(t => vectorize(t, index, idf));
+  const targets = train.map(e => classes.indexOf(e.label));
+
+  const classCounts = classes.map((_, c) => targets.filter(t => t === c).length);
+  const classWeight = classCounts.map(count =>
+    opts.balanced && count ? train.length / (classes.length * count) : 1
+  );
+
+  const model: TextClassifierModel = {
+    format: MODEL_FORMAT,
+    vocabulary,
+    idf,
+    classes,
+    weights: classes.map(() => new Array<number>(vocabulary.length).fill(0)),
+    bias: classes.map(() => 0),
+  };
+
+  const random = mulberry32(opts.seed);
+  const order = train.map((_, i) => i);
+  for (let epoch = 0; epoch < opts.epochs; epoch++) {
+    const rate = opts.learningRate / (1 + epoch * 0.1);
+    for (const i of shuffle(order, random)) {
+      const x = vectors[i];
+      const probabilities = probabilitiesFor(model, x);
+      const weight = classWeight[targets[i]];
+      for (let c = 0; c < classes.length; c++) {
+        const gradient = (probabilities[c] - (targets[i] === c ? 1 : 0)) * weight;
+        const row = model.weights[c];
+        for (let k = 0; k < x.indices.length; k++) {
+          const f = x.indices[k];
+          row[f] -= rate * (gradient * x.values[k] + opts.l2 * row[f]);
+        }
+        model.bias[c] -= rate * gradient;
+      }
+    }
+  }
+
+  // Round so the stored JSON stays compact
+  model.weights = model.weights.map(row => row.map(w => Math.round(w * 1e5) / 1e5));
+  model.bias = model.bias.map(b => Math.round(b * 1e5) / 1e5);
+  model.idf = model.idf.map(v => Math.round(v * 1e5) / 1e5);
+
+  return {
+    model,
+    evaluation: evaluate(model, holdout),
+    train_size: train.length,
+    holdout_size: holdout.length,
+    options: opts,
+  };
+}
+
+export function isTextClassifierModel(value: unknown): value is TextClassifierModel {
+  const v = value as TextClassifierModel | null;
+  return !!v && v.format === MODEL_FORMAT && Array.isArray(v.vocabulary) && Array.isArray(v.weights) && Array.isArray(v.classes);
+}
@@ -1,5 +1,6 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { chatJson, loadLlmSettings } from "../_shared/llm.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -453,6 +454,82 @@ Return JSON:
       "answer_type": "${defaultAnswerType}"
     }
   ]
+}`;
+      break;
+    case 'matching':
+      formatSection = `=== MATCHING TYPE FORMAT ===
+- Each question is one matching set of 4-6 premises about ${topic}
+- "responses" lists the answers in alphabetical order, plus 1-2 plausible decoys at the end
+- correct_answer gives the response letter for each premise, in premise order, separated by commas
+
+Return JSON:
+{
+  "questions": [
+    {
+      "text": "Match each term with its description.",
+      "choices": {"premises": ["Term 1", "Term 2", "Term 3"], "responses": ["Description a", "Description b", "Description c", "Decoy"]},
+      "correct_answer": "B,C,A",
+      "answer": "Term 1 – Description b; ...",
+      "answer_type": "${defaultAnswerType}"
+    }
+  ]
+}`;
+      break;
+    case 'ordering':
+      formatSection = `=== ORDERING FORMAT ===
+- Each question asks for 4-6 steps, stages or events to be put in sequence
+- List the steps OUT of order under letters A, B, C, ...
+- correct_answer gives the letters in the correct order, separated by commas
+
+Return JSON:
+{
+  "questions": [
+    {
+      "text": "Arrange the steps of ... in the correct order.",
+      "choices": {"A": "Step", "B": "Step", "C": "Step", "D": "Step"},
+      "correct_answer": "C,A,D,B",
+      "answer": "Why this order is correct",
+      "answer_type": "${defaultAnswerType}"
+    }
+  ]
+}`;
+      break;
+    case 'multiple_response':
+      formatSection = `=== MULTIPLE RESPONSE FORMAT ===
+- 5 choices (A-E), of which 2 or 3 are correct
+- Every choice must be clearly correct or clearly incorrect on its own
+- correct_answer lists every correct letter, separated by commas
+
+Return JSON:
+{
+  "questions": [
+    {
+      "text": "Which of the following ...? Select all that apply.",
+      "choices": {"A": "...", "B": "...", "C": "...", "D": "...", "E": "..."},
+      "correct_answer": "A,C",
+      "answer": "Why each correct choice applies",
+      "answer_type": "${defaultAnswerType}"
+    }
+  ]
+}`;
+      break;
+    case 'numeric':
+      formatSection = `=== NUMERIC RESPONSE FORMAT ===
+- Each question is a problem with a single numerical answer
+- Give all values needed to solve it in the question text
+- correct_answer is the number only; put the unit and allowed tolerance in choices
+
+Return JSON:
+{
+  "questions": [
+    {
+      "text": "Problem text",
+      "choices": {"tolerance": 0.01, "tolerance_type": "absolute", "unit": "m/s"},
+      "correct_answer": "12.5",
+      "answer": "Worked solution",
+      "answer_type": "${defaultAnswerType}"
+    }
+  ]
 }`;
       break;
     default: // mcq
@@ -608,25 +685,8 @@ serve(async (req) => {
       );
     }
 
-    // Try Lovable AI Gateway first, fall back to OpenAI
-    const lovableApiKey = Deno.env.get('LOVABLE_API_KEY');
-    const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
-    
-    const apiUrl = lovableApiKey 
-      ? 'https://ai.gateway.lovable.dev/v1/chat/completions'
-      : 'https://api.openai.com/v1/chat/completions';
-    const apiKey = lovableApiKey || openAIApiKey;
-    const modelName = lovableApiKey ? 'google/gemini-2.5-flash' : 'gpt-4o-mini';
-    
-    if (!apiKey) {
-      console.error('No AI API key configured (checked LOVABLE_API_KEY and OPENAI_API_KEY)');
-      return new Response(
-        JSON.stringify({ error: 'AI service not configured' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    console.log(`Using AI provider: ${lovableApiKey ? 'Lovable Gateway' : 'OpenAI'}, model: ${modelName}`);
+    const settings = await loadLlmSettings(roleClient, claimsData.claims.sub);
+    console.log(`Using AI provider: ${settings.provider}, model: ${settings.model}`);
 
     const isMCQ = question_type === 'mcq';
     const isTrueFalse = question_type === 'true_false';
@@ -659,43 +719,29 @@ serve(async (req) => {
       });
     }
 
-    const response = await fetch(apiUrl, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: modelName,
+    let generatedQuestions: { questions?: unknown[] };
+    try {
+      generatedQuestions = await chatJson(settings, {
         messages: [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: prompt }
         ],
-        response_format: { type: "json_object" },
         temperature: isIntentDriven ? 0.2 : 0.4,
-        max_tokens: 3000
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      console.error('AI API error:', error);
-      return new Response(
-        JSON.stringify({ error: 'Failed to generate questions from AI service', details: error }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const aiResponse = await response.json();
-    
-    let generatedQuestions;
-    try {
-      const content = aiResponse.choices[0].message.content;
-      generatedQuestions = JSON.parse(content);
-    } catch (parseError) {
-      console.error('Failed to parse AI response:', parseError);
+        maxTokens: 3000,
+        offline: {
+          topic,
+          bloom: bloom_level,
+          difficulty,
+          knowledgeDimension: knowledge_dimension.toLowerCase(),
+          questionType: question_type,
+          count: isIntentDriven ? intents.length : count,
+          concepts: isIntentDriven ? intents.map((intent: IntentPayload) => intent.assigned_concept) : undefined
+        }
+      });
+    } catch (aiError) {
+      console.error('AI provider error:', aiError);
       return new Response(
-        JSON.stringify({ error: 'Invalid response format from AI service' }),
+        JSON.stringify({ error: 'Failed to generate questions from AI service', details: aiError instanceof Error ? aiError.message : String(aiError) }),
         { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
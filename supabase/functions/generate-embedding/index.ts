@@ -1,8 +1,7 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
-
-const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
+import { LlmError, createEmbedding, loadLlmSettings } from '../_shared/llm.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -53,37 +52,26 @@ serve(async (req) => {
 
     console.log('Generating embedding for text:', text.substring(0, 100) + '...');
 
-    const response = await fetch('https://api.openai.com/v1/embeddings', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openAIApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'text-embedding-3-small',
-        input: text,
-        encoding_format: 'float'
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('OpenAI API error:', response.status, errorText);
+    const settings = await loadLlmSettings(roleClient, claimsData.claims.sub);
+    let result: { embedding: number[]; model: string };
+    try {
+      result = await createEmbedding(settings, text);
+    } catch (error) {
+      const status = error instanceof LlmError ? error.status : 500;
+      console.error('Embedding provider error:', status, error);
       return new Response(
-        JSON.stringify({ error: `OpenAI API error: ${response.status}` }),
-        { status: response.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: `Embedding provider error: ${status}` }),
+        { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
-
-    const data = await response.json();
-    const embedding = data.data[0].embedding;
+    const { embedding, model } = result;
 
     console.log('Embedding generated successfully, dimensions:', embedding.length);
 
     return new Response(
       JSON.stringify({ 
         embedding,
-        model: 'text-embedding-3-small',
+        model,
         dimensions: embedding.length
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
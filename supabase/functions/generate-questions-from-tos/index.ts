@@ -1,6 +1,8 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { LlmSettings, chatJson, loadLlmSettings } from "../_shared/llm.ts";
+import type { OfflineQuestionRequest } from "../_shared/offlineProvider.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -681,16 +683,11 @@ function validateBloomEnforcement(
 
 async function fillSlotsWithAI(
   slots: Slot[],
-  registry: GenerationRegistry
+  registry: GenerationRegistry,
+  settings: LlmSettings
 ): Promise<Slot[]> {
   if (slots.length === 0) return [];
 
-  const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
-  if (!openAIApiKey) {
-    console.error('OpenAI API key not configured');
-    return slots.map(s => ({ ...s, filled: false }));
-  }
-
   // Group by topic+bloom+questionType for batch generation
   const slotGroups = new Map<string, Slot[]>();
   for (const slot of slots) {
@@ -738,7 +735,7 @@ async function fillSlotsWithAI(
           topic,
           bloom,
           intents,
-          openAIApiKey,
+          settings,
           registry
         );
 
@@ -895,7 +892,7 @@ async function generateQuestionsWithIntents(
     questionType: string;
     points: number;
   }>,
-  apiKey: string,
+  settings: LlmSettings,
   registry: GenerationRegistry
 ): Promise<any[]> {
   const normalizedBloom = bloom.charAt(0).toUpperCase() + bloom.slice(1).toLowerCase();
@@ -910,31 +907,65 @@ async function generateQuestionsWithIntents(
 
   // Generate MCQ questions
   if (mcqIntents.length > 0) {
-    const mcqQuestions = await generateMCQQuestions(topic, normalizedBloom, mcqIntents, apiKey, registry);
+    const mcqQuestions = await generateMCQQuestions(topic, normalizedBloom, mcqIntents, settings, registry);
     allQuestions.push(...mcqQuestions);
   }
 
   // Generate True/False questions
   if (tfIntents.length > 0) {
-    const tfQuestions = await generateTrueFalseQuestions(topic, normalizedBloom, tfIntents, apiKey, registry);
+    const tfQuestions = await generateTrueFalseQuestions(topic, normalizedBloom, tfIntents, settings, registry);
     allQuestions.push(...tfQuestions);
   }
 
   // Generate Short Answer / Fill in the Blank questions
   if (shortAnswerIntents.length > 0) {
-    const shortAnswerQuestions = await generateShortAnswerQuestions(topic, normalizedBloom, shortAnswerIntents, apiKey, registry);
+    const shortAnswerQuestions = await generateShortAnswerQuestions(topic, normalizedBloom, shortAnswerIntents, settings, registry);
     allQuestions.push(...shortAnswerQuestions);
   }
 
   // Generate Essay questions
   if (essayIntents.length > 0) {
-    const essayQuestions = await generateEssayQuestions(topic, normalizedBloom, essayIntents, apiKey, registry);
+    const essayQuestions = await generateEssayQuestions(topic, normalizedBloom, essayIntents, settings, registry);
     allQuestions.push(...essayQuestions);
   }
 
   return allQuestions;
 }
 
+/**
+ * One question as the generation prompts ask for it; fields vary by type
+ */
+interface GeneratedItem {
+  text?: string;
+  correct_option?: string;
+  correct_answer?: string;
+  distractors?: string[];
+  explanation?: string;
+  acceptable_answers?: string[];
+  rubric?: Record<string, string>;
+  model_answer?: string;
+}
+
+/**
+ * What the offline provider generates for a batch of intents
+ */
+function offlineRequest(
+  topic: string,
+  bloom: string,
+  intents: Array<{ concept: string; difficulty?: string; knowledgeDimension?: string }>,
+  questionType: string
+): OfflineQuestionRequest {
+  return {
+    topic,
+    bloom,
+    questionType,
+    count: intents.length,
+    difficulty: intents[0]?.difficulty,
+    knowledgeDimension: intents[0]?.knowledgeDimension,
+    concepts: intents.map(intent => intent.concept)
+  };
+}
+
 /**
  * Shuffle an array using Fisher-Yates algorithm
  */
@@ -986,7 +1017,7 @@ async function generateMCQQuestions(
   topic: string,
   bloom: string,
   intents: any[],
-  apiKey: string,
+  settings: LlmSettings,
   registry: GenerationRegistry
 ): Promise<any[]> {
   // Get the enhanced bloom configuration for cognitive enforcement
@@ -1099,14 +1130,9 @@ Return ONLY valid JSON with COMPLETE content:
 
   console.log(`🤖 Generating ${intents.length} MCQ questions for ${topic}/${bloom}`);
 
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'gpt-4o-mini',
+  let generatedQuestions: { questions?: GeneratedItem[] };
+  try {
+    generatedQuestions = await chatJson(settings, {
       messages: [
         {
           role: 'system',
@@ -1122,29 +1148,15 @@ CRITICAL RULES:
         },
         { role: 'user', content: prompt }
       ],
-      response_format: { type: "json_object" },
       temperature: 0.6,
-      max_tokens: 4000
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    console.error('OpenAI API error for MCQ:', error);
+      maxTokens: 4000,
+      offline: offlineRequest(topic, bloom, intents, 'mcq')
+    });
+  } catch (aiError) {
+    console.error('AI provider error for MCQ:', aiError);
     throw new Error('Failed to generate MCQ questions');
   }
 
-  const aiResponse = await response.json();
-  
-  let generatedQuestions;
-  try {
-    const content = aiResponse.choices[0].message.content;
-    generatedQuestions = JSON.parse(content);
-  } catch (parseError) {
-    console.error('Failed to parse MCQ response:', parseError);
-    throw new Error('Invalid MCQ response format');
-  }
-
   // ENHANCED PLACEHOLDER DETECTION - More comprehensive patterns
   const placeholderPatterns = [
     /correct answer (related to|about|for)/i,
@@ -1295,7 +1307,7 @@ async function generateTrueFalseQuestions(
   topic: string,
   bloom: string,
   intents: any[],
-  apiKey: string,
+  settings: LlmSettings,
   registry: GenerationRegistry
 ): Promise<any[]> {
   const questionsSpec = intents.map((intent, idx) => `
@@ -1332,14 +1344,9 @@ Return ONLY valid JSON:
 
   console.log(`🤖 Generating ${intents.length} T/F questions for ${topic}/${bloom}`);
 
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'gpt-4o-mini',
+  let generatedQuestions: { questions?: GeneratedItem[] };
+  try {
+    generatedQuestions = await chatJson(settings, {
       messages: [
         {
           role: 'system',
@@ -1347,29 +1354,15 @@ Return ONLY valid JSON:
         },
         { role: 'user', content: prompt }
       ],
-      response_format: { type: "json_object" },
       temperature: 0.3,
-      max_tokens: 2000
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    console.error('OpenAI API error for T/F:', error);
+      maxTokens: 2000,
+      offline: offlineRequest(topic, bloom, intents, 'true_false')
+    });
+  } catch (aiError) {
+    console.error('AI provider error for T/F:', aiError);
     throw new Error('Failed to generate T/F questions');
   }
 
-  const aiResponse = await response.json();
-  
-  let generatedQuestions;
-  try {
-    const content = aiResponse.choices[0].message.content;
-    generatedQuestions = JSON.parse(content);
-  } catch (parseError) {
-    console.error('Failed to parse T/F response:', parseError);
-    throw new Error('Invalid T/F response format');
-  }
-
   return (generatedQuestions.questions || []).map((q: any, idx: number) => {
     const intent = intents[idx];
     
@@ -1411,7 +1404,7 @@ async function generateShortAnswerQuestions(
   topic: string,
   bloom: string,
   intents: any[],
-  apiKey: string,
+  settings: LlmSettings,
   registry: GenerationRegistry
 ): Promise<any[]> {
   const questionsSpec = intents.map((intent, idx) => `
@@ -1455,14 +1448,9 @@ Return ONLY valid JSON:
 
   console.log(`🤖 Generating ${intents.length} Short Answer questions for ${topic}/${bloom}`);
 
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'gpt-4o-mini',
+  let generatedQuestions: { questions?: GeneratedItem[] };
+  try {
+    generatedQuestions = await chatJson(settings, {
       messages: [
         {
           role: 'system',
@@ -1470,29 +1458,15 @@ Return ONLY valid JSON:
         },
         { role: 'user', content: prompt }
       ],
-      response_format: { type: "json_object" },
       temperature: 0.3,
-      max_tokens: 2000
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    console.error('OpenAI API error for Short Answer:', error);
+      maxTokens: 2000,
+      offline: offlineRequest(topic, bloom, intents, 'short_answer')
+    });
+  } catch (aiError) {
+    console.error('AI provider error for Short Answer:', aiError);
     throw new Error('Failed to generate Short Answer questions');
   }
 
-  const aiResponse = await response.json();
-  
-  let generatedQuestions;
-  try {
-    const content = aiResponse.choices[0].message.content;
-    generatedQuestions = JSON.parse(content);
-  } catch (parseError) {
-    console.error('Failed to parse Short Answer response:', parseError);
-    throw new Error('Invalid Short Answer response format');
-  }
-
   return (generatedQuestions.questions || []).map((q: any, idx: number) => {
     const intent = intents[idx];
     
@@ -1528,7 +1502,7 @@ async function generateEssayQuestions(
   topic: string,
   bloom: string,
   intents: any[],
-  apiKey: string,
+  settings: LlmSettings,
   registry: GenerationRegistry
 ): Promise<any[]> {
   const questionsSpec = intents.map((intent, idx) => `
@@ -1571,14 +1545,9 @@ Return ONLY valid JSON:
 
   console.log(`🤖 Generating ${intents.length} Essay questions for ${topic}/${bloom}`);
 
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'gpt-4o-mini',
+  let generatedQuestions: { questions?: GeneratedItem[] };
+  try {
+    generatedQuestions = await chatJson(settings, {
       messages: [
         {
           role: 'system',
@@ -1586,29 +1555,15 @@ Return ONLY valid JSON:
         },
         { role: 'user', content: prompt }
       ],
-      response_format: { type: "json_object" },
       temperature: 0.4,
-      max_tokens: 3000
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    console.error('OpenAI API error for Essay:', error);
+      maxTokens: 3000,
+      offline: offlineRequest(topic, bloom, intents, 'essay')
+    });
+  } catch (aiError) {
+    console.error('AI provider error for Essay:', aiError);
     throw new Error('Failed to generate Essay questions');
   }
 
-  const aiResponse = await response.json();
-  
-  let generatedQuestions;
-  try {
-    const content = aiResponse.choices[0].message.content;
-    generatedQuestions = JSON.parse(content);
-  } catch (parseError) {
-    console.error('Failed to parse Essay response:', parseError);
-    throw new Error('Invalid Essay response format');
-  }
-
   return (generatedQuestions.questions || []).map((q: any, idx: number) => {
     const intent = intents[idx];
     
@@ -1666,6 +1621,7 @@ serve(async (req) => {
     }
 
     const body: GenerationInput = await req.json();
+    const settings = await loadLlmSettings(roleClient, claimsData.claims.sub);
     
     if (!body.tos_id || !body.total_items || !body.distributions) {
       throw new Error('Missing required fields: tos_id, total_items, distributions');
@@ -1710,7 +1666,7 @@ serve(async (req) => {
     }
 
     // STEP 2: Generate AI questions for unfilled slots
-    const aiFilled = await fillSlotsWithAI(unfilled, registry);
+    const aiFilled = await fillSlotsWithAI(unfilled, registry, settings);
 
     // Merge results
     const filledById = new Map<string, Slot>();
@@ -1868,13 +1824,7 @@ serve(async (req) => {
       console.log(`   🎯 Generating ${slotsToFill.length} repair questions...`);
       
       // Generate repair questions using AI
-      const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
-      if (!openAIApiKey) {
-        console.error(`   ❌ Cannot generate repair questions: OpenAI API key not configured`);
-        break;
-      }
-      
-      const repairFilled = await fillSlotsWithAI(slotsToFill, registry);
+      const repairFilled = await fillSlotsWithAI(slotsToFill, registry, settings);
       
       // Validate and add repair questions
       let repairAccepted = 0;
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { chatJson, loadLlmSettings } from "../_shared/llm.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -116,15 +117,7 @@ serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
     );
 
-    // Get OpenAI API key
-    const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
-    if (!openAIApiKey) {
-      console.error('OpenAI API key not configured');
-      return new Response(
-        JSON.stringify({ error: 'Service temporarily unavailable' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+    const settings = await loadLlmSettings(supabase, claimsData.claims.sub);
 
     // FIX #1 & #2: Bloom instructions now forbid generic listing for higher levels
     const bloomInstructions: Record<string, string> = {
@@ -175,17 +168,11 @@ Return a JSON object with an "items" array containing questions in this exact fo
   ]
 }`;
 
-    console.log('Sending prompt to OpenAI...');
+    console.log(`Sending prompt to ${settings.provider} (${settings.model})...`);
 
-    // Call OpenAI API
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openAIApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
+    let generatedQuestions: { items?: unknown[] };
+    try {
+      generatedQuestions = await chatJson(settings, {
         messages: [
           {
             role: 'system',
@@ -196,36 +183,18 @@ Return a JSON object with an "items" array containing questions in this exact fo
             content: prompt
           }
         ],
-        response_format: { type: "json_object" },
         temperature: 0.4,
-        max_tokens: 3000
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      console.error('OpenAI API error:', error);
+        maxTokens: 3000,
+        offline: { topic, bloom: bloom_level, difficulty, count, questionType: 'mcq' }
+      });
+    } catch (aiError) {
+      console.error('AI provider error:', aiError);
       return new Response(
         JSON.stringify({ error: 'Failed to generate questions from AI service' }),
         { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    const aiResponse = await response.json();
-    console.log('OpenAI response received');
-
-    let generatedQuestions;
-    try {
-      const content = aiResponse.choices[0].message.content;
-      generatedQuestions = JSON.parse(content);
-    } catch (parseError) {
-      console.error('Failed to parse AI response:', parseError);
-      return new Response(
-        JSON.stringify({ error: 'Invalid response format from AI service' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
     const items = generatedQuestions.items || [];
     console.log(`Generated ${items.length} questions`);
 
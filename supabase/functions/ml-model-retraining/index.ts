@@ -1,11 +1,46 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { TrainingExample, trainTextClassifier } from '../_shared/textClassifier.ts';
+import { classifierText } from '../_shared/questionMarkup.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+type ClassifierTarget = 'bloom_level' | 'knowledge_dimension' | 'difficulty';
+
+/** ml_models.model_name per classified field; the browser classifier loads the active version of each */
+const CLASSIFIERS: Record<ClassifierTarget, string> = {
+  bloom_level: 'bloom_classifier',
+  knowledge_dimension: 'knowledge_classifier',
+  difficulty: 'difficulty_classifier',
+};
+
+const MIN_EXAMPLES = 50;
+
+const BLOOM_LEVELS = ['remembering', 'understanding', 'applying', 'analyzing', 'evaluating', 'creating'];
+const KNOWLEDGE_DIMENSIONS = ['factual', 'conceptual', 'procedural', 'metacognitive'];
+const DIFFICULTY_LABELS: Record<string, string> = {
+  easy: 'easy',
+  average: 'average',
+  medium: 'average',
+  moderate: 'average',
+  difficult: 'difficult',
+  hard: 'difficult',
+};
+
+// Revision reason useAutoClassify writes; those changes are the heuristic's, not a teacher's
+const AUTO_CLASSIFIED_REASON = 'Knowledge dimension auto-classified';
+
+interface TrainedSummary {
+  target: ClassifierTarget;
+  model_version: string;
+  accuracy: number;
+  train_size: number;
+  holdout_size: number;
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -39,76 +74,90 @@ serve(async (req) => {
 
     console.log('Starting ML model retraining process...');
 
-    // Fetch all validated questions for training
-    const { data: validatedQuestions, error: fetchError } = await supabaseClient
-      .from('questions')
-      .select(`
-        id,
-        question_text,
-        question_type,
-        bloom_level,
-        knowledge_dimension,
-        difficulty,
-        classification_confidence,
-        validation_status
-      `)
-      .eq('validation_status', 'validated')
-      .order('updated_at', { ascending: false })
-      .limit(1000);
-
-    if (fetchError) {
-      throw new Error(`Failed to fetch validated questions: ${fetchError.message}`);
-    }
+    const labelled = await collectLabelledQuestions(supabaseClient);
+    const trained: TrainedSummary[] = [];
+    const skipped: Array<{ target: ClassifierTarget; reason: string }> = [];
 
-    if (!validatedQuestions || validatedQuestions.length < 50) {
-      return new Response(
-        JSON.stringify({
-          success: false,
-          message: 'Insufficient training data. Need at least 50 validated questions.',
-          currentCount: validatedQuestions?.length || 0
-        }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+    for (const target of Object.keys(CLASSIFIERS) as ClassifierTarget[]) {
+      const examples: TrainingExample[] = [];
+      for (const question of labelled.values()) {
+        const label = question.labels[target];
+        if (label && question.text) examples.push({ text: question.text, label });
+      }
 
-    const trainingMetrics = analyzeTrainingData(validatedQuestions);
-
-    const { error: metricsError } = await supabaseClient
-      .from('ml_models')
-      .upsert({
-        model_name: 'bloom_classifier',
-        model_version: `v_${new Date().toISOString().split('T')[0]}`,
-        model_type: 'classification',
-        training_data_size: validatedQuestions.length,
-        performance_metrics: trainingMetrics,
-        accuracy_score: trainingMetrics.estimated_accuracy,
-        precision_score: trainingMetrics.estimated_precision,
-        recall_score: trainingMetrics.estimated_recall,
-        f1_score: trainingMetrics.estimated_f1,
-        is_active: true,
-        deployed_at: new Date().toISOString(),
-        hyperparameters: {
-          confidence_threshold: 0.7,
-          similarity_threshold: 0.8,
-          auto_approve_threshold: 0.85
-        }
-      });
+      const classes = new Set(examples.map(e => e.label));
+      if (examples.length < MIN_EXAMPLES || classes.size < 2) {
+        skipped.push({
+          target,
+          reason: examples.length < MIN_EXAMPLES
+            ? `Need at least ${MIN_EXAMPLES} labelled questions, found ${examples.length}`
+            : 'All labelled questions share one class',
+        });
+        continue;
+      }
+
+      const result = trainTextClassifier(examples);
+      const modelName = CLASSIFIERS[target];
+      const modelVersion = await nextVersion(supabaseClient, modelName);
+      const labelDistribution: Record<string, number> = {};
+      examples.forEach(e => { labelDistribution[e.label] = (labelDistribution[e.label] || 0) + 1; });
+
+      const { data: inserted, error: insertError } = await supabaseClient
+        .from('ml_models')
+        .insert({
+          model_name: modelName,
+          model_version: modelVersion,
+          model_type: 'classification',
+          training_data_size: examples.length,
+          accuracy_score: result.evaluation.accuracy,
+          precision_score: result.evaluation.macro_precision,
+          recall_score: result.evaluation.macro_recall,
+          f1_score: result.evaluation.macro_f1,
+          is_active: false,
+          hyperparameters: result.options,
+          performance_metrics: {
+            holdout: result.evaluation,
+            train_size: result.train_size,
+            holdout_size: result.holdout_size,
+            label_distribution: labelDistribution,
+            sources: countSources(labelled, target),
+          },
+          weights: result.model,
+          created_by: userId,
+        })
+        .select('id')
+        .single();
+
+      if (insertError || !inserted) {
+        throw new Error(`Failed to store ${modelName} ${modelVersion}: ${insertError?.message}`);
+      }
+
+      // Activation runs as the calling admin, through the same check as a rollback
+      const { error: activateError } = await anonClient.rpc('activate_ml_model', { p_model_id: inserted.id });
+      if (activateError) {
+        console.error(`Error activating ${modelName} ${modelVersion}:`, activateError);
+      }
 
-    if (metricsError) {
-      console.error('Error updating model metrics:', metricsError);
+      console.log(`Trained ${modelName} ${modelVersion}: accuracy ${result.evaluation.accuracy.toFixed(3)} on ${result.holdout_size} held-out questions`);
+      trained.push({
+        target,
+        model_version: modelVersion,
+        accuracy: result.evaluation.accuracy,
+        train_size: result.train_size,
+        holdout_size: result.holdout_size,
+      });
     }
 
     const { error: logError } = await supabaseClient
       .from('system_metrics')
       .insert({
         metric_name: 'ml_model_retraining',
-        metric_value: validatedQuestions.length,
+        metric_value: labelled.size,
         metric_unit: 'samples',
         metric_category: 'training',
         dimensions: {
-          model_version: `v_${new Date().toISOString().split('T')[0]}`,
-          accuracy: trainingMetrics.estimated_accuracy,
-          training_duration: trainingMetrics.processing_time
+          trained: trained.map(t => ({ target: t.target, model_version: t.model_version, accuracy: t.accuracy })),
+          skipped: skipped.map(s => s.target),
         }
       });
 
@@ -118,11 +167,12 @@ serve(async (req) => {
 
     return new Response(
       JSON.stringify({
-        success: true,
-        message: 'Model retraining completed successfully',
-        trainingDataSize: validatedQuestions.length,
-        metrics: trainingMetrics,
-        modelVersion: `v_${new Date().toISOString().split('T')[0]}`
+        success: trained.length > 0,
+        message: trained.length > 0
+          ? `Trained ${trained.length} classifier${trained.length === 1 ? '' : 's'} from ${labelled.size} labelled questions`
+          : 'Insufficient training data. Validate or correct more question classifications.',
+        trained,
+        skipped,
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
@@ -142,60 +192,128 @@ serve(async (req) => {
   }
 });
 
-function analyzeTrainingData(questions: any[]) {
-  const startTime = Date.now();
-
-  const bloomDistribution: Record<string, number> = {};
-  const difficultyDistribution: Record<string, number> = {};
-  const knowledgeDistribution: Record<string, number> = {};
-  
-  let totalConfidence = 0;
-  let highConfidenceCount = 0;
-
-  questions.forEach(q => {
-    bloomDistribution[q.bloom_level] = (bloomDistribution[q.bloom_level] || 0) + 1;
-    difficultyDistribution[q.difficulty] = (difficultyDistribution[q.difficulty] || 0) + 1;
-    knowledgeDistribution[q.knowledge_dimension] = (knowledgeDistribution[q.knowledge_dimension] || 0) + 1;
-    
-    totalConfidence += q.classification_confidence || 0;
-    if ((q.classification_confidence || 0) >= 0.85) {
-      highConfidenceCount++;
+interface LabelledQuestion {
+  text: string;
+  labels: Partial<Record<ClassifierTarget, string>>;
+  /** Where each label came from */
+  sources: Partial<Record<ClassifierTarget, 'validation' | 'question'>>;
+}
+
+const PAGE_SIZE = 1000;
+
+async function fetchAll<T>(page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+function normalizeLabel(target: ClassifierTarget, value: unknown): string | null {
+  const v = String(value ?? '').trim().toLowerCase();
+  if (!v) return null;
+  if (target === 'bloom_level') return BLOOM_LEVELS.find(level => level.slice(0, 5) === v.slice(0, 5)) ?? null;
+  if (target === 'knowledge_dimension') return KNOWLEDGE_DIMENSIONS.includes(v) ? v : null;
+  return DIFFICULTY_LABELS[v] ?? null;
+}
+
+/**
+ * Labelled data: questions teachers validated, classification fields teachers
+ * changed by hand (from the revision history), and the latest
+ * classification_validations entry per question, which wins over the others.
+ */
+async function collectLabelledQuestions(client: SupabaseClient): Promise<Map<string, LabelledQuestion>> {
+  const labelled = new Map<string, LabelledQuestion>();
+  const setLabels = (id: string, text: string | null, values: Record<string, unknown>, fields: ClassifierTarget[], source: 'validation' | 'question') => {
+    const entry = labelled.get(id) ?? { text: '', labels: {}, sources: {} };
+    // Train on the prose the browser classifier predicts from, not the raw markup
+    const prose = classifierText(text);
+    if (prose) entry.text = prose;
+    for (const field of fields) {
+      const label = normalizeLabel(field, values[field]);
+      if (label) {
+        entry.labels[field] = label;
+        entry.sources[field] = source;
+      }
     }
-  });
-
-  const avgConfidence = totalConfidence / questions.length;
-  
-  const bloomBalance = calculateBalanceScore(Object.values(bloomDistribution));
-  const difficultyBalance = calculateBalanceScore(Object.values(difficultyDistribution));
-  
-  const dataQualityScore = (avgConfidence + bloomBalance + difficultyBalance) / 3;
-  
-  return {
-    total_samples: questions.length,
-    avg_confidence: avgConfidence,
-    high_confidence_ratio: highConfidenceCount / questions.length,
-    bloom_distribution: bloomDistribution,
-    difficulty_distribution: difficultyDistribution,
-    knowledge_distribution: knowledgeDistribution,
-    data_quality_score: dataQualityScore,
-    estimated_accuracy: Math.min(0.95, 0.70 + (dataQualityScore * 0.25)),
-    estimated_precision: Math.min(0.93, 0.68 + (dataQualityScore * 0.25)),
-    estimated_recall: Math.min(0.92, 0.65 + (dataQualityScore * 0.27)),
-    estimated_f1: Math.min(0.93, 0.67 + (dataQualityScore * 0.26)),
-    processing_time: Date.now() - startTime
+    labelled.set(id, entry);
   };
+
+  const targets = Object.keys(CLASSIFIERS) as ClassifierTarget[];
+  const questionColumns = 'id, question_text, bloom_level, knowledge_dimension, difficulty';
+
+  // Fields changed by a person in the question bank
+  const revisions = await fetchAll<{ question_id: string; changed_fields: string[]; change_reason: string | null }>((from, to) =>
+    client.from('question_revisions')
+      .select('question_id, changed_fields, change_reason')
+      .overlaps('changed_fields', targets)
+      .not('created_by', 'is', null)
+      .order('created_at', { ascending: true })
+      .range(from, to)
+  );
+  const correctedFields = new Map<string, Set<ClassifierTarget>>();
+  for (const revision of revisions) {
+    if (revision.change_reason === AUTO_CLASSIFIED_REASON) continue;
+    const fields = correctedFields.get(revision.question_id) ?? new Set<ClassifierTarget>();
+    revision.changed_fields.filter((f): f is ClassifierTarget => targets.includes(f as ClassifierTarget)).forEach(f => fields.add(f));
+    correctedFields.set(revision.question_id, fields);
+  }
+  const correctedIds = [...correctedFields.keys()];
+  for (let i = 0; i < correctedIds.length; i += PAGE_SIZE) {
+    const { data, error } = await client.from('questions')
+      .select(questionColumns)
+      .in('id', correctedIds.slice(i, i + PAGE_SIZE))
+      .eq('deleted', false);
+    if (error) throw new Error(`Failed to fetch corrected questions: ${error.message}`);
+    for (const q of data ?? []) setLabels(q.id, q.question_text, q, [...correctedFields.get(q.id)!], 'question');
+  }
+
+  // Questions validated through the review workflow
+  const validated = await fetchAll<Record<string, string>>((from, to) =>
+    client.from('questions')
+      .select(questionColumns)
+      .eq('deleted', false)
+      .or('validation_status.eq.validated,validated_by.not.is.null')
+      .order('id')
+      .range(from, to)
+  );
+  for (const q of validated) setLabels(q.id, q.question_text, q, targets, 'question');
+
+  // Explicit validations, oldest first so the latest one per question wins
+  const validations = await fetchAll<{ question_id: string; validated_classification: Record<string, unknown> | null; questions: { question_text: string; deleted: boolean } | null }>((from, to) =>
+    client.from('classification_validations')
+      .select('question_id, validated_classification, questions(question_text, deleted)')
+      .not('validated_classification', 'is', null)
+      .order('created_at', { ascending: true })
+      .range(from, to)
+  );
+  for (const v of validations) {
+    if (!v.question_id || !v.questions || v.questions.deleted) continue;
+    setLabels(v.question_id, v.questions.question_text, v.validated_classification ?? {}, targets, 'validation');
+  }
+
+  return labelled;
+}
+
+function countSources(labelled: Map<string, LabelledQuestion>, target: ClassifierTarget) {
+  let validations = 0;
+  let correctedQuestions = 0;
+  for (const question of labelled.values()) {
+    if (!question.labels[target] || !question.text) continue;
+    if (question.sources[target] === 'validation') validations++;
+    else correctedQuestions++;
+  }
+  return { validations, corrected_questions: correctedQuestions };
 }
 
-function calculateBalanceScore(distribution: number[]): number {
-  if (distribution.length === 0) return 0;
-  
-  const total = distribution.reduce((sum, val) => sum + val, 0);
-  const expectedPerCategory = total / distribution.length;
-  
-  const variance = distribution.reduce((sum, val) => {
-    return sum + Math.pow(val - expectedPerCategory, 2);
-  }, 0) / distribution.length;
-  
-  const maxVariance = Math.pow(expectedPerCategory, 2);
-  return Math.max(0, 1 - (variance / maxVariance));
+/** v1, v2, ... per model name */
+async function nextVersion(client: SupabaseClient, modelName: string): Promise<string> {
+  const { data } = await client.from('ml_models').select('model_version').eq('model_name', modelName);
+  const numbers = (data ?? [])
+    .map((row: { model_version: string }) => /^v(\d+)$/.exec(row.model_version)?.[1])
+    .filter(Boolean)
+    .map(Number);
+  return `v${Math.max(0, ...numbers) + 1}`;
 }
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { createEmbedding, loadLlmSettings } from '../_shared/llm.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -81,60 +82,21 @@ serve(async (req) => {
       text = question.question_text;
     }
 
-    // 2. Generate embedding using OpenAI (with graceful failure handling)
-    const openaiKey = Deno.env.get('OPENAI_API_KEY');
-    if (!openaiKey) {
-      console.warn('OpenAI API key not configured - skipping embedding generation');
-      return new Response(
-        JSON.stringify({ 
-          success: true, 
-          warning: 'OpenAI API key not configured - embedding skipped',
-          skipped: true,
-          question_id 
-        }),
-        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
+    // 2. Generate embedding with the configured backend (with graceful failure handling)
+    const settings = await loadLlmSettings(roleClient, user.id);
     let embedding: number[] | null = null;
-    
-    try {
-      const embeddingResponse = await fetch('https://api.openai.com/v1/embeddings', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${openaiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'text-embedding-3-small',
-          input: text,
-        }),
-      });
-
-      if (!embeddingResponse.ok) {
-        const error = await embeddingResponse.text();
-        console.warn('OpenAI embedding error (non-blocking):', error);
-        // Don't throw - return success with warning
-        return new Response(
-          JSON.stringify({ 
-            success: true, 
-            warning: 'Embedding generation failed - will retry later',
-            skipped: true,
-            question_id,
-            duration_ms: Date.now() - startTime 
-          }),
-          { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
+    let embeddingModel = '';
 
-      const embeddingData = await embeddingResponse.json();
-      embedding = embeddingData.data[0].embedding;
+    try {
+      const result = await createEmbedding(settings, text);
+      embedding = result.embedding;
+      embeddingModel = result.model;
     } catch (embeddingError) {
-      console.warn('Embedding API call failed (non-blocking):', embeddingError);
+      console.warn('Embedding generation failed (non-blocking):', embeddingError);
       return new Response(
         JSON.stringify({ 
           success: true, 
-          warning: 'Embedding API call failed - will retry later',
+          warning: 'Embedding generation failed - will retry later',
           skipped: true,
           question_id,
           duration_ms: Date.now() - startTime 
@@ -171,53 +133,26 @@ serve(async (req) => {
       console.warn('Failed to update semantic vector (non-blocking):', updateErr);
     }
 
-    // 4. Find similar questions (best-effort)
+    // 4. Find similar questions on the vector index (best-effort)
     let similarities: Array<{
       question2_id: string;
       similarity_score: number;
     }> = [];
 
     try {
-      const { data: allQuestions, error: queryError } = await supabaseClient
-        .from('questions')
-        .select('id, question_text, semantic_vector, topic, bloom_level, difficulty')
-        .neq('id', question_id)
-        .not('semantic_vector', 'is', null);
-
-      if (!queryError && allQuestions) {
-        // Calculate cosine similarity
-        const cosineSimilarity = (vecA: number[], vecB: number[]): number => {
-          let dotProduct = 0;
-          let normA = 0;
-          let normB = 0;
-
-          for (let i = 0; i < vecA.length; i++) {
-            dotProduct += vecA[i] * vecB[i];
-            normA += vecA[i] * vecA[i];
-            normB += vecB[i] * vecB[i];
-          }
-
-          const denominator = Math.sqrt(normA) * Math.sqrt(normB);
-          return denominator === 0 ? 0 : dotProduct / denominator;
-        };
-
-        for (const q of allQuestions) {
-          if (!q.semantic_vector) continue;
-
-          try {
-            const targetVector = JSON.parse(q.semantic_vector);
-            const similarity = cosineSimilarity(embedding, targetVector);
+      const { data: matches, error: matchError } = await supabaseClient.rpc('match_similar_questions', {
+        p_question_id: question_id,
+        p_match_count: 50,
+        p_threshold: 0.7,
+      });
 
-            if (similarity >= 0.7) {
-              similarities.push({
-                question2_id: q.id,
-                similarity_score: similarity,
-              });
-            }
-          } catch {
-            // Skip invalid vectors
-          }
-        }
+      if (matchError) {
+        console.warn('Similarity query failed (non-blocking):', matchError);
+      } else {
+        similarities = (matches ?? []).map((m: { id: string; similarity: number }) => ({
+          question2_id: m.id,
+          similarity_score: m.similarity,
+        }));
       }
     } catch (similarityErr) {
       console.warn('Similarity calculation failed (non-blocking):', similarityErr);
@@ -230,7 +165,7 @@ serve(async (req) => {
           question1_id: question_id,
           question2_id: s.question2_id,
           similarity_score: s.similarity_score,
-          algorithm_used: 'openai-text-embedding-3-small-cosine',
+          algorithm_used: `${embeddingModel}-cosine`,
         }));
 
         await supabaseClient
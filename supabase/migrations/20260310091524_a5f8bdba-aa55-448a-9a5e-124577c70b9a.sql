@@ -0,0 +1,111 @@
+-- Named Bloom distribution profiles for TOS generation.
+-- Institution profiles are managed by admins; department profiles are keyed by
+-- profiles.college. The profile actually used by a TOS is copied onto
+-- tos_entries.bloom_distribution so later edits never change a saved TOS.
+CREATE TABLE IF NOT EXISTS public.bloom_distribution_profiles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  scope text NOT NULL CHECK (scope IN ('institution', 'department')),
+  department text,
+  weights jsonb NOT NULL,
+  is_default boolean NOT NULL DEFAULT false,
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT department_scope_requires_department
+    CHECK ((scope = 'department') = (department IS NOT NULL))
+);
+
+-- At most one default per institution / department
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bloom_profiles_one_default
+  ON public.bloom_distribution_profiles (scope, COALESCE(department, ''))
+  WHERE is_default;
+
+CREATE INDEX IF NOT EXISTS idx_bloom_profiles_department
+  ON public.bloom_distribution_profiles (department);
+
+ALTER TABLE public.bloom_distribution_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read distribution profiles"
+ON public.bloom_distribution_profiles FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins manage distribution profiles"
+ON public.bloom_distribution_profiles FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Teachers create department profiles"
+ON public.bloom_distribution_profiles FOR INSERT
+WITH CHECK (
+  scope = 'department'
+  AND created_by = auth.uid()
+  AND has_role(auth.uid(), 'teacher'::app_role)
+);
+
+CREATE POLICY "Teachers update own department profiles"
+ON public.bloom_distribution_profiles FOR UPDATE
+USING (scope = 'department' AND created_by = auth.uid())
+WITH CHECK (scope = 'department' AND created_by = auth.uid());
+
+CREATE POLICY "Teachers delete own department profiles"
+ON public.bloom_distribution_profiles FOR DELETE
+USING (scope = 'department' AND created_by = auth.uid());
+
+-- Makes one profile the default of its institution / department. Clearing the
+-- previous default runs as definer because a teacher's UPDATE policy only
+-- reaches their own profiles, and a clear that silently skips a colleague's
+-- default would leave the unique index to reject the change.
+CREATE OR REPLACE FUNCTION public.set_default_distribution_profile(p_profile_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_profile public.bloom_distribution_profiles;
+BEGIN
+  SELECT * INTO v_profile
+  FROM public.bloom_distribution_profiles
+  WHERE id = p_profile_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Distribution profile % not found', p_profile_id;
+  END IF;
+
+  IF NOT (
+    has_role(auth.uid(), 'admin'::app_role)
+    OR (v_profile.scope = 'department' AND v_profile.created_by = auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to change the default of distribution profile %', p_profile_id;
+  END IF;
+
+  UPDATE public.bloom_distribution_profiles
+  SET is_default = false
+  WHERE scope = v_profile.scope
+    AND department IS NOT DISTINCT FROM v_profile.department
+    AND is_default
+    AND id <> p_profile_id;
+
+  UPDATE public.bloom_distribution_profiles
+  SET is_default = true
+  WHERE id = p_profile_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_default_distribution_profile(UUID) FROM PUBLIC, anon;
+
+CREATE TRIGGER update_bloom_distribution_profiles_updated_at
+BEFORE UPDATE ON public.bloom_distribution_profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Seed the standard 15/15/20/20/15/15 split as the institution default
+INSERT INTO public.bloom_distribution_profiles (name, scope, weights, is_default)
+VALUES (
+  'Standard (30/40/30)',
+  'institution',
+  '{"remembering": 0.15, "understanding": 0.15, "applying": 0.20, "analyzing": 0.20, "evaluating": 0.15, "creating": 0.15}'::jsonb,
+  true
+);
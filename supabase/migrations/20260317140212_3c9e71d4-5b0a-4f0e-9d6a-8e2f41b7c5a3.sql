@@ -0,0 +1,58 @@
+-- Scored item-level responses per test assignment, used for classical item analysis
+CREATE TABLE public.item_responses (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  assignment_id UUID NOT NULL REFERENCES public.test_assignments(id) ON DELETE CASCADE,
+  test_id UUID NOT NULL REFERENCES public.generated_tests(id) ON DELETE CASCADE,
+  item_number INTEGER NOT NULL,
+  question_id UUID REFERENCES public.questions(id) ON DELETE SET NULL,
+  response TEXT,
+  score NUMERIC NOT NULL DEFAULT 0,
+  max_score NUMERIC NOT NULL DEFAULT 1,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (assignment_id, item_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_item_responses_test ON public.item_responses(test_id);
+CREATE INDEX IF NOT EXISTS idx_item_responses_question ON public.item_responses(question_id);
+
+ALTER TABLE public.item_responses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view responses for own assignments"
+ON public.item_responses FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.test_assignments ta
+    WHERE ta.id = assignment_id
+      AND (ta.assigned_by = auth.uid() OR has_role(auth.uid(), 'admin'::app_role))
+  )
+);
+
+CREATE POLICY "Users can manage responses for own assignments"
+ON public.item_responses FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM public.test_assignments ta
+    WHERE ta.id = assignment_id
+      AND (ta.assigned_by = auth.uid() OR has_role(auth.uid(), 'admin'::app_role))
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.test_assignments ta
+    WHERE ta.id = assignment_id
+      AND (ta.assigned_by = auth.uid() OR has_role(auth.uid(), 'admin'::app_role))
+  )
+);
+
+CREATE TRIGGER update_item_responses_updated_at
+BEFORE UPDATE ON public.item_responses
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Extra statistics (KR-21, SEM, upper/lower groups, alpha-if-deleted, ...) that have no dedicated column
+ALTER TABLE public.psychometric_analyses
+  ADD COLUMN IF NOT EXISTS metrics JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_psychometric_analyses_test_date
+  ON public.psychometric_analyses(test_id, analysis_date DESC);
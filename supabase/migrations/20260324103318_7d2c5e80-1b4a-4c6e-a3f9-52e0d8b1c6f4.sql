@@ -0,0 +1,8 @@
+-- Answer-sheet capture: keep the canonical (unshuffled) response and how it was entered
+ALTER TABLE public.item_responses
+  ADD COLUMN IF NOT EXISTS canonical_response TEXT,
+  ADD COLUMN IF NOT EXISTS is_correct BOOLEAN,
+  ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'keyboard'
+    CHECK (source IN ('keyboard', 'csv'));
+
+CREATE INDEX IF NOT EXISTS idx_item_responses_assignment ON public.item_responses(assignment_id);
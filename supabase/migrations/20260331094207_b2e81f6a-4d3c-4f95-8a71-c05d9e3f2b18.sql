@@ -0,0 +1,16 @@
+-- Scanned answer sheets: per-item read confidence and a manual review queue
+ALTER TABLE public.item_responses
+  DROP CONSTRAINT IF EXISTS item_responses_source_check;
+
+ALTER TABLE public.item_responses
+  ADD CONSTRAINT item_responses_source_check CHECK (source IN ('keyboard', 'csv', 'scan')),
+  ADD COLUMN IF NOT EXISTS confidence NUMERIC,
+  ADD COLUMN IF NOT EXISTS needs_review BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS scan_data JSONB;
+
+COMMENT ON COLUMN public.item_responses.confidence IS 'Lowest per-bubble read confidence (0-1) for scanned sheets';
+COMMENT ON COLUMN public.item_responses.scan_data IS 'Bubble fill ratios and reader status for scanned sheets';
+
+CREATE INDEX IF NOT EXISTS idx_item_responses_needs_review
+  ON public.item_responses(test_id)
+  WHERE needs_review;
@@ -0,0 +1,62 @@
+-- IRT calibration runs and per-question item parameters (logistic metric, D = 1)
+CREATE TABLE public.irt_calibrations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  model TEXT NOT NULL CHECK (model IN ('1PL', '2PL', '3PL')),
+  item_count INTEGER NOT NULL DEFAULT 0,
+  excluded_count INTEGER NOT NULL DEFAULT 0,
+  examinee_count INTEGER NOT NULL DEFAULT 0,
+  response_count INTEGER NOT NULL DEFAULT 0,
+  iterations INTEGER NOT NULL DEFAULT 0,
+  converged BOOLEAN NOT NULL DEFAULT false,
+  log_likelihood NUMERIC,
+  aic NUMERIC,
+  bic NUMERIC,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.question_irt_parameters (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  question_id UUID NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+  calibration_id UUID REFERENCES public.irt_calibrations(id) ON DELETE SET NULL,
+  model TEXT NOT NULL CHECK (model IN ('1PL', '2PL', '3PL')),
+  a NUMERIC NOT NULL DEFAULT 1,
+  b NUMERIC NOT NULL,
+  c NUMERIC NOT NULL DEFAULT 0,
+  se_a NUMERIC,
+  se_b NUMERIC,
+  se_c NUMERIC,
+  response_count INTEGER NOT NULL DEFAULT 0,
+  p_value NUMERIC,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (question_id, model)
+);
+
+CREATE INDEX IF NOT EXISTS idx_question_irt_parameters_question ON public.question_irt_parameters(question_id);
+
+ALTER TABLE public.irt_calibrations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.question_irt_parameters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view IRT calibrations"
+ON public.irt_calibrations FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage IRT calibrations"
+ON public.irt_calibrations FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Authenticated users can view IRT parameters"
+ON public.question_irt_parameters FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage IRT parameters"
+ON public.question_irt_parameters FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_question_irt_parameters_updated_at
+BEFORE UPDATE ON public.question_irt_parameters
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
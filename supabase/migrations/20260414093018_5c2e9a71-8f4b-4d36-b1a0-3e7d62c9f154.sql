@@ -0,0 +1,5 @@
+-- Item parameters can also be imported from an external calibration.
+-- Imported rows fill gaps only; a bank calibration replaces them.
+ALTER TABLE public.question_irt_parameters
+  ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'calibration'
+  CHECK (source IN ('calibration', 'import'));
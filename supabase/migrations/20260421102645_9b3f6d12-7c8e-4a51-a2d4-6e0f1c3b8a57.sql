@@ -0,0 +1,31 @@
+-- Raw-to-equated score conversion tables between test forms that share anchor items
+CREATE TABLE public.score_conversions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  test_id UUID NOT NULL REFERENCES public.generated_tests(id) ON DELETE CASCADE,
+  reference_test_id UUID NOT NULL REFERENCES public.generated_tests(id) ON DELETE CASCADE,
+  method TEXT NOT NULL CHECK (method IN ('mean_sigma', 'linear', 'equipercentile', 'irt_true_score')),
+  design TEXT NOT NULL CHECK (design IN ('anchor', 'equivalent_groups', 'irt')),
+  anchor_item_count INTEGER NOT NULL DEFAULT 0,
+  examinee_count INTEGER NOT NULL DEFAULT 0,
+  reference_examinee_count INTEGER NOT NULL DEFAULT 0,
+  max_score NUMERIC NOT NULL,
+  reference_max_score NUMERIC NOT NULL,
+  -- [{ raw, equated }] for every integer raw score on the form
+  conversion JSONB NOT NULL DEFAULT '[]'::jsonb,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (test_id <> reference_test_id)
+);
+
+-- Grade reports apply at most one conversion per form
+CREATE UNIQUE INDEX IF NOT EXISTS idx_score_conversions_active
+  ON public.score_conversions(test_id) WHERE is_active;
+CREATE INDEX IF NOT EXISTS idx_score_conversions_test ON public.score_conversions(test_id);
+
+ALTER TABLE public.score_conversions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers can manage their own score conversions"
+ON public.score_conversions FOR ALL
+USING (created_by = auth.uid() OR has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (created_by = auth.uid() OR has_role(auth.uid(), 'admin'::app_role));
@@ -0,0 +1,7 @@
+-- Matching, ordering, multiple-response and numeric questions; choices and
+-- correct_answer shapes per type are documented in src/types/questionTypes.ts
+ALTER TABLE public.questions DROP CONSTRAINT IF EXISTS questions_question_type_check;
+
+ALTER TABLE public.questions
+  ADD CONSTRAINT questions_question_type_check
+  CHECK (question_type IN ('mcq', 'essay', 'true_false', 'short_answer', 'matching', 'ordering', 'multiple_response', 'numeric'));
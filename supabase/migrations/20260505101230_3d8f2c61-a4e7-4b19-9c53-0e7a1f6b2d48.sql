@@ -0,0 +1,37 @@
+-- Shared stimuli (reading passages, data tables, figures, cases) that several questions answer from
+CREATE TABLE public.question_stimuli (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  title TEXT NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'passage' CHECK (kind IN ('passage', 'table', 'figure', 'case')),
+  -- Paragraphs separated by blank lines; rows starting with "|" form a table
+  content TEXT NOT NULL DEFAULT '',
+  -- [{ name, url, mime_type, alt }]
+  attachments JSONB NOT NULL DEFAULT '[]'::jsonb,
+  subject TEXT,
+  topic TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.questions
+  ADD COLUMN IF NOT EXISTS stimulus_id UUID REFERENCES public.question_stimuli(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_questions_stimulus ON public.questions(stimulus_id) WHERE stimulus_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_question_stimuli_topic ON public.question_stimuli(topic);
+
+ALTER TABLE public.question_stimuli ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view stimuli"
+ON public.question_stimuli FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Teachers can manage their own stimuli"
+ON public.question_stimuli FOR ALL
+USING (created_by = auth.uid() OR has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (created_by = auth.uid() OR has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_question_stimuli_updated_at
+BEFORE UPDATE ON public.question_stimuli
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
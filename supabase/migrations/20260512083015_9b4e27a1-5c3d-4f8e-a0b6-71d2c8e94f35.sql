@@ -0,0 +1,65 @@
+-- Images and other media shown with a question, in its stem or next to one of its choices
+ALTER TABLE public.questions
+  -- [{ id, path, name, mime_type, alt, caption, size, placement, width, height }]
+  ADD COLUMN IF NOT EXISTS attachments JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Private bucket; objects live under {user_id}/...
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('question-media', 'question-media', false, 10485760,
+        ARRAY['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/svg+xml', 'audio/mpeg', 'video/mp4', 'application/pdf'])
+ON CONFLICT (id) DO NOTHING;
+
+-- SELECT: any signed-in user, since questions are shared across the bank and printed by other teachers
+CREATE POLICY "Authenticated users can view question media"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (bucket_id = 'question-media');
+
+-- INSERT: users can upload only into their own folder
+CREATE POLICY "Users can upload question media to own folder"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'question-media'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+-- UPDATE: users can update only their own files, and cannot move files outside their folder
+CREATE POLICY "Users can update own question media"
+ON storage.objects
+FOR UPDATE
+TO authenticated
+USING (
+  bucket_id = 'question-media'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+)
+WITH CHECK (
+  bucket_id = 'question-media'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+-- DELETE: users can delete only their own files
+CREATE POLICY "Users can delete own question media"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'question-media'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+-- Admin override (read/write) for operational support
+CREATE POLICY "Admins can manage all question media"
+ON storage.objects
+FOR ALL
+TO authenticated
+USING (
+  bucket_id = 'question-media'
+  AND public.has_role(auth.uid(), 'admin')
+)
+WITH CHECK (
+  bucket_id = 'question-media'
+  AND public.has_role(auth.uid(), 'admin')
+);
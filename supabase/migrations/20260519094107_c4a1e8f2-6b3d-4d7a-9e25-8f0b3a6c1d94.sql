@@ -0,0 +1,194 @@
+-- Immutable question revisions: every change to a question's content or
+-- classification is kept, with who made it, why, and the classification
+-- before and after. Tests pin the revision of each question they were built from.
+ALTER TABLE public.questions
+  ADD COLUMN IF NOT EXISTS revision_number INTEGER NOT NULL DEFAULT 1,
+  -- Written alongside an update to say why; moved into the revision and never stored
+  ADD COLUMN IF NOT EXISTS revision_reason TEXT;
+
+CREATE TABLE public.question_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  question_id UUID NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL,
+  -- The question as of this revision: text, type, choices, key, attachments, stimulus and classification
+  snapshot JSONB NOT NULL,
+  -- Snapshot fields that differ from the previous revision; empty for the first
+  changed_fields TEXT[] NOT NULL DEFAULT '{}',
+  change_reason TEXT,
+  -- { bloom_level, knowledge_dimension, difficulty }
+  classification_before JSONB,
+  classification_after JSONB NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (question_id, revision_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_question_revisions_question ON public.question_revisions(question_id, revision_number DESC);
+
+ALTER TABLE public.question_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Revisions are written only by the triggers below and never changed
+CREATE POLICY "Authenticated users can view question revisions"
+ON public.question_revisions FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE OR REPLACE FUNCTION public.prevent_question_revision_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Question revisions are immutable';
+END;
+$$;
+
+CREATE TRIGGER question_revisions_immutable
+BEFORE UPDATE ON public.question_revisions
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_question_revision_update();
+
+CREATE OR REPLACE FUNCTION public.question_revision_snapshot(q public.questions)
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT jsonb_build_object(
+    'question_text', q.question_text,
+    'question_type', q.question_type,
+    'choices', q.choices,
+    'correct_answer', q.correct_answer,
+    'attachments', q.attachments,
+    'stimulus_id', q.stimulus_id,
+    'topic', q.topic,
+    'bloom_level', q.bloom_level,
+    'knowledge_dimension', q.knowledge_dimension,
+    'difficulty', q.difficulty,
+    'subject', q.subject,
+    'category', q.category,
+    'specialization', q.specialization,
+    'subject_code', q.subject_code,
+    'subject_description', q.subject_description,
+    'tags', to_jsonb(q.tags)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.question_classification(q public.questions)
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT jsonb_build_object('bloom_level', q.bloom_level, 'knowledge_dimension', q.knowledge_dimension, 'difficulty', q.difficulty);
+$$;
+
+-- The first revision, once the question row exists
+CREATE OR REPLACE FUNCTION public.record_initial_question_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.question_revisions (question_id, revision_number, snapshot, change_reason, classification_after, created_by)
+  VALUES (NEW.id, NEW.revision_number, public.question_revision_snapshot(NEW), NULLIF(btrim(NEW.revision_reason), ''),
+          public.question_classification(NEW), COALESCE(auth.uid(), NEW.owner));
+
+  -- An AFTER trigger cannot change the row it fires for, so the reason is
+  -- cleared with a follow-up update; the snapshot is unchanged, so that
+  -- update records no revision of its own
+  IF NEW.revision_reason IS NOT NULL THEN
+    UPDATE public.questions SET revision_reason = NULL WHERE id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- A new revision for each update that changes the snapshot; usage counters,
+-- approval and similarity bookkeeping leave the history alone
+CREATE OR REPLACE FUNCTION public.record_question_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  before_snapshot JSONB := public.question_revision_snapshot(OLD);
+  after_snapshot JSONB := public.question_revision_snapshot(NEW);
+  changed TEXT[];
+BEGIN
+  SELECT array_agg(key ORDER BY key) INTO changed
+  FROM jsonb_each(after_snapshot)
+  WHERE value IS DISTINCT FROM before_snapshot -> key;
+
+  IF changed IS NULL THEN
+    NEW.revision_number := OLD.revision_number;
+  ELSE
+    NEW.revision_number := OLD.revision_number + 1;
+    INSERT INTO public.question_revisions
+      (question_id, revision_number, snapshot, changed_fields, change_reason, classification_before, classification_after, created_by)
+    VALUES (NEW.id, NEW.revision_number, after_snapshot, changed, NULLIF(btrim(NEW.revision_reason), ''),
+            public.question_classification(OLD), public.question_classification(NEW), auth.uid());
+  END IF;
+
+  NEW.revision_reason := NULL;
+  RETURN NEW;
+END;
+$$;
+
+-- Existing questions start their history at revision 1
+INSERT INTO public.question_revisions (question_id, revision_number, snapshot, change_reason, classification_after, created_by, created_at)
+SELECT q.id, 1, public.question_revision_snapshot(q), 'History starts here', public.question_classification(q), q.owner, q.updated_at
+FROM public.questions q
+ON CONFLICT (question_id, revision_number) DO NOTHING;
+
+CREATE TRIGGER question_initial_revision
+AFTER INSERT ON public.questions
+FOR EACH ROW
+EXECUTE FUNCTION public.record_initial_question_revision();
+
+CREATE TRIGGER question_revision
+BEFORE UPDATE ON public.questions
+FOR EACH ROW
+EXECUTE FUNCTION public.record_question_revision();
+
+-- question_id -> question_revisions.id of each question a test was built from
+ALTER TABLE public.generated_tests
+  ADD COLUMN IF NOT EXISTS question_revisions JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Pins each item's question to the revision the item carries (items copy the
+-- question row, revision_number included), or to the latest one for older
+-- items; questions already pinned keep their pin when items are updated
+CREATE OR REPLACE FUNCTION public.pin_generated_test_revisions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  pins JSONB;
+BEGIN
+  SELECT COALESCE(jsonb_object_agg(pinned.question_id, pinned.id), '{}'::jsonb) INTO pins
+  FROM (
+    SELECT DISTINCT ON (qr.question_id) qr.question_id, qr.id
+    FROM jsonb_array_elements(CASE WHEN jsonb_typeof(NEW.items) = 'array' THEN NEW.items ELSE '[]'::jsonb END) AS item
+    CROSS JOIN LATERAL (
+      SELECT COALESCE(item->>'question_id', item->>'id') AS ref,
+             CASE WHEN item->>'revision_number' ~ '^[0-9]+$' THEN (item->>'revision_number')::int END AS revision
+    ) AS r
+    JOIN public.question_revisions qr
+      ON r.ref ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+     AND qr.question_id = r.ref::uuid
+     AND (r.revision IS NULL OR qr.revision_number <= r.revision)
+    ORDER BY qr.question_id, qr.revision_number DESC
+  ) AS pinned;
+
+  NEW.question_revisions := pins || CASE WHEN TG_OP = 'UPDATE' THEN COALESCE(OLD.question_revisions, '{}'::jsonb) ELSE '{}'::jsonb END;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER pin_generated_test_revisions
+BEFORE INSERT OR UPDATE OF items ON public.generated_tests
+FOR EACH ROW
+EXECUTE FUNCTION public.pin_generated_test_revisions();
+
+-- Tests generated before revisions existed pin the questions' first revision
+UPDATE public.generated_tests SET items = items;
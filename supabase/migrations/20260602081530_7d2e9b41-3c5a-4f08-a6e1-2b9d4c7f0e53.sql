@@ -0,0 +1,5 @@
+-- Admins remove per-institution language model settings (llm_provider:<institution>)
+-- so those institutions fall back to the default
+CREATE POLICY "Admins can delete settings"
+ON public.system_settings FOR DELETE
+USING (has_role(auth.uid(), 'admin'::app_role));
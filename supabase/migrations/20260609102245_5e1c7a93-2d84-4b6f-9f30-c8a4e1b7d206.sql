@@ -0,0 +1,127 @@
+-- pgvector index for semantic similarity: top-k neighbours are found in the
+-- database instead of pulling every embedding into the browser.
+--
+-- semantic_vector keeps the JSON text each embedding backend writes;
+-- semantic_embedding is its indexed copy when it has the indexed width (384,
+-- the local hashing model and shortened OpenAI text-embedding-3 vectors).
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+ALTER TABLE public.questions
+  ADD COLUMN IF NOT EXISTS semantic_embedding extensions.vector(384);
+
+CREATE OR REPLACE FUNCTION public.sync_question_semantic_embedding()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, extensions
+AS $$
+BEGIN
+  NEW.semantic_embedding := NULL;
+  IF NEW.semantic_vector IS NOT NULL AND btrim(NEW.semantic_vector) LIKE '[%' THEN
+    BEGIN
+      IF jsonb_array_length(NEW.semantic_vector::jsonb) = 384 THEN
+        NEW.semantic_embedding := NEW.semantic_vector::vector(384);
+      END IF;
+    EXCEPTION WHEN others THEN
+      -- Malformed text stays unindexed rather than failing the write
+      NEW.semantic_embedding := NULL;
+    END;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER questions_sync_semantic_embedding
+BEFORE INSERT OR UPDATE OF semantic_vector ON public.questions
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_question_semantic_embedding();
+
+-- Backfill without touching updated_at or the revision history
+DO $$
+DECLARE
+  q RECORD;
+BEGIN
+  ALTER TABLE public.questions DISABLE TRIGGER USER;
+  FOR q IN SELECT id, semantic_vector FROM public.questions WHERE semantic_vector IS NOT NULL LOOP
+    BEGIN
+      IF jsonb_array_length(q.semantic_vector::jsonb) = 384 THEN
+        UPDATE public.questions SET semantic_embedding = q.semantic_vector::extensions.vector(384) WHERE id = q.id;
+      END IF;
+    EXCEPTION WHEN others THEN
+      NULL;
+    END;
+  END LOOP;
+  ALTER TABLE public.questions ENABLE TRIGGER USER;
+END;
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_questions_semantic_embedding
+ON public.questions USING hnsw (semantic_embedding extensions.vector_cosine_ops);
+
+-- Nearest neighbours of a stored question, most similar first
+CREATE OR REPLACE FUNCTION public.match_similar_questions(
+  p_question_id UUID,
+  p_match_count INTEGER DEFAULT 10,
+  p_threshold DOUBLE PRECISION DEFAULT 0.75
+)
+RETURNS TABLE(
+  id UUID,
+  question_text TEXT,
+  topic TEXT,
+  bloom_level TEXT,
+  difficulty TEXT,
+  similarity DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT m.id, m.question_text, m.topic, m.bloom_level, m.difficulty, m.similarity
+  FROM (
+    SELECT q.id, q.question_text, q.topic, q.bloom_level, q.difficulty,
+           1 - (q.semantic_embedding <=> src.semantic_embedding) AS similarity
+    FROM public.questions src
+    JOIN public.questions q ON q.id <> src.id
+    WHERE src.id = p_question_id
+      AND q.semantic_embedding IS NOT NULL
+      AND q.deleted = false
+    ORDER BY q.semantic_embedding <=> src.semantic_embedding
+    LIMIT p_match_count
+  ) m
+  WHERE m.similarity >= p_threshold
+  ORDER BY m.similarity DESC;
+$$;
+
+-- Nearest neighbours of an embedding that is not stored yet (a draft
+-- question); p_embedding is the JSON array text of a 384-wide vector
+CREATE OR REPLACE FUNCTION public.match_questions_by_embedding(
+  p_embedding TEXT,
+  p_match_count INTEGER DEFAULT 10,
+  p_threshold DOUBLE PRECISION DEFAULT 0.75,
+  p_exclude_id UUID DEFAULT NULL
+)
+RETURNS TABLE(
+  id UUID,
+  question_text TEXT,
+  topic TEXT,
+  bloom_level TEXT,
+  difficulty TEXT,
+  similarity DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT m.id, m.question_text, m.topic, m.bloom_level, m.difficulty, m.similarity
+  FROM (
+    SELECT q.id, q.question_text, q.topic, q.bloom_level, q.difficulty,
+           1 - (q.semantic_embedding <=> p_embedding::vector(384)) AS similarity
+    FROM public.questions q
+    WHERE q.semantic_embedding IS NOT NULL
+      AND q.deleted = false
+      AND (p_exclude_id IS NULL OR q.id <> p_exclude_id)
+    ORDER BY q.semantic_embedding <=> p_embedding::vector(384)
+    LIMIT p_match_count
+  ) m
+  WHERE m.similarity >= p_threshold
+  ORDER BY m.similarity DESC;
+$$;
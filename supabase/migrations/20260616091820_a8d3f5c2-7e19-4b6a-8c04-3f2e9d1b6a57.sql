@@ -0,0 +1,45 @@
+-- Trained classifier artifacts: each ml_models row written by
+-- ml-model-retraining carries its weights, and one version per model_name is
+-- active. Rolling back re-activates an earlier version.
+ALTER TABLE public.ml_models
+  ADD COLUMN IF NOT EXISTS weights JSONB;
+
+-- Rows from before training existed only held estimated metrics
+UPDATE public.ml_models
+SET is_active = false,
+    deprecated_at = COALESCE(deprecated_at, now())
+WHERE weights IS NULL AND is_active;
+
+CREATE INDEX IF NOT EXISTS idx_ml_models_name_created
+ON public.ml_models(model_name, created_at DESC);
+
+CREATE OR REPLACE FUNCTION public.activate_ml_model(p_model_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_model_name TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only administrators can activate models';
+  END IF;
+
+  SELECT model_name INTO v_model_name
+  FROM public.ml_models
+  WHERE id = p_model_id AND weights IS NOT NULL;
+
+  IF v_model_name IS NULL THEN
+    RAISE EXCEPTION 'Model % does not exist or has no trained weights', p_model_id;
+  END IF;
+
+  UPDATE public.ml_models
+  SET is_active = false, deprecated_at = now()
+  WHERE model_name = v_model_name AND is_active AND id <> p_model_id;
+
+  UPDATE public.ml_models
+  SET is_active = true, deployed_at = now(), deprecated_at = NULL
+  WHERE id = p_model_id;
+END;
+$$;
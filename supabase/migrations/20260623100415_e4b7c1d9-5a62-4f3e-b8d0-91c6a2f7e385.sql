@@ -0,0 +1,82 @@
+-- Classification benchmark: admins upload gold-standard sets of questions
+-- labelled by expert raters, and each benchmark run scores every classifier
+-- path against them. One result row per classifier per run, so accuracy,
+-- agreement and calibration can be followed across classifier versions.
+CREATE TABLE public.classification_gold_sets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  item_count INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.classification_gold_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  gold_set_id UUID NOT NULL REFERENCES public.classification_gold_sets(id) ON DELETE CASCADE,
+  question_text TEXT NOT NULL,
+  question_type TEXT NOT NULL DEFAULT 'mcq',
+  topic TEXT,
+  -- Expert labels; a set may label only some of the fields
+  bloom_level TEXT,
+  knowledge_dimension TEXT,
+  difficulty TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (bloom_level IS NOT NULL OR knowledge_dimension IS NOT NULL OR difficulty IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_classification_gold_items_set ON public.classification_gold_items(gold_set_id);
+
+CREATE TABLE public.classification_benchmark_results (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  gold_set_id UUID NOT NULL REFERENCES public.classification_gold_sets(id) ON DELETE CASCADE,
+  -- Shared by the classifiers benchmarked together
+  run_id UUID NOT NULL,
+  classifier TEXT NOT NULL,
+  classifier_version TEXT NOT NULL,
+  item_count INTEGER NOT NULL,
+  -- Items the classifier returned nothing for; left out of the metrics
+  failed_count INTEGER NOT NULL DEFAULT 0,
+  -- Per field: { accuracy, macro_f1, kappa, ece, reliability[], per_class, confusion_matrix, size }
+  metrics JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_classification_benchmark_results_set
+ON public.classification_benchmark_results(gold_set_id, created_at DESC);
+
+ALTER TABLE public.classification_gold_sets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.classification_gold_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.classification_benchmark_results ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view gold sets"
+ON public.classification_gold_sets FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage gold sets"
+ON public.classification_gold_sets FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Authenticated users can view gold items"
+ON public.classification_gold_items FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage gold items"
+ON public.classification_gold_items FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+-- Results are a record of past runs: admins add and remove them, nobody edits them
+CREATE POLICY "Authenticated users can view benchmark results"
+ON public.classification_benchmark_results FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can record benchmark results"
+ON public.classification_benchmark_results FOR INSERT
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can delete benchmark results"
+ON public.classification_benchmark_results FOR DELETE
+USING (has_role(auth.uid(), 'admin'::app_role));
@@ -0,0 +1,283 @@
+-- Multi-rater classification review: each question under review gets two or
+-- three independent faculty raters who label its Bloom's level and knowledge
+-- dimension without seeing the AI label or each other's answers. Unanimous
+-- labels are written back to the question; any disagreement goes to an
+-- adjudicator, who sees the raters' labels but not who gave them.
+CREATE TABLE public.classification_reviews (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  question_id UUID NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+  -- Number of raters assigned
+  required_ratings INTEGER NOT NULL CHECK (required_ratings BETWEEN 2 AND 3),
+  status TEXT NOT NULL DEFAULT 'rating' CHECK (status IN ('rating', 'adjudication', 'resolved')),
+  final_bloom_level TEXT,
+  final_knowledge_dimension TEXT,
+  resolution TEXT CHECK (resolution IN ('consensus', 'adjudicated')),
+  adjudicated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  adjudication_notes TEXT,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One open review per question
+CREATE UNIQUE INDEX IF NOT EXISTS idx_classification_reviews_open
+ON public.classification_reviews(question_id) WHERE status <> 'resolved';
+
+CREATE INDEX IF NOT EXISTS idx_classification_reviews_status ON public.classification_reviews(status, created_at);
+
+CREATE TABLE public.classification_ratings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  review_id UUID NOT NULL REFERENCES public.classification_reviews(id) ON DELETE CASCADE,
+  rater_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  bloom_level TEXT,
+  knowledge_dimension TEXT,
+  notes TEXT,
+  assigned_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  submitted_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (review_id, rater_id),
+  CHECK (submitted_at IS NULL OR (bloom_level IS NOT NULL AND knowledge_dimension IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_classification_ratings_rater ON public.classification_ratings(rater_id, submitted_at);
+
+ALTER TABLE public.classification_reviews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.classification_ratings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage classification reviews"
+ON public.classification_reviews FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Raters can view reviews assigned to them"
+ON public.classification_reviews FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.classification_ratings cr
+  WHERE cr.review_id = classification_reviews.id AND cr.rater_id = auth.uid()
+));
+
+-- Raters only ever see their own rating; they submit through
+-- submit_classification_rating so a review advances as ratings arrive
+CREATE POLICY "Raters can view their own ratings"
+ON public.classification_ratings FOR SELECT
+USING (rater_id = auth.uid());
+
+CREATE POLICY "Admins can manage ratings"
+ON public.classification_ratings FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE OR REPLACE FUNCTION public.is_classification_label(p_bloom_level TEXT, p_knowledge_dimension TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT p_bloom_level IN ('remembering', 'understanding', 'applying', 'analyzing', 'evaluating', 'creating')
+     AND p_knowledge_dimension IN ('factual', 'conceptual', 'procedural', 'metacognitive');
+$$;
+
+-- Closes a review and writes its labels back to the question, recording a
+-- classification_validations entry so retraining learns from it
+CREATE OR REPLACE FUNCTION public.resolve_classification_review(
+  p_review_id UUID,
+  p_bloom_level TEXT,
+  p_knowledge_dimension TEXT,
+  p_resolution TEXT,
+  p_notes TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_question_id UUID;
+  v_agreement NUMERIC;
+BEGIN
+  UPDATE public.classification_reviews
+  SET status = 'resolved',
+      final_bloom_level = p_bloom_level,
+      final_knowledge_dimension = p_knowledge_dimension,
+      resolution = p_resolution,
+      adjudicated_by = CASE WHEN p_resolution = 'adjudicated' THEN auth.uid() END,
+      adjudication_notes = NULLIF(btrim(p_notes), ''),
+      resolved_at = now()
+  WHERE id = p_review_id
+  RETURNING question_id INTO v_question_id;
+
+  -- Share of raters who gave the final label on both fields
+  SELECT avg(CASE WHEN bloom_level = p_bloom_level AND knowledge_dimension = p_knowledge_dimension THEN 1 ELSE 0 END)
+  INTO v_agreement
+  FROM public.classification_ratings
+  WHERE review_id = p_review_id AND submitted_at IS NOT NULL;
+
+  INSERT INTO public.classification_validations
+    (question_id, validator_id, original_classification, validated_classification, validation_confidence, notes, validation_type)
+  SELECT q.id,
+         auth.uid(),
+         jsonb_build_object('bloom_level', q.bloom_level, 'knowledge_dimension', q.knowledge_dimension, 'difficulty', q.difficulty),
+         jsonb_build_object('bloom_level', p_bloom_level, 'knowledge_dimension', p_knowledge_dimension, 'difficulty', q.difficulty),
+         COALESCE(v_agreement, 0),
+         NULLIF(btrim(p_notes), ''),
+         CASE WHEN p_resolution = 'consensus' THEN 'peer_review' ELSE 'expert_review' END
+  FROM public.questions q
+  WHERE q.id = v_question_id;
+
+  UPDATE public.questions
+  SET bloom_level = p_bloom_level,
+      knowledge_dimension = p_knowledge_dimension,
+      validation_status = 'validated',
+      validated_by = auth.uid(),
+      validation_timestamp = now(),
+      needs_review = false,
+      revision_reason = CASE WHEN p_resolution = 'consensus'
+        THEN 'Classification confirmed by independent raters'
+        ELSE 'Classification adjudicated after rater disagreement' END
+  WHERE id = v_question_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_classification_review(UUID, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Records the caller's rating. The last rating resolves the review when every
+-- rater agrees on both fields and sends it to adjudication otherwise.
+-- Returns the review's status afterwards.
+CREATE OR REPLACE FUNCTION public.submit_classification_rating(
+  p_rating_id UUID,
+  p_bloom_level TEXT,
+  p_knowledge_dimension TEXT,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_review public.classification_reviews;
+  v_pending INTEGER;
+  v_bloom_labels INTEGER;
+  v_knowledge_labels INTEGER;
+BEGIN
+  SELECT r.* INTO v_review
+  FROM public.classification_reviews r
+  JOIN public.classification_ratings cr ON cr.review_id = r.id
+  WHERE cr.id = p_rating_id AND cr.rater_id = auth.uid()
+  FOR UPDATE OF r;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Rating % is not assigned to you', p_rating_id;
+  END IF;
+  IF v_review.status <> 'rating' THEN
+    RAISE EXCEPTION 'Rating for this question has closed';
+  END IF;
+  IF NOT public.is_classification_label(p_bloom_level, p_knowledge_dimension) THEN
+    RAISE EXCEPTION 'Unknown classification % / %', p_bloom_level, p_knowledge_dimension;
+  END IF;
+
+  UPDATE public.classification_ratings
+  SET bloom_level = p_bloom_level,
+      knowledge_dimension = p_knowledge_dimension,
+      notes = NULLIF(btrim(p_notes), ''),
+      submitted_at = now()
+  WHERE id = p_rating_id;
+
+  SELECT count(*) FILTER (WHERE submitted_at IS NULL),
+         count(DISTINCT bloom_level),
+         count(DISTINCT knowledge_dimension)
+  INTO v_pending, v_bloom_labels, v_knowledge_labels
+  FROM public.classification_ratings
+  WHERE review_id = v_review.id;
+
+  IF v_pending > 0 THEN
+    RETURN 'rating';
+  END IF;
+
+  IF v_bloom_labels = 1 AND v_knowledge_labels = 1 THEN
+    PERFORM public.resolve_classification_review(v_review.id, p_bloom_level, p_knowledge_dimension, 'consensus', NULL);
+    RETURN 'resolved';
+  END IF;
+
+  UPDATE public.classification_reviews SET status = 'adjudication' WHERE id = v_review.id;
+  RETURN 'adjudication';
+END;
+$$;
+
+-- Reviews awaiting adjudication with the raters' labels in no particular
+-- order and without rater names. Items the caller rated are left out.
+CREATE OR REPLACE FUNCTION public.get_adjudication_queue()
+RETURNS TABLE (
+  review_id UUID,
+  question_id UUID,
+  question_text TEXT,
+  question_type TEXT,
+  topic TEXT,
+  choices JSONB,
+  ratings JSONB,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only administrators can adjudicate classifications';
+  END IF;
+
+  RETURN QUERY
+  SELECT r.id, q.id, q.question_text, q.question_type, q.topic, q.choices,
+         (SELECT jsonb_agg(jsonb_build_object(
+                   'bloom_level', cr.bloom_level,
+                   'knowledge_dimension', cr.knowledge_dimension,
+                   'notes', cr.notes
+                 ) ORDER BY md5(cr.id::text))
+          FROM public.classification_ratings cr
+          WHERE cr.review_id = r.id),
+         r.created_at
+  FROM public.classification_reviews r
+  JOIN public.questions q ON q.id = r.question_id
+  WHERE r.status = 'adjudication'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.classification_ratings own
+      WHERE own.review_id = r.id AND own.rater_id = auth.uid()
+    )
+  ORDER BY r.created_at;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.adjudicate_classification_review(
+  p_review_id UUID,
+  p_bloom_level TEXT,
+  p_knowledge_dimension TEXT,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only administrators can adjudicate classifications';
+  END IF;
+
+  SELECT status INTO v_status FROM public.classification_reviews WHERE id = p_review_id FOR UPDATE;
+  IF v_status IS DISTINCT FROM 'adjudication' THEN
+    RAISE EXCEPTION 'Review % is not awaiting adjudication', p_review_id;
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM public.classification_ratings
+    WHERE review_id = p_review_id AND rater_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Raters cannot adjudicate questions they rated';
+  END IF;
+  IF NOT public.is_classification_label(p_bloom_level, p_knowledge_dimension) THEN
+    RAISE EXCEPTION 'Unknown classification % / %', p_bloom_level, p_knowledge_dimension;
+  END IF;
+
+  PERFORM public.resolve_classification_review(p_review_id, p_bloom_level, p_knowledge_dimension, 'adjudicated', p_notes);
+END;
+$$;